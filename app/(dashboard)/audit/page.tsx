@@ -7,7 +7,9 @@ import { Button } from '@/components/ui/button'
 import { Modal } from '@/components/ui/modal'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
-import type { AuditLog } from '@/types/database'
+import type { AuditLog, OrganizationRetention } from '@/types/database'
+import type { PriceLedgerChainVerification } from '@/lib/services/price-ledger'
+import type { SnapshotChainVerification } from '@/lib/services/snapshot'
 
 /**
  * Page size for pagination
@@ -25,6 +27,7 @@ const actionLabels: Record<string, string> = {
   publish: 'Yayinlama',
   login: 'Giris',
   logout: 'Cikis',
+  export: 'Disa Aktarma',
 }
 
 /**
@@ -32,12 +35,17 @@ const actionLabels: Record<string, string> = {
  */
 const entityTypeLabels: Record<string, string> = {
   product: 'Urun',
+  product_translation: 'Urun Cevirisi',
   category: 'Kategori',
+  category_translation: 'Kategori Cevirisi',
   organization: 'Isletme',
   menu_snapshot: 'Menu Snapshot',
   restaurant_table: 'Masa',
   service_request: 'Servis Istegi',
   price: 'Fiyat',
+  price_ledger: 'Fiyat Defteri',
+  modifier_option: 'Ekleme Secenegi',
+  bundle: 'Paket',
   user: 'Kullanici',
 }
 
@@ -146,6 +154,15 @@ function formatRelativeTime(dateString: string): string {
   return formatDate(dateString)
 }
 
+/**
+ * Format a date as YYYY-MM-DD for date inputs
+ */
+function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
 /**
  * Audit log viewer page
  *
@@ -153,12 +170,13 @@ function formatRelativeTime(dateString: string): string {
  * Supports filtering by action type, entity type, and date range.
  */
 export default function AuditPage() {
-  const { organization } = useAuth()
+  const { organization, role } = useAuth()
   const [logs, setLogs] = useState<AuditLog[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [totalCount, setTotalCount] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
+  const [retention, setRetention] = useState<OrganizationRetention | null>(null)
 
   // Filter state
   const [actionFilter, setActionFilter] = useState('')
@@ -168,6 +186,28 @@ export default function AuditPage() {
   // Detail modal state
   const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null)
 
+  // Price report state
+  const [reportStart, setReportStart] = useState(() => {
+    const now = new Date()
+    return toDateInputValue(new Date(now.getFullYear(), now.getMonth(), 1))
+  })
+  const [reportEnd, setReportEnd] = useState(() => toDateInputValue(new Date()))
+  const [downloadingReport, setDownloadingReport] = useState<'pdf' | 'json' | null>(null)
+  const [reportError, setReportError] = useState<string | null>(null)
+
+  // Price ledger chain verification state
+  const [verifyingChain, setVerifyingChain] = useState(false)
+  const [chainResult, setChainResult] = useState<PriceLedgerChainVerification | null>(null)
+  const [chainError, setChainError] = useState<string | null>(null)
+
+  // Menu snapshot chain state
+  const [verifyingSnapshots, setVerifyingSnapshots] = useState(false)
+  const [downloadingDigest, setDownloadingDigest] = useState(false)
+  const [snapshotChainResult, setSnapshotChainResult] = useState<SnapshotChainVerification | null>(null)
+  const [snapshotChainError, setSnapshotChainError] = useState<string | null>(null)
+
+  const canUseComplianceTools = role === 'owner' || role === 'admin' || role === 'manager'
+
   /**
    * Fetch audit logs from the database
    */
@@ -219,11 +259,162 @@ export default function AuditPage() {
     fetchLogs()
   }, [fetchLogs])
 
+  /**
+   * Load the retention applied by the daily retention job
+   */
+  useEffect(() => {
+    if (!organization?.id) return
+
+    const supabase = createClient()
+    supabase
+      .from('organization_retention')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .maybeSingle()
+      .then(({ data }) => setRetention(data))
+  }, [organization?.id])
+
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1)
   }, [actionFilter, entityTypeFilter])
 
+  /**
+   * Download the signed price change report
+   */
+  const handleDownloadReport = async (format: 'pdf' | 'json') => {
+    if (!organization?.id) return
+
+    setDownloadingReport(format)
+    setReportError(null)
+
+    try {
+      const params = new URLSearchParams({
+        organizationId: organization.id,
+        startDate: reportStart,
+        endDate: reportEnd,
+        format,
+      })
+      const response = await fetch(`/api/price-ledger/report?${params}`)
+
+      if (!response.ok) {
+        const result = await response.json()
+        setReportError(result.error || 'Rapor olusturulamadi.')
+        return
+      }
+
+      const blob = format === 'pdf'
+        ? await response.blob()
+        : new Blob([JSON.stringify((await response.json()).data.report, null, 2)], {
+            type: 'application/json',
+          })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `fiyat-raporu-${reportStart}-${reportEnd}.${format}`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      // The download is recorded as an export in the audit log
+      fetchLogs()
+    } catch {
+      setReportError('Rapor olusturulamadi.')
+    } finally {
+      setDownloadingReport(null)
+    }
+  }
+
+  /**
+   * Verify the price ledger hash chain
+   */
+  const handleVerifyChain = async () => {
+    if (!organization?.id) return
+
+    setVerifyingChain(true)
+    setChainResult(null)
+    setChainError(null)
+
+    try {
+      const response = await fetch(`/api/price-ledger/verify?organizationId=${organization.id}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setChainError(result.error || 'Dogrulama yapilamadi.')
+        return
+      }
+
+      setChainResult(result.data)
+    } catch {
+      setChainError('Dogrulama yapilamadi.')
+    } finally {
+      setVerifyingChain(false)
+    }
+  }
+
+  /**
+   * Verify every menu snapshot version and its link to the previous one
+   */
+  const handleVerifySnapshots = async () => {
+    if (!organization?.id) return
+
+    setVerifyingSnapshots(true)
+    setSnapshotChainResult(null)
+    setSnapshotChainError(null)
+
+    try {
+      const response = await fetch(`/api/menu/snapshot?organizationId=${organization.id}&chain=true`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setSnapshotChainError(result.error || 'Dogrulama yapilamadi.')
+        return
+      }
+
+      setSnapshotChainResult(result.data)
+    } catch {
+      setSnapshotChainError('Dogrulama yapilamadi.')
+    } finally {
+      setVerifyingSnapshots(false)
+    }
+  }
+
+  /**
+   * Download the snapshot chain head digest for archiving
+   */
+  const handleDownloadDigest = async () => {
+    if (!organization?.id) return
+
+    setDownloadingDigest(true)
+    setSnapshotChainError(null)
+
+    try {
+      const response = await fetch(`/api/menu/snapshot?organizationId=${organization.id}&digest=true`)
+
+      if (!response.ok) {
+        const result = await response.json()
+        setSnapshotChainError(result.error || 'Zincir ozeti alinamadi.')
+        return
+      }
+
+      const digest = await response.json()
+      const blob = new Blob([JSON.stringify(digest, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `menu-zincir-ozeti-${digest.generated_at.slice(0, 10)}.json`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch {
+      setSnapshotChainError('Zincir ozeti alinamadi.')
+    } finally {
+      setDownloadingDigest(false)
+    }
+  }
+
   /**
    * Get unique action types from logs for filter dropdown
    */
@@ -282,6 +473,13 @@ export default function AuditPage() {
           <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
             Isletmenizde yapilan tum degisikliklerin kronolojik kaydi
           </p>
+          {retention?.archived_before && (
+            <p className="mt-1 text-xs text-secondary-500 dark:text-secondary-400">
+              Paketiniz kayitlari {retention.retention_days} gun saklar;{' '}
+              {formatDate(retention.archived_before)} oncesi kayitlar arsivlendi. Fiyat defteri
+              ve menu surumleri her zaman saklanir.
+            </p>
+          )}
         </div>
         <Button
           variant="secondary"
@@ -313,6 +511,175 @@ export default function AuditPage() {
         </div>
       )}
 
+      {/* Price compliance report */}
+      {canUseComplianceTools && (
+        <Card>
+          <CardHeader
+            title="Fiyat Degisiklik Raporu"
+            subtitle="Denetimler icin tarih araligindaki tum fiyat degisiklikleri. Her sayfada rapor iceriginin SHA-256 ozeti bulunur."
+          />
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-4 sm:items-end">
+              <Input
+                label="Baslangic"
+                type="date"
+                value={reportStart}
+                onChange={(e) => setReportStart(e.target.value)}
+              />
+              <Input
+                label="Bitis"
+                type="date"
+                value={reportEnd}
+                onChange={(e) => setReportEnd(e.target.value)}
+              />
+              <Button
+                onClick={() => handleDownloadReport('pdf')}
+                isLoading={downloadingReport === 'pdf'}
+                disabled={!reportStart || !reportEnd || !!downloadingReport}
+              >
+                PDF Indir
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => handleDownloadReport('json')}
+                isLoading={downloadingReport === 'json'}
+                disabled={!reportStart || !reportEnd || !!downloadingReport}
+              >
+                JSON Indir
+              </Button>
+            </div>
+            <p className="mt-2 text-xs text-secondary-500 dark:text-secondary-400">
+              JSON dosyasi raporun imzalanan icerigidir; SHA-256 ozeti PDF&apos;teki ozetle ayni olmalidir.
+            </p>
+            {reportError && (
+              <div
+                className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {reportError}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Price ledger chain verification */}
+      {canUseComplianceTools && (
+        <Card>
+          <CardHeader
+            title="Fiyat Defteri Butunlugu"
+            subtitle="Her fiyat kaydi bir oncekinin SHA-256 ozetini tasir. Veritabaninda dogrudan yapilan degisiklikler zinciri bozar."
+          />
+          <CardContent>
+            <Button
+              variant="secondary"
+              onClick={handleVerifyChain}
+              isLoading={verifyingChain}
+            >
+              Zinciri Dogrula
+            </Button>
+            {chainResult && chainResult.valid && (
+              <div
+                className="mt-3 rounded-lg bg-green-50 border border-green-200 p-3 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+                role="status"
+              >
+                <p>Zincir saglam: {chainResult.entryCount} fiyat kaydi dogrulandi.</p>
+                {chainResult.headHash && (
+                  <p className="mt-1 break-all font-mono text-xs">Son ozet: {chainResult.headHash}</p>
+                )}
+              </div>
+            )}
+            {chainResult && chainResult.brokenLink && (
+              <div
+                className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                <p className="font-medium">
+                  Zincir bozuk
+                  {chainResult.brokenLink.position !== null && ` (${chainResult.brokenLink.position}. kayit)`}
+                </p>
+                <p className="mt-1">{chainResult.brokenLink.reason}</p>
+                <p className="mt-1 break-all font-mono text-xs">Kayit ID: {chainResult.brokenLink.entryId}</p>
+              </div>
+            )}
+            {chainError && (
+              <div
+                className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {chainError}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Menu snapshot chain verification */}
+      {canUseComplianceTools && (
+        <Card>
+          <CardHeader
+            title="Menu Surum Zinciri"
+            subtitle="Her yayinlanan menu surumu bir oncekinin ozetini icerir. Silinen veya degistirilen surumler zinciri bozar."
+          />
+          <CardContent>
+            <div className="flex flex-wrap gap-3">
+              <Button
+                variant="secondary"
+                onClick={handleVerifySnapshots}
+                isLoading={verifyingSnapshots}
+              >
+                Surumleri Dogrula
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleDownloadDigest}
+                isLoading={downloadingDigest}
+              >
+                Zincir Ozetini Indir
+              </Button>
+            </div>
+            <p className="mt-2 text-xs text-secondary-500 dark:text-secondary-400">
+              Zincir ozetini veritabani disinda saklayin; sonraki dogrulamalarda son ozet bu dosyayla ayni olmalidir.
+            </p>
+            {snapshotChainResult && snapshotChainResult.valid && (
+              <div
+                className="mt-3 rounded-lg bg-green-50 border border-green-200 p-3 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+                role="status"
+              >
+                <p>
+                  Zincir saglam: {snapshotChainResult.snapshotCount} surum dogrulandi
+                  {snapshotChainResult.legacyCount > 0 &&
+                    ` (${snapshotChainResult.legacyCount} eski surum yalnizca icerik ozetiyle)`}
+                  .
+                </p>
+                {snapshotChainResult.head && (
+                  <p className="mt-1 break-all font-mono text-xs">
+                    v{snapshotChainResult.head.version}: {snapshotChainResult.head.hash}
+                  </p>
+                )}
+              </div>
+            )}
+            {snapshotChainResult && snapshotChainResult.brokenLink && (
+              <div
+                className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                <p className="font-medium">Zincir bozuk (v{snapshotChainResult.brokenLink.version})</p>
+                <p className="mt-1">{snapshotChainResult.brokenLink.reason}</p>
+              </div>
+            )}
+            {snapshotChainError && (
+              <div
+                className="mt-3 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {snapshotChainError}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardContent className="py-4">
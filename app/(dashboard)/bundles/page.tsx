@@ -0,0 +1,495 @@
+'use client'
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Input, Textarea } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { createClient } from '@/lib/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import type { Bundle, BundleItem, Product } from '@/types/database'
+
+/**
+ * Bundle as returned by /api/bundles
+ */
+interface BundleRow extends Bundle {
+  items: BundleItem[]
+  price: number | null
+  currency: string
+}
+
+/**
+ * Bundle form data
+ */
+interface BundleFormData {
+  name: string
+  description: string
+  price: string
+  change_reason: string
+  items: Array<{ product_id: string; quantity: string }>
+}
+
+const emptyForm: BundleFormData = {
+  name: '',
+  description: '',
+  price: '',
+  change_reason: '',
+  items: [
+    { product_id: '', quantity: '1' },
+    { product_id: '', quantity: '1' },
+  ],
+}
+
+const selectClassName =
+  'w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100'
+
+/**
+ * Bundles Page
+ *
+ * Builds set menus from existing products (module_bundles). Bundle prices
+ * are recorded in the immutable bundle price ledger. A bundle is hidden on
+ * the public menu while any of its products is hidden.
+ */
+export default function BundlesPage() {
+  const { organization, membership } = useAuth()
+  const [bundles, setBundles] = useState<BundleRow[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Modal state
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingBundle, setEditingBundle] = useState<BundleRow | null>(null)
+  const [formData, setFormData] = useState<BundleFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = membership && ['owner', 'admin', 'manager'].includes(membership.role)
+
+  /**
+   * Fetch bundles and products
+   */
+  const fetchData = useCallback(async () => {
+    if (!organization?.id) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/bundles?organizationId=${organization.id}`)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+      setBundles(result.data || [])
+
+      const supabase = createClient()
+
+      const { data: productsData } = await supabase
+        .from('products')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .order('name', { ascending: true })
+
+      setProducts(productsData || [])
+    } catch {
+      setError('Menu paketleri yuklenirken bir hata olustu.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organization?.id])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  /**
+   * Open modal for a new bundle
+   */
+  const handleAddBundle = () => {
+    setEditingBundle(null)
+    setFormData(emptyForm)
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Open modal for editing a bundle
+   */
+  const handleEditBundle = (bundle: BundleRow) => {
+    setEditingBundle(bundle)
+    setFormData({
+      name: bundle.name,
+      description: bundle.description || '',
+      price: bundle.price?.toString() || '',
+      change_reason: '',
+      items: [...bundle.items]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((item) => ({
+          product_id: item.product_id,
+          quantity: String(item.quantity),
+        })),
+    })
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Update a single item row in the form
+   */
+  const handleItemChange = (index: number, field: 'product_id' | 'quantity', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.map((item, i) =>
+        i === index ? { ...item, [field]: value } : item
+      ),
+    }))
+  }
+
+  /**
+   * Save bundle (create or update)
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!organization?.id) return
+
+    setFormError(null)
+    setIsSaving(true)
+
+    try {
+      const payload = {
+        organizationId: organization.id,
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        price: parseFloat(formData.price),
+        changeReason: formData.change_reason.trim() || undefined,
+        items: formData.items.map((item) => ({
+          productId: item.product_id,
+          quantity: parseInt(item.quantity, 10),
+        })),
+      }
+
+      const response = await fetch(
+        editingBundle ? `/api/bundles/${editingBundle.id}` : '/api/bundles',
+        {
+          method: editingBundle ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        setFormError(result.error || 'Paket kaydedilirken bir hata olustu.')
+        return
+      }
+
+      setIsModalOpen(false)
+      setSuccess('Paket kaydedildi. Degisiklikler menu yayinlandiginda gorunur.')
+      await fetchData()
+    } catch {
+      setFormError('Paket kaydedilirken bir hata olustu.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Deactivate a bundle
+   */
+  const handleDeactivate = async (bundle: BundleRow) => {
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const response = await fetch(`/api/bundles/${bundle.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Paket devre disi birakilirken bir hata olustu.')
+        return
+      }
+
+      setSuccess('Paket devre disi birakildi. Degisiklik menu yayinlandiginda gorunur.')
+      await fetchData()
+    } catch {
+      setError('Paket devre disi birakilirken bir hata olustu.')
+    }
+  }
+
+  /**
+   * Names of hidden or missing products that keep a bundle off the menu
+   */
+  const getHiddenProductNames = (bundle: BundleRow): string[] =>
+    bundle.items
+      .map((item) => products.find((p) => p.id === item.product_id))
+      .filter((product) => !product || !product.is_visible)
+      .map((product) => product?.name || 'Silinmis urun')
+
+  /**
+   * Describe the components of a bundle
+   */
+  const getItemsLabel = (bundle: BundleRow): string =>
+    [...bundle.items]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((item) => {
+        const name = products.find((p) => p.id === item.product_id)?.name || 'Silinmis urun'
+        return item.quantity > 1 ? `${item.quantity} x ${name}` : name
+      })
+      .join(' + ')
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">
+            Menu Paketleri
+          </h1>
+          <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+            Mevcut urunlerden kendi fiyati olan set menuler olusturun
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleAddBundle} leftIcon={
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          }>
+            Yeni Paket
+          </Button>
+        )}
+      </div>
+
+      {/* Success message */}
+      {success && (
+        <div
+          className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+          role="status"
+        >
+          {success}
+        </div>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <div
+          className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+          role="alert"
+        >
+          {error}
+          <button
+            type="button"
+            onClick={() => setError(null)}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Kapat
+          </button>
+        </div>
+      )}
+
+      {/* Bundles list */}
+      <Card>
+        <CardHeader
+          title="Paketler"
+          subtitle="Paket fiyatlari fiyat defterine kaydedilir; gizli urun iceren paketler menude gosterilmez"
+        />
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+            </div>
+          ) : bundles.length === 0 ? (
+            <div className="py-12 text-center">
+              <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                Henuz paket yok
+              </h3>
+              <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+                Ilk menu paketinizi olusturun.
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-secondary-100 dark:divide-secondary-700/50">
+              {bundles.map((bundle) => {
+                const hiddenProducts = bundle.is_active ? getHiddenProductNames(bundle) : []
+
+                return (
+                  <div
+                    key={bundle.id}
+                    className={`flex items-center gap-4 py-3 ${!bundle.is_active ? 'opacity-60' : ''}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-secondary-900 dark:text-secondary-100">
+                        {bundle.name}
+                        {bundle.price !== null && (
+                          <span className="ml-2 text-sm font-normal text-secondary-600 dark:text-secondary-400">
+                            {Number(bundle.price).toFixed(2)} TL
+                          </span>
+                        )}
+                        {!bundle.is_active && (
+                          <span className="ml-2 rounded bg-secondary-100 px-1.5 py-0.5 text-xs text-secondary-600 dark:bg-secondary-700 dark:text-secondary-400">
+                            Pasif
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                        {getItemsLabel(bundle)}
+                      </p>
+                      {hiddenProducts.length > 0 && (
+                        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                          Menude gizli: {hiddenProducts.join(', ')} gizli oldugu icin paket gosterilmez
+                        </p>
+                      )}
+                    </div>
+                    {canEdit && bundle.is_active && (
+                      <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditBundle(bundle)}>
+                          Duzenle
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDeactivate(bundle)}>
+                          Devre Disi Birak
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingBundle ? 'Paketi Duzenle' : 'Yeni Paket'}
+      >
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            {formError && (
+              <div
+                className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {formError}
+              </div>
+            )}
+
+            <Input
+              label="Paket Adi"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Ornegin: Burger Menu"
+              required
+              disabled={isSaving}
+            />
+
+            <Textarea
+              label="Aciklama"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+              disabled={isSaving}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Paket Fiyati (TL)"
+                type="number"
+                value={formData.price}
+                onChange={(e) => setFormData(prev => ({ ...prev, price: e.target.value }))}
+                placeholder="0.00"
+                min={0}
+                step={0.01}
+                required
+                disabled={isSaving}
+              />
+              <Input
+                label="Degisiklik Nedeni"
+                value={formData.change_reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, change_reason: e.target.value }))}
+                placeholder="Opsiyonel"
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Paketteki Urunler
+              </label>
+              {formData.items.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <select
+                      value={item.product_id}
+                      onChange={(e) => handleItemChange(index, 'product_id', e.target.value)}
+                      className={selectClassName}
+                      aria-label="Urun"
+                      disabled={isSaving}
+                    >
+                      <option value="">Urun secin</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name}{!product.is_visible ? ' (gizli)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="w-20">
+                    <Input
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) => handleItemChange(index, 'quantity', e.target.value)}
+                      aria-label="Adet"
+                      min={1}
+                      step={1}
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      items: prev.items.filter((_, i) => i !== index),
+                    }))}
+                    disabled={isSaving || formData.items.length <= 2}
+                  >
+                    Kaldir
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  items: [...prev.items, { product_id: '', quantity: '1' }],
+                }))}
+                disabled={isSaving}
+              >
+                Urun Ekle
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsModalOpen(false)}
+              disabled={isSaving}
+            >
+              Iptal
+            </Button>
+            <Button type="submit" isLoading={isSaving}>
+              {editingBundle ? 'Guncelle' : 'Olustur'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
@@ -7,7 +7,8 @@ import { Button } from '@/components/ui/button'
 import { Modal } from '@/components/ui/modal'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
-import type { Category } from '@/types/database'
+import { getLocaleName } from '@/lib/i18n/locales'
+import type { Category, CategoryTranslation } from '@/types/database'
 
 /**
  * Generate a URL-safe slug from a string (Turkish character support)
@@ -165,6 +166,11 @@ export default function CategoriesPage() {
   })
   const [formError, setFormError] = useState<string | null>(null)
 
+  // Translation state: enabled languages, saved translations and form values by locale
+  const [languages, setLanguages] = useState<string[]>([])
+  const [categoryTranslations, setCategoryTranslations] = useState<CategoryTranslation[]>([])
+  const [translationNames, setTranslationNames] = useState<Record<string, string>>({})
+
   // Delete confirmation state
   const [deleteTarget, setDeleteTarget] = useState<Category | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
@@ -188,6 +194,21 @@ export default function CategoriesPage() {
 
       if (fetchError) throw fetchError
       setCategories(data || [])
+
+      // Fetch enabled languages and category translations
+      const { data: languagesData } = await supabase
+        .from('organization_languages')
+        .select('locale')
+        .eq('organization_id', organization.id)
+        .order('sort_order', { ascending: true })
+
+      const { data: translationsData } = await supabase
+        .from('category_translations')
+        .select('*')
+        .eq('organization_id', organization.id)
+
+      setLanguages((languagesData || []).map((l) => l.locale))
+      setCategoryTranslations(translationsData || [])
     } catch {
       setError('Kategoriler yuklenirken bir hata olustu.')
     } finally {
@@ -211,6 +232,7 @@ export default function CategoriesPage() {
       sort_order: categories.length,
       is_visible: true,
     })
+    setTranslationNames({})
     setFormError(null)
     setIsModalOpen(true)
   }
@@ -227,6 +249,13 @@ export default function CategoriesPage() {
       sort_order: category.sort_order,
       is_visible: category.is_visible,
     })
+    setTranslationNames(
+      Object.fromEntries(
+        categoryTranslations
+          .filter((t) => t.category_id === category.id)
+          .map((t) => [t.locale, t.name])
+      )
+    )
     setFormError(null)
     setIsModalOpen(true)
   }
@@ -254,6 +283,8 @@ export default function CategoriesPage() {
         organization_id: organization.id,
       }
 
+      let categoryId = editingCategory?.id
+
       if (editingCategory) {
         // Update existing category
         const { error: updateError } = await supabase
@@ -264,11 +295,45 @@ export default function CategoriesPage() {
         if (updateError) throw updateError
       } else {
         // Create new category
-        const { error: insertError } = await supabase
+        const { data: inserted, error: insertError } = await supabase
           .from('categories')
           .insert(categoryData)
+          .select('id')
+          .single()
 
         if (insertError) throw insertError
+        categoryId = inserted.id
+      }
+
+      // Save translations: filled locales are upserted, emptied ones removed
+      if (categoryId && languages.length > 0) {
+        const filled = languages
+          .filter((locale) => translationNames[locale]?.trim())
+          .map((locale) => ({
+            organization_id: organization.id,
+            category_id: categoryId,
+            locale,
+            name: translationNames[locale].trim(),
+          }))
+        const emptied = languages.filter((locale) => !translationNames[locale]?.trim())
+
+        if (filled.length > 0) {
+          const { error: translationError } = await supabase
+            .from('category_translations')
+            .upsert(filled, { onConflict: 'category_id,locale' })
+
+          if (translationError) throw translationError
+        }
+
+        if (emptied.length > 0) {
+          const { error: translationDeleteError } = await supabase
+            .from('category_translations')
+            .delete()
+            .eq('category_id', categoryId)
+            .in('locale', emptied)
+
+          if (translationDeleteError) throw translationDeleteError
+        }
       }
 
       setIsModalOpen(false)
@@ -513,6 +578,17 @@ export default function CategoriesPage() {
               disabled={isSaving}
             />
 
+            {languages.map((locale) => (
+              <Input
+                key={locale}
+                label={`Kategori Adi (${getLocaleName(locale)})`}
+                value={translationNames[locale] || ''}
+                onChange={(e) => setTranslationNames(prev => ({ ...prev, [locale]: e.target.value }))}
+                helperText="Bos birakirsaniz Turkce ad gosterilir"
+                disabled={isSaving}
+              />
+            ))}
+
             <div className="flex items-center gap-3">
               <input
                 type="checkbox"
@@ -63,6 +63,15 @@ const navItems = [
       </svg>
     ),
   },
+  {
+    name: 'Menu Gecmisi',
+    href: '/menu-history',
+    icon: (
+      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
   {
     name: 'Ayarlar',
     href: '/settings',
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 import { Card, CardHeader, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { UnpublishedChanges } from '@/components/dashboard/menu-changes'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
 import {
@@ -12,6 +13,7 @@ import {
   generateQRCodePDF,
   type QRCodePNGSize,
 } from '@/lib/qrcode/generator'
+import type { LimitStatus } from '@/lib/guards/limits'
 
 /**
  * Dashboard statistics interface
@@ -24,6 +26,27 @@ interface DashboardStats {
   pendingServiceRequests: number
 }
 
+/**
+ * Plan limits shown in the usage card (features without a countable usage
+ * such as export formats are left out)
+ */
+const LIMIT_LABELS: Record<string, string> = {
+  limit_categories: 'Kategori',
+  limit_products: 'Urun',
+  limit_languages: 'Dil',
+  limit_price_revisions: 'Fiyat Revize',
+}
+
+/**
+ * Period names for periodic limits
+ */
+const PERIOD_LABELS: Record<string, string> = {
+  day: 'bugun',
+  week: 'bu hafta',
+  month: 'bu ay',
+  year: 'bu yil',
+}
+
 /**
  * QR download format options
  */
@@ -39,6 +62,7 @@ export default function DashboardClient() {
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [isLoadingStats, setIsLoadingStats] = useState(true)
   const [statsError, setStatsError] = useState<string | null>(null)
+  const [limits, setLimits] = useState<LimitStatus[]>([])
 
   // QR Code state
   const [qrSvg, setQrSvg] = useState<string | null>(null)
@@ -95,6 +119,25 @@ export default function DashboardClient() {
     }
   }, [organization?.id])
 
+  /**
+   * Fetch plan limit usage
+   */
+  const fetchLimits = useCallback(async () => {
+    if (!organization?.id) return
+
+    try {
+      const response = await fetch(`/api/limits?organizationId=${organization.id}`)
+      const result = await response.json()
+      if (result.success) {
+        setLimits(
+          (result.data as LimitStatus[]).filter((limit) => LIMIT_LABELS[limit.featureKey])
+        )
+      }
+    } catch {
+      // Usage card stays hidden
+    }
+  }, [organization?.id])
+
   /**
    * Generate QR code preview
    */
@@ -122,8 +165,9 @@ export default function DashboardClient() {
   // Fetch data on mount
   useEffect(() => {
     fetchStats()
+    fetchLimits()
     generateQRPreview()
-  }, [fetchStats, generateQRPreview])
+  }, [fetchStats, fetchLimits, generateQRPreview])
 
   /**
    * Download QR code in specified format
@@ -422,6 +466,64 @@ export default function DashboardClient() {
         </div>
       )}
 
+      {/* Plan usage */}
+      {limits.length > 0 && (
+        <Card>
+          <CardHeader
+            title="Paket Kullanimi"
+            subtitle={`${limits[0].planName ?? 'Paketiniz'} paketindeki limitleriniz`}
+          />
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {limits.map((limit) => (
+                <div key={limit.featureKey}>
+                  <div className="flex items-baseline justify-between text-sm">
+                    <span className="font-medium text-secondary-700 dark:text-secondary-300">
+                      {LIMIT_LABELS[limit.featureKey]}
+                      {limit.period && (
+                        <span className="font-normal text-secondary-500"> ({PERIOD_LABELS[limit.period]})</span>
+                      )}
+                    </span>
+                    <span className="text-secondary-500 dark:text-secondary-400">
+                      {limit.isUnlimited
+                        ? 'Sinirsiz'
+                        : `${formatNumber(limit.currentCount)} / ${formatNumber(limit.limit)}`}
+                    </span>
+                  </div>
+                  <div className="mt-2 h-2 overflow-hidden rounded-full bg-secondary-100 dark:bg-secondary-800">
+                    <div
+                      className={`h-full rounded-full ${
+                        limit.usagePercent >= 100
+                          ? 'bg-red-500'
+                          : limit.usagePercent >= 80
+                            ? 'bg-amber-500'
+                            : 'bg-primary-600'
+                      }`}
+                      style={{ width: `${limit.isUnlimited ? 0 : limit.usagePercent}%` }}
+                    />
+                  </div>
+                  {limit.resetsAt && !limit.isUnlimited && (
+                    <p className="mt-1 text-xs text-secondary-500 dark:text-secondary-400">
+                      Yenilenme: {new Date(limit.resetsAt).toLocaleDateString('tr-TR')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Changes waiting for the next publish */}
+      {organization?.id && (
+        <UnpublishedChanges
+          organizationId={organization.id}
+          organizationSlug={organization.slug}
+          canPublish={membership?.role === 'owner' || membership?.role === 'admin'}
+          canRequestPublish={membership?.role === 'manager'}
+        />
+      )}
+
       {/* Main content grid */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* QR Code Section */}
@@ -0,0 +1,525 @@
+'use client'
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { createClient } from '@/lib/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import type { PriceRule, Product, Category } from '@/types/database'
+
+/**
+ * Day labels indexed by ISO weekday (1 = Monday)
+ */
+const DAYS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'Pzt' },
+  { value: 2, label: 'Sal' },
+  { value: 3, label: 'Car' },
+  { value: 4, label: 'Per' },
+  { value: 5, label: 'Cum' },
+  { value: 6, label: 'Cmt' },
+  { value: 7, label: 'Paz' },
+]
+
+/**
+ * Price rule form data
+ */
+interface RuleFormData {
+  name: string
+  target_type: 'product' | 'category'
+  target_id: string
+  discount_type: 'percentage' | 'fixed'
+  discount_value: string
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+}
+
+const emptyForm: RuleFormData = {
+  name: '',
+  target_type: 'category',
+  target_id: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '17:00',
+  end_time: '19:00',
+}
+
+/**
+ * Happy Hour Page
+ *
+ * Manages time-window discount rules (module_happy_hour). Every change
+ * publishes a new menu snapshot and records the discounted prices in the
+ * immutable discounted price ledger.
+ */
+export default function HappyHourPage() {
+  const { organization, membership } = useAuth()
+  const [rules, setRules] = useState<PriceRule[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Modal state
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<PriceRule | null>(null)
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = membership && ['owner', 'admin', 'manager'].includes(membership.role)
+
+  /**
+   * Fetch rules, products and categories
+   */
+  const fetchData = useCallback(async () => {
+    if (!organization?.id) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/price-rules?organizationId=${organization.id}`)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+      setRules(result.data || [])
+
+      const supabase = createClient()
+
+      const { data: productsData } = await supabase
+        .from('products')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .order('name', { ascending: true })
+
+      const { data: categoriesData } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .order('sort_order', { ascending: true })
+
+      setProducts(productsData || [])
+      setCategories(categoriesData || [])
+    } catch {
+      setError('Happy hour kurallari yuklenirken bir hata olustu.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organization?.id])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  /**
+   * Open modal for a new rule
+   */
+  const handleAddRule = () => {
+    setEditingRule(null)
+    setFormData(emptyForm)
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Open modal for editing a rule
+   */
+  const handleEditRule = (rule: PriceRule) => {
+    setEditingRule(rule)
+    setFormData({
+      name: rule.name,
+      target_type: rule.product_id ? 'product' : 'category',
+      target_id: rule.product_id || rule.category_id || '',
+      discount_type: rule.discount_type,
+      discount_value: String(rule.discount_value),
+      days_of_week: rule.days_of_week,
+      start_time: rule.start_time.slice(0, 5),
+      end_time: rule.end_time.slice(0, 5),
+    })
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Toggle a weekday in the form
+   */
+  const toggleDay = (day: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter((d) => d !== day)
+        : [...prev.days_of_week, day].sort((a, b) => a - b),
+    }))
+  }
+
+  /**
+   * Save rule (create or update) - publishes the new prices server side
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!organization?.id) return
+
+    if (!formData.target_id) {
+      setFormError('Lutfen bir urun veya kategori secin.')
+      return
+    }
+
+    setFormError(null)
+    setIsSaving(true)
+
+    try {
+      const payload = {
+        organizationId: organization.id,
+        name: formData.name.trim(),
+        productId: formData.target_type === 'product' ? formData.target_id : null,
+        categoryId: formData.target_type === 'category' ? formData.target_id : null,
+        discountType: formData.discount_type,
+        discountValue: parseFloat(formData.discount_value),
+        daysOfWeek: formData.days_of_week,
+        startTime: formData.start_time,
+        endTime: formData.end_time,
+      }
+
+      const response = await fetch(
+        editingRule ? `/api/price-rules/${editingRule.id}` : '/api/price-rules',
+        {
+          method: editingRule ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        setFormError(result.error || 'Kural kaydedilirken bir hata olustu.')
+        return
+      }
+
+      setIsModalOpen(false)
+      setSuccess(
+        result.data.snapshotVersion
+          ? `Kural kaydedildi ve menu yayinlandi (v${result.data.snapshotVersion}).`
+          : 'Kural kaydedildi. Menu ilk kez yayinlandiginda gecerli olacak.'
+      )
+      await fetchData()
+    } catch {
+      setFormError('Kural kaydedilirken bir hata olustu.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Deactivate a rule - publishes the new prices server side
+   */
+  const handleDeactivate = async (rule: PriceRule) => {
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const response = await fetch(`/api/price-rules/${rule.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Kural devre disi birakilirken bir hata olustu.')
+        return
+      }
+
+      setSuccess(
+        result.data.snapshotVersion
+          ? `Kural devre disi birakildi ve menu yayinlandi (v${result.data.snapshotVersion}).`
+          : 'Kural devre disi birakildi.'
+      )
+      await fetchData()
+    } catch {
+      setError('Kural devre disi birakilirken bir hata olustu.')
+    }
+  }
+
+  /**
+   * Describe the rule target
+   */
+  const getTargetName = (rule: PriceRule): string => {
+    if (rule.product_id) {
+      return products.find((p) => p.id === rule.product_id)?.name || 'Urun'
+    }
+    return categories.find((c) => c.id === rule.category_id)?.name || 'Kategori'
+  }
+
+  /**
+   * Describe the rule discount
+   */
+  const getDiscountLabel = (rule: PriceRule): string =>
+    rule.discount_type === 'percentage'
+      ? `%${Number(rule.discount_value)} indirim`
+      : `${Number(rule.discount_value).toFixed(2)} TL indirim`
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">
+            Happy Hour
+          </h1>
+          <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+            Belirli gun ve saatlerde gecerli indirim kurallarini yonetin
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleAddRule} leftIcon={
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          }>
+            Yeni Kural
+          </Button>
+        )}
+      </div>
+
+      {/* Success message */}
+      {success && (
+        <div
+          className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+          role="status"
+        >
+          {success}
+        </div>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <div
+          className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+          role="alert"
+        >
+          {error}
+          <button
+            type="button"
+            onClick={() => setError(null)}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Kapat
+          </button>
+        </div>
+      )}
+
+      {/* Rules list */}
+      <Card>
+        <CardHeader
+          title="Indirim Kurallari"
+          subtitle="Indirimli fiyatlar menu yayinlandiginda fiyat defterine kaydedilir"
+        />
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="py-12 text-center">
+              <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                Henuz kural yok
+              </h3>
+              <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+                Ilk happy hour kuralinizi olusturun.
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-secondary-100 dark:divide-secondary-700/50">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center gap-4 py-3 ${!rule.is_active ? 'opacity-60' : ''}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-secondary-900 dark:text-secondary-100">
+                      {rule.name}
+                      {!rule.is_active && (
+                        <span className="ml-2 rounded bg-secondary-100 px-1.5 py-0.5 text-xs text-secondary-600 dark:bg-secondary-700 dark:text-secondary-400">
+                          Pasif
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      {getTargetName(rule)} &middot; {getDiscountLabel(rule)} &middot;{' '}
+                      {DAYS.filter((d) => rule.days_of_week.includes(d.value)).map((d) => d.label).join(', ')}{' '}
+                      {rule.start_time.slice(0, 5)}-{rule.end_time.slice(0, 5)}
+                    </p>
+                  </div>
+                  {canEdit && rule.is_active && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditRule(rule)}>
+                        Duzenle
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDeactivate(rule)}>
+                        Devre Disi Birak
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingRule ? 'Kurali Duzenle' : 'Yeni Kural'}
+      >
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            {formError && (
+              <div
+                className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {formError}
+              </div>
+            )}
+
+            <Input
+              label="Kural Adi"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Ornegin: Aksam Happy Hour"
+              required
+              disabled={isSaving}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  Hedef
+                </label>
+                <select
+                  value={formData.target_type}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    target_type: e.target.value as RuleFormData['target_type'],
+                    target_id: '',
+                  }))}
+                  className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                  disabled={isSaving}
+                >
+                  <option value="category">Kategori</option>
+                  <option value="product">Urun</option>
+                </select>
+              </div>
+              <div>
+                <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  {formData.target_type === 'product' ? 'Urun' : 'Kategori'}
+                </label>
+                <select
+                  value={formData.target_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, target_id: e.target.value }))}
+                  className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                  disabled={isSaving}
+                >
+                  <option value="">Secin</option>
+                  {(formData.target_type === 'product' ? products : categories).map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  Indirim Tipi
+                </label>
+                <select
+                  value={formData.discount_type}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    discount_type: e.target.value as RuleFormData['discount_type'],
+                  }))}
+                  className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                  disabled={isSaving}
+                >
+                  <option value="percentage">Yuzde (%)</option>
+                  <option value="fixed">Tutar (TL)</option>
+                </select>
+              </div>
+              <Input
+                label="Indirim"
+                type="number"
+                value={formData.discount_value}
+                onChange={(e) => setFormData(prev => ({ ...prev, discount_value: e.target.value }))}
+                min={0}
+                step={0.01}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Gunler
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {DAYS.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleDay(day.value)}
+                    className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
+                      formData.days_of_week.includes(day.value)
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200 dark:bg-secondary-700 dark:text-secondary-300'
+                    }`}
+                    disabled={isSaving}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Baslangic"
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData(prev => ({ ...prev, start_time: e.target.value }))}
+                required
+                disabled={isSaving}
+              />
+              <Input
+                label="Bitis"
+                type="time"
+                value={formData.end_time}
+                onChange={(e) => setFormData(prev => ({ ...prev, end_time: e.target.value }))}
+                helperText="Baslangictan erken ise gece yarisini gecer"
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsModalOpen(false)}
+              disabled={isSaving}
+            >
+              Iptal
+            </Button>
+            <Button type="submit" isLoading={isSaving}>
+              {editingRule ? 'Guncelle ve Yayinla' : 'Olustur ve Yayinla'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { useAuth } from '@/hooks/useAuth'
+import type { MenuSnapshot, SnapshotHashAlgorithm } from '@/types/database'
+
+/**
+ * Hash verification returned with the snapshot
+ */
+interface SnapshotVerification {
+  isValid: boolean
+  storedHash?: string
+  computedHash?: string
+  algorithm?: SnapshotHashAlgorithm
+  verifiedAt: string
+}
+
+/**
+ * Format a Date as a datetime-local input value (local time)
+ */
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+/**
+ * Menu History Page
+ *
+ * Answers "what did the menu say on date X": finds the snapshot that was
+ * live at the chosen moment, shows its hash verification and renders it
+ * as guests saw it (happy hour prices evaluated at that moment). Owners and
+ * admins can republish the shown version after a bad publish (rollback).
+ */
+export default function MenuHistoryPage() {
+  const { organization, membership } = useAuth()
+  const [moment, setMoment] = useState(() => toLocalInputValue(new Date()))
+  const [at, setAt] = useState<string | null>(null)
+  const [snapshot, setSnapshot] = useState<MenuSnapshot | null>(null)
+  const [verification, setVerification] = useState<SnapshotVerification | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [isRollbackOpen, setIsRollbackOpen] = useState(false)
+  const [rollbackReason, setRollbackReason] = useState('')
+  const [isRollingBack, setIsRollingBack] = useState(false)
+
+  const canRollback = membership?.role === 'owner' || membership?.role === 'admin'
+
+  /**
+   * Look up the snapshot that was live at the chosen moment
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!organization?.id || !moment) return
+
+    const iso = new Date(moment).toISOString()
+
+    setError(null)
+    setSuccess(null)
+    setSnapshot(null)
+    setVerification(null)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(
+        `/api/menu/snapshot?organizationId=${organization.id}&at=${encodeURIComponent(iso)}`
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Menu surumu bulunamadi.')
+        return
+      }
+
+      setAt(iso)
+      setSnapshot(result.data)
+      setVerification(result.verification)
+    } catch {
+      setError('Menu surumu yuklenemedi.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Republish the shown version as a new snapshot
+   */
+  const handleRollback = async () => {
+    if (!organization?.id || !snapshot) return
+
+    setError(null)
+    setSuccess(null)
+    setIsRollingBack(true)
+
+    try {
+      const response = await fetch('/api/menu/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId: organization.id,
+          version: snapshot.version,
+          reason: rollbackReason,
+        }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Menu geri alinamadi.')
+        return
+      }
+
+      setSuccess(
+        `v${result.data.rolledBackTo} yeniden yayinlandi (yeni surum: v${result.data.version}).`
+      )
+      setRollbackReason('')
+    } catch {
+      setError('Menu geri alinamadi.')
+    } finally {
+      setIsRollingBack(false)
+      setIsRollbackOpen(false)
+    }
+  }
+
+  const historyUrl =
+    organization && at ? `/menu/${organization.slug}/history/${encodeURIComponent(at)}` : null
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">
+          Menu Gecmisi
+        </h1>
+        <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+          Belirli bir tarih ve saatte yayinda olan menuyu ve hash dogrulamasini goruntuleyin
+        </p>
+      </div>
+
+      <Card>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+            <div className="w-64">
+              <Input
+                label="Tarih ve Saat"
+                type="datetime-local"
+                value={moment}
+                onChange={(e) => setMoment(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" isLoading={isLoading} disabled={!organization?.id}>
+              Goster
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Success message */}
+      {success && (
+        <div
+          className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+        >
+          {success}
+        </div>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <div
+          className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {snapshot && verification && historyUrl && (
+        <Card>
+          <CardHeader
+            title={`Surum v${snapshot.version}`}
+            subtitle={`${new Date(snapshot.created_at).toLocaleString('tr-TR')} tarihinde yayinlandi`}
+            action={
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-medium ${
+                  verification.isValid
+                    ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                    : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                }`}
+              >
+                {verification.isValid ? 'Hash dogrulandi' : 'Hash eslesmiyor'}
+              </span>
+            }
+          />
+          <CardContent className="space-y-4">
+            <dl className="grid grid-cols-[8rem_1fr] gap-y-2 text-sm">
+              <dt className="text-secondary-500 dark:text-secondary-400">Kayitli hash</dt>
+              <dd className="break-all font-mono text-xs text-secondary-900 dark:text-secondary-100">
+                {verification.storedHash}
+              </dd>
+              <dt className="text-secondary-500 dark:text-secondary-400">Hesaplanan hash</dt>
+              <dd className="break-all font-mono text-xs text-secondary-900 dark:text-secondary-100">
+                {verification.computedHash}
+              </dd>
+              <dt className="text-secondary-500 dark:text-secondary-400">Algoritma</dt>
+              <dd className="text-secondary-900 dark:text-secondary-100">{verification.algorithm}</dd>
+            </dl>
+
+            <div className="flex items-center justify-end gap-4">
+              {canRollback && (
+                <Button type="button" variant="outline" onClick={() => setIsRollbackOpen(true)}>
+                  Bu Surume Geri Don
+                </Button>
+              )}
+              <a
+                href={historyUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium text-primary-600 hover:underline dark:text-primary-400"
+              >
+                Yeni sekmede ac
+              </a>
+            </div>
+
+            <iframe
+              src={historyUrl}
+              title={`Menu v${snapshot.version}`}
+              className="h-[70vh] w-full rounded-lg border border-secondary-200 dark:border-secondary-700"
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Rollback Confirmation Modal */}
+      <Modal
+        isOpen={isRollbackOpen}
+        onClose={() => setIsRollbackOpen(false)}
+        title="Menuyu Geri Al"
+      >
+        <div className="space-y-4">
+          <p className="text-secondary-600 dark:text-secondary-400">
+            <span className="font-medium text-secondary-900 dark:text-secondary-100">
+              v{snapshot?.version}
+            </span>{' '}
+            icerigi yeni bir surum olarak yayinlanacak. Eski surumler degismez; farkli olan
+            fiyatlar geri alma gerekcesiyle fiyat gecmisine eklenir. Urunlerdeki guncel
+            degisiklikler sonraki yayinda tekrar yayina girer.
+          </p>
+
+          <Input
+            label="Geri alma nedeni (istege bagli)"
+            value={rollbackReason}
+            onChange={(e) => setRollbackReason(e.target.value)}
+            disabled={isRollingBack}
+          />
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsRollbackOpen(false)}
+              disabled={isRollingBack}
+            >
+              Iptal
+            </Button>
+            <Button type="button" onClick={handleRollback} isLoading={isRollingBack}>
+              Geri Al ve Yayinla
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,440 @@
+'use client'
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { useAuth } from '@/hooks/useAuth'
+import type { ModifierGroup, ModifierOption } from '@/types/database'
+
+/**
+ * Modifier group as returned by /api/modifier-groups
+ */
+interface GroupRow extends ModifierGroup {
+  options: Array<ModifierOption & { price: number | null; currency: string }>
+}
+
+/**
+ * Modifier group form data
+ */
+interface GroupFormData {
+  name: string
+  min_selections: string
+  max_selections: string
+  options: Array<{ id?: string; name: string; price: string }>
+}
+
+const emptyForm: GroupFormData = {
+  name: '',
+  min_selections: '0',
+  max_selections: '1',
+  options: [{ name: '', price: '' }],
+}
+
+/**
+ * Modifiers Page
+ *
+ * Manages reusable add-on groups (module_modifiers). Option prices are
+ * recorded in the immutable modifier price ledger and reach the public
+ * menu with the next publish.
+ */
+export default function ModifiersPage() {
+  const { organization, membership } = useAuth()
+  const [groups, setGroups] = useState<GroupRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Modal state
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingGroup, setEditingGroup] = useState<GroupRow | null>(null)
+  const [formData, setFormData] = useState<GroupFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = membership && ['owner', 'admin', 'manager'].includes(membership.role)
+
+  /**
+   * Fetch modifier groups
+   */
+  const fetchGroups = useCallback(async () => {
+    if (!organization?.id) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/modifier-groups?organizationId=${organization.id}`)
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+      setGroups(result.data || [])
+    } catch {
+      setError('Eklemeler yuklenirken bir hata olustu.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organization?.id])
+
+  useEffect(() => {
+    fetchGroups()
+  }, [fetchGroups])
+
+  /**
+   * Open modal for a new group
+   */
+  const handleAddGroup = () => {
+    setEditingGroup(null)
+    setFormData(emptyForm)
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Open modal for editing a group
+   */
+  const handleEditGroup = (group: GroupRow) => {
+    setEditingGroup(group)
+    setFormData({
+      name: group.name,
+      min_selections: String(group.min_selections),
+      max_selections: String(group.max_selections),
+      options: group.options.map((option) => ({
+        id: option.id,
+        name: option.name,
+        price: option.price?.toString() || '',
+      })),
+    })
+    setFormError(null)
+    setIsModalOpen(true)
+  }
+
+  /**
+   * Update a single option row in the form
+   */
+  const handleOptionChange = (index: number, field: 'name' | 'price', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      options: prev.options.map((option, i) =>
+        i === index ? { ...option, [field]: value } : option
+      ),
+    }))
+  }
+
+  /**
+   * Save group (create or update)
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!organization?.id) return
+
+    setFormError(null)
+    setIsSaving(true)
+
+    try {
+      const payload = {
+        organizationId: organization.id,
+        name: formData.name.trim(),
+        minSelections: parseInt(formData.min_selections, 10),
+        maxSelections: parseInt(formData.max_selections, 10),
+        options: formData.options.map((option) => ({
+          id: option.id,
+          name: option.name.trim(),
+          price: parseFloat(option.price),
+        })),
+      }
+
+      const response = await fetch(
+        editingGroup ? `/api/modifier-groups/${editingGroup.id}` : '/api/modifier-groups',
+        {
+          method: editingGroup ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        setFormError(result.error || 'Grup kaydedilirken bir hata olustu.')
+        return
+      }
+
+      setIsModalOpen(false)
+      setSuccess('Grup kaydedildi. Degisiklikler menu yayinlandiginda gorunur.')
+      await fetchGroups()
+    } catch {
+      setFormError('Grup kaydedilirken bir hata olustu.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Deactivate a group
+   */
+  const handleDeactivate = async (group: GroupRow) => {
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const response = await fetch(`/api/modifier-groups/${group.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Grup devre disi birakilirken bir hata olustu.')
+        return
+      }
+
+      setSuccess('Grup devre disi birakildi. Degisiklik menu yayinlandiginda gorunur.')
+      await fetchGroups()
+    } catch {
+      setError('Grup devre disi birakilirken bir hata olustu.')
+    }
+  }
+
+  /**
+   * Describe the selection rule of a group
+   */
+  const getSelectionLabel = (group: GroupRow): string =>
+    group.min_selections > 0
+      ? `Zorunlu, ${group.min_selections}-${group.max_selections} secim`
+      : `Opsiyonel, en fazla ${group.max_selections} secim`
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">
+            Eklemeler
+          </h1>
+          <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+            Urunlere eklenebilen ekstra malzeme ve secenek gruplarini yonetin
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleAddGroup} leftIcon={
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          }>
+            Yeni Grup
+          </Button>
+        )}
+      </div>
+
+      {/* Success message */}
+      {success && (
+        <div
+          className="rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400"
+          role="status"
+        >
+          {success}
+        </div>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <div
+          className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+          role="alert"
+        >
+          {error}
+          <button
+            type="button"
+            onClick={() => setError(null)}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Kapat
+          </button>
+        </div>
+      )}
+
+      {/* Groups list */}
+      <Card>
+        <CardHeader
+          title="Ekleme Gruplari"
+          subtitle="Secenek fiyatlari fiyat defterine kaydedilir; gruplari urun duzenleme sayfasindan urunlere baglayin"
+        />
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="py-12 text-center">
+              <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                Henuz grup yok
+              </h3>
+              <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+                Ilk ekleme grubunuzu olusturun.
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-secondary-100 dark:divide-secondary-700/50">
+              {groups.map((group) => (
+                <div
+                  key={group.id}
+                  className={`flex items-center gap-4 py-3 ${!group.is_active ? 'opacity-60' : ''}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-secondary-900 dark:text-secondary-100">
+                      {group.name}
+                      {!group.is_active && (
+                        <span className="ml-2 rounded bg-secondary-100 px-1.5 py-0.5 text-xs text-secondary-600 dark:bg-secondary-700 dark:text-secondary-400">
+                          Pasif
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      {getSelectionLabel(group)} &middot;{' '}
+                      {group.options
+                        .map((option) =>
+                          option.price !== null
+                            ? `${option.name} (+${Number(option.price).toFixed(2)} TL)`
+                            : option.name
+                        )
+                        .join(', ')}
+                    </p>
+                  </div>
+                  {canEdit && group.is_active && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditGroup(group)}>
+                        Duzenle
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDeactivate(group)}>
+                        Devre Disi Birak
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingGroup ? 'Grubu Duzenle' : 'Yeni Grup'}
+      >
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            {formError && (
+              <div
+                className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                role="alert"
+              >
+                {formError}
+              </div>
+            )}
+
+            <Input
+              label="Grup Adi"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Ornegin: Ekstra Malzemeler"
+              required
+              disabled={isSaving}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="En Az Secim"
+                type="number"
+                value={formData.min_selections}
+                onChange={(e) => setFormData(prev => ({ ...prev, min_selections: e.target.value }))}
+                helperText="0 = opsiyonel grup"
+                min={0}
+                step={1}
+                required
+                disabled={isSaving}
+              />
+              <Input
+                label="En Fazla Secim"
+                type="number"
+                value={formData.max_selections}
+                onChange={(e) => setFormData(prev => ({ ...prev, max_selections: e.target.value }))}
+                min={1}
+                step={1}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Secenekler
+              </label>
+              {formData.options.map((option, index) => (
+                <div key={option.id ?? `new-${index}`} className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <Input
+                      value={option.name}
+                      onChange={(e) => handleOptionChange(index, 'name', e.target.value)}
+                      placeholder="Secenek adi"
+                      aria-label="Secenek adi"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="w-28">
+                    <Input
+                      type="number"
+                      value={option.price}
+                      onChange={(e) => handleOptionChange(index, 'price', e.target.value)}
+                      placeholder="0.00"
+                      aria-label="Secenek fiyati (TL)"
+                      min={0}
+                      step={0.01}
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      options: prev.options.filter((_, i) => i !== index),
+                    }))}
+                    disabled={isSaving || formData.options.length === 1}
+                  >
+                    Kaldir
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  options: [...prev.options, { name: '', price: '' }],
+                }))}
+                disabled={isSaving}
+              >
+                Secenek Ekle
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsModalOpen(false)}
+              disabled={isSaving}
+            >
+              Iptal
+            </Button>
+            <Button type="submit" isLoading={isSaving}>
+              {editingGroup ? 'Guncelle' : 'Olustur'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
@@ -9,7 +9,65 @@ import { Input, Textarea } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
-import type { Product, Category, CurrentPrice } from '@/types/database'
+import {
+  NutritionFields,
+  formToNutrition,
+  nutritionToForm,
+} from '@/components/dashboard/nutrition-fields'
+import { AllergenPicker } from '@/components/dashboard/allergen-picker'
+import { ScheduledPrices } from '@/components/dashboard/scheduled-prices'
+import { parseNutrition, validateNutrition } from '@/lib/services/nutrition'
+import {
+  getUnknownAllergens,
+  normalizeAllergens,
+  type AllergenCode,
+} from '@/lib/services/allergens'
+import { getLocaleName } from '@/lib/i18n/locales'
+import type {
+  Product,
+  Category,
+  CurrentPrice,
+  ProductBadge,
+  ProductBadgeType,
+  BadgeScheduleType,
+} from '@/types/database'
+
+/**
+ * Maximum recommended products (mirrors MAX_RECOMMENDATIONS in lib/services/cross-sell.ts)
+ */
+const MAX_RECOMMENDATIONS = 4
+
+/**
+ * Badge labels (chef's recommendation / daily special)
+ */
+const BADGE_OPTIONS: Array<{ value: ProductBadgeType; label: string }> = [
+  { value: 'chef_recommendation', label: 'Sefin Onerisi' },
+  { value: 'daily_special', label: 'Gunun Spesiyali' },
+]
+
+/**
+ * Day labels indexed by ISO weekday (1 = Monday)
+ */
+const DAYS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'Pzt' },
+  { value: 2, label: 'Sal' },
+  { value: 3, label: 'Car' },
+  { value: 4, label: 'Per' },
+  { value: 5, label: 'Cum' },
+  { value: 6, label: 'Cmt' },
+  { value: 7, label: 'Paz' },
+]
+
+/**
+ * Empty badge form (starts today)
+ */
+const emptyBadgeForm = () => ({
+  badge_type: 'chef_recommendation' as ProductBadgeType,
+  schedule_type: 'daily' as BadgeScheduleType,
+  days_of_week: [6, 7],
+  starts_on: new Date().toLocaleDateString('en-CA', { timeZone: 'Europe/Istanbul' }),
+  ends_on: '',
+})
 
 /**
  * Extended product type with current price
@@ -18,6 +76,18 @@ interface ProductWithPrice extends Product {
   current_price?: CurrentPrice | null
 }
 
+/**
+ * Variant row as returned by /api/products/[id]/variants
+ */
+interface VariantRow {
+  id: string
+  name: string
+  sort_order: number
+  is_active: boolean
+  price: number | null
+  currency: string
+}
+
 /**
  * Product Edit Page
  *
@@ -46,11 +116,43 @@ export default function EditProductPage({
     description: '',
     category_id: '',
     price: '',
-    allergens: '',
     is_visible: true,
     image_url: '',
   })
+  const [priceReason, setPriceReason] = useState('')
   const [formError, setFormError] = useState<string | null>(null)
+  const [allergens, setAllergens] = useState<AllergenCode[]>([])
+  const [unknownAllergens, setUnknownAllergens] = useState<string[]>([])
+  const [nutritionForm, setNutritionForm] = useState(() => nutritionToForm(null))
+
+  // Translation state keyed by locale (only enabled organization languages)
+  const [languages, setLanguages] = useState<string[]>([])
+  const [translations, setTranslations] = useState<
+    Record<string, { name: string; description: string }>
+  >({})
+
+  // Add-on groups offered with this product (module_modifiers)
+  const [modifierGroups, setModifierGroups] = useState<Array<{ id: string; name: string }>>([])
+  const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([])
+  const [initialGroupIds, setInitialGroupIds] = useState<string[]>([])
+
+  // Cross-sell companions shown as "Bununla iyi gider" (module_cross_sell)
+  const [otherProducts, setOtherProducts] = useState<Array<{ id: string; name: string }>>([])
+  const [recommendedIds, setRecommendedIds] = useState<string[]>([])
+  const [initialRecommendedIds, setInitialRecommendedIds] = useState<string[]>([])
+
+  // Variant state (module_variants) - saved independently through the variants API
+  const [variants, setVariants] = useState<VariantRow[]>([])
+  const [variantDrafts, setVariantDrafts] = useState<Record<string, { name: string; price: string }>>({})
+  const [newVariant, setNewVariant] = useState({ name: '', price: '' })
+  const [variantError, setVariantError] = useState<string | null>(null)
+  const [savingVariantId, setSavingVariantId] = useState<string | null>(null)
+
+  // Badge state (module_chef_recommendation / module_daily_special)
+  const [badges, setBadges] = useState<ProductBadge[]>([])
+  const [newBadge, setNewBadge] = useState(emptyBadgeForm)
+  const [badgeError, setBadgeError] = useState<string | null>(null)
+  const [isSavingBadge, setIsSavingBadge] = useState(false)
 
   // Resolve params promise
   useEffect(() => {
@@ -108,10 +210,12 @@ export default function EditProductPage({
         description: productData.description || '',
         category_id: productData.category_id || '',
         price: priceData?.price?.toString() || '',
-        allergens: productData.allergens?.join(', ') || '',
         is_visible: productData.is_visible ?? true,
         image_url: productData.image_url || '',
       })
+      setAllergens(normalizeAllergens(productData.allergens))
+      setUnknownAllergens(getUnknownAllergens(productData.allergens))
+      setNutritionForm(nutritionToForm(parseNutrition(productData.nutrition)))
 
       // Fetch categories
       const { data: categoriesData, error: categoriesError } = await supabase
@@ -124,6 +228,69 @@ export default function EditProductPage({
       if (categoriesError) throw categoriesError
 
       setCategories(categoriesData || [])
+
+      // Fetch enabled languages and existing translations
+      const { data: languagesData } = await supabase
+        .from('organization_languages')
+        .select('locale')
+        .eq('organization_id', organization.id)
+        .order('sort_order', { ascending: true })
+
+      const { data: translationsData } = await supabase
+        .from('product_translations')
+        .select('locale, name, description')
+        .eq('product_id', productId)
+
+      // Fetch active add-on groups and the ones attached to this product
+      const [groupsResponse, productGroupsResponse] = await Promise.all([
+        fetch(`/api/modifier-groups?organizationId=${organization.id}`),
+        fetch(`/api/products/${productId}/modifier-groups`),
+      ])
+      const groupsResult = await groupsResponse.json()
+      const productGroupsResult = await productGroupsResponse.json()
+
+      if (groupsResult.success) {
+        setModifierGroups(
+          (groupsResult.data as Array<{ id: string; name: string; is_active: boolean }>)
+            .filter((g) => g.is_active)
+        )
+      }
+      if (productGroupsResult.success) {
+        setSelectedGroupIds(productGroupsResult.data)
+        setInitialGroupIds(productGroupsResult.data)
+      }
+
+      // Fetch other products and the ones recommended with this product
+      const { data: otherProductsData } = await supabase
+        .from('products')
+        .select('id, name')
+        .eq('organization_id', organization.id)
+        .neq('id', productId)
+        .order('name', { ascending: true })
+
+      setOtherProducts(otherProductsData || [])
+
+      const recommendationsResponse = await fetch(`/api/products/${productId}/recommendations`)
+      const recommendationsResult = await recommendationsResponse.json()
+
+      if (recommendationsResult.success) {
+        setRecommendedIds(recommendationsResult.data)
+        setInitialRecommendedIds(recommendationsResult.data)
+      }
+
+      const locales: string[] = (languagesData || []).map((l) => l.locale)
+      setLanguages(locales)
+      setTranslations(
+        Object.fromEntries(
+          locales.map((locale) => {
+            const existing = translationsData?.find((t) => t.locale === locale)
+            return [
+              locale,
+              { name: existing?.name || '', description: existing?.description || '' },
+            ]
+          })
+        )
+      )
     } catch {
       setError('Urun bilgileri yuklenirken bir hata olustu.')
     } finally {
@@ -135,6 +302,221 @@ export default function EditProductPage({
     fetchData()
   }, [fetchData])
 
+  /**
+   * Fetch active variants with their current ledger prices
+   */
+  const fetchVariants = useCallback(async () => {
+    if (!productId) return
+
+    try {
+      const response = await fetch(`/api/products/${productId}/variants`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error)
+      }
+
+      const activeVariants = (result.data as VariantRow[]).filter((v) => v.is_active)
+      setVariants(activeVariants)
+      setVariantDrafts(
+        Object.fromEntries(
+          activeVariants.map((v) => [v.id, { name: v.name, price: v.price?.toString() || '' }])
+        )
+      )
+    } catch {
+      setVariantError('Varyantlar yuklenirken bir hata olustu.')
+    }
+  }, [productId])
+
+  useEffect(() => {
+    fetchVariants()
+  }, [fetchVariants])
+
+  /**
+   * Create a variant or save an existing one (new price = new ledger entry)
+   */
+  const handleSaveVariant = async (variantId: string | null) => {
+    if (!productId) return
+
+    const draft = variantId ? variantDrafts[variantId] : newVariant
+    const price = parseFloat(draft.price)
+
+    if (!draft.name.trim()) {
+      setVariantError('Varyant adi gereklidir.')
+      return
+    }
+    if (isNaN(price) || price < 0) {
+      setVariantError('Gecerli bir varyant fiyati girin.')
+      return
+    }
+
+    setVariantError(null)
+    setSavingVariantId(variantId ?? 'new')
+
+    try {
+      const response = await fetch(
+        variantId
+          ? `/api/products/${productId}/variants/${variantId}`
+          : `/api/products/${productId}/variants`,
+        {
+          method: variantId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name.trim(),
+            price,
+            sortOrder: variantId
+              ? variants.find((v) => v.id === variantId)?.sort_order
+              : variants.length,
+          }),
+        }
+      )
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setVariantError(result.error || 'Varyant kaydedilemedi.')
+        return
+      }
+
+      if (!variantId) {
+        setNewVariant({ name: '', price: '' })
+      }
+      await fetchVariants()
+    } catch {
+      setVariantError('Varyant kaydedilirken bir hata olustu.')
+    } finally {
+      setSavingVariantId(null)
+    }
+  }
+
+  /**
+   * Deactivate a variant (its price history is kept)
+   */
+  const handleRemoveVariant = async (variantId: string) => {
+    if (!productId) return
+
+    setVariantError(null)
+    setSavingVariantId(variantId)
+
+    try {
+      const response = await fetch(`/api/products/${productId}/variants/${variantId}`, {
+        method: 'DELETE',
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setVariantError(result.error || 'Varyant kaldirilamadi.')
+        return
+      }
+
+      await fetchVariants()
+    } catch {
+      setVariantError('Varyant kaldirilirken bir hata olustu.')
+    } finally {
+      setSavingVariantId(null)
+    }
+  }
+
+  /**
+   * Fetch active badges of the product
+   */
+  const fetchBadges = useCallback(async () => {
+    if (!productId) return
+
+    try {
+      const response = await fetch(`/api/products/${productId}/badges`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error)
+      }
+
+      setBadges(result.data)
+    } catch {
+      setBadgeError('Rozetler yuklenirken bir hata olustu.')
+    }
+  }, [productId])
+
+  useEffect(() => {
+    fetchBadges()
+  }, [fetchBadges])
+
+  /**
+   * Assign a scheduled badge
+   */
+  const handleAddBadge = async () => {
+    if (!productId) return
+
+    setBadgeError(null)
+    setIsSavingBadge(true)
+
+    try {
+      const response = await fetch(`/api/products/${productId}/badges`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          badgeType: newBadge.badge_type,
+          scheduleType: newBadge.schedule_type,
+          daysOfWeek: newBadge.days_of_week,
+          startsOn: newBadge.starts_on,
+          endsOn: newBadge.ends_on || null,
+        }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setBadgeError(result.error || 'Rozet eklenemedi.')
+        return
+      }
+
+      setNewBadge(emptyBadgeForm())
+      await fetchBadges()
+    } catch {
+      setBadgeError('Rozet eklenirken bir hata olustu.')
+    } finally {
+      setIsSavingBadge(false)
+    }
+  }
+
+  /**
+   * Remove a badge
+   */
+  const handleRemoveBadge = async (badgeId: string) => {
+    if (!productId) return
+
+    setBadgeError(null)
+    setIsSavingBadge(true)
+
+    try {
+      const response = await fetch(`/api/products/${productId}/badges/${badgeId}`, {
+        method: 'DELETE',
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setBadgeError(result.error || 'Rozet kaldirilamadi.')
+        return
+      }
+
+      await fetchBadges()
+    } catch {
+      setBadgeError('Rozet kaldirilirken bir hata olustu.')
+    } finally {
+      setIsSavingBadge(false)
+    }
+  }
+
+  /**
+   * Describe the schedule of a badge
+   */
+  const getBadgeScheduleLabel = (badge: ProductBadge): string => {
+    const days =
+      badge.schedule_type === 'weekly'
+        ? DAYS.filter((d) => badge.days_of_week.includes(d.value)).map((d) => d.label).join(', ')
+        : 'Her gun'
+    const range = badge.ends_on ? `${badge.starts_on} - ${badge.ends_on}` : `${badge.starts_on} itibariyle`
+    return `${days} · ${range}`
+  }
+
   /**
    * Handle form submission
    */
@@ -148,23 +530,36 @@ export default function EditProductPage({
       return
     }
 
+    // Validate nutrition facts (module_nutrition)
+    const nutrition = formToNutrition(nutritionForm)
+    const nutritionError = nutrition ? validateNutrition(nutrition) : null
+    if (nutritionError) {
+      setFormError(nutritionError)
+      return
+    }
+
+    // Price changes are recorded with a reason (price ledger)
+    const newPrice = parseFloat(formData.price)
+    const currentPrice = product?.current_price?.price
+    const isPriceChanged = !isNaN(newPrice) && newPrice >= 0 && currentPrice !== newPrice
+
+    if (isPriceChanged && currentPrice !== undefined && !priceReason.trim()) {
+      setFormError('Fiyat degisikligi icin neden girmelisiniz.')
+      return
+    }
+
     setFormError(null)
     setIsSaving(true)
 
     try {
       const supabase = createClient()
 
-      // Parse allergens from comma-separated string
-      const allergens = formData.allergens
-        .split(',')
-        .map((a) => a.trim())
-        .filter((a) => a.length > 0)
-
       const productData = {
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         category_id: formData.category_id || null,
         allergens: allergens.length > 0 ? allergens : null,
+        nutrition,
         is_visible: formData.is_visible,
         image_url: formData.image_url.trim() || null,
       }
@@ -178,21 +573,86 @@ export default function EditProductPage({
 
       if (updateError) throw updateError
 
-      // Handle price change (INSERT into price_ledger - immutable)
-      const newPrice = parseFloat(formData.price)
-      const currentPrice = product?.current_price?.price
+      // Values outside the allergen catalog were dropped on save
+      setUnknownAllergens([])
+
+      // Save translations: filled locales are upserted, emptied ones removed
+      const filledTranslations = Object.entries(translations)
+        .filter(([, value]) => value.name.trim())
+        .map(([locale, value]) => ({
+          organization_id: organization.id,
+          product_id: productId,
+          locale,
+          name: value.name.trim(),
+          description: value.description.trim() || null,
+        }))
+      const emptiedLocales = Object.entries(translations)
+        .filter(([, value]) => !value.name.trim())
+        .map(([locale]) => locale)
+
+      if (filledTranslations.length > 0) {
+        const { error: translationError } = await supabase
+          .from('product_translations')
+          .upsert(filledTranslations, { onConflict: 'product_id,locale' })
+
+        if (translationError) throw translationError
+      }
+
+      if (emptiedLocales.length > 0) {
+        const { error: translationDeleteError } = await supabase
+          .from('product_translations')
+          .delete()
+          .eq('product_id', productId)
+          .in('locale', emptiedLocales)
+
+        if (translationDeleteError) throw translationDeleteError
+      }
+
+      // Save attached add-on groups if the selection changed
+      if (selectedGroupIds.join(',') !== initialGroupIds.join(',')) {
+        const response = await fetch(`/api/products/${productId}/modifier-groups`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ groupIds: selectedGroupIds }),
+        })
+        const result = await response.json()
+
+        if (!result.success) {
+          setFormError(result.error || 'Urun eklemeleri kaydedilemedi.')
+          return
+        }
+      }
+
+      // Save recommended products if the selection changed
+      if (recommendedIds.join(',') !== initialRecommendedIds.join(',')) {
+        const response = await fetch(`/api/products/${productId}/recommendations`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ productIds: recommendedIds }),
+        })
+        const result = await response.json()
+
+        if (!result.success) {
+          setFormError(result.error || 'Urun onerileri kaydedilemedi.')
+          return
+        }
+      }
 
-      if (!isNaN(newPrice) && newPrice >= 0) {
-        // Only add price entry if price changed
-        if (currentPrice !== newPrice) {
-          const { error: priceError } = await supabase.from('price_ledger').insert({
-            product_id: productId,
+      // Handle price change (price API appends to the immutable price_ledger)
+      if (isPriceChanged) {
+        const response = await fetch(`/api/products/${productId}/price`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
             price: newPrice,
-            currency: 'TRY',
-            change_reason: currentPrice !== undefined ? 'Fiyat guncellendi' : 'Ilk fiyat',
-          })
+            changeReason: currentPrice !== undefined ? priceReason.trim() : 'Ilk fiyat',
+          }),
+        })
+        const result = await response.json()
 
-          if (priceError) throw priceError
+        if (!result.success) {
+          setFormError(result.error || 'Fiyat kaydedilemedi.')
+          return
         }
       }
 
@@ -247,6 +707,21 @@ export default function EditProductPage({
     if (formError) setFormError(null)
   }
 
+  /**
+   * Handle translation input changes
+   */
+  const handleTranslationChange = (
+    locale: string,
+    field: 'name' | 'description',
+    value: string
+  ) => {
+    setTranslations((prev) => ({
+      ...prev,
+      [locale]: { ...prev[locale], [field]: value },
+    }))
+    if (formError) setFormError(null)
+  }
+
   /**
    * Format currency for display
    */
@@ -410,15 +885,38 @@ export default function EditProductPage({
                       </span>
                     </p>
                   )}
+                  {product.current_price &&
+                    formData.price !== '' &&
+                    parseFloat(formData.price) !== product.current_price.price && (
+                      <div className="mt-3">
+                        <Input
+                          label="Degisiklik Nedeni"
+                          value={priceReason}
+                          onChange={(e) => {
+                            setPriceReason(e.target.value)
+                            if (formError) setFormError(null)
+                          }}
+                          placeholder="Orn: Tedarikci fiyat artisi"
+                          helperText="Fiyat gecmisinde ve denetim kayitlarinda saklanir"
+                          required
+                          disabled={isSaving}
+                        />
+                      </div>
+                    )}
                 </div>
 
                 {/* Allergens */}
-                <Input
-                  label="Alerjenler"
-                  value={formData.allergens}
-                  onChange={(e) => handleChange('allergens', e.target.value)}
-                  placeholder="Gluten, Sut, Fistik (virgul ile ayirin)"
-                  helperText="Birden fazla alerjen icin virgul kullanin"
+                <AllergenPicker
+                  value={allergens}
+                  onChange={setAllergens}
+                  unknownValues={unknownAllergens}
+                  disabled={isSaving}
+                />
+
+                {/* Nutrition facts */}
+                <NutritionFields
+                  value={nutritionForm}
+                  onChange={setNutritionForm}
                   disabled={isSaving}
                 />
 
@@ -449,6 +947,106 @@ export default function EditProductPage({
                   </div>
                 )}
 
+                {/* Translations */}
+                {languages.length > 0 && (
+                  <div className="space-y-4 rounded-lg border border-secondary-200 p-4 dark:border-secondary-700">
+                    <div>
+                      <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                        Ceviriler
+                      </h3>
+                      <p className="mt-1 text-xs text-secondary-500 dark:text-secondary-400">
+                        Bos birakilan diller menude Turkce icerikle gosterilir
+                      </p>
+                    </div>
+                    {languages.map((locale) => (
+                      <div key={locale} className="space-y-3">
+                        <Input
+                          label={`Urun Adi (${getLocaleName(locale)})`}
+                          value={translations[locale]?.name || ''}
+                          onChange={(e) => handleTranslationChange(locale, 'name', e.target.value)}
+                          disabled={isSaving}
+                        />
+                        <Textarea
+                          label={`Aciklama (${getLocaleName(locale)})`}
+                          value={translations[locale]?.description || ''}
+                          onChange={(e) => handleTranslationChange(locale, 'description', e.target.value)}
+                          rows={2}
+                          disabled={isSaving}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Add-on groups */}
+                {modifierGroups.length > 0 && (
+                  <div className="space-y-2 rounded-lg border border-secondary-200 p-4 dark:border-secondary-700">
+                    <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                      Eklemeler
+                    </h3>
+                    {modifierGroups.map((group) => (
+                      <label
+                        key={group.id}
+                        className="flex items-center gap-3 text-sm text-secondary-700 dark:text-secondary-300"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedGroupIds.includes(group.id)}
+                          onChange={(e) =>
+                            setSelectedGroupIds((prev) =>
+                              e.target.checked
+                                ? [...prev, group.id]
+                                : prev.filter((id) => id !== group.id)
+                            )
+                          }
+                          className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                          disabled={isSaving}
+                        />
+                        {group.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {/* Cross-sell recommendations */}
+                {otherProducts.length > 0 && (
+                  <div className="space-y-2 rounded-lg border border-secondary-200 p-4 dark:border-secondary-700">
+                    <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                      Bununla Iyi Gider
+                    </h3>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      Menude bu urunun altinda onerilecek en fazla {MAX_RECOMMENDATIONS} urun secin
+                    </p>
+                    <div className="max-h-48 space-y-2 overflow-y-auto">
+                      {otherProducts.map((other) => (
+                        <label
+                          key={other.id}
+                          className="flex items-center gap-3 text-sm text-secondary-700 dark:text-secondary-300"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={recommendedIds.includes(other.id)}
+                            onChange={(e) =>
+                              setRecommendedIds((prev) =>
+                                e.target.checked
+                                  ? [...prev, other.id]
+                                  : prev.filter((id) => id !== other.id)
+                              )
+                            }
+                            className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                            disabled={
+                              isSaving ||
+                              (!recommendedIds.includes(other.id) &&
+                                recommendedIds.length >= MAX_RECOMMENDATIONS)
+                            }
+                          />
+                          {other.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Visibility toggle */}
                 <div className="flex items-center gap-3">
                   <input
@@ -515,6 +1113,249 @@ export default function EditProductPage({
             </CardContent>
           </Card>
 
+          {/* Scheduled prices */}
+          {productId && <ScheduledPrices productId={productId} />}
+
+          {/* Variants */}
+          <Card>
+            <CardHeader
+              title="Varyantlar"
+              subtitle="Porsiyon veya boyut secenekleri (orn. Kucuk / Buyuk, 35cl / 50cl)"
+            />
+            <CardContent className="space-y-4">
+              {variantError && (
+                <div
+                  className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+                  role="alert"
+                >
+                  {variantError}
+                </div>
+              )}
+
+              {variants.map((variant) => (
+                <div key={variant.id} className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Input
+                      label="Varyant Adi"
+                      value={variantDrafts[variant.id]?.name || ''}
+                      onChange={(e) =>
+                        setVariantDrafts((prev) => ({
+                          ...prev,
+                          [variant.id]: { ...prev[variant.id], name: e.target.value },
+                        }))
+                      }
+                      disabled={savingVariantId !== null}
+                    />
+                  </div>
+                  <div className="w-32">
+                    <Input
+                      label="Fiyat (TRY)"
+                      type="number"
+                      value={variantDrafts[variant.id]?.price || ''}
+                      onChange={(e) =>
+                        setVariantDrafts((prev) => ({
+                          ...prev,
+                          [variant.id]: { ...prev[variant.id], price: e.target.value },
+                        }))
+                      }
+                      min={0}
+                      step={0.01}
+                      disabled={savingVariantId !== null}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => handleSaveVariant(variant.id)}
+                    isLoading={savingVariantId === variant.id}
+                    disabled={savingVariantId !== null}
+                  >
+                    Kaydet
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => handleRemoveVariant(variant.id)}
+                    disabled={savingVariantId !== null}
+                  >
+                    Kaldir
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-end gap-3 border-t border-secondary-200 pt-4 dark:border-secondary-700">
+                <div className="flex-1">
+                  <Input
+                    label="Yeni Varyant"
+                    value={newVariant.name}
+                    onChange={(e) => setNewVariant((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Ornegin: Buyuk"
+                    disabled={savingVariantId !== null}
+                  />
+                </div>
+                <div className="w-32">
+                  <Input
+                    label="Fiyat (TRY)"
+                    type="number"
+                    value={newVariant.price}
+                    onChange={(e) => setNewVariant((prev) => ({ ...prev, price: e.target.value }))}
+                    placeholder="0.00"
+                    min={0}
+                    step={0.01}
+                    disabled={savingVariantId !== null}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  onClick={() => handleSaveVariant(null)}
+                  isLoading={savingVariantId === 'new'}
+                  disabled={savingVariantId !== null}
+                >
+                  Ekle
+                </Button>
+              </div>
+
+              <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                Varyant fiyatlari da fiyat gecmisine kaydedilir ve menu yayinlandiginda gorunur.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Badges */}
+          <Card>
+            <CardHeader
+              title="Rozetler"
+              subtitle="Sefin onerisi ve gunun spesiyali; bitis tarihi gecen rozetler menuden kendiliginden kalkar"
+            />
+            <CardContent className="space-y-4">
+              {badgeError && (
+                <div
+                  className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+                  role="alert"
+                >
+                  {badgeError}
+                </div>
+              )}
+
+              {badges.map((badge) => (
+                <div key={badge.id} className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                      {BADGE_OPTIONS.find((o) => o.value === badge.badge_type)?.label}
+                    </p>
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      {getBadgeScheduleLabel(badge)}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => handleRemoveBadge(badge.id)}
+                    disabled={isSavingBadge}
+                  >
+                    Kaldir
+                  </Button>
+                </div>
+              ))}
+
+              <div className="space-y-3 border-t border-secondary-200 pt-4 dark:border-secondary-700">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                      Rozet
+                    </label>
+                    <select
+                      value={newBadge.badge_type}
+                      onChange={(e) =>
+                        setNewBadge((prev) => ({ ...prev, badge_type: e.target.value as ProductBadgeType }))
+                      }
+                      className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                      disabled={isSavingBadge}
+                    >
+                      {BADGE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="mb-1.5 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                      Zamanlama
+                    </label>
+                    <select
+                      value={newBadge.schedule_type}
+                      onChange={(e) =>
+                        setNewBadge((prev) => ({ ...prev, schedule_type: e.target.value as BadgeScheduleType }))
+                      }
+                      className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                      disabled={isSavingBadge}
+                    >
+                      <option value="daily">Her gun</option>
+                      <option value="weekly">Haftanin belirli gunleri</option>
+                    </select>
+                  </div>
+                </div>
+
+                {newBadge.schedule_type === 'weekly' && (
+                  <div className="flex flex-wrap gap-2">
+                    {DAYS.map((day) => (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() =>
+                          setNewBadge((prev) => ({
+                            ...prev,
+                            days_of_week: prev.days_of_week.includes(day.value)
+                              ? prev.days_of_week.filter((d) => d !== day.value)
+                              : [...prev.days_of_week, day.value].sort((a, b) => a - b),
+                          }))
+                        }
+                        className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
+                          newBadge.days_of_week.includes(day.value)
+                            ? 'bg-primary-600 text-white'
+                            : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200 dark:bg-secondary-700 dark:text-secondary-300'
+                        }`}
+                        disabled={isSavingBadge}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Input
+                      label="Baslangic"
+                      type="date"
+                      value={newBadge.starts_on}
+                      onChange={(e) => setNewBadge((prev) => ({ ...prev, starts_on: e.target.value }))}
+                      disabled={isSavingBadge}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <Input
+                      label="Bitis (bos = suresiz)"
+                      type="date"
+                      value={newBadge.ends_on}
+                      onChange={(e) => setNewBadge((prev) => ({ ...prev, ends_on: e.target.value }))}
+                      disabled={isSavingBadge}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    onClick={handleAddBadge}
+                    isLoading={isSavingBadge}
+                    disabled={isSavingBadge}
+                  >
+                    Ekle
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Help text */}
           <div className="rounded-lg border border-secondary-200 bg-secondary-50 p-4 dark:border-secondary-700 dark:bg-secondary-800/50">
             <h3 className="flex items-center gap-2 text-sm font-medium text-secondary-900 dark:text-secondary-100">
@@ -0,0 +1,509 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { createClient } from '@/lib/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import {
+  ROUNDING_STEPS,
+  MAX_BULK_PRODUCTS,
+  buildBulkPricePreview,
+  validatePriceAdjustment,
+  type PriceAdjustment,
+  type PriceAdjustmentType,
+  type PriceRoundMode,
+} from '@/lib/services/bulk-pricing'
+import type { Category } from '@/types/database'
+
+/**
+ * Product with its current base price
+ */
+interface PricedProduct {
+  id: string
+  name: string
+  category_id: string | null
+  price: number
+}
+
+/**
+ * Format currency for display (Turkish Lira)
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('tr-TR', {
+    style: 'currency',
+    currency: 'TRY',
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+const selectClassName =
+  'w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100'
+
+/**
+ * Bulk repricing page
+ *
+ * Selects products by category or search, applies a percentage or fixed
+ * change with a rounding rule, previews old vs new prices and commits all
+ * prices at once with one change reason and one menu snapshot.
+ */
+export default function BulkPricePage() {
+  const { organization } = useAuth()
+
+  const [products, setProducts] = useState<PricedProduct[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Selection
+  const [searchQuery, setSearchQuery] = useState('')
+  const [filterCategory, setFilterCategory] = useState('')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  // Change rule
+  const [adjustmentType, setAdjustmentType] = useState<PriceAdjustmentType>('percentage')
+  const [adjustmentValue, setAdjustmentValue] = useState('')
+  const [roundTo, setRoundTo] = useState(0)
+  const [roundMode, setRoundMode] = useState<PriceRoundMode>('nearest')
+  const [changeReason, setChangeReason] = useState('')
+  const [isApplying, setIsApplying] = useState(false)
+
+  /**
+   * Fetch products with a current price and categories
+   */
+  const fetchProducts = useCallback(async () => {
+    if (!organization?.id) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const supabase = createClient()
+
+      const { data: productsData, error: productsError } = await supabase
+        .from('products')
+        .select('id, name, category_id')
+        .eq('organization_id', organization.id)
+        .order('name')
+
+      if (productsError) throw productsError
+
+      const productIds = productsData?.map((p) => p.id) || []
+      const prices: Record<string, number> = {}
+
+      if (productIds.length > 0) {
+        const { data: pricesData, error: pricesError } = await supabase
+          .from('current_prices')
+          .select('product_id, price')
+          .in('product_id', productIds)
+
+        if (pricesError) throw pricesError
+
+        for (const row of pricesData || []) {
+          prices[row.product_id] = Number(row.price)
+        }
+      }
+
+      const { data: categoriesData, error: categoriesError } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .order('sort_order')
+
+      if (categoriesError) throw categoriesError
+
+      setCategories(categoriesData || [])
+      // Products without a price cannot be repriced
+      setProducts(
+        (productsData || [])
+          .filter((product) => prices[product.id] !== undefined)
+          .map((product) => ({ ...product, price: prices[product.id] }))
+      )
+    } catch {
+      setError('Urunler yuklenirken bir hata olustu.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organization?.id])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [fetchProducts])
+
+  const filteredProducts = products.filter((product) => {
+    const matchesSearch =
+      !searchQuery || product.name.toLowerCase().includes(searchQuery.toLowerCase())
+    const matchesCategory = !filterCategory || product.category_id === filterCategory
+
+    return matchesSearch && matchesCategory
+  })
+
+  const adjustment: PriceAdjustment = {
+    type: adjustmentType,
+    value: parseFloat(adjustmentValue.replace(',', '.')),
+    roundTo,
+    roundMode,
+  }
+  const adjustmentError = adjustmentValue ? validatePriceAdjustment(adjustment) : null
+
+  const preview =
+    adjustmentValue && !adjustmentError
+      ? buildBulkPricePreview(
+          products
+            .filter((product) => selectedIds.has(product.id))
+            .map((product) => ({ productId: product.id, name: product.name, price: product.price })),
+          adjustment
+        )
+      : []
+
+  const toggleProduct = (productId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(productId)) {
+        next.delete(productId)
+      } else {
+        next.add(productId)
+      }
+      return next
+    })
+    setSuccess(null)
+  }
+
+  const allFilteredSelected =
+    filteredProducts.length > 0 && filteredProducts.every((product) => selectedIds.has(product.id))
+
+  const toggleAllFiltered = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      filteredProducts.forEach((product) =>
+        allFilteredSelected ? next.delete(product.id) : next.add(product.id)
+      )
+      return next
+    })
+    setSuccess(null)
+  }
+
+  /**
+   * Commit the previewed prices
+   */
+  const handleApply = async () => {
+    if (!organization?.id || preview.length === 0) return
+
+    if (!changeReason.trim()) {
+      setError('Fiyat degisikligi icin neden girmelisiniz.')
+      return
+    }
+
+    if (preview.length > MAX_BULK_PRODUCTS) {
+      setError(`Tek seferde en fazla ${MAX_BULK_PRODUCTS} urunun fiyati degistirilebilir.`)
+      return
+    }
+
+    setError(null)
+    setSuccess(null)
+    setIsApplying(true)
+
+    try {
+      const response = await fetch('/api/products/bulk-price', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId: organization.id,
+          productIds: preview.map((row) => row.productId),
+          adjustment,
+          changeReason: changeReason.trim(),
+        }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Fiyatlar guncellenirken bir hata olustu.')
+        return
+      }
+
+      setSuccess(
+        result.data.snapshotVersion
+          ? `${result.data.updatedCount} urunun fiyati guncellendi ve menu yayinlandi (versiyon ${result.data.snapshotVersion}).`
+          : `${result.data.updatedCount} urunun fiyati guncellendi. Menu ilk kez yayinlandiginda gecerli olacak.`
+      )
+      setSelectedIds(new Set())
+      setAdjustmentValue('')
+      setChangeReason('')
+      await fetchProducts()
+    } catch {
+      setError('Fiyatlar guncellenirken bir hata olustu.')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/products"
+          className="rounded-lg p-2 text-secondary-500 hover:bg-secondary-100 dark:hover:bg-secondary-700"
+          aria-label="Geri don"
+        >
+          <svg
+            className="h-5 w-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">
+            Toplu Fiyat Degisikligi
+          </h1>
+          <p className="mt-1 text-sm text-secondary-500 dark:text-secondary-400">
+            Birden fazla urunun fiyatini tek seferde guncelleyin
+          </p>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+      {success && (
+        <div
+          className="rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-700 dark:border-green-800 dark:bg-green-900/20 dark:text-green-400"
+          role="status"
+        >
+          {success}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Product selection */}
+        <Card>
+          <CardHeader
+            title="Urun Secimi"
+            subtitle={`${selectedIds.size} urun secildi`}
+          />
+          <CardContent>
+            <div className="mb-4 flex flex-col gap-3 sm:flex-row">
+              <input
+                type="text"
+                placeholder="Urun ara..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="flex-1 rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 transition-colors placeholder:text-secondary-400 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+              />
+              <select
+                value={filterCategory}
+                onChange={(e) => setFilterCategory(e.target.value)}
+                className={`${selectClassName} sm:w-48`}
+              >
+                <option value="">Tum Kategoriler</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+              </div>
+            ) : filteredProducts.length === 0 ? (
+              <p className="py-8 text-center text-sm text-secondary-500 dark:text-secondary-400">
+                Fiyati olan urun bulunamadi.
+              </p>
+            ) : (
+              <>
+                <label className="mb-2 flex items-center gap-2 border-b border-secondary-200 pb-2 text-sm font-medium text-secondary-700 dark:border-secondary-700 dark:text-secondary-300">
+                  <input
+                    type="checkbox"
+                    checked={allFilteredSelected}
+                    onChange={toggleAllFiltered}
+                    className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  Listelenenlerin tumunu sec ({filteredProducts.length})
+                </label>
+                <ul className="max-h-96 space-y-1 overflow-y-auto">
+                  {filteredProducts.map((product) => (
+                    <li key={product.id}>
+                      <label className="flex items-center gap-2 rounded px-1 py-1.5 text-sm hover:bg-secondary-50 dark:hover:bg-secondary-800/50">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(product.id)}
+                          onChange={() => toggleProduct(product.id)}
+                          className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="flex-1 truncate text-secondary-900 dark:text-secondary-100">
+                          {product.name}
+                        </span>
+                        <span className="text-secondary-500 dark:text-secondary-400">
+                          {formatCurrency(product.price)}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Change rule */}
+        <Card>
+          <CardHeader
+            title="Degisiklik Kurali"
+            subtitle="Yuzde veya sabit tutar, ardindan yuvarlama"
+          />
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  Degisiklik Turu
+                </span>
+                <select
+                  value={adjustmentType}
+                  onChange={(e) => setAdjustmentType(e.target.value as PriceAdjustmentType)}
+                  className={selectClassName}
+                >
+                  <option value="percentage">Yuzde (%)</option>
+                  <option value="fixed">Sabit tutar (TL)</option>
+                </select>
+              </label>
+              <Input
+                label={adjustmentType === 'percentage' ? 'Oran (%)' : 'Tutar (TL)'}
+                type="number"
+                step="any"
+                value={adjustmentValue}
+                onChange={(e) => setAdjustmentValue(e.target.value)}
+                placeholder={adjustmentType === 'percentage' ? 'Orn: 15 veya -10' : 'Orn: 20'}
+                error={adjustmentError ?? undefined}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  Yuvarlama
+                </span>
+                <select
+                  value={roundTo}
+                  onChange={(e) => setRoundTo(Number(e.target.value))}
+                  className={selectClassName}
+                >
+                  {ROUNDING_STEPS.map((step) => (
+                    <option key={step.value} value={step.value}>
+                      {step.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                  Yuvarlama Yonu
+                </span>
+                <select
+                  value={roundMode}
+                  onChange={(e) => setRoundMode(e.target.value as PriceRoundMode)}
+                  disabled={roundTo === 0}
+                  className={selectClassName}
+                >
+                  <option value="nearest">En yakin</option>
+                  <option value="up">Yukari</option>
+                  <option value="down">Asagi</option>
+                </select>
+              </label>
+            </div>
+
+            <Input
+              label="Degisiklik Nedeni"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="Orn: Ekim enflasyon guncellemesi"
+              helperText="Tum fiyat kayitlarinda ortak neden olarak saklanir"
+              required
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader
+          title="Onizleme"
+          subtitle={`${preview.length} urunun fiyati degisecek`}
+        />
+        <CardContent>
+          {preview.length === 0 ? (
+            <p className="py-6 text-center text-sm text-secondary-500 dark:text-secondary-400">
+              Urun secip degisiklik kuralini girdiginizde eski ve yeni fiyatlar burada gorunur.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-secondary-200 text-left text-secondary-500 dark:border-secondary-700 dark:text-secondary-400">
+                    <th className="py-2 pr-4 font-medium">Urun</th>
+                    <th className="py-2 pr-4 text-right font-medium">Eski Fiyat</th>
+                    <th className="py-2 pr-4 text-right font-medium">Yeni Fiyat</th>
+                    <th className="py-2 text-right font-medium">Fark</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => (
+                    <tr
+                      key={row.productId}
+                      className="border-b border-secondary-100 last:border-0 dark:border-secondary-800"
+                    >
+                      <td className="py-2 pr-4 text-secondary-900 dark:text-secondary-100">
+                        {row.name}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-secondary-500 dark:text-secondary-400">
+                        {formatCurrency(row.oldPrice)}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-medium text-secondary-900 dark:text-secondary-100">
+                        {formatCurrency(row.newPrice)}
+                      </td>
+                      <td
+                        className={`py-2 text-right ${
+                          row.newPrice > row.oldPrice
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-green-600 dark:text-green-400'
+                        }`}
+                      >
+                        {row.newPrice > row.oldPrice ? '+' : ''}
+                        {formatCurrency(row.newPrice - row.oldPrice)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter align="right">
+          <Button
+            type="button"
+            onClick={handleApply}
+            isLoading={isApplying}
+            disabled={preview.length === 0 || !changeReason.trim()}
+          >
+            Fiyatlari Uygula ve Yayinla
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -8,6 +8,14 @@ import { Input, Textarea } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
+import {
+  NutritionFields,
+  formToNutrition,
+  nutritionToForm,
+} from '@/components/dashboard/nutrition-fields'
+import { AllergenPicker } from '@/components/dashboard/allergen-picker'
+import { validateNutrition } from '@/lib/services/nutrition'
+import type { AllergenCode } from '@/lib/services/allergens'
 import type { Category } from '@/types/database'
 
 /**
@@ -30,11 +38,12 @@ export default function NewProductPage() {
     description: '',
     category_id: '',
     price: '',
-    allergens: '',
     is_visible: true,
     image_url: '',
   })
   const [formError, setFormError] = useState<string | null>(null)
+  const [allergens, setAllergens] = useState<AllergenCode[]>([])
+  const [nutritionForm, setNutritionForm] = useState(() => nutritionToForm(null))
 
   /**
    * Fetch categories for the dropdown
@@ -82,23 +91,26 @@ export default function NewProductPage() {
       return
     }
 
+    // Validate nutrition facts (module_nutrition)
+    const nutrition = formToNutrition(nutritionForm)
+    const nutritionError = nutrition ? validateNutrition(nutrition) : null
+    if (nutritionError) {
+      setFormError(nutritionError)
+      return
+    }
+
     setFormError(null)
     setIsSaving(true)
 
     try {
       const supabase = createClient()
 
-      // Parse allergens from comma-separated string
-      const allergens = formData.allergens
-        .split(',')
-        .map((a) => a.trim())
-        .filter((a) => a.length > 0)
-
       const productData = {
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         category_id: formData.category_id || null,
         allergens: allergens.length > 0 ? allergens : null,
+        nutrition,
         is_visible: formData.is_visible,
         image_url: formData.image_url.trim() || null,
         organization_id: organization.id,
@@ -113,18 +125,23 @@ export default function NewProductPage() {
 
       if (insertError) throw insertError
 
-      // Handle price entry (INSERT into price_ledger - immutable)
+      // Handle price entry (price API appends to the immutable price_ledger)
       const newPrice = parseFloat(formData.price)
 
       if (!isNaN(newPrice) && newPrice >= 0) {
-        const { error: priceError } = await supabase.from('price_ledger').insert({
-          product_id: newProduct.id,
-          price: newPrice,
-          currency: 'TRY',
-          change_reason: 'Ilk fiyat',
+        const priceResponse = await fetch(`/api/products/${newProduct.id}/price`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ price: newPrice, changeReason: 'Ilk fiyat' }),
         })
-
-        if (priceError) throw priceError
+        const priceResult = await priceResponse.json()
+
+        if (!priceResult.success) {
+          setFormError(
+            `Urun kaydedildi ancak fiyat kaydedilemedi: ${priceResult.error || 'Bilinmeyen hata'}`
+          )
+          return
+        }
       }
 
       // Redirect to products list on success
@@ -288,12 +305,16 @@ export default function NewProductPage() {
               </div>
 
               {/* Allergens */}
-              <Input
-                label="Alerjenler"
-                value={formData.allergens}
-                onChange={(e) => handleChange('allergens', e.target.value)}
-                placeholder="Gluten, Sut, Fistik (virgul ile ayirin)"
-                helperText="Birden fazla alerjen icin virgul kullanin"
+              <AllergenPicker
+                value={allergens}
+                onChange={setAllergens}
+                disabled={isSaving}
+              />
+
+              {/* Nutrition facts */}
+              <NutritionFields
+                value={nutritionForm}
+                onChange={setNutritionForm}
                 disabled={isSaving}
               />
 
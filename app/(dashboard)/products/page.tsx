@@ -2,12 +2,20 @@
 
 import { useState, useEffect, useCallback, type FormEvent } from 'react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Card, CardHeader, CardContent } from '@/components/ui/card'
 import { Input, Textarea } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Modal } from '@/components/ui/modal'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
+import { AllergenPicker } from '@/components/dashboard/allergen-picker'
+import {
+  getAllergen,
+  getUnknownAllergens,
+  normalizeAllergens,
+  type AllergenCode,
+} from '@/lib/services/allergens'
 import type { Product, Category, CurrentPrice } from '@/types/database'
 
 /**
@@ -106,7 +114,9 @@ function ProductListItem({
           {product.allergens && product.allergens.length > 0 && (
             <span
               className="shrink-0 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
-              title={`Alerjenler: ${product.allergens.join(', ')}`}
+              title={`Alerjenler: ${normalizeAllergens(product.allergens)
+                .map((code) => getAllergen(code)?.label)
+                .join(', ')}`}
             >
               Alerjen
             </span>
@@ -187,7 +197,8 @@ export default function ProductsPage() {
     description: '',
     category_id: '',
     price: '',
-    allergens: '',
+    price_reason: '',
+    allergens: [] as AllergenCode[],
     is_visible: true,
   })
   const [formError, setFormError] = useState<string | null>(null)
@@ -279,7 +290,8 @@ export default function ProductsPage() {
       description: '',
       category_id: '',
       price: '',
-      allergens: '',
+      price_reason: '',
+      allergens: [],
       is_visible: true,
     })
     setFormError(null)
@@ -296,7 +308,8 @@ export default function ProductsPage() {
       description: product.description || '',
       category_id: product.category_id || '',
       price: product.current_price ? product.current_price.price.toString() : '',
-      allergens: product.allergens?.join(', ') || '',
+      price_reason: '',
+      allergens: normalizeAllergens(product.allergens),
       is_visible: product.is_visible,
     })
     setFormError(null)
@@ -310,23 +323,27 @@ export default function ProductsPage() {
     e.preventDefault()
     if (!organization?.id) return
 
+    // Price changes are recorded with a reason (price ledger)
+    const newPrice = parseFloat(formData.price)
+    const currentPrice = editingProduct?.current_price?.price
+    const isPriceChanged = !isNaN(newPrice) && newPrice >= 0 && currentPrice !== newPrice
+
+    if (isPriceChanged && currentPrice !== undefined && !formData.price_reason.trim()) {
+      setFormError('Fiyat degisikligi icin neden girmelisiniz.')
+      return
+    }
+
     setFormError(null)
     setIsSaving(true)
 
     try {
       const supabase = createClient()
 
-      // Parse allergens from comma-separated string
-      const allergens = formData.allergens
-        .split(',')
-        .map(a => a.trim())
-        .filter(a => a.length > 0)
-
       const productData = {
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         category_id: formData.category_id || null,
-        allergens: allergens.length > 0 ? allergens : null,
+        allergens: formData.allergens.length > 0 ? formData.allergens : null,
         is_visible: formData.is_visible,
         organization_id: organization.id,
       }
@@ -354,23 +371,24 @@ export default function ProductsPage() {
         productId = newProduct.id
       }
 
-      // Handle price change (INSERT into price_ledger - immutable)
-      const newPrice = parseFloat(formData.price)
-      const currentPrice = editingProduct?.current_price?.price
-
-      if (!isNaN(newPrice) && newPrice >= 0) {
-        // Only add price entry if it's a new product or price changed
-        if (!editingProduct || currentPrice !== newPrice) {
-          const { error: priceError } = await supabase
-            .from('price_ledger')
-            .insert({
-              product_id: productId,
-              price: newPrice,
-              currency: 'TRY',
-              change_reason: editingProduct ? 'Fiyat guncellendi' : 'Ilk fiyat',
-            })
-
-          if (priceError) throw priceError
+      // Handle price change (price API appends to the immutable price_ledger)
+      if (isPriceChanged) {
+        const response = await fetch(`/api/products/${productId}/price`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            price: newPrice,
+            changeReason: currentPrice !== undefined ? formData.price_reason.trim() : 'Ilk fiyat',
+          }),
+        })
+        const result = await response.json()
+
+        if (!result.success) {
+          // Product changes are saved; report the rejected price on the page
+          setIsModalOpen(false)
+          await fetchProducts()
+          setError(result.error || 'Fiyat kaydedilemedi.')
+          return
         }
       }
 
@@ -454,13 +472,21 @@ export default function ProductsPage() {
             Menu urunlerinizi yonetin ve fiyatlandirin
           </p>
         </div>
-        <Button onClick={handleAddProduct} leftIcon={
-          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-          </svg>
-        }>
-          Yeni Urun
-        </Button>
+        <div className="flex gap-2">
+          <Link
+            href="/products/bulk-price"
+            className="inline-flex items-center rounded-lg border-2 border-secondary-300 px-4 py-2 text-base font-medium text-secondary-700 transition-colors hover:bg-secondary-50 dark:border-secondary-600 dark:text-secondary-200 dark:hover:bg-secondary-800"
+          >
+            Toplu Fiyat
+          </Link>
+          <Button onClick={handleAddProduct} leftIcon={
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          }>
+            Yeni Urun
+          </Button>
+        </div>
       </div>
 
       {/* Error message */}
@@ -642,12 +668,24 @@ export default function ProductsPage() {
               disabled={isSaving}
             />
 
-            <Input
-              label="Alerjenler"
+            {editingProduct?.current_price &&
+              formData.price !== '' &&
+              parseFloat(formData.price) !== editingProduct.current_price.price && (
+                <Input
+                  label="Degisiklik Nedeni"
+                  value={formData.price_reason}
+                  onChange={(e) => setFormData(prev => ({ ...prev, price_reason: e.target.value }))}
+                  placeholder="Orn: Tedarikci fiyat artisi"
+                  helperText="Fiyat gecmisinde ve denetim kayitlarinda saklanir"
+                  required
+                  disabled={isSaving}
+                />
+              )}
+
+            <AllergenPicker
               value={formData.allergens}
-              onChange={(e) => setFormData(prev => ({ ...prev, allergens: e.target.value }))}
-              placeholder="Gluten, Sut, Fistik (virgul ile ayirin)"
-              helperText="Birden fazla alerjen icin virgul kullanin"
+              onChange={(allergens) => setFormData(prev => ({ ...prev, allergens }))}
+              unknownValues={editingProduct ? getUnknownAllergens(editingProduct.allergens) : []}
               disabled={isSaving}
             />
 
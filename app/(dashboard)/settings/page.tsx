@@ -6,7 +6,9 @@ import { Input, Textarea } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
-import type { Organization } from '@/types/database'
+import { ThemeEditor } from '@/components/dashboard/theme-editor'
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, getLocaleName } from '@/lib/i18n/locales'
+import type { Organization, OrganizationLanguage } from '@/types/database'
 
 /**
  * Organization settings form data
@@ -68,6 +70,95 @@ export default function SettingsPage() {
     address: '',
   })
 
+  // Menu languages state
+  const [languages, setLanguages] = useState<OrganizationLanguage[]>([])
+  const [newLocale, setNewLocale] = useState('')
+  const [isLanguageSaving, setIsLanguageSaving] = useState(false)
+
+  /**
+   * Fetch enabled menu languages
+   */
+  const fetchLanguages = useCallback(async () => {
+    if (!organization?.id) return
+
+    try {
+      const response = await fetch(`/api/languages?organizationId=${organization.id}`)
+      const result = await response.json()
+      if (result.success) {
+        setLanguages(result.data || [])
+      }
+    } catch {
+      // Language list is optional on this page
+    }
+  }, [organization?.id])
+
+  useEffect(() => {
+    fetchLanguages()
+  }, [fetchLanguages])
+
+  /**
+   * Enable a new menu language (plan limit is checked server side)
+   */
+  const handleAddLanguage = async () => {
+    if (!organization?.id || !newLocale) return
+
+    setError(null)
+    setSuccess(null)
+    setIsLanguageSaving(true)
+
+    try {
+      const response = await fetch('/api/languages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: organization.id, locale: newLocale }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Dil eklenirken bir hata olustu.')
+        return
+      }
+
+      setNewLocale('')
+      await fetchLanguages()
+      setSuccess('Dil eklendi. Degisiklikler menu yayinlandiginda gorunur.')
+    } catch {
+      setError('Dil eklenirken bir hata olustu.')
+    } finally {
+      setIsLanguageSaving(false)
+    }
+  }
+
+  /**
+   * Remove a menu language (translations are kept)
+   */
+  const handleRemoveLanguage = async (locale: string) => {
+    if (!organization?.id) return
+
+    setError(null)
+    setSuccess(null)
+    setIsLanguageSaving(true)
+
+    try {
+      const response = await fetch(
+        `/api/languages?organizationId=${organization.id}&locale=${locale}`,
+        { method: 'DELETE' }
+      )
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Dil kaldirilirken bir hata olustu.')
+        return
+      }
+
+      await fetchLanguages()
+    } catch {
+      setError('Dil kaldirilirken bir hata olustu.')
+    } finally {
+      setIsLanguageSaving(false)
+    }
+  }
+
   /**
    * Initialize form data from organization
    */
@@ -110,8 +201,18 @@ export default function SettingsPage() {
     try {
       const supabase = createClient()
 
+      // Keep settings managed elsewhere (e.g. the menu theme)
+      const { data: current, error: fetchError } = await supabase
+        .from('organizations')
+        .select('settings')
+        .eq('id', organization.id)
+        .single()
+
+      if (fetchError) throw fetchError
+
       // Build settings object
       const settings = {
+        ...((current?.settings as Record<string, unknown> | null) ?? {}),
         description: formData.description.trim() || null,
         contact_phone: formData.contact_phone.trim() || null,
         contact_email: formData.contact_email.trim() || null,
@@ -289,6 +390,85 @@ export default function SettingsPage() {
               )}
             </Card>
           </form>
+
+          {/* Menu languages */}
+          <Card className="mt-6">
+            <CardHeader
+              title="Menu Dilleri"
+              subtitle="Menunuzun yayinlanacagi ek dilleri yonetin. Ana dil her zaman paket limitine dahildir."
+            />
+            <CardContent>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between rounded-lg border border-secondary-200 px-3 py-2 dark:border-secondary-700">
+                  <span className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                    {getLocaleName(DEFAULT_LOCALE)}
+                  </span>
+                  <span className="text-xs text-secondary-500 dark:text-secondary-400">Ana dil</span>
+                </div>
+                {languages.map((language) => (
+                  <div
+                    key={language.id}
+                    className="flex items-center justify-between rounded-lg border border-secondary-200 px-3 py-2 dark:border-secondary-700"
+                  >
+                    <span className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+                      {getLocaleName(language.locale)}
+                    </span>
+                    {canEdit && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveLanguage(language.locale)}
+                        disabled={isLanguageSaving}
+                      >
+                        Kaldir
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+            {canEdit && (
+              <CardFooter>
+                <div className="flex w-full items-center gap-2">
+                  <select
+                    value={newLocale}
+                    onChange={(e) => setNewLocale(e.target.value)}
+                    className="flex-1 rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+                    disabled={isLanguageSaving}
+                  >
+                    <option value="">Dil secin</option>
+                    {SUPPORTED_LOCALES.filter(
+                      (locale) =>
+                        locale.code !== DEFAULT_LOCALE &&
+                        !languages.some((l) => l.locale === locale.code)
+                    ).map((locale) => (
+                      <option key={locale.code} value={locale.code}>
+                        {locale.name}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    onClick={handleAddLanguage}
+                    isLoading={isLanguageSaving}
+                    disabled={!newLocale}
+                  >
+                    Dil Ekle
+                  </Button>
+                </div>
+              </CardFooter>
+            )}
+          </Card>
+
+          {/* Menu theme */}
+          {organization && (
+            <ThemeEditor
+              organizationId={organization.id}
+              organizationName={organization.name}
+              canEdit={!!canEdit}
+            />
+          )}
         </div>
 
         {/* Side panel - Organization info */}
@@ -0,0 +1,271 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { hasPermission } from '@/lib/guards/permission'
+import { updateBundle, deactivateBundle } from '@/lib/services/bundles'
+import { writeAuditLog } from '@/lib/services/audit'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Bundle API Route Handler
+ *
+ * PUT /api/bundles/[id] - Update a bundle and replace its items
+ * DELETE /api/bundles/[id] - Deactivate a bundle
+ *
+ * Bundles are never deleted so bundle_price_ledger entries keep their
+ * reference. A changed price is published right away on top of the published
+ * menu (publishPriceChanges); other changes still need an approved publish
+ * request.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage bundles
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface BundleRequestBody {
+  name?: string
+  description?: string | null
+  imageUrl?: string | null
+  price?: number
+  items?: Array<{ productId?: string; quantity?: number }>
+  changeReason?: string
+}
+
+/**
+ * Authenticate the user and verify they can edit the bundle's organization
+ */
+async function authorizeBundle(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  bundleId: string
+): Promise<{
+  organizationId?: string
+  userId?: string
+  bundle?: Record<string, unknown>
+  error?: NextResponse
+}> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(bundleId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz paket ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: bundle } = await supabase
+    .from('bundles')
+    .select('*')
+    .eq('id', bundleId)
+    .single()
+
+  if (!bundle) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Paket bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', bundle.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Menu paketleri icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: bundle.organization_id, userId: user.id, bundle }
+}
+
+/**
+ * PUT /api/bundles/[id]
+ *
+ * Updates a bundle and replaces its items. A changed price is a new
+ * bundle_price_ledger entry. Body has the same fields as POST /api/bundles
+ * (without organizationId).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeBundle(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!(await hasPermission(auth.organizationId!, 'module_bundles'))) {
+    return NextResponse.json(
+      { success: false, error: 'Menu paketi ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  let body: BundleRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const result = await updateBundle(id, auth.organizationId!, {
+    name: body.name ?? '',
+    description: body.description ?? null,
+    image_url: body.imageUrl ?? null,
+    price: Number(body.price),
+    items: (body.items ?? []).map((item) => ({
+      product_id: item.productId ?? '',
+      quantity: Number(item.quantity ?? 1),
+    })),
+    change_reason: body.changeReason?.trim() || undefined,
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'update',
+      entityType: 'bundle',
+      entityId: id,
+      oldData: auth.bundle,
+      newData: result.data,
+      request,
+    })
+  }
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  // A changed price goes live at once, like every price change (publishPriceChanges)
+  const snapshotResult = await publishPriceChanges(auth.organizationId!)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Degisiklik kaydedildi ancak fiyatlar yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  if (snapshotResult.data) {
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('slug')
+      .eq('id', auth.organizationId!)
+      .single()
+
+    if (organization?.slug) {
+      revalidatePath(`/menu/${organization.slug}`)
+      revalidatePath(`/r/${organization.slug}`)
+    }
+  }
+
+  return NextResponse.json({ ...result, snapshotVersion: snapshotResult.data?.version ?? null })
+}
+
+/**
+ * DELETE /api/bundles/[id]
+ *
+ * Deactivates a bundle. Allowed even without module_bundles so downgraded
+ * organizations can still remove bundles from the menu.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeBundle(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await deactivateBundle(id, auth.organizationId!)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'deactivate',
+      entityType: 'bundle',
+      entityId: id,
+      oldData: auth.bundle,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
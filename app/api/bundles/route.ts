@@ -0,0 +1,220 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/lib/guards/permission'
+import { getBundles, createBundle } from '@/lib/services/bundles'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Bundles API Route Handler
+ *
+ * GET /api/bundles?organizationId=uuid - List bundles with items and prices
+ * POST /api/bundles - Create a bundle from existing products
+ *
+ * Bundle prices are immutable bundle_price_ledger entries; new bundles reach
+ * the public menu with the next menu publish, and only while every component
+ * product is visible. Price changes of published bundles go live at once
+ * (PUT /api/bundles/[id]).
+ *
+ * Requires the module_bundles feature for write operations.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage bundles
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * Request body interface
+ */
+interface BundleRequestBody {
+  organizationId?: string
+  name?: string
+  description?: string | null
+  imageUrl?: string | null
+  price?: number
+  items?: Array<{ productId?: string; quantity?: number }>
+  changeReason?: string
+}
+
+/**
+ * GET /api/bundles
+ *
+ * Lists all bundles (active and deactivated) of the organization.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await getBundles(organizationId)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/bundles
+ *
+ * Creates a bundle and records its first price.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required)
+ *   name: string (required)
+ *   description: string | null
+ *   imageUrl: string | null
+ *   price: number (required)
+ *   items: Array<{ productId: string; quantity: number }> (at least two)
+ *   changeReason: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: BundleRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Menu paketleri icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  if (!(await hasPermission(organizationId, 'module_bundles'))) {
+    return NextResponse.json(
+      { success: false, error: 'Menu paketi ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await createBundle(organizationId, {
+    name: body.name ?? '',
+    description: body.description ?? null,
+    image_url: body.imageUrl ?? null,
+    price: Number(body.price),
+    items: (body.items ?? []).map((item) => ({
+      product_id: item.productId ?? '',
+      quantity: Number(item.quantity ?? 1),
+    })),
+    change_reason: body.changeReason?.trim() || undefined,
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId,
+      userId: user.id,
+      action: 'create',
+      entityType: 'bundle',
+      entityId: (result.data as { id: string }).id,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 201 : 400 })
+}
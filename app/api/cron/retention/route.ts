@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRetention } from '@/lib/services/retention'
+
+/**
+ * Daily Retention Job
+ *
+ * GET /api/cron/retention - Apply the plan retention_days limits
+ *
+ * Each plan keeps audit logs and service requests visible for a limited
+ * number of days. This job (run daily by Vercel Cron, see vercel.json)
+ * archives older service requests and moves the audit log cutoff of every
+ * organization. Nothing is deleted; price_ledger and menu_snapshots are not
+ * touched.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+/**
+ * GET /api/cron/retention
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data: Array<{ organizationId, retentionDays, archivedBefore, serviceRequestsArchived, error? }>
+ *   error?: string
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Yetkisiz istek' },
+      { status: 401 }
+    )
+  }
+
+  const result = await applyRetention()
+
+  return NextResponse.json(result, { status: result.error ? 500 : 200 })
+}
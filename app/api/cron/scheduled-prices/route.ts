@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { publishScheduledPriceChanges } from '@/lib/services/snapshot'
+
+/**
+ * Scheduled Price Publish Job
+ *
+ * GET /api/cron/scheduled-prices - Publish menus whose scheduled prices took effect
+ *
+ * Scheduled price changes reach current_prices at their effective time, but
+ * the public menu is rendered from the latest snapshot. This job (run by
+ * Vercel Cron, see vercel.json) creates a new snapshot for every organization
+ * with a change that took effect after its latest snapshot. The snapshot is
+ * the published menu with the new prices; unapproved draft edits stay out.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+/**
+ * GET /api/cron/scheduled-prices
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data: Array<{ organizationId, slug, version?, error? }>
+ *   error?: string
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Yetkisiz istek' },
+      { status: 401 }
+    )
+  }
+
+  const result = await publishScheduledPriceChanges()
+
+  for (const publication of result.data) {
+    if (publication.slug && !publication.error) {
+      revalidatePath(`/menu/${publication.slug}`)
+      revalidatePath(`/r/${publication.slug}`)
+    }
+  }
+
+  return NextResponse.json(result, { status: result.error ? 500 : 200 })
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { archiveSnapshotChainDigest } from '@/lib/services/snapshot'
+
+/**
+ * Daily Snapshot Chain Digest Job
+ *
+ * GET /api/cron/snapshot-digest - Export the menu snapshot chain heads
+ *
+ * Every snapshot hash covers the hash of the version before it, so the
+ * latest hash of an organization (the chain head) fixes its whole history.
+ * This job (run daily by Vercel Cron, see vercel.json) lists the chain head
+ * of every organization and sends the digest to SNAPSHOT_DIGEST_ARCHIVE_URL,
+ * so a copy exists outside the database. The response is the same digest as
+ * a downloadable JSON file.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+/**
+ * GET /api/cron/snapshot-digest
+ *
+ * Response (menu-zincir-ozeti-YYYY-MM-DD.json):
+ * {
+ *   generated_at: string
+ *   heads: Array<{ organization_id, organization_slug, snapshot_id, version, hash, created_at }>
+ *   digest: string
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Yetkisiz istek' },
+      { status: 401 }
+    )
+  }
+
+  const result = await archiveSnapshotChainDigest()
+
+  if (!result.data) {
+    return NextResponse.json(
+      { success: false, error: result.error },
+      { status: 500 }
+    )
+  }
+
+  const date = result.data.generated_at.slice(0, 10)
+
+  return NextResponse.json(result.data, {
+    status: result.success ? 200 : 502,
+    headers: {
+      'Content-Disposition': `attachment; filename="menu-zincir-ozeti-${date}.json"`,
+      'X-Digest-Archived': String(result.archived),
+    },
+  })
+}
@@ -0,0 +1,241 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getOrganizationLanguages,
+  addOrganizationLanguage,
+  removeOrganizationLanguage,
+} from '@/lib/services/translation'
+import { writeAuditLog } from '@/lib/services/audit'
+
+/**
+ * Menu Languages API Route Handler
+ *
+ * Manages the additional menu languages of an organization. Adding a
+ * language is checked against the plan's limit_languages value.
+ *
+ * GET /api/languages?organizationId=uuid - List enabled languages
+ * POST /api/languages - Enable a language (owner/admin)
+ * DELETE /api/languages?organizationId=uuid&locale=en - Remove a language (owner/admin)
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data?: OrganizationLanguage | OrganizationLanguage[]
+ *   error?: string
+ * }
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Request body interface
+ */
+interface LanguageRequestBody {
+  organizationId?: string
+  locale?: string
+}
+
+/**
+ * Authenticate the user and resolve their role in the organization
+ */
+async function authorize(organizationId: string | null | undefined) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz organizasyon ID formati' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: membership, error: memberError } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (memberError || !membership) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { user, role: membership.role as string }
+}
+
+/**
+ * GET /api/languages
+ *
+ * Lists the additional languages enabled for the organization.
+ */
+export async function GET(request: NextRequest) {
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+  const auth = await authorize(organizationId)
+
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await getOrganizationLanguages(organizationId!)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/languages
+ *
+ * Enables a language for the organization after checking the plan limit.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required) - Organization UUID
+ *   locale: string (required) - Language code (e.g., 'en')
+ * }
+ */
+export async function POST(request: NextRequest) {
+  let body: LanguageRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const auth = await authorize(body.organizationId)
+
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!['owner', 'admin'].includes(auth.role)) {
+    return NextResponse.json(
+      { success: false, error: 'Dil eklemek icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  if (!body.locale || typeof body.locale !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'Dil kodu zorunludur' },
+      { status: 400 }
+    )
+  }
+
+  const locale = body.locale.trim().toLowerCase()
+  const result = await addOrganizationLanguage(body.organizationId!, locale)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  await writeAuditLog({
+    organizationId: body.organizationId!,
+    userId: auth.user.id,
+    action: 'create',
+    entityType: 'organization_language',
+    newData: { locale },
+    request,
+  })
+
+  return NextResponse.json(result, { status: 201 })
+}
+
+/**
+ * DELETE /api/languages
+ *
+ * Removes a language from the organization. Translations are kept.
+ */
+export async function DELETE(request: NextRequest) {
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+  const locale = request.nextUrl.searchParams.get('locale')
+  const auth = await authorize(organizationId)
+
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!['owner', 'admin'].includes(auth.role)) {
+    return NextResponse.json(
+      { success: false, error: 'Dil kaldirmak icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  if (!locale) {
+    return NextResponse.json(
+      { success: false, error: 'Dil kodu zorunludur' },
+      { status: 400 }
+    )
+  }
+
+  const result = await removeOrganizationLanguage(organizationId!, locale)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: organizationId!,
+      userId: auth.user.id,
+      action: 'delete',
+      entityType: 'organization_language',
+      oldData: { locale },
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
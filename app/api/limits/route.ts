@@ -0,0 +1,95 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { getAllLimitStatuses } from '@/lib/guards/limits'
+
+/**
+ * Plan Limits API Route Handler
+ *
+ * GET /api/limits?organizationId=uuid - Usage of all limit-type plan features
+ *
+ * Periodic limits (e.g. limit_price_revisions) report the usage of the
+ * current period and when it resets.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/limits
+ *
+ * Lists limit statuses for any member of the organization.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const limits = await getAllLimitStatuses(organizationId)
+
+  return NextResponse.json({ success: true, data: limits })
+}
@@ -0,0 +1,230 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { reviewPublishRequest, cancelPublishRequest } from '@/lib/services/publish-requests'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Menu Publish Request API Route Handler
+ *
+ * PATCH /api/menu/publish-requests/[id] - Approve, reject or cancel a pending request
+ *
+ * Approving publishes the reviewed draft as a new snapshot and revalidates
+ * the public menu page.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to approve or reject requests (and to publish directly)
+ */
+const PUBLISH_ROLES: UserRole[] = ['owner', 'admin']
+
+/**
+ * Roles allowed to cancel a pending request
+ */
+const REQUEST_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface ReviewRequestBody {
+  action?: 'approve' | 'reject' | 'cancel'
+  note?: string | null
+}
+
+/**
+ * PATCH /api/menu/publish-requests/[id]
+ *
+ * Request body:
+ * {
+ *   action: 'approve' | 'reject' | 'cancel' (required)
+ *   note: string | null - Review note for the requester
+ * }
+ *
+ * Approval returns 409 with `stale: true` if the menu changed after the
+ * request was sent.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  if (!uuidRegex.test(id)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz talep ID' },
+      { status: 400 }
+    )
+  }
+
+  let body: ReviewRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  if (body.action !== 'approve' && body.action !== 'reject' && body.action !== 'cancel') {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz islem (approve, reject veya cancel)' },
+      { status: 400 }
+    )
+  }
+
+  const { data: publishRequest } = await supabase
+    .from('menu_publish_requests')
+    .select('organization_id, organizations(slug)')
+    .eq('id', id)
+    .single()
+
+  if (!publishRequest) {
+    return NextResponse.json(
+      { success: false, error: 'Yayin talebi bulunamadi' },
+      { status: 404 }
+    )
+  }
+
+  const organizationId: string = publishRequest.organization_id
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  const allowedRoles = body.action === 'cancel' ? REQUEST_ROLES : PUBLISH_ROLES
+
+  if (!membership || !allowedRoles.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          body.action === 'cancel'
+            ? 'Yayin talebini geri cekmek icin yeterli yetkiniz bulunmuyor'
+            : 'Yayin taleplerini yalnizca isletme sahibi veya yonetici onaylayabilir',
+      },
+      { status: 403 }
+    )
+  }
+
+  const note = typeof body.note === 'string' ? body.note : null
+
+  if (body.action === 'cancel') {
+    const result = await cancelPublishRequest(id, organizationId, user.id)
+
+    if (result.success) {
+      await writeAuditLog({
+        organizationId,
+        userId: user.id,
+        action: 'update',
+        entityType: 'menu_publish_request',
+        entityId: id,
+        oldData: { status: 'pending' },
+        newData: { status: 'cancelled' },
+        request,
+      })
+    }
+
+    return NextResponse.json(result, { status: result.success ? 200 : 409 })
+  }
+
+  const result = await reviewPublishRequest(id, organizationId, user.id, body.action, note)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 409 })
+  }
+
+  const snapshot = result.data?.snapshot
+
+  // Approval is recorded as the publish it caused, rejection as a status change
+  await writeAuditLog(
+    snapshot
+      ? {
+          organizationId,
+          userId: user.id,
+          action: 'publish',
+          entityType: 'menu_snapshot',
+          entityId: snapshot.id,
+          oldData: snapshot.previous_hash
+            ? { version: snapshot.version - 1, hash: snapshot.previous_hash }
+            : null,
+          newData: { version: snapshot.version, hash: snapshot.hash },
+          metadata: { trigger: 'publish_request', publish_request_id: id, note },
+          request,
+        }
+      : {
+          organizationId,
+          userId: user.id,
+          action: 'update',
+          entityType: 'menu_publish_request',
+          entityId: id,
+          oldData: { status: 'pending' },
+          newData: { status: result.data?.request.status ?? 'rejected', review_note: note },
+          request,
+        }
+  )
+
+  if (snapshot) {
+    const organization = publishRequest.organizations as unknown as { slug: string } | null
+
+    if (organization?.slug) {
+      revalidatePath(`/menu/${organization.slug}`)
+    }
+  }
+
+  return NextResponse.json(result)
+}
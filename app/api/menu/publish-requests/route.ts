@@ -0,0 +1,198 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublishRequests, createPublishRequest } from '@/lib/services/publish-requests'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Menu Publish Requests API Route Handler
+ *
+ * GET /api/menu/publish-requests?organizationId=uuid - Latest publish requests
+ * POST /api/menu/publish-requests - Send the current menu draft for approval
+ *
+ * Managers cannot publish the menu directly; they review the draft preview
+ * and send it for approval. Owners and admins approve or reject requests
+ * via PATCH /api/menu/publish-requests/[id].
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to send the draft for approval
+ */
+const REQUEST_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * Request body interface
+ */
+interface PublishRequestBody {
+  organizationId?: string
+  note?: string | null
+}
+
+/**
+ * GET /api/menu/publish-requests
+ *
+ * Lists the latest publish requests of the organization, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await getPublishRequests(organizationId)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/menu/publish-requests
+ *
+ * Sends the current menu draft for approval. The request records the draft
+ * hash; approval fails if the menu changes afterwards.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required)
+ *   note: string | null - Note for the reviewer
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: PublishRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !REQUEST_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Yayin talebi gondermek icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await createPublishRequest(
+    organizationId,
+    user.id,
+    typeof body.note === 'string' ? body.note : null
+  )
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId,
+      userId: user.id,
+      action: 'create',
+      entityType: 'menu_publish_request',
+      entityId: result.data.id,
+      newData: {
+        status: result.data.status,
+        draft_hash: result.data.draft_hash,
+        note: result.data.note,
+      },
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 201 : 409 })
+}
@@ -2,7 +2,8 @@ import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 import { revalidatePath } from 'next/cache'
-import { createMenuSnapshot } from '@/lib/services/snapshot'
+import { createMenuSnapshot, SNAPSHOT_GENESIS_HASH } from '@/lib/services/snapshot'
+import { writeAuditLog } from '@/lib/services/audit'
 
 /**
  * Menu Publish API Route Handler
@@ -10,7 +11,8 @@ import { createMenuSnapshot } from '@/lib/services/snapshot'
  * This route handles menu publishing by:
  * 1. Authenticating the user and verifying organization access
  * 2. Creating an immutable menu snapshot with SHA-256 hash
- * 3. Triggering ISR revalidation for the public menu page
+ * 3. Recording a `publish` audit log entry
+ * 4. Triggering ISR revalidation for the public menu page
  *
  * POST /api/menu/publish
  *
@@ -71,7 +73,8 @@ interface PublishRequestBody {
  * POST /api/menu/publish
  *
  * Publishes the menu by creating a snapshot and triggering revalidation.
- * User must be authenticated and have sufficient role (owner, admin, manager).
+ * User must be authenticated and have sufficient role (owner, admin).
+ * Managers send the draft for approval via /api/menu/publish-requests.
  */
 export async function POST(request: NextRequest) {
   const supabase = await createSupabaseClient()
@@ -161,13 +164,16 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  // Only owner, admin, and manager can publish menus
-  const allowedRoles = ['owner', 'admin', 'manager']
+  // Only owner and admin can publish menus; managers send a publish request
+  const allowedRoles = ['owner', 'admin']
   if (!allowedRoles.includes(membership.role)) {
     return NextResponse.json(
       {
         success: false,
-        error: 'Menu yayinlamak icin yeterli yetkiniz bulunmuyor',
+        error:
+          membership.role === 'manager'
+            ? 'Menu degisiklikleri onaya gonderilmeli (/api/menu/publish-requests)'
+            : 'Menu yayinlamak icin yeterli yetkiniz bulunmuyor',
       },
       { status: 403 }
     )
@@ -189,6 +195,19 @@ export async function POST(request: NextRequest) {
 
     const snapshot = snapshotResult.data
 
+    await writeAuditLog({
+      organizationId,
+      userId: user.id,
+      action: 'publish',
+      entityType: 'menu_snapshot',
+      entityId: snapshot.id,
+      oldData: snapshot.previous_hash && snapshot.previous_hash !== SNAPSHOT_GENESIS_HASH
+        ? { version: snapshot.version - 1, hash: snapshot.previous_hash }
+        : null,
+      newData: { version: snapshot.version, hash: snapshot.hash },
+      request,
+    })
+
     // Trigger ISR revalidation for the public menu page
     revalidatePath(`/menu/${organization.slug}`)
 
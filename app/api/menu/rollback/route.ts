@@ -0,0 +1,195 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { rollbackMenuSnapshot } from '@/lib/services/snapshot'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Menu Rollback API Route Handler
+ *
+ * Republishes an older menu version after a bad publish:
+ * 1. Authenticating the user and verifying owner/admin access
+ * 2. In one database transaction: recording the version's prices in every
+ *    price ledger where they differ from the current prices ("rollback to
+ *    vN"), creating a new snapshot whose content equals the chosen version
+ *    (older snapshots are never modified) and recording a `publish` audit
+ *    log entry with a rollback note
+ * 3. Triggering ISR revalidation for the public menu pages
+ *
+ * POST /api/menu/rollback
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required) - Organization UUID
+ *   version: number (required) - Version to republish
+ *   reason: string | null - Reason recorded in the audit log
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data?: {
+ *     snapshotId: string - Created snapshot UUID
+ *     version: number - New version number
+ *     rolledBackTo: number - Republished version
+ *     hash: string - SHA-256 hash of the new snapshot
+ *     publishedAt: string - ISO timestamp of publish
+ *   }
+ *   error?: string
+ * }
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to roll back the menu (same as publishing)
+ */
+const PUBLISH_ROLES: UserRole[] = ['owner', 'admin']
+
+/**
+ * Request body interface
+ */
+interface RollbackRequestBody {
+  organizationId?: string
+  version?: number
+  reason?: string | null
+}
+
+/**
+ * POST /api/menu/rollback
+ *
+ * Republishes an older version as a new snapshot and revalidates the
+ * public menu pages.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: RollbackRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const version = Number(body.version)
+
+  if (!Number.isInteger(version) || version < 1) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz versiyon numarasi' },
+      { status: 400 }
+    )
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id, slug')
+    .eq('id', organizationId)
+    .single()
+
+  if (!organization) {
+    return NextResponse.json(
+      { success: false, error: 'Organizasyon bulunamadi' },
+      { status: 404 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !PUBLISH_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Menuyu geri almak icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await rollbackMenuSnapshot(
+    organizationId,
+    version,
+    user.id,
+    typeof body.reason === 'string' ? body.reason : null
+  )
+
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      { success: false, error: result.error || 'Menu geri alinamadi' },
+      { status: 400 }
+    )
+  }
+
+  revalidatePath(`/menu/${organization.slug}`)
+  revalidatePath(`/r/${organization.slug}`)
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      snapshotId: result.data.id,
+      version: result.data.version,
+      rolledBackTo: version,
+      hash: result.data.hash,
+      publishedAt: result.data.created_at,
+    },
+  })
+}
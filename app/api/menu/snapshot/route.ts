@@ -5,9 +5,14 @@ import {
   getCurrentMenuSnapshot,
   getSnapshotById,
   getSnapshotByVersion,
+  getSnapshotAt,
   getSnapshotHistory,
   verifySnapshotHash,
+  verifySnapshotChain,
+  getSnapshotChainDigest,
+  getMenuSnapshotDiff,
   exportSnapshotForCompliance,
+  type SnapshotDiffTarget,
 } from '@/lib/services/snapshot'
 
 /**
@@ -18,8 +23,12 @@ import {
  * - Get current/latest snapshot for an organization
  * - Get specific snapshot by ID
  * - Get snapshot by version number
+ * - Get the snapshot that was live at a given moment
  * - Get snapshot history with pagination
  * - Verify snapshot hash integrity
+ * - Verify the whole version history (hash chain)
+ * - Download the chain head digest for archiving
+ * - Compare two menu states field by field (changelog)
  * - Export snapshot for compliance reporting
  *
  * GET /api/menu/snapshot
@@ -28,8 +37,15 @@ import {
  * - organizationId: string (required) - Organization UUID
  * - snapshotId: string (optional) - Get specific snapshot by ID
  * - version: number (optional) - Get specific version
+ * - at: string (optional) - ISO timestamp; returns the snapshot that was live
+ *   then, always with hash verification
  * - history: boolean (optional) - Get all snapshots (paginated)
  * - verify: boolean (optional) - Include hash verification
+ * - chain: boolean (optional) - Verify every version and its link to the previous one
+ * - digest: boolean (optional) - Download the chain head digest (JSON file)
+ * - diff: string (optional) - Compare two menu states, e.g. `3,5`; each side is
+ *   a version number, `latest` or `draft` (unpublished menu), so
+ *   `latest,draft` lists the changes the next publish will make
  * - export: boolean (optional) - Format for compliance export
  * - limit: number (optional) - Pagination limit (default: 50)
  * - offset: number (optional) - Pagination offset (default: 0)
@@ -81,6 +97,22 @@ function isValidUUID(str: string): boolean {
   return uuidRegex.test(str)
 }
 
+/**
+ * Parse one side of the diff parameter (version number, latest or draft)
+ */
+function parseDiffTarget(value: string): SnapshotDiffTarget | null {
+  if (value === 'latest' || value === 'draft') {
+    return value
+  }
+
+  if (!/^\d+$/.test(value)) {
+    return null
+  }
+
+  const version = parseInt(value, 10)
+  return version >= 1 ? version : null
+}
+
 /**
  * GET /api/menu/snapshot
  *
@@ -108,9 +140,13 @@ export async function GET(request: NextRequest) {
   const organizationId = searchParams.get('organizationId')
   const snapshotId = searchParams.get('snapshotId')
   const versionParam = searchParams.get('version')
+  const atParam = searchParams.get('at')
   const historyParam = searchParams.get('history')
   const verifyParam = searchParams.get('verify')
   const exportParam = searchParams.get('export')
+  const chainParam = searchParams.get('chain')
+  const digestParam = searchParams.get('digest')
+  const diffParam = searchParams.get('diff')
   const limitParam = searchParams.get('limit')
   const offsetParam = searchParams.get('offset')
 
@@ -202,6 +238,7 @@ export async function GET(request: NextRequest) {
           isValid: verificationResult.isValid,
           storedHash: verificationResult.storedHash,
           computedHash: verificationResult.computedHash,
+          algorithm: verificationResult.algorithm,
           verifiedAt: new Date().toISOString(),
         },
       })
@@ -232,6 +269,108 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  // Handle whole-history verification request
+  if (chainParam === 'true') {
+    const chainResult = await verifySnapshotChain(orgId)
+
+    if (!chainResult.success) {
+      return NextResponse.json(
+        { success: false, error: chainResult.error || 'Zincir dogrulanamadi' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: chainResult.data,
+    })
+  }
+
+  // Handle chain head digest download
+  if (digestParam === 'true') {
+    const digestResult = await getSnapshotChainDigest(undefined, orgId)
+
+    if (!digestResult.success || !digestResult.data) {
+      return NextResponse.json(
+        { success: false, error: digestResult.error || 'Zincir ozeti alinamadi' },
+        { status: 500 }
+      )
+    }
+
+    const date = digestResult.data.generated_at.slice(0, 10)
+
+    return NextResponse.json(digestResult.data, {
+      headers: {
+        'Content-Disposition': `attachment; filename="menu-zincir-ozeti-${date}.json"`,
+      },
+    })
+  }
+
+  // Handle field-level comparison of two menu states
+  if (diffParam) {
+    const targets = diffParam.split(',').map((value) => parseDiffTarget(value.trim()))
+    const [from, to] = targets
+
+    if (targets.length !== 2 || from === null || to === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Gecersiz diff parametresi (ornek: diff=3,5 veya diff=latest,draft)',
+        },
+        { status: 400 }
+      )
+    }
+
+    const diffResult = await getMenuSnapshotDiff(orgId, from, to)
+
+    if (!diffResult.success) {
+      return NextResponse.json(
+        { success: false, error: diffResult.error || 'Versiyon bulunamadi' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: diffResult.data,
+    })
+  }
+
+  // Handle "what did the menu say at this moment" request
+  if (atParam) {
+    const at = new Date(atParam)
+
+    if (isNaN(at.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Gecersiz tarih (ornek: at=2024-03-01T20:30:00+03:00)' },
+        { status: 400 }
+      )
+    }
+
+    const atResult = await getSnapshotAt(orgId, at)
+
+    if (!atResult.success || !atResult.data) {
+      return NextResponse.json(
+        { success: false, error: atResult.error || 'Versiyon bulunamadi' },
+        { status: 404 }
+      )
+    }
+
+    const verificationResult = await verifySnapshotHash(atResult.data.id)
+
+    return NextResponse.json({
+      success: true,
+      data: atResult.data,
+      verification: {
+        isValid: verificationResult.isValid,
+        storedHash: verificationResult.storedHash,
+        computedHash: verificationResult.computedHash,
+        algorithm: verificationResult.algorithm,
+        verifiedAt: new Date().toISOString(),
+      },
+    })
+  }
+
   // Handle version-specific request
   if (versionParam) {
     const version = parseInt(versionParam, 10)
@@ -285,6 +424,7 @@ export async function GET(request: NextRequest) {
           isValid: verificationResult.isValid,
           storedHash: verificationResult.storedHash,
           computedHash: verificationResult.computedHash,
+          algorithm: verificationResult.algorithm,
           verifiedAt: new Date().toISOString(),
         },
       })
@@ -390,6 +530,7 @@ export async function GET(request: NextRequest) {
         isValid: verificationResult.isValid,
         storedHash: verificationResult.storedHash,
         computedHash: verificationResult.computedHash,
+        algorithm: verificationResult.algorithm,
         verifiedAt: new Date().toISOString(),
       },
     })
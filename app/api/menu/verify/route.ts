@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getCurrentMenuSnapshotBySlug,
+  verifyPublishedSnapshot,
+} from '@/lib/services/snapshot'
+
+/**
+ * Public Menu Verification API Route Handler
+ *
+ * Lets guests and inspectors check the published price list of a menu
+ * without logging in (see /menu/[slug]/verify).
+ *
+ * GET /api/menu/verify?slug=my-cafe - Download the current snapshot as JSON
+ * POST /api/menu/verify - Check a hash or an exported snapshot JSON
+ *
+ * Request body:
+ * {
+ *   slug: string (required)
+ *   hash?: string - SHA-256 hash to look up
+ *   snapshot?: object - Exported snapshot (compliance export or snapshot row)
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data?: {
+ *     hash: string
+ *     found: boolean - A published snapshot of this menu has the hash
+ *     contentMatches: boolean | null - Uploaded data hashes to its hash
+ *     version: number | null
+ *     publishedAt: string | null
+ *     isCurrent: boolean - The snapshot is the menu published now
+ *     storedValid: boolean | null - The stored snapshot still matches its hash
+ *   }
+ *   error?: string
+ * }
+ */
+
+/**
+ * Slug validation regex
+ */
+const slugRegex = /^[a-z0-9-]+$/
+
+/**
+ * Largest accepted snapshot upload (5 MB)
+ */
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+/**
+ * Request body interface
+ */
+interface VerifyRequestBody {
+  slug?: string
+  hash?: string
+  snapshot?: unknown
+}
+
+/**
+ * GET /api/menu/verify
+ *
+ * Returns the current snapshot (data, hash and chain link) as a JSON
+ * download that can be re-hashed independently or uploaded later.
+ */
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+
+  if (!slug || !slugRegex.test(slug)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz menu adresi' },
+      { status: 400 }
+    )
+  }
+
+  const result = await getCurrentMenuSnapshotBySlug(slug)
+
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      { success: false, error: 'Yayinlanmis menu bulunamadi' },
+      { status: 404 }
+    )
+  }
+
+  const snapshot = result.data
+
+  return NextResponse.json(
+    {
+      version: snapshot.version,
+      created_at: snapshot.created_at,
+      hash: snapshot.hash,
+      previous_hash: snapshot.previous_hash,
+      hash_algorithm: snapshot.hash_algorithm,
+      snapshot_data: snapshot.snapshot_data,
+    },
+    {
+      headers: {
+        'Content-Disposition': `attachment; filename="${slug}-menu-v${snapshot.version}.json"`,
+      },
+    }
+  )
+}
+
+/**
+ * POST /api/menu/verify
+ *
+ * Checks a hash or an uploaded snapshot export against the published
+ * snapshots of the menu.
+ */
+export async function POST(request: NextRequest) {
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { success: false, error: 'Dosya cok buyuk (en fazla 5 MB)' },
+      { status: 413 }
+    )
+  }
+
+  let body: VerifyRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.slug || !slugRegex.test(body.slug)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz menu adresi' },
+      { status: 400 }
+    )
+  }
+
+  if (body.snapshot === undefined && typeof body.hash !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'Hash veya snapshot dosyasi gereklidir' },
+      { status: 400 }
+    )
+  }
+
+  const result = await verifyPublishedSnapshot(body.slug, {
+    hash: body.hash,
+    snapshot: body.snapshot,
+  })
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
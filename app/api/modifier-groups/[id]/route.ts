@@ -0,0 +1,272 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  updateModifierGroup,
+  deactivateModifierGroup,
+} from '@/lib/services/modifiers'
+import { writeAuditLog } from '@/lib/services/audit'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Modifier Group API Route Handler
+ *
+ * PUT /api/modifier-groups/[id] - Update a group and synchronize its options
+ * DELETE /api/modifier-groups/[id] - Deactivate a group
+ *
+ * Groups and options are never deleted so modifier_price_ledger entries keep
+ * their reference. Changed option prices are published right away on top of
+ * the published menu (publishPriceChanges); other changes still need an
+ * approved publish request.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage modifier groups
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface ModifierGroupRequestBody {
+  name?: string
+  minSelections?: number
+  maxSelections?: number
+  options?: Array<{ id?: string; name?: string; price?: number }>
+}
+
+/**
+ * Authenticate the user and verify they can edit the group's organization
+ */
+async function authorizeGroup(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  groupId: string
+): Promise<{
+  organizationId?: string
+  userId?: string
+  group?: Record<string, unknown>
+  error?: NextResponse
+}> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(groupId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz grup ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: group } = await supabase
+    .from('modifier_groups')
+    .select('*')
+    .eq('id', groupId)
+    .single()
+
+  if (!group) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Grup bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', group.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Eklemeler icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: group.organization_id, userId: user.id, group }
+}
+
+/**
+ * PUT /api/modifier-groups/[id]
+ *
+ * Updates a group. Options with an id are updated (a changed price is a new
+ * ledger entry), options without an id are created and options left out are
+ * deactivated. Body has the same fields as POST /api/modifier-groups
+ * (without organizationId).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeGroup(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!(await hasPermission(auth.organizationId!, 'module_modifiers'))) {
+    return NextResponse.json(
+      { success: false, error: 'Ekleme ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  let body: ModifierGroupRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const result = await updateModifierGroup(id, auth.organizationId!, {
+    name: body.name ?? '',
+    min_selections: Number(body.minSelections ?? 0),
+    max_selections: Number(body.maxSelections ?? 1),
+    options: (body.options ?? []).map((option) => ({
+      id: option.id,
+      name: option.name ?? '',
+      price: Number(option.price),
+    })),
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'update',
+      entityType: 'modifier_group',
+      entityId: id,
+      oldData: auth.group,
+      newData: result.data,
+      request,
+    })
+  }
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  // A changed price goes live at once, like every price change (publishPriceChanges)
+  const snapshotResult = await publishPriceChanges(auth.organizationId!)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Degisiklik kaydedildi ancak fiyatlar yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  if (snapshotResult.data) {
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('slug')
+      .eq('id', auth.organizationId!)
+      .single()
+
+    if (organization?.slug) {
+      revalidatePath(`/menu/${organization.slug}`)
+      revalidatePath(`/r/${organization.slug}`)
+    }
+  }
+
+  return NextResponse.json({ ...result, snapshotVersion: snapshotResult.data?.version ?? null })
+}
+
+/**
+ * DELETE /api/modifier-groups/[id]
+ *
+ * Deactivates a group. Allowed even without module_modifiers so downgraded
+ * organizations can still remove add-ons from the menu.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeGroup(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await deactivateModifierGroup(id, auth.organizationId!)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'deactivate',
+      entityType: 'modifier_group',
+      entityId: id,
+      oldData: auth.group,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
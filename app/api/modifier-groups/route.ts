@@ -0,0 +1,216 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  getModifierGroups,
+  createModifierGroup,
+} from '@/lib/services/modifiers'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Modifier Groups API Route Handler
+ *
+ * GET /api/modifier-groups?organizationId=uuid - List add-on groups with options and prices
+ * POST /api/modifier-groups - Create a group with priced options
+ *
+ * Option prices are immutable modifier_price_ledger entries; new groups reach
+ * the public menu with the next menu publish. Price changes of published
+ * options go live at once (PUT /api/modifier-groups/[id]).
+ *
+ * Requires the module_modifiers feature for write operations.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage modifier groups
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * Request body interface
+ */
+interface ModifierGroupRequestBody {
+  organizationId?: string
+  name?: string
+  minSelections?: number
+  maxSelections?: number
+  options?: Array<{ id?: string; name?: string; price?: number }>
+}
+
+/**
+ * GET /api/modifier-groups
+ *
+ * Lists all groups (active and deactivated) of the organization.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await getModifierGroups(organizationId)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/modifier-groups
+ *
+ * Creates a group and records the first price of every option.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required)
+ *   name: string (required)
+ *   minSelections: number (0 = optional group)
+ *   maxSelections: number (>= 1)
+ *   options: Array<{ name: string; price: number }> (at least one)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: ModifierGroupRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Eklemeler icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  if (!(await hasPermission(organizationId, 'module_modifiers'))) {
+    return NextResponse.json(
+      { success: false, error: 'Ekleme ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await createModifierGroup(organizationId, {
+    name: body.name ?? '',
+    min_selections: Number(body.minSelections ?? 0),
+    max_selections: Number(body.maxSelections ?? 1),
+    options: (body.options ?? []).map((option) => ({
+      name: option.name ?? '',
+      price: Number(option.price),
+    })),
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId,
+      userId: user.id,
+      action: 'create',
+      entityType: 'modifier_group',
+      entityId: (result.data as { id: string }).id,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 201 : 400 })
+}
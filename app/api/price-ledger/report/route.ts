@@ -0,0 +1,163 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getPriceReport,
+  renderPriceReportPDF,
+  recordPriceReportExport,
+} from '@/lib/services/price-report'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Price Ledger Compliance Report API Route Handler
+ *
+ * GET /api/price-ledger/report?organizationId=uuid&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&format=pdf|json
+ *
+ * Returns every price change in the range as a PDF (default) or as the JSON
+ * report content. Both carry the SHA-256 hash of the report content
+ * (printed on every PDF page and sent in the X-Report-Hash header), so a
+ * printed report can be checked against the JSON download.
+ *
+ * Every download is recorded in the audit log as an `export` action.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Date parameter format (YYYY-MM-DD)
+ */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Roles allowed to download compliance reports
+ */
+const REPORT_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * GET /api/price-ledger/report
+ *
+ * Dates are whole days in Turkish time (UTC+3): startDate from 00:00,
+ * endDate until 23:59:59.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const params = request.nextUrl.searchParams
+  const organizationId = params.get('organizationId')
+  const startParam = params.get('startDate')
+  const endParam = params.get('endDate')
+  const format = params.get('format') ?? 'pdf'
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const startDate = startParam && dateRegex.test(startParam)
+    ? new Date(`${startParam}T00:00:00+03:00`)
+    : null
+  const endDate = endParam && dateRegex.test(endParam)
+    ? new Date(`${endParam}T23:59:59.999+03:00`)
+    : null
+
+  if (!startDate || !endDate || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'Gecerli bir tarih araligi secin (YYYY-MM-DD)' },
+      { status: 400 }
+    )
+  }
+
+  if (format !== 'pdf' && format !== 'json') {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz rapor formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !REPORT_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await getPriceReport(organizationId, startDate, endDate)
+
+  if (!result.success || !result.data) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  const { report, hash } = result.data
+
+  await recordPriceReportExport(organizationId, user.id, report, hash, format)
+
+  if (format === 'json') {
+    return NextResponse.json(
+      { success: true, data: { report, hash } },
+      { headers: { 'X-Report-Hash': hash } }
+    )
+  }
+
+  const pdf = renderPriceReportPDF(report, hash)
+
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="fiyat-raporu-${startParam}-${endParam}.pdf"`,
+      'X-Report-Hash': hash,
+    },
+  })
+}
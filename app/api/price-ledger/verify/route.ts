@@ -0,0 +1,103 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyPriceLedgerChain } from '@/lib/services/price-ledger'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Price Ledger Chain Verification API Route Handler
+ *
+ * GET /api/price-ledger/verify?organizationId=uuid - Walk the price ledger
+ * hash chain of the organization and report the first broken link
+ *
+ * Every price_ledger entry stores the hash of the previous entry of the same
+ * organization, so an entry edited or deleted directly in the database
+ * shows up here even though the application never changes the ledger.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to verify the ledger (same as the audit page reports)
+ */
+const VERIFY_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * GET /api/price-ledger/verify
+ *
+ * Returns `{ valid, entryCount, headHash, brokenLink }`.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !VERIFY_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await verifyPriceLedgerChain(organizationId)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
@@ -0,0 +1,296 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { hasPermission } from '@/lib/guards/permission'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import {
+  updatePriceRule,
+  deactivatePriceRule,
+  type PriceRuleInput,
+  type PriceRuleOperationResult,
+} from '@/lib/services/happy-hour'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Price Rule API Route Handler
+ *
+ * PUT /api/price-rules/[id] - Update a rule and publish the new happy hour prices
+ * DELETE /api/price-rules/[id] - Deactivate a rule and publish the new happy hour prices
+ *
+ * The snapshot only changes prices on the published menu; other draft edits
+ * still need an approved publish request.
+ *
+ * Rules are never deleted; DELETE only sets is_active = false so
+ * discounted_price_ledger entries keep their reference.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage price rules
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface PriceRuleRequestBody {
+  name?: string
+  productId?: string | null
+  categoryId?: string | null
+  discountType?: 'percentage' | 'fixed'
+  discountValue?: number
+  daysOfWeek?: number[]
+  startTime?: string
+  endTime?: string
+}
+
+/**
+ * Authenticate the user and verify they can edit the rule's organization
+ */
+async function authorizeRule(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  ruleId: string
+): Promise<{
+  organizationId?: string
+  slug?: string
+  userId?: string
+  rule?: Record<string, unknown>
+  error?: NextResponse
+}> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(ruleId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz kural ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: rule } = await supabase
+    .from('price_rules')
+    .select('*, organizations(slug)')
+    .eq('id', ruleId)
+    .single()
+
+  if (!rule) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Kural bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', rule.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Happy hour kurali icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  const { organizations, ...ruleData } = rule
+  const organization = organizations as unknown as { slug: string } | null
+
+  return {
+    organizationId: rule.organization_id,
+    slug: organization?.slug,
+    userId: user.id,
+    rule: ruleData,
+  }
+}
+
+/**
+ * Publish the new happy hour prices after a rule change and build the response
+ */
+async function publishAfterChange(
+  organizationId: string,
+  slug: string | undefined,
+  result: PriceRuleOperationResult
+) {
+  const snapshotResult = await publishPriceChanges(organizationId)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Kural kaydedildi ancak menu yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  if (slug) {
+    revalidatePath(`/menu/${slug}`)
+    revalidatePath(`/r/${slug}`)
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      rule: result.data,
+      snapshotVersion: snapshotResult.data?.version ?? null,
+    },
+  })
+}
+
+/**
+ * PUT /api/price-rules/[id]
+ *
+ * Updates a price rule. Body has the same fields as POST /api/price-rules
+ * (without organizationId).
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeRule(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!(await hasPermission(auth.organizationId!, 'module_happy_hour'))) {
+    return NextResponse.json(
+      { success: false, error: 'Happy hour ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  let body: PriceRuleRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const input: PriceRuleInput = {
+    name: body.name ?? '',
+    product_id: body.productId || null,
+    category_id: body.categoryId || null,
+    discount_type: body.discountType as PriceRuleInput['discount_type'],
+    discount_value: Number(body.discountValue),
+    days_of_week: body.daysOfWeek ?? [],
+    start_time: body.startTime ?? '',
+    end_time: body.endTime ?? '',
+  }
+
+  const result = await updatePriceRule(id, auth.organizationId!, input)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  await writeAuditLog({
+    organizationId: auth.organizationId!,
+    userId: auth.userId!,
+    action: 'update',
+    entityType: 'price_rule',
+    entityId: id,
+    oldData: auth.rule,
+    newData: result.data,
+    request,
+  })
+
+  return publishAfterChange(auth.organizationId!, auth.slug, result)
+}
+
+/**
+ * DELETE /api/price-rules/[id]
+ *
+ * Deactivates a price rule. Allowed even without module_happy_hour so
+ * downgraded organizations can still switch rules off.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeRule(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await deactivatePriceRule(id, auth.organizationId!)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  await writeAuditLog({
+    organizationId: auth.organizationId!,
+    userId: auth.userId!,
+    action: 'deactivate',
+    entityType: 'price_rule',
+    entityId: id,
+    oldData: auth.rule,
+    newData: result.data,
+    request,
+  })
+
+  return publishAfterChange(auth.organizationId!, auth.slug, result)
+}
@@ -0,0 +1,266 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { hasPermission } from '@/lib/guards/permission'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import {
+  getPriceRules,
+  createPriceRule,
+  type PriceRuleInput,
+} from '@/lib/services/happy-hour'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Happy Hour Price Rules API Route Handler
+ *
+ * GET /api/price-rules?organizationId=uuid - List price rules
+ * POST /api/price-rules - Create a price rule and publish the new happy hour prices
+ *
+ * Every rule change creates a new snapshot so the compliance trail covers
+ * both the state before and after the change. The snapshot only changes
+ * prices on the published menu; other draft edits still need an approved
+ * publish request.
+ *
+ * Requires the module_happy_hour feature for write operations.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage price rules
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * Request body interface
+ */
+interface PriceRuleRequestBody {
+  organizationId?: string
+  name?: string
+  productId?: string | null
+  categoryId?: string | null
+  discountType?: 'percentage' | 'fixed'
+  discountValue?: number
+  daysOfWeek?: number[]
+  startTime?: string
+  endTime?: string
+}
+
+/**
+ * GET /api/price-rules
+ *
+ * Lists all price rules (active and deactivated) of the organization.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    return NextResponse.json(
+      { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await getPriceRules(organizationId)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/price-rules
+ *
+ * Creates a price rule and publishes a new menu snapshot.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required)
+ *   name: string (required)
+ *   productId | categoryId: string (exactly one required)
+ *   discountType: 'percentage' | 'fixed'
+ *   discountValue: number
+ *   daysOfWeek: number[] (ISO weekdays, 1 = Monday)
+ *   startTime: string (HH:MM)
+ *   endTime: string (HH:MM)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: PriceRuleRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Happy hour kurali icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  if (!(await hasPermission(organizationId, 'module_happy_hour'))) {
+    return NextResponse.json(
+      { success: false, error: 'Happy hour ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const input: PriceRuleInput = {
+    name: body.name ?? '',
+    product_id: body.productId || null,
+    category_id: body.categoryId || null,
+    discount_type: body.discountType as PriceRuleInput['discount_type'],
+    discount_value: Number(body.discountValue),
+    days_of_week: body.daysOfWeek ?? [],
+    start_time: body.startTime ?? '',
+    end_time: body.endTime ?? '',
+  }
+
+  const result = await createPriceRule(organizationId, input)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  await writeAuditLog({
+    organizationId,
+    userId: user.id,
+    action: 'create',
+    entityType: 'price_rule',
+    entityId: (result.data as { id: string }).id,
+    newData: result.data,
+    request,
+  })
+
+  // Rule changes are published immediately so the compliance trail covers them
+  const snapshotResult = await publishPriceChanges(organizationId)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Kural kaydedildi ancak menu yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('slug')
+    .eq('id', organizationId)
+    .single()
+
+  if (organization?.slug) {
+    revalidatePath(`/menu/${organization.slug}`)
+    revalidatePath(`/r/${organization.slug}`)
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        rule: result.data,
+        snapshotVersion: snapshotResult.data?.version ?? null,
+      },
+    },
+    { status: 201 }
+  )
+}
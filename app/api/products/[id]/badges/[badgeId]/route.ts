@@ -0,0 +1,161 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { deactivateProductBadge } from '@/lib/services/badges'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Product Badge API Route Handler
+ *
+ * DELETE /api/products/[id]/badges/[badgeId] - Remove a badge
+ *
+ * Badges are never deleted; DELETE only sets is_active = false.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage badges
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string; badgeId: string }>
+}
+
+/**
+ * Authenticate the user and verify they can edit the badge's product
+ */
+async function authorizeBadge(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  badgeId: string
+): Promise<{
+  organizationId?: string
+  userId?: string
+  badge?: Record<string, unknown>
+  error?: NextResponse
+}> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId) || !uuidRegex.test(badgeId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz rozet ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: badge } = await supabase
+    .from('product_badges')
+    .select('*')
+    .eq('id', badgeId)
+    .eq('product_id', productId)
+    .single()
+
+  if (!badge) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Rozet bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', badge.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: badge.organization_id, userId: user.id, badge }
+}
+
+/**
+ * DELETE /api/products/[id]/badges/[badgeId]
+ *
+ * Deactivates a badge. Allowed even without the badge feature so
+ * downgraded organizations can still remove badges from the menu.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id, badgeId } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeBadge(supabase, id, badgeId)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await deactivateProductBadge(badgeId, id)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'deactivate',
+      entityType: 'product_badge',
+      entityId: badgeId,
+      oldData: auth.badge,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
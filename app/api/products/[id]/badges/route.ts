@@ -0,0 +1,234 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  BADGE_FEATURES,
+  getProductBadges,
+  createProductBadge,
+} from '@/lib/services/badges'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { BadgeScheduleType, ProductBadgeType, UserRole } from '@/types/database'
+
+/**
+ * Product Badges API Route Handler
+ *
+ * GET /api/products/[id]/badges - List active badges of the product
+ * POST /api/products/[id]/badges - Assign a scheduled badge
+ *
+ * Badges reach the public menu with the next menu publish and expire on
+ * their own when their end date has passed.
+ *
+ * Requires module_chef_recommendation or module_daily_special (depending on
+ * the badge type) for write operations.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage badges
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface BadgeRequestBody {
+  badgeType?: ProductBadgeType
+  scheduleType?: BadgeScheduleType
+  daysOfWeek?: number[]
+  startsOn?: string
+  endsOn?: string | null
+}
+
+/**
+ * Authenticate the user and resolve the product's organization
+ */
+async function authorizeProduct(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  roles?: UserRole[]
+): Promise<{ organizationId?: string; userId?: string; error?: NextResponse }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz urun ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('organization_id')
+    .eq('id', productId)
+    .single()
+
+  if (!product) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Urun bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', product.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || (roles && !roles.includes(membership.role as UserRole))) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: product.organization_id, userId: user.id }
+}
+
+/**
+ * GET /api/products/[id]/badges
+ *
+ * Lists the active badges of the product (including expired ones that were
+ * not removed).
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await getProductBadges(id)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/products/[id]/badges
+ *
+ * Request body:
+ * {
+ *   badgeType: 'chef_recommendation' | 'daily_special' (required)
+ *   scheduleType: 'daily' | 'weekly' (required)
+ *   daysOfWeek?: number[] (ISO weekdays, required for weekly schedules)
+ *   startsOn: string (YYYY-MM-DD, required)
+ *   endsOn?: string | null (YYYY-MM-DD, null = no end date)
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id, EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  let body: BadgeRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const badgeType = body.badgeType as ProductBadgeType
+
+  if (!(badgeType in BADGE_FEATURES)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz rozet tipi' },
+      { status: 400 }
+    )
+  }
+
+  if (!(await hasPermission(auth.organizationId!, BADGE_FEATURES[badgeType]))) {
+    return NextResponse.json(
+      { success: false, error: 'Bu rozet ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const result = await createProductBadge(id, auth.organizationId!, {
+    badge_type: badgeType,
+    schedule_type: body.scheduleType ?? 'daily',
+    days_of_week: body.daysOfWeek,
+    starts_on: body.startsOn ?? '',
+    ends_on: body.endsOn ?? null,
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'create',
+      entityType: 'product_badge',
+      entityId: (result.data as { id: string }).id,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 201 : 400 })
+}
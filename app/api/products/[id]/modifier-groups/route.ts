@@ -0,0 +1,209 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  getProductModifierGroupIds,
+  setProductModifierGroups,
+} from '@/lib/services/modifiers'
+import { writeAuditLog } from '@/lib/services/audit'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Product Modifier Groups API Route Handler
+ *
+ * GET /api/products/[id]/modifier-groups - List group IDs offered with the product
+ * PUT /api/products/[id]/modifier-groups - Replace the groups offered with the product
+ *
+ * Requires the module_modifiers feature for write operations.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage modifier groups
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Authenticate the user and resolve the product's organization
+ */
+async function authorizeProduct(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  roles?: UserRole[]
+): Promise<{ organizationId?: string; userId?: string; error?: NextResponse }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz urun ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('organization_id')
+    .eq('id', productId)
+    .single()
+
+  if (!product) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Urun bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', product.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || (roles && !roles.includes(membership.role as UserRole))) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: product.organization_id, userId: user.id }
+}
+
+/**
+ * GET /api/products/[id]/modifier-groups
+ *
+ * Returns the IDs of the groups offered with the product, in display order.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const groupIds = await getProductModifierGroupIds(id)
+
+  return NextResponse.json({ success: true, data: groupIds })
+}
+
+/**
+ * PUT /api/products/[id]/modifier-groups
+ *
+ * Request body:
+ * {
+ *   groupIds: string[] (display order, empty array removes all groups)
+ * }
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id, EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  let body: { groupIds?: string[] }
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const groupIds = body.groupIds ?? []
+
+  if (!Array.isArray(groupIds) || groupIds.some((groupId) => !uuidRegex.test(groupId))) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz grup ID' },
+      { status: 400 }
+    )
+  }
+
+  if (groupIds.length > 0 && !(await hasPermission(auth.organizationId!, 'module_modifiers'))) {
+    return NextResponse.json(
+      { success: false, error: 'Ekleme ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const previousGroupIds = await getProductModifierGroupIds(id)
+  const result = await setProductModifierGroups(id, auth.organizationId!, groupIds)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'update',
+      entityType: 'product',
+      entityId: id,
+      oldData: { modifier_group_ids: previousGroupIds },
+      newData: { modifier_group_ids: groupIds },
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
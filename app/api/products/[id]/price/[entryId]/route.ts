@@ -0,0 +1,168 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelScheduledPriceChange } from '@/lib/services/price-ledger'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Scheduled Price API Route Handler
+ *
+ * DELETE /api/products/[id]/price/[entryId] - Cancel a scheduled price change
+ *
+ * The ledger entry is never deleted; cancelling records a
+ * price_ledger_cancellations row and a `price_change` audit log. Only
+ * changes that have not taken effect can be cancelled.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to change prices
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string; entryId: string }>
+}
+
+/**
+ * Authenticate the user and resolve the product's organization
+ */
+async function authorizeProduct(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  roles?: UserRole[]
+): Promise<{ organizationId?: string; error?: NextResponse }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz urun ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('organization_id')
+    .eq('id', productId)
+    .single()
+
+  if (!product) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Urun bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', product.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || (roles && !roles.includes(membership.role as UserRole))) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: product.organization_id }
+}
+
+/**
+ * DELETE /api/products/[id]/price/[entryId]
+ *
+ * Request body (optional):
+ * {
+ *   cancelReason?: string
+ * }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id, entryId } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id, EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!uuidRegex.test(entryId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz fiyat kaydi ID' },
+      { status: 400 }
+    )
+  }
+
+  let body: { cancelReason?: string } = {}
+
+  try {
+    body = await request.json()
+  } catch {
+    // Body is optional
+  }
+
+  const result = await cancelScheduledPriceChange(
+    entryId,
+    auth.organizationId!,
+    typeof body.cancelReason === 'string' ? body.cancelReason : null,
+    {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+    }
+  )
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
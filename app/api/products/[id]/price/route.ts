@@ -0,0 +1,245 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { changeProductPrice, getUpcomingPriceChanges } from '@/lib/services/price-ledger'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Product Price API Route Handler
+ *
+ * GET /api/products/[id]/price - List scheduled (upcoming) price changes
+ * POST /api/products/[id]/price - Record a new base price for the product
+ *
+ * This is the only write path for dashboard price changes: the price is
+ * appended to price_ledger (inserts from user sessions are rejected by RLS)
+ * and a matching `price_change` audit log is written. Like every price
+ * change, the new price is published right away on top of the published menu
+ * (publishPriceChanges); other draft edits still need an approved publish
+ * request. With `effectiveFrom` the price is scheduled and published
+ * automatically once it takes effect.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to change prices
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Authenticate the user and resolve the product's organization
+ */
+async function authorizeProduct(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  roles?: UserRole[]
+): Promise<{ organizationId?: string; error?: NextResponse }> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz urun ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('organization_id')
+    .eq('id', productId)
+    .single()
+
+  if (!product) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Urun bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', product.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || (roles && !roles.includes(membership.role as UserRole))) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: product.organization_id }
+}
+
+/**
+ * GET /api/products/[id]/price
+ *
+ * Returns the pending scheduled price entries, earliest first.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await getUpcomingPriceChanges(id)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
+
+/**
+ * POST /api/products/[id]/price
+ *
+ * Request body:
+ * {
+ *   price: number (non-negative)
+ *   changeReason: string (required, stored in the ledger and audit log)
+ *   effectiveFrom?: string (ISO 8601, future time for a scheduled change)
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeProduct(supabase, id, EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  let body: { price?: number; changeReason?: string; effectiveFrom?: string | null }
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  if (typeof body.price !== 'number' || !Number.isFinite(body.price) || body.price < 0) {
+    return NextResponse.json(
+      { success: false, error: 'Gecerli bir fiyat girin' },
+      { status: 400 }
+    )
+  }
+
+  if (typeof body.changeReason !== 'string' || !body.changeReason.trim()) {
+    return NextResponse.json(
+      { success: false, error: 'Fiyat degisikligi icin neden girmelisiniz' },
+      { status: 400 }
+    )
+  }
+
+  const effectiveFrom = body.effectiveFrom ? new Date(body.effectiveFrom) : null
+
+  if (effectiveFrom && (isNaN(effectiveFrom.getTime()) || effectiveFrom.getTime() <= Date.now())) {
+    return NextResponse.json(
+      { success: false, error: 'Planlanan fiyat icin ileri bir tarih secin' },
+      { status: 400 }
+    )
+  }
+
+  const result = await changeProductPrice(id, auth.organizationId!, body.price, body.changeReason, {
+    effectiveFrom,
+    ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+    userAgent: request.headers.get('user-agent'),
+  })
+
+  // Scheduled prices are published by the scheduled prices job
+  if (!result.success || effectiveFrom) {
+    return NextResponse.json(result, { status: result.success ? 201 : 400 })
+  }
+
+  const snapshotResult = await publishPriceChanges(auth.organizationId!)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Fiyat kaydedildi ancak menu yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  if (snapshotResult.data) {
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('slug')
+      .eq('id', auth.organizationId!)
+      .single()
+
+    if (organization?.slug) {
+      revalidatePath(`/menu/${organization.slug}`)
+      revalidatePath(`/r/${organization.slug}`)
+    }
+  }
+
+  return NextResponse.json(
+    { ...result, snapshotVersion: snapshotResult.data?.version ?? null },
+    { status: 201 }
+  )
+}
@@ -0,0 +1,275 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  updateProductVariant,
+  deactivateProductVariant,
+} from '@/lib/services/variants'
+import { getCurrentVariantPrices } from '@/lib/services/price-ledger'
+import { writeAuditLog } from '@/lib/services/audit'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Single Product Variant API Route Handler
+ *
+ * PUT /api/products/[id]/variants/[variantId] - Rename/reorder a variant and record a new price
+ * DELETE /api/products/[id]/variants/[variantId] - Deactivate a variant
+ *
+ * Variants are never deleted; DELETE only sets is_active = false so
+ * price_ledger entries keep their reference. A changed price is published
+ * right away on top of the published menu (publishPriceChanges); other
+ * changes still need an approved publish request.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to manage variants
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+interface RouteParams {
+  params: Promise<{ id: string; variantId: string }>
+}
+
+/**
+ * Request body interface
+ */
+interface VariantRequestBody {
+  name?: string
+  price?: number
+  sortOrder?: number
+  changeReason?: string
+}
+
+/**
+ * Authenticate the user and verify they can edit the variant's product
+ */
+async function authorizeVariant(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  productId: string,
+  variantId: string
+): Promise<{
+  organizationId?: string
+  userId?: string
+  variant?: Record<string, unknown>
+  error?: NextResponse
+}> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!uuidRegex.test(productId) || !uuidRegex.test(variantId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz varyant ID' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: variant } = await supabase
+    .from('product_variants')
+    .select('*')
+    .eq('id', variantId)
+    .eq('product_id', productId)
+    .single()
+
+  if (!variant) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Varyant bulunamadi' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', variant.organization_id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu urun icin yeterli yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { organizationId: variant.organization_id, userId: user.id, variant }
+}
+
+/**
+ * PUT /api/products/[id]/variants/[variantId]
+ *
+ * Updates name/order and inserts a new price_ledger entry when the price
+ * changed. Body has the same fields as POST /api/products/[id]/variants.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id, variantId } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeVariant(supabase, id, variantId)
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!(await hasPermission(auth.organizationId!, 'module_variants'))) {
+    return NextResponse.json(
+      { success: false, error: 'Varyant ozelligi paketinizde bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  let body: VariantRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const previous = (await getCurrentVariantPrices([id])).get(variantId)
+
+  const result = await updateProductVariant(variantId, {
+    name: body.name ?? '',
+    price: body.price === undefined ? undefined : Number(body.price),
+    sort_order: body.sortOrder,
+    change_reason: body.changeReason,
+  })
+
+  if (result.success && result.data) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'update',
+      entityType: 'product_variant',
+      entityId: variantId,
+      oldData: {
+        ...auth.variant,
+        price: previous?.price ?? null,
+        currency: previous?.currency ?? 'TRY',
+      },
+      newData: result.data,
+      request,
+    })
+  }
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 400 })
+  }
+
+  // A changed price goes live at once, like every price change (publishPriceChanges)
+  const snapshotResult = await publishPriceChanges(auth.organizationId!)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: result.data,
+        error: snapshotResult.error || 'Degisiklik kaydedildi ancak fiyatlar yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  if (snapshotResult.data) {
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('slug')
+      .eq('id', auth.organizationId!)
+      .single()
+
+    if (organization?.slug) {
+      revalidatePath(`/menu/${organization.slug}`)
+      revalidatePath(`/r/${organization.slug}`)
+    }
+  }
+
+  return NextResponse.json({ ...result, snapshotVersion: snapshotResult.data?.version ?? null })
+}
+
+/**
+ * DELETE /api/products/[id]/variants/[variantId]
+ *
+ * Deactivates a variant. Allowed even without module_variants so
+ * downgraded organizations can still remove variants from the menu.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id, variantId } = await params
+  const supabase = await createSupabaseClient()
+
+  const auth = await authorizeVariant(supabase, id, variantId)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const result = await deactivateProductVariant(variantId)
+
+  if (result.success) {
+    await writeAuditLog({
+      organizationId: auth.organizationId!,
+      userId: auth.userId!,
+      action: 'deactivate',
+      entityType: 'product_variant',
+      entityId: variantId,
+      oldData: auth.variant,
+      newData: result.data,
+      request,
+    })
+  }
+
+  return NextResponse.json(result, { status: result.success ? 200 : 400 })
+}
@@ -0,0 +1,217 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { publishPriceChanges } from '@/lib/services/snapshot'
+import { bulkChangeProductPrices } from '@/lib/services/price-ledger'
+import type { PriceAdjustment } from '@/lib/services/bulk-pricing'
+import type { UserRole } from '@/types/database'
+
+/**
+ * Bulk Price Change API Route Handler
+ *
+ * POST /api/products/bulk-price - Reprice selected products and publish the new prices
+ *
+ * All new prices are written to price_ledger in one statement with a shared
+ * change reason, then a single snapshot is created so the published menu
+ * moves to the new prices at once. The snapshot only changes prices on the
+ * published menu; other draft edits still need an approved publish request.
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Roles allowed to change prices
+ */
+const EDITOR_ROLES: UserRole[] = ['owner', 'admin', 'manager']
+
+/**
+ * Request body interface
+ */
+interface BulkPriceRequestBody {
+  organizationId?: string
+  productIds?: string[]
+  adjustment?: PriceAdjustment
+  changeReason?: string
+}
+
+/**
+ * POST /api/products/bulk-price
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required)
+ *   productIds: string[] (required)
+ *   adjustment: {
+ *     type: 'percentage' | 'fixed'
+ *     value: number (negative values lower prices)
+ *     roundTo: number (rounding step in TRY, 0 = none)
+ *     roundMode: 'nearest' | 'up' | 'down'
+ *   }
+ *   changeReason: string (required, shared by all entries)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Oturum acmaniz gerekiyor' },
+      { status: 401 }
+    )
+  }
+
+  let body: BulkPriceRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const organizationId = body.organizationId?.trim()
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz organizasyon ID formati' },
+      { status: 400 }
+    )
+  }
+
+  if (
+    !Array.isArray(body.productIds) ||
+    body.productIds.length === 0 ||
+    body.productIds.some((productId) => typeof productId !== 'string' || !uuidRegex.test(productId))
+  ) {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz urun secimi' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.adjustment || typeof body.adjustment !== 'object') {
+    return NextResponse.json(
+      { success: false, error: 'Fiyat degisikligi kurali zorunludur' },
+      { status: 400 }
+    )
+  }
+
+  if (typeof body.changeReason !== 'string' || !body.changeReason.trim()) {
+    return NextResponse.json(
+      { success: false, error: 'Fiyat degisikligi icin neden girmelisiniz' },
+      { status: 400 }
+    )
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership || !EDITOR_ROLES.includes(membership.role as UserRole)) {
+    return NextResponse.json(
+      { success: false, error: 'Fiyat degistirmek icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const adjustment: PriceAdjustment = {
+    type: body.adjustment.type,
+    value: Number(body.adjustment.value),
+    roundTo: Number(body.adjustment.roundTo ?? 0),
+    roundMode: body.adjustment.roundMode ?? 'nearest',
+  }
+
+  const result = await bulkChangeProductPrices(
+    organizationId,
+    body.productIds,
+    adjustment,
+    body.changeReason,
+    {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: request.headers.get('user-agent'),
+    }
+  )
+
+  if (!result.success || !result.data) {
+    return NextResponse.json(result, { status: result.data ? 500 : 400 })
+  }
+
+  // One snapshot for the whole change so the menu switches prices at once
+  const snapshotResult = await publishPriceChanges(organizationId)
+
+  if (!snapshotResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        data: { updatedCount: result.data.length },
+        error: snapshotResult.error || 'Fiyatlar kaydedildi ancak menu yayinlanamadi',
+      },
+      { status: 500 }
+    )
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('slug')
+    .eq('id', organizationId)
+    .single()
+
+  if (organization?.slug) {
+    revalidatePath(`/menu/${organization.slug}`)
+    revalidatePath(`/r/${organization.slug}`)
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        updatedCount: result.data.length,
+        snapshotVersion: snapshotResult.data?.version ?? null,
+      },
+    },
+    { status: 201 }
+  )
+}
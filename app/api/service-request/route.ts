@@ -1,6 +1,7 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
+import { writeAuditLog } from '@/lib/services/audit'
 
 /**
  * Service Request API Route Handler
@@ -221,6 +222,18 @@ export async function POST(request: NextRequest) {
     // The table status update is a secondary operation
   }
 
+  // Guest action: no user, the request IP and user agent identify the caller
+  await writeAuditLog({
+    organizationId: table.organization_id,
+    userId: null,
+    action: 'create',
+    entityType: 'service_request',
+    entityId: serviceRequest.id,
+    newData: { table_id: table.id, request_type: requestType, notes },
+    metadata: { source: 'guest' },
+    request,
+  })
+
   return NextResponse.json({
     success: true,
     data: {
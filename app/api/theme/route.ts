@@ -0,0 +1,256 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/lib/guards/permission'
+import { parseMenuTheme, validateMenuTheme } from '@/lib/services/theme'
+import type { MenuTheme } from '@/types'
+
+/**
+ * Menu Theme API Route Handler
+ *
+ * Manages the public menu theme stored in `organizations.settings.theme`.
+ * The theme reaches the public menu with the next menu publish.
+ *
+ * GET /api/theme?organizationId=uuid - Get the saved theme and module status
+ * PUT /api/theme - Save the theme (owner/admin, requires module_theme)
+ *
+ * Response:
+ * {
+ *   success: boolean
+ *   data?: { theme: MenuTheme | null; enabled: boolean }
+ *   error?: string
+ * }
+ */
+
+/**
+ * Create Supabase server client with cookie handling
+ */
+async function createSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing user sessions.
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * UUID validation regex
+ */
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Request body interface
+ */
+interface ThemeRequestBody {
+  organizationId?: string
+  /** Theme to save; null resets to the default look */
+  theme?: MenuTheme | null
+}
+
+/**
+ * Authenticate the user and resolve their role in the organization
+ */
+async function authorize(organizationId: string | null | undefined) {
+  const supabase = await createSupabaseClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Oturum acmaniz gerekiyor' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  if (!organizationId || !uuidRegex.test(organizationId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Gecersiz organizasyon ID formati' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const { data: membership, error: memberError } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (memberError || !membership) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Bu organizasyon icin yetkiniz bulunmuyor' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { supabase, role: membership.role as string }
+}
+
+/**
+ * GET /api/theme
+ *
+ * Returns the saved theme and whether module_theme is enabled.
+ */
+export async function GET(request: NextRequest) {
+  const organizationId = request.nextUrl.searchParams.get('organizationId')
+  const auth = await authorize(organizationId)
+
+  if (auth.error) {
+    return auth.error
+  }
+
+  const { data: organization, error } = await auth.supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId!)
+    .single()
+
+  if (error || !organization) {
+    return NextResponse.json(
+      { success: false, error: 'Tema bilgisi alinamadi' },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      theme: parseMenuTheme((organization.settings as Record<string, unknown> | null)?.theme),
+      enabled: await hasPermission(organizationId!, 'module_theme'),
+    },
+  })
+}
+
+/**
+ * PUT /api/theme
+ *
+ * Saves the theme into organizations.settings, keeping the other settings.
+ * Resetting the theme (theme: null) is allowed without module_theme.
+ *
+ * Request body:
+ * {
+ *   organizationId: string (required) - Organization UUID
+ *   theme: MenuTheme | null (required) - Theme to save, null to reset
+ * }
+ */
+export async function PUT(request: NextRequest) {
+  let body: ThemeRequestBody
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Gecersiz istek formati' },
+      { status: 400 }
+    )
+  }
+
+  const auth = await authorize(body.organizationId)
+
+  if (auth.error) {
+    return auth.error
+  }
+
+  if (!['owner', 'admin'].includes(auth.role)) {
+    return NextResponse.json(
+      { success: false, error: 'Tema duzenlemek icin yeterli yetkiniz bulunmuyor' },
+      { status: 403 }
+    )
+  }
+
+  const organizationId = body.organizationId!
+  let theme: MenuTheme | null = null
+
+  if (body.theme !== null) {
+    if (!body.theme || typeof body.theme !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Tema bilgisi zorunludur' },
+        { status: 400 }
+      )
+    }
+
+    const validationError = validateMenuTheme(body.theme)
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      )
+    }
+
+    if (!(await hasPermission(organizationId, 'module_theme'))) {
+      return NextResponse.json(
+        { success: false, error: 'Tema ozelligi paketinizde bulunmuyor' },
+        { status: 403 }
+      )
+    }
+
+    theme = parseMenuTheme(body.theme)
+  }
+
+  const { data: organization, error: fetchError } = await auth.supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  if (fetchError || !organization) {
+    return NextResponse.json(
+      { success: false, error: 'Tema bilgisi alinamadi' },
+      { status: 500 }
+    )
+  }
+
+  const settings = { ...((organization.settings as Record<string, unknown> | null) ?? {}) }
+  if (theme) {
+    settings.theme = theme
+  } else {
+    delete settings.theme
+  }
+
+  const { error: updateError } = await auth.supabase
+    .from('organizations')
+    .update({ settings })
+    .eq('id', organizationId)
+
+  if (updateError) {
+    return NextResponse.json(
+      { success: false, error: `Tema kaydedilemedi: ${updateError.message}` },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      theme,
+      enabled: theme !== null || (await hasPermission(organizationId, 'module_theme')),
+    },
+  })
+}
@@ -0,0 +1,142 @@
+/**
+ * Historical Menu Page
+ *
+ * Renders the snapshot that was live at a given moment exactly as the
+ * public menu showed it then: same view, with happy hour prices and badge
+ * schedules evaluated at that moment. A banner shows the version, its
+ * publish time and the hash verification result.
+ *
+ * Only members of the organization can open it (the dashboard "Menu
+ * Gecmisi" screen embeds it); it is never cached or indexed.
+ *
+ * @route GET /menu/[slug]/history/[at] - `at` is an ISO timestamp
+ */
+
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { headers } from 'next/headers'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import {
+  getSnapshotAt,
+  verifySnapshotHash,
+  type MenuSnapshotData,
+} from '@/lib/services/snapshot'
+import { MenuView } from '../../menu-view'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Menu Gecmisi | ozaMenu',
+  robots: { index: false, follow: false },
+}
+
+interface HistoryPageProps {
+  params: Promise<{ slug: string; at: string }>
+  searchParams: Promise<{
+    lang?: string
+    nutrition?: string
+    allergens?: string
+    allergen_mode?: string
+  }>
+}
+
+/**
+ * Historical Menu Component
+ *
+ * Renders the menu version that was live at `at` for organization members.
+ */
+export default async function MenuHistoryPage({ params, searchParams }: HistoryPageProps) {
+  const { slug, at: atParam } = await params
+  const {
+    lang,
+    nutrition: nutritionParam,
+    allergens: allergensParam,
+    allergen_mode: allergenModeParam,
+  } = await searchParams
+
+  const at = new Date(decodeURIComponent(atParam))
+
+  if (isNaN(at.getTime())) {
+    notFound()
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect(`/login?redirectTo=/menu/${slug}/history/${atParam}`)
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('slug', slug)
+    .single()
+
+  if (!organization) {
+    notFound()
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organization.id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    notFound()
+  }
+
+  const result = await getSnapshotAt(organization.id, at)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const snapshot = result.data
+  const verification = await verifySnapshotHash(snapshot.id)
+  const headerList = await headers()
+
+  const banner = (
+    <div className="border-b border-secondary-200 bg-secondary-100 px-4 py-3 text-sm text-secondary-800">
+      <div className="mx-auto max-w-4xl space-y-1">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="font-semibold">
+            {at.toLocaleString('tr-TR')} itibariyla yayindaki menu: v{snapshot.version}
+          </p>
+          <span
+            className={`rounded-full px-3 py-1 text-xs font-medium ${
+              verification.isValid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}
+          >
+            {verification.isValid ? 'Hash dogrulandi' : 'Hash eslesmiyor'}
+          </span>
+        </div>
+        <p>Yayin zamani: {new Date(snapshot.created_at).toLocaleString('tr-TR')}</p>
+        <p className="break-all font-mono text-xs">SHA-256: {snapshot.hash}</p>
+        <Link href="/menu-history" className="font-medium underline">
+          Menu gecmisine don
+        </Link>
+      </div>
+    </div>
+  )
+
+  return (
+    <MenuView
+      snapshotData={snapshot.snapshot_data as unknown as MenuSnapshotData}
+      lang={lang}
+      nutrition={nutritionParam}
+      allergens={allergensParam}
+      allergenMode={allergenModeParam}
+      acceptLanguage={headerList.get('accept-language')}
+      basePath={`/menu/${slug}/history/${atParam}`}
+      banner={banner}
+      now={at}
+    />
+  )
+}
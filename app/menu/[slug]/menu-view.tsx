@@ -0,0 +1,798 @@
+/**
+ * Menu View - Renders Menu Data for Guests
+ *
+ * Shared by the public menu (latest published snapshot) and the draft
+ * preview (unsaved menu data), so editors see exactly what guests will see.
+ *
+ * Language:
+ * - `lang` selects one of the locales published in the snapshot
+ * - Otherwise the Accept-Language header is used, falling back to Turkish
+ *
+ * Guest filters:
+ * - `nutrition=kcal-500` shows only products matching a nutrition filter
+ * - `allergens=gluten,milk` hides products containing the selected allergens,
+ *   or flags them with a warning when `allergen_mode=flag`
+ *
+ * Happy hour:
+ * - Discount windows and prices come from the snapshot (recorded in
+ *   discounted_price_ledger); only the active window is evaluated per request
+ */
+
+import type { ReactNode } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import type { MenuSnapshotData } from '@/lib/services/snapshot'
+import {
+  DEFAULT_LOCALE,
+  getLocaleDirection,
+  getLocaleName,
+  localizeMenuData,
+  resolveMenuLocale,
+} from '@/lib/i18n/locales'
+import { getActivePriceWindow, type PriceWindow } from '@/lib/services/happy-hour'
+import { describeSelectionRule } from '@/lib/services/modifiers'
+import { BADGE_LABELS, getActiveBadges, sortFeaturedFirst } from '@/lib/services/badges'
+import {
+  NUTRIENTS,
+  NUTRITION_FILTERS,
+  matchesNutritionFilter,
+  type NutritionFacts,
+} from '@/lib/services/nutrition'
+import {
+  ALLERGENS,
+  getAllergen,
+  getAllergenMatches,
+  parseAllergenFilter,
+  type AllergenCode,
+  type AllergenFilterMode,
+} from '@/lib/services/allergens'
+import { buildThemeVariables } from '@/lib/services/theme'
+import type { ProductBadgeType } from '@/types/database'
+
+export interface MenuViewProps {
+  /** Menu data to render (snapshot_data or an unsaved draft) */
+  snapshotData: MenuSnapshotData
+  /** Guest query parameters */
+  lang?: string
+  nutrition?: string
+  allergens?: string
+  allergenMode?: string
+  /** Accept-Language header of the request */
+  acceptLanguage: string | null
+  /** Path that language and filter links point to (e.g. /menu/my-cafe) */
+  basePath: string
+  /** Shown above the menu header (e.g. the preview notice) */
+  banner?: ReactNode
+  /** Public verification page for the footer link (published menus only) */
+  verifyHref?: string
+  /** Moment happy hours and badge schedules are evaluated at (default: now) */
+  now?: Date
+}
+
+/**
+ * Guest filter state carried in menu links
+ */
+interface MenuQuery {
+  lang: string
+  nutrition: string | null
+  allergens: AllergenCode[]
+  allergenMode: AllergenFilterMode
+}
+
+/**
+ * Build a menu link that keeps the other guest filters
+ */
+function menuHref(basePath: string, query: MenuQuery): string {
+  const params = new URLSearchParams({ lang: query.lang })
+
+  if (query.nutrition) params.set('nutrition', query.nutrition)
+  if (query.allergens.length > 0) {
+    params.set('allergens', query.allergens.join(','))
+    if (query.allergenMode === 'flag') params.set('allergen_mode', 'flag')
+  }
+
+  return `${basePath}?${params.toString().replace(/%2C/g, ',')}`
+}
+
+/**
+ * Menu View Component
+ *
+ * Renders the menu with language, nutrition and allergen filters, happy hour
+ * prices and badges evaluated for the current time (or `now` when showing a
+ * past version).
+ */
+export function MenuView({
+  snapshotData,
+  lang,
+  nutrition: nutritionParam,
+  allergens: allergensParam,
+  allergenMode: allergenModeParam,
+  acceptLanguage,
+  basePath,
+  banner,
+  verifyHref,
+  now = new Date(),
+}: MenuViewProps) {
+  // Resolve the display language from ?lang= or Accept-Language
+  const availableLocales = snapshotData.locales?.available ?? [DEFAULT_LOCALE]
+  const locale = resolveMenuLocale(lang, acceptLanguage, availableLocales)
+
+  const menuData = localizeMenuData(snapshotData, locale)
+  const { organization, categories, products } = menuData
+  const bundles = [...(menuData.bundles ?? [])].sort((a, b) => a.sort_order - b.sort_order)
+
+  // Localized product names for bundle components
+  const productNames = new Map(products.map((product) => [product.id, product.name]))
+
+  // Products by ID for "Bununla iyi gider" recommendations
+  const productsById = new Map(products.map((product) => [product.id, product]))
+
+  // Guest nutrition filter (?nutrition=kcal-500); only offered when values exist
+  const hasNutrition = products.some((product) => product.nutrition)
+  const nutritionFilter = NUTRITION_FILTERS.find((f) => f.key === nutritionParam)?.key ?? null
+
+  // Guest allergen filter (?allergens=gluten,milk); allergens are only in the
+  // snapshot while module_allergens is enabled
+  const hasAllergens = products.some((product) => product.allergens)
+  const selectedAllergens = hasAllergens ? parseAllergenFilter(allergensParam) : []
+  const allergenMode: AllergenFilterMode = allergenModeParam === 'flag' ? 'flag' : 'hide'
+  const query: MenuQuery = {
+    lang: locale,
+    nutrition: nutritionFilter,
+    allergens: selectedAllergens,
+    allergenMode,
+  }
+
+  const filteredProducts = products.filter(
+    (product) =>
+      (!nutritionFilter || matchesNutritionFilter(product.nutrition, nutritionFilter)) &&
+      (allergenMode === 'flag' ||
+        getAllergenMatches(product.allergens, selectedAllergens).length === 0)
+  )
+  const isFiltered = filteredProducts.length !== products.length || selectedAllergens.length > 0
+
+  // Group products by category
+  const productsByCategory = new Map<string | null, typeof products>()
+
+  // Initialize with empty arrays for each category
+  categories.forEach((cat) => {
+    productsByCategory.set(cat.id, [])
+  })
+  productsByCategory.set(null, []) // For uncategorized products
+
+  // Populate products into categories
+  filteredProducts.forEach((product) => {
+    const categoryId = product.category_id
+    const existing = productsByCategory.get(categoryId) || []
+    productsByCategory.set(categoryId, [...existing, product])
+  })
+
+  // Evaluate happy hour windows once per request
+  const activeWindows = new Map<string, PriceWindow>()
+  products.forEach((product) => {
+    const window = getActivePriceWindow(product.price_rules, now)
+    if (window) {
+      activeWindows.set(product.id, window)
+    }
+  })
+
+  // Evaluate badge schedules once per request (expired badges drop out here)
+  const activeBadges = new Map<string, ProductBadgeType[]>()
+  products.forEach((product) => {
+    const badges = getActiveBadges(product.badges, now)
+    if (badges.length > 0) {
+      activeBadges.set(product.id, badges)
+    }
+  })
+
+  // Featured (badged) products come first within their category
+  productsByCategory.forEach((categoryProducts, categoryId) => {
+    productsByCategory.set(categoryId, sortFeaturedFirst(categoryProducts, activeBadges))
+  })
+
+  // Sort categories by sort_order
+  const sortedCategories = [...categories].sort(
+    (a, b) => a.sort_order - b.sort_order
+  )
+
+  return (
+    <main
+      className="min-h-screen bg-[var(--menu-background)] font-[family-name:var(--menu-font)] text-[color:var(--menu-text)]"
+      style={buildThemeVariables(organization.theme)}
+      lang={locale}
+      dir={getLocaleDirection(locale)}
+    >
+      {banner}
+
+      {/* Header with organization info */}
+      <header className="relative">
+        {/* Cover Image */}
+        {organization.cover_url && (
+          <div className="relative h-48 w-full overflow-hidden sm:h-64">
+            <Image
+              src={organization.cover_url}
+              alt={`${organization.name} kapak görseli`}
+              fill
+              sizes="100vw"
+              className="object-cover"
+              priority
+            />
+          </div>
+        )}
+
+        {/* Organization Info */}
+        <div
+          className={`bg-white px-4 py-6 shadow-sm ${
+            organization.cover_url ? '-mt-12 relative mx-4 rounded-lg sm:mx-auto sm:max-w-2xl' : ''
+          }`}
+        >
+          <div className="flex items-center gap-4">
+            {/* Logo */}
+            {organization.logo_url && (
+              <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-full border-2 border-secondary-200 sm:h-20 sm:w-20">
+                <Image
+                  src={organization.logo_url}
+                  alt={`${organization.name} logo`}
+                  fill
+                  sizes="(max-width: 640px) 64px, 80px"
+                  className="object-cover"
+                />
+              </div>
+            )}
+
+            {/* Name */}
+            <div>
+              <h1 className="text-2xl font-bold text-[color:var(--menu-text)] sm:text-3xl">
+                {organization.name}
+              </h1>
+              <p className="mt-1 text-sm text-[color:var(--menu-secondary)]">
+                {menuData.metadata.product_count} ürün
+              </p>
+            </div>
+          </div>
+
+          {/* Language Switcher */}
+          {availableLocales.length > 1 && (
+            <nav className="mt-4 flex flex-wrap gap-2" aria-label="Dil seçimi">
+              {availableLocales.map((code) => (
+                <Link
+                  key={code}
+                  href={menuHref(basePath, { ...query, lang: code })}
+                  hrefLang={code}
+                  className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                    code === locale
+                      ? 'bg-[var(--menu-primary)] text-white'
+                      : 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
+                  }`}
+                  aria-current={code === locale ? 'true' : undefined}
+                >
+                  {getLocaleName(code)}
+                </Link>
+              ))}
+            </nav>
+          )}
+        </div>
+      </header>
+
+      {/* Menu Content */}
+      <div className="mx-auto max-w-2xl px-4 py-8">
+        {/* Nutrition filters */}
+        {hasNutrition && (
+          <nav className="mb-6 flex flex-wrap gap-2" aria-label="Besin değeri filtreleri">
+            {[{ key: null, label: 'Tümü' }, ...NUTRITION_FILTERS].map((filter) => (
+              <Link
+                key={filter.key ?? 'all'}
+                href={menuHref(basePath, { ...query, nutrition: filter.key })}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  filter.key === nutritionFilter
+                    ? 'bg-[var(--menu-primary)] text-white'
+                    : 'bg-white text-secondary-700 shadow-sm hover:bg-secondary-100'
+                }`}
+                aria-current={filter.key === nutritionFilter ? 'true' : undefined}
+              >
+                {filter.label}
+              </Link>
+            ))}
+          </nav>
+        )}
+
+        {/* Allergen filter */}
+        {hasAllergens && (
+          <nav className="mb-6" aria-label="Alerjen filtresi">
+            <p className="mb-2 text-xs font-medium text-secondary-700">
+              Alerjenim var, şunları içermesin:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map((allergen) => {
+                const isSelected = selectedAllergens.includes(allergen.code)
+                const allergens = isSelected
+                  ? selectedAllergens.filter((code) => code !== allergen.code)
+                  : [...selectedAllergens, allergen.code]
+
+                return (
+                  <Link
+                    key={allergen.code}
+                    href={menuHref(basePath, { ...query, allergens })}
+                    className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                      isSelected
+                        ? 'bg-red-600 text-white'
+                        : 'bg-white text-secondary-700 shadow-sm hover:bg-secondary-100'
+                    }`}
+                    aria-pressed={isSelected}
+                  >
+                    <span aria-hidden="true">{allergen.icon}</span> {allergen.label}
+                  </Link>
+                )
+              })}
+            </div>
+            {selectedAllergens.length > 0 && (
+              <div className="mt-2 flex gap-2 text-xs">
+                {(
+                  [
+                    { mode: 'hide', label: 'Ürünleri gizle' },
+                    { mode: 'flag', label: 'Uyarı ile göster' },
+                  ] as const
+                ).map((option) => (
+                  <Link
+                    key={option.mode}
+                    href={menuHref(basePath, { ...query, allergenMode: option.mode })}
+                    className={`rounded px-2 py-1 ${
+                      option.mode === allergenMode
+                        ? 'bg-secondary-800 text-white'
+                        : 'text-secondary-600 hover:bg-secondary-100'
+                    }`}
+                    aria-current={option.mode === allergenMode ? 'true' : undefined}
+                  >
+                    {option.label}
+                  </Link>
+                ))}
+                <Link
+                  href={menuHref(basePath, { ...query, allergens: [] })}
+                  className="ml-auto rounded px-2 py-1 text-secondary-600 hover:bg-secondary-100"
+                >
+                  Temizle
+                </Link>
+              </div>
+            )}
+          </nav>
+        )}
+
+        {isFiltered && filteredProducts.length === 0 && (
+          <div className="mb-6 rounded-lg bg-white p-8 text-center shadow-sm">
+            <p className="text-[color:var(--menu-secondary)]">Bu filtreye uyan ürün bulunmuyor.</p>
+          </div>
+        )}
+
+        {/* Categories */}
+        {sortedCategories.length === 0 && products.length === 0 ? (
+          <div className="rounded-lg bg-white p-8 text-center shadow-sm">
+            <p className="text-[color:var(--menu-secondary)]">
+              Bu menude henüz ürün bulunmuyor.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Set menus / bundles */}
+            {bundles.length > 0 && !isFiltered && (
+              <section className="space-y-4">
+                <h2 className="border-b-2 border-[color:var(--menu-primary)] pb-2 text-xl font-semibold">
+                  Menü Paketleri
+                </h2>
+                <div className="space-y-3">
+                  {bundles.map((bundle) => (
+                    <BundleCard key={bundle.id} bundle={bundle} productNames={productNames} />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Render categories with their products */}
+            {sortedCategories.map((category) => {
+              const categoryProducts = productsByCategory.get(category.id) || []
+
+              if (categoryProducts.length === 0) return null
+
+              return (
+                <section key={category.id} className="space-y-4">
+                  {/* Category Header */}
+                  <h2 className="border-b-2 border-[color:var(--menu-primary)] pb-2 text-xl font-semibold">
+                    {category.name}
+                  </h2>
+
+                  {/* Products in this category */}
+                  <div className="space-y-3">
+                    {categoryProducts.map((product) => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        activeWindow={activeWindows.get(product.id)}
+                        badges={activeBadges.get(product.id)}
+                        productsById={productsById}
+                        allergenWarnings={
+                          allergenMode === 'flag'
+                            ? getAllergenMatches(product.allergens, selectedAllergens)
+                            : undefined
+                        }
+                      />
+                    ))}
+                  </div>
+                </section>
+              )
+            })}
+
+            {/* Uncategorized products */}
+            {(() => {
+              const uncategorized = productsByCategory.get(null) || []
+              if (uncategorized.length === 0) return null
+
+              return (
+                <section className="space-y-4">
+                  <h2 className="border-b-2 border-secondary-300 pb-2 text-xl font-semibold">
+                    Diğer
+                  </h2>
+                  <div className="space-y-3">
+                    {uncategorized.map((product) => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        activeWindow={activeWindows.get(product.id)}
+                        badges={activeBadges.get(product.id)}
+                        productsById={productsById}
+                        allergenWarnings={
+                          allergenMode === 'flag'
+                            ? getAllergenMatches(product.allergens, selectedAllergens)
+                            : undefined
+                        }
+                      />
+                    ))}
+                  </div>
+                </section>
+              )
+            })()}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <footer className="mt-auto bg-white py-6 text-center shadow-inner">
+        <p className="text-sm text-secondary-400">
+          Powered by{' '}
+          <Link
+            href="/"
+            className="font-medium text-primary-600 hover:text-primary-700"
+          >
+            ozaMenu
+          </Link>
+        </p>
+        <p className="mt-1 text-xs text-secondary-300">
+          Son güncelleme:{' '}
+          {new Date(menuData.metadata.generated_at).toLocaleDateString('tr-TR', {
+            day: 'numeric',
+            month: 'long',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </p>
+        {verifyHref && (
+          <p className="mt-1 text-xs">
+            <Link href={verifyHref} className="text-secondary-400 underline hover:text-secondary-600">
+              Doğrulanmış fiyat listesi
+            </Link>
+          </p>
+        )}
+      </footer>
+    </main>
+  )
+}
+
+/**
+ * Product Card Component
+ * Displays a single product with image, name, description, and price
+ */
+function ProductCard({
+  product,
+  activeWindow,
+  badges,
+  productsById,
+  allergenWarnings,
+}: {
+  product: MenuSnapshotData['products'][number]
+  activeWindow?: PriceWindow
+  badges?: ProductBadgeType[]
+  productsById: Map<string, MenuSnapshotData['products'][number]>
+  /** Guest-selected allergens this product contains (flag mode) */
+  allergenWarnings?: AllergenCode[]
+}) {
+  const hasImage = !!product.image_url
+  const hasAllergens = product.allergens && product.allergens.length > 0
+  const hasVariants = !!product.variants && product.variants.length > 0
+  const recommendedProducts = (product.recommendations ?? [])
+    .map((id) => productsById.get(id))
+    .filter((recommended) => recommended !== undefined)
+
+  return (
+    <article
+      id={`urun-${product.id}`}
+      className="flex scroll-mt-4 gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm transition-shadow hover:shadow-md"
+    >
+      {/* Product Image */}
+      {hasImage && (
+        <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md sm:h-24 sm:w-24">
+          <Image
+            src={product.image_url!}
+            alt={product.name}
+            fill
+            sizes="(max-width: 640px) 80px, 96px"
+            className="object-cover"
+          />
+        </div>
+      )}
+
+      {/* Product Info */}
+      <div className="flex flex-1 flex-col justify-between">
+        <div>
+          {/* Badges */}
+          {badges && badges.length > 0 && (
+            <div className="mb-1 flex flex-wrap gap-1">
+              {badges.map((badge) => (
+                <span
+                  key={badge}
+                  className={`rounded px-1.5 py-0.5 text-xs font-medium ${
+                    badge === 'chef_recommendation'
+                      ? 'bg-primary-100 text-primary-800'
+                      : 'bg-green-100 text-green-800'
+                  }`}
+                >
+                  {BADGE_LABELS[badge]}
+                </span>
+              ))}
+            </div>
+          )}
+          <h3 className="font-medium text-[color:var(--menu-text)]">{product.name}</h3>
+          {product.description && (
+            <p className="mt-1 text-sm text-[color:var(--menu-secondary)] line-clamp-2">
+              {product.description}
+            </p>
+          )}
+          {/* Add-on groups */}
+          {product.modifier_groups?.map((group) => (
+            <div key={group.id} className="mt-2">
+              <p className="text-xs font-medium text-secondary-700">
+                {group.name}{' '}
+                <span className="font-normal text-secondary-400">
+                  ({describeSelectionRule(group)})
+                </span>
+              </p>
+              <ul className="mt-0.5 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-[color:var(--menu-secondary)]">
+                {group.options.map((option) => (
+                  <li key={option.id}>
+                    {option.name}
+                    {option.price > 0 && ` +${formatPrice(option.price, option.currency)}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {/* Nutrition facts */}
+          {product.nutrition && <NutritionPanel nutrition={product.nutrition} />}
+          {/* Cross-sell recommendations */}
+          {recommendedProducts.length > 0 && (
+            <div className="mt-2">
+              <p className="text-xs font-medium text-secondary-700">Bununla iyi gider</p>
+              <ul className="mt-1 flex gap-2 overflow-x-auto pb-1">
+                {recommendedProducts.map((recommended) => (
+                  <li key={recommended.id} className="flex-shrink-0">
+                    <a
+                      href={`#urun-${recommended.id}`}
+                      className="block rounded-full bg-primary-50 px-2.5 py-1 text-xs text-primary-700 hover:bg-primary-100"
+                    >
+                      {recommended.name}
+                      {recommended.price !== null &&
+                        ` · ${formatPrice(recommended.price, recommended.currency)}`}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {/* Allergens */}
+          {allergenWarnings && allergenWarnings.length > 0 && (
+            <p className="mt-2 rounded bg-red-50 px-2 py-1 text-xs font-medium text-red-700">
+              Dikkat, seçtiğiniz alerjenleri içerir:{' '}
+              {allergenWarnings.map((code) => getAllergen(code)?.label).join(', ')}
+            </p>
+          )}
+          {hasAllergens && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {product.allergens!.map((code) => {
+                // Snapshots published before the catalog hold free-text values
+                const allergen = getAllergen(code)
+
+                return (
+                  <span
+                    key={code}
+                    className="rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800"
+                  >
+                    {allergen ? (
+                      <>
+                        <span aria-hidden="true">{allergen.icon}</span> {allergen.label}
+                      </>
+                    ) : (
+                      code
+                    )}
+                  </span>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Price */}
+        <div className="mt-2 text-right">
+          {product.price !== null && activeWindow ? (
+            <div className="flex flex-col items-end">
+              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800">
+                {activeWindow.name} · {activeWindow.end_time}&apos;e kadar
+              </span>
+              <span className="mt-1 text-sm text-secondary-400 line-through">
+                {formatPrice(product.price, product.currency)}
+              </span>
+              <span className="text-lg font-semibold text-[color:var(--menu-primary)]">
+                {formatPrice(activeWindow.price, product.currency)}
+              </span>
+            </div>
+          ) : product.price !== null ? (
+            <span className="text-lg font-semibold text-[color:var(--menu-primary)]">
+              {formatPrice(product.price, product.currency)}
+            </span>
+          ) : !hasVariants ? (
+            <span className="text-sm text-secondary-400">Fiyat yok</span>
+          ) : null}
+          {/* Variants */}
+          {hasVariants && (
+            <ul className="mt-1 space-y-0.5">
+              {product.variants!.map((variant) => (
+                <li key={variant.id} className="flex justify-end gap-3 text-sm">
+                  <span className="text-[color:var(--menu-secondary)]">{variant.name}</span>
+                  <span className="font-semibold text-[color:var(--menu-primary)]">
+                    {formatPrice(variant.price, variant.currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </article>
+  )
+}
+
+/**
+ * Bundle Card Component
+ * Displays a set menu with its component products and bundle price
+ */
+function BundleCard({
+  bundle,
+  productNames,
+}: {
+  bundle: NonNullable<MenuSnapshotData['bundles']>[number]
+  productNames: Map<string, string>
+}) {
+  return (
+    <article className="flex gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm transition-shadow hover:shadow-md">
+      {/* Bundle Image */}
+      {bundle.image_url && (
+        <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md sm:h-24 sm:w-24">
+          <Image
+            src={bundle.image_url}
+            alt={bundle.name}
+            fill
+            sizes="(max-width: 640px) 80px, 96px"
+            className="object-cover"
+          />
+        </div>
+      )}
+
+      {/* Bundle Info */}
+      <div className="flex flex-1 flex-col justify-between">
+        <div>
+          <h3 className="font-medium text-[color:var(--menu-text)]">{bundle.name}</h3>
+          {bundle.description && (
+            <p className="mt-1 text-sm text-[color:var(--menu-secondary)] line-clamp-2">
+              {bundle.description}
+            </p>
+          )}
+          {/* Component products */}
+          <ul className="mt-2 space-y-0.5 text-sm text-secondary-600">
+            {bundle.items.map((item) => (
+              <li key={item.product_id}>
+                {item.quantity > 1 && `${item.quantity} × `}
+                {productNames.get(item.product_id) ?? item.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Price */}
+        <div className="mt-2 text-right">
+          <span className="text-lg font-semibold text-[color:var(--menu-primary)]">
+            {formatPrice(bundle.price, bundle.currency)}
+          </span>
+        </div>
+      </div>
+    </article>
+  )
+}
+
+/**
+ * Nutrition Panel Component
+ * Collapsible nutrition facts per portion and per 100 g
+ */
+function NutritionPanel({ nutrition }: { nutrition: NutritionFacts }) {
+  const rows = NUTRIENTS.filter(
+    (nutrient) =>
+      nutrition.per_portion[nutrient.key] !== undefined ||
+      nutrition.per_100g[nutrient.key] !== undefined
+  )
+  const hasPortion = Object.keys(nutrition.per_portion).length > 0
+  const hasPer100g = Object.keys(nutrition.per_100g).length > 0
+  const formatValue = (value: number | undefined, unit: string) =>
+    value === undefined ? '-' : `${value.toLocaleString('tr-TR')} ${unit}`
+
+  return (
+    <details className="mt-2 text-xs text-secondary-600">
+      <summary className="cursor-pointer font-medium text-secondary-700">
+        Besin değerleri
+        {nutrition.per_portion.kcal !== undefined && (
+          <span className="font-normal text-[color:var(--menu-secondary)]">
+            {' '}· {nutrition.per_portion.kcal} kcal / porsiyon
+          </span>
+        )}
+      </summary>
+      <table className="mt-1 w-full">
+        <thead>
+          <tr className="text-secondary-400">
+            <th className="py-0.5 text-left font-normal" />
+            {hasPortion && (
+              <th className="py-0.5 text-right font-normal">
+                Porsiyon{nutrition.portion_grams !== null && ` (${nutrition.portion_grams} g)`}
+              </th>
+            )}
+            {hasPer100g && <th className="py-0.5 text-right font-normal">100 g</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((nutrient) => (
+            <tr key={nutrient.key} className="border-t border-secondary-100">
+              <td className="py-0.5">{nutrient.label}</td>
+              {hasPortion && (
+                <td className="py-0.5 text-right">
+                  {formatValue(nutrition.per_portion[nutrient.key], nutrient.unit)}
+                </td>
+              )}
+              {hasPer100g && (
+                <td className="py-0.5 text-right">
+                  {formatValue(nutrition.per_100g[nutrient.key], nutrient.unit)}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  )
+}
+
+/**
+ * Format price with currency symbol
+ */
+function formatPrice(price: number, currency: string): string {
+  const formatter = new Intl.NumberFormat('tr-TR', {
+    style: 'currency',
+    currency: currency || 'TRY',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+  return formatter.format(price)
+}
@@ -0,0 +1,141 @@
+/**
+ * Draft Menu Preview Page
+ *
+ * Shows the menu exactly as the next publish would, rendered with the same
+ * view as the public menu. A banner lists the changes against the published
+ * version so managers can review the draft before sending it for approval
+ * and owners/admins before approving it.
+ *
+ * Only members of the organization can open the preview; it is never
+ * cached or indexed.
+ *
+ * @route GET /menu/[slug]/preview
+ */
+
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { headers } from 'next/headers'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import {
+  getCurrentMenuSnapshot,
+  getDraftMenuData,
+  type MenuSnapshotData,
+} from '@/lib/services/snapshot'
+import { diffMenuSnapshots } from '@/lib/services/snapshot-diff'
+import { MenuChangelog } from '@/components/dashboard/menu-changes'
+import { MenuView } from '../menu-view'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Menu Onizleme | ozaMenu',
+  robots: { index: false, follow: false },
+}
+
+interface PreviewPageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{
+    lang?: string
+    nutrition?: string
+    allergens?: string
+    allergen_mode?: string
+  }>
+}
+
+/**
+ * Draft Menu Preview Component
+ *
+ * Renders the unpublished menu of the organization for its members.
+ */
+export default async function MenuPreviewPage({ params, searchParams }: PreviewPageProps) {
+  const { slug } = await params
+  const {
+    lang,
+    nutrition: nutritionParam,
+    allergens: allergensParam,
+    allergen_mode: allergenModeParam,
+  } = await searchParams
+
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect(`/login?redirectTo=/menu/${slug}/preview`)
+  }
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('slug', slug)
+    .single()
+
+  if (!organization) {
+    notFound()
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organization.id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (!membership) {
+    notFound()
+  }
+
+  const draft = await getDraftMenuData(organization.id, supabase)
+
+  if (!draft.success || !draft.data) {
+    notFound()
+  }
+
+  const published = await getCurrentMenuSnapshot(organization.id)
+  const publishedData = published.data
+    ? (published.data.snapshot_data as unknown as MenuSnapshotData)
+    : null
+  const diff = diffMenuSnapshots(publishedData, draft.data.menuData)
+  const headerList = await headers()
+
+  const banner = (
+    <div className="border-b border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+      <div className="mx-auto max-w-4xl space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="font-semibold">
+            Onizleme - bu menu henuz yayinlanmadi
+            {published.data ? ` (yayindaki surum: v${published.data.version})` : ''}
+          </p>
+          <Link href="/dashboard" className="font-medium underline">
+            Panele don
+          </Link>
+        </div>
+        <details>
+          <summary className="cursor-pointer">
+            {diff.summary.added} eklendi, {diff.summary.removed} kaldirildi,{' '}
+            {diff.summary.changed} degisti
+          </summary>
+          <div className="mt-2 rounded-lg bg-white p-3 dark:bg-secondary-900">
+            <MenuChangelog diff={diff} />
+          </div>
+        </details>
+      </div>
+    </div>
+  )
+
+  return (
+    <MenuView
+      snapshotData={draft.data.menuData}
+      lang={lang}
+      nutrition={nutritionParam}
+      allergens={allergensParam}
+      allergenMode={allergenModeParam}
+      acceptLanguage={headerList.get('accept-language')}
+      basePath={`/menu/${slug}/preview`}
+      banner={banner}
+    />
+  )
+}
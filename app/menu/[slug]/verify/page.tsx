@@ -0,0 +1,136 @@
+/**
+ * Public Snapshot Verification Page
+ *
+ * Shows the version, publish time and SHA-256 hash of the menu published
+ * now, and lets guests and inspectors check a hash or an exported snapshot
+ * JSON against the published snapshots (menu_snapshots).
+ *
+ * Linked from the public menu footer ("Doğrulanmış fiyat listesi").
+ * Rendered per request so the shown hash is always the current one.
+ *
+ * @route GET /menu/[slug]/verify
+ */
+
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import {
+  getCurrentMenuSnapshotBySlug,
+  verifyPublishedSnapshot,
+  type MenuSnapshotData,
+} from '@/lib/services/snapshot'
+import { VerifyForm } from './verify-form'
+
+export const dynamic = 'force-dynamic'
+
+interface VerifyPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * Generate metadata with the organization name
+ */
+export async function generateMetadata({ params }: VerifyPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const result = await getCurrentMenuSnapshotBySlug(slug)
+
+  if (!result.success || !result.data) {
+    return {
+      title: 'Menu Bulunamadı | ozaMenu',
+    }
+  }
+
+  const menuData = result.data.snapshot_data as unknown as MenuSnapshotData
+
+  return {
+    title: `${menuData.organization.name} - Doğrulanmış Fiyat Listesi | ozaMenu`,
+    description: `${menuData.organization.name} menüsünün yayınlanan sürümü ve SHA-256 doğrulama özeti`,
+  }
+}
+
+/**
+ * Public Verification Page Component
+ */
+export default async function VerifyPage({ params }: VerifyPageProps) {
+  const { slug } = await params
+
+  const result = await getCurrentMenuSnapshotBySlug(slug)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const snapshot = result.data
+  const menuData = snapshot.snapshot_data as unknown as MenuSnapshotData
+  const verification = await verifyPublishedSnapshot(slug, { hash: snapshot.hash })
+  const isValid = verification.data?.storedValid === true
+
+  return (
+    <main className="flex min-h-screen flex-col bg-secondary-50">
+      <div className="mx-auto w-full max-w-2xl flex-1 space-y-6 px-4 py-8">
+        <div>
+          <Link
+            href={`/menu/${slug}`}
+            className="text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            ← Menüye dön
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-secondary-900">
+            {menuData.organization.name}
+          </h1>
+          <p className="mt-1 text-sm text-secondary-500">Doğrulanmış fiyat listesi</p>
+        </div>
+
+        <section className="space-y-3 rounded-lg bg-white p-5 shadow-sm">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="font-semibold text-secondary-900">Yayındaki menü</h2>
+            <span
+              className={`rounded-full px-3 py-1 text-xs font-medium ${
+                isValid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+              }`}
+            >
+              {isValid ? 'Hash doğrulandı' : 'Hash eşleşmiyor'}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-[8rem_1fr] gap-y-2 text-sm">
+            <dt className="text-secondary-500">Sürüm</dt>
+            <dd className="text-secondary-900">v{snapshot.version}</dd>
+
+            <dt className="text-secondary-500">Yayın zamanı</dt>
+            <dd className="text-secondary-900">
+              {new Date(snapshot.created_at).toLocaleString('tr-TR', {
+                day: 'numeric',
+                month: 'long',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </dd>
+
+            <dt className="text-secondary-500">SHA-256</dt>
+            <dd className="break-all font-mono text-xs text-secondary-900">{snapshot.hash}</dd>
+
+            {snapshot.previous_hash && (
+              <>
+                <dt className="text-secondary-500">Önceki sürüm</dt>
+                <dd className="break-all font-mono text-xs text-secondary-600">
+                  {snapshot.previous_hash}
+                </dd>
+              </>
+            )}
+          </dl>
+
+          <a
+            href={`/api/menu/verify?slug=${slug}`}
+            className="inline-block text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            Menü kaydını JSON olarak indir
+          </a>
+        </section>
+
+        <VerifyForm slug={slug} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+
+interface VerifyFormProps {
+  /** Organization slug */
+  slug: string
+}
+
+/**
+ * Verification result from POST /api/menu/verify
+ */
+interface VerificationData {
+  hash: string
+  found: boolean
+  contentMatches: boolean | null
+  version: number | null
+  publishedAt: string | null
+  isCurrent: boolean
+  storedValid: boolean | null
+}
+
+/**
+ * Summarize a verification result as a status line
+ */
+function describeResult(data: VerificationData): { ok: boolean; message: string } {
+  if (data.contentMatches === false) {
+    return {
+      ok: false,
+      message: 'Dosyanın içeriği içindeki hash ile eşleşmiyor; dosya değiştirilmiş.',
+    }
+  }
+
+  if (!data.found) {
+    return { ok: false, message: 'Bu hash ile yayınlanmış bir menü sürümü bulunamadı.' }
+  }
+
+  if (data.storedValid === false) {
+    return {
+      ok: false,
+      message: `v${data.version} kaydı bulundu ancak kayıtlı içerik hash ile eşleşmiyor.`,
+    }
+  }
+
+  const publishedAt = data.publishedAt
+    ? new Date(data.publishedAt).toLocaleString('tr-TR')
+    : ''
+
+  return {
+    ok: true,
+    message: data.isCurrent
+      ? `Doğrulandı: yayındaki menü (v${data.version}, ${publishedAt}).`
+      : `Doğrulandı: v${data.version}, ${publishedAt} tarihinde yayınlandı (güncel sürüm değil).`,
+  }
+}
+
+/**
+ * Hash / snapshot JSON verification form
+ *
+ * Checks a pasted hash or an uploaded snapshot export against the
+ * published snapshots of the menu.
+ */
+export function VerifyForm({ slug }: VerifyFormProps) {
+  const [hash, setHash] = useState('')
+  const [result, setResult] = useState<VerificationData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  /**
+   * Send a verification request
+   */
+  const verify = async (payload: { hash?: string; snapshot?: unknown }) => {
+    setError(null)
+    setResult(null)
+    setIsChecking(true)
+
+    try {
+      const response = await fetch('/api/menu/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, ...payload }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || 'Doğrulama yapılamadı.')
+        return
+      }
+
+      setResult(data.data)
+    } catch {
+      setError('Doğrulama yapılamadı.')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    verify({ hash })
+  }
+
+  /**
+   * Read an uploaded JSON file and verify it
+   */
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+
+    if (!file) {
+      return
+    }
+
+    try {
+      verify({ snapshot: JSON.parse(await file.text()) })
+    } catch {
+      setResult(null)
+      setError('Dosya okunamadı; geçerli bir JSON dosyası seçin.')
+    }
+  }
+
+  const summary = result ? describeResult(result) : null
+
+  return (
+    <section className="space-y-4 rounded-lg bg-white p-5 shadow-sm">
+      <h2 className="font-semibold text-secondary-900">Hash veya dosya doğrula</h2>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <label htmlFor="verify-hash" className="block text-sm text-secondary-600">
+          SHA-256 hash
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="verify-hash"
+            value={hash}
+            onChange={(e) => setHash(e.target.value)}
+            placeholder="64 karakterlik hash"
+            className="min-w-0 flex-1 rounded-lg border border-secondary-300 px-3 py-2 font-mono text-xs focus:border-primary-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isChecking || !hash.trim()}
+            className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Doğrula
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <label htmlFor="verify-file" className="block text-sm text-secondary-600">
+          Dışa aktarılmış menü kaydı (JSON)
+        </label>
+        <input
+          id="verify-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFile}
+          disabled={isChecking}
+          className="block w-full text-sm text-secondary-600"
+        />
+      </div>
+
+      {error && (
+        <p className="rounded-lg bg-red-50 p-3 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+
+      {summary && (
+        <p
+          className={`rounded-lg p-3 text-sm ${
+            summary.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+          }`}
+          role="status"
+        >
+          {summary.message}
+        </p>
+      )}
+    </section>
+  )
+}
@@ -13,6 +13,9 @@
  * - Pages are revalidated every 60 seconds (or on-demand via revalidatePath)
  * - Non-existent slugs show 404 page
  *
+ * Theme:
+ * - The menu theme published in the latest snapshot is applied as CSS variables
+ *
  * @route GET /r/[slug]
  */
 
@@ -24,6 +27,11 @@ import {
   createServerSupabaseClient,
   createStaticSupabaseClient,
 } from '@/lib/supabase/server'
+import {
+  getCurrentMenuSnapshotBySlug,
+  type MenuSnapshotData,
+} from '@/lib/services/snapshot'
+import { buildThemeVariables } from '@/lib/services/theme'
 
 /**
  * ISR revalidation interval in seconds
@@ -133,8 +141,17 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
     notFound()
   }
 
+  // Published menu theme (default look until a themed menu is published)
+  const snapshot = await getCurrentMenuSnapshotBySlug(slug)
+  const theme = snapshot.success
+    ? (snapshot.data?.snapshot_data as unknown as MenuSnapshotData | undefined)?.organization.theme
+    : undefined
+
   return (
-    <main className="min-h-screen bg-secondary-50">
+    <main
+      className="min-h-screen bg-[var(--menu-background)] font-[family-name:var(--menu-font)] text-[color:var(--menu-text)]"
+      style={buildThemeVariables(theme)}
+    >
       {/* Hero Section with Cover Image */}
       <section className="relative">
         {organization.cover_url ? (
@@ -151,7 +168,7 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
             <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
           </div>
         ) : (
-          <div className="h-64 w-full bg-gradient-to-br from-primary-500 to-primary-700 sm:h-80 md:h-96" />
+          <div className="h-64 w-full bg-[var(--menu-primary)] sm:h-80 md:h-96" />
         )}
 
         {/* Restaurant Logo and Name */}
@@ -171,8 +188,8 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
                   />
                 </div>
               ) : (
-                <div className="-mt-16 flex h-24 w-24 flex-shrink-0 items-center justify-center rounded-full border-4 border-white bg-primary-100 shadow-md sm:-mt-20 sm:h-32 sm:w-32">
-                  <span className="text-3xl font-bold text-primary-600 sm:text-4xl">
+                <div className="-mt-16 flex h-24 w-24 flex-shrink-0 items-center justify-center rounded-full border-4 border-white bg-[var(--menu-primary)] shadow-md sm:-mt-20 sm:h-32 sm:w-32">
+                  <span className="text-3xl font-bold text-white sm:text-4xl">
                     {organization.name.charAt(0).toUpperCase()}
                   </span>
                 </div>
@@ -180,7 +197,7 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
 
               {/* Restaurant Name */}
               <div className="mt-4 text-center sm:mt-0 sm:text-left">
-                <h1 className="text-2xl font-bold text-secondary-900 sm:text-3xl md:text-4xl">
+                <h1 className="text-2xl font-bold text-[color:var(--menu-text)] sm:text-3xl md:text-4xl">
                   {organization.name}
                 </h1>
               </div>
@@ -194,17 +211,17 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
         {/* Call to Action */}
         <div className="rounded-xl bg-white p-6 shadow-sm sm:p-8">
           <div className="text-center">
-            <h2 className="text-xl font-semibold text-secondary-800 sm:text-2xl">
+            <h2 className="text-xl font-semibold text-[color:var(--menu-text)] sm:text-2xl">
               Dijital Menumuzu Kesfet
             </h2>
-            <p className="mt-2 text-secondary-500">
+            <p className="mt-2 text-[color:var(--menu-secondary)]">
               Tum urunlerimizi ve guncel fiyatlarimizi goruntulemek icin asagidaki butona tiklayin.
             </p>
 
             {/* View Menu Button */}
             <Link
               href={`/menu/${organization.slug}`}
-              className="mt-6 inline-flex items-center justify-center gap-2 rounded-lg bg-primary-600 px-8 py-4 text-lg font-semibold text-white shadow-md transition-all hover:bg-primary-700 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+              className="mt-6 inline-flex items-center justify-center gap-2 rounded-[var(--menu-radius)] bg-[var(--menu-primary)] px-8 py-4 text-lg font-semibold text-white shadow-md transition-all hover:opacity-90 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-[color:var(--menu-primary)] focus:ring-offset-2"
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -227,7 +244,7 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
 
         {/* Features/Info Cards */}
         <div className="mt-8 grid gap-4 sm:grid-cols-2">
-          <div className="flex items-center gap-4 rounded-lg bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm">
             <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-primary-100">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -250,12 +267,12 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
               </svg>
             </div>
             <div>
-              <h3 className="font-medium text-secondary-900">QR Kod ile Erisim</h3>
-              <p className="text-sm text-secondary-500">Hizli ve temassiz menu erisimi</p>
+              <h3 className="font-medium text-[color:var(--menu-text)]">QR Kod ile Erisim</h3>
+              <p className="text-sm text-[color:var(--menu-secondary)]">Hizli ve temassiz menu erisimi</p>
             </div>
           </div>
 
-          <div className="flex items-center gap-4 rounded-lg bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm">
             <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-success-100">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -273,12 +290,12 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
               </svg>
             </div>
             <div>
-              <h3 className="font-medium text-secondary-900">Guncel Fiyatlar</h3>
-              <p className="text-sm text-secondary-500">Her zaman dogru fiyat bilgisi</p>
+              <h3 className="font-medium text-[color:var(--menu-text)]">Guncel Fiyatlar</h3>
+              <p className="text-sm text-[color:var(--menu-secondary)]">Her zaman dogru fiyat bilgisi</p>
             </div>
           </div>
 
-          <div className="flex items-center gap-4 rounded-lg bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm">
             <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-warning-100">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -296,12 +313,12 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
               </svg>
             </div>
             <div>
-              <h3 className="font-medium text-secondary-900">Alerjen Bilgisi</h3>
-              <p className="text-sm text-secondary-500">Detayli icerik bilgileri</p>
+              <h3 className="font-medium text-[color:var(--menu-text)]">Alerjen Bilgisi</h3>
+              <p className="text-sm text-[color:var(--menu-secondary)]">Detayli icerik bilgileri</p>
             </div>
           </div>
 
-          <div className="flex items-center gap-4 rounded-lg bg-white p-4 shadow-sm">
+          <div className="flex items-center gap-4 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm">
             <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-info-100">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -319,8 +336,8 @@ export default async function RestaurantPage({ params }: RestaurantPageProps) {
               </svg>
             </div>
             <div>
-              <h3 className="font-medium text-secondary-900">Mobil Uyumlu</h3>
-              <p className="text-sm text-secondary-500">Her cihazda mukemmel gorunum</p>
+              <h3 className="font-medium text-[color:var(--menu-text)]">Mobil Uyumlu</h3>
+              <p className="text-sm text-[color:var(--menu-secondary)]">Her cihazda mukemmel gorunum</p>
             </div>
           </div>
         </div>
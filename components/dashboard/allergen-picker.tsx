@@ -0,0 +1,74 @@
+'use client'
+
+import { ALLERGENS, type AllergenCode } from '@/lib/services/allergens'
+
+export interface AllergenPickerProps {
+  /** Selected allergen codes */
+  value: AllergenCode[]
+  /** Callback with the selected codes in catalog order */
+  onChange: (value: AllergenCode[]) => void
+  /** Stored values outside the catalog (removed on save) */
+  unknownValues?: string[]
+  /** Whether the picker is disabled */
+  disabled?: boolean
+}
+
+/**
+ * Allergen picker for the product editors.
+ *
+ * Shows the 14 regulated allergens as toggle buttons with their icons.
+ */
+export function AllergenPicker({
+  value,
+  onChange,
+  unknownValues = [],
+  disabled = false,
+}: AllergenPickerProps) {
+  const toggle = (code: AllergenCode) => {
+    const selected = value.includes(code)
+      ? value.filter((c) => c !== code)
+      : [...value, code]
+
+    onChange(ALLERGENS.map((allergen) => allergen.code).filter((c) => selected.includes(c)))
+  }
+
+  return (
+    <div>
+      <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+        Alerjenler
+      </span>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {ALLERGENS.map((allergen) => {
+          const isSelected = value.includes(allergen.code)
+
+          return (
+            <button
+              key={allergen.code}
+              type="button"
+              onClick={() => toggle(allergen.code)}
+              disabled={disabled}
+              aria-pressed={isSelected}
+              className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-left text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                isSelected
+                  ? 'border-primary-500 bg-primary-50 text-primary-800 dark:bg-primary-900/30 dark:text-primary-200'
+                  : 'border-secondary-200 text-secondary-700 hover:bg-secondary-50 dark:border-secondary-700 dark:text-secondary-300 dark:hover:bg-secondary-800'
+              }`}
+            >
+              <span aria-hidden="true">{allergen.icon}</span>
+              {allergen.label}
+            </button>
+          )
+        })}
+      </div>
+      {unknownValues.length > 0 ? (
+        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+          Katalogda olmayan degerler kaydederken kaldirilacak: {unknownValues.join(', ')}
+        </p>
+      ) : (
+        <p className="mt-1 text-xs text-secondary-500 dark:text-secondary-400">
+          Urunun icerdigi yasal bildirimi zorunlu alerjenleri secin
+        </p>
+      )}
+    </div>
+  )
+}
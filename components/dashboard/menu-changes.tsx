@@ -0,0 +1,443 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getAllergen, type AllergenCode } from '@/lib/services/allergens'
+import type {
+  MenuSnapshotDiff,
+  SnapshotChangeType,
+  SnapshotCategoryRef,
+  SnapshotPriceChange,
+} from '@/lib/services/snapshot-diff'
+import type { MenuPublishRequest } from '@/types/database'
+
+export interface MenuChangelogProps {
+  /** Field-level diff from /api/menu/snapshot?diff=... */
+  diff: MenuSnapshotDiff
+}
+
+export interface UnpublishedChangesProps {
+  /** Organization UUID */
+  organizationId: string
+  /** Organization slug (for the draft preview link) */
+  organizationSlug: string
+  /** Whether the user may publish and approve publish requests (owner, admin) */
+  canPublish: boolean
+  /** Whether the user may send the draft for approval (manager) */
+  canRequestPublish: boolean
+}
+
+/**
+ * Badge label and color per change type
+ */
+const CHANGE_BADGES: Record<SnapshotChangeType, { label: string; className: string }> = {
+  added: {
+    label: 'Eklendi',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  },
+  removed: {
+    label: 'Kaldirildi',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  },
+  changed: {
+    label: 'Degisti',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  },
+}
+
+/**
+ * Format currency for display (Turkish Lira)
+ */
+function formatCurrency(amount: number, currency: string = 'TRY'): string {
+  return new Intl.NumberFormat('tr-TR', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+/**
+ * Describe a price change, e.g. "Buyuk: 85,00 TL → 95,00 TL"
+ */
+function describePrice(price: SnapshotPriceChange): string {
+  const label = price.variantName ? `${price.variantName}: ` : 'Fiyat: '
+  const from = price.from !== null ? formatCurrency(price.from, price.currency) : null
+  const to = price.to !== null ? formatCurrency(price.to, price.currency) : null
+
+  if (from && to) {
+    return `${label}${from} → ${to}`
+  }
+
+  return `${label}${to ?? `${from} (kaldirildi)`}`
+}
+
+/**
+ * Name of a category reference
+ */
+function describeCategory(category: SnapshotCategoryRef, emptyLabel: string): string {
+  return category.id ? category.name ?? 'Bilinmeyen kategori' : emptyLabel
+}
+
+/**
+ * Allergen labels for a list of codes
+ */
+function describeAllergens(codes: AllergenCode[]): string {
+  return codes.map((code) => getAllergen(code)?.label ?? code).join(', ')
+}
+
+/**
+ * Readable changelog of a menu diff.
+ *
+ * Lists changed categories and products with old → new values. Added items
+ * are new or re-shown, removed items are deleted or hidden.
+ */
+export function MenuChangelog({ diff }: MenuChangelogProps) {
+  const { summary } = diff
+
+  if (diff.products.length === 0 && diff.categories.length === 0) {
+    return (
+      <p className="text-sm text-secondary-500 dark:text-secondary-400">
+        Urun, fiyat veya kategori degisikligi yok.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-secondary-600 dark:text-secondary-400">
+        {summary.added} eklendi, {summary.removed} kaldirildi, {summary.changed} degisti
+        {summary.priceChanges > 0 && ` (${summary.priceChanges} fiyat degisikligi)`}
+      </p>
+
+      <ul className="divide-y divide-secondary-100 dark:divide-secondary-800">
+        {diff.categories.map((change) => (
+          <li key={`category-${change.categoryId}`} className="py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`rounded px-2 py-0.5 text-xs font-medium ${CHANGE_BADGES[change.type].className}`}>
+                {CHANGE_BADGES[change.type].label}
+              </span>
+              <span className="font-medium text-secondary-900 dark:text-secondary-100">
+                Kategori: {change.name}
+              </span>
+            </div>
+            <ul className="mt-1 space-y-0.5 pl-2 text-secondary-600 dark:text-secondary-400">
+              {change.rename && (
+                <li>Ad: {change.rename.from} → {change.rename.to}</li>
+              )}
+              {change.parent && (
+                <li>
+                  Ust kategori: {describeCategory(change.parent.from, 'Ana seviye')} →{' '}
+                  {describeCategory(change.parent.to, 'Ana seviye')}
+                </li>
+              )}
+            </ul>
+          </li>
+        ))}
+
+        {diff.products.map((change) => (
+          <li key={`product-${change.productId}`} className="py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`rounded px-2 py-0.5 text-xs font-medium ${CHANGE_BADGES[change.type].className}`}>
+                {CHANGE_BADGES[change.type].label}
+              </span>
+              <span className="font-medium text-secondary-900 dark:text-secondary-100">
+                {change.name}
+              </span>
+            </div>
+            <ul className="mt-1 space-y-0.5 pl-2 text-secondary-600 dark:text-secondary-400">
+              {change.type !== 'removed' &&
+                change.prices.map((price) => (
+                  <li key={price.variantId ?? 'base'}>{describePrice(price)}</li>
+                ))}
+              {change.rename && (
+                <li>Ad: {change.rename.from} → {change.rename.to}</li>
+              )}
+              {change.description && (
+                <li>
+                  Aciklama: {change.description.to ? `"${change.description.to}"` : 'kaldirildi'}
+                </li>
+              )}
+              {change.allergens && change.allergens.added.length > 0 && (
+                <li>Alerjen eklendi: {describeAllergens(change.allergens.added)}</li>
+              )}
+              {change.allergens && change.allergens.removed.length > 0 && (
+                <li>Alerjen kaldirildi: {describeAllergens(change.allergens.removed)}</li>
+              )}
+              {change.category && (
+                <li>
+                  Kategori: {describeCategory(change.category.from, 'Kategorisiz')} →{' '}
+                  {describeCategory(change.category.to, 'Kategorisiz')}
+                </li>
+              )}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Changes the next publish will make.
+ *
+ * Compares the latest published snapshot with the current menu and shows
+ * the changelog with a link to the draft preview. Owners and admins publish
+ * directly and approve or reject pending publish requests; managers send the
+ * draft for approval.
+ */
+export function UnpublishedChanges({
+  organizationId,
+  organizationSlug,
+  canPublish,
+  canRequestPublish,
+}: UnpublishedChangesProps) {
+  const [diff, setDiff] = useState<MenuSnapshotDiff | null>(null)
+  const [publishedVersion, setPublishedVersion] = useState<number | null>(null)
+  const [pendingRequest, setPendingRequest] = useState<MenuPublishRequest | null>(null)
+  const [note, setNote] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  /**
+   * Fetch the diff between the published and the current menu and the
+   * pending publish request
+   */
+  const fetchDiff = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const [diffResponse, requestsResponse] = await Promise.all([
+        fetch(`/api/menu/snapshot?organizationId=${organizationId}&diff=latest,draft`),
+        fetch(`/api/menu/publish-requests?organizationId=${organizationId}`),
+      ])
+      const result = await diffResponse.json()
+      const requests = await requestsResponse.json()
+
+      if (!result.success) {
+        setError(result.error || 'Degisiklikler yuklenemedi.')
+        return
+      }
+
+      setDiff(result.data.diff)
+      setPublishedVersion(result.data.from.version)
+      setPendingRequest(
+        requests.success
+          ? (requests.data as MenuPublishRequest[]).find((r) => r.status === 'pending') ?? null
+          : null
+      )
+    } catch {
+      setError('Degisiklikler yuklenemedi.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organizationId])
+
+  useEffect(() => {
+    fetchDiff()
+  }, [fetchDiff])
+
+  /**
+   * Send a request to a menu API, then refresh the diff
+   */
+  const submit = async (
+    url: string,
+    method: 'POST' | 'PATCH',
+    body: Record<string, unknown>,
+    describeSuccess: (data: { version?: number; snapshot?: { version: number } | null }) => string,
+    fallbackError: string
+  ) => {
+    setError(null)
+    setSuccess(null)
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || fallbackError)
+        return
+      }
+
+      setSuccess(describeSuccess(result.data))
+      setNote('')
+      await fetchDiff()
+    } catch {
+      setError(fallbackError)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Publish the current menu as a new snapshot
+   */
+  const handlePublish = () =>
+    submit(
+      '/api/menu/publish',
+      'POST',
+      { organizationId },
+      (data) => `Menu yayinlandi (v${data.version}).`,
+      'Menu yayinlanamadi.'
+    )
+
+  /**
+   * Send the current draft for approval
+   */
+  const handleRequest = () =>
+    submit(
+      '/api/menu/publish-requests',
+      'POST',
+      { organizationId, note },
+      () => 'Menu onaya gonderildi.',
+      'Yayin talebi gonderilemedi.'
+    )
+
+  /**
+   * Approve, reject or withdraw the pending request
+   */
+  const handleReview = (action: 'approve' | 'reject' | 'cancel') =>
+    pendingRequest &&
+    submit(
+      `/api/menu/publish-requests/${pendingRequest.id}`,
+      'PATCH',
+      { action, note },
+      (data) =>
+        action === 'approve'
+          ? `Talep onaylandi, menu yayinlandi (v${data.snapshot?.version}).`
+          : action === 'reject'
+            ? 'Yayin talebi reddedildi.'
+            : 'Yayin talebi geri cekildi.',
+      'Yayin talebi guncellenemedi.'
+    )
+
+  return (
+    <Card>
+      <CardHeader
+        title="Yayinlanmamis Degisiklikler"
+        subtitle={
+          publishedVersion
+            ? `Yayindaki menu (v${publishedVersion}) ile simdiki menu arasindaki farklar`
+            : 'Menu henuz yayinlanmadi; ilk yayinda tum menu yayina girer'
+        }
+        action={
+          <a
+            href={`/menu/${organizationSlug}/preview`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium text-primary-600 hover:underline dark:text-primary-400"
+          >
+            Onizle
+          </a>
+        }
+      />
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+            role="alert"
+          >
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700 dark:border-green-800 dark:bg-green-900/20 dark:text-green-400">
+            {success}
+          </div>
+        )}
+
+        {pendingRequest && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            Onay bekleyen yayin talebi ({new Date(pendingRequest.created_at).toLocaleString('tr-TR')})
+            {pendingRequest.note && <span className="block italic">&quot;{pendingRequest.note}&quot;</span>}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-16 animate-pulse rounded bg-secondary-100 dark:bg-secondary-800" />
+        ) : (
+          diff && <MenuChangelog diff={diff} />
+        )}
+
+        {(canPublish || canRequestPublish) && (
+          <div className="flex flex-wrap items-end justify-end gap-2">
+            {(pendingRequest || !canPublish) && (
+              <div className="min-w-[12rem] flex-1">
+                <Input
+                  label={pendingRequest ? 'Not (istege bagli)' : 'Onaylayana not (istege bagli)'}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
+            {canPublish && pendingRequest && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleReview('reject')}
+                  disabled={isLoading || isSubmitting}
+                >
+                  Reddet
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => handleReview('approve')}
+                  isLoading={isSubmitting}
+                  disabled={isLoading}
+                >
+                  Onayla ve Yayinla
+                </Button>
+              </>
+            )}
+
+            {canPublish && !pendingRequest && (
+              <Button
+                type="button"
+                onClick={handlePublish}
+                isLoading={isSubmitting}
+                disabled={isLoading}
+              >
+                Menuyu Yayinla
+              </Button>
+            )}
+
+            {!canPublish && pendingRequest && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleReview('cancel')}
+                isLoading={isSubmitting}
+                disabled={isLoading}
+              >
+                Talebi Geri Cek
+              </Button>
+            )}
+
+            {!canPublish && !pendingRequest && (
+              <Button
+                type="button"
+                onClick={handleRequest}
+                isLoading={isSubmitting}
+                disabled={isLoading}
+              >
+                Onaya Gonder
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import {
+  NUTRIENTS,
+  type NutrientKey,
+  type NutritionFacts,
+} from '@/lib/services/nutrition'
+
+/**
+ * Nutrition form state (raw input strings)
+ */
+export interface NutritionFormState {
+  portion_grams: string
+  per_portion: Record<NutrientKey, string>
+  per_100g: Record<NutrientKey, string>
+}
+
+export interface NutritionFieldsProps {
+  /** Current form state */
+  value: NutritionFormState
+  /** Callback with the updated form state */
+  onChange: (value: NutritionFormState) => void
+  /** Whether inputs are disabled */
+  disabled?: boolean
+}
+
+const emptyValues = (): Record<NutrientKey, string> => ({
+  kcal: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  sugar: '',
+  salt: '',
+})
+
+/**
+ * Create the form state from stored nutrition facts
+ */
+export function nutritionToForm(facts: NutritionFacts | null): NutritionFormState {
+  const form: NutritionFormState = {
+    portion_grams: facts?.portion_grams?.toString() ?? '',
+    per_portion: emptyValues(),
+    per_100g: emptyValues(),
+  }
+
+  for (const { key } of NUTRIENTS) {
+    form.per_portion[key] = facts?.per_portion[key]?.toString() ?? ''
+    form.per_100g[key] = facts?.per_100g[key]?.toString() ?? ''
+  }
+
+  return form
+}
+
+/**
+ * Convert the form state to nutrition facts (null when nothing is entered)
+ */
+export function formToNutrition(form: NutritionFormState): NutritionFacts | null {
+  const facts: NutritionFacts = {
+    portion_grams: form.portion_grams.trim() ? parseFloat(form.portion_grams) : null,
+    per_portion: {},
+    per_100g: {},
+  }
+
+  for (const { key } of NUTRIENTS) {
+    if (form.per_portion[key].trim()) facts.per_portion[key] = parseFloat(form.per_portion[key])
+    if (form.per_100g[key].trim()) facts.per_100g[key] = parseFloat(form.per_100g[key])
+  }
+
+  const isEmpty =
+    Object.keys(facts.per_portion).length === 0 && Object.keys(facts.per_100g).length === 0
+
+  return isEmpty ? null : facts
+}
+
+/**
+ * Nutrition facts inputs for the product create/edit pages.
+ *
+ * Values can be entered per portion, per 100 g or both; missing values are
+ * computed on the public menu when the portion weight is known.
+ */
+export function NutritionFields({ value, onChange, disabled = false }: NutritionFieldsProps) {
+  const handleValueChange = (
+    basis: 'per_portion' | 'per_100g',
+    key: NutrientKey,
+    input: string
+  ) => {
+    onChange({ ...value, [basis]: { ...value[basis], [key]: input } })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-secondary-200 p-4 dark:border-secondary-700">
+      <div>
+        <h3 className="text-sm font-medium text-secondary-900 dark:text-secondary-100">
+          Besin Degerleri
+        </h3>
+        <p className="text-xs text-secondary-500 dark:text-secondary-400">
+          Porsiyon veya 100 g icin girin; porsiyon agirligi biliniyorsa diger sutun hesaplanir
+        </p>
+      </div>
+
+      <div className="w-40">
+        <Input
+          label="Porsiyon (g)"
+          type="number"
+          value={value.portion_grams}
+          onChange={(e) => onChange({ ...value, portion_grams: e.target.value })}
+          min={0}
+          step={1}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2 text-sm">
+        <span />
+        <span className="text-xs font-medium text-secondary-500 dark:text-secondary-400">Porsiyon</span>
+        <span className="text-xs font-medium text-secondary-500 dark:text-secondary-400">100 g</span>
+        {NUTRIENTS.map((nutrient) => (
+          <div key={nutrient.key} className="contents">
+            <span className="text-secondary-700 dark:text-secondary-300">
+              {nutrient.label} ({nutrient.unit})
+            </span>
+            <Input
+              type="number"
+              value={value.per_portion[nutrient.key]}
+              onChange={(e) => handleValueChange('per_portion', nutrient.key, e.target.value)}
+              aria-label={`${nutrient.label} porsiyon`}
+              min={0}
+              step={0.1}
+              disabled={disabled}
+            />
+            <Input
+              type="number"
+              value={value.per_100g[nutrient.key]}
+              onChange={(e) => handleValueChange('per_100g', nutrient.key, e.target.value)}
+              aria-label={`${nutrient.label} 100 g`}
+              min={0}
+              step={0.1}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import type { PriceLedgerEntry } from '@/types/database'
+
+export interface ScheduledPricesProps {
+  /** Product UUID */
+  productId: string
+}
+
+/**
+ * Format currency for display (Turkish Lira)
+ */
+function formatCurrency(amount: number, currency: string = 'TRY'): string {
+  return new Intl.NumberFormat('tr-TR', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount)
+}
+
+/**
+ * Scheduled price changes of a product.
+ *
+ * Lists upcoming base price changes with a cancel action and schedules new
+ * ones. A scheduled price does not change the current price; the menu is
+ * published automatically when it takes effect.
+ */
+export function ScheduledPrices({ productId }: ScheduledPricesProps) {
+  const [entries, setEntries] = useState<PriceLedgerEntry[]>([])
+  const [price, setPrice] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState('')
+  const [changeReason, setChangeReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch pending scheduled prices
+   */
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/products/${productId}/price`)
+      const result = await response.json()
+      if (result.success) {
+        setEntries((result.data as PriceLedgerEntry[]).filter((entry) => !entry.variant_id))
+      }
+    } catch {
+      // List stays empty
+    }
+  }, [productId])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  /**
+   * Schedule a new price
+   */
+  const handleSchedule = async () => {
+    const newPrice = parseFloat(price)
+    const effectiveDate = effectiveFrom ? new Date(effectiveFrom) : null
+
+    if (isNaN(newPrice) || newPrice < 0) {
+      setError('Gecerli bir fiyat girin.')
+      return
+    }
+
+    if (!effectiveDate || effectiveDate.getTime() <= Date.now()) {
+      setError('Planlanan fiyat icin ileri bir tarih secin.')
+      return
+    }
+
+    if (!changeReason.trim()) {
+      setError('Fiyat degisikligi icin neden girmelisiniz.')
+      return
+    }
+
+    setError(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/products/${productId}/price`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          price: newPrice,
+          changeReason: changeReason.trim(),
+          effectiveFrom: effectiveDate.toISOString(),
+        }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Fiyat planlanamadi.')
+        return
+      }
+
+      setPrice('')
+      setEffectiveFrom('')
+      setChangeReason('')
+      await fetchEntries()
+    } catch {
+      setError('Fiyat planlanamadi.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Cancel a scheduled price before it takes effect
+   */
+  const handleCancel = async (entryId: string) => {
+    setError(null)
+    setCancellingId(entryId)
+
+    try {
+      const response = await fetch(`/api/products/${productId}/price/${entryId}`, {
+        method: 'DELETE',
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Planlanan fiyat iptal edilemedi.')
+        return
+      }
+
+      await fetchEntries()
+    } catch {
+      setError('Planlanan fiyat iptal edilemedi.')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title="Planlanan Fiyatlar"
+        subtitle="Ileri tarihte gecerli olacak fiyat degisiklikleri; zamani gelince menu otomatik yayinlanir"
+      />
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+            role="alert"
+          >
+            {error}
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-secondary-500 dark:text-secondary-400">
+            Planlanmis fiyat degisikligi yok.
+          </p>
+        ) : (
+          <ul className="divide-y divide-secondary-100 dark:divide-secondary-800">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-center gap-3 py-2 text-sm">
+                <div className="flex-1">
+                  <p className="font-medium text-secondary-900 dark:text-secondary-100">
+                    {formatCurrency(entry.price, entry.currency)}
+                  </p>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    {new Date(entry.effective_from as string).toLocaleString('tr-TR')}
+                    {entry.change_reason ? ` - ${entry.change_reason}` : ''}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancel(entry.id)}
+                  isLoading={cancellingId === entry.id}
+                  disabled={cancellingId !== null}
+                >
+                  Iptal Et
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid gap-3 border-t border-secondary-200 pt-4 sm:grid-cols-3 dark:border-secondary-700">
+          <Input
+            label="Yeni Fiyat (TRY)"
+            type="number"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="0.00"
+            min={0}
+            step={0.01}
+            disabled={isSaving}
+          />
+          <Input
+            label="Gecerlilik Baslangici"
+            type="datetime-local"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            disabled={isSaving}
+          />
+          <Input
+            label="Degisiklik Nedeni"
+            value={changeReason}
+            onChange={(e) => setChangeReason(e.target.value)}
+            placeholder="Orn: Aylik fiyat guncellemesi"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleSchedule} isLoading={isSaving}>
+            Fiyati Planla
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
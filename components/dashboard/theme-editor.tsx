@@ -0,0 +1,255 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  DEFAULT_MENU_THEME,
+  MENU_FONTS,
+  THEME_LIMITS,
+  buildThemeVariables,
+  validateMenuTheme,
+} from '@/lib/services/theme'
+import type { MenuTheme } from '@/types'
+
+export interface ThemeEditorProps {
+  /** Organization UUID */
+  organizationId: string
+  /** Organization name shown in the preview */
+  organizationName: string
+  /** Whether the user can save the theme (owner/admin) */
+  canEdit: boolean
+}
+
+/**
+ * Color fields of the theme editor
+ */
+const COLOR_FIELDS: Array<{ key: keyof MenuTheme; label: string }> = [
+  { key: 'primaryColor', label: 'Ana Renk' },
+  { key: 'secondaryColor', label: 'Ikincil Renk' },
+  { key: 'backgroundColor', label: 'Arka Plan' },
+  { key: 'textColor', label: 'Metin' },
+]
+
+/**
+ * Public menu theme editor with a live preview.
+ *
+ * The theme is saved to organizations.settings and reaches the public menu
+ * with the next menu publish.
+ */
+export function ThemeEditor({ organizationId, organizationName, canEdit }: ThemeEditorProps) {
+  const [theme, setTheme] = useState<MenuTheme>(DEFAULT_MENU_THEME)
+  const [isEnabled, setIsEnabled] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  /**
+   * Fetch the saved theme and module status
+   */
+  const fetchTheme = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/theme?organizationId=${organizationId}`)
+      const result = await response.json()
+      if (result.success) {
+        setTheme(result.data.theme ?? DEFAULT_MENU_THEME)
+        setIsEnabled(result.data.enabled)
+      }
+    } catch {
+      // Theme editor stays on the default theme
+    }
+  }, [organizationId])
+
+  useEffect(() => {
+    fetchTheme()
+  }, [fetchTheme])
+
+  const handleChange = <K extends keyof MenuTheme>(key: K, value: MenuTheme[K]) => {
+    setTheme((prev) => ({ ...prev, [key]: value }))
+    setSuccess(null)
+  }
+
+  /**
+   * Save the theme (null resets to the default look)
+   */
+  const saveTheme = async (next: MenuTheme | null) => {
+    if (next) {
+      const validationError = validateMenuTheme(next)
+      if (validationError) {
+        setError(validationError)
+        return
+      }
+    }
+
+    setError(null)
+    setSuccess(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/theme', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, theme: next }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Tema kaydedilirken bir hata olustu.')
+        return
+      }
+
+      setTheme(result.data.theme ?? DEFAULT_MENU_THEME)
+      setSuccess('Tema kaydedildi. Degisiklikler menu yayinlandiginda gorunur.')
+    } catch {
+      setError('Tema kaydedilirken bir hata olustu.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isDisabled = !canEdit || !isEnabled || isSaving
+
+  return (
+    <Card className="mt-6">
+      <CardHeader
+        title="Menu Temasi"
+        subtitle="Renkleri, yazi tipini, kose ve bosluk degerlerini secin"
+      />
+      <CardContent>
+        {!isEnabled && (
+          <p className="mb-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+            Tema ozelligi paketinizde bulunmuyor. Menu varsayilan tema ile gorunur.
+          </p>
+        )}
+        {error && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+        {success && (
+          <p className="mb-4 text-sm text-green-600 dark:text-green-400" role="status">
+            {success}
+          </p>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Controls */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {COLOR_FIELDS.map((field) => (
+                <label key={field.key} className="block">
+                  <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                    {field.label}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={theme[field.key] as string}
+                      onChange={(e) => handleChange(field.key, e.target.value)}
+                      disabled={isDisabled}
+                      className="h-9 w-12 cursor-pointer rounded border border-secondary-300 bg-white p-0.5 disabled:cursor-not-allowed dark:border-secondary-600"
+                    />
+                    <span className="font-mono text-xs text-secondary-500 dark:text-secondary-400">
+                      {theme[field.key]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Yazi Tipi
+              </span>
+              <select
+                value={theme.fontFamily}
+                onChange={(e) => handleChange('fontFamily', e.target.value)}
+                disabled={isDisabled}
+                className="w-full rounded-lg border border-secondary-300 bg-white px-3 py-2 text-secondary-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 dark:border-secondary-600 dark:bg-secondary-800 dark:text-secondary-100"
+              >
+                {MENU_FONTS.map((font) => (
+                  <option key={font.key} value={font.key}>
+                    {font.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Kose Yuvarlakligi ({theme.borderRadius} px)
+              </span>
+              <input
+                type="range"
+                min={THEME_LIMITS.borderRadius.min}
+                max={THEME_LIMITS.borderRadius.max}
+                value={theme.borderRadius}
+                onChange={(e) => handleChange('borderRadius', Number(e.target.value))}
+                disabled={isDisabled}
+                className="w-full accent-primary-600"
+              />
+            </label>
+
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+                Bosluk ({theme.spacing} px)
+              </span>
+              <input
+                type="range"
+                min={THEME_LIMITS.spacing.min}
+                max={THEME_LIMITS.spacing.max}
+                value={theme.spacing}
+                onChange={(e) => handleChange('spacing', Number(e.target.value))}
+                disabled={isDisabled}
+                className="w-full accent-primary-600"
+              />
+            </label>
+          </div>
+
+          {/* Live preview */}
+          <div>
+            <span className="mb-1 block text-sm font-medium text-secondary-700 dark:text-secondary-300">
+              Onizleme
+            </span>
+            <div
+              style={buildThemeVariables(theme)}
+              className="rounded-lg border border-secondary-200 bg-[var(--menu-background)] p-4 font-[family-name:var(--menu-font)] text-[color:var(--menu-text)] dark:border-secondary-700"
+            >
+              <p className="text-lg font-bold">{organizationName}</p>
+              <h4 className="mt-3 border-b-2 border-[color:var(--menu-primary)] pb-1 font-semibold">
+                Ana Yemekler
+              </h4>
+              <div className="mt-3 flex justify-between gap-2 rounded-[var(--menu-radius)] bg-white p-[var(--menu-spacing)] shadow-sm">
+                <div>
+                  <p className="font-medium">Izgara Kofte</p>
+                  <p className="text-sm text-[color:var(--menu-secondary)]">
+                    Pilav ve kozlenmis biber ile
+                  </p>
+                </div>
+                <span className="font-semibold text-[color:var(--menu-primary)]">₺320,00</span>
+              </div>
+              <span className="mt-3 inline-block rounded-full bg-[var(--menu-primary)] px-3 py-1 text-xs font-medium text-white">
+                500 kcal alti
+              </span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+      {canEdit && isEnabled && (
+        <CardFooter align="between">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => saveTheme(null)}
+            disabled={isSaving}
+          >
+            Varsayilana Don
+          </Button>
+          <Button type="button" onClick={() => saveTheme(theme)} isLoading={isSaving}>
+            Temayi Kaydet
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the regulated allergen catalog
+ *
+ * Verifies:
+ * 1. The 14 regulated allergens are in the catalog
+ * 2. Free-text values are mapped to catalog codes
+ * 3. Guest filter parsing and matching
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  ALLERGENS,
+  isAllergenCode,
+  getAllergen,
+  normalizeAllergens,
+  getUnknownAllergens,
+  parseAllergenFilter,
+  getAllergenMatches,
+} from '../services/allergens'
+
+describe('Allergen Catalog', () => {
+  it('should contain the 14 regulated allergens with labels and icons', () => {
+    expect(ALLERGENS).toHaveLength(14)
+    expect(new Set(ALLERGENS.map((a) => a.code)).size).toBe(14)
+    expect(ALLERGENS.every((a) => a.label && a.icon)).toBe(true)
+  })
+
+  it('should recognize catalog codes', () => {
+    expect(isAllergenCode('sesame')).toBe(true)
+    expect(isAllergenCode('Susam')).toBe(false)
+    expect(isAllergenCode(7)).toBe(false)
+    expect(getAllergen('milk')?.label).toBe('Süt')
+  })
+
+  describe('normalizeAllergens', () => {
+    it('should map codes, labels and aliases to codes in catalog order', () => {
+      expect(normalizeAllergens(['Süt', 'gluten', ' FINDIK ', 'Yer fıstığı'])).toEqual([
+        'gluten',
+        'peanuts',
+        'milk',
+        'nuts',
+      ])
+    })
+
+    it('should map values typed without Turkish characters', () => {
+      expect(normalizeAllergens(['sut', 'fistik', 'balik'])).toEqual(['fish', 'peanuts', 'milk'])
+    })
+
+    it('should drop duplicates and unknown values', () => {
+      expect(normalizeAllergens(['dairy', 'milk', 'acı', 42])).toEqual(['milk'])
+    })
+
+    it('should return an empty array for missing values', () => {
+      expect(normalizeAllergens(null)).toEqual([])
+      expect(normalizeAllergens('gluten')).toEqual([])
+    })
+  })
+
+  it('should list values outside the catalog', () => {
+    expect(getUnknownAllergens(['Süt', 'acı', ' ', 'mantar'])).toEqual(['acı', 'mantar'])
+    expect(getUnknownAllergens(null)).toEqual([])
+  })
+
+  describe('guest filter', () => {
+    it('should parse valid codes from the query string', () => {
+      expect(parseAllergenFilter('milk,gluten,unknown')).toEqual(['gluten', 'milk'])
+      expect(parseAllergenFilter('')).toEqual([])
+      expect(parseAllergenFilter(undefined)).toEqual([])
+    })
+
+    it('should find the selected allergens a product contains', () => {
+      expect(getAllergenMatches(['gluten', 'eggs', 'milk'], ['milk', 'nuts'])).toEqual(['milk'])
+      expect(getAllergenMatches(null, ['milk'])).toEqual([])
+      expect(getAllergenMatches(['gluten'], [])).toEqual([])
+    })
+  })
+})
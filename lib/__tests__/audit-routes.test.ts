@@ -0,0 +1,411 @@
+/**
+ * Route tests for the audit trail
+ *
+ * Calls the API route handlers and checks the audit_logs row each one writes
+ * with the service role:
+ * 1. create / delete - POST and DELETE /api/languages
+ * 2. update / deactivate - PUT and DELETE /api/price-rules/[id] (updates keep
+ *    only the changed fields)
+ * 3. publish - POST /api/menu/publish (no previous version for v1)
+ * 4. price_change - POST /api/products/[id]/price
+ * 5. export - GET /api/price-ledger/report
+ * 6. Failed changes write no entry
+ *
+ * Changes made from dashboard pages are recorded by the audit_row_change
+ * triggers (027); see supabase/tests/audit_triggers.test.sql.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const ORG_ID = '11111111-1111-4111-8111-111111111111'
+const RULE_ID = '22222222-2222-4222-8222-222222222222'
+const PRODUCT_ID = '33333333-3333-4333-8333-333333333333'
+const USER_ID = 'user-1'
+const GENESIS_HASH = '0'.repeat(64)
+
+type Row = Record<string, unknown>
+
+// Rows the session client returns per table; single() returns the first one
+let tables: Record<string, Row[]>
+// Rows inserted with the service role per table
+let inserted: Record<string, Row[]>
+
+const createQueryBuilder = (rows: Row[]) => {
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    eq: vi.fn(() => queryBuilder),
+    in: vi.fn(() => queryBuilder),
+    order: vi.fn(() => queryBuilder),
+    limit: vi.fn(() => queryBuilder),
+    single: vi.fn(() =>
+      Promise.resolve(
+        rows[0] ? { data: rows[0], error: null } : { data: null, error: { message: 'not found' } }
+      )
+    ),
+    maybeSingle: vi.fn(() => Promise.resolve({ data: rows[0] ?? null, error: null })),
+    then: (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null }),
+  }
+
+  return queryBuilder
+}
+
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(() => Promise.resolve({ data: { user: { id: USER_ID } }, error: null })),
+  },
+  from: vi.fn((table: string) => createQueryBuilder(tables[table] ?? [])),
+}
+
+const mockAdminClient = {
+  from: vi.fn((table: string) => ({
+    insert: vi.fn((rows: Row | Row[]) => {
+      const list = Array.isArray(rows) ? rows : [rows]
+      inserted[table] = [...(inserted[table] ?? []), ...list]
+
+      const data = list.map((row, index) => ({
+        id: `${table}-${index + 1}`,
+        created_at: '2026-10-18T09:00:00.000Z',
+        ...row,
+      }))
+      const result = { data: Array.isArray(rows) ? data : data[0], error: null }
+
+      return {
+        select: vi.fn(() => ({
+          single: vi.fn(() => Promise.resolve(result)),
+          then: (resolve: (value: unknown) => unknown) => resolve(result),
+        })),
+        then: (resolve: (value: unknown) => unknown) => resolve({ error: null }),
+      }
+    }),
+  })),
+}
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn(() => Promise.resolve({ getAll: () => [], set: vi.fn() })),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: vi.fn(() => mockSupabaseClient),
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceRoleSupabaseClient: vi.fn(() => mockAdminClient),
+}))
+
+vi.mock('@/lib/guards/permission', () => ({
+  hasPermission: vi.fn(() => Promise.resolve(true)),
+}))
+
+vi.mock('@/lib/guards/limits', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/guards/limits')>()),
+  checkPriceRevisionLimit: vi.fn(() => Promise.resolve({ canAdd: true, message: '' })),
+}))
+
+vi.mock('@/lib/services/translation', () => ({
+  getOrganizationLanguages: vi.fn(),
+  addOrganizationLanguage: vi.fn(),
+  removeOrganizationLanguage: vi.fn(),
+}))
+
+vi.mock('@/lib/services/happy-hour', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/happy-hour')>()),
+  updatePriceRule: vi.fn(),
+  deactivatePriceRule: vi.fn(),
+}))
+
+vi.mock('@/lib/services/snapshot', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/snapshot')>()),
+  createMenuSnapshot: vi.fn(),
+  publishPriceChanges: vi.fn(() => Promise.resolve({ success: true })),
+}))
+
+vi.mock('@/lib/services/price-report', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/price-report')>()),
+  getPriceReport: vi.fn(),
+}))
+
+import { addOrganizationLanguage, removeOrganizationLanguage } from '@/lib/services/translation'
+import { updatePriceRule, deactivatePriceRule } from '@/lib/services/happy-hour'
+import { createMenuSnapshot } from '@/lib/services/snapshot'
+import { getPriceReport } from '@/lib/services/price-report'
+import { POST as addLanguage, DELETE as removeLanguage } from '@/app/api/languages/route'
+import { PUT as updateRule, DELETE as deactivateRule } from '@/app/api/price-rules/[id]/route'
+import { POST as publishMenu } from '@/app/api/menu/publish/route'
+import { POST as changePrice } from '@/app/api/products/[id]/price/route'
+import { GET as downloadReport } from '@/app/api/price-ledger/report/route'
+
+const createRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(`http://localhost${url}`, {
+    method,
+    headers: {
+      'content-type': 'application/json',
+      'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+      'user-agent': 'vitest',
+    },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  })
+
+const rule = {
+  id: RULE_ID,
+  organization_id: ORG_ID,
+  name: 'Happy hour',
+  product_id: PRODUCT_ID,
+  category_id: null,
+  discount_type: 'percentage',
+  discount_value: 20,
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '16:00',
+  end_time: '18:00',
+  is_active: true,
+}
+
+const ruleBody = {
+  name: 'Happy hour',
+  productId: PRODUCT_ID,
+  discountType: 'percentage',
+  discountValue: 25,
+  daysOfWeek: [1, 2, 3, 4, 5],
+  startTime: '16:00',
+  endTime: '18:00',
+}
+
+describe('Audit trail of API routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    inserted = {}
+    tables = {
+      organization_members: [{ role: 'owner' }],
+      organizations: [{ id: ORG_ID, slug: 'test-cafe', is_active: true }],
+      price_rules: [{ ...rule, organizations: { slug: 'test-cafe' } }],
+      products: [{ id: PRODUCT_ID, organization_id: ORG_ID }],
+      current_prices: [{ product_id: PRODUCT_ID, price: 85, currency: 'TRY' }],
+    }
+  })
+
+  it('should record create when a language is added', async () => {
+    vi.mocked(addOrganizationLanguage).mockResolvedValue({ success: true })
+
+    const response = await addLanguage(
+      createRequest('/api/languages', 'POST', { organizationId: ORG_ID, locale: 'EN' })
+    )
+
+    expect(response.status).toBe(201)
+    expect(inserted.audit_logs).toEqual([
+      {
+        organization_id: ORG_ID,
+        user_id: USER_ID,
+        action: 'create',
+        entity_type: 'organization_language',
+        entity_id: null,
+        old_data: null,
+        new_data: { locale: 'en' },
+        ip_address: '203.0.113.7',
+        user_agent: 'vitest',
+        metadata: {},
+      },
+    ])
+  })
+
+  it('should record delete when a language is removed', async () => {
+    vi.mocked(removeOrganizationLanguage).mockResolvedValue({ success: true })
+
+    const response = await removeLanguage(
+      createRequest(`/api/languages?organizationId=${ORG_ID}&locale=en`, 'DELETE')
+    )
+
+    expect(response.status).toBe(200)
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'delete',
+        entity_type: 'organization_language',
+        old_data: { locale: 'en' },
+        new_data: null,
+      }),
+    ])
+  })
+
+  it('should record only the changed fields of an update', async () => {
+    vi.mocked(updatePriceRule).mockResolvedValue({
+      success: true,
+      data: { ...rule, discount_value: 25 } as never,
+    })
+
+    const response = await updateRule(createRequest(`/api/price-rules/${RULE_ID}`, 'PUT', ruleBody), {
+      params: Promise.resolve({ id: RULE_ID }),
+    })
+
+    expect(response.status).toBe(200)
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'update',
+        entity_type: 'price_rule',
+        entity_id: RULE_ID,
+        old_data: { discount_value: 20 },
+        new_data: { discount_value: 25 },
+        ip_address: '203.0.113.7',
+      }),
+    ])
+  })
+
+  it('should record deactivate when a rule is switched off', async () => {
+    vi.mocked(deactivatePriceRule).mockResolvedValue({
+      success: true,
+      data: { ...rule, is_active: false } as never,
+    })
+
+    const response = await deactivateRule(createRequest(`/api/price-rules/${RULE_ID}`, 'DELETE'), {
+      params: Promise.resolve({ id: RULE_ID }),
+    })
+
+    expect(response.status).toBe(200)
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'deactivate',
+        entity_type: 'price_rule',
+        entity_id: RULE_ID,
+        old_data: expect.objectContaining({ is_active: true }),
+        new_data: expect.objectContaining({ is_active: false }),
+      }),
+    ])
+  })
+
+  it('should record publish with the previous version', async () => {
+    vi.mocked(createMenuSnapshot).mockResolvedValue({
+      success: true,
+      data: {
+        id: 'snapshot-4',
+        organization_id: ORG_ID,
+        snapshot_data: {},
+        hash: 'b'.repeat(64),
+        previous_hash: 'a'.repeat(64),
+        hash_algorithm: 'sha256-canonical-v2',
+        version: 4,
+        created_at: '2026-10-18T09:00:00.000Z',
+      },
+    })
+
+    const response = await publishMenu(
+      createRequest('/api/menu/publish', 'POST', { organizationId: ORG_ID })
+    )
+
+    expect(response.status).toBe(200)
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'publish',
+        entity_type: 'menu_snapshot',
+        entity_id: 'snapshot-4',
+        old_data: { version: 3, hash: 'a'.repeat(64) },
+        new_data: { version: 4, hash: 'b'.repeat(64) },
+      }),
+    ])
+  })
+
+  it('should record the first publish without a previous version', async () => {
+    vi.mocked(createMenuSnapshot).mockResolvedValue({
+      success: true,
+      data: {
+        id: 'snapshot-1',
+        organization_id: ORG_ID,
+        snapshot_data: {},
+        hash: 'c'.repeat(64),
+        previous_hash: GENESIS_HASH,
+        hash_algorithm: 'sha256-canonical-v2',
+        version: 1,
+        created_at: '2026-10-18T09:00:00.000Z',
+      },
+    })
+
+    await publishMenu(createRequest('/api/menu/publish', 'POST', { organizationId: ORG_ID }))
+
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'publish',
+        old_data: null,
+        new_data: { version: 1, hash: 'c'.repeat(64) },
+      }),
+    ])
+  })
+
+  it('should record price_change with the ledger entry', async () => {
+    const response = await changePrice(
+      createRequest(`/api/products/${PRODUCT_ID}/price`, 'POST', {
+        price: 95,
+        changeReason: 'Tedarikci zammi',
+      }),
+      { params: Promise.resolve({ id: PRODUCT_ID }) }
+    )
+
+    expect(response.status).toBe(201)
+    expect(inserted.price_ledger).toHaveLength(1)
+    expect(inserted.audit_logs).toEqual([
+      {
+        organization_id: ORG_ID,
+        user_id: USER_ID,
+        action: 'price_change',
+        entity_type: 'product',
+        entity_id: PRODUCT_ID,
+        old_data: { price: 85, currency: 'TRY' },
+        new_data: { price: 95, currency: 'TRY' },
+        ip_address: '203.0.113.7',
+        user_agent: 'vitest',
+        metadata: {
+          change_reason: 'Tedarikci zammi',
+          price_ledger_id: 'price_ledger-1',
+        },
+      },
+    ])
+  })
+
+  it('should record export when the price report is downloaded', async () => {
+    vi.mocked(getPriceReport).mockResolvedValue({
+      success: true,
+      data: {
+        report: {
+          organizationName: 'Test Cafe',
+          startDate: '2026-10-01',
+          endDate: '2026-10-18',
+          generatedAt: '2026-10-18T09:00:00.000Z',
+          rows: [],
+        } as never,
+        hash: 'd'.repeat(64),
+      },
+    })
+
+    const response = await downloadReport(
+      createRequest(
+        `/api/price-ledger/report?organizationId=${ORG_ID}&startDate=2026-10-01&endDate=2026-10-18&format=json`,
+        'GET'
+      )
+    )
+
+    expect(response.status).toBe(200)
+    expect(inserted.audit_logs).toEqual([
+      expect.objectContaining({
+        action: 'export',
+        entity_type: 'price_ledger',
+        metadata: expect.objectContaining({
+          format: 'json',
+          row_count: 0,
+          report_hash: 'd'.repeat(64),
+        }),
+      }),
+    ])
+  })
+
+  it('should write no entry when the change fails', async () => {
+    vi.mocked(updatePriceRule).mockResolvedValue({ success: false, error: 'Gecersiz kural' })
+
+    const response = await updateRule(createRequest(`/api/price-rules/${RULE_ID}`, 'PUT', ruleBody), {
+      params: Promise.resolve({ id: RULE_ID }),
+    })
+
+    expect(response.status).toBe(400)
+    expect(inserted.audit_logs).toBeUndefined()
+  })
+})
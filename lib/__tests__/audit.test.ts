@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the shared audit writer
+ *
+ * Verifies:
+ * 1. Updates are reduced to the changed fields, creates and deletes keep the full row
+ * 2. Each create/update/delete/publish/admin action lands in audit_logs with
+ *    the IP address and user agent of the request
+ * 3. Updates that changed nothing are not recorded
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const ORG_ID = '11111111-1111-4111-8111-111111111111'
+const ENTITY_ID = '22222222-2222-4222-8222-222222222222'
+const USER_ID = 'user-1'
+
+let auditRows: Array<Record<string, unknown>>
+let insertError: { message: string } | null
+let hasServiceRole: boolean
+
+const mockAdminClient = {
+  from: vi.fn(() => ({
+    insert: vi.fn((row: Record<string, unknown>) => {
+      if (!insertError) {
+        auditRows.push(row)
+      }
+      return Promise.resolve({ error: insertError })
+    }),
+  })),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+  createServiceRoleSupabaseClient: vi.fn(() => (hasServiceRole ? mockAdminClient : null)),
+}))
+
+import { diffAuditData, writeAuditLog, type AuditEntry } from '../services/audit'
+
+const createRequest = () =>
+  new Request('http://localhost/api/products', {
+    method: 'POST',
+    headers: {
+      'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+      'user-agent': 'vitest',
+    },
+  })
+
+describe('Audit log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    auditRows = []
+    insertError = null
+    hasServiceRole = true
+  })
+
+  describe('diffAuditData', () => {
+    it('should keep only the changed fields of an update', () => {
+      expect(
+        diffAuditData(
+          { name: 'Latte', is_visible: true, updated_at: '2026-10-01' },
+          { name: 'Latte', is_visible: false, updated_at: '2026-10-18' }
+        )
+      ).toEqual({ oldData: { is_visible: true }, newData: { is_visible: false } })
+    })
+
+    it('should ignore key order in nested values', () => {
+      expect(
+        diffAuditData(
+          { settings: { theme: 'dark', currency: 'TRY' } },
+          { settings: { currency: 'TRY', theme: 'dark' } }
+        )
+      ).toEqual({ oldData: {}, newData: {} })
+    })
+
+    it('should record added and removed fields as null on the other side', () => {
+      expect(diffAuditData({ note: 'a' }, { review_note: 'b' })).toEqual({
+        oldData: { note: 'a', review_note: null },
+        newData: { note: null, review_note: 'b' },
+      })
+    })
+
+    it('should return creates and deletes unchanged', () => {
+      expect(diffAuditData(null, { name: 'Latte' })).toEqual({
+        oldData: null,
+        newData: { name: 'Latte' },
+      })
+      expect(diffAuditData({ name: 'Latte' }, undefined)).toEqual({
+        oldData: { name: 'Latte' },
+        newData: null,
+      })
+    })
+  })
+
+  describe('writeAuditLog', () => {
+    const request = createRequest()
+
+    it.each<[string, Omit<AuditEntry, 'userId' | 'request'>]>([
+      [
+        'product create',
+        {
+          organizationId: ORG_ID,
+          action: 'create',
+          entityType: 'product',
+          entityId: ENTITY_ID,
+          newData: { name: 'Latte' },
+        },
+      ],
+      [
+        'category delete',
+        {
+          organizationId: ORG_ID,
+          action: 'delete',
+          entityType: 'category',
+          entityId: ENTITY_ID,
+          oldData: { name: 'Drinks' },
+        },
+      ],
+      [
+        'location create',
+        {
+          organizationId: ORG_ID,
+          action: 'create',
+          entityType: 'organization',
+          entityId: ORG_ID,
+          newData: { name: 'Branch' },
+        },
+      ],
+      [
+        'menu publish',
+        {
+          organizationId: ORG_ID,
+          action: 'publish',
+          entityType: 'menu_snapshot',
+          entityId: ENTITY_ID,
+          newData: { version: 2 },
+        },
+      ],
+      [
+        'override add',
+        {
+          organizationId: ORG_ID,
+          action: 'override_add',
+          entityType: 'feature_override',
+          newData: { value_limit: 10 },
+        },
+      ],
+      [
+        'plan change',
+        {
+          organizationId: ORG_ID,
+          action: 'plan_change',
+          entityType: 'subscription',
+          oldData: { plan: 'free' },
+          newData: { plan: 'pro' },
+        },
+      ],
+      [
+        'platform plan activation',
+        {
+          organizationId: null,
+          action: 'activate',
+          entityType: 'plan',
+          entityId: ENTITY_ID,
+          newData: { is_active: true },
+        },
+      ],
+    ])('should record a %s', async (_name, entry) => {
+      const result = await writeAuditLog({ ...entry, userId: USER_ID, request })
+
+      expect(result.success).toBe(true)
+      expect(auditRows).toEqual([
+        {
+          organization_id: entry.organizationId,
+          user_id: USER_ID,
+          action: entry.action,
+          entity_type: entry.entityType,
+          entity_id: entry.entityId ?? null,
+          old_data: entry.oldData ?? null,
+          new_data: entry.newData ?? null,
+          ip_address: '203.0.113.7',
+          user_agent: 'vitest',
+          metadata: {},
+        },
+      ])
+    })
+
+    it('should record an update with only the changed fields', async () => {
+      await writeAuditLog({
+        organizationId: ORG_ID,
+        userId: USER_ID,
+        action: 'update',
+        entityType: 'restaurant_table',
+        entityId: ENTITY_ID,
+        oldData: { table_number: '4', current_status: 'empty' },
+        newData: { table_number: '4', current_status: 'occupied' },
+      })
+
+      expect(auditRows).toHaveLength(1)
+      expect(auditRows[0].old_data).toEqual({ current_status: 'empty' })
+      expect(auditRows[0].new_data).toEqual({ current_status: 'occupied' })
+      expect(auditRows[0]).not.toHaveProperty('ip_address')
+    })
+
+    it('should not record an update that changed nothing', async () => {
+      const result = await writeAuditLog({
+        organizationId: ORG_ID,
+        userId: USER_ID,
+        action: 'update',
+        entityType: 'organization',
+        entityId: ORG_ID,
+        oldData: { name: 'Cafe', updated_at: '2026-10-01' },
+        newData: { name: 'Cafe', updated_at: '2026-10-18' },
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockAdminClient.from).not.toHaveBeenCalled()
+    })
+
+    it('should fail without the service role client', async () => {
+      hasServiceRole = false
+
+      const result = await writeAuditLog({
+        organizationId: ORG_ID,
+        userId: USER_ID,
+        action: 'delete',
+        entityType: 'product',
+        entityId: ENTITY_ID,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Denetim kaydı için sunucu yapılandırması eksik')
+    })
+
+    it('should return the insert error', async () => {
+      insertError = { message: 'insert failed' }
+
+      const result = await writeAuditLog({
+        organizationId: ORG_ID,
+        userId: USER_ID,
+        action: 'create',
+        entityType: 'product',
+      })
+
+      expect(result).toEqual({ success: false, error: 'insert failed' })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for chef's recommendation and daily special badges
+ *
+ * Verifies:
+ * 1. Badge schedules (date range, daily and weekly) in Europe/Istanbul time
+ * 2. Automatic expiry after the end date
+ * 3. Featured sorting and snapshot building
+ * 4. Badge input validation
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock the Supabase server client (not used by the pure functions under test)
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+}))
+
+import {
+  isBadgeActive,
+  getActiveBadges,
+  sortFeaturedFirst,
+  buildBadgeWindows,
+  validateBadgeInput,
+  type BadgeWindow,
+} from '../services/badges'
+import type { ProductBadge, ProductBadgeType } from '@/types/database'
+
+// Saturday 2026-10-17 12:00 Istanbul (UTC+3)
+const SATURDAY_NOON = new Date('2026-10-17T09:00:00.000Z')
+
+const dailyWindow: BadgeWindow = {
+  badge_id: 'badge-1',
+  type: 'daily_special',
+  days_of_week: [1, 2, 3, 4, 5, 6, 7],
+  starts_on: '2026-10-17',
+  ends_on: '2026-10-17',
+}
+
+describe('Product Badges', () => {
+  describe('isBadgeActive', () => {
+    it('should show a badge within its date range', () => {
+      expect(isBadgeActive(dailyWindow, SATURDAY_NOON)).toBe(true)
+    })
+
+    it("should expire yesterday's special without a republish", () => {
+      const sundayMorning = new Date('2026-10-18T06:00:00.000Z')
+
+      expect(isBadgeActive(dailyWindow, sundayMorning)).toBe(false)
+    })
+
+    it('should use the Istanbul calendar date', () => {
+      // 2026-10-17 21:30 UTC is already Sunday 00:30 in Istanbul
+      expect(isBadgeActive(dailyWindow, new Date('2026-10-17T21:30:00.000Z'))).toBe(false)
+    })
+
+    it('should only show weekly badges on their weekdays', () => {
+      const weekdays = { ...dailyWindow, days_of_week: [1, 2, 3, 4, 5], ends_on: null }
+
+      expect(isBadgeActive(weekdays, SATURDAY_NOON)).toBe(false)
+      expect(isBadgeActive({ ...weekdays, days_of_week: [6, 7] }, SATURDAY_NOON)).toBe(true)
+    })
+
+    it('should not show a badge before its start date', () => {
+      expect(
+        isBadgeActive({ ...dailyWindow, starts_on: '2026-10-18', ends_on: null }, SATURDAY_NOON)
+      ).toBe(false)
+    })
+  })
+
+  describe('getActiveBadges', () => {
+    it('should list active badge types once, chef recommendation first', () => {
+      const windows: BadgeWindow[] = [
+        dailyWindow,
+        { ...dailyWindow, badge_id: 'badge-2', type: 'chef_recommendation', ends_on: null },
+        { ...dailyWindow, badge_id: 'badge-3' },
+      ]
+
+      expect(getActiveBadges(windows, SATURDAY_NOON)).toEqual([
+        'chef_recommendation',
+        'daily_special',
+      ])
+    })
+  })
+
+  describe('sortFeaturedFirst', () => {
+    it('should move featured products to the top and keep the order otherwise', () => {
+      const products = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+      const active = new Map<string, ProductBadgeType[]>([
+        ['c', ['daily_special']],
+        ['d', ['chef_recommendation']],
+      ])
+
+      expect(sortFeaturedFirst(products, active).map((p) => p.id)).toEqual(['c', 'd', 'a', 'b'])
+    })
+  })
+
+  describe('buildBadgeWindows', () => {
+    const badge: ProductBadge = {
+      id: 'badge-1',
+      organization_id: 'org-1',
+      product_id: 'product-1',
+      badge_type: 'chef_recommendation',
+      schedule_type: 'weekly',
+      days_of_week: [7, 6],
+      starts_on: '2026-10-01',
+      ends_on: null,
+      is_active: true,
+      created_by: null,
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+    }
+
+    it('should group schedules by product', () => {
+      const map = buildBadgeWindows([badge], new Set(['chef_recommendation']), SATURDAY_NOON)
+
+      expect(map.get('product-1')).toEqual([
+        {
+          badge_id: 'badge-1',
+          type: 'chef_recommendation',
+          days_of_week: [6, 7],
+          starts_on: '2026-10-01',
+          ends_on: null,
+        },
+      ])
+    })
+
+    it('should skip badges whose feature is not enabled', () => {
+      expect(buildBadgeWindows([badge], new Set(), SATURDAY_NOON).size).toBe(0)
+    })
+
+    it('should skip badges that already ended', () => {
+      const ended = { ...badge, ends_on: '2026-10-16' }
+
+      expect(
+        buildBadgeWindows([ended], new Set(['chef_recommendation']), SATURDAY_NOON).size
+      ).toBe(0)
+    })
+  })
+
+  describe('validateBadgeInput', () => {
+    it('should accept a daily badge', () => {
+      expect(
+        validateBadgeInput({
+          badge_type: 'daily_special',
+          schedule_type: 'daily',
+          starts_on: '2026-10-18',
+          ends_on: '2026-10-18',
+        })
+      ).toBeNull()
+    })
+
+    it('should require days for weekly badges', () => {
+      expect(
+        validateBadgeInput({
+          badge_type: 'chef_recommendation',
+          schedule_type: 'weekly',
+          days_of_week: [],
+          starts_on: '2026-10-18',
+        })
+      ).toBe('Haftalık rozet için en az bir geçerli gün seçilmelidir')
+    })
+
+    it('should reject an end date before the start date', () => {
+      expect(
+        validateBadgeInput({
+          badge_type: 'daily_special',
+          schedule_type: 'daily',
+          starts_on: '2026-10-18',
+          ends_on: '2026-10-17',
+        })
+      ).toBe('Bitiş tarihi başlangıç tarihinden önce olamaz')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for bulk repricing rules
+ *
+ * Verifies:
+ * 1. Rounding to steps in each direction
+ * 2. Percentage and fixed changes
+ * 3. Rule validation
+ * 4. Preview leaves out unchanged prices
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  roundPrice,
+  applyPriceAdjustment,
+  validatePriceAdjustment,
+  buildBulkPricePreview,
+  type PriceAdjustment,
+} from '../services/bulk-pricing'
+
+const percent = (value: number, roundTo = 0, roundMode: PriceAdjustment['roundMode'] = 'nearest') =>
+  ({ type: 'percentage', value, roundTo, roundMode }) as PriceAdjustment
+
+describe('Bulk Pricing', () => {
+  describe('roundPrice', () => {
+    it('should round to the nearest step', () => {
+      expect(roundPrice(203.4, 5)).toBe(205)
+      expect(roundPrice(202.4, 5)).toBe(200)
+      expect(roundPrice(18.26, 0.5)).toBe(18.5)
+    })
+
+    it('should round up or down', () => {
+      expect(roundPrice(200.01, 5, 'up')).toBe(205)
+      expect(roundPrice(204.99, 5, 'down')).toBe(200)
+      expect(roundPrice(200, 10, 'up')).toBe(200)
+    })
+
+    it('should only round to kurus without a step', () => {
+      expect(roundPrice(10.006, 0)).toBe(10.01)
+      expect(roundPrice(0.1 + 0.2, 0)).toBe(0.3)
+    })
+  })
+
+  describe('applyPriceAdjustment', () => {
+    it('should apply a percentage change with rounding', () => {
+      expect(applyPriceAdjustment(180, percent(12.5, 5))).toBe(205)
+      expect(applyPriceAdjustment(99.9, percent(10))).toBe(109.89)
+    })
+
+    it('should apply a fixed change', () => {
+      expect(
+        applyPriceAdjustment(45, { type: 'fixed', value: 7.5, roundTo: 1, roundMode: 'up' })
+      ).toBe(53)
+    })
+
+    it('should never go below zero', () => {
+      expect(
+        applyPriceAdjustment(10, { type: 'fixed', value: -25, roundTo: 0, roundMode: 'nearest' })
+      ).toBe(0)
+    })
+  })
+
+  describe('validatePriceAdjustment', () => {
+    it('should accept valid rules', () => {
+      expect(validatePriceAdjustment(percent(-15, 5, 'down'))).toBeNull()
+    })
+
+    it('should reject zero, invalid and out-of-range values', () => {
+      expect(validatePriceAdjustment(percent(0))).not.toBeNull()
+      expect(validatePriceAdjustment(percent(NaN))).not.toBeNull()
+      expect(validatePriceAdjustment(percent(-100))).not.toBeNull()
+    })
+
+    it('should reject unknown rounding steps', () => {
+      expect(validatePriceAdjustment(percent(10, 3))).toBe('Geçersiz yuvarlama adımı')
+    })
+  })
+
+  it('should preview only products whose price changes', () => {
+    const preview = buildBulkPricePreview(
+      [
+        { productId: 'p1', name: 'Ayran', price: 30 },
+        { productId: 'p2', name: 'Lahmacun', price: 100 },
+      ],
+      percent(5, 10)
+    )
+
+    expect(preview).toEqual([{ productId: 'p2', name: 'Lahmacun', oldPrice: 100, newPrice: 110 }])
+  })
+})
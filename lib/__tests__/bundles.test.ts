@@ -0,0 +1,228 @@
+/**
+ * Unit tests for bundles (set menus)
+ *
+ * Verifies:
+ * 1. Bundle input validation (name, price, components)
+ * 2. Snapshot building (unpriced bundles and bundles with hidden components are skipped)
+ * 3. Price changes are written with the service role after the ownership
+ *    check, together with a price_change audit log
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Rows returned by the session client per table; inserts of the service role
+let sessionRows: Record<string, unknown>
+let adminInserts: Record<string, unknown[]>
+
+const createQueryBuilder = (table: string, onInsert?: (row: unknown) => void) => {
+  const result = () => ({ data: sessionRows[table] ?? null, error: null })
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    insert: vi.fn((row: unknown) => {
+      onInsert?.(row)
+      return queryBuilder
+    }),
+    update: vi.fn(() => queryBuilder),
+    delete: vi.fn(() => queryBuilder),
+    eq: vi.fn(() => queryBuilder),
+    in: vi.fn(() => queryBuilder),
+    single: vi.fn(() =>
+      Promise.resolve(onInsert ? { data: { id: 'entry-1', currency: 'TRY' }, error: null } : result())
+    ),
+    maybeSingle: vi.fn(() => Promise.resolve(result())),
+    then: (resolve: (value: unknown) => unknown) => resolve(onInsert ? { error: null } : result()),
+  }
+  return queryBuilder
+}
+
+const mockSessionClient = {
+  auth: {
+    getUser: vi.fn(() => Promise.resolve({ data: { user: { id: 'user-1' } }, error: null })),
+  },
+  from: vi.fn((table: string) => createQueryBuilder(table)),
+}
+
+const mockAdminClient = {
+  from: vi.fn((table: string) =>
+    createQueryBuilder(table, (row) => {
+      adminInserts[table] = [...(adminInserts[table] || []), row]
+    })
+  ),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSessionClient)),
+  createServiceRoleSupabaseClient: vi.fn(() => mockAdminClient),
+}))
+
+import {
+  validateBundleInput,
+  buildBundleSnapshots,
+  updateBundle,
+  type BundleWithItems,
+} from '../services/bundles'
+
+const baseBundle: BundleWithItems = {
+  id: 'bundle-1',
+  organization_id: 'org-1',
+  name: 'Burger Menu',
+  description: null,
+  image_url: null,
+  sort_order: 0,
+  is_active: true,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  price: 320,
+  currency: 'TRY',
+  items: [
+    {
+      id: 'item-2',
+      organization_id: 'org-1',
+      bundle_id: 'bundle-1',
+      product_id: 'product-fries',
+      quantity: 1,
+      sort_order: 1,
+      created_at: '2026-10-01T00:00:00.000Z',
+    },
+    {
+      id: 'item-1',
+      organization_id: 'org-1',
+      bundle_id: 'bundle-1',
+      product_id: 'product-burger',
+      quantity: 2,
+      sort_order: 0,
+      created_at: '2026-10-01T00:00:00.000Z',
+    },
+  ],
+}
+
+const visibleProducts = new Map([
+  ['product-burger', 'Burger'],
+  ['product-fries', 'Patates Kizartmasi'],
+])
+
+describe('Bundles', () => {
+  describe('validateBundleInput', () => {
+    const validInput = {
+      name: 'Burger Menu',
+      price: 320,
+      items: [
+        { product_id: 'product-burger', quantity: 1 },
+        { product_id: 'product-fries', quantity: 1 },
+      ],
+    }
+
+    it('should accept a valid bundle', () => {
+      expect(validateBundleInput(validInput)).toBeNull()
+    })
+
+    it('should reject an empty name', () => {
+      expect(validateBundleInput({ ...validInput, name: '  ' })).toBe('Paket adı gereklidir')
+    })
+
+    it('should reject a negative price', () => {
+      expect(validateBundleInput({ ...validInput, price: -1 })).toBe('Fiyat negatif olamaz')
+    })
+
+    it('should require at least two products', () => {
+      expect(
+        validateBundleInput({ ...validInput, items: [validInput.items[0]] })
+      ).toBe('Paket en az iki üründen oluşmalıdır')
+    })
+
+    it('should reject duplicate products', () => {
+      expect(
+        validateBundleInput({
+          ...validInput,
+          items: [validInput.items[0], validInput.items[0]],
+        })
+      ).toBe('Her ürün pakete yalnızca bir kez eklenebilir')
+    })
+
+    it('should reject a quantity below one', () => {
+      expect(
+        validateBundleInput({
+          ...validInput,
+          items: [validInput.items[0], { product_id: 'product-fries', quantity: 0 }],
+        })
+      ).toBe('Ürün adedi en az 1 olmalıdır')
+    })
+  })
+
+  describe('buildBundleSnapshots', () => {
+    it('should include component names and quantities in display order', () => {
+      const [snapshot] = buildBundleSnapshots([baseBundle], visibleProducts)
+
+      expect(snapshot.price).toBe(320)
+      expect(snapshot.items).toEqual([
+        { product_id: 'product-burger', name: 'Burger', quantity: 2 },
+        { product_id: 'product-fries', name: 'Patates Kizartmasi', quantity: 1 },
+      ])
+    })
+
+    it('should hide a bundle when a component product is not visible', () => {
+      const onlyBurger = new Map([['product-burger', 'Burger']])
+
+      expect(buildBundleSnapshots([baseBundle], onlyBurger)).toEqual([])
+    })
+
+    it('should skip bundles without a recorded price', () => {
+      expect(
+        buildBundleSnapshots([{ ...baseBundle, price: null }], visibleProducts)
+      ).toEqual([])
+    })
+  })
+
+  describe('updateBundle', () => {
+    const input = {
+      name: 'Burger Menu',
+      price: 340,
+      items: [
+        { product_id: 'product-burger', quantity: 1 },
+        { product_id: 'product-fries', quantity: 1 },
+      ],
+      change_reason: 'Maliyet artisi',
+    }
+
+    beforeEach(() => {
+      vi.clearAllMocks()
+      adminInserts = {}
+      sessionRows = {
+        products: [{ id: 'product-burger' }, { id: 'product-fries' }],
+        bundles: { ...baseBundle },
+        current_bundle_prices: { price: 320 },
+      }
+    })
+
+    it('should record a changed price with the service role and audit it', async () => {
+      const result = await updateBundle('bundle-1', 'org-1', input)
+
+      expect(result.success).toBe(true)
+      expect(mockSessionClient.from).not.toHaveBeenCalledWith('bundle_price_ledger')
+      expect(adminInserts.bundle_price_ledger).toEqual([
+        expect.objectContaining({
+          bundle_id: 'bundle-1',
+          price: 340,
+          change_reason: 'Maliyet artisi',
+          changed_by: 'user-1',
+        }),
+      ])
+      expect(adminInserts.audit_logs).toEqual([
+        expect.objectContaining({
+          action: 'price_change',
+          entity_type: 'bundle',
+          entity_id: 'bundle-1',
+          old_data: { price: 320, currency: 'TRY' },
+          new_data: { price: 340, currency: 'TRY' },
+        }),
+      ])
+    })
+
+    it('should not record a price without a price change', async () => {
+      const result = await updateBundle('bundle-1', 'org-1', { ...input, price: 320 })
+
+      expect(result.success).toBe(true)
+      expect(adminInserts).toEqual({})
+    })
+  })
+})
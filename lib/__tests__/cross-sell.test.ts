@@ -0,0 +1,64 @@
+/**
+ * Unit tests for cross-sell recommendations
+ *
+ * Verifies:
+ * 1. Recommendation validation (self-links, maximum count)
+ * 2. Snapshot building (links to hidden products are dropped)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock the Supabase server client (not used by the pure functions under test)
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+}))
+
+import {
+  MAX_RECOMMENDATIONS,
+  validateRecommendations,
+  buildRecommendationMap,
+} from '../services/cross-sell'
+
+describe('Cross-Sell', () => {
+  describe('validateRecommendations', () => {
+    it('should accept companion products', () => {
+      expect(validateRecommendations('burger', ['fries', 'cola'])).toBeNull()
+    })
+
+    it('should reject recommending a product with itself', () => {
+      expect(validateRecommendations('burger', ['burger'])).toBe(
+        'Ürün kendisiyle birlikte önerilemez'
+      )
+    })
+
+    it('should reject more than the maximum number of companions', () => {
+      const ids = Array.from({ length: MAX_RECOMMENDATIONS + 1 }, (_, i) => `product-${i}`)
+
+      expect(validateRecommendations('burger', ids)).toBe(
+        `En fazla ${MAX_RECOMMENDATIONS} ürün önerilebilir`
+      )
+    })
+  })
+
+  describe('buildRecommendationMap', () => {
+    const rows = [
+      { product_id: 'burger', recommended_product_id: 'fries' },
+      { product_id: 'burger', recommended_product_id: 'cola' },
+      { product_id: 'soup', recommended_product_id: 'bread' },
+    ]
+
+    it('should group companions by product in display order', () => {
+      const map = buildRecommendationMap(rows, new Set(['burger', 'fries', 'cola', 'soup', 'bread']))
+
+      expect(map.get('burger')).toEqual(['fries', 'cola'])
+      expect(map.get('soup')).toEqual(['bread'])
+    })
+
+    it('should drop links to hidden products', () => {
+      const map = buildRecommendationMap(rows, new Set(['burger', 'cola', 'soup']))
+
+      expect(map.get('burger')).toEqual(['cola'])
+      expect(map.has('soup')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for Happy Hour price rules
+ *
+ * Verifies:
+ * 1. Discounted price calculation (percentage and fixed)
+ * 2. Time window evaluation in Europe/Istanbul time (incl. overnight windows)
+ * 3. Snapshot window building for product and category rules
+ * 4. Rule input validation
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { PriceRule } from '@/types/database'
+
+// Mock the Supabase server client (not used by the pure functions under test)
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+}))
+
+import {
+  calculateDiscountedPrice,
+  isPriceWindowActive,
+  getActivePriceWindow,
+  buildPriceWindows,
+  validatePriceRuleInput,
+  type PriceWindow,
+} from '../services/happy-hour'
+
+// Istanbul is UTC+3 all year: 2026-10-16 is a Friday
+const fridayAt = (hhmm: string) => new Date(`2026-10-16T${hhmm}:00+03:00`)
+const saturdayAt = (hhmm: string) => new Date(`2026-10-17T${hhmm}:00+03:00`)
+
+const baseRule: PriceRule = {
+  id: 'rule-1',
+  organization_id: 'org-1',
+  name: 'Aksam Happy Hour',
+  product_id: null,
+  category_id: 'cat-1',
+  discount_type: 'percentage',
+  discount_value: 20,
+  days_of_week: [5],
+  start_time: '17:00:00',
+  end_time: '19:00:00',
+  is_active: true,
+  created_by: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+}
+
+describe('Happy Hour Price Rules', () => {
+  describe('calculateDiscountedPrice', () => {
+    it('should apply percentage discounts', () => {
+      expect(calculateDiscountedPrice(200, 'percentage', 15)).toBe(170)
+    })
+
+    it('should apply fixed amount discounts', () => {
+      expect(calculateDiscountedPrice(200, 'fixed', 50)).toBe(150)
+    })
+
+    it('should round to 2 decimals', () => {
+      expect(calculateDiscountedPrice(99.9, 'percentage', 33)).toBe(66.93)
+    })
+
+    it('should never return a negative price', () => {
+      expect(calculateDiscountedPrice(40, 'fixed', 50)).toBe(0)
+    })
+  })
+
+  describe('isPriceWindowActive', () => {
+    const window = { days_of_week: [5], start_time: '17:00', end_time: '19:00' }
+
+    it('should be active inside the window on a selected day', () => {
+      expect(isPriceWindowActive(window, fridayAt('17:30'))).toBe(true)
+    })
+
+    it('should include the start and exclude the end minute', () => {
+      expect(isPriceWindowActive(window, fridayAt('17:00'))).toBe(true)
+      expect(isPriceWindowActive(window, fridayAt('19:00'))).toBe(false)
+    })
+
+    it('should be inactive on other days', () => {
+      expect(isPriceWindowActive(window, saturdayAt('17:30'))).toBe(false)
+    })
+
+    it('should evaluate in Istanbul time regardless of the input offset', () => {
+      // 14:30 UTC = 17:30 Istanbul
+      expect(isPriceWindowActive(window, new Date('2026-10-16T14:30:00Z'))).toBe(true)
+    })
+
+    it('should carry overnight windows into the next day', () => {
+      const overnight = { days_of_week: [5], start_time: '22:00', end_time: '02:00' }
+
+      expect(isPriceWindowActive(overnight, fridayAt('23:30'))).toBe(true)
+      expect(isPriceWindowActive(overnight, saturdayAt('01:30'))).toBe(true)
+      expect(isPriceWindowActive(overnight, saturdayAt('02:30'))).toBe(false)
+      expect(isPriceWindowActive(overnight, saturdayAt('23:30'))).toBe(false)
+    })
+  })
+
+  describe('getActivePriceWindow', () => {
+    const windows: PriceWindow[] = [
+      { rule_id: 'a', name: 'A', days_of_week: [5], start_time: '17:00', end_time: '19:00', price: 90 },
+      { rule_id: 'b', name: 'B', days_of_week: [5], start_time: '18:00', end_time: '20:00', price: 80 },
+    ]
+
+    it('should return null when no window is active', () => {
+      expect(getActivePriceWindow(windows, fridayAt('12:00'))).toBeNull()
+      expect(getActivePriceWindow(undefined, fridayAt('18:30'))).toBeNull()
+    })
+
+    it('should pick the lowest price when windows overlap', () => {
+      expect(getActivePriceWindow(windows, fridayAt('18:30'))?.rule_id).toBe('b')
+      expect(getActivePriceWindow(windows, fridayAt('17:30'))?.rule_id).toBe('a')
+    })
+  })
+
+  describe('buildPriceWindows', () => {
+    it('should apply category rules to products in the category', () => {
+      const windows = buildPriceWindows(
+        { id: 'prod-1', category_id: 'cat-1', price: 250 },
+        [baseRule]
+      )
+
+      expect(windows).toEqual([
+        {
+          rule_id: 'rule-1',
+          name: 'Aksam Happy Hour',
+          days_of_week: [5],
+          start_time: '17:00',
+          end_time: '19:00',
+          price: 200,
+        },
+      ])
+    })
+
+    it('should apply product rules only to that product', () => {
+      const productRule = { ...baseRule, id: 'rule-2', category_id: null, product_id: 'prod-2' }
+
+      expect(buildPriceWindows({ id: 'prod-1', category_id: 'cat-9', price: 100 }, [productRule])).toEqual([])
+      expect(buildPriceWindows({ id: 'prod-2', category_id: 'cat-9', price: 100 }, [productRule])).toHaveLength(1)
+    })
+
+    it('should skip products without a price and inactive rules', () => {
+      expect(buildPriceWindows({ id: 'prod-1', category_id: 'cat-1', price: null }, [baseRule])).toEqual([])
+      expect(
+        buildPriceWindows({ id: 'prod-1', category_id: 'cat-1', price: 100 }, [{ ...baseRule, is_active: false }])
+      ).toEqual([])
+    })
+  })
+
+  describe('validatePriceRuleInput', () => {
+    const validInput = {
+      name: 'Happy Hour',
+      category_id: 'cat-1',
+      discount_type: 'percentage' as const,
+      discount_value: 20,
+      days_of_week: [1, 2, 3],
+      start_time: '17:00',
+      end_time: '19:00',
+    }
+
+    it('should accept a valid rule', () => {
+      expect(validatePriceRuleInput(validInput)).toBeNull()
+    })
+
+    it('should require exactly one target', () => {
+      expect(validatePriceRuleInput({ ...validInput, category_id: null })).not.toBeNull()
+      expect(validatePriceRuleInput({ ...validInput, product_id: 'prod-1' })).not.toBeNull()
+    })
+
+    it('should reject percentages above 100', () => {
+      expect(validatePriceRuleInput({ ...validInput, discount_value: 120 })).not.toBeNull()
+    })
+
+    it('should reject invalid days and times', () => {
+      expect(validatePriceRuleInput({ ...validInput, days_of_week: [] })).not.toBeNull()
+      expect(validatePriceRuleInput({ ...validInput, days_of_week: [8] })).not.toBeNull()
+      expect(validatePriceRuleInput({ ...validInput, start_time: '25:00' })).not.toBeNull()
+      expect(validatePriceRuleInput({ ...validInput, end_time: '17:00' })).not.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for modifier (add-on) groups
+ *
+ * Verifies:
+ * 1. Group input validation (min/max selections, options)
+ * 2. Guest-facing selection rule descriptions
+ * 3. Snapshot building (unpriced options and empty groups are skipped)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock the Supabase server client (not used by the pure functions under test)
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+}))
+
+import {
+  validateModifierGroupInput,
+  describeSelectionRule,
+  buildModifierGroupSnapshots,
+  type ModifierGroupWithOptions,
+} from '../services/modifiers'
+
+const baseGroup: ModifierGroupWithOptions = {
+  id: 'group-1',
+  organization_id: 'org-1',
+  name: 'Ekstra Malzemeler',
+  min_selections: 0,
+  max_selections: 3,
+  is_active: true,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  options: [
+    {
+      id: 'option-1',
+      organization_id: 'org-1',
+      group_id: 'group-1',
+      name: 'Ekstra peynir',
+      sort_order: 0,
+      is_active: true,
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+      price: 25,
+      currency: 'TRY',
+    },
+  ],
+}
+
+describe('Modifier Groups', () => {
+  describe('validateModifierGroupInput', () => {
+    const validInput = {
+      name: 'Soslar',
+      min_selections: 1,
+      max_selections: 2,
+      options: [
+        { name: 'Ketcap', price: 0 },
+        { name: 'Ranch', price: 10 },
+      ],
+    }
+
+    it('should accept a valid group', () => {
+      expect(validateModifierGroupInput(validInput)).toBeNull()
+    })
+
+    it('should reject min selections above max selections', () => {
+      expect(validateModifierGroupInput({ ...validInput, min_selections: 3 })).not.toBeNull()
+    })
+
+    it('should reject a max selection of zero', () => {
+      expect(
+        validateModifierGroupInput({ ...validInput, min_selections: 0, max_selections: 0 })
+      ).not.toBeNull()
+    })
+
+    it('should require at least one named option with a non-negative price', () => {
+      expect(validateModifierGroupInput({ ...validInput, options: [] })).not.toBeNull()
+      expect(
+        validateModifierGroupInput({ ...validInput, options: [{ name: ' ', price: 5 }] })
+      ).not.toBeNull()
+      expect(
+        validateModifierGroupInput({ ...validInput, options: [{ name: 'Ranch', price: -1 }] })
+      ).not.toBeNull()
+    })
+
+    it('should reject required selections that exceed the option count', () => {
+      expect(
+        validateModifierGroupInput({
+          ...validInput,
+          min_selections: 2,
+          max_selections: 2,
+          options: [{ name: 'Ranch', price: 10 }],
+        })
+      ).not.toBeNull()
+    })
+  })
+
+  describe('describeSelectionRule', () => {
+    it('should describe optional groups', () => {
+      expect(describeSelectionRule({ min_selections: 0, max_selections: 3 })).toBe(
+        'İsteğe bağlı, en fazla 3 seçim'
+      )
+    })
+
+    it('should describe required groups', () => {
+      expect(describeSelectionRule({ min_selections: 1, max_selections: 1 })).toBe('Zorunlu, 1 seçim')
+      expect(describeSelectionRule({ min_selections: 1, max_selections: 2 })).toBe('Zorunlu, 1-2 seçim')
+    })
+  })
+
+  describe('buildModifierGroupSnapshots', () => {
+    it('should include priced options and derive is_required', () => {
+      expect(buildModifierGroupSnapshots([{ ...baseGroup, min_selections: 1 }])).toEqual([
+        {
+          id: 'group-1',
+          name: 'Ekstra Malzemeler',
+          min_selections: 1,
+          max_selections: 3,
+          is_required: true,
+          options: [{ id: 'option-1', name: 'Ekstra peynir', price: 25, currency: 'TRY' }],
+        },
+      ])
+    })
+
+    it('should skip unpriced options and drop empty groups', () => {
+      const unpriced = {
+        ...baseGroup,
+        options: baseGroup.options.map((option) => ({ ...option, price: null })),
+      }
+
+      expect(buildModifierGroupSnapshots([unpriced])).toEqual([])
+    })
+  })
+})
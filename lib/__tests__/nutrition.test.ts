@@ -0,0 +1,169 @@
+/**
+ * Unit tests for typed nutrition facts
+ *
+ * Verifies:
+ * 1. Parsing of the untyped products.nutrition column
+ * 2. Editor validation rules
+ * 3. Computed totals (per portion / per 100 g, energy from macros)
+ * 4. Guest nutrition filters
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseNutrition,
+  validateNutrition,
+  computeNutritionTotals,
+  matchesNutritionFilter,
+  type NutritionFacts,
+} from '../services/nutrition'
+
+const facts = (overrides: Partial<NutritionFacts> = {}): NutritionFacts => ({
+  portion_grams: null,
+  per_portion: {},
+  per_100g: {},
+  ...overrides,
+})
+
+describe('Nutrition Facts', () => {
+  describe('parseNutrition', () => {
+    it('should return null for empty or invalid values', () => {
+      expect(parseNutrition(null)).toBeNull()
+      expect(parseNutrition('kcal')).toBeNull()
+      expect(parseNutrition([])).toBeNull()
+      expect(parseNutrition({})).toBeNull()
+      expect(parseNutrition({ portion_grams: 200, per_portion: {} })).toBeNull()
+    })
+
+    it('should keep only known numeric nutrients', () => {
+      expect(
+        parseNutrition({
+          portion_grams: 250,
+          per_portion: { kcal: 480, protein: '20', fiber: 3 },
+          per_100g: { sugar: 2.5 },
+        })
+      ).toEqual({
+        portion_grams: 250,
+        per_portion: { kcal: 480 },
+        per_100g: { sugar: 2.5 },
+      })
+    })
+
+    it('should ignore a non-numeric portion weight', () => {
+      expect(parseNutrition({ portion_grams: 'big', per_portion: { kcal: 100 } })?.portion_grams).toBeNull()
+    })
+  })
+
+  describe('validateNutrition', () => {
+    it('should accept valid facts', () => {
+      expect(
+        validateNutrition(
+          facts({
+            portion_grams: 250,
+            per_portion: { kcal: 480, protein: 25, carbs: 50, sugar: 5, fat: 12, salt: 1.2 },
+          })
+        )
+      ).toBeNull()
+    })
+
+    it('should reject a zero portion weight', () => {
+      expect(validateNutrition(facts({ portion_grams: 0, per_portion: { kcal: 100 } }))).toBe(
+        'Porsiyon ağırlığı sıfırdan büyük olmalıdır'
+      )
+    })
+
+    it('should reject negative values', () => {
+      expect(validateNutrition(facts({ per_100g: { fat: -1 } }))).toBe(
+        'Besin değerleri negatif olamaz'
+      )
+    })
+
+    it('should reject more sugar than carbohydrate', () => {
+      expect(validateNutrition(facts({ per_portion: { carbs: 10, sugar: 12 } }))).toBe(
+        'Şeker miktarı karbonhidrattan fazla olamaz'
+      )
+    })
+
+    it('should reject more than 100 g of nutrients per 100 g', () => {
+      expect(validateNutrition(facts({ per_100g: { protein: 40, carbs: 50, fat: 20 } }))).toBe(
+        '100 g için besin değerlerinin toplamı 100 g değerini geçemez'
+      )
+    })
+
+    it('should reject more than 900 kcal per 100 g', () => {
+      expect(validateNutrition(facts({ per_100g: { kcal: 950 } }))).toBe(
+        '100 g için enerji 900 kcal değerini geçemez'
+      )
+    })
+
+    it('should reject portion nutrients heavier than the portion', () => {
+      expect(
+        validateNutrition(facts({ portion_grams: 50, per_portion: { carbs: 40, fat: 20 } }))
+      ).toBe('Porsiyon besin değerlerinin toplamı porsiyon ağırlığını geçemez')
+    })
+  })
+
+  describe('computeNutritionTotals', () => {
+    it('should compute per portion values and energy from per 100 g values', () => {
+      const totals = computeNutritionTotals(
+        facts({ portion_grams: 250, per_100g: { protein: 10, carbs: 20, fat: 5 } })
+      )
+
+      expect(totals.per_portion).toEqual({ kcal: 413, protein: 25, carbs: 50, fat: 12.5 })
+      expect(totals.per_100g.kcal).toBe(165)
+    })
+
+    it('should compute per 100 g values from per portion values', () => {
+      const totals = computeNutritionTotals(
+        facts({ portion_grams: 200, per_portion: { kcal: 500, sugar: 3 } })
+      )
+
+      expect(totals.per_100g).toEqual({ kcal: 250, sugar: 1.5 })
+    })
+
+    it('should keep entered values over computed ones', () => {
+      const totals = computeNutritionTotals(
+        facts({
+          portion_grams: 200,
+          per_portion: { kcal: 300, protein: 10 },
+          per_100g: { kcal: 120, protein: 6 },
+        })
+      )
+
+      expect(totals.per_portion).toEqual({ kcal: 300, protein: 10 })
+      expect(totals.per_100g).toEqual({ kcal: 120, protein: 6 })
+    })
+
+    it('should not convert between bases without a portion weight', () => {
+      const totals = computeNutritionTotals(facts({ per_100g: { kcal: 200 } }))
+
+      expect(totals.per_portion).toEqual({})
+      expect(totals.per_100g).toEqual({ kcal: 200 })
+    })
+  })
+
+  describe('matchesNutritionFilter', () => {
+    const salad = facts({ per_portion: { kcal: 280, protein: 8 }, per_100g: { sugar: 3 } })
+    const steak = facts({ per_portion: { kcal: 650, protein: 45 }, per_100g: { sugar: 0 } })
+
+    it('should filter by energy per portion', () => {
+      expect(matchesNutritionFilter(salad, 'kcal-300')).toBe(true)
+      expect(matchesNutritionFilter(salad, 'kcal-500')).toBe(true)
+      expect(matchesNutritionFilter(steak, 'kcal-500')).toBe(false)
+    })
+
+    it('should filter by protein and sugar', () => {
+      expect(matchesNutritionFilter(steak, 'high-protein')).toBe(true)
+      expect(matchesNutritionFilter(salad, 'high-protein')).toBe(false)
+      expect(matchesNutritionFilter(salad, 'low-sugar')).toBe(true)
+    })
+
+    it('should never match products without the needed values', () => {
+      expect(matchesNutritionFilter(null, 'kcal-500')).toBe(false)
+      expect(matchesNutritionFilter(facts({ per_100g: { kcal: 100 } }), 'kcal-500')).toBe(false)
+    })
+
+    it('should match everything for an unknown filter', () => {
+      expect(matchesNutritionFilter(salad, 'unknown')).toBe(true)
+    })
+  })
+})
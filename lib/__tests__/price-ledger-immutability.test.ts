@@ -10,6 +10,10 @@
  * 5. Current prices view returns latest entry
  * 6. Input validation works correctly
  * 7. Compliance export functionality
+ * 8. Dashboard price changes require a reason and write an audit log
+ * 9. Scheduled price changes and their cancellation
+ * 10. Price revisions are checked against the plan's limit_price_revisions
+ * 11. The per-organization hash chain detects tampered entries
  *
  * CRITICAL: The price_ledger table is IMMUTABLE!
  * - Only INSERT is allowed
@@ -20,6 +24,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
 import type { PriceLedgerEntry, CurrentPrice } from '@/types/database'
 
 // Mock data for tests
@@ -50,7 +55,7 @@ const mockCurrentPrice: CurrentPrice = {
 const createMockQueryBuilder = (mockConfig: {
   insertData?: PriceLedgerEntry | null
   selectData?: CurrentPrice | PriceLedgerEntry[] | null
-  insertError?: { message: string } | null
+  insertError?: { message: string; code?: string } | null
   selectError?: { message: string } | null
   updateError?: { message: string } | null
   deleteError?: { message: string } | null
@@ -78,6 +83,7 @@ const createMockQueryBuilder = (mockConfig: {
       return queryBuilder
     }),
     eq: vi.fn(() => queryBuilder),
+    is: vi.fn(() => queryBuilder),
     in: vi.fn(() => queryBuilder),
     gte: vi.fn(() => queryBuilder),
     lte: vi.fn(() => queryBuilder),
@@ -135,6 +141,15 @@ const createMockQueryBuilder = (mockConfig: {
   return { from: fromFn, queryBuilder }
 }
 
+// Ownership lookups of addPriceEntry find the product (and variant), other tables use `from`
+const withOwnedProduct = (from: ReturnType<typeof vi.fn>) =>
+  vi.fn((table: string) =>
+    table === 'products' || table === 'product_variants'
+      ? createMockQueryBuilder({ selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice })
+          .queryBuilder
+      : from(table)
+  )
+
 // Mock Supabase client factory
 let mockSupabaseFrom: ReturnType<typeof vi.fn>
 let mockSupabaseAuth: {
@@ -153,11 +168,27 @@ const mockSupabaseClient = {
 // Mock the Supabase server client
 vi.mock('@/lib/supabase/server', () => ({
   createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceRoleSupabaseClient: vi.fn(() => mockSupabaseClient),
+}))
+
+// Mock the price revision limit (covered by lib/guards/__tests__/limits.test.ts)
+const mockRevisionLimit = vi.fn((_organizationId: string, _count?: number) =>
+  Promise.resolve({ canAdd: true, message: '' })
+)
+
+vi.mock('@/lib/guards/limits', () => ({
+  checkPriceRevisionLimit: (organizationId: string, count?: number) =>
+    mockRevisionLimit(organizationId, count),
+  PRICE_REVISION_LIMIT_MESSAGE: 'Bu dönem için fiyat değişikliği hakkınız doldu.',
 }))
 
 // Import after mocking
+import { createServiceRoleSupabaseClient } from '@/lib/supabase/server'
 import {
   addPriceEntry,
+  changeProductPrice,
+  bulkChangeProductPrices,
+  cancelScheduledPriceChange,
   getCurrentPrice,
   getCurrentPricesBatch,
   getPriceHistory,
@@ -165,6 +196,9 @@ import {
   hasPrice,
   getPriceStatistics,
   exportPriceLedgerForCompliance,
+  buildPriceLedgerHashPayload,
+  findPriceLedgerChainBreak,
+  verifyPriceLedgerChain,
 } from '../services/price-ledger'
 
 describe('Price Ledger Immutability', () => {
@@ -186,9 +220,9 @@ describe('Price Ledger Immutability', () => {
       const { from } = createMockQueryBuilder({
         insertData: mockPriceLedgerEntry,
       })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
-      const result = await addPriceEntry(TEST_PRODUCT_ID, 99.9, 'Initial price')
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Initial price')
 
       expect(result.success).toBe(true)
       expect(result.data).toBeDefined()
@@ -206,9 +240,9 @@ describe('Price Ledger Immutability', () => {
       }
 
       const { from: from1 } = createMockQueryBuilder({ insertData: firstEntry })
-      mockSupabaseFrom = from1
+      mockSupabaseFrom = withOwnedProduct(from1)
 
-      const result1 = await addPriceEntry(TEST_PRODUCT_ID, 100, 'Initial price')
+      const result1 = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 100, 'Initial price')
       expect(result1.success).toBe(true)
 
       // Second price entry (price increase)
@@ -220,9 +254,9 @@ describe('Price Ledger Immutability', () => {
       }
 
       const { from: from2 } = createMockQueryBuilder({ insertData: secondEntry })
-      mockSupabaseFrom = from2
+      mockSupabaseFrom = withOwnedProduct(from2)
 
-      const result2 = await addPriceEntry(TEST_PRODUCT_ID, 150, 'Price adjustment')
+      const result2 = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 150, 'Price adjustment')
       expect(result2.success).toBe(true)
 
       // Both entries should be created (not updated)
@@ -238,10 +272,11 @@ describe('Price Ledger Immutability', () => {
       const { from, queryBuilder } = createMockQueryBuilder({
         insertData: entryWithReason,
       })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
       const result = await addPriceEntry(
         TEST_PRODUCT_ID,
+        TEST_ORG_ID,
         120.5,
         'Supplier cost increase 2024'
       )
@@ -254,9 +289,9 @@ describe('Price Ledger Immutability', () => {
       const { from, queryBuilder } = createMockQueryBuilder({
         insertData: mockPriceLedgerEntry,
       })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
-      await addPriceEntry(TEST_PRODUCT_ID, 99.9, 'Test price')
+      await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Test price')
 
       // Verify auth.getUser was called to get the changing user
       expect(mockSupabaseAuth.getUser).toHaveBeenCalled()
@@ -271,9 +306,9 @@ describe('Price Ledger Immutability', () => {
       }
 
       const { from } = createMockQueryBuilder({ insertData: euroEntry })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
-      const result = await addPriceEntry(TEST_PRODUCT_ID, 4.5, 'Euro price', 'EUR')
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 4.5, 'Euro price', 'EUR')
 
       expect(result.success).toBe(true)
     })
@@ -529,11 +564,58 @@ describe('Price Ledger Immutability', () => {
       expect(queryBuilder.gte).toHaveBeenCalled()
       expect(queryBuilder.lte).toHaveBeenCalled()
     })
+
+    it('should filter history by variant', async () => {
+      const { from, queryBuilder } = createMockQueryBuilder({
+        selectData: [],
+        count: 0,
+      })
+      queryBuilder.then = vi.fn((callback) =>
+        Promise.resolve({ data: [], error: null, count: 0 }).then(callback)
+      )
+      mockSupabaseFrom = from
+
+      await getPriceHistory(TEST_PRODUCT_ID, { variantId: 'variant-uuid-001' })
+      expect(queryBuilder.eq).toHaveBeenCalledWith('variant_id', 'variant-uuid-001')
+
+      await getPriceHistory(TEST_PRODUCT_ID, { variantId: null })
+      expect(queryBuilder.is).toHaveBeenCalledWith('variant_id', null)
+    })
+  })
+
+  describe('Variant Prices', () => {
+    it('should record variant prices as regular ledger entries', async () => {
+      const { from, queryBuilder } = createMockQueryBuilder({
+        insertData: { ...mockPriceLedgerEntry, variant_id: 'variant-uuid-001' },
+      })
+      mockSupabaseFrom = withOwnedProduct(from)
+
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 89.9, 'Variant price', 'TRY', 'variant-uuid-001')
+
+      expect(result.success).toBe(true)
+      expect(from).toHaveBeenCalledWith('price_ledger')
+      expect(queryBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ product_id: TEST_PRODUCT_ID, variant_id: 'variant-uuid-001' })
+      )
+    })
+
+    it('should not set variant_id for base prices', async () => {
+      const { from, queryBuilder } = createMockQueryBuilder({
+        insertData: mockPriceLedgerEntry,
+      })
+      mockSupabaseFrom = withOwnedProduct(from)
+
+      await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Initial price')
+
+      expect(queryBuilder.insert).toHaveBeenCalledWith(
+        expect.not.objectContaining({ variant_id: expect.anything() })
+      )
+    })
   })
 
   describe('Input Validation', () => {
     it('should reject negative prices', async () => {
-      const result = await addPriceEntry(TEST_PRODUCT_ID, -10, 'Invalid price')
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, -10, 'Invalid price')
 
       expect(result.success).toBe(false)
       expect(result.error).toBe('Fiyat negatif olamaz')
@@ -546,20 +628,67 @@ describe('Price Ledger Immutability', () => {
       }
 
       const { from } = createMockQueryBuilder({ insertData: freeEntry })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
-      const result = await addPriceEntry(TEST_PRODUCT_ID, 0, 'Free product')
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 0, 'Free product')
 
       expect(result.success).toBe(true)
     })
 
     it('should require product ID', async () => {
-      const result = await addPriceEntry('', 99.9, 'Test')
+      const result = await addPriceEntry('', TEST_ORG_ID, 99.9, 'Test')
 
       expect(result.success).toBe(false)
       expect(result.error).toBe('Ürün ID gereklidir')
     })
 
+    it('should require a change reason', async () => {
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, '   ')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Fiyat değişikliği için gerekçe gereklidir')
+    })
+
+    it('should reject products of other organizations', async () => {
+      const ledger = createMockQueryBuilder({ insertData: mockPriceLedgerEntry })
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        products: createMockQueryBuilder({ selectData: null }),
+        price_ledger: ledger,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await addPriceEntry(TEST_PRODUCT_ID, 'other-org-uuid', 99.9, 'Test')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Ürün bulunamadı')
+      expect(ledger.queryBuilder.insert).not.toHaveBeenCalled()
+    })
+
+    it('should reject variants of other products or organizations', async () => {
+      const ledger = createMockQueryBuilder({ insertData: mockPriceLedgerEntry })
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        product_variants: createMockQueryBuilder({ selectData: null }),
+        price_ledger: ledger,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await addPriceEntry(
+        TEST_PRODUCT_ID,
+        TEST_ORG_ID,
+        89.9,
+        'Variant price',
+        'TRY',
+        'variant-of-other-product'
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Varyant bulunamadı')
+      expect(ledger.queryBuilder.insert).not.toHaveBeenCalled()
+    })
+
     it('should handle authentication errors', async () => {
       mockSupabaseAuth = {
         getUser: vi.fn(() =>
@@ -573,13 +702,326 @@ describe('Price Ledger Immutability', () => {
       const { from } = createMockQueryBuilder({ insertData: null })
       mockSupabaseFrom = from
 
-      const result = await addPriceEntry(TEST_PRODUCT_ID, 99.9, 'Test')
+      const result = await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Test')
 
       expect(result.success).toBe(false)
       expect(result.error).toBe('Kullanıcı kimliği doğrulanamadı')
     })
   })
 
+  describe('changeProductPrice()', () => {
+    const mockTables = (tables: Record<string, ReturnType<typeof createMockQueryBuilder>>) => {
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+    }
+
+    it('should record the price and a price_change audit log', async () => {
+      const audit = createMockQueryBuilder({})
+      mockTables({
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: mockCurrentPrice }),
+        price_ledger: createMockQueryBuilder({ insertData: mockPriceLedgerEntry }),
+        audit_logs: audit,
+      })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Kampanya', {
+        ipAddress: '10.0.0.1',
+      })
+
+      expect(result.success).toBe(true)
+      expect(audit.queryBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organization_id: TEST_ORG_ID,
+          action: 'price_change',
+          entity_type: 'product',
+          entity_id: TEST_PRODUCT_ID,
+          old_data: { price: 149.9, currency: 'TRY' },
+          new_data: { price: 99.9, currency: 'TRY' },
+          ip_address: '10.0.0.1',
+          metadata: {
+            change_reason: 'Initial price',
+            price_ledger_id: mockPriceLedgerEntry.id,
+          },
+        })
+      )
+    })
+
+    it('should reject products of other organizations', async () => {
+      mockTables({ products: createMockQueryBuilder({ selectData: null }) })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Kampanya')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Ürün bulunamadı')
+    })
+
+    it('should reject an unchanged price', async () => {
+      mockTables({
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: mockCurrentPrice }),
+      })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 149.9, 'Kampanya')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Yeni fiyat mevcut fiyatla aynı')
+    })
+
+    it('should stop at the price revision limit before writing', async () => {
+      const ledger = createMockQueryBuilder({ insertData: mockPriceLedgerEntry })
+      mockTables({
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: mockCurrentPrice }),
+        price_ledger: ledger,
+      })
+      mockRevisionLimit.mockResolvedValueOnce({ canAdd: false, message: 'Limit doldu' })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Kampanya')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Limit doldu')
+      expect(mockRevisionLimit).toHaveBeenCalledWith(TEST_ORG_ID, undefined)
+      expect(ledger.queryBuilder.insert).not.toHaveBeenCalled()
+    })
+
+    it('should report a revision rejected by the database limit trigger', async () => {
+      mockTables({
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: mockCurrentPrice }),
+        price_ledger: createMockQueryBuilder({
+          insertError: { message: 'Price revision limit reached', code: 'EM429' },
+        }),
+      })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Kampanya')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Bu dönem için fiyat değişikliği hakkınız doldu.')
+    })
+
+    it('should not count the first price of a product as a revision', async () => {
+      mockTables({
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: null }),
+        price_ledger: createMockQueryBuilder({ insertData: mockPriceLedgerEntry }),
+        audit_logs: createMockQueryBuilder({}),
+      })
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Ilk fiyat')
+
+      expect(result.success).toBe(true)
+      expect(mockRevisionLimit).not.toHaveBeenCalled()
+    })
+
+    it('should fail without the service role client before writing', async () => {
+      mockSupabaseFrom = vi.fn()
+      vi.mocked(createServiceRoleSupabaseClient).mockReturnValueOnce(null)
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Kampanya')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Fiyat kaydı için sunucu yapılandırması eksik')
+      expect(mockSupabaseFrom).not.toHaveBeenCalled()
+    })
+
+    it('should require a change reason before touching the database', async () => {
+      mockSupabaseFrom = vi.fn()
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, '')
+
+      expect(result.success).toBe(false)
+      expect(mockSupabaseFrom).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('bulkChangeProductPrices()', () => {
+    it('should insert all entries in one statement with a shared reason', async () => {
+      const otherId = 'product-uuid-124'
+      const products = createMockQueryBuilder({
+        selectData: [{ id: TEST_PRODUCT_ID }, { id: otherId }] as unknown as PriceLedgerEntry[],
+      })
+      const prices = createMockQueryBuilder({
+        selectData: [
+          { ...mockCurrentPrice, price: 100 },
+          { ...mockCurrentPrice, product_id: otherId, price: 40 },
+        ] as unknown as PriceLedgerEntry[],
+      })
+      const ledger = createMockQueryBuilder({})
+      const createdEntries = [
+        { ...mockPriceLedgerEntry, id: 'entry-1', price: 110, change_reason: 'Enflasyon' },
+        { ...mockPriceLedgerEntry, id: 'entry-2', product_id: otherId, price: 45, change_reason: 'Enflasyon' },
+      ]
+      ledger.queryBuilder.then = vi.fn((callback) =>
+        Promise.resolve({ data: createdEntries, error: null }).then(callback)
+      )
+      const audit = createMockQueryBuilder({})
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        products,
+        current_prices: prices,
+        price_ledger: ledger,
+        audit_logs: audit,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await bulkChangeProductPrices(
+        TEST_ORG_ID,
+        [TEST_PRODUCT_ID, otherId],
+        { type: 'percentage', value: 10, roundTo: 5, roundMode: 'nearest' },
+        'Enflasyon'
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.data).toHaveLength(2)
+      expect(ledger.queryBuilder.insert).toHaveBeenCalledTimes(1)
+      expect(ledger.queryBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ product_id: TEST_PRODUCT_ID, price: 110, change_reason: 'Enflasyon' }),
+        expect.objectContaining({ product_id: otherId, price: 45, change_reason: 'Enflasyon' }),
+      ])
+      expect(audit.queryBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ action: 'price_change', entity_id: TEST_PRODUCT_ID }),
+        expect.objectContaining({ action: 'price_change', entity_id: otherId }),
+      ])
+      expect(mockRevisionLimit).toHaveBeenCalledWith(TEST_ORG_ID, 2)
+    })
+
+    it('should reject products outside the organization', async () => {
+      const products = createMockQueryBuilder({
+        selectData: [{ id: TEST_PRODUCT_ID }] as unknown as PriceLedgerEntry[],
+      })
+      mockSupabaseFrom = vi.fn(() => products.queryBuilder)
+
+      const result = await bulkChangeProductPrices(
+        TEST_ORG_ID,
+        [TEST_PRODUCT_ID, 'product-of-other-org'],
+        { type: 'fixed', value: 5, roundTo: 0, roundMode: 'nearest' },
+        'Enflasyon'
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Seçilen ürünlerden bazıları bulunamadı')
+    })
+  })
+
+  describe('Scheduled Price Changes', () => {
+    const futureDate = () => new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+    it('should reject an effective date in the past', async () => {
+      mockSupabaseFrom = vi.fn()
+
+      const result = await addPriceEntry(
+        TEST_PRODUCT_ID,
+        TEST_ORG_ID,
+        120,
+        'Zam',
+        'TRY',
+        null,
+        new Date(Date.now() - 60 * 1000)
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Planlanan fiyat için ileri bir tarih seçilmelidir')
+      expect(mockSupabaseFrom).not.toHaveBeenCalled()
+    })
+
+    it('should insert effective_from and allow the current price for scheduled changes', async () => {
+      const effectiveFrom = futureDate()
+      const ledger = createMockQueryBuilder({
+        insertData: {
+          ...mockPriceLedgerEntry,
+          price: 149.9,
+          effective_from: effectiveFrom.toISOString(),
+        },
+      })
+      const audit = createMockQueryBuilder({})
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        current_prices: createMockQueryBuilder({ selectData: mockCurrentPrice }),
+        price_ledger: ledger,
+        audit_logs: audit,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await changeProductPrice(TEST_PRODUCT_ID, TEST_ORG_ID, 149.9, 'Ay basi zam', {
+        effectiveFrom,
+      })
+
+      expect(result.success).toBe(true)
+      expect(ledger.queryBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ price: 149.9, effective_from: effectiveFrom.toISOString() })
+      )
+      expect(audit.queryBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          new_data: { price: 149.9, currency: 'TRY', effective_from: effectiveFrom.toISOString() },
+          metadata: expect.objectContaining({ scheduled: true }),
+        })
+      )
+    })
+
+    it('should cancel a pending entry with a cancellation row and an audit log', async () => {
+      const pending = {
+        ...mockPriceLedgerEntry,
+        price: 180,
+        effective_from: futureDate().toISOString(),
+      }
+      const cancellations = createMockQueryBuilder({})
+      const audit = createMockQueryBuilder({})
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        upcoming_price_changes: createMockQueryBuilder({
+          selectData: pending as unknown as CurrentPrice,
+        }),
+        products: createMockQueryBuilder({
+          selectData: { id: TEST_PRODUCT_ID } as unknown as CurrentPrice,
+        }),
+        price_ledger_cancellations: cancellations,
+        audit_logs: audit,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await cancelScheduledPriceChange(pending.id, TEST_ORG_ID, ' Vazgecildi ')
+
+      expect(result.success).toBe(true)
+      expect(cancellations.queryBuilder.insert).toHaveBeenCalledWith({
+        price_ledger_id: pending.id,
+        cancel_reason: 'Vazgecildi',
+        cancelled_by: TEST_USER_ID,
+      })
+      expect(audit.queryBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'price_change',
+          entity_id: TEST_PRODUCT_ID,
+          new_data: null,
+          metadata: expect.objectContaining({ scheduled_cancelled: true }),
+        })
+      )
+    })
+
+    it('should not cancel entries that are not pending', async () => {
+      const cancellations = createMockQueryBuilder({})
+      const tables: Record<string, ReturnType<typeof createMockQueryBuilder>> = {
+        upcoming_price_changes: createMockQueryBuilder({ selectData: null }),
+        price_ledger_cancellations: cancellations,
+      }
+      mockSupabaseFrom = vi.fn((table: string) => tables[table].queryBuilder)
+
+      const result = await cancelScheduledPriceChange(mockPriceLedgerEntry.id, TEST_ORG_ID)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Planlanan fiyat bulunamadı veya yürürlüğe girmiş')
+      expect(cancellations.queryBuilder.insert).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Price Statistics', () => {
     it('should calculate price statistics from history', async () => {
       const history: PriceLedgerEntry[] = [
@@ -749,6 +1191,134 @@ describe('Price Ledger Immutability', () => {
     })
   })
 
+  describe('Hash Chain', () => {
+    // Builds a chain the way the price_ledger_chain trigger does
+    const buildChain = (prices: number[]): PriceLedgerEntry[] => {
+      const chain: PriceLedgerEntry[] = []
+
+      prices.forEach((price, index) => {
+        const entry: PriceLedgerEntry = {
+          ...mockPriceLedgerEntry,
+          id: `entry-${index + 1}`,
+          price,
+          organization_id: TEST_ORG_ID,
+          chain_position: index + 1,
+          previous_hash: chain[index - 1]?.entry_hash ?? null,
+          created_at: `2024-01-1${index}T10:00:00.000Z`,
+        }
+        entry.entry_hash = createHash('sha256')
+          .update(buildPriceLedgerHashPayload(entry), 'utf8')
+          .digest('hex')
+        chain.push(entry)
+      })
+
+      return chain
+    }
+
+    it('should build the same payload as the database function', () => {
+      const payload = buildPriceLedgerHashPayload({
+        ...mockPriceLedgerEntry,
+        price: 149.9,
+        change_reason: 'Tedarikçi zammı',
+        organization_id: TEST_ORG_ID,
+        chain_position: 2,
+        previous_hash: 'abc123',
+        created_at: '2024-01-15T10:00:00.123456+00:00',
+      })
+
+      expect(payload).toBe(
+        `abc123|2|price-entry-uuid-001|${TEST_ORG_ID}|${TEST_PRODUCT_ID}||149.90|3:TRY|15:Tedarikçi zammı|${TEST_USER_ID}||2024-01-15T10:00:00.123Z`
+      )
+    })
+
+    it('should accept an intact chain', async () => {
+      expect(await findPriceLedgerChainBreak(buildChain([100, 110, 120]))).toBeNull()
+    })
+
+    it('should report an edited price at its position', async () => {
+      const chain = buildChain([100, 110, 120])
+      chain[1] = { ...chain[1], price: 90 }
+
+      expect(await findPriceLedgerChainBreak(chain)).toEqual({
+        position: 2,
+        entryId: 'entry-2',
+        reason: 'Kayıt içeriği değiştirilmiş: özet uyuşmuyor',
+      })
+    })
+
+    it('should report a deleted entry', async () => {
+      const chain = buildChain([100, 110, 120])
+      chain.splice(1, 1)
+
+      expect(await findPriceLedgerChainBreak(chain)).toEqual(
+        expect.objectContaining({ position: 3, entryId: 'entry-3' })
+      )
+    })
+
+    it('should report an entry whose hashes were recomputed after an edit', async () => {
+      const chain = buildChain([100, 110, 120])
+      const edited = { ...chain[0], price: 50 }
+      edited.entry_hash = createHash('sha256')
+        .update(buildPriceLedgerHashPayload(edited), 'utf8')
+        .digest('hex')
+      chain[0] = edited
+
+      expect(await findPriceLedgerChainBreak(chain)).toEqual({
+        position: 2,
+        entryId: 'entry-2',
+        reason: 'Önceki kaydın özeti uyuşmuyor',
+      })
+    })
+
+    it('should verify the chain of an organization', async () => {
+      const chain = buildChain([100, 110])
+      const ledgerQueries = [
+        createMockQueryBuilder({ selectData: chain }),
+        createMockQueryBuilder({ selectData: [] }),
+      ]
+      const products = createMockQueryBuilder({
+        selectData: [{ id: TEST_PRODUCT_ID }] as unknown as PriceLedgerEntry[],
+      })
+      mockSupabaseFrom = vi.fn((table: string) =>
+        table === 'price_ledger' ? ledgerQueries.shift()!.queryBuilder : products.queryBuilder
+      )
+
+      const result = await verifyPriceLedgerChain(TEST_ORG_ID)
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({
+        valid: true,
+        entryCount: 2,
+        headHash: chain[1].entry_hash,
+        brokenLink: null,
+      })
+    })
+
+    it('should report entries left out of the chain', async () => {
+      const ledgerQueries = [
+        createMockQueryBuilder({ selectData: buildChain([100]) }),
+        createMockQueryBuilder({
+          selectData: [{ id: 'inserted-without-trigger' }] as unknown as PriceLedgerEntry[],
+        }),
+      ]
+      const products = createMockQueryBuilder({
+        selectData: [{ id: TEST_PRODUCT_ID }] as unknown as PriceLedgerEntry[],
+      })
+      mockSupabaseFrom = vi.fn((table: string) =>
+        table === 'price_ledger' ? ledgerQueries.shift()!.queryBuilder : products.queryBuilder
+      )
+
+      const result = await verifyPriceLedgerChain(TEST_ORG_ID)
+
+      expect(result.data?.valid).toBe(false)
+      expect(result.data?.brokenLink).toEqual({
+        position: null,
+        entryId: 'inserted-without-trigger',
+        reason: 'Kayıt zincire bağlı değil',
+      })
+    })
+  })
+
   describe('Immutability Pattern Verification', () => {
     /**
      * These tests verify the core immutability pattern required for
@@ -812,9 +1382,9 @@ describe('Price Ledger Immutability', () => {
       const { from, queryBuilder: _queryBuilder } = createMockQueryBuilder({
         insertData: mockPriceLedgerEntry,
       })
-      mockSupabaseFrom = from
+      mockSupabaseFrom = withOwnedProduct(from)
 
-      await addPriceEntry(TEST_PRODUCT_ID, 99.9, 'Test price')
+      await addPriceEntry(TEST_PRODUCT_ID, TEST_ORG_ID, 99.9, 'Test price')
 
       // Auth should be checked to record the user
       expect(mockSupabaseAuth.getUser).toHaveBeenCalled()
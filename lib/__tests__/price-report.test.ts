@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the Price Report Service
+ *
+ * Tests the price ledger compliance report. Verifies:
+ * 1. Old prices come from the entry before, also across the range start
+ * 2. Cancelled scheduled entries are left out
+ * 3. The report hash matches the report content
+ * 4. Every PDF page carries the hash and page number
+ * 5. PDF strings are Latin-1 safe
+ *
+ * @see spec.md - Price Ledger
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const TEST_ORG_ID = 'test-org-id-123'
+const PRODUCT_ID = 'product-1'
+
+// Per-table query results; price_ledger returns one result per query in order
+let tableData: Record<string, unknown>
+let ledgerResults: unknown[][]
+
+const createQueryBuilder = (table: string) => {
+  const result = () => {
+    if (table === 'price_ledger') {
+      return { data: ledgerResults.shift() ?? [], error: null }
+    }
+    return { data: tableData[table] ?? null, error: null }
+  }
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    eq: vi.fn(() => queryBuilder),
+    in: vi.fn(() => queryBuilder),
+    gte: vi.fn(() => queryBuilder),
+    lte: vi.fn(() => queryBuilder),
+    lt: vi.fn(() => queryBuilder),
+    order: vi.fn(() => queryBuilder),
+    range: vi.fn(() => Promise.resolve(result())),
+    maybeSingle: vi.fn(() => Promise.resolve(result())),
+    then: vi.fn((callback) => Promise.resolve(result()).then(callback)),
+  }
+
+  return queryBuilder
+}
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => createQueryBuilder(table)),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceRoleSupabaseClient: vi.fn(() => null),
+}))
+
+import {
+  getPriceReport,
+  renderPriceReportPDF,
+  type PriceReport,
+  type PriceReportRow,
+} from '../services/price-report'
+import { generateSHA256Hash } from '../services/snapshot'
+import { escapePDFString } from '../pdf/writer'
+
+const createLedgerEntry = (id: string, price: number, createdAt: string) => ({
+  id,
+  product_id: PRODUCT_ID,
+  variant_id: null,
+  price,
+  currency: 'TRY',
+  change_reason: null,
+  changed_by: 'user-1',
+  effective_from: null,
+  created_at: createdAt,
+})
+
+const createRow = (index: number): PriceReportRow => ({
+  createdAt: '2026-10-01T09:00:00Z',
+  effectiveFrom: null,
+  productId: PRODUCT_ID,
+  productName: `Urun ${index}`,
+  variantName: null,
+  oldPrice: 100,
+  newPrice: 110,
+  currency: 'TRY',
+  changeReason: 'Zam',
+  changedBy: 'user-1',
+  changedByEmail: null,
+})
+
+const createReport = (rows: PriceReportRow[]): PriceReport => ({
+  organizationId: TEST_ORG_ID,
+  organizationName: 'Test Cafe',
+  startDate: '2026-09-30T21:00:00.000Z',
+  endDate: '2026-10-31T20:59:59.999Z',
+  generatedAt: '2026-11-01T08:00:00.000Z',
+  rows,
+})
+
+describe('Price Report Service', () => {
+  const start = new Date('2026-10-01T00:00:00Z')
+  const end = new Date('2026-10-31T23:59:59Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tableData = {
+      organizations: { id: TEST_ORG_ID, name: 'Test Cafe' },
+      products: [{ id: PRODUCT_ID, name: 'Latte' }],
+      price_ledger_cancellations: [],
+      product_variants: [],
+    }
+    ledgerResults = []
+  })
+
+  describe('getPriceReport()', () => {
+    it('should take the old price from the entry before the range', async () => {
+      ledgerResults = [
+        [
+          createLedgerEntry('entry-2', 110, '2026-10-05T10:00:00Z'),
+          createLedgerEntry('entry-3', 120, '2026-10-20T10:00:00Z'),
+        ],
+        [createLedgerEntry('entry-1', 100, '2026-09-01T10:00:00Z')],
+      ]
+
+      const result = await getPriceReport(TEST_ORG_ID, start, end)
+
+      expect(result.success).toBe(true)
+      expect(result.data?.report.rows.map((row) => [row.oldPrice, row.newPrice])).toEqual([
+        [100, 110],
+        [110, 120],
+      ])
+      expect(result.data?.report.rows[0].productName).toBe('Latte')
+      expect(result.data?.hash).toBe(await generateSHA256Hash(result.data?.report))
+    })
+
+    it('should leave out cancelled scheduled entries', async () => {
+      ledgerResults = [
+        [
+          createLedgerEntry('entry-1', 100, '2026-10-05T10:00:00Z'),
+          createLedgerEntry('entry-2', 150, '2026-10-06T10:00:00Z'),
+          createLedgerEntry('entry-3', 120, '2026-10-20T10:00:00Z'),
+        ],
+        [],
+      ]
+      tableData.price_ledger_cancellations = [{ price_ledger_id: 'entry-2' }]
+
+      const result = await getPriceReport(TEST_ORG_ID, start, end)
+
+      expect(result.data?.report.rows.map((row) => [row.oldPrice, row.newPrice])).toEqual([
+        [null, 100],
+        [100, 120],
+      ])
+    })
+
+    it('should reject a start date after the end date', async () => {
+      const result = await getPriceReport(TEST_ORG_ID, end, start)
+
+      expect(result.success).toBe(false)
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('renderPriceReportPDF()', () => {
+    const hash = 'a'.repeat(64)
+
+    it('should print the hash and page number on every page', () => {
+      const rows = Array.from({ length: 80 }, (_, index) => createRow(index))
+      const pdf = renderPriceReportPDF(createReport(rows), hash).toString('latin1')
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf).toContain('/Count 3')
+      expect(pdf.match(new RegExp(`SHA-256 özeti: ${hash}`, 'g'))).toHaveLength(3)
+      expect(pdf).toContain('(Sayfa 3 / 3)')
+    })
+
+    it('should render a single page for an empty report', () => {
+      const pdf = renderPriceReportPDF(createReport([]), hash).toString('latin1')
+
+      expect(pdf).toContain('/Count 1')
+      expect(pdf).toContain('Seçilen tarih araliginda fiyat degisikligi yok.')
+    })
+  })
+
+  describe('escapePDFString()', () => {
+    it('should transliterate Turkish letters outside WinAnsi', () => {
+      expect(escapePDFString('Şiş Köfte (ığ)')).toBe('Sis Köfte \\(ig\\)')
+    })
+
+    it('should replace other non Latin-1 characters', () => {
+      expect(escapePDFString('Çay ☕')).toBe('Çay ?')
+    })
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the Publish Request Service
+ *
+ * Tests the manager-to-owner publish approval. Verifies:
+ * 1. Requests record the draft hash; a second pending request is refused
+ * 2. Approval publishes the reviewed draft and links the snapshot
+ * 3. Approval of a changed menu is refused as stale
+ * 4. A failed publish reopens the request
+ * 5. Decided requests cannot be reviewed again
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const TEST_ORG_ID = 'test-org-id-123'
+const REQUEST_ID = 'request-1'
+const DRAFT_HASH = 'a'.repeat(64)
+
+// Row returned by the next select/insert/update, and every update payload
+let storedRequest: Record<string, unknown> | null
+let insertError: { code: string; message: string } | null
+let updates: Array<Record<string, unknown>>
+
+const createQueryBuilder = () => {
+  let pendingOnly = false
+  let update: Record<string, unknown> | null = null
+
+  const result = () => {
+    if (update) {
+      updates.push(update)
+      if (pendingOnly && storedRequest?.status !== 'pending') {
+        return { data: null, error: null }
+      }
+      storedRequest = storedRequest ? { ...storedRequest, ...update } : null
+    }
+    return { data: storedRequest, error: null }
+  }
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    insert: vi.fn((row: Record<string, unknown>) => {
+      storedRequest = { id: REQUEST_ID, ...row }
+      return queryBuilder
+    }),
+    update: vi.fn((changes: Record<string, unknown>) => {
+      update = changes
+      return queryBuilder
+    }),
+    eq: vi.fn((column: string, value: unknown) => {
+      if (column === 'status' && value === 'pending') {
+        pendingOnly = true
+      }
+      return queryBuilder
+    }),
+    order: vi.fn(() => queryBuilder),
+    limit: vi.fn(() => queryBuilder),
+    single: vi.fn(() =>
+      Promise.resolve(insertError ? { data: null, error: insertError } : result())
+    ),
+    maybeSingle: vi.fn(() => Promise.resolve(result())),
+    then: vi.fn((callback) => Promise.resolve(result()).then(callback)),
+  }
+
+  return queryBuilder
+}
+
+const mockSupabaseClient = {
+  from: vi.fn(() => createQueryBuilder()),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+}))
+
+const mockGetDraftMenuData = vi.fn()
+const mockCreateMenuSnapshot = vi.fn()
+
+vi.mock('@/lib/services/snapshot', () => ({
+  getDraftMenuData: (...args: unknown[]) => mockGetDraftMenuData(...args),
+  createMenuSnapshot: (...args: unknown[]) => mockCreateMenuSnapshot(...args),
+}))
+
+import {
+  createPublishRequest,
+  reviewPublishRequest,
+  cancelPublishRequest,
+} from '../services/publish-requests'
+
+const pendingRequest = () => ({
+  id: REQUEST_ID,
+  organization_id: TEST_ORG_ID,
+  status: 'pending',
+  draft_hash: DRAFT_HASH,
+  note: null,
+  requested_by: 'manager-1',
+  reviewed_by: null,
+  review_note: null,
+  snapshot_id: null,
+  created_at: '2026-10-18T09:00:00.000Z',
+  reviewed_at: null,
+})
+
+describe('Publish Requests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    storedRequest = null
+    insertError = null
+    updates = []
+    mockGetDraftMenuData.mockResolvedValue({
+      success: true,
+      data: { menuData: {}, hash: DRAFT_HASH },
+    })
+    mockCreateMenuSnapshot.mockResolvedValue({
+      success: true,
+      data: { id: 'snapshot-5', version: 5 },
+    })
+  })
+
+  describe('createPublishRequest', () => {
+    it('should record the draft hash of the current menu', async () => {
+      const result = await createPublishRequest(TEST_ORG_ID, 'manager-1', '  Yaz menusu ')
+
+      expect(result.success).toBe(true)
+      expect(result.data).toMatchObject({
+        status: 'pending',
+        draft_hash: DRAFT_HASH,
+        note: 'Yaz menusu',
+        requested_by: 'manager-1',
+      })
+    })
+
+    it('should refuse a second pending request', async () => {
+      insertError = { code: '23505', message: 'duplicate key' }
+
+      const result = await createPublishRequest(TEST_ORG_ID, 'manager-1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Onay bekleyen bir yayın talebi zaten var')
+    })
+  })
+
+  describe('reviewPublishRequest', () => {
+    it('should publish the reviewed draft on approval', async () => {
+      storedRequest = pendingRequest()
+
+      const result = await reviewPublishRequest(REQUEST_ID, TEST_ORG_ID, 'owner-1', 'approve')
+
+      expect(result.success).toBe(true)
+      expect(mockCreateMenuSnapshot).toHaveBeenCalledWith(
+        TEST_ORG_ID,
+        mockSupabaseClient,
+        DRAFT_HASH
+      )
+      expect(result.data?.request).toMatchObject({
+        status: 'approved',
+        reviewed_by: 'owner-1',
+        snapshot_id: 'snapshot-5',
+      })
+      expect(result.data?.snapshot?.version).toBe(5)
+    })
+
+    it('should refuse approval when the menu changed after the request', async () => {
+      storedRequest = pendingRequest()
+      mockGetDraftMenuData.mockResolvedValue({
+        success: true,
+        data: { menuData: {}, hash: 'b'.repeat(64) },
+      })
+
+      const result = await reviewPublishRequest(REQUEST_ID, TEST_ORG_ID, 'owner-1', 'approve')
+
+      expect(result.success).toBe(false)
+      expect(result.stale).toBe(true)
+      expect(mockCreateMenuSnapshot).not.toHaveBeenCalled()
+      expect(storedRequest?.status).toBe('pending')
+    })
+
+    it('should reopen the request when publishing fails', async () => {
+      storedRequest = pendingRequest()
+      mockCreateMenuSnapshot.mockResolvedValue({ success: false, error: 'Snapshot oluşturulamadı' })
+
+      const result = await reviewPublishRequest(REQUEST_ID, TEST_ORG_ID, 'owner-1', 'approve')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Snapshot oluşturulamadı')
+      expect(storedRequest).toMatchObject({ status: 'pending', reviewed_by: null })
+    })
+
+    it('should reject without publishing', async () => {
+      storedRequest = pendingRequest()
+
+      const result = await reviewPublishRequest(
+        REQUEST_ID,
+        TEST_ORG_ID,
+        'owner-1',
+        'reject',
+        'Fiyatlari kontrol et'
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.data?.snapshot).toBeNull()
+      expect(result.data?.request).toMatchObject({
+        status: 'rejected',
+        review_note: 'Fiyatlari kontrol et',
+      })
+      expect(mockCreateMenuSnapshot).not.toHaveBeenCalled()
+    })
+
+    it('should not review a decided request again', async () => {
+      storedRequest = { ...pendingRequest(), status: 'rejected' }
+
+      const result = await reviewPublishRequest(REQUEST_ID, TEST_ORG_ID, 'owner-1', 'approve')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Yayın talebi zaten sonuçlandırılmış')
+      expect(updates).toEqual([])
+    })
+  })
+
+  describe('cancelPublishRequest', () => {
+    it('should withdraw a pending request', async () => {
+      storedRequest = pendingRequest()
+
+      const result = await cancelPublishRequest(REQUEST_ID, TEST_ORG_ID, 'manager-1')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.status).toBe('cancelled')
+    })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for plan based retention
+ *
+ * Verifies:
+ * 1. The retention_days limit is read with the seeded feature key
+ * 2. Service requests older than the limit are archived, an override wins over the plan
+ * 3. The audit log cutoff is stored per organization (null when unlimited)
+ * 4. Legal records (price_ledger, menu_snapshots) are never touched
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const NOW = new Date('2026-10-18T03:30:00.000Z')
+
+let planRows: Array<{ organization_id: string; value_limit: number | null }>
+let overrideRows: Array<{ organization_id: string; value_limit: number | null }>
+let tables: string[]
+let featureKeys: unknown[]
+let archiveCalls: Array<{ values: unknown; filters: Record<string, unknown> }>
+let upserts: unknown[]
+let hasServiceRole: boolean
+
+const createQueryBuilder = (table: string) => {
+  const filters: Record<string, unknown> = {}
+  let updateValues: unknown = null
+
+  const result = () => {
+    if (table === 'v_organization_features') {
+      return { data: planRows, error: null }
+    }
+    if (table === 'organization_feature_overrides') {
+      return { data: overrideRows, error: null }
+    }
+    if (table === 'service_requests') {
+      archiveCalls.push({ values: updateValues, filters })
+      return { data: [{ id: 'request-1' }, { id: 'request-2' }], error: null }
+    }
+    return { data: null, error: null }
+  }
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    update: vi.fn((values: unknown) => {
+      updateValues = values
+      return queryBuilder
+    }),
+    upsert: vi.fn((row: unknown) => {
+      upserts.push(row)
+      return Promise.resolve({ error: null })
+    }),
+    eq: vi.fn((column: string, value: unknown) => {
+      if (column === 'feature_key' || column === 'features.key') {
+        featureKeys.push(value)
+      }
+      filters[column] = value
+      return queryBuilder
+    }),
+    lt: vi.fn((column: string, value: unknown) => {
+      filters[`${column}<`] = value
+      return queryBuilder
+    }),
+    is: vi.fn((column: string, value: unknown) => {
+      filters[`${column} is`] = value
+      return queryBuilder
+    }),
+    or: vi.fn(() => queryBuilder),
+    then: (resolve: (value: unknown) => void) => resolve(result()),
+  }
+
+  return queryBuilder
+}
+
+const mockAdminClient = {
+  from: vi.fn((table: string) => {
+    tables.push(table)
+    return createQueryBuilder(table)
+  }),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+  createServiceRoleSupabaseClient: vi.fn(() => (hasServiceRole ? mockAdminClient : null)),
+}))
+
+import { applyRetention, getRetentionCutoff } from '../services/retention'
+import { LIMIT_FEATURES } from '../guards/limits'
+
+describe('Retention', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    planRows = []
+    overrideRows = []
+    tables = []
+    featureKeys = []
+    archiveCalls = []
+    upserts = []
+    hasServiceRole = true
+  })
+
+  it('should read the seeded retention_days feature key', async () => {
+    expect(LIMIT_FEATURES.RETENTION_DAYS).toBe('retention_days')
+    expect(LIMIT_FEATURES.EXPORT_FORMATS).toBe('export_formats')
+
+    await applyRetention(NOW)
+
+    expect(featureKeys).toEqual(['retention_days', 'retention_days'])
+  })
+
+  it('should compute the cutoff from the limit', () => {
+    expect(getRetentionCutoff(7, NOW)?.toISOString()).toBe('2026-10-11T03:30:00.000Z')
+    expect(getRetentionCutoff(-1, NOW)).toBeNull()
+  })
+
+  it('should archive old service requests and store the audit log cutoff', async () => {
+    planRows = [
+      { organization_id: 'org-free', value_limit: 7 },
+      { organization_id: 'org-override', value_limit: 7 },
+    ]
+    overrideRows = [{ organization_id: 'org-override', value_limit: 30 }]
+
+    const result = await applyRetention(NOW)
+
+    expect(result.success).toBe(true)
+    expect(archiveCalls).toEqual([
+      {
+        values: { archived_at: NOW.toISOString() },
+        filters: {
+          organization_id: 'org-free',
+          'created_at<': '2026-10-11T03:30:00.000Z',
+          'archived_at is': null,
+        },
+      },
+      {
+        values: { archived_at: NOW.toISOString() },
+        filters: {
+          organization_id: 'org-override',
+          'created_at<': '2026-09-18T03:30:00.000Z',
+          'archived_at is': null,
+        },
+      },
+    ])
+    expect(upserts).toEqual([
+      {
+        organization_id: 'org-free',
+        retention_days: 7,
+        archived_before: '2026-10-11T03:30:00.000Z',
+        applied_at: NOW.toISOString(),
+      },
+      {
+        organization_id: 'org-override',
+        retention_days: 30,
+        archived_before: '2026-09-18T03:30:00.000Z',
+        applied_at: NOW.toISOString(),
+      },
+    ])
+    expect(result.data.map((r) => r.serviceRequestsArchived)).toEqual([2, 2])
+  })
+
+  it('should archive nothing for unlimited retention', async () => {
+    planRows = [{ organization_id: 'org-enterprise', value_limit: -1 }]
+
+    const result = await applyRetention(NOW)
+
+    expect(result.success).toBe(true)
+    expect(archiveCalls).toEqual([])
+    expect(upserts).toEqual([
+      {
+        organization_id: 'org-enterprise',
+        retention_days: -1,
+        archived_before: null,
+        applied_at: NOW.toISOString(),
+      },
+    ])
+  })
+
+  it('should never touch legal records', async () => {
+    planRows = [{ organization_id: 'org-free', value_limit: 7 }]
+
+    await applyRetention(NOW)
+
+    expect(tables).not.toContain('price_ledger')
+    expect(tables).not.toContain('menu_snapshots')
+    expect(tables).not.toContain('audit_logs')
+  })
+
+  it('should fail without the service role client', async () => {
+    hasServiceRole = false
+
+    const result = await applyRetention(NOW)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Kayıt saklama işi için sunucu yapılandırması eksik')
+  })
+})
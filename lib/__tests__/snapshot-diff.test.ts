@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the snapshot diff
+ *
+ * Verifies:
+ * 1. Base and variant price changes with old and new values
+ * 2. Renames, description, allergen and category changes
+ * 3. Added and removed products and categories
+ * 4. Unchanged products are left out
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffMenuSnapshots } from '../services/snapshot-diff'
+import type { MenuSnapshotData } from '../services/snapshot'
+
+type Product = MenuSnapshotData['products'][number]
+
+const createProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'prod-1',
+  name: 'Latte',
+  description: 'Sutlu kahve',
+  category_id: 'cat-1',
+  image_url: null,
+  allergens: ['milk'],
+  nutrition: null,
+  price: 85,
+  currency: 'TRY',
+  ...overrides,
+})
+
+const createMenu = (products: Product[], categories: MenuSnapshotData['categories'] = [
+  { id: 'cat-1', name: 'Sicak Icecekler', slug: 'sicak', parent_id: null, sort_order: 0 },
+  { id: 'cat-2', name: 'Soguk Icecekler', slug: 'soguk', parent_id: null, sort_order: 1 },
+]): MenuSnapshotData => ({
+  organization: {
+    id: 'org-1',
+    name: 'Test Cafe',
+    slug: 'test-cafe',
+    logo_url: null,
+    cover_url: null,
+    settings: {},
+  },
+  categories,
+  products,
+  metadata: {
+    generated_at: '2026-10-18T09:00:00.000Z',
+    product_count: products.length,
+    category_count: categories.length,
+  },
+})
+
+describe('Snapshot Diff', () => {
+  it('should list base and variant price changes', () => {
+    const variants = [{ id: 'var-1', name: 'Buyuk', price: 100, currency: 'TRY', sort_order: 0 }]
+    const before = createMenu([createProduct({ variants })])
+    const after = createMenu([
+      createProduct({
+        price: 95,
+        variants: [
+          { ...variants[0], price: 110 },
+          { id: 'var-2', name: 'Kucuk', price: 70, currency: 'TRY', sort_order: 1 },
+        ],
+      }),
+    ])
+
+    const diff = diffMenuSnapshots(before, after)
+
+    expect(diff.products).toHaveLength(1)
+    expect(diff.products[0].prices).toEqual([
+      { variantId: null, variantName: null, from: 85, to: 95, currency: 'TRY' },
+      { variantId: 'var-1', variantName: 'Buyuk', from: 100, to: 110, currency: 'TRY' },
+      { variantId: 'var-2', variantName: 'Kucuk', from: null, to: 70, currency: 'TRY' },
+    ])
+    expect(diff.summary.priceChanges).toBe(2)
+  })
+
+  it('should report renames, descriptions, allergens and category moves', () => {
+    const before = createMenu([createProduct()])
+    const after = createMenu([
+      createProduct({
+        name: 'Caffe Latte',
+        description: null,
+        allergens: ['milk', 'nuts'],
+        category_id: 'cat-2',
+      }),
+    ])
+
+    const [change] = diffMenuSnapshots(before, after).products
+
+    expect(change).toEqual({
+      productId: 'prod-1',
+      name: 'Caffe Latte',
+      type: 'changed',
+      prices: [],
+      rename: { from: 'Latte', to: 'Caffe Latte' },
+      description: { from: 'Sutlu kahve', to: null },
+      allergens: { added: ['nuts'], removed: [] },
+      category: {
+        from: { id: 'cat-1', name: 'Sicak Icecekler' },
+        to: { id: 'cat-2', name: 'Soguk Icecekler' },
+      },
+    })
+  })
+
+  it('should not compare allergens while they are not published', () => {
+    const before = createMenu([createProduct({ allergens: null })])
+    const after = createMenu([createProduct()])
+
+    expect(diffMenuSnapshots(before, after).products).toEqual([])
+  })
+
+  it('should report added and removed products and categories', () => {
+    const before = createMenu([createProduct(), createProduct({ id: 'prod-2', name: 'Mocha', price: 90 })])
+    const after = createMenu(
+      [createProduct(), createProduct({ id: 'prod-3', name: 'Limonata', price: 60, category_id: 'cat-3' })],
+      [
+        { id: 'cat-1', name: 'Sicak Icecekler', slug: 'sicak', parent_id: null, sort_order: 0 },
+        { id: 'cat-3', name: 'Ferahlatici', slug: 'ferah', parent_id: 'cat-1', sort_order: 1 },
+      ]
+    )
+
+    const diff = diffMenuSnapshots(before, after)
+
+    expect(diff.products.map((change) => [change.name, change.type, change.prices[0]])).toEqual([
+      ['Limonata', 'added', { variantId: null, variantName: null, from: null, to: 60, currency: 'TRY' }],
+      ['Mocha', 'removed', { variantId: null, variantName: null, from: 90, to: null, currency: 'TRY' }],
+    ])
+    expect(diff.categories.map((change) => [change.name, change.type])).toEqual([
+      ['Ferahlatici', 'added'],
+      ['Soguk Icecekler', 'removed'],
+    ])
+    expect(diff.summary).toEqual({ added: 2, removed: 2, changed: 0, priceChanges: 0 })
+  })
+
+  it('should report category renames and parent moves', () => {
+    const before = createMenu([])
+    const after = createMenu([], [
+      { id: 'cat-1', name: 'Kahveler', slug: 'sicak', parent_id: null, sort_order: 0 },
+      { id: 'cat-2', name: 'Soguk Icecekler', slug: 'soguk', parent_id: 'cat-1', sort_order: 1 },
+    ])
+
+    expect(diffMenuSnapshots(before, after).categories).toEqual([
+      {
+        categoryId: 'cat-1',
+        name: 'Kahveler',
+        type: 'changed',
+        rename: { from: 'Sicak Icecekler', to: 'Kahveler' },
+      },
+      {
+        categoryId: 'cat-2',
+        name: 'Soguk Icecekler',
+        type: 'changed',
+        parent: { from: { id: null, name: null }, to: { id: 'cat-1', name: 'Kahveler' } },
+      },
+    ])
+  })
+
+  it('should treat everything as added without a published menu', () => {
+    const diff = diffMenuSnapshots(null, createMenu([createProduct()]))
+
+    expect(diff.summary).toEqual({ added: 3, removed: 0, changed: 0, priceChanges: 0 })
+  })
+
+  it('should leave out unchanged products', () => {
+    const menu = createMenu([createProduct()])
+
+    expect(diffMenuSnapshots(menu, createMenu([createProduct()]))).toEqual({
+      products: [],
+      categories: [],
+      summary: { added: 0, removed: 0, changed: 0, priceChanges: 0 },
+    })
+  })
+})
@@ -9,6 +9,11 @@
  * 4. Snapshot creation includes proper hash
  * 5. Hash tampering is detected
  * 6. Compliance export includes verified hash
+ * 7. Hash chain over versions detects deleted, replaced and edited versions
+ * 8. Canonical JSON keeps hashes stable when JSONB reorders keys, and
+ *    JSON.stringify hashes still verify after JSONB reordered them
+ * 9. Public verification of pasted hashes and uploaded exports
+ * 10. Looking up the snapshot that was live at a given moment
  *
  * CRITICAL: Hash verification is essential for regulatory compliance!
  * - Each menu publish creates a SHA-256 hash of the content
@@ -93,6 +98,7 @@ const mockSnapshot: MenuSnapshot = {
   hash: 'a'.repeat(64), // Will be replaced with real hash in tests
   version: 1,
   created_at: '2024-01-15T10:00:00.000Z',
+  hash_algorithm: 'sha256-canonical-v2',
 }
 
 // Mock Supabase query builder factory
@@ -113,6 +119,7 @@ const createMockQueryBuilder = (mockConfig: {
     }),
     eq: vi.fn(() => queryBuilder),
     in: vi.fn(() => queryBuilder),
+    lte: vi.fn(() => queryBuilder),
     order: vi.fn(() => queryBuilder),
     limit: vi.fn(() => queryBuilder),
     range: vi.fn(() => queryBuilder),
@@ -178,7 +185,18 @@ import {
   compareSnapshots,
   exportSnapshotForCompliance,
   getCurrentMenuSnapshotBySlug,
+  computeSnapshotHash,
+  findSnapshotChainBreak,
+  verifySnapshotChain,
+  getSnapshotChainDigest,
+  computeDraftHash,
+  verifyPublishedSnapshot,
+  getSnapshotAt,
+  sha256Hex,
+  SNAPSHOT_GENESIS_HASH,
+  type MenuSnapshotData,
 } from '../services/snapshot'
+import { canonicalJSON } from '../json/canonical'
 
 describe('Snapshot Hash Validation - SHA-256', () => {
   beforeEach(() => {
@@ -459,6 +477,109 @@ describe('Snapshot Hash Validation - SHA-256', () => {
             })),
           }
         } else if (callCount === 5) {
+          // Variants query (none active)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => ({
+                  order: vi.fn(() => Promise.resolve({ data: [], error: null })),
+                })),
+              })),
+            })),
+          }
+        } else if (callCount === 6) {
+          // Product modifier groups query (none attached)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                order: vi.fn(() => Promise.resolve({ data: [], error: null })),
+              })),
+            })),
+          }
+        } else if (callCount === 7) {
+          // Cross-sell links query (none defined)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                order: vi.fn(() => Promise.resolve({ data: [], error: null })),
+              })),
+            })),
+          }
+        } else if (callCount === 8) {
+          // Product badges query (none assigned)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => Promise.resolve({ data: [], error: null })),
+              })),
+            })),
+          }
+        } else if (callCount === 9) {
+          // module_allergens override query (none)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => ({
+                  or: vi.fn(() => ({
+                    maybeSingle: vi.fn(() => Promise.resolve({ data: null, error: null })),
+                  })),
+                })),
+              })),
+            })),
+          }
+        } else if (callCount === 10) {
+          // module_allergens plan feature query (enabled)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => ({
+                  maybeSingle: vi.fn(() =>
+                    Promise.resolve({
+                      data: {
+                        value_boolean: true,
+                        value_limit: null,
+                        plan_name: 'Lite',
+                        feature_type: 'boolean',
+                      },
+                      error: null,
+                    })
+                  ),
+                })),
+              })),
+            })),
+          }
+        } else if (callCount === 11) {
+          // Active bundles query (none defined)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => ({
+                  order: vi.fn(() => Promise.resolve({ data: [], error: null })),
+                })),
+              })),
+            })),
+          }
+        } else if (callCount === 12) {
+          // Happy hour rules query (none active)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => Promise.resolve({ data: [], error: null })),
+              })),
+            })),
+          }
+        } else if (callCount === 13) {
+          // Published languages query (none enabled)
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                eq: vi.fn(() => ({
+                  order: vi.fn(() => Promise.resolve({ data: [], error: null })),
+                })),
+              })),
+            })),
+          }
+        } else if (callCount === 14) {
           // Get latest version
           return {
             select: vi.fn(() => ({
@@ -892,10 +1013,8 @@ describe('Snapshot Hash Validation - SHA-256', () => {
       const hash1 = await generateSHA256Hash(obj1)
       const hash2 = await generateSHA256Hash(obj2)
 
-      // Note: JSON.stringify is deterministic for same structure
-      // but property order matters - this tests the implementation
       expect(hash1).toMatch(SHA256_HASH_REGEX)
-      expect(hash2).toMatch(SHA256_HASH_REGEX)
+      expect(hash1).toBe(hash2)
     })
 
     it('should preserve hash integrity across snapshot retrieval', async () => {
@@ -919,6 +1038,417 @@ describe('Snapshot Hash Validation - SHA-256', () => {
     })
   })
 
+  describe('Snapshot Hash Chain', () => {
+    // Versions as createMenuSnapshot publishes them; `legacy` versions were
+    // published before hash chaining
+    const buildChain = async (prices: number[], legacy: number = 0): Promise<MenuSnapshot[]> => {
+      const chain: MenuSnapshot[] = []
+
+      for (const [index, price] of prices.entries()) {
+        const data = {
+          ...mockMenuSnapshotData,
+          products: [{ ...mockMenuSnapshotData.products[0], price }],
+        }
+        const previousHash =
+          index < legacy ? null : chain[index - 1]?.hash ?? SNAPSHOT_GENESIS_HASH
+
+        chain.push({
+          ...mockSnapshot,
+          id: `snapshot-${index + 1}`,
+          version: index + 1,
+          snapshot_data: data as unknown as Json,
+          previous_hash: previousHash,
+          hash: await computeSnapshotHash(data, previousHash),
+        })
+      }
+
+      return chain
+    }
+
+    it('should hash legacy snapshots by content and chained ones with the previous hash', async () => {
+      const legacyHash = await computeSnapshotHash(mockMenuSnapshotData, null)
+      const chainedHash = await computeSnapshotHash(mockMenuSnapshotData, SNAPSHOT_GENESIS_HASH)
+
+      expect(legacyHash).toBe(await generateSHA256Hash(mockMenuSnapshotData))
+      expect(chainedHash).not.toBe(legacyHash)
+      expect(await computeSnapshotHash(mockMenuSnapshotData, 'b'.repeat(64))).not.toBe(chainedHash)
+    })
+
+    it('should accept an intact chain that starts with legacy versions', async () => {
+      const chain = await buildChain([250, 260, 270], 1)
+
+      expect(await findSnapshotChainBreak(chain)).toBeNull()
+    })
+
+    it('should detect a deleted version', async () => {
+      const chain = await buildChain([250, 260, 270])
+      chain.splice(1, 1)
+
+      expect(await findSnapshotChainBreak(chain)).toEqual(
+        expect.objectContaining({ version: 3, snapshotId: 'snapshot-3' })
+      )
+    })
+
+    it('should detect a version replaced with a new valid hash', async () => {
+      const chain = await buildChain([250, 260, 270])
+      const replacedData = { ...mockMenuSnapshotData, products: [] }
+      chain[1] = {
+        ...chain[1],
+        snapshot_data: replacedData as unknown as Json,
+        hash: await computeSnapshotHash(replacedData, chain[1].previous_hash ?? null),
+      }
+
+      expect(await findSnapshotChainBreak(chain)).toEqual(
+        expect.objectContaining({ version: 3, reason: expect.stringContaining('Önceki sürümün özeti') })
+      )
+    })
+
+    it('should detect edited content', async () => {
+      const chain = await buildChain([250, 260])
+      chain[1] = { ...chain[1], snapshot_data: mockMenuSnapshotData as unknown as Json }
+
+      expect(await findSnapshotChainBreak(chain)).toEqual(
+        expect.objectContaining({ version: 2, reason: 'Sürüm içeriği değiştirilmiş: özet uyuşmuyor' })
+      )
+    })
+
+    it('should reject an unchained version after chained ones', async () => {
+      const chain = await buildChain([250, 260])
+      chain[1] = {
+        ...chain[1],
+        previous_hash: null,
+        hash: await computeSnapshotHash(chain[1].snapshot_data, null),
+      }
+
+      expect(await findSnapshotChainBreak(chain)).toEqual(
+        expect.objectContaining({ version: 2, reason: 'Sürüm zincire bağlı değil' })
+      )
+    })
+
+    it('should verify the whole history of an organization', async () => {
+      const chain = await buildChain([250, 260, 270], 1)
+      const { from } = createMockQueryBuilder({ selectData: chain })
+      mockSupabaseFrom = from
+
+      const result = await verifySnapshotChain(TEST_ORG_ID)
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({
+        valid: true,
+        snapshotCount: 3,
+        legacyCount: 1,
+        head: { version: 3, hash: chain[2].hash, created_at: chain[2].created_at },
+        brokenLink: null,
+      })
+    })
+
+    it('should build a chain head digest over the listed heads', async () => {
+      const heads = [
+        {
+          organization_id: TEST_ORG_ID,
+          organization_slug: 'test-restaurant',
+          snapshot_id: TEST_SNAPSHOT_ID,
+          version: 3,
+          hash: 'c'.repeat(64),
+          created_at: '2024-01-15T10:00:00.000Z',
+        },
+      ]
+      const { from, queryBuilder } = createMockQueryBuilder({
+        selectData: heads as unknown as MenuSnapshot[],
+      })
+      mockSupabaseFrom = from
+
+      const result = await getSnapshotChainDigest(undefined, TEST_ORG_ID)
+
+      expect(from).toHaveBeenCalledWith('menu_snapshot_chain_heads')
+      expect(queryBuilder.eq).toHaveBeenCalledWith('organization_id', TEST_ORG_ID)
+      expect(result.data?.heads).toEqual(heads)
+      expect(result.data?.digest).toBe(
+        await generateSHA256Hash({ generated_at: result.data?.generated_at, heads })
+      )
+    })
+  })
+
+  describe('Canonical JSON Hashing', () => {
+    // Reverses key order at every level, as JSONB may return stored data
+    const reorderKeys = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(reorderKeys)
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).reverse().map(([key, item]) => [key, reorderKeys(item)])
+        )
+      }
+      return value
+    }
+
+    it('should sort keys at every level and keep array order', () => {
+      expect(canonicalJSON({ b: [{ y: 1, x: 2 }, 'z'], a: null })).toBe(
+        '{"a":null,"b":[{"x":2,"y":1},"z"]}'
+      )
+    })
+
+    it('should normalize numbers and dates', () => {
+      expect(canonicalJSON({ price: 250.5, zero: -0, count: 1e2 })).toBe(
+        '{"count":100,"price":250.5,"zero":0}'
+      )
+      expect(canonicalJSON({ at: new Date('2024-01-15T13:00:00+03:00') })).toBe(
+        '{"at":"2024-01-15T10:00:00.000Z"}'
+      )
+    })
+
+    it('should leave out undefined members like JSON.stringify', () => {
+      expect(canonicalJSON({ a: undefined, b: [undefined], c: 'Çay' })).toBe(
+        '{"b":[null],"c":"Çay"}'
+      )
+    })
+
+    it('should verify a snapshot whose data comes back with reordered keys', async () => {
+      const hash = await computeSnapshotHash(mockMenuSnapshotData, SNAPSHOT_GENESIS_HASH)
+      const { from } = createMockQueryBuilder({
+        selectData: {
+          ...mockSnapshot,
+          snapshot_data: reorderKeys(mockMenuSnapshotData) as Json,
+          previous_hash: SNAPSHOT_GENESIS_HASH,
+          hash,
+        },
+      })
+      mockSupabaseFrom = from
+
+      const result = await verifySnapshotHash(TEST_SNAPSHOT_ID)
+
+      expect(result.isValid).toBe(true)
+      expect(result.algorithm).toBe('sha256-canonical-v2')
+    })
+
+    it('should keep verifying snapshots hashed with JSON.stringify', async () => {
+      const legacySnapshot: MenuSnapshot = {
+        ...mockSnapshot,
+        hash_algorithm: 'sha256-json-v1',
+        hash: await computeSnapshotHash(mockMenuSnapshotData, null, 'sha256-json-v1'),
+      }
+      const { from } = createMockQueryBuilder({ selectData: legacySnapshot })
+      mockSupabaseFrom = from
+
+      const result = await verifySnapshotHash(TEST_SNAPSHOT_ID)
+
+      expect(legacySnapshot.hash).not.toBe(await generateSHA256Hash(mockMenuSnapshotData))
+      expect(result.isValid).toBe(true)
+      expect(result.algorithm).toBe('sha256-json-v1')
+    })
+
+    // Key order of JSONB: shorter keys first, then by bytes
+    const jsonbOrder = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(jsonbOrder)
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value)
+            .sort(([a], [b]) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0))
+            .map(([key, item]) => [key, jsonbOrder(item)])
+        )
+      }
+      return value
+    }
+
+    it('should verify a snapshot published before this series as stored in JSONB', async () => {
+      const menu = {
+        ...mockMenuSnapshotData,
+        organization: { ...mockMenuSnapshotData.organization, settings: jsonbOrder({ theme: 'dark', currency: 'TRY' }) },
+      }
+      // createMenuSnapshot used to hash JSON.stringify of the collected menu
+      const hash = await sha256Hex(JSON.stringify(menu, null, 0))
+      const stored = jsonbOrder(menu) as Json
+
+      expect(JSON.stringify(stored)).not.toBe(JSON.stringify(menu))
+
+      const { hash_algorithm: _algorithm, ...unversioned } = mockSnapshot
+      const { from } = createMockQueryBuilder({
+        selectData: { ...unversioned, snapshot_data: stored, previous_hash: null, hash },
+      })
+      mockSupabaseFrom = from
+
+      const result = await verifySnapshotHash(TEST_SNAPSHOT_ID)
+
+      expect(result.algorithm).toBe('sha256-json-v1')
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should accept a chain that starts with JSONB ordered legacy versions', async () => {
+      const legacyHash = await sha256Hex(JSON.stringify(mockMenuSnapshotData, null, 0))
+      const nextData = { ...mockMenuSnapshotData, products: [] }
+      const chain: MenuSnapshot[] = [
+        {
+          ...mockSnapshot,
+          id: 'snapshot-1',
+          hash_algorithm: 'sha256-json-v1',
+          snapshot_data: jsonbOrder(mockMenuSnapshotData) as Json,
+          previous_hash: null,
+          hash: legacyHash,
+        },
+        {
+          ...mockSnapshot,
+          id: 'snapshot-2',
+          version: 2,
+          snapshot_data: jsonbOrder(nextData) as Json,
+          previous_hash: legacyHash,
+          hash: await computeSnapshotHash(nextData, legacyHash),
+        },
+      ]
+
+      expect(await findSnapshotChainBreak(chain)).toBeNull()
+    })
+
+    it('should treat snapshots without an algorithm as sha256-json-v1', async () => {
+      const { hash_algorithm: _algorithm, ...unversioned } = mockSnapshot
+      const { from } = createMockQueryBuilder({
+        selectData: { ...unversioned, hash: await generateSHA256Hash(mockMenuSnapshotData) },
+      })
+      mockSupabaseFrom = from
+
+      const result = await verifySnapshotHash(TEST_SNAPSHOT_ID)
+
+      expect(result.algorithm).toBe('sha256-json-v1')
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should give the same draft hash for menus collected at different times', async () => {
+      const menu = mockMenuSnapshotData as unknown as MenuSnapshotData
+      const later: MenuSnapshotData = {
+        ...menu,
+        metadata: { ...menu.metadata, generated_at: '2030-01-01T00:00:00.000Z' },
+      }
+      const renamed: MenuSnapshotData = {
+        ...later,
+        products: [{ ...later.products[0], name: 'Yeni Ad' }, ...later.products.slice(1)],
+      }
+
+      expect(await computeDraftHash(later)).toBe(await computeDraftHash(menu))
+      expect(await computeDraftHash(renamed)).not.toBe(await computeDraftHash(menu))
+    })
+  })
+
+  describe('Public Verification', () => {
+    const publishedSnapshot = async (): Promise<MenuSnapshot> => ({
+      ...mockSnapshot,
+      previous_hash: SNAPSHOT_GENESIS_HASH,
+      hash: await computeSnapshotHash(mockMenuSnapshotData, SNAPSHOT_GENESIS_HASH),
+    })
+
+    it('should find a pasted hash among the published snapshots', async () => {
+      const snapshot = await publishedSnapshot()
+      const { from } = createMockQueryBuilder({ selectData: snapshot })
+      mockSupabaseFrom = from
+
+      const result = await verifyPublishedSnapshot('test-restaurant', {
+        hash: ` ${snapshot.hash.toUpperCase()} `,
+      })
+
+      expect(result.data).toEqual({
+        hash: snapshot.hash,
+        found: true,
+        contentMatches: null,
+        version: 1,
+        publishedAt: snapshot.created_at,
+        isCurrent: true,
+        storedValid: true,
+      })
+    })
+
+    it('should verify an uploaded compliance export', async () => {
+      const snapshot = await publishedSnapshot()
+      const { from } = createMockQueryBuilder({ selectData: snapshot })
+      mockSupabaseFrom = from
+
+      const result = await verifyPublishedSnapshot('test-restaurant', {
+        snapshot: { snapshot, menuData: mockMenuSnapshotData, verification: {} },
+      })
+
+      expect(result.data?.contentMatches).toBe(true)
+      expect(result.data?.found).toBe(true)
+    })
+
+    it('should detect an edited export that keeps its hash', async () => {
+      const snapshot = await publishedSnapshot()
+      const { from } = createMockQueryBuilder({ selectData: snapshot })
+      mockSupabaseFrom = from
+
+      const edited = {
+        ...snapshot,
+        snapshot_data: {
+          ...mockMenuSnapshotData,
+          products: mockMenuSnapshotData.products.map((p) => ({ ...p, price: 1 })),
+        },
+      }
+      const result = await verifyPublishedSnapshot('test-restaurant', { snapshot: edited })
+
+      expect(result.data?.contentMatches).toBe(false)
+    })
+
+    it('should report hashes no snapshot of the menu has', async () => {
+      const organization = createMockQueryBuilder({ selectData: mockSnapshot })
+      const snapshots = createMockQueryBuilder({ selectData: null })
+      mockSupabaseFrom = vi.fn((table: string) =>
+        table === 'organizations' ? organization.queryBuilder : snapshots.queryBuilder
+      )
+
+      const result = await verifyPublishedSnapshot('test-restaurant', { hash: 'b'.repeat(64) })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toMatchObject({ found: false, version: null, isCurrent: false })
+    })
+
+    it('should reject malformed hashes and files', async () => {
+      const { from } = createMockQueryBuilder({ selectData: mockSnapshot })
+      mockSupabaseFrom = from
+
+      const badHash = await verifyPublishedSnapshot('test-restaurant', { hash: 'abc' })
+      const badFile = await verifyPublishedSnapshot('test-restaurant', { snapshot: { foo: 1 } })
+
+      expect(badHash.success).toBe(false)
+      expect(badFile.success).toBe(false)
+      expect(from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Historical Lookup', () => {
+    it('should return the latest version published before the moment', async () => {
+      const { from, queryBuilder } = createMockQueryBuilder({
+        selectData: { ...mockSnapshot, version: 3 },
+      })
+      mockSupabaseFrom = from
+
+      const result = await getSnapshotAt(TEST_ORG_ID, new Date('2024-03-01T20:30:00+03:00'))
+
+      expect(result.success).toBe(true)
+      expect(result.data?.version).toBe(3)
+      expect(queryBuilder.lte).toHaveBeenCalledWith('created_at', '2024-03-01T17:30:00.000Z')
+      expect(queryBuilder.eq).toHaveBeenCalledWith('version', 3)
+    })
+
+    it('should report moments before the first publish', async () => {
+      const { from } = createMockQueryBuilder({ selectData: null })
+      mockSupabaseFrom = from
+
+      const result = await getSnapshotAt(TEST_ORG_ID, new Date('2020-01-01T00:00:00Z'))
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Bu tarihte yayında bir menü yoktu')
+    })
+
+    it('should reject invalid dates', async () => {
+      const { from } = createMockQueryBuilder({ selectData: mockSnapshot })
+      mockSupabaseFrom = from
+
+      const result = await getSnapshotAt(TEST_ORG_ID, new Date('not a date'))
+
+      expect(result.success).toBe(false)
+      expect(from).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Input Validation', () => {
     it('should require organization ID for getCurrentMenuSnapshot', async () => {
       const result = await getCurrentMenuSnapshot('')
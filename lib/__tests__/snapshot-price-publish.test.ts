@@ -0,0 +1,290 @@
+/**
+ * Unit tests for publishing price changes without a publish request
+ *
+ * Verifies:
+ * 1. The new version is the published menu with the current ledger prices,
+ *    including add-on option and bundle prices
+ * 2. Draft tables (products, categories, ...) are not read, so unapproved
+ *    edits stay unpublished
+ * 3. Happy hour windows are rebuilt from the active rules and new prices
+ * 4. Nothing is published while the organization has no published menu
+ * 5. A version taken by a concurrent publish is chained to, not duplicated
+ * 6. Nothing is published when no published price changed
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { MenuSnapshot, Json } from '@/types/database'
+
+const TEST_ORG_ID = 'test-org-id-123'
+
+const publishedData = {
+  organization: {
+    id: TEST_ORG_ID,
+    name: 'Test Cafe',
+    slug: 'test-cafe',
+    logo_url: null,
+    cover_url: null,
+    settings: {},
+  },
+  categories: [{ id: 'cat-1', name: 'Kahveler', slug: 'kahveler', parent_id: null, sort_order: 1 }],
+  products: [
+    {
+      id: 'prod-1',
+      name: 'Latte',
+      description: null,
+      category_id: 'cat-1',
+      image_url: null,
+      allergens: null,
+      nutrition: null,
+      price: 85,
+      currency: 'TRY',
+      variants: [
+        { id: 'var-1', name: 'Buyuk', price: 100, currency: 'TRY', sort_order: 1 },
+      ],
+      modifier_groups: [
+        {
+          id: 'group-1',
+          name: 'Ekstralar',
+          min_selections: 0,
+          max_selections: 2,
+          is_required: false,
+          options: [{ id: 'opt-1', name: 'Karamel', price: 10, currency: 'TRY' }],
+        },
+      ],
+    },
+    {
+      id: 'prod-2',
+      name: 'Cay',
+      description: null,
+      category_id: null,
+      image_url: null,
+      allergens: null,
+      nutrition: null,
+      price: 20,
+      currency: 'TRY',
+    },
+  ],
+  bundles: [
+    {
+      id: 'bundle-1',
+      name: 'Kahvalti Menu',
+      description: null,
+      image_url: null,
+      sort_order: 0,
+      price: 120,
+      currency: 'TRY',
+      items: [
+        { product_id: 'prod-1', name: 'Latte', quantity: 1 },
+        { product_id: 'prod-2', name: 'Cay', quantity: 1 },
+      ],
+    },
+  ],
+  metadata: { generated_at: '2026-10-01T09:00:00.000Z', product_count: 2, category_count: 1 },
+}
+
+const publishedSnapshot: MenuSnapshot = {
+  id: 'snapshot-3',
+  organization_id: TEST_ORG_ID,
+  snapshot_data: publishedData as unknown as Json,
+  hash: '3'.repeat(64),
+  previous_hash: '2'.repeat(64),
+  hash_algorithm: 'sha256-canonical-v2',
+  version: 3,
+  created_at: '2026-10-03T09:00:00.000Z',
+}
+
+// menu_snapshots reads return these in order; other tables return their rows
+let snapshotReads: Array<MenuSnapshot | null>
+// menu_snapshots inserts fail with these errors in order, then succeed
+let insertErrors: Array<{ code: string; message: string }>
+let tableRows: Record<string, unknown[]>
+let inserted: Record<string, Array<Record<string, unknown>>>
+let readTables: string[]
+
+const createQueryBuilder = (table: string) => {
+  let insertRow: Record<string, unknown> | null = null
+
+  const single = () => {
+    if (insertRow && table === 'menu_snapshots' && insertErrors.length > 0) {
+      return Promise.resolve({ data: null, error: insertErrors.shift() })
+    }
+
+    return Promise.resolve(
+      insertRow
+        ? { data: { id: 'snapshot-new', created_at: '2026-10-18T09:00:00.000Z', ...insertRow }, error: null }
+        : { data: snapshotReads.shift() ?? null, error: null }
+    )
+  }
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    insert: vi.fn((row: Record<string, unknown>) => {
+      insertRow = row
+      inserted[table] = [...(inserted[table] || []), row]
+      return queryBuilder
+    }),
+    eq: vi.fn(() => queryBuilder),
+    in: vi.fn(() => queryBuilder),
+    order: vi.fn(() => queryBuilder),
+    limit: vi.fn(() => queryBuilder),
+    single: vi.fn(single),
+    maybeSingle: vi.fn(single),
+    then: (resolve: (value: unknown) => unknown) =>
+      resolve({ data: insertRow ? null : tableRows[table] || [], error: null }),
+  }
+
+  return queryBuilder
+}
+
+const mockAdminClient = {
+  auth: {
+    getUser: vi.fn(() => Promise.resolve({ data: { user: null }, error: null })),
+  },
+  from: vi.fn((table: string) => {
+    readTables.push(table)
+    return createQueryBuilder(table)
+  }),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(),
+  createServiceRoleSupabaseClient: vi.fn(() => mockAdminClient),
+}))
+
+vi.mock('@/lib/guards/permission', () => ({
+  hasPermission: vi.fn(() => Promise.resolve(true)),
+}))
+
+import { publishPriceChanges, computeSnapshotHash } from '../services/snapshot'
+
+describe('Price change publishing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    inserted = {}
+    insertErrors = []
+    readTables = []
+    tableRows = {
+      current_prices: [
+        { product_id: 'prod-1', price: 95, currency: 'TRY' },
+        { product_id: 'prod-2', price: 20, currency: 'TRY' },
+      ],
+      current_variant_prices: [{ variant_id: 'var-1', price: 110, currency: 'TRY' }],
+      current_modifier_prices: [{ option_id: 'opt-1', price: '12.50', currency: 'TRY' }],
+      current_bundle_prices: [{ bundle_id: 'bundle-1', price: '130.00', currency: 'TRY' }],
+      price_rules: [],
+      current_discounted_prices: [],
+    }
+  })
+
+  it('should publish the current prices on top of the published menu', async () => {
+    // Latest published snapshot, next version lookup
+    snapshotReads = [publishedSnapshot, publishedSnapshot]
+
+    const result = await publishPriceChanges(TEST_ORG_ID)
+
+    expect(result.success).toBe(true)
+    expect(inserted.menu_snapshots).toHaveLength(1)
+
+    const snapshot = inserted.menu_snapshots[0]
+    const data = snapshot.snapshot_data as typeof publishedData
+
+    expect(snapshot).toMatchObject({
+      version: 4,
+      previous_hash: publishedSnapshot.hash,
+      hash: await computeSnapshotHash(snapshot.snapshot_data, publishedSnapshot.hash),
+    })
+    expect(data.products[0]).toMatchObject({ name: 'Latte', price: 95 })
+    expect(data.products[0].variants).toEqual([
+      { id: 'var-1', name: 'Buyuk', price: 110, currency: 'TRY', sort_order: 1 },
+    ])
+    expect(data.products[1].price).toBe(20)
+    expect(data.products[0].modifier_groups?.[0].options).toEqual([
+      { id: 'opt-1', name: 'Karamel', price: 12.5, currency: 'TRY' },
+    ])
+    expect(data.bundles[0]).toMatchObject({ name: 'Kahvalti Menu', price: 130 })
+    expect(data.categories).toEqual(publishedData.categories)
+  })
+
+  it('should publish nothing when no published price changed', async () => {
+    snapshotReads = [publishedSnapshot]
+    tableRows.current_prices = [
+      { product_id: 'prod-1', price: 85, currency: 'TRY' },
+      { product_id: 'prod-2', price: 20, currency: 'TRY' },
+      // First price of a product that is not published yet
+      { product_id: 'prod-new', price: 40, currency: 'TRY' },
+    ]
+    tableRows.current_variant_prices = [{ variant_id: 'var-1', price: 100, currency: 'TRY' }]
+    tableRows.current_modifier_prices = [{ option_id: 'opt-1', price: '10.00', currency: 'TRY' }]
+    tableRows.current_bundle_prices = [{ bundle_id: 'bundle-1', price: '120.00', currency: 'TRY' }]
+
+    const result = await publishPriceChanges(TEST_ORG_ID)
+
+    expect(result).toEqual({ success: true })
+    expect(inserted).toEqual({})
+  })
+
+  it('should not read the draft menu', async () => {
+    snapshotReads = [publishedSnapshot, publishedSnapshot]
+
+    await publishPriceChanges(TEST_ORG_ID)
+
+    expect(readTables).not.toContain('products')
+    expect(readTables).not.toContain('categories')
+    expect(readTables).not.toContain('organizations')
+  })
+
+  it('should rebuild happy hour windows from the active rules', async () => {
+    snapshotReads = [publishedSnapshot, publishedSnapshot]
+    tableRows.price_rules = [
+      {
+        id: 'rule-1',
+        organization_id: TEST_ORG_ID,
+        name: 'Sabah',
+        product_id: null,
+        category_id: 'cat-1',
+        discount_type: 'percentage',
+        discount_value: 20,
+        days_of_week: [1, 2, 3, 4, 5],
+        start_time: '08:00:00',
+        end_time: '11:00:00',
+        is_active: true,
+      },
+    ]
+
+    await publishPriceChanges(TEST_ORG_ID)
+
+    const data = inserted.menu_snapshots[0].snapshot_data as {
+      products: Array<{ price_rules?: Array<{ rule_id: string; price: number }> }>
+    }
+
+    expect(data.products[0].price_rules).toEqual([
+      expect.objectContaining({ rule_id: 'rule-1', price: 76 }),
+    ])
+    expect(data.products[1].price_rules).toBeUndefined()
+    expect(inserted.discounted_price_ledger).toEqual([
+      [expect.objectContaining({ product_id: 'prod-1', base_price: 95, price: 76 })],
+    ])
+  })
+
+  it('should chain to a version published at the same time', async () => {
+    const concurrent: MenuSnapshot = { ...publishedSnapshot, id: 'snapshot-4', version: 4, hash: '4'.repeat(64) }
+    // Published menu, head before the insert, head after the conflict
+    snapshotReads = [publishedSnapshot, publishedSnapshot, concurrent]
+    insertErrors = [{ code: '23505', message: 'duplicate key value violates unique constraint' }]
+
+    const result = await publishPriceChanges(TEST_ORG_ID)
+
+    expect(result.success).toBe(true)
+    expect(inserted.menu_snapshots.map((row) => row.version)).toEqual([4, 5])
+    expect(result.data).toMatchObject({ version: 5, previous_hash: concurrent.hash })
+  })
+
+  it('should publish nothing without a published menu', async () => {
+    snapshotReads = [null]
+
+    const result = await publishPriceChanges(TEST_ORG_ID)
+
+    expect(result).toEqual({ success: true })
+    expect(inserted).toEqual({})
+  })
+})
@@ -0,0 +1,337 @@
+/**
+ * Unit tests for menu snapshot rollback
+ *
+ * Verifies:
+ * 1. Rollback publishes the old version's content as a new version through
+ *    the rollback_menu_snapshot database function (one transaction)
+ * 2. The new version is chained to the latest hash; old rows are not updated
+ * 3. The `publish` audit entry with a rollback note is passed to the function
+ * 4. Rolling back to the content already live is refused
+ * 5. Product, add-on and bundle prices that differ from the current ones are
+ *    passed to the function ("rollback to vN")
+ * 6. A version taken by a concurrent publish is retried on the new head
+ * 7. Nothing is reported as published when the function fails
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { MenuSnapshot, Json } from '@/types/database'
+
+const TEST_ORG_ID = 'test-org-id-123'
+const USER_ID = 'owner-1'
+
+const menuData = (price: number, extraPrice = 10, bundlePrice = 120) => ({
+  organization: {
+    id: TEST_ORG_ID,
+    name: 'Test Cafe',
+    slug: 'test-cafe',
+    logo_url: null,
+    cover_url: null,
+    settings: {},
+  },
+  categories: [],
+  products: [
+    {
+      id: 'prod-1',
+      name: 'Latte',
+      description: null,
+      category_id: null,
+      image_url: null,
+      allergens: null,
+      nutrition: null,
+      price,
+      currency: 'TRY',
+      modifier_groups: [
+        {
+          id: 'group-1',
+          name: 'Ekstralar',
+          min_selections: 0,
+          max_selections: 1,
+          is_required: false,
+          options: [{ id: 'option-1', name: 'Ekstra shot', price: extraPrice, currency: 'TRY' }],
+        },
+      ],
+    },
+  ],
+  bundles: [
+    {
+      id: 'bundle-1',
+      name: 'Kahvalti',
+      description: null,
+      image_url: null,
+      sort_order: 0,
+      price: bundlePrice,
+      currency: 'TRY',
+      items: [{ product_id: 'prod-1', name: 'Latte', quantity: 1 }],
+    },
+  ],
+  metadata: { generated_at: '2026-10-01T09:00:00.000Z', product_count: 1, category_count: 0 },
+})
+
+const createSnapshot = (version: number, data: ReturnType<typeof menuData>): MenuSnapshot => ({
+  id: `snapshot-${version}`,
+  organization_id: TEST_ORG_ID,
+  snapshot_data: data as unknown as Json,
+  hash: String(version).repeat(64),
+  previous_hash: String(version - 1).repeat(64),
+  hash_algorithm: 'sha256-canonical-v2',
+  version,
+  created_at: `2026-10-0${version}T09:00:00.000Z`,
+})
+
+type Price = { price: number; currency: string }
+
+// menu_snapshots reads return these in order; updates are recorded
+let snapshotReads: Array<MenuSnapshot | null>
+let updated: unknown[]
+let rpcCalls: Array<{ name: string; args: Record<string, unknown> }>
+let rpcErrors: Array<{ code: string; message: string } | null>
+let currentPrices: Array<{ product_id: string } & Price>
+let currentModifierPrices: Array<{ option_id: string } & Price>
+let currentBundlePrices: Array<{ bundle_id: string } & Price>
+
+const createQueryBuilder = () => {
+  const result = () => Promise.resolve({ data: snapshotReads.shift() ?? null, error: null })
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    update: vi.fn((row: unknown) => {
+      updated.push(row)
+      return queryBuilder
+    }),
+    eq: vi.fn(() => queryBuilder),
+    order: vi.fn(() => queryBuilder),
+    limit: vi.fn(() => queryBuilder),
+    single: vi.fn(result),
+    maybeSingle: vi.fn(result),
+  }
+
+  return queryBuilder
+}
+
+// Ownership and current price lookups
+const createRowsBuilder = (rows: unknown[]) => {
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    eq: vi.fn(() => queryBuilder),
+    in: vi.fn(() => queryBuilder),
+    then: (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null }),
+  }
+
+  return queryBuilder
+}
+
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(() => Promise.resolve({ data: { user: { id: USER_ID } }, error: null })),
+  },
+  from: vi.fn((table: string) => {
+    switch (table) {
+      case 'products':
+        return createRowsBuilder([{ id: 'prod-1' }])
+      case 'modifier_options':
+        return createRowsBuilder([{ id: 'option-1' }])
+      case 'bundles':
+        return createRowsBuilder([{ id: 'bundle-1' }])
+      case 'product_variants':
+      case 'current_variant_prices':
+        return createRowsBuilder([])
+      case 'current_prices':
+        return createRowsBuilder(currentPrices)
+      case 'current_modifier_prices':
+        return createRowsBuilder(currentModifierPrices)
+      case 'current_bundle_prices':
+        return createRowsBuilder(currentBundlePrices)
+      default:
+        return createQueryBuilder()
+    }
+  }),
+}
+
+const mockAdminClient = {
+  rpc: vi.fn((name: string, args: Record<string, unknown>) => {
+    rpcCalls.push({ name, args })
+    const error = rpcErrors.shift() ?? null
+    const snapshot = args.p_snapshot as Record<string, unknown>
+
+    return Promise.resolve(
+      error
+        ? { data: null, error }
+        : {
+            data: {
+              id: 'snapshot-new',
+              organization_id: args.p_organization_id,
+              created_at: '2026-10-18T09:00:00.000Z',
+              ...snapshot,
+            },
+            error: null,
+          }
+    )
+  }),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceRoleSupabaseClient: vi.fn(() => mockAdminClient),
+}))
+
+import { rollbackMenuSnapshot, computeSnapshotHash } from '../services/snapshot'
+
+describe('Snapshot Rollback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    updated = []
+    rpcCalls = []
+    rpcErrors = []
+    currentPrices = [{ product_id: 'prod-1', price: 85, currency: 'TRY' }]
+    currentModifierPrices = [{ option_id: 'option-1', price: 10, currency: 'TRY' }]
+    currentBundlePrices = [{ bundle_id: 'bundle-1', price: 120, currency: 'TRY' }]
+  })
+
+  it('should publish the old content as a new chained version in one call', async () => {
+    const target = createSnapshot(2, menuData(85))
+    const latest = createSnapshot(3, menuData(95))
+    // getSnapshotByVersion, getCurrentMenuSnapshot, next version lookup
+    snapshotReads = [target, latest, latest]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID, ' Yanlis fiyat ')
+
+    expect(result.success).toBe(true)
+    expect(rpcCalls).toHaveLength(1)
+    expect(rpcCalls[0].name).toBe('rollback_menu_snapshot')
+    expect(rpcCalls[0].args).toMatchObject({
+      p_organization_id: TEST_ORG_ID,
+      p_user_id: USER_ID,
+      p_change_reason: 'rollback to v2',
+      p_snapshot: {
+        snapshot_data: target.snapshot_data,
+        previous_hash: latest.hash,
+        hash_algorithm: 'sha256-canonical-v2',
+        version: 4,
+        hash: await computeSnapshotHash(target.snapshot_data, latest.hash),
+      },
+    })
+    expect(result.data?.version).toBe(4)
+    expect(updated).toEqual([])
+  })
+
+  it('should pass the publish audit entry with a rollback note', async () => {
+    const latest = createSnapshot(3, menuData(95))
+    snapshotReads = [createSnapshot(2, menuData(85)), latest, latest]
+
+    await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID, ' Yanlis fiyat ')
+
+    expect(rpcCalls[0].args.p_audit).toEqual({
+      old_data: { version: 3, hash: latest.hash },
+      metadata: {
+        trigger: 'rollback',
+        rolled_back_to: 2,
+        note: 'v2 sürümüne geri alındı',
+        reason: 'Yanlis fiyat',
+        restored_prices: 0,
+      },
+    })
+  })
+
+  it('should refuse to republish the content already live', async () => {
+    snapshotReads = [createSnapshot(2, menuData(85)), createSnapshot(3, menuData(85))]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Bu sürümün içeriği zaten yayında')
+    expect(rpcCalls).toEqual([])
+  })
+
+  it('should restore product prices that differ from the current ones', async () => {
+    const latest = createSnapshot(3, menuData(95))
+    snapshotReads = [createSnapshot(2, menuData(85)), latest, latest]
+    currentPrices = [{ product_id: 'prod-1', price: 95, currency: 'TRY' }]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID)
+
+    expect(result.success).toBe(true)
+    expect(rpcCalls[0].args).toMatchObject({
+      p_prices: [
+        {
+          product_id: 'prod-1',
+          variant_id: null,
+          price: 85,
+          currency: 'TRY',
+          old_data: { price: 95, currency: 'TRY' },
+        },
+      ],
+      p_modifier_prices: [],
+      p_bundle_prices: [],
+      p_discounted_prices: [],
+    })
+    expect(rpcCalls[0].args.p_audit).toMatchObject({
+      metadata: expect.objectContaining({ restored_prices: 1 }),
+    })
+  })
+
+  it('should restore add-on and bundle prices in the same call', async () => {
+    const latest = createSnapshot(3, menuData(85, 15, 140))
+    snapshotReads = [createSnapshot(2, menuData(85)), latest, latest]
+    currentModifierPrices = [{ option_id: 'option-1', price: 15, currency: 'TRY' }]
+    currentBundlePrices = [{ bundle_id: 'bundle-1', price: 140, currency: 'TRY' }]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID)
+
+    expect(result.success).toBe(true)
+    expect(rpcCalls[0].args).toMatchObject({
+      p_prices: [],
+      p_modifier_prices: [
+        { option_id: 'option-1', price: 10, currency: 'TRY', old_data: { price: 15, currency: 'TRY' } },
+      ],
+      p_bundle_prices: [
+        { bundle_id: 'bundle-1', price: 120, currency: 'TRY', old_data: { price: 140, currency: 'TRY' } },
+      ],
+    })
+    expect(rpcCalls[0].args.p_audit).toMatchObject({
+      metadata: expect.objectContaining({ restored_prices: 2 }),
+    })
+  })
+
+  it('should chain to a version published at the same time', async () => {
+    const target = createSnapshot(2, menuData(85))
+    const latest = createSnapshot(3, menuData(95))
+    const concurrent = createSnapshot(4, menuData(99))
+    snapshotReads = [target, latest, latest, concurrent]
+    rpcErrors = [{ code: '23505', message: 'duplicate key value' }]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID)
+
+    expect(result.success).toBe(true)
+    expect(rpcCalls).toHaveLength(2)
+    expect(rpcCalls[1].args.p_snapshot).toMatchObject({
+      previous_hash: concurrent.hash,
+      version: 5,
+      hash: await computeSnapshotHash(target.snapshot_data, concurrent.hash),
+    })
+    expect(rpcCalls[1].args.p_audit).toMatchObject({
+      old_data: { version: 4, hash: concurrent.hash },
+    })
+  })
+
+  it('should report nothing published when the transaction fails', async () => {
+    const latest = createSnapshot(3, menuData(95))
+    snapshotReads = [createSnapshot(2, menuData(85)), latest, latest]
+    rpcErrors = [{ code: '23503', message: 'insert or update violates foreign key constraint' }]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 2, USER_ID)
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Menü geri alınamadı: insert or update violates foreign key constraint',
+    })
+  })
+
+  it('should fail for unknown versions', async () => {
+    snapshotReads = [null]
+
+    const result = await rollbackMenuSnapshot(TEST_ORG_ID, 9, USER_ID)
+
+    expect(result.success).toBe(false)
+    expect(rpcCalls).toEqual([])
+  })
+})
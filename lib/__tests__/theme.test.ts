@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the public menu theme
+ *
+ * Verifies:
+ * 1. Parsing of organizations.settings.theme with defaults
+ * 2. Theme editor validation (format, ranges, contrast)
+ * 3. CSS variables for the public pages
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_MENU_THEME,
+  parseMenuTheme,
+  validateMenuTheme,
+  buildThemeVariables,
+  getContrastRatio,
+} from '../services/theme'
+
+describe('Menu Theme', () => {
+  describe('parseMenuTheme', () => {
+    it('should return null when no theme is set', () => {
+      expect(parseMenuTheme(undefined)).toBeNull()
+      expect(parseMenuTheme('dark')).toBeNull()
+      expect(parseMenuTheme([])).toBeNull()
+    })
+
+    it('should fill missing or malformed values with defaults', () => {
+      expect(
+        parseMenuTheme({ primaryColor: '#AA0000', fontFamily: 'comic', borderRadius: 99 })
+      ).toEqual({ ...DEFAULT_MENU_THEME, primaryColor: '#aa0000' })
+    })
+
+    it('should keep valid values', () => {
+      const theme = { ...DEFAULT_MENU_THEME, fontFamily: 'serif', borderRadius: 0, spacing: 24 }
+      expect(parseMenuTheme(theme)).toEqual(theme)
+    })
+  })
+
+  describe('validateMenuTheme', () => {
+    it('should accept the default theme', () => {
+      expect(validateMenuTheme(DEFAULT_MENU_THEME)).toBeNull()
+    })
+
+    it('should reject invalid colors', () => {
+      expect(validateMenuTheme({ ...DEFAULT_MENU_THEME, textColor: 'black' })).toBe(
+        'Renkler #RRGGBB formatında olmalıdır'
+      )
+    })
+
+    it('should reject unknown fonts', () => {
+      expect(validateMenuTheme({ ...DEFAULT_MENU_THEME, fontFamily: 'Comic Sans' })).toBe(
+        'Geçersiz yazı tipi'
+      )
+    })
+
+    it('should reject out of range sizes', () => {
+      expect(validateMenuTheme({ ...DEFAULT_MENU_THEME, borderRadius: 30 })).toBe(
+        'Köşe yuvarlaklığı 0-24 px arasında olmalıdır'
+      )
+      expect(validateMenuTheme({ ...DEFAULT_MENU_THEME, spacing: 4 })).toBe(
+        'Boşluk 8-32 px arasında olmalıdır'
+      )
+    })
+
+    it('should reject unreadable text colors', () => {
+      expect(
+        validateMenuTheme({ ...DEFAULT_MENU_THEME, textColor: '#eeeeee' })
+      ).toBe('Metin rengi arka plan ve ürün kartları üzerinde okunabilir olmalıdır')
+    })
+
+    it('should reject a primary color too light for white text', () => {
+      expect(validateMenuTheme({ ...DEFAULT_MENU_THEME, primaryColor: '#ffee88' })).toBe(
+        'Ana renk üzerinde beyaz yazı okunabilir olmalıdır'
+      )
+    })
+  })
+
+  it('should compute WCAG contrast ratios', () => {
+    expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21)
+    expect(getContrastRatio('#777777', '#777777')).toBe(1)
+  })
+
+  it('should build CSS variables with the default theme as fallback', () => {
+    expect(buildThemeVariables()).toMatchObject({
+      '--menu-primary': '#16a34a',
+      '--menu-radius': '8px',
+      '--menu-spacing': '16px',
+    })
+    expect(
+      buildThemeVariables({ ...DEFAULT_MENU_THEME, fontFamily: 'serif' })['--menu-font']
+    ).toContain('Georgia')
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for Limit Guards
+ *
+ * Tests the periodic limit support used by limit_price_revisions. Verifies:
+ * 1. Calendar period boundaries (UTC, weeks start on Monday)
+ * 2. Periodic limits only count items of the current period
+ * 3. Price revision checks for one or many prices (no limit row = unlimited)
+ * 4. Limit statuses include the revision count and reset time
+ *
+ * @see paketler.md - Fiyat Revize
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const TEST_ORG_ID = 'test-org-id-123'
+
+// Per-table query results
+let tableData: Record<string, { data?: unknown; count?: number }>
+let gteCalls: Array<[string, string]>
+
+const createQueryBuilder = (table: string) => {
+  const result = () => ({
+    data: tableData[table]?.data ?? null,
+    count: tableData[table]?.count ?? null,
+    error: null,
+  })
+
+  const queryBuilder = {
+    select: vi.fn(() => queryBuilder),
+    eq: vi.fn(() => queryBuilder),
+    or: vi.fn(() => queryBuilder),
+    not: vi.fn(() => queryBuilder),
+    gte: vi.fn((column: string, value: string) => {
+      gteCalls.push([column, value])
+      return queryBuilder
+    }),
+    maybeSingle: vi.fn(() => Promise.resolve(result())),
+    then: vi.fn((callback) => Promise.resolve(result()).then(callback)),
+  }
+
+  return queryBuilder
+}
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => createQueryBuilder(table)),
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerSupabaseClient: vi.fn(() => Promise.resolve(mockSupabaseClient)),
+}))
+
+import {
+  getPeriodStart,
+  getPeriodEnd,
+  checkPriceRevisionLimit,
+  getAllLimitStatuses,
+} from '../limits'
+
+describe('Limit Guards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gteCalls = []
+    tableData = {
+      features: { data: { limit_period: 'month' } },
+      organization_feature_overrides: { data: null },
+      v_organization_features: { data: { value_limit: 2, plan_name: 'Lite', feature_type: 'limit' } },
+      price_revisions: { count: 1 },
+    }
+  })
+
+  describe('getPeriodStart() / getPeriodEnd()', () => {
+    const now = new Date('2026-10-18T15:30:00Z') // Sunday
+
+    it('should return calendar boundaries in UTC', () => {
+      expect(getPeriodStart('day', now).toISOString()).toBe('2026-10-18T00:00:00.000Z')
+      expect(getPeriodStart('month', now).toISOString()).toBe('2026-10-01T00:00:00.000Z')
+      expect(getPeriodStart('year', now).toISOString()).toBe('2026-01-01T00:00:00.000Z')
+      expect(getPeriodEnd('month', now).toISOString()).toBe('2026-11-01T00:00:00.000Z')
+    })
+
+    it('should start weeks on Monday', () => {
+      expect(getPeriodStart('week', now).toISOString()).toBe('2026-10-12T00:00:00.000Z')
+      expect(getPeriodEnd('week', now).toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    })
+
+    it('should roll over to the next year in December', () => {
+      const december = new Date('2026-12-31T23:00:00Z')
+      expect(getPeriodEnd('month', december).toISOString()).toBe('2027-01-01T00:00:00.000Z')
+    })
+  })
+
+  describe('checkPriceRevisionLimit()', () => {
+    it('should allow a revision while the monthly quota lasts', async () => {
+      const result = await checkPriceRevisionLimit(TEST_ORG_ID)
+
+      expect(result.canAdd).toBe(true)
+      expect(result.currentCount).toBe(1)
+      expect(result.remaining).toBe(1)
+      expect(result.period).toBe('month')
+      expect(gteCalls).toEqual([['created_at', getPeriodStart('month').toISOString()]])
+    })
+
+    it('should reject a revision when the quota is used up', async () => {
+      tableData.price_revisions = { count: 2 }
+
+      const result = await checkPriceRevisionLimit(TEST_ORG_ID)
+
+      expect(result.canAdd).toBe(false)
+      expect(result.message).toContain('fiyat değişikliği hakkınız doldu')
+    })
+
+    it('should reject bulk changes larger than the remaining quota', async () => {
+      const result = await checkPriceRevisionLimit(TEST_ORG_ID, 5)
+
+      expect(result.canAdd).toBe(false)
+      expect(result.message).toContain('sadece 1 fiyat değişikliği')
+    })
+
+    it('should allow any number of revisions on unlimited plans', async () => {
+      tableData.v_organization_features = {
+        data: { value_limit: -1, plan_name: 'Gold', feature_type: 'limit' },
+      }
+
+      const result = await checkPriceRevisionLimit(TEST_ORG_ID, 100)
+
+      expect(result.canAdd).toBe(true)
+      expect(result.isUnlimited).toBe(true)
+    })
+
+    it('should treat a missing limit row as unlimited', async () => {
+      tableData.v_organization_features = { data: null }
+      tableData.price_revisions = { count: 50 }
+
+      const result = await checkPriceRevisionLimit(TEST_ORG_ID, 10)
+
+      expect(result.canAdd).toBe(true)
+      expect(result.isUnlimited).toBe(true)
+      expect(result.source).toBe('none')
+    })
+  })
+
+  describe('getAllLimitStatuses()', () => {
+    it('should report the revisions of the current period with the reset time', async () => {
+      tableData.v_organization_features = {
+        data: [{ feature_key: 'limit_price_revisions', value_limit: 2, plan_name: 'Lite', feature_type: 'limit' }],
+      }
+      tableData.features = { data: [{ key: 'limit_price_revisions', limit_period: 'month' }] }
+
+      const statuses = await getAllLimitStatuses(TEST_ORG_ID)
+
+      expect(statuses).toEqual([
+        expect.objectContaining({
+          featureKey: 'limit_price_revisions',
+          currentCount: 1,
+          limit: 2,
+          usagePercent: 50,
+          period: 'month',
+          resetsAt: getPeriodEnd('month').toISOString(),
+        }),
+      ])
+    })
+  })
+})
@@ -9,9 +9,13 @@
  * - limit_categories: Max categories per organization
  * - limit_products: Max products per organization
  * - limit_languages: Number of language translations
- * - limit_retention_days: Audit log retention period
- * - limit_export_formats: Number of export format options
+ * - retention_days: Audit log and service request retention period (days)
+ * - export_formats: Number of export format options
  * - ai_token_quota: Monthly AI token allocation
+ * - limit_price_revisions: Price changes per period (features.limit_period)
+ *
+ * Limits with a `features.limit_period` (day, week, month, year) only count
+ * items created in the current period, so the quota renews every period.
  *
  * IMPORTANT: All limit checks are dynamic from database!
  * NO hard-coded plan limits in application code.
@@ -33,17 +37,45 @@ export const LIMIT_FEATURES = {
   CATEGORIES: 'limit_categories',
   PRODUCTS: 'limit_products',
   LANGUAGES: 'limit_languages',
-  RETENTION_DAYS: 'limit_retention_days',
-  EXPORT_FORMATS: 'limit_export_formats',
+  RETENTION_DAYS: 'retention_days',
+  EXPORT_FORMATS: 'export_formats',
   AI_TOKENS: 'ai_token_quota',
+  PRICE_REVISIONS: 'limit_price_revisions',
 } as const
 
 export type LimitFeatureKey = typeof LIMIT_FEATURES[keyof typeof LIMIT_FEATURES]
 
+/**
+ * Reset period of a periodic limit (features.limit_period)
+ */
+export type LimitPeriod = 'day' | 'week' | 'month' | 'year'
+
 /**
  * Entity types that can be counted for limit checking
  */
-export type CountableEntity = 'categories' | 'products' | 'restaurant_tables'
+export type CountableEntity =
+  | 'categories'
+  | 'products'
+  | 'restaurant_tables'
+  | 'organization_languages'
+  | 'price_revisions'
+
+/**
+ * Message shown when the price revision quota of the period is used up
+ * (also mapped from the price_ledger_revision_limit trigger, SQLSTATE EM429)
+ */
+export const PRICE_REVISION_LIMIT_MESSAGE =
+  'Bu dönem için fiyat değişikliği hakkınız doldu. Paketinizi yükselterek daha fazla değişiklik yapabilirsiniz.'
+
+/**
+ * Turkish names of the limit periods for messages
+ */
+const PERIOD_LABELS: Record<LimitPeriod, string> = {
+  day: 'gün',
+  week: 'hafta',
+  month: 'ay',
+  year: 'yıl',
+}
 
 /**
  * Result of a limit check operation
@@ -63,6 +95,8 @@ export interface LimitCheckResult {
   source: 'plan' | 'override' | 'none'
   /** Plan name if applicable */
   planName?: string
+  /** Reset period for periodic limits */
+  period?: LimitPeriod
   /** User-friendly message (Turkish) */
   message: string
 }
@@ -85,13 +119,89 @@ export interface LimitStatus {
   source: 'plan' | 'override' | 'none'
   /** Plan name if applicable */
   planName?: string
+  /** Reset period for periodic limits */
+  period?: LimitPeriod
+  /** When the current period ends (ISO timestamp, periodic limits only) */
+  resetsAt?: string
+}
+
+/**
+ * Get the start of the current limit period.
+ *
+ * Periods are calendar based in UTC; weeks start on Monday.
+ *
+ * @param period - The limit period
+ * @param now - Reference time (default: now)
+ * @returns Date - Start of the period containing `now`
+ *
+ * @example
+ * ```typescript
+ * getPeriodStart('month', new Date('2026-10-18T12:00:00Z')) // 2026-10-01T00:00:00Z
+ * ```
+ */
+export function getPeriodStart(period: LimitPeriod, now: Date = new Date()): Date {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+  const day = now.getUTCDate()
+
+  switch (period) {
+    case 'day':
+      return new Date(Date.UTC(year, month, day))
+    case 'week':
+      return new Date(Date.UTC(year, month, day - ((now.getUTCDay() + 6) % 7)))
+    case 'month':
+      return new Date(Date.UTC(year, month, 1))
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1))
+  }
+}
+
+/**
+ * Get the end of the current limit period (start of the next one).
+ *
+ * @param period - The limit period
+ * @param now - Reference time (default: now)
+ * @returns Date - Start of the next period
+ */
+export function getPeriodEnd(period: LimitPeriod, now: Date = new Date()): Date {
+  const start = getPeriodStart(period, now)
+
+  switch (period) {
+    case 'day':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1))
+    case 'week':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 7))
+    case 'month':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    case 'year':
+      return new Date(Date.UTC(start.getUTCFullYear() + 1, 0, 1))
+  }
+}
+
+/**
+ * Get the reset period of a limit feature.
+ *
+ * @param featureKey - The limit feature key (e.g., 'limit_price_revisions')
+ * @returns Promise<LimitPeriod | null> - Period or null for total-count limits
+ */
+export async function getLimitPeriod(featureKey: string): Promise<LimitPeriod | null> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data } = await supabase
+    .from('features')
+    .select('limit_period')
+    .eq('key', featureKey)
+    .maybeSingle()
+
+  return (data?.limit_period as LimitPeriod | null) ?? null
 }
 
 /**
  * Check if an organization can add more items based on their plan limit.
  *
  * This is the main guard function for limit-type features. It:
- * 1. Gets the current count of items for the organization
+ * 1. Gets the current count of items for the organization (only the current
+ *    period for periodic limits)
  * 2. Gets the limit from plan features or overrides
  * 3. Returns whether adding one more item is allowed
  *
@@ -118,7 +228,12 @@ export async function checkLimit(
   const supabase = await createServerSupabaseClient()
 
   // Step 1: Get current count of entities
-  const currentCount = await getEntityCount(organizationId, entityType)
+  const period = await getLimitPeriod(featureKey)
+  const currentCount = await getEntityCount(
+    organizationId,
+    entityType,
+    period ? getPeriodStart(period) : undefined
+  )
 
   // Step 2: Check for organization-specific override first (ABAC layer)
   const { data: override } = await supabase
@@ -136,7 +251,7 @@ export async function checkLimit(
 
   // If there's a valid override with a limit, use it
   if (override?.value_limit !== null && override?.value_limit !== undefined) {
-    return buildLimitResult(currentCount, override.value_limit, 'override')
+    return buildLimitResult(currentCount, override.value_limit, 'override', null, period)
   }
 
   // Step 3: Check subscription plan features via v_organization_features view
@@ -149,11 +264,11 @@ export async function checkLimit(
 
   if (!planFeature) {
     // No subscription or feature not found - deny by default
-    return buildLimitResult(currentCount, 0, 'none')
+    return buildLimitResult(currentCount, 0, 'none', null, period)
   }
 
   const limit = planFeature.value_limit ?? 0
-  return buildLimitResult(currentCount, limit, 'plan', planFeature.plan_name)
+  return buildLimitResult(currentCount, limit, 'plan', planFeature.plan_name, period)
 }
 
 /**
@@ -163,7 +278,8 @@ function buildLimitResult(
   currentCount: number,
   limit: number,
   source: 'plan' | 'override' | 'none',
-  planName?: string | null
+  planName?: string | null,
+  period?: LimitPeriod | null
 ): LimitCheckResult {
   const isUnlimited = limit < 0
   const remaining = isUnlimited ? Infinity : Math.max(0, limit - currentCount)
@@ -174,6 +290,10 @@ function buildLimitResult(
     message = 'Bu özellik mevcut paketinizde bulunmamaktadır.'
   } else if (isUnlimited) {
     message = 'Sınırsız kullanım hakkınız var.'
+  } else if (period) {
+    message = canAdd
+      ? `Bu ${PERIOD_LABELS[period]} ${remaining} hakkınız kaldı.`
+      : `Bu ${PERIOD_LABELS[period]} için limitiniz doldu. Paketinizi yükselterek daha fazla hak kazanabilirsiniz.`
   } else if (canAdd) {
     message = `${remaining} adet daha ekleyebilirsiniz.`
   } else {
@@ -188,6 +308,7 @@ function buildLimitResult(
     remaining: isUnlimited ? Infinity : remaining,
     source,
     planName: planName ?? undefined,
+    period: period ?? undefined,
     message,
   }
 }
@@ -199,11 +320,13 @@ function buildLimitResult(
  *
  * @param organizationId - The UUID of the organization
  * @param entityType - The type of entity to count
+ * @param since - Only count items created at or after this time (periodic limits)
  * @returns Promise<number> - Current count of entities
  */
 export async function getEntityCount(
   organizationId: string,
-  entityType: CountableEntity
+  entityType: CountableEntity,
+  since?: Date
 ): Promise<number> {
   const supabase = await createServerSupabaseClient()
 
@@ -234,6 +357,28 @@ export async function getEntityCount(
       count = tableCount ?? 0
       break
     }
+    case 'organization_languages': {
+      const { count: languageCount } = await supabase
+        .from('organization_languages')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+      // The base menu language (products.name) always counts as one language
+      count = (languageCount ?? 0) + 1
+      break
+    }
+    case 'price_revisions': {
+      // First prices of new products/variants are not revisions (see view)
+      let query = supabase
+        .from('price_revisions')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+      if (since) {
+        query = query.gte('created_at', since.toISOString())
+      }
+      const { count: revisionCount } = await query
+      count = revisionCount ?? 0
+      break
+    }
   }
 
   return count
@@ -271,19 +416,35 @@ export async function getAllLimitStatuses(
     return []
   }
 
+  // Reset periods of periodic limits
+  const { data: periodicFeatures } = await supabase
+    .from('features')
+    .select('key, limit_period')
+    .not('limit_period', 'is', null)
+
+  const periods: Record<string, LimitPeriod> = {}
+  for (const feature of periodicFeatures ?? []) {
+    periods[feature.key] = feature.limit_period as LimitPeriod
+  }
+
+  const revisionPeriod = periods[LIMIT_FEATURES.PRICE_REVISIONS] ?? 'month'
+
   // Get counts for countable entities
-  const [categoryCount, productCount] = await Promise.all([
+  const [categoryCount, productCount, languageCount, revisionCount] = await Promise.all([
     getEntityCount(organizationId, 'categories'),
     getEntityCount(organizationId, 'products'),
+    getEntityCount(organizationId, 'organization_languages'),
+    getEntityCount(organizationId, 'price_revisions', getPeriodStart(revisionPeriod)),
   ])
 
   const countMap: Record<string, number> = {
     limit_categories: categoryCount,
     limit_products: productCount,
+    limit_languages: languageCount,
+    limit_price_revisions: revisionCount,
     // Other limit features don't have direct entity counts
-    limit_languages: 0,
-    limit_retention_days: 0,
-    limit_export_formats: 0,
+    retention_days: 0,
+    export_formats: 0,
     ai_token_quota: 0,
   }
 
@@ -292,6 +453,7 @@ export async function getAllLimitStatuses(
     const isUnlimited = limit < 0
     const currentCount = countMap[feature.feature_key] ?? 0
     const usagePercent = isUnlimited ? 0 : limit > 0 ? Math.min(100, (currentCount / limit) * 100) : 0
+    const period = periods[feature.feature_key]
 
     return {
       featureKey: feature.feature_key,
@@ -301,6 +463,8 @@ export async function getAllLimitStatuses(
       usagePercent: Math.round(usagePercent),
       source: 'plan' as const,
       planName: feature.plan_name,
+      period,
+      resetsAt: period ? getPeriodEnd(period).toISOString() : undefined,
     }
   })
 }
@@ -396,3 +560,56 @@ export async function validateBulkAdd(
       : `${countToAdd} adet eklemek istiyorsunuz ancak sadece ${result.remaining} adet ekleyebilirsiniz.`,
   }
 }
+
+/**
+ * Validate that N price revisions fit into the current period's limit.
+ *
+ * Called before a price change is written to price_ledger. The first price
+ * of a new product or variant is not a revision and needs no check. An
+ * organization without a limit_price_revisions row (plan or override) is
+ * treated as unlimited, like a -1 limit. This is an early check only: the
+ * price_ledger_revision_limit trigger enforces the limit inside the INSERT,
+ * so concurrent changes cannot go over it.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param revisionCount - Number of prices about to change (default: 1)
+ * @returns Promise<LimitCheckResult> - Result indicating if the change is allowed
+ *
+ * @example
+ * ```typescript
+ * const limit = await checkPriceRevisionLimit(orgId, productIds.length)
+ * if (!limit.canAdd) {
+ *   return { success: false, error: limit.message }
+ * }
+ * ```
+ */
+export async function checkPriceRevisionLimit(
+  organizationId: string,
+  revisionCount: number = 1
+): Promise<LimitCheckResult> {
+  const result = await checkLimit(organizationId, LIMIT_FEATURES.PRICE_REVISIONS, 'price_revisions')
+
+  // Price changes are core functionality: no limit row means no limit
+  if (result.source === 'none') {
+    return {
+      ...result,
+      canAdd: true,
+      limit: -1,
+      isUnlimited: true,
+      remaining: Infinity,
+      message: 'Sınırsız kullanım hakkınız var.',
+    }
+  }
+
+  const canRevise = result.isUnlimited || result.remaining >= revisionCount
+
+  return {
+    ...result,
+    canAdd: canRevise,
+    message: canRevise
+      ? result.message
+      : result.remaining > 0
+        ? `${revisionCount} fiyat değiştirmek istiyorsunuz ancak bu dönem sadece ${result.remaining} fiyat değişikliği hakkınız kaldı.`
+        : PRICE_REVISION_LIMIT_MESSAGE,
+  }
+}
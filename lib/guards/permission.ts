@@ -23,6 +23,7 @@
  * // if (user.package === 'Pro') { ... } // FORBIDDEN!
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
 
 /**
@@ -52,6 +53,8 @@ export interface PermissionResult {
  *
  * @param organizationId - The UUID of the organization to check
  * @param featureKey - The feature key to check (e.g., 'module_waiter_call')
+ * @param client - Supabase client to query with (default: the user's session
+ *   client; scheduled jobs without a session pass the service role client)
  * @returns Promise<boolean> - true if organization has permission
  *
  * @example
@@ -65,9 +68,10 @@ export interface PermissionResult {
  */
 export async function hasPermission(
   organizationId: string,
-  featureKey: string
+  featureKey: string,
+  client?: SupabaseClient
 ): Promise<boolean> {
-  const result = await checkPermission(organizationId, featureKey)
+  const result = await checkPermission(organizationId, featureKey, client)
   return result.allowed
 }
 
@@ -94,9 +98,10 @@ export async function hasPermission(
  */
 export async function checkPermission(
   organizationId: string,
-  featureKey: string
+  featureKey: string,
+  client?: SupabaseClient
 ): Promise<PermissionResult> {
-  const supabase = await createServerSupabaseClient()
+  const supabase = client ?? (await createServerSupabaseClient())
 
   // Step 1: Check for organization-specific override (ABAC layer)
   // Override takes precedence over plan features
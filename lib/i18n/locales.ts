@@ -0,0 +1,157 @@
+/**
+ * Menu Locales - Client-safe language helpers
+ *
+ * Pure helpers for the supported menu languages, locale negotiation and
+ * applying snapshot translations. Used by both the public menu (server)
+ * and the dashboard translation editors (client).
+ *
+ * @example
+ * const locale = resolveMenuLocale(searchParams.lang, acceptLanguage, ['tr', 'en'])
+ * const localized = localizeMenuData(menuData, locale)
+ */
+
+import type { MenuSnapshotData } from '@/lib/services/snapshot'
+
+/**
+ * Base language of all menu content
+ */
+export const DEFAULT_LOCALE = 'tr'
+
+/**
+ * Languages that can be enabled for a menu
+ */
+export const SUPPORTED_LOCALES = [
+  { code: 'tr', name: 'Türkçe', dir: 'ltr' },
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'de', name: 'Deutsch', dir: 'ltr' },
+  { code: 'ru', name: 'Русский', dir: 'ltr' },
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+  { code: 'fr', name: 'Français', dir: 'ltr' },
+] as const
+
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number]['code']
+
+/**
+ * Check whether a locale code is one of the supported menu languages
+ *
+ * @param locale - Locale code to check (e.g., 'en')
+ * @returns boolean - True if the locale is supported
+ */
+export function isSupportedLocale(locale: string | null | undefined): locale is SupportedLocale {
+  return !!locale && SUPPORTED_LOCALES.some((l) => l.code === locale)
+}
+
+/**
+ * Get the text direction of a locale
+ *
+ * @param locale - Locale code
+ * @returns 'ltr' | 'rtl'
+ */
+export function getLocaleDirection(locale: string): 'ltr' | 'rtl' {
+  return SUPPORTED_LOCALES.find((l) => l.code === locale)?.dir ?? 'ltr'
+}
+
+/**
+ * Get the display name of a locale
+ *
+ * @param locale - Locale code
+ * @returns string - Native language name, or the code if unknown
+ */
+export function getLocaleName(locale: string): string {
+  return SUPPORTED_LOCALES.find((l) => l.code === locale)?.name ?? locale
+}
+
+/**
+ * Parse an Accept-Language header into primary language codes ordered by quality
+ *
+ * @param header - Raw Accept-Language header value
+ * @returns string[] - Two-letter language codes, most preferred first
+ *
+ * @example
+ * ```typescript
+ * parseAcceptLanguage('en-US,en;q=0.9,tr;q=0.8')
+ * // Returns: ['en', 'tr']
+ * ```
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) {
+    return []
+  }
+
+  const entries = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const qParam = params.find((p) => p.trim().startsWith('q='))
+      const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1
+      return {
+        code: tag.trim().toLowerCase().split('-')[0],
+        quality: Number.isNaN(quality) ? 0 : quality,
+      }
+    })
+    .filter((entry) => /^[a-z]{2}$/.test(entry.code) && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  return Array.from(new Set(entries.map((entry) => entry.code)))
+}
+
+/**
+ * Resolve the menu language for a public request.
+ *
+ * Priority: explicit `?lang=` parameter, then Accept-Language header,
+ * then the base language. Only locales available in the snapshot are returned.
+ *
+ * @param requested - Value of the `lang` query parameter
+ * @param acceptLanguage - Accept-Language header value
+ * @param available - Locales published in the menu snapshot
+ * @returns string - The locale to render
+ */
+export function resolveMenuLocale(
+  requested: string | null | undefined,
+  acceptLanguage: string | null | undefined,
+  available: string[]
+): string {
+  if (requested && available.includes(requested)) {
+    return requested
+  }
+
+  const preferred = parseAcceptLanguage(acceptLanguage).find((code) =>
+    available.includes(code)
+  )
+
+  return preferred ?? DEFAULT_LOCALE
+}
+
+/**
+ * Apply translations of a locale to snapshot menu data.
+ *
+ * Missing translations fall back to the base language content.
+ *
+ * @param menuData - Menu snapshot data
+ * @param locale - Locale to render
+ * @returns MenuSnapshotData - Copy of the menu data with localized names
+ */
+export function localizeMenuData(
+  menuData: MenuSnapshotData,
+  locale: string
+): MenuSnapshotData {
+  if (locale === DEFAULT_LOCALE) {
+    return menuData
+  }
+
+  return {
+    ...menuData,
+    categories: menuData.categories.map((category) => ({
+      ...category,
+      name: category.translations?.[locale]?.name || category.name,
+    })),
+    products: menuData.products.map((product) => {
+      const translation = product.translations?.[locale]
+      return {
+        ...product,
+        name: translation?.name || product.name,
+        description: translation?.description || product.description,
+      }
+    }),
+  }
+}
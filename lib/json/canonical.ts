@@ -0,0 +1,103 @@
+/**
+ * Canonical JSON - Key-Order Independent Serialization
+ *
+ * `JSON.stringify` writes object keys in insertion order, but Postgres JSONB
+ * stores keys sorted by length and then bytes, so menu data read back from
+ * `menu_snapshots.snapshot_data` serializes differently than the object it
+ * was saved from. Hashes are therefore computed over canonical JSON, which
+ * is the same for any key order:
+ * - Object keys sorted by UTF-16 code units (as in RFC 8785)
+ * - No whitespace
+ * - Numbers in their shortest round-trip form (`250.50` → `250.5`, `-0` → `0`)
+ * - Dates as UTC ISO strings with milliseconds
+ * - `undefined`, functions and symbols left out of objects and written as
+ *   `null` in arrays, non-finite numbers written as `null` (as JSON.stringify)
+ *
+ * Strings are written as JSON.stringify escapes them; timestamps that are
+ * already strings are not reformatted.
+ *
+ * @example
+ * canonicalJSON({ b: 1, a: [2.50, new Date(0)] })
+ * // '{"a":[2.5,"1970-01-01T00:00:00.000Z"],"b":1}'
+ */
+
+/**
+ * Serialize a value as canonical JSON
+ *
+ * @param value - The value to serialize
+ * @returns string - Canonical JSON text
+ * @throws TypeError - For BigInt values and circular structures
+ *
+ * @example
+ * ```typescript
+ * canonicalJSON({ price: 120, name: 'Latte' }) === canonicalJSON({ name: 'Latte', price: 120 })
+ * // true
+ * ```
+ */
+export function canonicalJSON(value: unknown): string {
+  return serialize(value, new Set()) ?? 'null'
+}
+
+/**
+ * Serialize one value; returns undefined for values JSON leaves out
+ */
+function serialize(value: unknown, ancestors: Set<object>): string | undefined {
+  if (value === null) {
+    return 'null'
+  }
+
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value)
+    case 'number':
+      // -0 and 0 are the same price; NaN and Infinity have no JSON form
+      return Object.is(value, -0) ? '0' : JSON.stringify(value)
+    case 'bigint':
+      throw new TypeError('BigInt degerleri canonical JSON olarak yazilamaz')
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'null' : JSON.stringify(value.toISOString())
+  }
+
+  const object = value as object
+
+  // Other objects with their own JSON form (e.g. Decimal-like values)
+  if (typeof (object as { toJSON?: unknown }).toJSON === 'function') {
+    return serialize((object as { toJSON: () => unknown }).toJSON(), ancestors)
+  }
+
+  if (ancestors.has(object)) {
+    throw new TypeError('Dongusel yapi canonical JSON olarak yazilamaz')
+  }
+
+  ancestors.add(object)
+
+  let json: string
+
+  if (Array.isArray(object)) {
+    json = `[${object.map((item) => serialize(item, ancestors) ?? 'null').join(',')}]`
+  } else {
+    const members: string[] = []
+
+    // Default sort compares UTF-16 code units, independent of locale
+    for (const key of Object.keys(object).sort()) {
+      const member = serialize((object as Record<string, unknown>)[key], ancestors)
+
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(key)}:${member}`)
+      }
+    }
+
+    json = `{${members.join(',')}}`
+  }
+
+  ancestors.delete(object)
+
+  return json
+}
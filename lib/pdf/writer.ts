@@ -0,0 +1,217 @@
+/**
+ * PDF Writer - Minimal Dependency-Free PDF Documents
+ *
+ * This module writes small PDF 1.4 documents by hand: numbered objects, a
+ * cross-reference table and a trailer. It is used for the A5 QR code sheet
+ * and the price ledger compliance report.
+ *
+ * Text uses the standard Helvetica fonts with WinAnsiEncoding, so no font
+ * has to be embedded. WinAnsi covers ç, ö and ü; the other Turkish letters
+ * (ğ, ı, İ, ş) are written as their closest ASCII letter.
+ *
+ * @example
+ * const pdf = buildTextPDF(
+ *   [{ texts: [{ x: 40, y: 800, text: 'Fiyat Raporu', size: 16, font: 'bold' }] }],
+ *   A4_PORTRAIT
+ * )
+ * // pdf is a Buffer; pdf.toString('base64') for data URLs
+ */
+
+/**
+ * Page size in PDF points (1/72 inch)
+ */
+export interface PDFPageSize {
+  width: number
+  height: number
+}
+
+/**
+ * A single line of text on a page
+ */
+export interface PDFTextRun {
+  /** Left edge in points */
+  x: number
+  /** Baseline in points from the bottom of the page */
+  y: number
+  text: string
+  /** Font size in points */
+  size: number
+  /** Font weight (default: regular) */
+  font?: 'regular' | 'bold'
+  /** Gray level 0 (black) to 1 (white) (default: 0) */
+  gray?: number
+}
+
+/**
+ * A straight line (rule) on a page
+ */
+export interface PDFLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  /** Line width in points (default: 0.5) */
+  width?: number
+}
+
+/**
+ * Content of one page
+ */
+export interface PDFPageContent {
+  texts: PDFTextRun[]
+  lines?: PDFLine[]
+}
+
+export const A4_PORTRAIT: PDFPageSize = { width: 595, height: 842 }
+export const A4_LANDSCAPE: PDFPageSize = { width: 842, height: 595 }
+export const A5_PORTRAIT: PDFPageSize = { width: 420, height: 595 }
+
+/**
+ * Turkish letters outside WinAnsiEncoding
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  ğ: 'g',
+  Ğ: 'G',
+  ı: 'i',
+  İ: 'I',
+  ş: 's',
+  Ş: 'S',
+}
+
+/**
+ * Escape text for a PDF string literal.
+ *
+ * Backslashes and parentheses are escaped, Turkish letters outside WinAnsi
+ * are transliterated and any other character outside Latin-1 becomes '?'.
+ *
+ * @param text - Text to escape
+ * @returns string - Latin-1 safe string literal content (without parentheses)
+ */
+export function escapePDFString(text: string): string {
+  return Array.from(text)
+    .map((char) => TRANSLITERATIONS[char] ?? char)
+    .map((char) => (char.charCodeAt(0) > 0xff ? '?' : char))
+    .join('')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+/**
+ * Approximate width of a Helvetica text run.
+ *
+ * Uses an average glyph width, which is close enough for column layout.
+ *
+ * @param text - Text to measure
+ * @param size - Font size in points
+ * @returns number - Width in points
+ */
+export function estimateTextWidth(text: string, size: number): number {
+  return text.length * size * 0.5
+}
+
+/**
+ * Shorten text so it fits into a column, ending with '...'
+ *
+ * @param text - Text to fit
+ * @param size - Font size in points
+ * @param maxWidth - Column width in points
+ * @returns string - Text that fits into maxWidth
+ */
+export function fitText(text: string, size: number, maxWidth: number): string {
+  if (estimateTextWidth(text, size) <= maxWidth) {
+    return text
+  }
+
+  const maxChars = Math.max(0, Math.floor(maxWidth / (size * 0.5)) - 3)
+  return `${text.slice(0, maxChars)}...`
+}
+
+/**
+ * Assemble numbered objects into a complete PDF file.
+ *
+ * `objects[0]` becomes object 1 and must be the document catalog; the
+ * other objects reference each other by their 1-based position.
+ *
+ * @param objects - Object bodies without the `n 0 obj` / `endobj` wrapper
+ * @returns Buffer - PDF file (Latin-1 encoded, so byte offsets match)
+ */
+export function assemblePDF(objects: string[]): Buffer {
+  let pdf = '%PDF-1.4\n'
+  const xrefOffsets: number[] = []
+
+  objects.forEach((body, index) => {
+    xrefOffsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  // Cross-reference table
+  const xrefStart = pdf.length
+  pdf += 'xref\n'
+  pdf += `0 ${objects.length + 1}\n`
+  pdf += '0000000000 65535 f \n' // Free entry
+
+  for (const offset of xrefOffsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`
+  }
+
+  // Trailer
+  pdf += 'trailer\n'
+  pdf += `<< /Size ${objects.length + 1} /Root 1 0 R >>\n`
+  pdf += 'startxref\n'
+  pdf += `${xrefStart}\n`
+  pdf += '%%EOF'
+
+  return Buffer.from(pdf, 'latin1')
+}
+
+/**
+ * Build the content stream of a page
+ */
+function buildContentStream(page: PDFPageContent): string {
+  let stream = ''
+
+  for (const line of page.lines ?? []) {
+    stream += `0 G ${line.width ?? 0.5} w ${line.x1} ${line.y1} m ${line.x2} ${line.y2} l S\n`
+  }
+
+  for (const run of page.texts) {
+    const font = run.font === 'bold' ? 'F2' : 'F1'
+    stream += `${run.gray ?? 0} g BT /${font} ${run.size} Tf ${run.x} ${run.y} Td (${escapePDFString(run.text)}) Tj ET\n`
+  }
+
+  return stream
+}
+
+/**
+ * Build a multi-page text document.
+ *
+ * @param pages - Content of every page, in order
+ * @param size - Page size (e.g. A4_LANDSCAPE)
+ * @returns Buffer - PDF file
+ */
+export function buildTextPDF(pages: PDFPageContent[], size: PDFPageSize): Buffer {
+  // 1: Catalog, 2: Pages, 3: regular font, 4: bold font, then page + content pairs
+  const firstPageObject = 5
+  const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2)
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+
+  pages.forEach((page, index) => {
+    const contentId = pageObjectIds[index] + 1
+    const stream = buildContentStream(page)
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size.width} ${size.height}] /Contents ${contentId} 0 R /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> >>`
+    )
+    objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}endstream`)
+  })
+
+  return assemblePDF(objects)
+}
@@ -24,6 +24,7 @@
  */
 
 import { toString, toDataURL } from 'qrcode'
+import { assemblePDF, escapePDFString } from '@/lib/pdf/writer'
 
 /**
  * Supported PNG sizes for QR code generation
@@ -423,9 +424,9 @@ export async function generateQRCodePDF(
 /**
  * Build a simple PDF document with embedded PNG image.
  *
- * This creates a minimal valid PDF without external dependencies.
- * The PDF includes the QR code centered on an A5 page with optional
- * title and subtitle text.
+ * This creates a minimal valid PDF with the shared writer in lib/pdf,
+ * without external dependencies. The PDF includes the QR code centered on
+ * an A5 page with optional title and subtitle text.
  *
  * @param pngBase64 - Base64-encoded PNG image data
  * @param options - PDF layout options
@@ -452,39 +453,27 @@ function buildSimplePDF(
   const pngWidth = 2048 // We know this from generation
   const pngHeight = 2048
 
-  // Build PDF objects
+  // Build PDF objects (1: Catalog, 2: Pages, 3: Page, 4: Font, 5: Image, 6: Content)
   const objects: string[] = []
-  let objectIndex = 1
 
-  // Object 1: Catalog
-  objects.push(`${objectIndex} 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj`)
-  objectIndex++
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push('<< /Type /Pages /Kids [3 0 R] /Count 1 >>')
 
-  // Object 2: Pages
-  objects.push(`${objectIndex} 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj`)
-  objectIndex++
-
-  // Object 3: Page
   const pageResources = `<< /XObject << /QRCode 5 0 R >> /Font << /F1 4 0 R >> >>`
   objects.push(
-    `${objectIndex} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents 6 0 R /Resources ${pageResources} >>\nendobj`
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents 6 0 R /Resources ${pageResources} >>`
   )
-  objectIndex++
 
-  // Object 4: Font (Helvetica - standard PDF font)
-  objects.push(
-    `${objectIndex} 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj`
-  )
-  objectIndex++
+  // Helvetica - standard PDF font
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
 
-  // Object 5: Image XObject
+  // Image XObject
   const imageStream = `<< /Type /XObject /Subtype /Image /Width ${pngWidth} /Height ${pngHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${pngBuffer.length} >>`
   // Note: For simplicity, we'll use a placeholder approach
   // In production, this would properly encode the PNG
-  objects.push(`${objectIndex} 0 obj\n${imageStream}\nstream\n${pngBase64}\nendstream\nendobj`)
-  objectIndex++
+  objects.push(`${imageStream}\nstream\n${pngBase64}\nendstream`)
 
-  // Object 6: Content stream
+  // Content stream
   let contentStream = ''
 
   // Draw white background
@@ -497,7 +486,7 @@ function buildSimplePDF(
     const titleWidth = title.length * titleFontSize * 0.5 // Approximate
     const titleX = (pageWidth - titleWidth) / 2
     const titleY = pageHeight - 60
-    contentStream += `BT /F1 ${titleFontSize} Tf ${titleX} ${titleY} Td (${escapeStringForPDF(title)}) Tj ET\n`
+    contentStream += `BT /F1 ${titleFontSize} Tf ${titleX} ${titleY} Td (${escapePDFString(title)}) Tj ET\n`
   }
 
   // Draw QR code image
@@ -509,7 +498,7 @@ function buildSimplePDF(
     const subtitleWidth = subtitle.length * subtitleFontSize * 0.4 // Approximate
     const subtitleX = (pageWidth - subtitleWidth) / 2
     const subtitleY = qrY - 30
-    contentStream += `BT /F1 ${subtitleFontSize} Tf ${subtitleX} ${subtitleY} Td (${escapeStringForPDF(subtitle)}) Tj ET\n`
+    contentStream += `BT /F1 ${subtitleFontSize} Tf ${subtitleX} ${subtitleY} Td (${escapePDFString(subtitle)}) Tj ET\n`
   }
 
   // Draw URL at bottom
@@ -519,55 +508,11 @@ function buildSimplePDF(
   const urlX = (pageWidth - urlWidth) / 2
   const urlY = 40
   contentStream += `0.5 0.5 0.5 rg\n` // Gray text
-  contentStream += `BT /F1 ${urlFontSize} Tf ${urlX} ${urlY} Td (${escapeStringForPDF(url)}) Tj ET\n`
+  contentStream += `BT /F1 ${urlFontSize} Tf ${urlX} ${urlY} Td (${escapePDFString(url)}) Tj ET\n`
 
-  const contentLength = contentStream.length
-  objects.push(
-    `${objectIndex} 0 obj\n<< /Length ${contentLength} >>\nstream\n${contentStream}endstream\nendobj`
-  )
-  objectIndex++
-
-  // Build PDF structure
-  let pdf = '%PDF-1.4\n'
-  let offset = pdf.length
-
-  const xrefOffsets: number[] = [0] // First entry is always 0
-
-  for (const obj of objects) {
-    xrefOffsets.push(offset)
-    pdf += obj + '\n'
-    offset = pdf.length
-  }
+  objects.push(`<< /Length ${contentStream.length} >>\nstream\n${contentStream}endstream`)
 
-  // Cross-reference table
-  const xrefStart = offset
-  pdf += 'xref\n'
-  pdf += `0 ${objectIndex}\n`
-  pdf += '0000000000 65535 f \n' // Free entry
-
-  for (let i = 1; i < objectIndex; i++) {
-    pdf += `${String(xrefOffsets[i]).padStart(10, '0')} 00000 n \n`
-  }
-
-  // Trailer
-  pdf += 'trailer\n'
-  pdf += `<< /Size ${objectIndex} /Root 1 0 R >>\n`
-  pdf += 'startxref\n'
-  pdf += `${xrefStart}\n`
-  pdf += '%%EOF'
-
-  // Convert to base64
-  return Buffer.from(pdf).toString('base64')
-}
-
-/**
- * Escape special characters for PDF string literals
- */
-function escapeStringForPDF(str: string): string {
-  return str
-    .replace(/\\/g, '\\\\')
-    .replace(/\(/g, '\\(')
-    .replace(/\)/g, '\\)')
+  return assemblePDF(objects).toString('base64')
 }
 
 /**
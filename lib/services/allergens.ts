@@ -0,0 +1,227 @@
+/**
+ * Allergen Service - Regulated Allergen Catalog
+ *
+ * This module implements the module_allergens feature: a fixed catalog of the
+ * 14 allergens that must be declared under EU Regulation 1169/2011 and the
+ * Turkish Food Labelling Regulation (Türk Gıda Kodeksi Gıda Etiketleme ve
+ * Tüketicileri Bilgilendirme Yönetmeliği).
+ *
+ * `products.allergens` stores catalog codes. Values typed before the catalog
+ * existed (e.g. "Süt", "fındık") are mapped to their code; values that match
+ * no catalog entry are dropped when the menu is published.
+ *
+ * Guests can filter the public menu by allergen: products containing a
+ * selected allergen are either hidden or flagged with a warning.
+ *
+ * This module has no database access and is safe to import from client
+ * components.
+ *
+ * @example
+ * const codes = normalizeAllergens(product.allergens) // ['gluten', 'milk']
+ * const matches = getAllergenMatches(codes, ['milk']) // ['milk']
+ */
+
+/**
+ * Allergen catalog codes stored in `products.allergens`
+ */
+export type AllergenCode =
+  | 'gluten'
+  | 'crustaceans'
+  | 'eggs'
+  | 'fish'
+  | 'peanuts'
+  | 'soy'
+  | 'milk'
+  | 'nuts'
+  | 'celery'
+  | 'mustard'
+  | 'sesame'
+  | 'sulphites'
+  | 'lupin'
+  | 'molluscs'
+
+/**
+ * Guest filter mode: hide matching products or show them with a warning
+ */
+export type AllergenFilterMode = 'hide' | 'flag'
+
+/**
+ * Catalog entry with the Turkish label and icon shown to merchants and guests
+ */
+export interface Allergen {
+  code: AllergenCode
+  label: string
+  icon: string
+}
+
+/**
+ * The 14 regulated allergens in regulation order
+ */
+export const ALLERGENS: Allergen[] = [
+  { code: 'gluten', label: 'Gluten', icon: '🌾' },
+  { code: 'crustaceans', label: 'Kabuklu deniz ürünleri', icon: '🦐' },
+  { code: 'eggs', label: 'Yumurta', icon: '🥚' },
+  { code: 'fish', label: 'Balık', icon: '🐟' },
+  { code: 'peanuts', label: 'Yer fıstığı', icon: '🥜' },
+  { code: 'soy', label: 'Soya', icon: '🫘' },
+  { code: 'milk', label: 'Süt', icon: '🥛' },
+  { code: 'nuts', label: 'Sert kabuklu meyveler', icon: '🌰' },
+  { code: 'celery', label: 'Kereviz', icon: '🥬' },
+  { code: 'mustard', label: 'Hardal', icon: '🌼' },
+  { code: 'sesame', label: 'Susam', icon: '🥯' },
+  { code: 'sulphites', label: 'Sülfitler', icon: '🍷' },
+  { code: 'lupin', label: 'Acı bakla (lupin)', icon: '🌸' },
+  { code: 'molluscs', label: 'Yumuşakçalar', icon: '🦪' },
+]
+
+/**
+ * Free-text values used before the catalog, mapped to catalog codes
+ * (lowercase, Turkish and English)
+ */
+const ALLERGEN_ALIASES: Record<string, AllergenCode> = {
+  buğday: 'gluten',
+  bugday: 'gluten',
+  wheat: 'gluten',
+  kabuklular: 'crustaceans',
+  karides: 'crustaceans',
+  shellfish: 'crustaceans',
+  yumurta: 'eggs',
+  egg: 'eggs',
+  balık: 'fish',
+  balik: 'fish',
+  'yer fıstığı': 'peanuts',
+  'yer fistigi': 'peanuts',
+  fıstık: 'peanuts',
+  fistik: 'peanuts',
+  peanut: 'peanuts',
+  soya: 'soy',
+  süt: 'milk',
+  sut: 'milk',
+  laktoz: 'milk',
+  dairy: 'milk',
+  lactose: 'milk',
+  kuruyemiş: 'nuts',
+  kuruyemis: 'nuts',
+  fındık: 'nuts',
+  findik: 'nuts',
+  ceviz: 'nuts',
+  badem: 'nuts',
+  'tree nuts': 'nuts',
+  kereviz: 'celery',
+  hardal: 'mustard',
+  susam: 'sesame',
+  sülfit: 'sulphites',
+  sulfit: 'sulphites',
+  sulfites: 'sulphites',
+  lupen: 'lupin',
+  'acı bakla': 'lupin',
+  yumuşakçalar: 'molluscs',
+  midye: 'molluscs',
+  kalamar: 'molluscs',
+}
+
+/**
+ * Check whether a value is a catalog code
+ *
+ * @param value - Value to check
+ * @returns boolean - True for one of the 14 catalog codes
+ */
+export function isAllergenCode(value: unknown): value is AllergenCode {
+  return typeof value === 'string' && ALLERGENS.some((allergen) => allergen.code === value)
+}
+
+/**
+ * Get the catalog entry of a code
+ *
+ * @param code - Allergen code
+ * @returns Allergen | undefined - Catalog entry
+ */
+export function getAllergen(code: AllergenCode): Allergen | undefined {
+  return ALLERGENS.find((allergen) => allergen.code === code)
+}
+
+/**
+ * Map stored allergen values to catalog codes.
+ *
+ * Catalog codes, catalog labels and known free-text aliases are accepted
+ * (case-insensitive); anything else is dropped. The result is unique and in
+ * catalog order.
+ *
+ * @param values - Raw `products.allergens` value
+ * @returns AllergenCode[] - Catalog codes
+ *
+ * @example
+ * ```typescript
+ * normalizeAllergens(['Süt', 'gluten', 'acı']) // ['gluten', 'milk']
+ * ```
+ */
+export function normalizeAllergens(values: unknown): AllergenCode[] {
+  if (!Array.isArray(values)) {
+    return []
+  }
+
+  const codes = new Set<AllergenCode>()
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue
+
+    const key = value.trim().toLocaleLowerCase('tr-TR')
+    const code =
+      ALLERGENS.find(
+        (allergen) =>
+          allergen.code === key || allergen.label.toLocaleLowerCase('tr-TR') === key
+      )?.code ?? ALLERGEN_ALIASES[key]
+
+    if (code) codes.add(code)
+  }
+
+  return ALLERGENS.map((allergen) => allergen.code).filter((code) => codes.has(code))
+}
+
+/**
+ * Get stored values that do not map to a catalog code
+ *
+ * @param values - Raw `products.allergens` value
+ * @returns string[] - Values dropped by normalizeAllergens
+ */
+export function getUnknownAllergens(values: unknown): string[] {
+  if (!Array.isArray(values)) {
+    return []
+  }
+
+  return values.filter(
+    (value): value is string =>
+      typeof value === 'string' &&
+      value.trim().length > 0 &&
+      normalizeAllergens([value]).length === 0
+  )
+}
+
+/**
+ * Parse the guest allergen filter from the query string (`?allergens=gluten,milk`)
+ *
+ * @param param - Comma-separated allergen codes
+ * @returns AllergenCode[] - Valid codes in catalog order
+ */
+export function parseAllergenFilter(param: string | undefined): AllergenCode[] {
+  if (!param) {
+    return []
+  }
+
+  const requested = new Set(param.split(','))
+  return ALLERGENS.map((allergen) => allergen.code).filter((code) => requested.has(code))
+}
+
+/**
+ * Get the selected allergens a product contains
+ *
+ * @param productAllergens - Catalog codes of the product
+ * @param selected - Allergens selected by the guest
+ * @returns AllergenCode[] - Selected allergens found in the product
+ */
+export function getAllergenMatches(
+  productAllergens: AllergenCode[] | null | undefined,
+  selected: AllergenCode[]
+): AllergenCode[] {
+  return selected.filter((code) => (productAllergens ?? []).includes(code))
+}
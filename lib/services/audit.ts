@@ -0,0 +1,227 @@
+/**
+ * Audit Service - Shared Writer for the Audit Trail
+ *
+ * Every create, update and delete path records one `audit_logs` row. API
+ * routes call `writeAuditLog` after a successful write. Tables that dashboard
+ * and admin pages write with the browser client (products, categories,
+ * translations, tables, organizations, plans, overrides, ...) are recorded by
+ * the `audit_row_change` database trigger instead, so the browser cannot skip
+ * or forge their entries; routes do not log those tables again.
+ *
+ * Updates store only the fields that changed: `old_data` holds the previous
+ * values and `new_data` the new ones. Creates store the new row, deletes
+ * the removed row.
+ *
+ * audit_logs is insert-only and RLS rejects inserts from user sessions, so
+ * rows are written with the service role client.
+ *
+ * Database Tables:
+ * - `audit_logs`: Immutable audit trail
+ *
+ * @example
+ * await writeAuditLog({
+ *   organizationId,
+ *   userId: user.id,
+ *   action: 'update',
+ *   entityType: 'organization',
+ *   entityId: organizationId,
+ *   oldData: organization,
+ *   newData: updatedOrganization,
+ *   request,
+ * })
+ */
+
+import { createServiceRoleSupabaseClient } from '@/lib/supabase/server'
+import { canonicalJSON } from '@/lib/json/canonical'
+
+/**
+ * Actions allowed by the audit_logs.action CHECK constraint
+ */
+export const AUDIT_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'publish',
+  'login',
+  'logout',
+  'impersonate',
+  'activate',
+  'deactivate',
+  'plan_change',
+  'override_add',
+  'override_remove',
+  'export',
+  'import',
+  'price_change',
+] as const
+
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+/**
+ * Entity state recorded in old_data / new_data
+ */
+export type AuditData = Record<string, unknown>
+
+/**
+ * Fields that change on every write and are left out of update diffs
+ */
+const IGNORED_DIFF_FIELDS = ['updated_at']
+
+/**
+ * One audit trail entry
+ */
+export interface AuditEntry {
+  /** Organization the change belongs to (null for platform level changes) */
+  organizationId: string | null
+  /** User who made the change (null for system and guest actions) */
+  userId: string | null
+  action: AuditAction
+  /** Type of the changed entity (product, category, organization, ...) */
+  entityType: string
+  entityId?: string | null
+  /** State before the change (null for creates) */
+  oldData?: object | null
+  /** State after the change (null for deletes) */
+  newData?: object | null
+  metadata?: Record<string, unknown>
+  /** Request to read the client IP address and user agent from */
+  request?: Request
+}
+
+/**
+ * Result type for audit writes
+ */
+export interface AuditResult {
+  /** Whether the entry was written (or there was nothing to record) */
+  success: boolean
+  /** Error message if the write failed */
+  error?: string
+}
+
+/**
+ * Reduce the states before and after an update to the changed fields.
+ *
+ * Values are compared as canonical JSON, so key order in nested objects
+ * does not count as a change. Creates (no old state) and deletes (no new
+ * state) are returned unchanged.
+ *
+ * @param oldData - State before the change
+ * @param newData - State after the change
+ * @returns The changed fields with their old and new values
+ *
+ * @example
+ * ```typescript
+ * diffAuditData({ name: 'Latte', is_visible: true }, { name: 'Latte', is_visible: false })
+ * // { oldData: { is_visible: true }, newData: { is_visible: false } }
+ * ```
+ */
+export function diffAuditData(
+  oldData: AuditData | null | undefined,
+  newData: AuditData | null | undefined
+): { oldData: AuditData | null; newData: AuditData | null } {
+  if (!oldData || !newData) {
+    return { oldData: oldData ?? null, newData: newData ?? null }
+  }
+
+  const changedOld: AuditData = {}
+  const changedNew: AuditData = {}
+  const fields = new Set([...Object.keys(oldData), ...Object.keys(newData)])
+
+  for (const field of fields) {
+    if (IGNORED_DIFF_FIELDS.includes(field)) {
+      continue
+    }
+
+    const before = oldData[field] ?? null
+    const after = newData[field] ?? null
+
+    if (canonicalJSON(before) !== canonicalJSON(after)) {
+      changedOld[field] = before
+      changedNew[field] = after
+    }
+  }
+
+  return { oldData: changedOld, newData: changedNew }
+}
+
+/**
+ * Read the client IP address and user agent of a request
+ */
+function getRequestContext(request: Request): { ip_address?: string; user_agent?: string } {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const ip = forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip')
+  const userAgent = request.headers.get('user-agent')
+
+  return {
+    ...(ip ? { ip_address: ip } : {}),
+    ...(userAgent ? { user_agent: userAgent } : {}),
+  }
+}
+
+/**
+ * Write one audit trail entry.
+ *
+ * Updates are reduced to their changed fields (see `diffAuditData`); an
+ * update that changed nothing is not recorded.
+ *
+ * @param entry - The audit entry
+ * @returns Promise<AuditResult> - Success status
+ *
+ * @example
+ * ```typescript
+ * const audit = await writeAuditLog({
+ *   organizationId,
+ *   userId: user.id,
+ *   action: 'delete',
+ *   entityType: 'bundle',
+ *   entityId: bundleId,
+ *   oldData: bundle,
+ *   request,
+ * })
+ * ```
+ */
+export async function writeAuditLog(entry: AuditEntry): Promise<AuditResult> {
+  const before = (entry.oldData ?? null) as AuditData | null
+  const after = (entry.newData ?? null) as AuditData | null
+  const { oldData, newData } =
+    entry.action === 'update' ? diffAuditData(before, after) : { oldData: before, newData: after }
+
+  if (
+    entry.action === 'update' &&
+    before &&
+    after &&
+    Object.keys(newData ?? {}).length === 0
+  ) {
+    return { success: true }
+  }
+
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Denetim kaydı için sunucu yapılandırması eksik',
+    }
+  }
+
+  const { error } = await admin.from('audit_logs').insert({
+    organization_id: entry.organizationId,
+    user_id: entry.userId,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId ?? null,
+    old_data: oldData,
+    new_data: newData,
+    ...(entry.request ? getRequestContext(entry.request) : {}),
+    metadata: entry.metadata ?? {},
+  })
+
+  if (error) {
+    return {
+      success: false,
+      error: error.message || 'Denetim kaydı oluşturulamadı',
+    }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,365 @@
+/**
+ * Badge Service - Chef's Recommendation and Daily Special Badges
+ *
+ * This service implements the module_chef_recommendation and
+ * module_daily_special features: scheduled badges that highlight a product
+ * on the public menu and move it to the top of its category.
+ *
+ * A badge is shown between starts_on and ends_on (inclusive), either every
+ * day (daily schedule) or on selected weekdays (weekly schedule). Schedules
+ * are stored in the menu snapshot and evaluated when the menu is rendered,
+ * so an expired badge disappears without a manual republish.
+ *
+ * All dates are evaluated in Europe/Istanbul local time.
+ *
+ * Database Tables:
+ * - `product_badges`: Badge assignments with their schedule
+ *
+ * @example
+ * // Mark a product as today's special
+ * const result = await createProductBadge(productId, organizationId, {
+ *   badge_type: 'daily_special',
+ *   schedule_type: 'daily',
+ *   starts_on: '2026-10-18',
+ *   ends_on: '2026-10-18',
+ * })
+ *
+ * // Badges active right now for a product from the snapshot
+ * const active = getActiveBadges(product.badges)
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { MENU_TIME_ZONE, getZonedDayAndMinutes } from '@/lib/services/happy-hour'
+import type { BadgeScheduleType, ProductBadge, ProductBadgeType } from '@/types/database'
+
+/**
+ * Feature key that enables each badge type
+ */
+export const BADGE_FEATURES: Record<ProductBadgeType, string> = {
+  chef_recommendation: 'module_chef_recommendation',
+  daily_special: 'module_daily_special',
+}
+
+/**
+ * Guest-facing badge labels
+ */
+export const BADGE_LABELS: Record<ProductBadgeType, string> = {
+  chef_recommendation: 'Şefin Önerisi',
+  daily_special: 'Günün Spesiyali',
+}
+
+/**
+ * All ISO weekdays (daily schedule)
+ */
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7]
+
+/**
+ * A badge schedule as stored in the menu snapshot
+ */
+export interface BadgeWindow {
+  /** Source product_badges ID */
+  badge_id: string
+  type: ProductBadgeType
+  /** ISO weekdays the badge is shown on */
+  days_of_week: number[]
+  /** First day (YYYY-MM-DD, Europe/Istanbul) */
+  starts_on: string
+  /** Last day (YYYY-MM-DD, Europe/Istanbul), null = no end date */
+  ends_on: string | null
+}
+
+/**
+ * Input for creating a badge
+ */
+export interface ProductBadgeInput {
+  badge_type: ProductBadgeType
+  schedule_type: BadgeScheduleType
+  /** Required for weekly schedules, ignored for daily ones */
+  days_of_week?: number[]
+  starts_on: string
+  ends_on?: string | null
+}
+
+/**
+ * Result type for badge operations
+ */
+export interface BadgeOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved badge(s) */
+  data?: ProductBadge | ProductBadge[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Get the calendar date of a moment in a time zone
+ *
+ * @param date - The moment to convert
+ * @param timeZone - IANA time zone (default: Europe/Istanbul)
+ * @returns string - Date as YYYY-MM-DD
+ */
+export function getZonedDate(date: Date, timeZone: string = MENU_TIME_ZONE): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date)
+}
+
+/**
+ * Check whether a badge is shown at a given moment.
+ *
+ * @param window - Badge schedule from the menu snapshot
+ * @param date - Moment to check (default: now)
+ * @returns boolean - True if the badge is shown
+ *
+ * @example
+ * ```typescript
+ * // Saturday, weekly badge on weekends -> true
+ * isBadgeActive({ ...window, days_of_week: [6, 7] }, saturday)
+ * ```
+ */
+export function isBadgeActive(window: BadgeWindow, date: Date = new Date()): boolean {
+  const today = getZonedDate(date)
+
+  if (today < window.starts_on || (window.ends_on !== null && today > window.ends_on)) {
+    return false
+  }
+
+  return window.days_of_week.includes(getZonedDayAndMinutes(date).day)
+}
+
+/**
+ * Get the badge types shown for a product at a given moment.
+ *
+ * @param windows - Badge schedules from the menu snapshot
+ * @param date - Moment to check (default: now)
+ * @returns ProductBadgeType[] - Active badge types, chef's recommendation first
+ */
+export function getActiveBadges(
+  windows: BadgeWindow[] | undefined,
+  date: Date = new Date()
+): ProductBadgeType[] {
+  const active = new Set(
+    (windows || []).filter((window) => isBadgeActive(window, date)).map((window) => window.type)
+  )
+
+  return (Object.keys(BADGE_LABELS) as ProductBadgeType[]).filter((type) => active.has(type))
+}
+
+/**
+ * Sort products so featured (badged) products come first.
+ *
+ * The sort is stable: products keep their order within the featured and
+ * non-featured groups.
+ *
+ * @param products - Products in their regular order
+ * @param activeBadges - Active badge types keyed by product ID
+ * @returns New array with featured products first
+ */
+export function sortFeaturedFirst<T extends { id: string }>(
+  products: T[],
+  activeBadges: Map<string, ProductBadgeType[]>
+): T[] {
+  const isFeatured = (product: T) => (activeBadges.get(product.id)?.length ?? 0) > 0
+
+  return [...products.filter(isFeatured), ...products.filter((p) => !isFeatured(p))]
+}
+
+/**
+ * Build the badge schedules of every product for the menu snapshot.
+ *
+ * Badges that already ended or whose feature is not enabled are skipped.
+ *
+ * @param badges - Active badges of the organization
+ * @param enabledTypes - Badge types enabled by the permission guard
+ * @param date - Publish moment (default: now)
+ * @returns Map of product ID to badge schedules
+ */
+export function buildBadgeWindows(
+  badges: ProductBadge[],
+  enabledTypes: Set<ProductBadgeType>,
+  date: Date = new Date()
+): Map<string, BadgeWindow[]> {
+  const today = getZonedDate(date)
+  const map = new Map<string, BadgeWindow[]>()
+
+  for (const badge of badges) {
+    if (!badge.is_active || !enabledTypes.has(badge.badge_type)) continue
+    if (badge.ends_on !== null && badge.ends_on < today) continue
+
+    const entry = map.get(badge.product_id) || []
+    entry.push({
+      badge_id: badge.id,
+      type: badge.badge_type,
+      days_of_week: [...badge.days_of_week].sort((a, b) => a - b),
+      starts_on: badge.starts_on,
+      ends_on: badge.ends_on,
+    })
+    map.set(badge.product_id, entry)
+  }
+
+  return map
+}
+
+/**
+ * Validate badge input
+ *
+ * @param input - Badge input to validate
+ * @returns string | null - Turkish error message or null if valid
+ */
+export function validateBadgeInput(input: ProductBadgeInput): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+
+  if (!(input.badge_type in BADGE_LABELS)) {
+    return 'Geçersiz rozet tipi'
+  }
+
+  if (!['daily', 'weekly'].includes(input.schedule_type)) {
+    return 'Geçersiz zamanlama tipi'
+  }
+
+  if (
+    input.schedule_type === 'weekly' &&
+    (!Array.isArray(input.days_of_week) ||
+      input.days_of_week.length === 0 ||
+      input.days_of_week.some((day) => !Number.isInteger(day) || day < 1 || day > 7))
+  ) {
+    return 'Haftalık rozet için en az bir geçerli gün seçilmelidir'
+  }
+
+  if (!dateRegex.test(input.starts_on) || (input.ends_on && !dateRegex.test(input.ends_on))) {
+    return 'Tarihler YYYY-AA-GG formatında olmalıdır'
+  }
+
+  if (input.ends_on && input.ends_on < input.starts_on) {
+    return 'Bitiş tarihi başlangıç tarihinden önce olamaz'
+  }
+
+  return null
+}
+
+/**
+ * Get the active badges of a product
+ *
+ * @param productId - The UUID of the product
+ * @returns Promise<BadgeOperationResult> - Result with badges
+ */
+export async function getProductBadges(productId: string): Promise<BadgeOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('product_badges')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('is_active', true)
+    .order('starts_on', { ascending: true })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: `Rozetler alınamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as ProductBadge[],
+  }
+}
+
+/**
+ * Assign a badge to a product
+ *
+ * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization
+ * @param input - Badge type and schedule
+ * @returns Promise<BadgeOperationResult> - Result with created badge or error
+ */
+export async function createProductBadge(
+  productId: string,
+  organizationId: string,
+  input: ProductBadgeInput
+): Promise<BadgeOperationResult> {
+  const validationError = validateBadgeInput(input)
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const { data, error } = await supabase
+    .from('product_badges')
+    .insert({
+      organization_id: organizationId,
+      product_id: productId,
+      badge_type: input.badge_type,
+      schedule_type: input.schedule_type,
+      days_of_week:
+        input.schedule_type === 'weekly'
+          ? [...new Set(input.days_of_week)].sort((a, b) => a - b)
+          : ALL_DAYS,
+      starts_on: input.starts_on,
+      ends_on: input.ends_on || null,
+      is_active: true,
+      created_by: user?.id ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Rozet eklenemedi: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as ProductBadge,
+  }
+}
+
+/**
+ * Remove a badge from a product
+ *
+ * @param badgeId - The UUID of the badge
+ * @param productId - The UUID of the product (ownership check)
+ * @returns Promise<BadgeOperationResult> - Result with deactivated badge or error
+ */
+export async function deactivateProductBadge(
+  badgeId: string,
+  productId: string
+): Promise<BadgeOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('product_badges')
+    .update({ is_active: false })
+    .eq('id', badgeId)
+    .eq('product_id', productId)
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Rozet kaldırılamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as ProductBadge,
+  }
+}
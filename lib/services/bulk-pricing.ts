@@ -0,0 +1,168 @@
+/**
+ * Bulk Pricing Service - Repricing Rules
+ *
+ * This module computes new prices for the bulk repricing tool: a percentage
+ * or fixed TRY change applied to many products at once, followed by a
+ * rounding rule (e.g. to the nearest 5 TRY).
+ *
+ * The dashboard uses it for the old vs new preview and the bulk price API
+ * uses the same functions on the current ledger prices before writing, so
+ * the committed prices always match the preview rules.
+ *
+ * This module has no database access and is safe to import from client
+ * components.
+ *
+ * @example
+ * const adjustment = { type: 'percentage', value: 12.5, roundTo: 5, roundMode: 'nearest' }
+ * const error = validatePriceAdjustment(adjustment)
+ * const newPrice = applyPriceAdjustment(180, adjustment) // 205
+ */
+
+/**
+ * How the change value is applied
+ */
+export type PriceAdjustmentType = 'percentage' | 'fixed'
+
+/**
+ * Rounding direction
+ */
+export type PriceRoundMode = 'nearest' | 'up' | 'down'
+
+/**
+ * Bulk price change rule
+ */
+export interface PriceAdjustment {
+  /** Percentage of the current price or fixed TRY amount */
+  type: PriceAdjustmentType
+  /** Change value (negative values lower prices) */
+  value: number
+  /** Rounding step in TRY (0 = round to kurus only) */
+  roundTo: number
+  /** Rounding direction */
+  roundMode: PriceRoundMode
+}
+
+/**
+ * Product price before and after the bulk change
+ */
+export interface BulkPricePreviewRow {
+  productId: string
+  name: string
+  oldPrice: number
+  newPrice: number
+}
+
+/**
+ * Selectable rounding steps (TRY)
+ */
+export const ROUNDING_STEPS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'Yuvarlama yok' },
+  { value: 0.5, label: '0,50 TL' },
+  { value: 1, label: '1 TL' },
+  { value: 5, label: '5 TL' },
+  { value: 10, label: '10 TL' },
+]
+
+/**
+ * Maximum number of products in one bulk change
+ */
+export const MAX_BULK_PRODUCTS = 500
+
+/**
+ * Round a price to a step
+ *
+ * @param price - Price to round
+ * @param step - Rounding step in TRY (0 = round to kurus only)
+ * @param mode - Rounding direction (default: nearest)
+ * @returns number - Rounded price with at most two decimals
+ *
+ * @example
+ * ```typescript
+ * roundPrice(203.4, 5) // 205
+ * roundPrice(203.4, 5, 'down') // 200
+ * ```
+ */
+export function roundPrice(price: number, step: number, mode: PriceRoundMode = 'nearest'): number {
+  if (!step || step <= 0) {
+    return Math.round(price * 100) / 100
+  }
+
+  // Work in kurus so steps like 0.5 do not pick up floating point noise
+  const cents = Math.round(price * 100)
+  const stepCents = Math.round(step * 100)
+  const round = mode === 'up' ? Math.ceil : mode === 'down' ? Math.floor : Math.round
+
+  return (round(cents / stepCents) * stepCents) / 100
+}
+
+/**
+ * Apply a bulk price change to a single price
+ *
+ * Prices never go below zero.
+ *
+ * @param price - Current price
+ * @param adjustment - Change rule
+ * @returns number - New price
+ */
+export function applyPriceAdjustment(price: number, adjustment: PriceAdjustment): number {
+  const changed =
+    adjustment.type === 'percentage'
+      ? price * (1 + adjustment.value / 100)
+      : price + adjustment.value
+
+  return Math.max(0, roundPrice(changed, adjustment.roundTo, adjustment.roundMode))
+}
+
+/**
+ * Validate a bulk price change rule
+ *
+ * @param adjustment - Change rule to validate
+ * @returns string | null - Turkish error message or null if valid
+ */
+export function validatePriceAdjustment(adjustment: PriceAdjustment): string | null {
+  if (adjustment.type !== 'percentage' && adjustment.type !== 'fixed') {
+    return 'Geçersiz değişiklik türü'
+  }
+
+  if (!Number.isFinite(adjustment.value) || adjustment.value === 0) {
+    return 'Değişiklik değeri sıfırdan farklı bir sayı olmalıdır'
+  }
+
+  if (adjustment.type === 'percentage' && (adjustment.value <= -100 || adjustment.value > 1000)) {
+    return 'Yüzde değişiklik -100 ile 1000 arasında olmalıdır'
+  }
+
+  if (!ROUNDING_STEPS.some((step) => step.value === adjustment.roundTo)) {
+    return 'Geçersiz yuvarlama adımı'
+  }
+
+  if (!['nearest', 'up', 'down'].includes(adjustment.roundMode)) {
+    return 'Geçersiz yuvarlama yönü'
+  }
+
+  return null
+}
+
+/**
+ * Build the old vs new price preview of a bulk change
+ *
+ * Products whose price does not change after rounding are left out, because
+ * they would not get a ledger entry.
+ *
+ * @param products - Selected products with their current prices
+ * @param adjustment - Change rule
+ * @returns BulkPricePreviewRow[] - Products whose price changes
+ */
+export function buildBulkPricePreview(
+  products: Array<{ productId: string; name: string; price: number }>,
+  adjustment: PriceAdjustment
+): BulkPricePreviewRow[] {
+  return products
+    .map((product) => ({
+      productId: product.productId,
+      name: product.name,
+      oldPrice: product.price,
+      newPrice: applyPriceAdjustment(product.price, adjustment),
+    }))
+    .filter((row) => row.newPrice !== row.oldPrice)
+}
@@ -0,0 +1,536 @@
+/**
+ * Bundle Service - Set Menus Built from Existing Products
+ *
+ * This service implements the module_bundles feature: set menus (e.g.
+ * "Burger Menu" = burger + fries + drink) composed of existing products
+ * with a price of their own.
+ *
+ * CRITICAL: Bundle prices are compliance records too!
+ * - Bundle prices are NEVER stored on the bundle row
+ * - Every price is an INSERT into `bundle_price_ledger`, written with the
+ *   service role after the ownership check (RLS rejects inserts from user
+ *   sessions) together with a `price_change` audit log
+ * - Bundles are deactivated, never deleted
+ *
+ * A bundle is only published while every component product is visible;
+ * hiding a component hides the bundle with the next snapshot.
+ *
+ * Database Tables:
+ * - `bundles`: Bundle definitions
+ * - `bundle_items`: Component products with quantities
+ * - `bundle_price_ledger`: Immutable append-only bundle price history
+ * - `current_bundle_prices`: View showing latest price per bundle
+ *
+ * @example
+ * const result = await createBundle(organizationId, {
+ *   name: 'Burger Menu',
+ *   price: 320,
+ *   items: [
+ *     { product_id: burgerId, quantity: 1 },
+ *     { product_id: friesId, quantity: 1 },
+ *   ],
+ * })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import type { Bundle, BundleItem } from '@/types/database'
+
+/**
+ * A bundle as stored in the menu snapshot
+ */
+export interface BundleSnapshot {
+  id: string
+  name: string
+  description: string | null
+  image_url: string | null
+  sort_order: number
+  /** Current price from bundle_price_ledger */
+  price: number
+  currency: string
+  items: Array<{
+    product_id: string
+    name: string
+    quantity: number
+  }>
+}
+
+/**
+ * Bundle with its items and current price
+ */
+export interface BundleWithItems extends Bundle {
+  items: BundleItem[]
+  price: number | null
+  currency: string
+}
+
+/**
+ * Input for creating or updating a bundle
+ */
+export interface BundleInput {
+  name: string
+  description?: string | null
+  image_url?: string | null
+  sort_order?: number
+  /** New price - only written to the ledger when it differs from the current price */
+  price: number
+  /** Component products in display order */
+  items: Array<{ product_id: string; quantity: number }>
+  /** Reason recorded in bundle_price_ledger.change_reason */
+  change_reason?: string
+}
+
+/**
+ * Result type for bundle operations
+ */
+export interface BundleOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved bundle(s) */
+  data?: Bundle | BundleWithItems[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Validate bundle input
+ *
+ * @param input - Bundle input to validate
+ * @returns Turkish error message or null when valid
+ */
+export function validateBundleInput(input: BundleInput): string | null {
+  if (!input.name || !input.name.trim()) {
+    return 'Paket adı gereklidir'
+  }
+
+  if (isNaN(input.price) || input.price < 0) {
+    return 'Fiyat negatif olamaz'
+  }
+
+  if (!Array.isArray(input.items) || input.items.length < 2) {
+    return 'Paket en az iki üründen oluşmalıdır'
+  }
+
+  if (input.items.some((item) => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+    return 'Ürün adedi en az 1 olmalıdır'
+  }
+
+  const productIds = input.items.map((item) => item.product_id)
+  if (productIds.some((id) => !id) || new Set(productIds).size !== productIds.length) {
+    return 'Her ürün pakete yalnızca bir kez eklenebilir'
+  }
+
+  return null
+}
+
+/**
+ * Build the snapshot form of bundles.
+ *
+ * A bundle is skipped when it has no recorded price or when any component
+ * product is not among the visible products of the snapshot.
+ *
+ * @param bundles - Active bundles with items and prices
+ * @param visibleProducts - Visible product names keyed by product ID
+ * @returns BundleSnapshot[] - Bundles ready for the menu snapshot
+ *
+ * @example
+ * ```typescript
+ * const visible = new Map(products.map((p) => [p.id, p.name]))
+ * const snapshots = buildBundleSnapshots(bundles, visible)
+ * ```
+ */
+export function buildBundleSnapshots(
+  bundles: BundleWithItems[],
+  visibleProducts: Map<string, string>
+): BundleSnapshot[] {
+  return bundles
+    .filter(
+      (bundle) =>
+        bundle.price !== null &&
+        bundle.items.length > 0 &&
+        bundle.items.every((item) => visibleProducts.has(item.product_id))
+    )
+    .map((bundle) => ({
+      id: bundle.id,
+      name: bundle.name,
+      description: bundle.description,
+      image_url: bundle.image_url,
+      sort_order: bundle.sort_order,
+      price: bundle.price as number,
+      currency: bundle.currency,
+      items: [...bundle.items]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((item) => ({
+          product_id: item.product_id,
+          name: visibleProducts.get(item.product_id) as string,
+          quantity: item.quantity,
+        })),
+    }))
+}
+
+/**
+ * Get all bundles of an organization with items and current prices
+ *
+ * @param organizationId - The UUID of the organization
+ * @param options - Set activeOnly to skip deactivated bundles; client overrides
+ *   the session client (service role for scheduled publishing)
+ * @returns Promise<BundleOperationResult> - Result with bundles in display order
+ */
+export async function getBundles(
+  organizationId: string,
+  options: { activeOnly?: boolean; client?: SupabaseClient } = {}
+): Promise<BundleOperationResult> {
+  const supabase = options.client ?? (await createServerSupabaseClient())
+
+  let query = supabase
+    .from('bundles')
+    .select('*')
+    .eq('organization_id', organizationId)
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data: bundles, error } = await query.order('sort_order', { ascending: true })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: `Paketler alınamadı: ${error.message}`,
+    }
+  }
+
+  if (!bundles || bundles.length === 0) {
+    return { success: true, data: [] }
+  }
+
+  const bundleIds = bundles.map((bundle) => bundle.id)
+
+  const [{ data: items, error: itemsError }, { data: prices }] = await Promise.all([
+    supabase.from('bundle_items').select('*').in('bundle_id', bundleIds),
+    supabase
+      .from('current_bundle_prices')
+      .select('bundle_id, price, currency')
+      .in('bundle_id', bundleIds),
+  ])
+
+  if (itemsError) {
+    return {
+      success: false,
+      data: [],
+      error: `Paket ürünleri alınamadı: ${itemsError.message}`,
+    }
+  }
+
+  const priceMap = new Map<string, { price: number; currency: string }>(
+    (prices || []).map((p) => [p.bundle_id, { price: Number(p.price), currency: p.currency }])
+  )
+
+  return {
+    success: true,
+    data: (bundles as Bundle[]).map((bundle) => ({
+      ...bundle,
+      items: ((items || []) as BundleItem[]).filter((item) => item.bundle_id === bundle.id),
+      price: priceMap.get(bundle.id)?.price ?? null,
+      currency: priceMap.get(bundle.id)?.currency ?? 'TRY',
+    })),
+  }
+}
+
+/**
+ * Replace the items of a bundle
+ */
+async function replaceBundleItems(
+  organizationId: string,
+  bundleId: string,
+  items: BundleInput['items']
+): Promise<string | null> {
+  const supabase = await createServerSupabaseClient()
+
+  const { error: deleteError } = await supabase
+    .from('bundle_items')
+    .delete()
+    .eq('bundle_id', bundleId)
+
+  if (deleteError) {
+    return `Paket ürünleri güncellenemedi: ${deleteError.message}`
+  }
+
+  const { error } = await supabase.from('bundle_items').insert(
+    items.map((item, index) => ({
+      organization_id: organizationId,
+      bundle_id: bundleId,
+      product_id: item.product_id,
+      quantity: item.quantity,
+      sort_order: index,
+    }))
+  )
+
+  return error ? `Paket ürünleri güncellenemedi: ${error.message}` : null
+}
+
+/**
+ * Insert a bundle price into the immutable bundle_price_ledger
+ *
+ * The entry is written with the service role once the bundle is found in the
+ * organization with the user's session, together with a `price_change` audit
+ * log.
+ */
+async function recordBundlePrice(
+  organizationId: string,
+  bundleId: string,
+  price: number,
+  changeReason: string,
+  previousPrice: number | null = null
+): Promise<string | null> {
+  const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return 'Paket fiyatı için sunucu yapılandırması eksik'
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  // The service role skips RLS: check ownership with the user's session
+  const { data: bundle } = await supabase
+    .from('bundles')
+    .select('id')
+    .eq('id', bundleId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (!bundle) {
+    return 'Paket bulunamadı'
+  }
+
+  const { data: entry, error } = await admin
+    .from('bundle_price_ledger')
+    .insert({
+      organization_id: organizationId,
+      bundle_id: bundleId,
+      price,
+      currency: 'TRY',
+      change_reason: changeReason,
+      changed_by: user?.id ?? null,
+    })
+    .select('id, currency')
+    .single()
+
+  if (error || !entry) {
+    return `Paket fiyatı kaydedilemedi: ${error?.message}`
+  }
+
+  const { error: auditError } = await admin.from('audit_logs').insert({
+    organization_id: organizationId,
+    user_id: user?.id ?? null,
+    action: 'price_change',
+    entity_type: 'bundle',
+    entity_id: bundleId,
+    old_data: previousPrice !== null ? { price: previousPrice, currency: entry.currency } : null,
+    new_data: { price, currency: entry.currency },
+    metadata: {
+      change_reason: changeReason,
+      bundle_price_ledger_id: entry.id,
+    },
+  })
+
+  return auditError
+    ? `Paket fiyatı kaydedildi ancak denetim kaydı oluşturulamadı: ${auditError.message}`
+    : null
+}
+
+/**
+ * Verify that all component products belong to the organization
+ */
+async function validateBundleProducts(
+  organizationId: string,
+  items: BundleInput['items']
+): Promise<string | null> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data } = await supabase
+    .from('products')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .in('id', items.map((item) => item.product_id))
+
+  return (data || []).length === items.length ? null : 'Pakette geçersiz ürün var'
+}
+
+/**
+ * Create a bundle with its items and first price
+ *
+ * @param organizationId - The UUID of the organization
+ * @param input - Bundle definition
+ * @returns Promise<BundleOperationResult> - Result with created bundle or error
+ */
+export async function createBundle(
+  organizationId: string,
+  input: BundleInput
+): Promise<BundleOperationResult> {
+  const validationError =
+    validateBundleInput(input) || (await validateBundleProducts(organizationId, input.items))
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: bundle, error } = await supabase
+    .from('bundles')
+    .insert({
+      organization_id: organizationId,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      image_url: input.image_url?.trim() || null,
+      sort_order: input.sort_order ?? 0,
+      is_active: true,
+    })
+    .select()
+    .single()
+
+  if (error || !bundle) {
+    return {
+      success: false,
+      error: `Paket oluşturulamadı: ${error?.message}`,
+    }
+  }
+
+  const itemError =
+    (await replaceBundleItems(organizationId, bundle.id, input.items)) ||
+    (await recordBundlePrice(organizationId, bundle.id, input.price, input.change_reason || 'Ilk paket fiyati'))
+
+  if (itemError) {
+    return {
+      success: false,
+      error: itemError,
+    }
+  }
+
+  return {
+    success: true,
+    data: bundle as Bundle,
+  }
+}
+
+/**
+ * Update a bundle, replace its items and record a new price if it changed
+ *
+ * @param bundleId - The UUID of the bundle
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @param input - New bundle definition
+ * @returns Promise<BundleOperationResult> - Result with updated bundle or error
+ */
+export async function updateBundle(
+  bundleId: string,
+  organizationId: string,
+  input: BundleInput
+): Promise<BundleOperationResult> {
+  const validationError =
+    validateBundleInput(input) || (await validateBundleProducts(organizationId, input.items))
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: bundle, error } = await supabase
+    .from('bundles')
+    .update({
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      image_url: input.image_url?.trim() || null,
+      ...(input.sort_order !== undefined ? { sort_order: input.sort_order } : {}),
+    })
+    .eq('id', bundleId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error || !bundle) {
+    return {
+      success: false,
+      error: `Paket güncellenemedi: ${error?.message}`,
+    }
+  }
+
+  const { data: current } = await supabase
+    .from('current_bundle_prices')
+    .select('price')
+    .eq('bundle_id', bundleId)
+    .maybeSingle()
+
+  const itemError = await replaceBundleItems(organizationId, bundleId, input.items)
+  const priceError =
+    !itemError && Number(current?.price) !== input.price
+      ? await recordBundlePrice(
+          organizationId,
+          bundleId,
+          input.price,
+          input.change_reason || 'Paket fiyati guncellendi',
+          current ? Number(current.price) : null
+        )
+      : null
+
+  if (itemError || priceError) {
+    return {
+      success: false,
+      error: itemError || priceError || undefined,
+    }
+  }
+
+  return {
+    success: true,
+    data: bundle as Bundle,
+  }
+}
+
+/**
+ * Deactivate a bundle.
+ *
+ * Bundles are never deleted so their bundle_price_ledger entries keep a
+ * valid reference.
+ *
+ * @param bundleId - The UUID of the bundle
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @returns Promise<BundleOperationResult> - Result with deactivated bundle or error
+ */
+export async function deactivateBundle(
+  bundleId: string,
+  organizationId: string
+): Promise<BundleOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('bundles')
+    .update({ is_active: false })
+    .eq('id', bundleId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Paket devre dışı bırakılamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as Bundle,
+  }
+}
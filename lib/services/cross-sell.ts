@@ -0,0 +1,172 @@
+/**
+ * Cross-Sell Service - "Bununla iyi gider" Recommendations
+ *
+ * This service implements the module_cross_sell feature: merchants link a
+ * product to companion products that are shown under it on the public menu.
+ *
+ * Recommendations are captured in menu snapshots as product IDs. Links to
+ * hidden products stay in the database but are left out of the snapshot.
+ *
+ * Database Tables:
+ * - `product_recommendations`: Companion products of a product in display order
+ *
+ * @example
+ * // Recommend fries and a drink with a burger
+ * await setProductRecommendations(burgerId, organizationId, [friesId, colaId])
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+
+/**
+ * Maximum number of companions per product
+ */
+export const MAX_RECOMMENDATIONS = 4
+
+/**
+ * Validate the recommended product IDs of a product
+ *
+ * @param productId - The UUID of the product
+ * @param recommendedIds - Recommended product IDs in display order
+ * @returns Turkish error message or null when valid
+ */
+export function validateRecommendations(
+  productId: string,
+  recommendedIds: string[]
+): string | null {
+  if (recommendedIds.includes(productId)) {
+    return 'Ürün kendisiyle birlikte önerilemez'
+  }
+
+  if (new Set(recommendedIds).size > MAX_RECOMMENDATIONS) {
+    return `En fazla ${MAX_RECOMMENDATIONS} ürün önerilebilir`
+  }
+
+  return null
+}
+
+/**
+ * Build the recommendations of every product for the menu snapshot.
+ *
+ * Links to products that are not visible are dropped so the public menu
+ * never points at a hidden product.
+ *
+ * @param rows - product_recommendations rows in display order
+ * @param visibleProductIds - IDs of the products in the snapshot
+ * @returns Map of product ID to recommended product IDs
+ *
+ * @example
+ * ```typescript
+ * const map = buildRecommendationMap(rows, new Set(products.map((p) => p.id)))
+ * map.get(burgerId) // ['fries-id', 'cola-id']
+ * ```
+ */
+export function buildRecommendationMap(
+  rows: Array<{ product_id: string; recommended_product_id: string }>,
+  visibleProductIds: Set<string>
+): Map<string, string[]> {
+  const map = new Map<string, string[]>()
+
+  for (const row of rows) {
+    if (
+      !visibleProductIds.has(row.product_id) ||
+      !visibleProductIds.has(row.recommended_product_id)
+    ) {
+      continue
+    }
+
+    const entry = map.get(row.product_id) || []
+    if (entry.length < MAX_RECOMMENDATIONS) {
+      entry.push(row.recommended_product_id)
+    }
+    map.set(row.product_id, entry)
+  }
+
+  return map
+}
+
+/**
+ * Get the recommended product IDs of a product
+ *
+ * @param productId - The UUID of the product
+ * @returns Promise<string[]> - Recommended product IDs in display order
+ */
+export async function getProductRecommendationIds(productId: string): Promise<string[]> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data } = await supabase
+    .from('product_recommendations')
+    .select('recommended_product_id')
+    .eq('product_id', productId)
+    .order('sort_order', { ascending: true })
+
+  return (data || []).map((row) => row.recommended_product_id)
+}
+
+/**
+ * Replace the recommended products of a product
+ *
+ * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization
+ * @param recommendedIds - Recommended product IDs in display order (empty = none)
+ * @returns Promise<{ success: boolean; error?: string }>
+ */
+export async function setProductRecommendations(
+  productId: string,
+  organizationId: string,
+  recommendedIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateRecommendations(productId, recommendedIds)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const uniqueIds = [...new Set(recommendedIds)]
+
+  if (uniqueIds.length > 0) {
+    const { data: products } = await supabase
+      .from('products')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .in('id', uniqueIds)
+
+    if ((products || []).length !== uniqueIds.length) {
+      return { success: false, error: 'Önerilerde geçersiz ürün var' }
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('product_recommendations')
+    .delete()
+    .eq('product_id', productId)
+    .eq('organization_id', organizationId)
+
+  if (deleteError) {
+    return {
+      success: false,
+      error: `Ürün önerileri güncellenemedi: ${deleteError.message}`,
+    }
+  }
+
+  if (uniqueIds.length === 0) {
+    return { success: true }
+  }
+
+  const { error } = await supabase.from('product_recommendations').insert(
+    uniqueIds.map((recommendedId, index) => ({
+      organization_id: organizationId,
+      product_id: productId,
+      recommended_product_id: recommendedId,
+      sort_order: index,
+    }))
+  )
+
+  if (error) {
+    return {
+      success: false,
+      error: `Ürün önerileri güncellenemedi: ${error.message}`,
+    }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,682 @@
+/**
+ * Happy Hour Service - Scheduled Discount Rules
+ *
+ * This service implements the module_happy_hour feature: time-window
+ * discount rules (days of week + hours) for a product or a whole category.
+ *
+ * CRITICAL: Discounted prices are compliance records too!
+ * - Discounted prices are computed when the menu is published
+ * - Every published discounted price is recorded in `discounted_price_ledger`
+ *   with the service role (RLS rejects inserts from user sessions)
+ * - The public menu only displays discounted prices from the snapshot, so the
+ *   ledger never disagrees with what a guest saw
+ * - Rules are deactivated, never deleted
+ *
+ * All windows are evaluated in Europe/Istanbul local time.
+ *
+ * Database Tables:
+ * - `price_rules`: Discount rule definitions
+ * - `discounted_price_ledger`: Immutable append-only discounted price history
+ * - `current_discounted_prices`: View showing latest entry per product/rule
+ *
+ * @example
+ * // Create a rule (publishing a new snapshot is the caller's job)
+ * const result = await createPriceRule(organizationId, {
+ *   name: 'Aksam Happy Hour',
+ *   category_id: categoryId,
+ *   discount_type: 'percentage',
+ *   discount_value: 20,
+ *   days_of_week: [1, 2, 3, 4, 5],
+ *   start_time: '17:00',
+ *   end_time: '19:00',
+ * })
+ *
+ * // Find the window active right now for a product from the snapshot
+ * const active = getActivePriceWindow(product.price_rules)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import type {
+  PriceRule,
+  PriceRuleDiscountType,
+  DiscountedPriceLedgerEntry,
+} from '@/types/database'
+
+/**
+ * Time zone all happy hour windows are defined in
+ */
+export const MENU_TIME_ZONE = 'Europe/Istanbul'
+
+/**
+ * Turkish day names indexed by ISO weekday (1 = Monday)
+ */
+export const WEEKDAY_NAMES: Record<number, string> = {
+  1: 'Pazartesi',
+  2: 'Salı',
+  3: 'Çarşamba',
+  4: 'Perşembe',
+  5: 'Cuma',
+  6: 'Cumartesi',
+  7: 'Pazar',
+}
+
+/**
+ * A discount window as stored in the menu snapshot
+ */
+export interface PriceWindow {
+  /** Source price rule ID */
+  rule_id: string
+  /** Rule name shown to guests */
+  name: string
+  /** ISO weekdays the window starts on */
+  days_of_week: number[]
+  /** Start time (HH:MM, Europe/Istanbul) */
+  start_time: string
+  /** End time (HH:MM, Europe/Istanbul) - earlier than start means overnight */
+  end_time: string
+  /** Discounted price, recorded in discounted_price_ledger */
+  price: number
+}
+
+/**
+ * Input for creating or updating a price rule
+ */
+export interface PriceRuleInput {
+  name: string
+  product_id?: string | null
+  category_id?: string | null
+  discount_type: PriceRuleDiscountType
+  discount_value: number
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+}
+
+/**
+ * Result type for price rule operations
+ */
+export interface PriceRuleOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved rule(s) */
+  data?: PriceRule | PriceRule[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Convert a TIME value ('HH:MM' or 'HH:MM:SS') to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10))
+  return hours * 60 + minutes
+}
+
+/**
+ * Normalize a TIME value to 'HH:MM'
+ */
+function normalizeTime(time: string): string {
+  return time.slice(0, 5)
+}
+
+/**
+ * Calculate the discounted price for a rule.
+ *
+ * Percentage discounts are taken off the base price; fixed discounts
+ * subtract an amount. The result is rounded to 2 decimals and never negative.
+ *
+ * @param basePrice - Regular price from price_ledger
+ * @param discountType - 'percentage' or 'fixed'
+ * @param discountValue - Percent (0-100) or amount to subtract
+ * @returns number - Discounted price
+ *
+ * @example
+ * ```typescript
+ * calculateDiscountedPrice(200, 'percentage', 15) // 170
+ * calculateDiscountedPrice(200, 'fixed', 50)      // 150
+ * ```
+ */
+export function calculateDiscountedPrice(
+  basePrice: number,
+  discountType: PriceRuleDiscountType,
+  discountValue: number
+): number {
+  const discounted =
+    discountType === 'percentage'
+      ? basePrice * (1 - discountValue / 100)
+      : basePrice - discountValue
+
+  return Math.max(0, Math.round(discounted * 100) / 100)
+}
+
+/**
+ * Get ISO weekday and minutes since midnight of a moment in a time zone
+ *
+ * @param date - The moment to convert
+ * @param timeZone - IANA time zone (default: Europe/Istanbul)
+ * @returns { day, minutes } - ISO weekday (1-7) and minutes since midnight
+ */
+export function getZonedDayAndMinutes(
+  date: Date,
+  timeZone: string = MENU_TIME_ZONE
+): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+
+  const weekday = parts.find((p) => p.type === 'weekday')?.value ?? 'Mon'
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value ?? '0', 10)
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value ?? '0', 10)
+  const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+  return {
+    day: days.indexOf(weekday) + 1,
+    minutes: hour * 60 + minute,
+  }
+}
+
+/**
+ * Check whether a discount window is active at a given moment.
+ *
+ * Windows whose end time is earlier than the start time run overnight;
+ * the part after midnight belongs to the day the window started on.
+ *
+ * @param window - Days of week and start/end times
+ * @param date - Moment to check (default: now)
+ * @param timeZone - IANA time zone (default: Europe/Istanbul)
+ * @returns boolean - True if the window is active
+ *
+ * @example
+ * ```typescript
+ * // Friday 23:30 Istanbul, window Fri 22:00-02:00 -> true
+ * isPriceWindowActive({ days_of_week: [5], start_time: '22:00', end_time: '02:00' }, date)
+ * ```
+ */
+export function isPriceWindowActive(
+  window: Pick<PriceWindow, 'days_of_week' | 'start_time' | 'end_time'>,
+  date: Date = new Date(),
+  timeZone: string = MENU_TIME_ZONE
+): boolean {
+  const { day, minutes } = getZonedDayAndMinutes(date, timeZone)
+  const start = toMinutes(window.start_time)
+  const end = toMinutes(window.end_time)
+
+  if (start < end) {
+    return window.days_of_week.includes(day) && minutes >= start && minutes < end
+  }
+
+  // Overnight window
+  const previousDay = day === 1 ? 7 : day - 1
+  return (
+    (window.days_of_week.includes(day) && minutes >= start) ||
+    (window.days_of_week.includes(previousDay) && minutes < end)
+  )
+}
+
+/**
+ * Get the active discount window for a product at a given moment.
+ *
+ * When several windows overlap, the lowest price wins.
+ *
+ * @param windows - Discount windows from the menu snapshot
+ * @param date - Moment to check (default: now)
+ * @returns PriceWindow | null - The active window or null
+ */
+export function getActivePriceWindow(
+  windows: PriceWindow[] | undefined,
+  date: Date = new Date()
+): PriceWindow | null {
+  const active = (windows || []).filter((window) => isPriceWindowActive(window, date))
+
+  if (active.length === 0) {
+    return null
+  }
+
+  return active.reduce((lowest, window) => (window.price < lowest.price ? window : lowest))
+}
+
+/**
+ * Build the discount windows of a product from the organization's active rules.
+ *
+ * @param product - Product ID, category and base price
+ * @param rules - Active price rules of the organization
+ * @returns PriceWindow[] - Windows sorted by price (lowest first)
+ */
+export function buildPriceWindows(
+  product: { id: string; category_id: string | null; price: number | null },
+  rules: PriceRule[]
+): PriceWindow[] {
+  if (product.price === null) {
+    return []
+  }
+
+  return rules
+    .filter(
+      (rule) =>
+        rule.is_active &&
+        (rule.product_id === product.id ||
+          (!!rule.category_id && rule.category_id === product.category_id))
+    )
+    .map((rule) => ({
+      rule_id: rule.id,
+      name: rule.name,
+      days_of_week: [...rule.days_of_week].sort((a, b) => a - b),
+      start_time: normalizeTime(rule.start_time),
+      end_time: normalizeTime(rule.end_time),
+      price: calculateDiscountedPrice(
+        product.price!,
+        rule.discount_type,
+        Number(rule.discount_value)
+      ),
+    }))
+    .sort((a, b) => a.price - b.price)
+}
+
+/**
+ * Validate price rule input
+ *
+ * @param input - Rule input to validate
+ * @returns string | null - Turkish error message or null if valid
+ */
+export function validatePriceRuleInput(input: PriceRuleInput): string | null {
+  const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/
+
+  if (!input.name || !input.name.trim()) {
+    return 'Kural adı gereklidir'
+  }
+
+  if (!!input.product_id === !!input.category_id) {
+    return 'Kural bir ürün veya bir kategori için tanımlanmalıdır'
+  }
+
+  if (!['percentage', 'fixed'].includes(input.discount_type)) {
+    return 'Geçersiz indirim tipi'
+  }
+
+  if (!(input.discount_value > 0)) {
+    return 'İndirim değeri sıfırdan büyük olmalıdır'
+  }
+
+  if (input.discount_type === 'percentage' && input.discount_value > 100) {
+    return 'İndirim oranı 100 değerini geçemez'
+  }
+
+  if (
+    !Array.isArray(input.days_of_week) ||
+    input.days_of_week.length === 0 ||
+    input.days_of_week.some((day) => !Number.isInteger(day) || day < 1 || day > 7)
+  ) {
+    return 'En az bir geçerli gün seçilmelidir'
+  }
+
+  if (!timeRegex.test(input.start_time) || !timeRegex.test(input.end_time)) {
+    return 'Saatler SS:DD formatında olmalıdır'
+  }
+
+  if (input.start_time === input.end_time) {
+    return 'Başlangıç ve bitiş saati aynı olamaz'
+  }
+
+  return null
+}
+
+/**
+ * Get all price rules of an organization
+ *
+ * @param organizationId - The UUID of the organization
+ * @param options - Set activeOnly to skip deactivated rules
+ * @returns Promise<PriceRuleOperationResult> - Result with rules
+ */
+export async function getPriceRules(
+  organizationId: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<PriceRuleOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  let query = supabase
+    .from('price_rules')
+    .select('*')
+    .eq('organization_id', organizationId)
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: `Kurallar alınamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as PriceRule[],
+  }
+}
+
+/**
+ * Create a new price rule
+ *
+ * @param organizationId - The UUID of the organization
+ * @param input - Rule definition
+ * @returns Promise<PriceRuleOperationResult> - Result with created rule or error
+ */
+export async function createPriceRule(
+  organizationId: string,
+  input: PriceRuleInput
+): Promise<PriceRuleOperationResult> {
+  const validationError = validatePriceRuleInput(input)
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const { data, error } = await supabase
+    .from('price_rules')
+    .insert({
+      organization_id: organizationId,
+      name: input.name.trim(),
+      product_id: input.product_id || null,
+      category_id: input.category_id || null,
+      discount_type: input.discount_type,
+      discount_value: input.discount_value,
+      days_of_week: input.days_of_week,
+      start_time: input.start_time,
+      end_time: input.end_time,
+      is_active: true,
+      created_by: user?.id ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Kural oluşturulamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as PriceRule,
+  }
+}
+
+/**
+ * Update an existing price rule
+ *
+ * @param ruleId - The UUID of the rule
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @param input - New rule definition
+ * @returns Promise<PriceRuleOperationResult> - Result with updated rule or error
+ */
+export async function updatePriceRule(
+  ruleId: string,
+  organizationId: string,
+  input: PriceRuleInput
+): Promise<PriceRuleOperationResult> {
+  const validationError = validatePriceRuleInput(input)
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('price_rules')
+    .update({
+      name: input.name.trim(),
+      product_id: input.product_id || null,
+      category_id: input.category_id || null,
+      discount_type: input.discount_type,
+      discount_value: input.discount_value,
+      days_of_week: input.days_of_week,
+      start_time: input.start_time,
+      end_time: input.end_time,
+    })
+    .eq('id', ruleId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Kural güncellenemedi: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as PriceRule,
+  }
+}
+
+/**
+ * Deactivate a price rule.
+ *
+ * Rules are never deleted so their discounted_price_ledger entries keep
+ * a valid reference.
+ *
+ * @param ruleId - The UUID of the rule
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @returns Promise<PriceRuleOperationResult> - Result with deactivated rule or error
+ */
+export async function deactivatePriceRule(
+  ruleId: string,
+  organizationId: string
+): Promise<PriceRuleOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('price_rules')
+    .update({ is_active: false })
+    .eq('id', ruleId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Kural devre dışı bırakılamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as PriceRule,
+  }
+}
+
+/**
+ * Discounted price entry that publishing a menu adds to discounted_price_ledger
+ */
+export type DiscountedPriceEntry = Omit<DiscountedPriceLedgerEntry, 'id' | 'created_at'>
+
+/**
+ * Find the discounted prices a menu publish has to record.
+ *
+ * Only product/rule pairs whose price, base price or window changed since the
+ * last recorded entry are returned. The rules must belong to the organization
+ * (checked with the reading client, because the entries are written with the
+ * service role).
+ *
+ * @param organizationId - The UUID of the organization
+ * @param products - Snapshot products with their base price and windows
+ * @param client - Supabase client to read with (default: the session client)
+ * @returns Promise<{ success: boolean; data?: DiscountedPriceEntry[]; error?: string }>
+ */
+export async function getDiscountedPriceEntries(
+  organizationId: string,
+  products: Array<{
+    id: string
+    price: number | null
+    currency: string
+    price_rules?: PriceWindow[]
+  }>,
+  client?: SupabaseClient
+): Promise<{ success: boolean; data?: DiscountedPriceEntry[]; error?: string }> {
+  const windows = products.flatMap((product) =>
+    (product.price_rules || []).map((window) => ({ product, window }))
+  )
+
+  if (windows.length === 0) {
+    return { success: true, data: [] }
+  }
+
+  const supabase = client ?? (await createServerSupabaseClient())
+
+  // The service role skips RLS: check that the rules belong to the organization
+  const ruleIds = [...new Set(windows.map(({ window }) => window.rule_id))]
+  const { data: rules } = await supabase
+    .from('price_rules')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .in('id', ruleIds)
+
+  if ((rules || []).length !== ruleIds.length) {
+    return {
+      success: false,
+      error: 'İndirim kuralı bulunamadı',
+    }
+  }
+
+  const { data: current, error: currentError } = await supabase
+    .from('current_discounted_prices')
+    .select('product_id, price_rule_id, base_price, price, days_of_week, start_time, end_time')
+    .eq('organization_id', organizationId)
+
+  if (currentError) {
+    return {
+      success: false,
+      error: `İndirimli fiyatlar alınamadı: ${currentError.message}`,
+    }
+  }
+
+  const latest = new Map<string, Partial<DiscountedPriceLedgerEntry>>(
+    (current || []).map((entry) => [`${entry.product_id}:${entry.price_rule_id}`, entry])
+  )
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return {
+    success: true,
+    data: windows
+      .filter(({ product, window }) => {
+        const previous = latest.get(`${product.id}:${window.rule_id}`)
+        return (
+          !previous ||
+          Number(previous.price) !== window.price ||
+          Number(previous.base_price) !== product.price ||
+          normalizeTime(previous.start_time ?? '') !== window.start_time ||
+          normalizeTime(previous.end_time ?? '') !== window.end_time ||
+          [...(previous.days_of_week ?? [])].sort((a, b) => a - b).join(',') !==
+            window.days_of_week.join(',')
+        )
+      })
+      .map(({ product, window }) => ({
+        organization_id: organizationId,
+        product_id: product.id,
+        price_rule_id: window.rule_id,
+        // buildPriceWindows only builds windows for products with a price
+        base_price: product.price as number,
+        price: window.price,
+        currency: product.currency,
+        days_of_week: window.days_of_week,
+        start_time: window.start_time,
+        end_time: window.end_time,
+        change_reason: `Happy hour: ${window.name}`,
+        changed_by: user?.id ?? null,
+      })),
+  }
+}
+
+/**
+ * Record published discounted prices in the immutable discounted_price_ledger.
+ *
+ * Called while creating a menu snapshot with the entries of
+ * getDiscountedPriceEntries, written with the service role.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param products - Snapshot products with their base price and windows
+ * @param client - Supabase client to read with (default: the session client)
+ * @returns Promise<{ success: boolean; recorded: number; error?: string }>
+ */
+export async function recordDiscountedPrices(
+  organizationId: string,
+  products: Array<{
+    id: string
+    price: number | null
+    currency: string
+    price_rules?: PriceWindow[]
+  }>,
+  client?: SupabaseClient
+): Promise<{ success: boolean; recorded: number; error?: string }> {
+  if (!products.some((product) => (product.price_rules || []).length > 0)) {
+    return { success: true, recorded: 0 }
+  }
+
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      recorded: 0,
+      error: 'İndirimli fiyat kaydı için sunucu yapılandırması eksik',
+    }
+  }
+
+  const result = await getDiscountedPriceEntries(organizationId, products, client)
+
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      recorded: 0,
+      error: result.error,
+    }
+  }
+
+  const entries = result.data
+
+  if (entries.length === 0) {
+    return { success: true, recorded: 0 }
+  }
+
+  const { error } = await admin.from('discounted_price_ledger').insert(entries)
+
+  if (error) {
+    return {
+      success: false,
+      recorded: 0,
+      error: `İndirimli fiyatlar kaydedilemedi: ${error.message}`,
+    }
+  }
+
+  return { success: true, recorded: entries.length }
+}
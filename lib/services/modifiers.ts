@@ -0,0 +1,687 @@
+/**
+ * Modifier Service - Reusable Add-On Groups
+ *
+ * This service implements the module_modifiers feature: reusable modifier
+ * groups (e.g. "Ekstra malzemeler") with min/max selection rules, attached
+ * to any number of products.
+ *
+ * CRITICAL: Option prices are compliance records too!
+ * - Option prices are NEVER stored on the option row
+ * - Every price is an INSERT into `modifier_price_ledger`, written with the
+ *   service role after the ownership check (RLS rejects inserts from user
+ *   sessions) together with a `price_change` audit log
+ * - Groups and options are deactivated, never deleted
+ *
+ * A group is required when min_selections > 0.
+ *
+ * Database Tables:
+ * - `modifier_groups`: Group definitions with selection rules
+ * - `modifier_options`: Options of a group
+ * - `product_modifier_groups`: Groups offered with a product
+ * - `modifier_price_ledger`: Immutable append-only option price history
+ * - `current_modifier_prices`: View showing latest price per option
+ *
+ * @example
+ * // Create a group with two priced options
+ * const result = await createModifierGroup(organizationId, {
+ *   name: 'Ekstra malzemeler',
+ *   min_selections: 0,
+ *   max_selections: 3,
+ *   options: [
+ *     { name: 'Ekstra peynir', price: 25 },
+ *     { name: 'Jalapeno', price: 15 },
+ *   ],
+ * })
+ *
+ * // Offer it with a product
+ * await setProductModifierGroups(productId, organizationId, [groupId])
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import type { ModifierGroup, ModifierOption } from '@/types/database'
+
+/**
+ * A modifier option as stored in the menu snapshot
+ */
+export interface ModifierOptionSnapshot {
+  id: string
+  name: string
+  /** Current price from modifier_price_ledger */
+  price: number
+  currency: string
+}
+
+/**
+ * A modifier group as stored in the menu snapshot
+ */
+export interface ModifierGroupSnapshot {
+  id: string
+  name: string
+  min_selections: number
+  max_selections: number
+  /** True when min_selections > 0 */
+  is_required: boolean
+  options: ModifierOptionSnapshot[]
+}
+
+/**
+ * Modifier group with its active options and their current prices
+ */
+export interface ModifierGroupWithOptions extends ModifierGroup {
+  options: Array<ModifierOption & { price: number | null; currency: string }>
+}
+
+/**
+ * Input for creating or updating a modifier group
+ */
+export interface ModifierGroupInput {
+  name: string
+  min_selections: number
+  max_selections: number
+  /** Options in display order; existing options keep their id */
+  options: Array<{ id?: string; name: string; price: number }>
+}
+
+/**
+ * Result type for modifier operations
+ */
+export interface ModifierOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved group(s) */
+  data?: ModifierGroup | ModifierGroupWithOptions[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Validate modifier group input
+ *
+ * @param input - Group input to validate
+ * @returns Turkish error message or null when valid
+ *
+ * @example
+ * ```typescript
+ * validateModifierGroupInput({ name: 'Soslar', min_selections: 2, max_selections: 1, options: [] })
+ * // 'Minimum seçim sayısı maksimumdan büyük olamaz'
+ * ```
+ */
+export function validateModifierGroupInput(input: ModifierGroupInput): string | null {
+  if (!input.name || !input.name.trim()) {
+    return 'Grup adı gereklidir'
+  }
+
+  if (!Number.isInteger(input.min_selections) || input.min_selections < 0) {
+    return 'Minimum seçim sayısı negatif olamaz'
+  }
+
+  if (!Number.isInteger(input.max_selections) || input.max_selections < 1) {
+    return 'Maksimum seçim sayısı en az 1 olmalıdır'
+  }
+
+  if (input.min_selections > input.max_selections) {
+    return 'Minimum seçim sayısı maksimumdan büyük olamaz'
+  }
+
+  if (!Array.isArray(input.options) || input.options.length === 0) {
+    return 'En az bir seçenek eklenmelidir'
+  }
+
+  if (input.options.some((option) => !option.name || !option.name.trim())) {
+    return 'Seçenek adı gereklidir'
+  }
+
+  if (input.options.some((option) => isNaN(option.price) || option.price < 0)) {
+    return 'Seçenek fiyatı negatif olamaz'
+  }
+
+  if (input.min_selections > input.options.length) {
+    return 'Minimum seçim sayısı seçenek sayısını geçemez'
+  }
+
+  return null
+}
+
+/**
+ * Describe a group's selection rule for guests
+ *
+ * @param group - Group with min/max selections
+ * @returns string - Turkish description (e.g. 'Zorunlu, 1 seçim')
+ *
+ * @example
+ * ```typescript
+ * describeSelectionRule({ min_selections: 0, max_selections: 3 }) // 'İsteğe bağlı, en fazla 3 seçim'
+ * describeSelectionRule({ min_selections: 1, max_selections: 1 }) // 'Zorunlu, 1 seçim'
+ * ```
+ */
+export function describeSelectionRule(group: {
+  min_selections: number
+  max_selections: number
+}): string {
+  const { min_selections: min, max_selections: max } = group
+
+  if (min === 0) {
+    return `İsteğe bağlı, en fazla ${max} seçim`
+  }
+
+  if (min === max) {
+    return `Zorunlu, ${min} seçim`
+  }
+
+  return `Zorunlu, ${min}-${max} seçim`
+}
+
+/**
+ * Build the snapshot form of modifier groups.
+ *
+ * Options without a recorded price are skipped; groups left without
+ * options are dropped.
+ *
+ * @param groups - Active groups with their active options
+ * @returns ModifierGroupSnapshot[] - Groups ready for the menu snapshot
+ */
+export function buildModifierGroupSnapshots(
+  groups: ModifierGroupWithOptions[]
+): ModifierGroupSnapshot[] {
+  return groups
+    .map((group) => ({
+      id: group.id,
+      name: group.name,
+      min_selections: group.min_selections,
+      max_selections: group.max_selections,
+      is_required: group.min_selections > 0,
+      options: group.options
+        .filter((option) => option.price !== null)
+        .map((option) => ({
+          id: option.id,
+          name: option.name,
+          price: option.price as number,
+          currency: option.currency,
+        })),
+    }))
+    .filter((group) => group.options.length > 0)
+}
+
+/**
+ * Get all modifier groups of an organization with their options and prices
+ *
+ * @param organizationId - The UUID of the organization
+ * @param options - Set activeOnly to skip deactivated groups; client overrides
+ *   the session client (service role for scheduled publishing)
+ * @returns Promise<ModifierOperationResult> - Result with groups
+ */
+export async function getModifierGroups(
+  organizationId: string,
+  options: { activeOnly?: boolean; client?: SupabaseClient } = {}
+): Promise<ModifierOperationResult> {
+  const supabase = options.client ?? (await createServerSupabaseClient())
+
+  let query = supabase
+    .from('modifier_groups')
+    .select('*')
+    .eq('organization_id', organizationId)
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data: groups, error } = await query.order('created_at', { ascending: true })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: `Eklemeler alınamadı: ${error.message}`,
+    }
+  }
+
+  const [{ data: optionRows }, { data: prices }] = await Promise.all([
+    supabase
+      .from('modifier_options')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('current_modifier_prices')
+      .select('option_id, price, currency')
+      .eq('organization_id', organizationId),
+  ])
+
+  const priceMap = new Map<string, { price: number; currency: string }>(
+    (prices || []).map((p) => [p.option_id, { price: Number(p.price), currency: p.currency }])
+  )
+
+  return {
+    success: true,
+    data: ((groups || []) as ModifierGroup[]).map((group) => ({
+      ...group,
+      options: ((optionRows || []) as ModifierOption[])
+        .filter((option) => option.group_id === group.id)
+        .map((option) => ({
+          ...option,
+          price: priceMap.get(option.id)?.price ?? null,
+          currency: priceMap.get(option.id)?.currency ?? 'TRY',
+        })),
+    })),
+  }
+}
+
+/**
+ * Insert option prices into the immutable modifier_price_ledger
+ *
+ * The entries are written with the service role once the options are found
+ * in the organization with the user's session, and each one gets a
+ * `price_change` audit log.
+ */
+async function recordModifierPrices(
+  organizationId: string,
+  entries: Array<{ option_id: string; price: number; previous_price?: number | null }>,
+  changeReason: string
+): Promise<string | null> {
+  if (entries.length === 0) {
+    return null
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return 'Ekleme fiyatları için sunucu yapılandırması eksik'
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  // The service role skips RLS: check ownership with the user's session
+  const optionIds = [...new Set(entries.map((entry) => entry.option_id))]
+  const { data: owned } = await supabase
+    .from('modifier_options')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .in('id', optionIds)
+
+  if ((owned || []).length !== optionIds.length) {
+    return 'Seçenek bulunamadı'
+  }
+
+  const { data: inserted, error } = await admin
+    .from('modifier_price_ledger')
+    .insert(
+      entries.map((entry) => ({
+        organization_id: organizationId,
+        option_id: entry.option_id,
+        price: entry.price,
+        currency: 'TRY',
+        change_reason: changeReason,
+        changed_by: user?.id ?? null,
+      }))
+    )
+    .select('id, option_id, price, currency')
+
+  if (error) {
+    return `Ekleme fiyatları kaydedilemedi: ${error.message}`
+  }
+
+  const { error: auditError } = await admin.from('audit_logs').insert(
+    (inserted || []).map((entry) => {
+      const previous = entries.find((item) => item.option_id === entry.option_id)?.previous_price
+
+      return {
+        organization_id: organizationId,
+        user_id: user?.id ?? null,
+        action: 'price_change',
+        entity_type: 'modifier_option',
+        entity_id: entry.option_id,
+        old_data: previous != null ? { price: previous, currency: entry.currency } : null,
+        new_data: { price: Number(entry.price), currency: entry.currency },
+        metadata: {
+          change_reason: changeReason,
+          modifier_price_ledger_id: entry.id,
+        },
+      }
+    })
+  )
+
+  return auditError
+    ? `Ekleme fiyatları kaydedildi ancak denetim kaydı oluşturulamadı: ${auditError.message}`
+    : null
+}
+
+/**
+ * Insert new options of a group and record their first prices
+ */
+async function insertOptions(
+  organizationId: string,
+  groupId: string,
+  options: Array<{ name: string; price: number; sort_order: number }>
+): Promise<string | null> {
+  if (options.length === 0) {
+    return null
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('modifier_options')
+    .insert(
+      options.map((option) => ({
+        organization_id: organizationId,
+        group_id: groupId,
+        name: option.name.trim(),
+        sort_order: option.sort_order,
+      }))
+    )
+    .select('id, sort_order')
+
+  if (error || !data) {
+    return `Seçenekler oluşturulamadı: ${error?.message}`
+  }
+
+  return recordModifierPrices(
+    organizationId,
+    data.map((row) => ({
+      option_id: row.id,
+      price: options.find((option) => option.sort_order === row.sort_order)!.price,
+    })),
+    'Ilk ekleme fiyati'
+  )
+}
+
+/**
+ * Create a modifier group with its options and their first prices
+ *
+ * @param organizationId - The UUID of the organization
+ * @param input - Group definition with options
+ * @returns Promise<ModifierOperationResult> - Result with created group or error
+ */
+export async function createModifierGroup(
+  organizationId: string,
+  input: ModifierGroupInput
+): Promise<ModifierOperationResult> {
+  const validationError = validateModifierGroupInput(input)
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: group, error } = await supabase
+    .from('modifier_groups')
+    .insert({
+      organization_id: organizationId,
+      name: input.name.trim(),
+      min_selections: input.min_selections,
+      max_selections: input.max_selections,
+      is_active: true,
+    })
+    .select()
+    .single()
+
+  if (error || !group) {
+    return {
+      success: false,
+      error: `Grup oluşturulamadı: ${error?.message}`,
+    }
+  }
+
+  const optionError = await insertOptions(
+    organizationId,
+    group.id,
+    input.options.map((option, index) => ({ ...option, sort_order: index }))
+  )
+
+  if (optionError) {
+    return {
+      success: false,
+      error: optionError,
+    }
+  }
+
+  return {
+    success: true,
+    data: group as ModifierGroup,
+  }
+}
+
+/**
+ * Update a modifier group and synchronize its options.
+ *
+ * Existing options are renamed/reordered, changed prices are recorded as new
+ * ledger entries, new options are created and options missing from the input
+ * are deactivated.
+ *
+ * @param groupId - The UUID of the group
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @param input - New group definition with options
+ * @returns Promise<ModifierOperationResult> - Result with updated group or error
+ */
+export async function updateModifierGroup(
+  groupId: string,
+  organizationId: string,
+  input: ModifierGroupInput
+): Promise<ModifierOperationResult> {
+  const validationError = validateModifierGroupInput(input)
+  if (validationError) {
+    return {
+      success: false,
+      error: validationError,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: group, error } = await supabase
+    .from('modifier_groups')
+    .update({
+      name: input.name.trim(),
+      min_selections: input.min_selections,
+      max_selections: input.max_selections,
+    })
+    .eq('id', groupId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error || !group) {
+    return {
+      success: false,
+      error: `Grup güncellenemedi: ${error?.message}`,
+    }
+  }
+
+  const [{ data: existingOptions }, { data: prices }] = await Promise.all([
+    supabase
+      .from('modifier_options')
+      .select('id, name, sort_order')
+      .eq('group_id', groupId)
+      .eq('is_active', true),
+    supabase
+      .from('current_modifier_prices')
+      .select('option_id, price')
+      .eq('organization_id', organizationId),
+  ])
+
+  const existingIds = new Set((existingOptions || []).map((option) => option.id))
+  const priceMap = new Map<string, number>(
+    (prices || []).map((p) => [p.option_id, Number(p.price)])
+  )
+  const keptIds = new Set<string>()
+  const priceChanges: Array<{ option_id: string; price: number; previous_price?: number | null }> = []
+  const newOptions: Array<{ name: string; price: number; sort_order: number }> = []
+
+  for (const [index, option] of input.options.entries()) {
+    if (option.id && existingIds.has(option.id)) {
+      keptIds.add(option.id)
+
+      const { error: optionError } = await supabase
+        .from('modifier_options')
+        .update({ name: option.name.trim(), sort_order: index })
+        .eq('id', option.id)
+
+      if (optionError) {
+        return {
+          success: false,
+          error: `Seçenek güncellenemedi: ${optionError.message}`,
+        }
+      }
+
+      if (priceMap.get(option.id) !== option.price) {
+        priceChanges.push({
+          option_id: option.id,
+          price: option.price,
+          previous_price: priceMap.get(option.id) ?? null,
+        })
+      }
+    } else {
+      newOptions.push({ name: option.name, price: option.price, sort_order: index })
+    }
+  }
+
+  // Options removed from the group are deactivated so ledger references stay valid
+  const removedIds = [...existingIds].filter((id) => !keptIds.has(id))
+
+  if (removedIds.length > 0) {
+    const { error: removeError } = await supabase
+      .from('modifier_options')
+      .update({ is_active: false })
+      .in('id', removedIds)
+
+    if (removeError) {
+      return {
+        success: false,
+        error: `Seçenekler kaldırılamadı: ${removeError.message}`,
+      }
+    }
+  }
+
+  const ledgerError =
+    (await recordModifierPrices(organizationId, priceChanges, 'Ekleme fiyati guncellendi')) ||
+    (await insertOptions(organizationId, groupId, newOptions))
+
+  if (ledgerError) {
+    return {
+      success: false,
+      error: ledgerError,
+    }
+  }
+
+  return {
+    success: true,
+    data: group as ModifierGroup,
+  }
+}
+
+/**
+ * Deactivate a modifier group.
+ *
+ * Groups are never deleted so option price history keeps a valid reference.
+ * The group disappears from the menu with the next publish.
+ *
+ * @param groupId - The UUID of the group
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @returns Promise<ModifierOperationResult> - Result with deactivated group or error
+ */
+export async function deactivateModifierGroup(
+  groupId: string,
+  organizationId: string
+): Promise<ModifierOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('modifier_groups')
+    .update({ is_active: false })
+    .eq('id', groupId)
+    .eq('organization_id', organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error: `Grup devre dışı bırakılamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as ModifierGroup,
+  }
+}
+
+/**
+ * Get the IDs of the modifier groups offered with a product, in display order
+ *
+ * @param productId - The UUID of the product
+ * @returns Promise<string[]> - Group IDs
+ */
+export async function getProductModifierGroupIds(productId: string): Promise<string[]> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data } = await supabase
+    .from('product_modifier_groups')
+    .select('group_id')
+    .eq('product_id', productId)
+    .order('sort_order', { ascending: true })
+
+  return (data || []).map((row) => row.group_id)
+}
+
+/**
+ * Replace the modifier groups offered with a product
+ *
+ * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization
+ * @param groupIds - Group IDs in display order (empty = none)
+ * @returns Promise<{ success: boolean; error?: string }>
+ */
+export async function setProductModifierGroups(
+  productId: string,
+  organizationId: string,
+  groupIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createServerSupabaseClient()
+
+  const { error: deleteError } = await supabase
+    .from('product_modifier_groups')
+    .delete()
+    .eq('product_id', productId)
+    .eq('organization_id', organizationId)
+
+  if (deleteError) {
+    return {
+      success: false,
+      error: `Ürün eklemeleri güncellenemedi: ${deleteError.message}`,
+    }
+  }
+
+  if (groupIds.length === 0) {
+    return { success: true }
+  }
+
+  const { error } = await supabase.from('product_modifier_groups').insert(
+    [...new Set(groupIds)].map((groupId, index) => ({
+      organization_id: organizationId,
+      product_id: productId,
+      group_id: groupId,
+      sort_order: index,
+    }))
+  )
+
+  if (error) {
+    return {
+      success: false,
+      error: `Ürün eklemeleri güncellenemedi: ${error.message}`,
+    }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,273 @@
+/**
+ * Nutrition Service - Typed Nutrition Facts
+ *
+ * This module implements the module_nutrition feature: a typed schema for
+ * the `products.nutrition` JSON column, validation for the product editor,
+ * computed totals for the public nutrition panel and guest filters such as
+ * "500 kcal altı".
+ *
+ * Values can be entered per portion, per 100 g or both. When the portion
+ * weight is known, the missing side is computed from the other one; a
+ * missing energy value is computed from protein, carbohydrate and fat
+ * (4 / 4 / 9 kcal per gram).
+ *
+ * This module has no database access and is safe to import from client
+ * components.
+ *
+ * @example
+ * const facts = parseNutrition(product.nutrition)
+ * const error = facts ? validateNutrition(facts) : null
+ * const totals = facts ? computeNutritionTotals(facts) : null
+ * const light = matchesNutritionFilter(totals, 'kcal-500')
+ */
+
+/**
+ * Nutrient keys stored in the nutrition JSON
+ */
+export type NutrientKey = 'kcal' | 'protein' | 'carbs' | 'fat' | 'sugar' | 'salt'
+
+/**
+ * Nutrient values for one basis (per portion or per 100 g)
+ */
+export type NutritionValues = Partial<Record<NutrientKey, number>>
+
+/**
+ * Typed content of `products.nutrition`
+ */
+export interface NutritionFacts {
+  /** Portion weight in grams, null when unknown */
+  portion_grams: number | null
+  /** Values for one portion */
+  per_portion: NutritionValues
+  /** Values for 100 g */
+  per_100g: NutritionValues
+}
+
+/**
+ * Nutrients in display order with their Turkish labels and units
+ */
+export const NUTRIENTS: Array<{ key: NutrientKey; label: string; unit: 'kcal' | 'g' }> = [
+  { key: 'kcal', label: 'Enerji', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Karbonhidrat', unit: 'g' },
+  { key: 'sugar', label: 'Şeker', unit: 'g' },
+  { key: 'fat', label: 'Yağ', unit: 'g' },
+  { key: 'salt', label: 'Tuz', unit: 'g' },
+]
+
+/**
+ * Guest-facing nutrition filters on the public menu
+ */
+export const NUTRITION_FILTERS: Array<{ key: string; label: string }> = [
+  { key: 'kcal-300', label: '300 kcal altı' },
+  { key: 'kcal-500', label: '500 kcal altı' },
+  { key: 'high-protein', label: 'Yüksek protein' },
+  { key: 'low-sugar', label: 'Düşük şeker' },
+]
+
+/**
+ * Energy per gram of macronutrient (kcal)
+ */
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 }
+
+/**
+ * Read the numeric nutrient values of one basis
+ */
+function parseValues(value: unknown): NutritionValues {
+  const values: NutritionValues = {}
+
+  if (!value || typeof value !== 'object') {
+    return values
+  }
+
+  for (const { key } of NUTRIENTS) {
+    const raw = (value as Record<string, unknown>)[key]
+    if (typeof raw === 'number' && Number.isFinite(raw)) {
+      values[key] = raw
+    }
+  }
+
+  return values
+}
+
+/**
+ * Round a nutrient value (energy to whole kcal, grams to one decimal)
+ */
+function roundValue(key: NutrientKey, value: number): number {
+  return key === 'kcal' ? Math.round(value) : Math.round(value * 10) / 10
+}
+
+/**
+ * Parse the untyped `products.nutrition` column.
+ *
+ * Unknown keys and non-numeric values are ignored.
+ *
+ * @param value - Raw JSON from the database or a snapshot
+ * @returns NutritionFacts | null - Typed facts or null when nothing is set
+ */
+export function parseNutrition(value: unknown): NutritionFacts | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null
+  }
+
+  const raw = value as Record<string, unknown>
+  const portion = raw.portion_grams
+  const facts: NutritionFacts = {
+    portion_grams: typeof portion === 'number' && Number.isFinite(portion) ? portion : null,
+    per_portion: parseValues(raw.per_portion),
+    per_100g: parseValues(raw.per_100g),
+  }
+
+  const isEmpty =
+    Object.keys(facts.per_portion).length === 0 && Object.keys(facts.per_100g).length === 0
+
+  return isEmpty ? null : facts
+}
+
+/**
+ * Validate nutrition facts entered in the product editor
+ *
+ * @param facts - Nutrition facts to validate
+ * @returns string | null - Turkish error message or null if valid
+ */
+export function validateNutrition(facts: NutritionFacts): string | null {
+  const bases = [facts.per_portion, facts.per_100g]
+
+  if (facts.portion_grams !== null && !(facts.portion_grams > 0)) {
+    return 'Porsiyon ağırlığı sıfırdan büyük olmalıdır'
+  }
+
+  if (bases.some((values) => Object.values(values).some((v) => v < 0))) {
+    return 'Besin değerleri negatif olamaz'
+  }
+
+  if (
+    bases.some(
+      (values) =>
+        values.sugar !== undefined && values.carbs !== undefined && values.sugar > values.carbs
+    )
+  ) {
+    return 'Şeker miktarı karbonhidrattan fazla olamaz'
+  }
+
+  const gramsPer100 =
+    (facts.per_100g.protein ?? 0) +
+    (facts.per_100g.carbs ?? 0) +
+    (facts.per_100g.fat ?? 0) +
+    (facts.per_100g.salt ?? 0)
+
+  if (gramsPer100 > 100) {
+    return '100 g için besin değerlerinin toplamı 100 g değerini geçemez'
+  }
+
+  if ((facts.per_100g.kcal ?? 0) > 900) {
+    return '100 g için enerji 900 kcal değerini geçemez'
+  }
+
+  if (facts.portion_grams !== null) {
+    const gramsPerPortion =
+      (facts.per_portion.protein ?? 0) +
+      (facts.per_portion.carbs ?? 0) +
+      (facts.per_portion.fat ?? 0) +
+      (facts.per_portion.salt ?? 0)
+
+    if (gramsPerPortion > facts.portion_grams) {
+      return 'Porsiyon besin değerlerinin toplamı porsiyon ağırlığını geçemez'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Complete nutrition facts with computed values.
+ *
+ * - Missing energy is computed from protein, carbohydrate and fat
+ * - With a known portion weight, values missing on one basis are computed
+ *   from the other basis
+ *
+ * @param facts - Nutrition facts as entered
+ * @returns NutritionFacts - Facts with computed totals (entered values win)
+ *
+ * @example
+ * ```typescript
+ * computeNutritionTotals({
+ *   portion_grams: 250,
+ *   per_portion: {},
+ *   per_100g: { protein: 10, carbs: 20, fat: 5 },
+ * }).per_portion // { kcal: 413, protein: 25, carbs: 50, fat: 12.5 }
+ * ```
+ */
+export function computeNutritionTotals(facts: NutritionFacts): NutritionFacts {
+  const withEnergy = (values: NutritionValues): NutritionValues => {
+    if (
+      values.kcal !== undefined ||
+      (values.protein === undefined && values.carbs === undefined && values.fat === undefined)
+    ) {
+      return { ...values }
+    }
+
+    return {
+      ...values,
+      kcal: roundValue(
+        'kcal',
+        (values.protein ?? 0) * KCAL_PER_GRAM.protein +
+          (values.carbs ?? 0) * KCAL_PER_GRAM.carbs +
+          (values.fat ?? 0) * KCAL_PER_GRAM.fat
+      ),
+    }
+  }
+
+  const perPortion = { ...facts.per_portion }
+  const per100g = { ...facts.per_100g }
+
+  if (facts.portion_grams !== null && facts.portion_grams > 0) {
+    const factor = facts.portion_grams / 100
+
+    for (const { key } of NUTRIENTS) {
+      if (perPortion[key] === undefined && per100g[key] !== undefined) {
+        perPortion[key] = roundValue(key, per100g[key]! * factor)
+      } else if (per100g[key] === undefined && perPortion[key] !== undefined) {
+        per100g[key] = roundValue(key, perPortion[key]! / factor)
+      }
+    }
+  }
+
+  return {
+    portion_grams: facts.portion_grams,
+    per_portion: withEnergy(perPortion),
+    per_100g: withEnergy(per100g),
+  }
+}
+
+/**
+ * Check whether a product matches a guest nutrition filter.
+ *
+ * Products without the needed values never match, so a filter only shows
+ * products the merchant has declared values for.
+ *
+ * @param facts - Computed nutrition facts from the menu snapshot
+ * @param filterKey - One of NUTRITION_FILTERS keys
+ * @returns boolean - True if the product matches
+ */
+export function matchesNutritionFilter(
+  facts: NutritionFacts | null | undefined,
+  filterKey: string
+): boolean {
+  if (!facts) {
+    return false
+  }
+
+  switch (filterKey) {
+    case 'kcal-300':
+      return facts.per_portion.kcal !== undefined && facts.per_portion.kcal < 300
+    case 'kcal-500':
+      return facts.per_portion.kcal !== undefined && facts.per_portion.kcal < 500
+    case 'high-protein':
+      return facts.per_portion.protein !== undefined && facts.per_portion.protein >= 20
+    case 'low-sugar':
+      return facts.per_100g.sugar !== undefined && facts.per_100g.sugar <= 5
+    default:
+      return true
+  }
+}
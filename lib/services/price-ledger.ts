@@ -8,25 +8,68 @@
  * CRITICAL: Prices are NEVER updated or deleted!
  * - UPDATE and DELETE operations are blocked by database trigger
  * - Each price change creates a new ledger entry
+ * - Entries are only written server-side through `addPriceEntry` (RLS rejects
+ *   inserts from user sessions); dashboard price changes go through
+ *   `changeProductPrice`, which also writes a `price_change` audit log
+ * - Bulk repricing (`bulkChangeProductPrices`) inserts all entries in one
+ *   statement, so either every price changes or none does
+ * - Menu rollbacks restore the republished prices with new entries
+ *   (`getRestoredPriceChanges`), never by removing later ones; these entries
+ *   do not count against the revision quota
+ * - Scheduled changes are entries with a future `effective_from`; they do not
+ *   reach the current price views until then and are withdrawn with a
+ *   `price_ledger_cancellations` row, never by deleting the entry
  * - Use `current_prices` view to get latest price per product
+ * - Variant prices are ledger entries with a `variant_id`
+ * - Changing an existing price counts against the plan's
+ *   `limit_price_revisions` quota for the current period; the
+ *   `price_ledger_revision_limit` insert trigger enforces it atomically
+ * - Every entry is linked into a per-organization SHA-256 hash chain by an
+ *   insert trigger (`organization_id`, `chain_position`, `previous_hash`,
+ *   `entry_hash`); `verifyPriceLedgerChain` detects edits made behind the
+ *   trigger's back, e.g. by a database superuser
  *
  * Database Tables:
  * - `price_ledger`: Immutable append-only price history
- * - `current_prices`: View showing latest price per product
+ * - `price_ledger_cancellations`: Cancelled scheduled entries (INSERT only)
+ * - `current_prices`: View showing latest base price in effect per product
+ * - `current_variant_prices`: View showing latest price in effect per product variant
+ * - `upcoming_price_changes`: View showing pending scheduled entries
+ * - `audit_logs`: `price_change` rows written by `changeProductPrice`,
+ *   `bulkChangeProductPrices` and menu rollbacks
  *
  * @example
  * // Add a new price entry (creates immutable record)
- * const entry = await addPriceEntry(productId, 99.90, 'Initial price')
+ * const entry = await addPriceEntry(productId, orgId, 99.90, 'Initial price')
  *
  * // Get current price for a product
  * const price = await getCurrentPrice(productId)
  *
  * // Get price history for audit/compliance
  * const history = await getPriceHistory(productId)
+ *
+ * // Check that the ledger has not been tampered with
+ * const chain = await verifyPriceLedgerChain(orgId)
  */
 
-import { createServerSupabaseClient } from '@/lib/supabase/server'
-import type { PriceLedgerEntry, CurrentPrice } from '@/types/database'
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import {
+  applyPriceAdjustment,
+  validatePriceAdjustment,
+  MAX_BULK_PRODUCTS,
+  type PriceAdjustment,
+} from '@/lib/services/bulk-pricing'
+import { checkPriceRevisionLimit, PRICE_REVISION_LIMIT_MESSAGE } from '@/lib/guards/limits'
+import { sha256Hex } from '@/lib/services/snapshot'
+import type { PriceLedgerEntry, CurrentPrice, CurrentVariantPrice } from '@/types/database'
+
+/**
+ * SQLSTATE of the price_ledger_revision_limit trigger (quota used up)
+ */
+const PRICE_REVISION_LIMIT_ERROR = 'EM429'
 
 /**
  * Result type for price operations
@@ -40,6 +83,18 @@ export interface PriceOperationResult {
   error?: string
 }
 
+/**
+ * Result type for bulk price changes
+ */
+export interface BulkPriceChangeResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created price entries (one per changed product) */
+  data?: PriceLedgerEntry[]
+  /** Error message if operation failed */
+  error?: string
+}
+
 /**
  * Result type for price history queries
  */
@@ -68,6 +123,8 @@ export interface PriceHistoryOptions {
   startDate?: Date
   /** Filter by end date */
   endDate?: Date
+  /** Filter by variant (undefined = all entries, null = base price only) */
+  variantId?: string | null
 }
 
 /**
@@ -77,12 +134,18 @@ export interface PriceHistoryOptions {
  * creates a new immutable record in the price_ledger table. The database
  * trigger prevents any UPDATE or DELETE operations.
  *
- * Note: Only INSERT is allowed on price_ledger table.
+ * Note: Only INSERT is allowed on price_ledger table. The insert uses the
+ * service role because RLS rejects ledger inserts from user sessions, so the
+ * product (and variant) is first looked up with the user's session: it must
+ * belong to `organizationId` and the user must be a member of it.
  *
  * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization (ownership check)
  * @param price - The new price value (must be non-negative)
- * @param changeReason - Reason for price change (for audit trail)
+ * @param changeReason - Reason for price change (required, for audit trail)
  * @param currency - Currency code (default: 'TRY' for Turkish Lira)
+ * @param variantId - Product variant UUID (omit for the base product price)
+ * @param effectiveFrom - Future time the price takes effect (omit for immediately)
  * @returns Promise<PriceOperationResult> - Result with created entry or error
  *
  * @example
@@ -90,6 +153,7 @@ export interface PriceHistoryOptions {
  * // Record initial product price
  * const result = await addPriceEntry(
  *   productId,
+ *   organizationId,
  *   149.90,
  *   'Initial product listing'
  * )
@@ -97,16 +161,30 @@ export interface PriceHistoryOptions {
  * // Record price update with reason
  * const result = await addPriceEntry(
  *   productId,
+ *   organizationId,
  *   199.90,
  *   'Price adjustment due to supplier cost increase'
  * )
+ *
+ * // Record the price of a variant (e.g. 50cl)
+ * const result = await addPriceEntry(
+ *   productId,
+ *   organizationId,
+ *   89.90,
+ *   'Variant price',
+ *   'TRY',
+ *   variantId
+ * )
  * ```
  */
 export async function addPriceEntry(
   productId: string,
+  organizationId: string,
   price: number,
   changeReason: string,
-  currency: string = 'TRY'
+  currency: string = 'TRY',
+  variantId: string | null = null,
+  effectiveFrom: Date | null = null
 ): Promise<PriceOperationResult> {
   // Validate price
   if (price < 0) {
@@ -123,7 +201,29 @@ export async function addPriceEntry(
     }
   }
 
+  if (!changeReason || !changeReason.trim()) {
+    return {
+      success: false,
+      error: 'Fiyat değişikliği için gerekçe gereklidir',
+    }
+  }
+
+  if (effectiveFrom && !(effectiveFrom.getTime() > Date.now())) {
+    return {
+      success: false,
+      error: 'Planlanan fiyat için ileri bir tarih seçilmelidir',
+    }
+  }
+
   const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Fiyat kaydı için sunucu yapılandırması eksik',
+    }
+  }
 
   // Get current user for audit trail
   const {
@@ -138,15 +238,49 @@ export async function addPriceEntry(
     }
   }
 
+  // The service role skips RLS: check ownership with the user's session
+  const { data: product } = await supabase
+    .from('products')
+    .select('id')
+    .eq('id', productId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (!product) {
+    return {
+      success: false,
+      error: 'Ürün bulunamadı',
+    }
+  }
+
+  if (variantId) {
+    const { data: variant } = await supabase
+      .from('product_variants')
+      .select('id')
+      .eq('id', variantId)
+      .eq('product_id', productId)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    if (!variant) {
+      return {
+        success: false,
+        error: 'Varyant bulunamadı',
+      }
+    }
+  }
+
   // INSERT new price entry (only INSERT allowed - no UPDATE/DELETE)
-  const { data, error } = await supabase
+  const { data, error } = await admin
     .from('price_ledger')
     .insert({
       product_id: productId,
       price: price,
       currency: currency,
-      change_reason: changeReason,
+      change_reason: changeReason.trim(),
       changed_by: user?.id ?? null,
+      ...(variantId ? { variant_id: variantId } : {}),
+      ...(effectiveFrom ? { effective_from: effectiveFrom.toISOString() } : {}),
     })
     .select()
     .single()
@@ -154,7 +288,10 @@ export async function addPriceEntry(
   if (error) {
     return {
       success: false,
-      error: error.message || 'Fiyat kaydedilemedi',
+      error:
+        error.code === PRICE_REVISION_LIMIT_ERROR
+          ? PRICE_REVISION_LIMIT_MESSAGE
+          : error.message || 'Fiyat kaydedilemedi',
     }
   }
 
@@ -164,6 +301,602 @@ export async function addPriceEntry(
   }
 }
 
+/**
+ * Request context recorded in the audit log
+ */
+export interface AuditRequestContext {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * Options for a dashboard price change
+ */
+export interface PriceChangeOptions extends AuditRequestContext {
+  /** Future time the new price takes effect (omit for immediately) */
+  effectiveFrom?: Date | null
+}
+
+/**
+ * Change the base price of a product from the dashboard.
+ *
+ * This is the trusted write path for dashboard price changes: it checks that
+ * the product belongs to the organization, records the new price through
+ * `addPriceEntry` and writes a matching `audit_logs` row with
+ * `action = 'price_change'` (old and new price, reason and ledger entry ID).
+ *
+ * With `effectiveFrom` the entry is a scheduled change: it stays out of
+ * `current_prices` until that time and is published by the scheduled
+ * publish job once it takes effect.
+ *
+ * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization (ownership check)
+ * @param price - The new price value (must be non-negative)
+ * @param changeReason - Reason for the price change (required)
+ * @param options - Effective time and request context for the audit log
+ * @returns Promise<PriceOperationResult> - Result with created entry or error
+ *
+ * @example
+ * ```typescript
+ * const result = await changeProductPrice(
+ *   productId,
+ *   organizationId,
+ *   179.9,
+ *   'Tedarikçi fiyat artışı',
+ *   { effectiveFrom: new Date('2026-11-01T00:00:00+03:00') }
+ * )
+ * ```
+ */
+export async function changeProductPrice(
+  productId: string,
+  organizationId: string,
+  price: number,
+  changeReason: string,
+  options: PriceChangeOptions = {}
+): Promise<PriceOperationResult> {
+  if (!Number.isFinite(price) || price < 0) {
+    return {
+      success: false,
+      error: 'Fiyat negatif olamaz',
+    }
+  }
+
+  if (!changeReason || !changeReason.trim()) {
+    return {
+      success: false,
+      error: 'Fiyat değişikliği için gerekçe gereklidir',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  // Checked before writing so a price is never recorded without its audit log
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Fiyat kaydı için sunucu yapılandırması eksik',
+    }
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('id')
+    .eq('id', productId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (!product) {
+    return {
+      success: false,
+      error: 'Ürün bulunamadı',
+    }
+  }
+
+  const currentResult = await getCurrentPrice(productId)
+  const current = currentResult.success ? (currentResult.data as CurrentPrice | null) : null
+
+  const effectiveFrom = options.effectiveFrom ?? null
+
+  if (!effectiveFrom && current && current.price === price) {
+    return {
+      success: false,
+      error: 'Yeni fiyat mevcut fiyatla aynı',
+    }
+  }
+
+  // The first price of a new product is not a revision
+  if (current) {
+    const limit = await checkPriceRevisionLimit(organizationId)
+    if (!limit.canAdd) {
+      return {
+        success: false,
+        error: limit.message,
+      }
+    }
+  }
+
+  const entryResult = await addPriceEntry(
+    productId,
+    organizationId,
+    price,
+    changeReason,
+    current?.currency ?? 'TRY',
+    null,
+    effectiveFrom
+  )
+
+  if (!entryResult.success) {
+    return entryResult
+  }
+
+  const entry = entryResult.data as PriceLedgerEntry
+
+  const { error: auditError } = await admin.from('audit_logs').insert({
+    organization_id: organizationId,
+    user_id: entry.changed_by,
+    action: 'price_change',
+    entity_type: 'product',
+    entity_id: productId,
+    old_data: current ? { price: current.price, currency: current.currency } : null,
+    new_data: {
+      price: entry.price,
+      currency: entry.currency,
+      ...(entry.effective_from ? { effective_from: entry.effective_from } : {}),
+    },
+    ip_address: options.ipAddress ?? null,
+    user_agent: options.userAgent ?? null,
+    metadata: {
+      change_reason: entry.change_reason,
+      price_ledger_id: entry.id,
+      ...(entry.effective_from ? { scheduled: true } : {}),
+    },
+  })
+
+  if (auditError) {
+    return {
+      success: false,
+      data: entry,
+      error: `Fiyat kaydedildi ancak denetim kaydı oluşturulamadı: ${auditError.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: entry,
+  }
+}
+
+/**
+ * Get the pending scheduled price changes of a product.
+ *
+ * Uses the `upcoming_price_changes` view (future, not cancelled entries),
+ * ordered by the time they take effect.
+ *
+ * @param productId - The UUID of the product
+ * @returns Promise<PriceHistoryResult> - Pending entries (base and variant prices)
+ *
+ * @example
+ * ```typescript
+ * const upcoming = await getUpcomingPriceChanges(productId)
+ * const next = upcoming.data[0] // { price: 220, effective_from: '2026-11-01T...' }
+ * ```
+ */
+export async function getUpcomingPriceChanges(productId: string): Promise<PriceHistoryResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('upcoming_price_changes')
+    .select('*')
+    .eq('product_id', productId)
+    .order('effective_from', { ascending: true })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: error.message || 'Planlanan fiyatlar alınamadı',
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as PriceLedgerEntry[],
+  }
+}
+
+/**
+ * Cancel a scheduled price change before it takes effect.
+ *
+ * The ledger entry is never deleted: a `price_ledger_cancellations` row
+ * hides it from the price views and a `price_change` audit log records the
+ * withdrawal.
+ *
+ * @param entryId - The UUID of the scheduled price_ledger entry
+ * @param organizationId - The UUID of the organization (ownership check)
+ * @param cancelReason - Optional reason for the cancellation
+ * @param context - Request IP address and user agent for the audit log
+ * @returns Promise<PriceOperationResult> - Result with the cancelled entry or error
+ *
+ * @example
+ * ```typescript
+ * const result = await cancelScheduledPriceChange(entryId, organizationId, 'Kampanya ertelendi')
+ * ```
+ */
+export async function cancelScheduledPriceChange(
+  entryId: string,
+  organizationId: string,
+  cancelReason: string | null = null,
+  context: AuditRequestContext = {}
+): Promise<PriceOperationResult> {
+  const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Fiyat kaydı için sunucu yapılandırması eksik',
+    }
+  }
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      success: false,
+      error: 'Kullanıcı kimliği doğrulanamadı',
+    }
+  }
+
+  const { data: entry } = await supabase
+    .from('upcoming_price_changes')
+    .select('*')
+    .eq('id', entryId)
+    .maybeSingle()
+
+  const { data: product } = entry
+    ? await supabase
+        .from('products')
+        .select('id')
+        .eq('id', entry.product_id)
+        .eq('organization_id', organizationId)
+        .maybeSingle()
+    : { data: null }
+
+  if (!entry || !product) {
+    return {
+      success: false,
+      error: 'Planlanan fiyat bulunamadı veya yürürlüğe girmiş',
+    }
+  }
+
+  const { error } = await admin.from('price_ledger_cancellations').insert({
+    price_ledger_id: entryId,
+    cancel_reason: cancelReason?.trim() || null,
+    cancelled_by: user.id,
+  })
+
+  if (error) {
+    return {
+      success: false,
+      error: error.message || 'Planlanan fiyat iptal edilemedi',
+    }
+  }
+
+  const cancelled = entry as PriceLedgerEntry
+
+  const { error: auditError } = await admin.from('audit_logs').insert({
+    organization_id: organizationId,
+    user_id: user.id,
+    action: 'price_change',
+    entity_type: 'product',
+    entity_id: cancelled.product_id,
+    old_data: {
+      price: cancelled.price,
+      currency: cancelled.currency,
+      effective_from: cancelled.effective_from,
+    },
+    new_data: null,
+    ip_address: context.ipAddress ?? null,
+    user_agent: context.userAgent ?? null,
+    metadata: {
+      price_ledger_id: entryId,
+      scheduled_cancelled: true,
+      cancel_reason: cancelReason?.trim() || null,
+    },
+  })
+
+  if (auditError) {
+    return {
+      success: false,
+      data: cancelled,
+      error: `Planlanan fiyat iptal edildi ancak denetim kaydı oluşturulamadı: ${auditError.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: cancelled,
+  }
+}
+
+/**
+ * Reprice many products of an organization at once.
+ *
+ * New prices are computed from the current ledger prices with the same rules
+ * as the dashboard preview. Products without a price or whose price does not
+ * change after rounding are skipped. All ledger entries are inserted in a
+ * single statement (all or nothing) with one shared change reason, followed
+ * by one `price_change` audit log per product.
+ *
+ * Publishing a new menu snapshot is the caller's job.
+ *
+ * @param organizationId - The UUID of the organization (ownership check)
+ * @param productIds - Products to reprice
+ * @param adjustment - Percentage or fixed change with rounding rule
+ * @param changeReason - Reason shared by all entries (required)
+ * @param context - Request IP address and user agent for the audit logs
+ * @returns Promise<BulkPriceChangeResult> - Created entries or error
+ *
+ * @example
+ * ```typescript
+ * const result = await bulkChangeProductPrices(
+ *   organizationId,
+ *   productIds,
+ *   { type: 'percentage', value: 15, roundTo: 5, roundMode: 'nearest' },
+ *   'Ekim enflasyon güncellemesi'
+ * )
+ * ```
+ */
+export async function bulkChangeProductPrices(
+  organizationId: string,
+  productIds: string[],
+  adjustment: PriceAdjustment,
+  changeReason: string,
+  context: AuditRequestContext = {}
+): Promise<BulkPriceChangeResult> {
+  const adjustmentError = validatePriceAdjustment(adjustment)
+  if (adjustmentError) {
+    return { success: false, error: adjustmentError }
+  }
+
+  if (!changeReason || !changeReason.trim()) {
+    return {
+      success: false,
+      error: 'Fiyat değişikliği için gerekçe gereklidir',
+    }
+  }
+
+  const uniqueIds = Array.from(new Set(productIds))
+
+  if (uniqueIds.length === 0) {
+    return { success: false, error: 'En az bir ürün seçmelisiniz' }
+  }
+
+  if (uniqueIds.length > MAX_BULK_PRODUCTS) {
+    return {
+      success: false,
+      error: `Tek seferde en fazla ${MAX_BULK_PRODUCTS} ürünün fiyatı değiştirilebilir`,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Fiyat kaydı için sunucu yapılandırması eksik',
+    }
+  }
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      success: false,
+      error: 'Kullanıcı kimliği doğrulanamadı',
+    }
+  }
+
+  const { data: products } = await supabase
+    .from('products')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .in('id', uniqueIds)
+
+  if (!products || products.length !== uniqueIds.length) {
+    return {
+      success: false,
+      error: 'Seçilen ürünlerden bazıları bulunamadı',
+    }
+  }
+
+  const currentPrices = await getCurrentPricesBatch(uniqueIds)
+  const changes = uniqueIds
+    .map((productId) => currentPrices.get(productId))
+    .filter((current): current is CurrentPrice => current !== undefined)
+    .map((current) => ({
+      current,
+      price: applyPriceAdjustment(current.price, adjustment),
+    }))
+    .filter((change) => change.price !== change.current.price)
+
+  if (changes.length === 0) {
+    return {
+      success: false,
+      error: 'Seçilen ürünlerde değişecek fiyat bulunamadı',
+    }
+  }
+
+  const limit = await checkPriceRevisionLimit(organizationId, changes.length)
+  if (!limit.canAdd) {
+    return {
+      success: false,
+      error: limit.message,
+    }
+  }
+
+  // One multi-row INSERT: the ledger gets every new price or none of them
+  const { data: entries, error } = await admin
+    .from('price_ledger')
+    .insert(
+      changes.map((change) => ({
+        product_id: change.current.product_id,
+        price: change.price,
+        currency: change.current.currency,
+        change_reason: changeReason.trim(),
+        changed_by: user.id,
+      }))
+    )
+    .select()
+
+  if (error || !entries) {
+    return {
+      success: false,
+      error:
+        error?.code === PRICE_REVISION_LIMIT_ERROR
+          ? PRICE_REVISION_LIMIT_MESSAGE
+          : `Fiyatlar kaydedilemedi: ${error?.message ?? 'Bilinmeyen hata'}`,
+    }
+  }
+
+  const createdEntries = entries as PriceLedgerEntry[]
+  const oldPrices = new Map(changes.map((change) => [change.current.product_id, change.current]))
+
+  const { error: auditError } = await admin.from('audit_logs').insert(
+    createdEntries.map((entry) => ({
+      organization_id: organizationId,
+      user_id: user.id,
+      action: 'price_change',
+      entity_type: 'product',
+      entity_id: entry.product_id,
+      old_data: {
+        price: oldPrices.get(entry.product_id)!.price,
+        currency: oldPrices.get(entry.product_id)!.currency,
+      },
+      new_data: { price: entry.price, currency: entry.currency },
+      ip_address: context.ipAddress ?? null,
+      user_agent: context.userAgent ?? null,
+      metadata: {
+        change_reason: entry.change_reason,
+        price_ledger_id: entry.id,
+        bulk_adjustment: adjustment,
+      },
+    }))
+  )
+
+  if (auditError) {
+    return {
+      success: false,
+      data: createdEntries,
+      error: `Fiyatlar kaydedildi ancak denetim kaydı oluşturulamadı: ${auditError.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: createdEntries,
+  }
+}
+
+/**
+ * A price to restore: the base price of a product or, with `variantId`, the
+ * price of one of its variants
+ */
+export interface RestoredPrice {
+  productId: string
+  variantId?: string | null
+  price: number
+  currency: string
+}
+
+/**
+ * A restored price and the current price it replaces
+ */
+export interface RestoredPriceChange {
+  restored: RestoredPrice
+  current?: { price: number; currency: string }
+}
+
+/**
+ * Find the prices that have to be recorded to bring back earlier ones.
+ *
+ * Used when an older menu snapshot is republished, so the menu keeps matching
+ * `current_prices` and the ledger: rollbackMenuSnapshot records the returned
+ * changes together with the new snapshot in one transaction
+ * (`rollback_menu_snapshot`). Only prices that differ from the current ones
+ * are returned; products and variants that no longer exist are skipped.
+ *
+ * @param organizationId - The UUID of the organization (ownership check)
+ * @param prices - Product and variant prices to restore
+ * @returns Promise<RestoredPriceChange[]> - Prices to record with the current
+ *   ones they replace (empty when all prices are already current)
+ *
+ * @example
+ * ```typescript
+ * const changes = await getRestoredPriceChanges(organizationId, [
+ *   { productId, price: 85, currency: 'TRY' },
+ * ])
+ * ```
+ */
+export async function getRestoredPriceChanges(
+  organizationId: string,
+  prices: RestoredPrice[]
+): Promise<RestoredPriceChange[]> {
+  const productIds = Array.from(new Set(prices.map((p) => p.productId)))
+
+  if (productIds.length === 0) {
+    return []
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const [{ data: products }, { data: variants }] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .in('id', productIds),
+    supabase
+      .from('product_variants')
+      .select('id, product_id')
+      .eq('organization_id', organizationId)
+      .in('product_id', productIds),
+  ])
+
+  const existingProducts = new Set((products || []).map((p) => p.id))
+  const existingVariants = new Set((variants || []).map((v) => `${v.product_id}:${v.id}`))
+
+  const [currentPrices, currentVariantPrices] = await Promise.all([
+    getCurrentPricesBatch(productIds),
+    getCurrentVariantPrices(productIds),
+  ])
+
+  return prices
+    .filter((restored) =>
+      restored.variantId
+        ? existingVariants.has(`${restored.productId}:${restored.variantId}`)
+        : existingProducts.has(restored.productId)
+    )
+    .map((restored) => ({
+      restored,
+      current: restored.variantId
+        ? currentVariantPrices.get(restored.variantId)
+        : currentPrices.get(restored.productId),
+    }))
+    .filter(
+      ({ restored, current }) =>
+        !current || current.price !== restored.price || current.currency !== restored.currency
+    )
+}
+
 /**
  * Get the current (latest) price for a product.
  *
@@ -256,6 +989,47 @@ export async function getCurrentPricesBatch(
   return result
 }
 
+/**
+ * Get current prices of all variants of the given products.
+ *
+ * Uses the `current_variant_prices` view (latest entry per variant).
+ *
+ * @param productIds - Array of product UUIDs
+ * @returns Promise<Map<string, CurrentVariantPrice>> - Map of variant ID to current price
+ *
+ * @example
+ * ```typescript
+ * const variantPrices = await getCurrentVariantPrices([productId])
+ * const large = variantPrices.get(largeVariantId)?.price
+ * ```
+ */
+export async function getCurrentVariantPrices(
+  productIds: string[]
+): Promise<Map<string, CurrentVariantPrice>> {
+  const result = new Map<string, CurrentVariantPrice>()
+
+  if (!productIds || productIds.length === 0) {
+    return result
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('current_variant_prices')
+    .select('*')
+    .in('product_id', productIds)
+
+  if (error || !data) {
+    return result
+  }
+
+  for (const price of data) {
+    result.set(price.variant_id, price as CurrentVariantPrice)
+  }
+
+  return result
+}
+
 /**
  * Get complete price history for a product.
  *
@@ -283,6 +1057,9 @@ export async function getCurrentPricesBatch(
  *   startDate: new Date('2024-01-01'),
  *   endDate: new Date('2024-12-31')
  * })
+ *
+ * // Get history of a single variant
+ * const history = await getPriceHistory(productId, { variantId })
  * ```
  */
 export async function getPriceHistory(
@@ -297,7 +1074,7 @@ export async function getPriceHistory(
     }
   }
 
-  const { limit = 100, offset = 0, order = 'desc', startDate, endDate } = options
+  const { limit = 100, offset = 0, order = 'desc', startDate, endDate, variantId } = options
 
   const supabase = await createServerSupabaseClient()
 
@@ -316,6 +1093,13 @@ export async function getPriceHistory(
     query = query.lte('created_at', endDate.toISOString())
   }
 
+  // Apply variant filter if provided
+  if (variantId === null) {
+    query = query.is('variant_id', null)
+  } else if (variantId) {
+    query = query.eq('variant_id', variantId)
+  }
+
   const { data, error, count } = await query
 
   if (error) {
@@ -428,7 +1212,7 @@ export async function getOrganizationPriceHistory(
  * @example
  * ```typescript
  * if (!await hasPrice(productId)) {
- *   await addPriceEntry(productId, defaultPrice, 'Initial price')
+ *   await addPriceEntry(productId, orgId, defaultPrice, 'Initial price')
  * }
  * ```
  */
@@ -469,7 +1253,8 @@ export async function getPriceStatistics(productId: string): Promise<{
     return null
   }
 
-  const historyResult = await getPriceHistory(productId, { order: 'asc' })
+  // Statistics describe the base price; variants have their own history
+  const historyResult = await getPriceHistory(productId, { order: 'asc', variantId: null })
 
   if (!historyResult.success || historyResult.data.length === 0) {
     return null
@@ -497,7 +1282,8 @@ export async function getPriceStatistics(productId: string): Promise<{
  * Export price ledger data for compliance reporting.
  *
  * Formats price history data for regulatory compliance exports
- * (Turkish Trade Ministry requirements).
+ * (Turkish Trade Ministry requirements). Variant price entries are
+ * included with their variant ID and name.
  *
  * @param organizationId - The UUID of the organization
  * @param startDate - Start date for export range
@@ -522,6 +1308,8 @@ export async function exportPriceLedgerForCompliance(
   success: boolean
   data: Array<{
     product_id: string
+    variant_id: string | null
+    variant_name: string | null
     price: number
     currency: string
     change_reason: string | null
@@ -539,10 +1327,30 @@ export async function exportPriceLedgerForCompliance(
     limit: 10000, // High limit for compliance exports
   })
 
+  // Resolve variant names for variant price entries
+  const variantIds = [
+    ...new Set(result.data.map((entry) => entry.variant_id).filter((id): id is string => !!id)),
+  ]
+  const variantNames = new Map<string, string>()
+
+  if (variantIds.length > 0) {
+    const supabase = await createServerSupabaseClient()
+    const { data: variants } = await supabase
+      .from('product_variants')
+      .select('id, name')
+      .in('id', variantIds)
+
+    for (const variant of variants || []) {
+      variantNames.set(variant.id, variant.name)
+    }
+  }
+
   return {
     success: result.success,
     data: result.data.map((entry) => ({
       product_id: entry.product_id,
+      variant_id: entry.variant_id ?? null,
+      variant_name: entry.variant_id ? variantNames.get(entry.variant_id) ?? null : null,
       price: entry.price,
       currency: entry.currency,
       change_reason: entry.change_reason,
@@ -557,3 +1365,216 @@ export async function exportPriceLedgerForCompliance(
     },
   }
 }
+
+/**
+ * A broken link found while walking the price ledger hash chain
+ */
+export interface PriceLedgerChainBreak {
+  /** Chain position of the entry (null = entry outside the chain) */
+  position: number | null
+  /** The UUID of the entry where the chain breaks */
+  entryId: string
+  /** What is wrong with the entry */
+  reason: string
+}
+
+/**
+ * Outcome of a hash chain verification
+ */
+export interface PriceLedgerChainVerification {
+  /** Whether the whole chain is intact */
+  valid: boolean
+  /** Number of entries in the chain */
+  entryCount: number
+  /** entry_hash of the last entry (null for an empty chain) */
+  headHash: string | null
+  /** The first broken link (null if the chain is intact) */
+  brokenLink: PriceLedgerChainBreak | null
+}
+
+/**
+ * Result type for hash chain verification
+ */
+export interface PriceLedgerChainResult {
+  /** Whether the verification could run */
+  success: boolean
+  /** Verification outcome */
+  data?: PriceLedgerChainVerification
+  /** Error message if the verification could not run */
+  error?: string
+}
+
+/**
+ * Page size used when reading the chain
+ */
+const CHAIN_PAGE_SIZE = 1000
+
+/**
+ * Build the text hashed into `entry_hash`.
+ *
+ * Mirrors `price_ledger_hash_payload()` in migration 019: fields joined with
+ * '|', free text as "<length>:<text>", timestamps as UTC ISO strings with
+ * milliseconds and the price with two decimals.
+ *
+ * @param entry - A chained price ledger entry
+ * @returns string - Hash payload
+ *
+ * @example
+ * ```typescript
+ * const payload = buildPriceLedgerHashPayload(entry)
+ * // '<previous_hash>|2|<id>|<org_id>|<product_id>||149.90|3:TRY|5:Zamlı|<user_id>||2026-10-18T09:30:00.000Z'
+ * ```
+ */
+export function buildPriceLedgerHashPayload(entry: PriceLedgerEntry): string {
+  const text = (value: string) => `${Array.from(value).length}:${value}`
+  const timestamp = (value: string) => new Date(value).toISOString()
+
+  return [
+    entry.previous_hash ?? '',
+    String(entry.chain_position ?? ''),
+    entry.id,
+    entry.organization_id ?? '',
+    entry.product_id,
+    entry.variant_id ?? '',
+    Number(entry.price).toFixed(2),
+    text(entry.currency),
+    entry.change_reason === null ? '-' : text(entry.change_reason),
+    entry.changed_by ?? '',
+    entry.effective_from ? timestamp(entry.effective_from) : '',
+    timestamp(entry.created_at),
+  ].join('|')
+}
+
+/**
+ * Find the first broken link in a price ledger hash chain.
+ *
+ * Entries must be ordered by `chain_position`. Each entry must sit at the
+ * next position, point to the hash of the entry before it and hash to its
+ * own `entry_hash`, so edited, deleted or inserted entries are caught.
+ *
+ * @param entries - Chain entries ordered by chain_position
+ * @returns Promise<PriceLedgerChainBreak | null> - First broken link or null if intact
+ */
+export async function findPriceLedgerChainBreak(
+  entries: PriceLedgerEntry[]
+): Promise<PriceLedgerChainBreak | null> {
+  let previousHash: string | null = null
+
+  for (const [index, entry] of entries.entries()) {
+    const position = entry.chain_position ?? null
+    const brokenLink = (reason: string): PriceLedgerChainBreak => ({
+      position,
+      entryId: entry.id,
+      reason,
+    })
+
+    if (position !== index + 1) {
+      return brokenLink(`Zincirde eksik kayıt var: ${index + 1}. sıradaki kayıt bulunamadı`)
+    }
+
+    if ((entry.previous_hash ?? null) !== previousHash) {
+      return brokenLink('Önceki kaydın özeti uyuşmuyor')
+    }
+
+    if (entry.entry_hash !== (await sha256Hex(buildPriceLedgerHashPayload(entry)))) {
+      return brokenLink('Kayıt içeriği değiştirilmiş: özet uyuşmuyor')
+    }
+
+    previousHash = entry.entry_hash
+  }
+
+  return null
+}
+
+/**
+ * Verify the price ledger hash chain of an organization.
+ *
+ * Walks every entry from position 1 and reports the first broken link
+ * (see `findPriceLedgerChainBreak`). Entries of the organization's products
+ * that are missing from the chain are reported as well, since the insert
+ * trigger links every new entry.
+ *
+ * @param organizationId - The UUID of the organization
+ * @returns Promise<PriceLedgerChainResult> - Verification outcome or error
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyPriceLedgerChain(orgId)
+ * if (result.data && !result.data.valid) {
+ *   console.log(result.data.brokenLink) // { position: 42, entryId: '...', reason: '...' }
+ * }
+ * ```
+ */
+export async function verifyPriceLedgerChain(
+  organizationId: string
+): Promise<PriceLedgerChainResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const entries: PriceLedgerEntry[] = []
+
+  for (let offset = 0; ; offset += CHAIN_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('price_ledger')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('chain_position', { ascending: true })
+      .range(offset, offset + CHAIN_PAGE_SIZE - 1)
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message || 'Fiyat geçmişi alınamadı',
+      }
+    }
+
+    entries.push(...((data as PriceLedgerEntry[]) ?? []))
+
+    if (!data || data.length < CHAIN_PAGE_SIZE) {
+      break
+    }
+  }
+
+  let brokenLink = await findPriceLedgerChainBreak(entries)
+
+  if (!brokenLink) {
+    const { data: products } = await supabase
+      .from('products')
+      .select('id')
+      .eq('organization_id', organizationId)
+
+    const productIds = (products ?? []).map((product: { id: string }) => product.id)
+
+    if (productIds.length > 0) {
+      const { data: unchained } = await supabase
+        .from('price_ledger')
+        .select('id')
+        .in('product_id', productIds)
+        .is('entry_hash', null)
+        .range(0, 0)
+
+      if (unchained && unchained.length > 0) {
+        brokenLink = {
+          position: null,
+          entryId: unchained[0].id,
+          reason: 'Kayıt zincire bağlı değil',
+        }
+      }
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      valid: brokenLink === null,
+      entryCount: entries.length,
+      headHash: entries.length > 0 ? entries[entries.length - 1].entry_hash ?? null : null,
+      brokenLink,
+    },
+  }
+}
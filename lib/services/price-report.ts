@@ -0,0 +1,516 @@
+/**
+ * Price Report Service - Signed Price Ledger Compliance Report
+ *
+ * This module builds the printable price change report for inspections
+ * (Turkish Trade Ministry): every price_ledger entry of an organization in
+ * a date range with product, old price, new price, reason, user and time.
+ *
+ * The report content (`PriceReport`) is hashed with SHA-256 and the hash is
+ * printed on every page of the PDF. The same content can be downloaded as
+ * JSON, so anyone can check a printed report with
+ * `generateSHA256Hash(report) === hash`.
+ *
+ * Database Tables:
+ * - `organizations`: Organization name for the report header
+ * - `products` / `product_variants`: Product and variant names
+ * - `price_ledger`: Entries in the range and the entries before them (old prices)
+ * - `price_ledger_cancellations`: Cancelled scheduled entries (left out)
+ * - `audit_logs`: `export` rows written by `recordPriceReportExport`
+ *
+ * User e-mails are read with the service role client (auth admin API).
+ *
+ * @example
+ * const result = await getPriceReport(orgId, new Date('2026-10-01'), new Date('2026-10-31'))
+ * if (result.success) {
+ *   const pdf = renderPriceReportPDF(result.data.report, result.data.hash)
+ * }
+ */
+
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import { generateSHA256Hash } from '@/lib/services/snapshot'
+import { writeAuditLog } from '@/lib/services/audit'
+import {
+  buildTextPDF,
+  estimateTextWidth,
+  fitText,
+  A4_LANDSCAPE,
+  type PDFPageContent,
+  type PDFTextRun,
+} from '@/lib/pdf/writer'
+import type { PriceLedgerEntry } from '@/types/database'
+
+/**
+ * One price change in the report
+ */
+export interface PriceReportRow {
+  /** When the entry was recorded */
+  createdAt: string
+  /** When a scheduled entry takes effect (null = immediately) */
+  effectiveFrom: string | null
+  productId: string
+  productName: string
+  variantName: string | null
+  /** Previous price of the product/variant (null = first price) */
+  oldPrice: number | null
+  newPrice: number
+  currency: string
+  changeReason: string | null
+  /** User ID of the person who changed the price */
+  changedBy: string | null
+  /** E-mail of that user (null if it could not be resolved) */
+  changedByEmail: string | null
+}
+
+/**
+ * Report content; this exact object is hashed
+ */
+export interface PriceReport {
+  organizationId: string
+  organizationName: string
+  startDate: string
+  endDate: string
+  generatedAt: string
+  rows: PriceReportRow[]
+}
+
+/**
+ * Result type for report operations
+ */
+export interface PriceReportResult {
+  success: boolean
+  data?: {
+    report: PriceReport
+    /** SHA-256 of the report content */
+    hash: string
+  }
+  error?: string
+}
+
+/**
+ * Maximum number of price entries in one report
+ */
+export const MAX_REPORT_ROWS = 10000
+
+/**
+ * Report table columns (A4 landscape, 36pt margins)
+ */
+const COLUMNS = [
+  { title: 'Tarih', x: 36, width: 95 },
+  { title: 'Ürün', x: 131, width: 190 },
+  { title: 'Eski Fiyat', x: 321, width: 70 },
+  { title: 'Yeni Fiyat', x: 391, width: 70 },
+  { title: 'Gerekçe', x: 461, width: 200 },
+  { title: 'Kullanıcı', x: 661, width: 145 },
+]
+
+const MARGIN = 36
+const ROW_HEIGHT = 13
+const FONT_SIZE = 8
+const TABLE_TOP = 505
+const TABLE_BOTTOM = 60
+
+/**
+ * Format a timestamp in Turkish local time
+ */
+function formatReportDate(value: string, withTime: boolean = true): string {
+  return new Intl.DateTimeFormat('tr-TR', {
+    timeZone: 'Europe/Istanbul',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit' } : {}),
+  }).format(new Date(value))
+}
+
+/**
+ * Format a price with two decimals
+ */
+function formatReportPrice(price: number | null, currency: string): string {
+  if (price === null) {
+    return '-'
+  }
+
+  const amount = new Intl.NumberFormat('tr-TR', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(price)
+
+  return `${amount} ${currency}`
+}
+
+/**
+ * Ledger key of a product or variant price
+ */
+function priceKey(entry: Pick<PriceLedgerEntry, 'product_id' | 'variant_id'>): string {
+  return `${entry.product_id}:${entry.variant_id ?? ''}`
+}
+
+/**
+ * Collect the price change report of an organization.
+ *
+ * Lists every price_ledger entry recorded between `startDate` and `endDate`
+ * (oldest first) with the previous price of the same product/variant, which
+ * may have been recorded before the range. Cancelled scheduled entries are
+ * left out, both as rows and as old prices.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param startDate - Start of the range (inclusive)
+ * @param endDate - End of the range (inclusive)
+ * @returns Promise<PriceReportResult> - Report content and its SHA-256 hash
+ *
+ * @example
+ * ```typescript
+ * const result = await getPriceReport(orgId, start, end)
+ * console.log(result.data?.report.rows.length, result.data?.hash)
+ * ```
+ */
+export async function getPriceReport(
+  organizationId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PriceReportResult> {
+  if (startDate.getTime() > endDate.getTime()) {
+    return {
+      success: false,
+      error: 'Başlangıç tarihi bitiş tarihinden sonra olamaz',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id, name')
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  if (!organization) {
+    return {
+      success: false,
+      error: 'Organizasyon bulunamadı',
+    }
+  }
+
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, name')
+    .eq('organization_id', organizationId)
+
+  const productNames = new Map<string, string>(
+    (products ?? []).map((product: { id: string; name: string }) => [product.id, product.name])
+  )
+  const productIds = Array.from(productNames.keys())
+
+  let entries: PriceLedgerEntry[] = []
+  let previousEntries: PriceLedgerEntry[] = []
+
+  if (productIds.length > 0) {
+    const { data, error } = await supabase
+      .from('price_ledger')
+      .select('*')
+      .in('product_id', productIds)
+      .gte('created_at', startDate.toISOString())
+      .lte('created_at', endDate.toISOString())
+      .order('created_at', { ascending: true })
+      .range(0, MAX_REPORT_ROWS - 1)
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message || 'Fiyat geçmişi alınamadı',
+      }
+    }
+
+    entries = (data as PriceLedgerEntry[]) ?? []
+  }
+
+  if (entries.length >= MAX_REPORT_ROWS) {
+    return {
+      success: false,
+      error: `Rapor en fazla ${MAX_REPORT_ROWS} kayıt içerebilir, daha kısa bir tarih aralığı seçin`,
+    }
+  }
+
+  const changedProductIds = Array.from(new Set(entries.map((entry) => entry.product_id)))
+
+  if (changedProductIds.length > 0) {
+    // Newest first, so the first entry per product/variant is its old price
+    const { data } = await supabase
+      .from('price_ledger')
+      .select('*')
+      .in('product_id', changedProductIds)
+      .lt('created_at', startDate.toISOString())
+      .order('created_at', { ascending: false })
+      .range(0, MAX_REPORT_ROWS - 1)
+
+    previousEntries = (data as PriceLedgerEntry[]) ?? []
+  }
+
+  const entryIds = [...entries, ...previousEntries].map((entry) => entry.id)
+  const cancelledIds = new Set<string>()
+
+  if (entryIds.length > 0) {
+    const { data: cancellations } = await supabase
+      .from('price_ledger_cancellations')
+      .select('price_ledger_id')
+      .in('price_ledger_id', entryIds)
+
+    for (const cancellation of cancellations ?? []) {
+      cancelledIds.add(cancellation.price_ledger_id)
+    }
+  }
+
+  const variantIds = Array.from(
+    new Set(entries.map((entry) => entry.variant_id).filter((id): id is string => !!id))
+  )
+  const variantNames = new Map<string, string>()
+
+  if (variantIds.length > 0) {
+    const { data: variants } = await supabase
+      .from('product_variants')
+      .select('id, name')
+      .in('id', variantIds)
+
+    for (const variant of variants ?? []) {
+      variantNames.set(variant.id, variant.name)
+    }
+  }
+
+  const userEmails = await getUserEmails(
+    entries.map((entry) => entry.changed_by).filter((id): id is string => !!id)
+  )
+
+  const lastPrices = new Map<string, number>()
+
+  for (const entry of previousEntries) {
+    if (!cancelledIds.has(entry.id) && !lastPrices.has(priceKey(entry))) {
+      lastPrices.set(priceKey(entry), entry.price)
+    }
+  }
+
+  const rows: PriceReportRow[] = []
+
+  for (const entry of entries) {
+    if (cancelledIds.has(entry.id)) {
+      continue
+    }
+
+    const key = priceKey(entry)
+
+    rows.push({
+      createdAt: entry.created_at,
+      effectiveFrom: entry.effective_from ?? null,
+      productId: entry.product_id,
+      productName: productNames.get(entry.product_id) ?? entry.product_id,
+      variantName: entry.variant_id ? variantNames.get(entry.variant_id) ?? null : null,
+      oldPrice: lastPrices.get(key) ?? null,
+      newPrice: entry.price,
+      currency: entry.currency,
+      changeReason: entry.change_reason,
+      changedBy: entry.changed_by,
+      changedByEmail: entry.changed_by ? userEmails.get(entry.changed_by) ?? null : null,
+    })
+
+    lastPrices.set(key, entry.price)
+  }
+
+  const report: PriceReport = {
+    organizationId,
+    organizationName: organization.name,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    generatedAt: new Date().toISOString(),
+    rows,
+  }
+
+  return {
+    success: true,
+    data: {
+      report,
+      hash: await generateSHA256Hash(report),
+    },
+  }
+}
+
+/**
+ * Resolve user e-mails with the auth admin API.
+ *
+ * Returns an empty map when the service role is not configured; the report
+ * then shows user IDs.
+ */
+async function getUserEmails(userIds: string[]): Promise<Map<string, string>> {
+  const emails = new Map<string, string>()
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return emails
+  }
+
+  for (const userId of Array.from(new Set(userIds))) {
+    const { data } = await admin.auth.admin.getUserById(userId)
+    if (data?.user?.email) {
+      emails.set(userId, data.user.email)
+    }
+  }
+
+  return emails
+}
+
+/**
+ * Header and footer text of a report page
+ */
+function buildPageFrame(
+  report: PriceReport,
+  hash: string,
+  pageNumber: number,
+  pageCount: number
+): PDFTextRun[] {
+  const { width, height } = A4_LANDSCAPE
+  const pageLabel = `Sayfa ${pageNumber} / ${pageCount}`
+
+  return [
+    { x: MARGIN, y: height - 40, text: 'Fiyat Değişiklik Raporu', size: 14, font: 'bold' },
+    {
+      x: MARGIN,
+      y: height - 56,
+      text: `${report.organizationName} | ${formatReportDate(report.startDate, false)} - ${formatReportDate(report.endDate, false)}`,
+      size: 9,
+    },
+    {
+      x: MARGIN,
+      y: height - 69,
+      text: `Oluşturulma: ${formatReportDate(report.generatedAt)} | Kayıt sayısı: ${report.rows.length}`,
+      size: 9,
+      gray: 0.3,
+    },
+    {
+      x: MARGIN,
+      y: 30,
+      text: `Rapor içeriğinin SHA-256 özeti: ${hash}`,
+      size: 7,
+      gray: 0.3,
+    },
+    {
+      x: width - MARGIN - estimateTextWidth(pageLabel, 7),
+      y: 30,
+      text: pageLabel,
+      size: 7,
+      gray: 0.3,
+    },
+  ]
+}
+
+/**
+ * Cells of one report row
+ */
+function buildRowCells(row: PriceReportRow): string[] {
+  const product = row.variantName ? `${row.productName} (${row.variantName})` : row.productName
+  const reason = row.effectiveFrom
+    ? `${row.changeReason ?? '-'} (yürürlük: ${formatReportDate(row.effectiveFrom)})`
+    : row.changeReason ?? '-'
+
+  return [
+    formatReportDate(row.createdAt),
+    product,
+    formatReportPrice(row.oldPrice, row.currency),
+    formatReportPrice(row.newPrice, row.currency),
+    reason,
+    row.changedByEmail ?? row.changedBy ?? '-',
+  ]
+}
+
+/**
+ * Render the report as an A4 landscape PDF.
+ *
+ * Every page repeats the header, the table header and a footer with the
+ * SHA-256 hash of the report content and the page number.
+ *
+ * @param report - Report content
+ * @param hash - SHA-256 of the report content
+ * @returns Buffer - PDF file
+ */
+export function renderPriceReportPDF(report: PriceReport, hash: string): Buffer {
+  const rowsPerPage = Math.floor((TABLE_TOP - 16 - TABLE_BOTTOM) / ROW_HEIGHT) + 1
+  const pageCount = Math.max(1, Math.ceil(report.rows.length / rowsPerPage))
+  const tableRight = A4_LANDSCAPE.width - MARGIN
+  const pages: PDFPageContent[] = []
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const texts = buildPageFrame(report, hash, pageIndex + 1, pageCount)
+
+    for (const column of COLUMNS) {
+      texts.push({ x: column.x, y: TABLE_TOP, text: column.title, size: FONT_SIZE, font: 'bold' })
+    }
+
+    const pageRows = report.rows.slice(pageIndex * rowsPerPage, (pageIndex + 1) * rowsPerPage)
+
+    pageRows.forEach((row, rowIndex) => {
+      const y = TABLE_TOP - 16 - rowIndex * ROW_HEIGHT
+
+      buildRowCells(row).forEach((cell, columnIndex) => {
+        const column = COLUMNS[columnIndex]
+        texts.push({
+          x: column.x,
+          y,
+          text: fitText(cell, FONT_SIZE, column.width - 6),
+          size: FONT_SIZE,
+        })
+      })
+    })
+
+    if (report.rows.length === 0) {
+      texts.push({
+        x: MARGIN,
+        y: TABLE_TOP - 16,
+        text: 'Seçilen tarih aralığında fiyat değişikliği yok.',
+        size: FONT_SIZE,
+      })
+    }
+
+    pages.push({
+      texts,
+      lines: [
+        { x1: MARGIN, y1: TABLE_TOP - 5, x2: tableRight, y2: TABLE_TOP - 5 },
+        { x1: MARGIN, y1: 42, x2: tableRight, y2: 42 },
+      ],
+    })
+  }
+
+  return buildTextPDF(pages, A4_LANDSCAPE)
+}
+
+/**
+ * Record a report download in the audit log.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param userId - User who downloaded the report
+ * @param report - Exported report content
+ * @param hash - SHA-256 of the report content
+ * @param format - Downloaded format
+ * @returns Promise<{ success: boolean; error?: string }>
+ */
+export async function recordPriceReportExport(
+  organizationId: string,
+  userId: string,
+  report: PriceReport,
+  hash: string,
+  format: 'pdf' | 'json'
+): Promise<{ success: boolean; error?: string }> {
+  return writeAuditLog({
+    organizationId,
+    userId,
+    action: 'export',
+    entityType: 'price_ledger',
+    metadata: {
+      report: 'price_changes',
+      format,
+      start_date: report.startDate,
+      end_date: report.endDate,
+      row_count: report.rows.length,
+      report_hash: hash,
+    },
+  })
+}
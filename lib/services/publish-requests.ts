@@ -0,0 +1,345 @@
+/**
+ * Publish Request Service - Approval Workflow for Menu Drafts
+ *
+ * Managers prepare menu changes and review them on the draft preview
+ * (/menu/[slug]/preview), then send the draft for approval. An owner or
+ * admin approves the request, which publishes a snapshot, or rejects it.
+ *
+ * A request records the hash of the draft it was sent with. Approval only
+ * publishes that exact draft: if the menu changed after the request was
+ * sent, the request is stale and has to be sent again.
+ *
+ * Price changes do not go through requests (price ledger requirement), but
+ * they only update prices on the latest published snapshot (see
+ * publishPriceChanges); the rest of the draft waits for approval.
+ *
+ * Database Tables:
+ * - `menu_publish_requests`: Requests with status, draft hash and reviewer
+ * - `menu_snapshots`: Snapshot published on approval
+ *
+ * @example
+ * const request = await createPublishRequest(organizationId, userId, 'Yaz menusu')
+ * // ...owner reviews the preview
+ * const result = await reviewPublishRequest(request.data!.id, organizationId, ownerId, 'approve')
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { createMenuSnapshot, getDraftMenuData } from '@/lib/services/snapshot'
+import type { MenuPublishRequest, MenuSnapshot } from '@/types/database'
+
+/**
+ * Decision on a pending publish request
+ */
+export type PublishRequestDecision = 'approve' | 'reject'
+
+/**
+ * Result type for publish request operations
+ */
+export interface PublishRequestResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/updated request */
+  data?: MenuPublishRequest
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Result type for reviewing a publish request
+ */
+export interface PublishRequestReviewResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  data?: {
+    request: MenuPublishRequest
+    /** Snapshot published on approval (null when rejected) */
+    snapshot: MenuSnapshot | null
+  }
+  /** True when the menu changed after the request was sent */
+  stale?: boolean
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Get the latest publish requests of an organization, newest first
+ *
+ * @param organizationId - The UUID of the organization
+ * @param limit - Maximum number of requests (default: 10)
+ * @returns Promise with requests or error
+ */
+export async function getPublishRequests(
+  organizationId: string,
+  limit: number = 10
+): Promise<{ success: boolean; data?: MenuPublishRequest[]; error?: string }> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('menu_publish_requests')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return {
+      success: false,
+      error: `Yayın talepleri alınamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as MenuPublishRequest[],
+  }
+}
+
+/**
+ * Send the current draft of the menu for publish approval.
+ *
+ * Only one request per organization can be pending at a time.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param userId - The UUID of the requesting user
+ * @param note - Optional note for the reviewer
+ * @returns Promise<PublishRequestResult> - Result with the created request or error
+ */
+export async function createPublishRequest(
+  organizationId: string,
+  userId: string,
+  note?: string | null
+): Promise<PublishRequestResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const draft = await getDraftMenuData(organizationId, supabase)
+
+  if (!draft.success || !draft.data) {
+    return {
+      success: false,
+      error: draft.error,
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('menu_publish_requests')
+    .insert({
+      organization_id: organizationId,
+      status: 'pending',
+      draft_hash: draft.data.hash,
+      note: note?.trim() || null,
+      requested_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return {
+      success: false,
+      error:
+        error.code === '23505'
+          ? 'Onay bekleyen bir yayın talebi zaten var'
+          : `Yayın talebi oluşturulamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as MenuPublishRequest,
+  }
+}
+
+/**
+ * Move a pending request to a final status.
+ *
+ * The update only matches while the request is still pending, so two
+ * reviewers cannot both decide on the same request.
+ *
+ * @returns The updated request, or null if it was no longer pending
+ */
+async function closePendingRequest(
+  supabase: SupabaseClient,
+  requestId: string,
+  organizationId: string,
+  changes: Partial<MenuPublishRequest>
+): Promise<MenuPublishRequest | null> {
+  const { data } = await supabase
+    .from('menu_publish_requests')
+    .update(changes)
+    .eq('id', requestId)
+    .eq('organization_id', organizationId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle()
+
+  return (data as MenuPublishRequest | null) ?? null
+}
+
+/**
+ * Approve or reject a pending publish request.
+ *
+ * Approval publishes the draft as a new snapshot, provided the menu has
+ * not changed since the request was sent (`stale` is set otherwise and the
+ * request stays pending). If publishing fails, the request is reopened.
+ *
+ * @param requestId - The UUID of the request
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @param reviewerId - The UUID of the approving/rejecting user
+ * @param decision - 'approve' or 'reject'
+ * @param reviewNote - Optional note for the requester
+ * @returns Promise<PublishRequestReviewResult> - Updated request and published snapshot
+ *
+ * @example
+ * ```typescript
+ * const result = await reviewPublishRequest(requestId, organizationId, userId, 'approve')
+ * if (result.stale) {
+ *   // Menu changed after the request - the manager sends it again
+ * }
+ * ```
+ */
+export async function reviewPublishRequest(
+  requestId: string,
+  organizationId: string,
+  reviewerId: string,
+  decision: PublishRequestDecision,
+  reviewNote?: string | null
+): Promise<PublishRequestReviewResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data: request } = await supabase
+    .from('menu_publish_requests')
+    .select('*')
+    .eq('id', requestId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (!request) {
+    return {
+      success: false,
+      error: 'Yayın talebi bulunamadı',
+    }
+  }
+
+  if (request.status !== 'pending') {
+    return {
+      success: false,
+      error: 'Yayın talebi zaten sonuçlandırılmış',
+    }
+  }
+
+  const review = {
+    reviewed_by: reviewerId,
+    review_note: reviewNote?.trim() || null,
+    reviewed_at: new Date().toISOString(),
+  }
+
+  if (decision === 'reject') {
+    const rejected = await closePendingRequest(supabase, requestId, organizationId, {
+      ...review,
+      status: 'rejected',
+    })
+
+    if (!rejected) {
+      return {
+        success: false,
+        error: 'Yayın talebi zaten sonuçlandırılmış',
+      }
+    }
+
+    return {
+      success: true,
+      data: { request: rejected, snapshot: null },
+    }
+  }
+
+  const draft = await getDraftMenuData(organizationId, supabase)
+
+  if (!draft.success || !draft.data) {
+    return {
+      success: false,
+      error: draft.error,
+    }
+  }
+
+  if (draft.data.hash !== request.draft_hash) {
+    return {
+      success: false,
+      stale: true,
+      error: 'Menü talep gönderildikten sonra değişti. Önizlemeyi kontrol edip talebi yeniden gönderin',
+    }
+  }
+
+  const approved = await closePendingRequest(supabase, requestId, organizationId, {
+    ...review,
+    status: 'approved',
+  })
+
+  if (!approved) {
+    return {
+      success: false,
+      error: 'Yayın talebi zaten sonuçlandırılmış',
+    }
+  }
+
+  const snapshotResult = await createMenuSnapshot(organizationId, supabase, request.draft_hash)
+
+  if (!snapshotResult.success || !snapshotResult.data) {
+    // Reopen the request so it can be approved again
+    await supabase
+      .from('menu_publish_requests')
+      .update({ status: 'pending', reviewed_by: null, review_note: null, reviewed_at: null })
+      .eq('id', requestId)
+
+    return {
+      success: false,
+      error: snapshotResult.error || 'Menü yayınlanamadı',
+    }
+  }
+
+  await supabase
+    .from('menu_publish_requests')
+    .update({ snapshot_id: snapshotResult.data.id })
+    .eq('id', requestId)
+
+  return {
+    success: true,
+    data: {
+      request: { ...approved, snapshot_id: snapshotResult.data.id },
+      snapshot: snapshotResult.data,
+    },
+  }
+}
+
+/**
+ * Withdraw a pending publish request
+ *
+ * @param requestId - The UUID of the request
+ * @param organizationId - The UUID of the organization (tenant check)
+ * @param userId - The UUID of the withdrawing user
+ * @returns Promise<PublishRequestResult> - Result with the cancelled request or error
+ */
+export async function cancelPublishRequest(
+  requestId: string,
+  organizationId: string,
+  userId: string
+): Promise<PublishRequestResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const cancelled = await closePendingRequest(supabase, requestId, organizationId, {
+    status: 'cancelled',
+    reviewed_by: userId,
+    reviewed_at: new Date().toISOString(),
+  })
+
+  if (!cancelled) {
+    return {
+      success: false,
+      error: 'Onay bekleyen yayın talebi bulunamadı',
+    }
+  }
+
+  return {
+    success: true,
+    data: cancelled,
+  }
+}
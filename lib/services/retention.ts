@@ -0,0 +1,193 @@
+/**
+ * Retention Service - Plan Based Retention for Operational Records
+ *
+ * Each plan limits how long audit logs and service requests stay visible to
+ * the organization (`retention_days` limit, e.g. 7 days on Free). The daily
+ * retention job (/api/cron/retention) applies the limit of every
+ * organization:
+ * - service requests older than the limit are archived (`archived_at`)
+ * - the archive cutoff is stored in `organization_retention`; audit logs are
+ *   immutable, so RLS hides entries created before the cutoff instead
+ *
+ * Nothing is deleted. A longer limit after an upgrade shows hidden audit
+ * logs again. Legal records (`price_ledger`, `menu_snapshots`) are never
+ * archived or hidden.
+ *
+ * Database Tables:
+ * - `v_organization_features`: Plan `retention_days` limit
+ * - `organization_feature_overrides`: Organization specific limit
+ * - `service_requests`: Archived via `archived_at`
+ * - `organization_retention`: Applied limit and archive cutoff
+ *
+ * @example
+ * const result = await applyRetention()
+ * // result.data: [{ organizationId, retentionDays: 7, archivedBefore, serviceRequestsArchived: 12 }]
+ */
+
+import { createServiceRoleSupabaseClient } from '@/lib/supabase/server'
+import { LIMIT_FEATURES } from '@/lib/guards/limits'
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Result of applying retention to one organization
+ */
+export interface RetentionResult {
+  organizationId: string
+  /** Applied retention_days limit (-1 = unlimited) */
+  retentionDays: number
+  /** Records created before this time are archived/hidden (null = unlimited) */
+  archivedBefore: string | null
+  /** Service requests archived in this run */
+  serviceRequestsArchived: number
+  error?: string
+}
+
+/**
+ * Get the archive cutoff for a retention limit.
+ *
+ * @param retentionDays - The retention_days limit (-1 = unlimited)
+ * @param now - Reference time (default: now)
+ * @returns Date | null - Records created before this time are archived, null when unlimited
+ *
+ * @example
+ * ```typescript
+ * getRetentionCutoff(7, new Date('2026-10-18T03:30:00Z')) // 2026-10-11T03:30:00Z
+ * ```
+ */
+export function getRetentionCutoff(retentionDays: number, now: Date = new Date()): Date | null {
+  if (retentionDays < 0) {
+    return null
+  }
+
+  return new Date(now.getTime() - retentionDays * DAY_MS)
+}
+
+/**
+ * Apply the retention_days limit of every organization.
+ *
+ * Called by the daily retention job, which has no user session, so all
+ * reads and writes use the service role client. An organization specific
+ * override wins over the plan limit. Organizations without a limit (no
+ * active subscription) are skipped and keep all records.
+ *
+ * @param now - Reference time (default: now)
+ * @returns Promise<{ success: boolean; data: RetentionResult[]; error?: string }>
+ *
+ * @example
+ * ```typescript
+ * const result = await applyRetention()
+ * const archived = result.data.reduce((sum, r) => sum + r.serviceRequestsArchived, 0)
+ * ```
+ */
+export async function applyRetention(now: Date = new Date()): Promise<{
+  success: boolean
+  data: RetentionResult[]
+  error?: string
+}> {
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      data: [],
+      error: 'Kayıt saklama işi için sunucu yapılandırması eksik',
+    }
+  }
+
+  const [planResult, overrideResult] = await Promise.all([
+    admin
+      .from('v_organization_features')
+      .select('organization_id, value_limit')
+      .eq('feature_key', LIMIT_FEATURES.RETENTION_DAYS),
+    admin
+      .from('organization_feature_overrides')
+      .select('organization_id, value_limit, features!inner(key)')
+      .eq('features.key', LIMIT_FEATURES.RETENTION_DAYS)
+      .or('expires_at.is.null,expires_at.gt.now()'),
+  ])
+
+  if (planResult.error || overrideResult.error) {
+    return {
+      success: false,
+      data: [],
+      error:
+        (planResult.error || overrideResult.error)?.message ||
+        'Kayıt saklama süreleri alınamadı',
+    }
+  }
+
+  // Plan limits first, overrides replace them
+  const limits = new Map<string, number>()
+
+  for (const row of planResult.data || []) {
+    if (row.value_limit !== null && row.value_limit !== undefined) {
+      limits.set(row.organization_id, row.value_limit)
+    }
+  }
+
+  for (const row of overrideResult.data || []) {
+    if (row.value_limit !== null && row.value_limit !== undefined) {
+      limits.set(row.organization_id, row.value_limit)
+    }
+  }
+
+  const results: RetentionResult[] = []
+
+  for (const [organizationId, retentionDays] of limits) {
+    const cutoff = getRetentionCutoff(retentionDays, now)
+    const archivedBefore = cutoff ? cutoff.toISOString() : null
+    let serviceRequestsArchived = 0
+
+    if (archivedBefore) {
+      const { data: archived, error: archiveError } = await admin
+        .from('service_requests')
+        .update({ archived_at: now.toISOString() })
+        .eq('organization_id', organizationId)
+        .lt('created_at', archivedBefore)
+        .is('archived_at', null)
+        .select('id')
+
+      if (archiveError) {
+        results.push({
+          organizationId,
+          retentionDays,
+          archivedBefore,
+          serviceRequestsArchived: 0,
+          error: archiveError.message || 'Servis istekleri arşivlenemedi',
+        })
+        continue
+      }
+
+      serviceRequestsArchived = archived?.length ?? 0
+    }
+
+    const { error: cutoffError } = await admin.from('organization_retention').upsert(
+      {
+        organization_id: organizationId,
+        retention_days: retentionDays,
+        archived_before: archivedBefore,
+        applied_at: now.toISOString(),
+      },
+      { onConflict: 'organization_id' }
+    )
+
+    results.push({
+      organizationId,
+      retentionDays,
+      archivedBefore,
+      serviceRequestsArchived,
+      error: cutoffError
+        ? cutoffError.message || 'Denetim kayıtları için saklama sınırı kaydedilemedi'
+        : undefined,
+    })
+  }
+
+  return {
+    success: results.every((result) => !result.error),
+    data: results,
+  }
+}
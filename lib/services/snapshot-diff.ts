@@ -0,0 +1,336 @@
+/**
+ * Snapshot Diff Service - Changelog Between Two Menu States
+ *
+ * Compares two menu snapshots (or a snapshot and the unpublished menu) field
+ * by field and lists what a guest would see change:
+ * - Prices (base price and variant prices, old → new)
+ * - Renamed products and categories
+ * - Description and allergen changes
+ * - Products moved to another category, categories moved under another parent
+ * - Products and categories added to or removed from the menu
+ *
+ * Snapshots only contain visible products and categories, so "added" covers
+ * new and re-shown items and "removed" covers deleted and hidden ones.
+ *
+ * This module has no database access and is safe to import from client
+ * components.
+ *
+ * @example
+ * const diff = diffMenuSnapshots(previousData, currentData)
+ * diff.products.filter((change) => change.prices.length > 0)
+ * // [{ productId: '...', name: 'Latte', type: 'changed', prices: [{ from: 85, to: 95, ... }] }]
+ */
+
+import type { AllergenCode } from '@/lib/services/allergens'
+import type { MenuSnapshotData } from '@/lib/services/snapshot'
+
+/**
+ * How an item changed between two menu states
+ */
+export type SnapshotChangeType = 'added' | 'removed' | 'changed'
+
+/**
+ * Old and new value of a changed field
+ */
+export interface FieldChange<T> {
+  from: T
+  to: T
+}
+
+/**
+ * Category an item belongs to (null id = no category / top level)
+ */
+export interface SnapshotCategoryRef {
+  id: string | null
+  name: string | null
+}
+
+/**
+ * A base or variant price that changed, appeared or disappeared
+ */
+export interface SnapshotPriceChange {
+  /** Variant UUID (null for the base price) */
+  variantId: string | null
+  /** Variant name (null for the base price) */
+  variantName: string | null
+  /** Old price (null if the price did not exist) */
+  from: number | null
+  /** New price (null if the price no longer exists) */
+  to: number | null
+  currency: string
+}
+
+/**
+ * Changes of a single product
+ */
+export interface ProductSnapshotChange {
+  productId: string
+  /** Current name (last known name for removed products) */
+  name: string
+  type: SnapshotChangeType
+  /** Price changes; added and removed products list all their prices */
+  prices: SnapshotPriceChange[]
+  rename?: FieldChange<string>
+  description?: FieldChange<string | null>
+  /** Allergen codes added and removed (compared only while both menus publish allergens) */
+  allergens?: { added: AllergenCode[]; removed: AllergenCode[] }
+  category?: FieldChange<SnapshotCategoryRef>
+}
+
+/**
+ * Changes of a single category
+ */
+export interface CategorySnapshotChange {
+  categoryId: string
+  name: string
+  type: SnapshotChangeType
+  rename?: FieldChange<string>
+  parent?: FieldChange<SnapshotCategoryRef>
+}
+
+/**
+ * Field-level difference between two menu states
+ */
+export interface MenuSnapshotDiff {
+  /** Changed products in menu order; removed products last */
+  products: ProductSnapshotChange[]
+  /** Changed categories in menu order; removed categories last */
+  categories: CategorySnapshotChange[]
+  summary: {
+    /** Products and categories added to the menu */
+    added: number
+    /** Products and categories removed from the menu */
+    removed: number
+    /** Products and categories with changed fields */
+    changed: number
+    /** Prices changed from one value to another */
+    priceChanges: number
+  }
+}
+
+type SnapshotProduct = MenuSnapshotData['products'][number]
+type SnapshotCategory = MenuSnapshotData['categories'][number]
+
+/**
+ * List the prices of a product keyed by variant (base price under '')
+ */
+function listPrices(product: SnapshotProduct | undefined): Map<string, SnapshotPriceChange> {
+  const prices = new Map<string, SnapshotPriceChange>()
+
+  if (!product) {
+    return prices
+  }
+
+  if (product.price !== null) {
+    prices.set('', {
+      variantId: null,
+      variantName: null,
+      from: product.price,
+      to: product.price,
+      currency: product.currency,
+    })
+  }
+
+  for (const variant of product.variants ?? []) {
+    prices.set(variant.id, {
+      variantId: variant.id,
+      variantName: variant.name,
+      from: variant.price,
+      to: variant.price,
+      currency: variant.currency,
+    })
+  }
+
+  return prices
+}
+
+/**
+ * Compare the base and variant prices of a product
+ */
+function diffPrices(
+  before: SnapshotProduct | undefined,
+  after: SnapshotProduct | undefined
+): SnapshotPriceChange[] {
+  const oldPrices = listPrices(before)
+  const newPrices = listPrices(after)
+  const changes: SnapshotPriceChange[] = []
+
+  for (const [key, price] of newPrices) {
+    const old = oldPrices.get(key)
+
+    if (!old || old.from !== price.to) {
+      changes.push({ ...price, from: old?.from ?? null })
+    }
+  }
+
+  for (const [key, price] of oldPrices) {
+    if (!newPrices.has(key)) {
+      changes.push({ ...price, to: null })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Resolve a category id to a reference with its name in the given menu
+ */
+function categoryRef(
+  categoryId: string | null,
+  categories: Map<string, SnapshotCategory>
+): SnapshotCategoryRef {
+  return {
+    id: categoryId,
+    name: categoryId ? categories.get(categoryId)?.name ?? null : null,
+  }
+}
+
+/**
+ * Compare two menu states field by field.
+ *
+ * Either side may be null (no published menu yet / nothing to compare
+ * against), in which case every item of the other side is added or removed.
+ *
+ * @param before - The older menu data (null for an empty menu)
+ * @param after - The newer menu data (null for an empty menu)
+ * @returns MenuSnapshotDiff - Changed products and categories with a summary
+ *
+ * @example
+ * ```typescript
+ * const diff = diffMenuSnapshots(v3.snapshot_data, v4.snapshot_data)
+ * console.log(`${diff.summary.priceChanges} fiyat değişti`)
+ * ```
+ */
+export function diffMenuSnapshots(
+  before: MenuSnapshotData | null,
+  after: MenuSnapshotData | null
+): MenuSnapshotDiff {
+  const oldCategories = new Map((before?.categories ?? []).map((c) => [c.id, c]))
+  const newCategories = new Map((after?.categories ?? []).map((c) => [c.id, c]))
+  const oldProducts = new Map((before?.products ?? []).map((p) => [p.id, p]))
+  const newProducts = new Map((after?.products ?? []).map((p) => [p.id, p]))
+
+  const categories: CategorySnapshotChange[] = []
+
+  for (const category of newCategories.values()) {
+    const old = oldCategories.get(category.id)
+
+    if (!old) {
+      categories.push({ categoryId: category.id, name: category.name, type: 'added' })
+      continue
+    }
+
+    const change: CategorySnapshotChange = {
+      categoryId: category.id,
+      name: category.name,
+      type: 'changed',
+    }
+
+    if (old.name !== category.name) {
+      change.rename = { from: old.name, to: category.name }
+    }
+
+    if (old.parent_id !== category.parent_id) {
+      change.parent = {
+        from: categoryRef(old.parent_id, oldCategories),
+        to: categoryRef(category.parent_id, newCategories),
+      }
+    }
+
+    if (change.rename || change.parent) {
+      categories.push(change)
+    }
+  }
+
+  for (const category of oldCategories.values()) {
+    if (!newCategories.has(category.id)) {
+      categories.push({ categoryId: category.id, name: category.name, type: 'removed' })
+    }
+  }
+
+  const products: ProductSnapshotChange[] = []
+
+  for (const product of newProducts.values()) {
+    const old = oldProducts.get(product.id)
+    const prices = diffPrices(old, product)
+
+    if (!old) {
+      products.push({ productId: product.id, name: product.name, type: 'added', prices })
+      continue
+    }
+
+    const change: ProductSnapshotChange = {
+      productId: product.id,
+      name: product.name,
+      type: 'changed',
+      prices,
+    }
+
+    if (old.name !== product.name) {
+      change.rename = { from: old.name, to: product.name }
+    }
+
+    if ((old.description ?? null) !== (product.description ?? null)) {
+      change.description = { from: old.description ?? null, to: product.description ?? null }
+    }
+
+    // null = allergens not published (module off), not "no allergens"
+    if (old.allergens && product.allergens) {
+      const oldCodes = old.allergens
+      const newCodes = product.allergens
+      const added = newCodes.filter((code) => !oldCodes.includes(code))
+      const removed = oldCodes.filter((code) => !newCodes.includes(code))
+
+      if (added.length > 0 || removed.length > 0) {
+        change.allergens = { added, removed }
+      }
+    }
+
+    if (old.category_id !== product.category_id) {
+      change.category = {
+        from: categoryRef(old.category_id, oldCategories),
+        to: categoryRef(product.category_id, newCategories),
+      }
+    }
+
+    if (
+      prices.length > 0 ||
+      change.rename ||
+      change.description ||
+      change.allergens ||
+      change.category
+    ) {
+      products.push(change)
+    }
+  }
+
+  for (const product of oldProducts.values()) {
+    if (!newProducts.has(product.id)) {
+      products.push({
+        productId: product.id,
+        name: product.name,
+        type: 'removed',
+        prices: diffPrices(product, undefined),
+      })
+    }
+  }
+
+  const changes = [...products, ...categories]
+
+  return {
+    products,
+    categories,
+    summary: {
+      added: changes.filter((change) => change.type === 'added').length,
+      removed: changes.filter((change) => change.type === 'removed').length,
+      changed: changes.filter((change) => change.type === 'changed').length,
+      priceChanges: products
+        .filter((change) => change.type === 'changed')
+        .reduce(
+          (count, change) =>
+            count + change.prices.filter((price) => price.from !== null && price.to !== null).length,
+          0
+        ),
+    },
+  }
+}
@@ -8,10 +8,19 @@
  * CRITICAL: Snapshots are immutable compliance records!
  * - Each publish creates a new versioned snapshot
  * - Hash provides cryptographic proof of menu content
+ * - Each hash also covers the previous version's hash (hash chain), so a
+ *   deleted or replaced version breaks every later link
+ * - Data is hashed as canonical JSON (see lib/json/canonical.ts), so the key
+ *   order JSONB returns does not change the hash; `hash_algorithm` records
+ *   the serialization so snapshots hashed before stay verifiable
  * - Snapshots can be exported for regulatory audits
  *
  * Database Tables:
  * - `menu_snapshots`: Stores complete menu state with hash
+ * - `menu_snapshot_chain_heads`: View of the latest version and hash per
+ *   organization (archived daily outside the database)
+ * - `due_price_publications`: View of organizations whose scheduled prices
+ *   took effect after their latest snapshot
  *
  * @example
  * // Create a new snapshot when publishing menu
@@ -20,16 +29,67 @@
  * // Verify snapshot integrity
  * const isValid = await verifySnapshotHash(snapshotId)
  *
+ * // Verify the whole version history of an organization
+ * const chain = await verifySnapshotChain(organizationId)
+ *
  * // Get latest published menu
  * const current = await getCurrentMenuSnapshot(organizationId)
  */
 
-import { createServerSupabaseClient } from '@/lib/supabase/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createServerSupabaseClient,
+  createServiceRoleSupabaseClient,
+} from '@/lib/supabase/server'
+import { DEFAULT_LOCALE } from '@/lib/i18n/locales'
+import { canonicalJSON } from '@/lib/json/canonical'
+import { hasPermission } from '@/lib/guards/permission'
+import {
+  buildPriceWindows,
+  getDiscountedPriceEntries,
+  recordDiscountedPrices,
+  type PriceWindow,
+} from '@/lib/services/happy-hour'
+import {
+  getModifierGroups,
+  buildModifierGroupSnapshots,
+  type ModifierGroupSnapshot,
+  type ModifierGroupWithOptions,
+} from '@/lib/services/modifiers'
+import {
+  getBundles,
+  buildBundleSnapshots,
+  type BundleSnapshot,
+  type BundleWithItems,
+} from '@/lib/services/bundles'
+import { buildRecommendationMap } from '@/lib/services/cross-sell'
+import { diffMenuSnapshots, type MenuSnapshotDiff } from '@/lib/services/snapshot-diff'
+import { writeAuditLog } from '@/lib/services/audit'
+import { getRestoredPriceChanges } from '@/lib/services/price-ledger'
+import { normalizeAllergens, type AllergenCode } from '@/lib/services/allergens'
+import { parseMenuTheme } from '@/lib/services/theme'
+import {
+  computeNutritionTotals,
+  parseNutrition,
+  type NutritionFacts,
+} from '@/lib/services/nutrition'
+import {
+  BADGE_FEATURES,
+  buildBadgeWindows,
+  type BadgeWindow,
+} from '@/lib/services/badges'
 import type {
   MenuSnapshot,
+  MenuSnapshotChainHead,
   CurrentPrice,
+  CurrentVariantPrice,
+  PriceRule,
+  ProductBadge,
+  ProductBadgeType,
+  SnapshotHashAlgorithm,
   Json,
 } from '@/types/database'
+import type { MenuTheme } from '@/types'
 
 /**
  * Complete menu data structure for snapshot
@@ -43,6 +103,8 @@ export interface MenuSnapshotData {
     logo_url: string | null
     cover_url: string | null
     settings: Json
+    /** Public menu theme (only while module_theme is enabled) */
+    theme?: MenuTheme
   }
   /** All visible categories with hierarchy */
   categories: Array<{
@@ -51,6 +113,8 @@ export interface MenuSnapshotData {
     slug: string
     parent_id: string | null
     sort_order: number
+    /** Localized names keyed by locale (published languages only) */
+    translations?: Record<string, { name: string }>
   }>
   /** All visible products with current prices */
   products: Array<{
@@ -59,11 +123,38 @@ export interface MenuSnapshotData {
     description: string | null
     category_id: string | null
     image_url: string | null
-    allergens: string[] | null
-    nutrition: Json | null
+    /** Allergen catalog codes (only while module_allergens is enabled) */
+    allergens: AllergenCode[] | null
+    /** Nutrition facts with computed totals (only while module_nutrition is enabled) */
+    nutrition: NutritionFacts | null
     price: number | null
     currency: string
+    /** Localized content keyed by locale (published languages only) */
+    translations?: Record<string, { name: string; description: string | null }>
+    /** Happy hour windows with discounted prices (recorded in discounted_price_ledger) */
+    price_rules?: PriceWindow[]
+    /** Priced portion/size variants in display order (prices from price_ledger) */
+    variants?: Array<{
+      id: string
+      name: string
+      price: number
+      currency: string
+      sort_order: number
+    }>
+    /** Add-on groups with option prices (recorded in modifier_price_ledger) */
+    modifier_groups?: ModifierGroupSnapshot[]
+    /** IDs of visible products recommended with this one ("Bununla iyi gider") */
+    recommendations?: string[]
+    /** Chef's recommendation / daily special schedules, evaluated when the menu is rendered */
+    badges?: BadgeWindow[]
   }>
+  /** Set menus whose component products are all visible (prices from bundle_price_ledger) */
+  bundles?: BundleSnapshot[]
+  /** Menu languages: base locale plus every published additional locale */
+  locales?: {
+    default: string
+    available: string[]
+  }
   /** Snapshot metadata */
   metadata: {
     generated_at: string
@@ -96,6 +187,8 @@ export interface SnapshotVerificationResult {
   storedHash?: string
   /** The computed hash from current data */
   computedHash?: string
+  /** Serialization the hash was computed with */
+  algorithm?: SnapshotHashAlgorithm
   /** Error message if operation failed */
   error?: string
 }
@@ -114,13 +207,165 @@ export interface SnapshotListResult {
   totalCount?: number
 }
 
+/**
+ * A broken link found while walking the snapshot hash chain
+ */
+export interface SnapshotChainBreak {
+  /** Version where the chain breaks */
+  version: number
+  /** The UUID of the snapshot */
+  snapshotId: string
+  /** What is wrong with the snapshot */
+  reason: string
+}
+
+/**
+ * Outcome of a whole-history snapshot verification
+ */
+export interface SnapshotChainVerification {
+  /** Whether every version is intact and linked to the one before */
+  valid: boolean
+  /** Number of versions checked */
+  snapshotCount: number
+  /** Versions published before hash chaining (content hash only) */
+  legacyCount: number
+  /** Latest version (null if nothing was published) */
+  head: { version: number; hash: string; created_at: string } | null
+  /** The first broken link (null if the chain is intact) */
+  brokenLink: SnapshotChainBreak | null
+}
+
+/**
+ * Result type for snapshot chain verification
+ */
+export interface SnapshotChainResult {
+  /** Whether the verification could run */
+  success: boolean
+  /** Verification outcome */
+  data?: SnapshotChainVerification
+  /** Error message if the verification could not run */
+  error?: string
+}
+
+/**
+ * Chain head digest for archiving outside the database
+ */
+export interface SnapshotChainDigest {
+  /** When the digest was generated */
+  generated_at: string
+  /** Latest version and hash per organization */
+  heads: MenuSnapshotChainHead[]
+  /** SHA-256 of `{ generated_at, heads }` */
+  digest: string
+}
+
+/**
+ * One side of a snapshot diff: a version number, the latest published
+ * version or the unpublished menu as it would be published now
+ */
+export type SnapshotDiffTarget = number | 'latest' | 'draft'
+
+/**
+ * Result type for snapshot diffs
+ */
+export interface SnapshotDiffResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  data?: {
+    /** Compared menu states (version null = unpublished menu or no snapshot yet) */
+    from: { version: number | null; hash: string | null; created_at: string | null }
+    to: { version: number | null; hash: string | null; created_at: string | null }
+    diff: MenuSnapshotDiff
+  }
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Result type for draft menu data
+ */
+export interface DraftMenuResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  data?: {
+    /** Menu data as it would be published now */
+    menuData: MenuSnapshotData
+    /** Draft hash (see computeDraftHash) */
+    hash: string
+  }
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * What a guest or inspector checks on the public verification page
+ */
+export interface PublicSnapshotVerificationInput {
+  /** Hash to look up (e.g. noted from the verification page earlier) */
+  hash?: string
+  /** Exported snapshot JSON (compliance export or a snapshot row) */
+  snapshot?: unknown
+}
+
+/**
+ * Result type for public snapshot verification
+ */
+export interface PublicSnapshotVerificationResult {
+  /** Whether the verification succeeded */
+  success: boolean
+  data?: {
+    /** The hash that was checked */
+    hash: string
+    /** Whether a published snapshot of this menu has the hash */
+    found: boolean
+    /** Whether the uploaded data hashes to the hash it claims (null for hash lookups) */
+    contentMatches: boolean | null
+    /** Version of the matching snapshot */
+    version: number | null
+    /** Publish time of the matching snapshot */
+    publishedAt: string | null
+    /** Whether the matching snapshot is the menu published now */
+    isCurrent: boolean
+    /** Whether the stored snapshot still hashes to its recorded hash */
+    storedValid: boolean | null
+  }
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * previous_hash of the first version in a chain
+ */
+export const SNAPSHOT_GENESIS_HASH = '0'.repeat(64)
+
+/**
+ * Hash algorithm of newly published snapshots
+ */
+export const SNAPSHOT_HASH_ALGORITHM: SnapshotHashAlgorithm = 'sha256-canonical-v2'
+
+/**
+ * Hash algorithm of snapshots published before canonical JSON
+ */
+export const LEGACY_SNAPSHOT_HASH_ALGORITHM: SnapshotHashAlgorithm = 'sha256-json-v1'
+
+/**
+ * Page size used when walking the version history
+ */
+const CHAIN_PAGE_SIZE = 50
+
+/**
+ * Attempts to insert a snapshot when concurrent publishes take its version
+ */
+const SNAPSHOT_INSERT_ATTEMPTS = 3
+
 /**
  * Generate SHA-256 hash from data using Web Crypto API
  *
  * This function creates a cryptographic hash of the snapshot data
- * for integrity verification and compliance proof.
+ * for integrity verification and compliance proof. The data is serialized
+ * as canonical JSON, so key order does not affect the hash.
  *
- * @param data - The data to hash (will be stringified)
+ * @param data - The data to hash (will be serialized as canonical JSON)
  * @returns Promise<string> - Hex-encoded SHA-256 hash
  *
  * @example
@@ -130,9 +375,135 @@ export interface SnapshotListResult {
  * ```
  */
 export async function generateSHA256Hash(data: unknown): Promise<string> {
-  const jsonString = JSON.stringify(data, null, 0) // Deterministic JSON
+  return sha256Hex(canonicalJSON(data))
+}
+
+/**
+ * Key order of the objects collectMenuData built for sha256-json-v1 snapshots.
+ * Free-form JSON (organization settings, product nutrition) was read from
+ * JSONB columns, so it was hashed in JSONB order and is kept as stored.
+ */
+const LEGACY_KEY_ORDER = {
+  chained: ['previous_hash', 'snapshot_data'],
+  menu: ['organization', 'categories', 'products', 'metadata'],
+  organization: ['id', 'name', 'slug', 'logo_url', 'cover_url', 'settings'],
+  category: ['id', 'name', 'slug', 'parent_id', 'sort_order'],
+  product: [
+    'id',
+    'name',
+    'description',
+    'category_id',
+    'image_url',
+    'allergens',
+    'nutrition',
+    'price',
+    'currency',
+  ],
+  metadata: ['generated_at', 'product_count', 'category_count'],
+}
+
+/**
+ * Put the known keys of an object first, in the given order
+ *
+ * Keys that are not listed keep their stored order after the known ones.
+ */
+function orderKeys(
+  value: unknown,
+  keys: string[],
+  mapValue: (key: string, item: unknown) => unknown = (_key, item) => item
+): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value
+  }
+
+  const record = value as Record<string, unknown>
+  const ordered: Record<string, unknown> = {}
+
+  for (const key of [...keys, ...Object.keys(record)]) {
+    if (key in record && !(key in ordered)) {
+      ordered[key] = mapValue(key, record[key])
+    }
+  }
+
+  return ordered
+}
+
+/**
+ * Restore the key order a sha256-json-v1 snapshot was hashed with
+ *
+ * JSONB returns keys sorted by length and then bytes, so snapshot_data read
+ * back from the database no longer has the order `JSON.stringify` saw when
+ * the hash was computed.
+ *
+ * @param data - Menu data or a `{ previous_hash, snapshot_data }` wrapper
+ * @returns The same data with the original key order
+ */
+function restoreLegacyKeyOrder(data: unknown): unknown {
+  const orderMenu = (menu: unknown) =>
+    orderKeys(menu, LEGACY_KEY_ORDER.menu, (key, item) => {
+      switch (key) {
+        case 'organization':
+          return orderKeys(item, LEGACY_KEY_ORDER.organization)
+        case 'categories':
+          return Array.isArray(item)
+            ? item.map((category) => orderKeys(category, LEGACY_KEY_ORDER.category))
+            : item
+        case 'products':
+          return Array.isArray(item)
+            ? item.map((product) => orderKeys(product, LEGACY_KEY_ORDER.product))
+            : item
+        case 'metadata':
+          return orderKeys(item, LEGACY_KEY_ORDER.metadata)
+        default:
+          return item
+      }
+    })
+
+  if (data && typeof data === 'object' && 'snapshot_data' in data) {
+    return orderKeys(data, LEGACY_KEY_ORDER.chained, (key, item) =>
+      key === 'snapshot_data' ? orderMenu(item) : item
+    )
+  }
+
+  return orderMenu(data)
+}
+
+/**
+ * Generate SHA-256 hash of data serialized with the given algorithm
+ *
+ * sha256-json-v1 snapshots were hashed over `JSON.stringify` output, so the
+ * original key order is restored before serializing.
+ *
+ * @param data - The data to hash
+ * @param algorithm - Serialization the hash is computed with
+ * @returns Promise<string> - Hex-encoded SHA-256 hash
+ */
+async function hashWithAlgorithm(
+  data: unknown,
+  algorithm: SnapshotHashAlgorithm
+): Promise<string> {
+  if (algorithm === LEGACY_SNAPSHOT_HASH_ALGORITHM) {
+    return sha256Hex(JSON.stringify(restoreLegacyKeyOrder(data), null, 0))
+  }
+
+  return generateSHA256Hash(data)
+}
+
+/**
+ * Generate SHA-256 hash of a text as-is (UTF-8, not JSON-encoded)
+ *
+ * @param text - The text to hash
+ * @returns Promise<string> - Hex-encoded SHA-256 hash
+ *
+ * @example
+ * ```typescript
+ * const hash = await sha256Hex('abc')
+ * // Returns: 'ba7816bf...' (64 character hex string)
+ * ```
+ */
+export async function sha256Hex(text: string): Promise<string> {
   const encoder = new TextEncoder()
-  const dataBuffer = encoder.encode(jsonString)
+  const dataBuffer = encoder.encode(text)
 
   // Use Web Crypto API for SHA-256 hashing
   const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer)
@@ -144,19 +515,51 @@ export async function generateSHA256Hash(data: unknown): Promise<string> {
   return hashHex
 }
 
+/**
+ * Compute the hash stored for a snapshot.
+ *
+ * Chained snapshots hash `{ previous_hash, snapshot_data }`, so the hash
+ * also proves which version came before. Snapshots published before hash
+ * chaining (no previous_hash) hash their content alone.
+ *
+ * @param snapshotData - The menu data of the snapshot
+ * @param previousHash - Hash of the previous version (null for legacy snapshots)
+ * @param algorithm - Serialization to hash with (default: the current one)
+ * @returns Promise<string> - Hex-encoded SHA-256 hash
+ *
+ * @example
+ * ```typescript
+ * const hash = await computeSnapshotHash(menuData, latest?.hash ?? SNAPSHOT_GENESIS_HASH)
+ * ```
+ */
+export async function computeSnapshotHash(
+  snapshotData: unknown,
+  previousHash: string | null,
+  algorithm: SnapshotHashAlgorithm = SNAPSHOT_HASH_ALGORITHM
+): Promise<string> {
+  if (previousHash === null) {
+    return hashWithAlgorithm(snapshotData, algorithm)
+  }
+
+  return hashWithAlgorithm({ previous_hash: previousHash, snapshot_data: snapshotData }, algorithm)
+}
+
 /**
  * Collect complete menu data for an organization
  *
  * Gathers all visible categories, products with current prices,
- * and organization info for creating a menu snapshot.
+ * priced variants, add-on groups, cross-sell links, badges, bundles, translations for every published language, happy hour
+ * windows and organization info for creating a menu snapshot.
  *
  * @param organizationId - The UUID of the organization
+ * @param client - Supabase client to read with (default: the session client)
  * @returns Promise<MenuSnapshotData | null> - Complete menu data or null on error
  */
 async function collectMenuData(
-  organizationId: string
+  organizationId: string,
+  client?: SupabaseClient
 ): Promise<MenuSnapshotData | null> {
-  const supabase = await createServerSupabaseClient()
+  const supabase = client ?? (await createServerSupabaseClient())
 
   // Fetch organization details
   const { data: organization, error: orgError } = await supabase
@@ -207,19 +610,230 @@ async function collectMenuData(
     }
   }
 
+  // Fetch active variants with their current prices (only while module_variants is enabled)
+  const { data: variantRows } = await supabase
+    .from('product_variants')
+    .select('id, product_id, name, sort_order')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+
+  const variantMap = new Map<string, NonNullable<MenuSnapshotData['products'][number]['variants']>>()
+
+  if (
+    variantRows &&
+    variantRows.length > 0 &&
+    (await hasPermission(organizationId, 'module_variants', client))
+  ) {
+    const { data: variantPrices } = await supabase
+      .from('current_variant_prices')
+      .select('variant_id, price, currency')
+      .in('variant_id', variantRows.map((v) => v.id))
+
+    const variantPriceMap = new Map(
+      (variantPrices || []).map((p) => [p.variant_id, p as CurrentVariantPrice])
+    )
+
+    for (const variant of variantRows) {
+      const variantPrice = variantPriceMap.get(variant.id)
+      if (!variantPrice) continue
+
+      const entry = variantMap.get(variant.product_id) || []
+      entry.push({
+        id: variant.id,
+        name: variant.name,
+        price: variantPrice.price,
+        currency: variantPrice.currency,
+        sort_order: variant.sort_order,
+      })
+      variantMap.set(variant.product_id, entry)
+    }
+  }
+
+  // Fetch add-on groups offered with products (only while module_modifiers is enabled)
+  const { data: productGroupRows } = await supabase
+    .from('product_modifier_groups')
+    .select('product_id, group_id')
+    .eq('organization_id', organizationId)
+    .order('sort_order', { ascending: true })
+
+  const modifierMap = new Map<string, ModifierGroupSnapshot[]>()
+
+  if (
+    productGroupRows &&
+    productGroupRows.length > 0 &&
+    (await hasPermission(organizationId, 'module_modifiers', client))
+  ) {
+    const groupsResult = await getModifierGroups(organizationId, { activeOnly: true, client })
+
+    if (!groupsResult.success) {
+      return null
+    }
+
+    const groupSnapshots = new Map(
+      buildModifierGroupSnapshots(groupsResult.data as ModifierGroupWithOptions[]).map((g) => [g.id, g])
+    )
+
+    for (const row of productGroupRows) {
+      const group = groupSnapshots.get(row.group_id)
+      if (!group) continue
+
+      const entry = modifierMap.get(row.product_id) || []
+      entry.push(group)
+      modifierMap.set(row.product_id, entry)
+    }
+  }
+
+  // Fetch cross-sell links (only while module_cross_sell is enabled)
+  const { data: recommendationRows } = await supabase
+    .from('product_recommendations')
+    .select('product_id, recommended_product_id')
+    .eq('organization_id', organizationId)
+    .order('sort_order', { ascending: true })
+
+  let recommendationMap = new Map<string, string[]>()
+
+  if (
+    recommendationRows &&
+    recommendationRows.length > 0 &&
+    (await hasPermission(organizationId, 'module_cross_sell', client))
+  ) {
+    recommendationMap = buildRecommendationMap(recommendationRows, new Set(productIds))
+  }
+
+  // Fetch active badges (each type only while its feature is enabled)
+  const { data: badgeRows } = await supabase
+    .from('product_badges')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  const enabledBadgeTypes = new Set<ProductBadgeType>()
+  for (const type of new Set((badgeRows || []).map((b) => b.badge_type as ProductBadgeType))) {
+    if (await hasPermission(organizationId, BADGE_FEATURES[type], client)) {
+      enabledBadgeTypes.add(type)
+    }
+  }
+
+  const badgeMap = buildBadgeWindows((badgeRows || []) as ProductBadge[], enabledBadgeTypes)
+
+  // Allergens are only published while module_allergens is enabled; values
+  // outside the catalog are dropped
+  const allergensEnabled =
+    (products || []).some((p) => normalizeAllergens(p.allergens).length > 0) &&
+    (await hasPermission(organizationId, 'module_allergens', client))
+
+  // Nutrition facts are only published while module_nutrition is enabled
+  const nutritionEnabled =
+    (products || []).some((p) => parseNutrition(p.nutrition) !== null) &&
+    (await hasPermission(organizationId, 'module_nutrition', client))
+
+  // The menu theme is only published while module_theme is enabled
+  const storedTheme = parseMenuTheme(
+    (organization.settings as Record<string, unknown> | null)?.theme
+  )
+  const theme =
+    storedTheme && (await hasPermission(organizationId, 'module_theme', client)) ? storedTheme : null
+
+  // Fetch active bundles (only while module_bundles is enabled). Bundles with a
+  // hidden or missing component are left out of the snapshot.
+  const bundlesResult = await getBundles(organizationId, { activeOnly: true, client })
+
+  if (!bundlesResult.success) {
+    return null
+  }
+
+  let bundles: BundleSnapshot[] = []
+  const bundleRows = bundlesResult.data as BundleWithItems[]
+
+  if (bundleRows.length > 0 && (await hasPermission(organizationId, 'module_bundles', client))) {
+    bundles = buildBundleSnapshots(
+      bundleRows,
+      new Map((products || []).map((p) => [p.id, p.name]))
+    )
+  }
+
+  // Fetch active happy hour rules (only applied while module_happy_hour is enabled)
+  const { data: ruleRows } = await supabase
+    .from('price_rules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  let priceRules: PriceRule[] = (ruleRows || []) as PriceRule[]
+  if (priceRules.length > 0 && !(await hasPermission(organizationId, 'module_happy_hour', client))) {
+    priceRules = []
+  }
+
+  // Fetch published languages and their translations
+  const { data: languages } = await supabase
+    .from('organization_languages')
+    .select('locale')
+    .eq('organization_id', organizationId)
+    .eq('is_published', true)
+    .order('sort_order', { ascending: true })
+
+  const publishedLocales: string[] = (languages || []).map((l) => l.locale)
+  const productTranslations = new Map<string, Record<string, { name: string; description: string | null }>>()
+  const categoryTranslations = new Map<string, Record<string, { name: string }>>()
+
+  if (publishedLocales.length > 0) {
+    const [{ data: productRows }, { data: categoryRows }] = await Promise.all([
+      supabase
+        .from('product_translations')
+        .select('product_id, locale, name, description')
+        .eq('organization_id', organizationId)
+        .in('locale', publishedLocales),
+      supabase
+        .from('category_translations')
+        .select('category_id, locale, name')
+        .eq('organization_id', organizationId)
+        .in('locale', publishedLocales),
+    ])
+
+    for (const row of productRows || []) {
+      const entry = productTranslations.get(row.product_id) || {}
+      entry[row.locale] = { name: row.name, description: row.description }
+      productTranslations.set(row.product_id, entry)
+    }
+
+    for (const row of categoryRows || []) {
+      const entry = categoryTranslations.get(row.category_id) || {}
+      entry[row.locale] = { name: row.name }
+      categoryTranslations.set(row.category_id, entry)
+    }
+  }
+
   // Combine products with prices
   const productsWithPrices = (products || []).map((product) => {
     const price = priceMap.get(product.id)
+    const translations = productTranslations.get(product.id)
+    const variants = variantMap.get(product.id)
+    const modifierGroups = modifierMap.get(product.id)
+    const recommendations = recommendationMap.get(product.id)
+    const badges = badgeMap.get(product.id)
+    const allergens = allergensEnabled ? normalizeAllergens(product.allergens) : []
+    const nutrition = nutritionEnabled ? parseNutrition(product.nutrition) : null
+    const priceWindows = buildPriceWindows(
+      { id: product.id, category_id: product.category_id, price: price?.price ?? null },
+      priceRules
+    )
     return {
       id: product.id,
       name: product.name,
       description: product.description,
       category_id: product.category_id,
       image_url: product.image_url,
-      allergens: product.allergens,
-      nutrition: product.nutrition,
+      allergens: allergens.length > 0 ? allergens : null,
+      nutrition: nutrition ? computeNutritionTotals(nutrition) : null,
       price: price?.price ?? null,
       currency: price?.currency ?? 'TRY',
+      ...(translations ? { translations } : {}),
+      ...(priceWindows.length > 0 ? { price_rules: priceWindows } : {}),
+      ...(variants ? { variants } : {}),
+      ...(modifierGroups ? { modifier_groups: modifierGroups } : {}),
+      ...(recommendations ? { recommendations } : {}),
+      ...(badges ? { badges } : {}),
     }
   })
 
@@ -231,6 +845,7 @@ async function collectMenuData(
       logo_url: organization.logo_url,
       cover_url: organization.cover_url,
       settings: organization.settings,
+      ...(theme ? { theme } : {}),
     },
     categories: (categories || []).map((cat) => ({
       id: cat.id,
@@ -238,8 +853,16 @@ async function collectMenuData(
       slug: cat.slug,
       parent_id: cat.parent_id,
       sort_order: cat.sort_order,
+      ...(categoryTranslations.has(cat.id)
+        ? { translations: categoryTranslations.get(cat.id) }
+        : {}),
     })),
     products: productsWithPrices,
+    ...(bundles.length > 0 ? { bundles } : {}),
+    locales: {
+      default: DEFAULT_LOCALE,
+      available: [DEFAULT_LOCALE, ...publishedLocales.filter((l) => l !== DEFAULT_LOCALE)],
+    },
     metadata: {
       generated_at: new Date().toISOString(),
       product_count: productsWithPrices.length,
@@ -248,14 +871,115 @@ async function collectMenuData(
   }
 }
 
+/**
+ * Chain menu data to the latest version of an organization.
+ *
+ * Reads the latest version and hash and returns the columns of the next
+ * snapshot (without organization_id).
+ */
+async function chainToLatestSnapshot(
+  supabase: SupabaseClient,
+  organizationId: string,
+  menuData: MenuSnapshotData
+): Promise<{
+  snapshot_data: Json
+  hash: string
+  previous_hash: string
+  hash_algorithm: SnapshotHashAlgorithm
+  version: number
+}> {
+  // Get next version number and the hash to chain to
+  const { data: latestSnapshot } = await supabase
+    .from('menu_snapshots')
+    .select('version, hash')
+    .eq('organization_id', organizationId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const previousHash: string = latestSnapshot?.hash ?? SNAPSHOT_GENESIS_HASH
+
+  return {
+    snapshot_data: menuData as unknown as Json,
+    // Generate SHA-256 hash for integrity verification
+    hash: await computeSnapshotHash(menuData, previousHash),
+    previous_hash: previousHash,
+    hash_algorithm: SNAPSHOT_HASH_ALGORITHM,
+    version: (latestSnapshot?.version ?? 0) + 1,
+  }
+}
+
+/**
+ * Store menu data as the next snapshot version.
+ *
+ * Records the published happy hour prices, chains the hash to the latest
+ * version and inserts the snapshot. Used by publishing and price publishing
+ * (rollbacks use `rollback_menu_snapshot`). If a concurrent publish takes the
+ * version first, the head is read again and the snapshot is chained to the
+ * new version.
+ */
+async function insertMenuSnapshot(
+  organizationId: string,
+  menuData: MenuSnapshotData,
+  client?: SupabaseClient
+): Promise<SnapshotOperationResult> {
+  // Record published happy hour prices in the immutable companion ledger
+  const discountResult = await recordDiscountedPrices(organizationId, menuData.products, client)
+
+  if (!discountResult.success) {
+    return {
+      success: false,
+      error: discountResult.error,
+    }
+  }
+
+  const supabase = client ?? (await createServerSupabaseClient())
+
+  for (let attempt = 1; ; attempt++) {
+    const link = await chainToLatestSnapshot(supabase, organizationId, menuData)
+
+    // Insert new snapshot
+    const { data, error } = await supabase
+      .from('menu_snapshots')
+      .insert({
+        organization_id: organizationId,
+        ...link,
+      })
+      .select()
+      .single()
+
+    // Another publish took this version (028 unique index): chain to it instead
+    if (error?.code === '23505' && attempt < SNAPSHOT_INSERT_ATTEMPTS) {
+      continue
+    }
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message || 'Snapshot olu\u015fturulamad\u0131',
+      }
+    }
+
+    return {
+      success: true,
+      data: data as MenuSnapshot,
+    }
+  }
+}
+
 /**
  * Create a new menu snapshot with SHA-256 hash.
  *
  * This is the primary function for creating compliance snapshots.
- * It collects all menu data, generates a cryptographic hash, and
- * stores an immutable record for regulatory auditing.
+ * It collects all menu data, generates a cryptographic hash chained to the
+ * previous version's hash, and stores an immutable record for regulatory
+ * auditing.
  *
  * @param organizationId - The UUID of the organization
+ * @param client - Supabase client to use (default: the user's session client;
+ *   scheduled publishing passes the service role client)
+ * @param expectedDraftHash - Draft hash the menu must still have (approved
+ *   publish requests); nothing is published if the menu changed since
  * @returns Promise<SnapshotOperationResult> - Result with created snapshot or error
  *
  * @example
@@ -269,7 +993,9 @@ async function collectMenuData(
  * ```
  */
 export async function createMenuSnapshot(
-  organizationId: string
+  organizationId: string,
+  client?: SupabaseClient,
+  expectedDraftHash?: string
 ): Promise<SnapshotOperationResult> {
   if (!organizationId) {
     return {
@@ -279,7 +1005,7 @@ export async function createMenuSnapshot(
   }
 
   // Collect all menu data
-  const menuData = await collectMenuData(organizationId)
+  const menuData = await collectMenuData(organizationId, client)
 
   if (!menuData) {
     return {
@@ -288,44 +1014,534 @@ export async function createMenuSnapshot(
     }
   }
 
-  // Generate SHA-256 hash for integrity verification
-  const hash = await generateSHA256Hash(menuData)
-
-  const supabase = await createServerSupabaseClient()
-
-  // Get next version number
-  const { data: latestSnapshot } = await supabase
-    .from('menu_snapshots')
-    .select('version')
-    .eq('organization_id', organizationId)
-    .order('version', { ascending: false })
-    .limit(1)
-    .maybeSingle()
-
-  const nextVersion = (latestSnapshot?.version ?? 0) + 1
-
-  // Insert new snapshot
-  const { data, error } = await supabase
-    .from('menu_snapshots')
-    .insert({
-      organization_id: organizationId,
-      snapshot_data: menuData as unknown as Json,
-      hash: hash,
-      version: nextVersion,
-    })
-    .select()
-    .single()
-
-  if (error) {
+  if (expectedDraftHash && (await computeDraftHash(menuData)) !== expectedDraftHash) {
     return {
       success: false,
-      error: error.message || 'Snapshot olu\u015fturulamad\u0131',
+      error: 'Men\u00fc onaydan sonra de\u011fi\u015fti',
     }
   }
 
-  return {
+  return insertMenuSnapshot(organizationId, menuData, client)
+}
+
+/**
+ * Publish the prices in effect on top of the latest published snapshot.
+ *
+ * Every price change goes live this way without a publish request, the rest
+ * of the draft does not. The new version copies the published menu and only
+ * replaces product and variant prices (price_ledger), add-on option prices
+ * (modifier_price_ledger) and bundle prices (bundle_price_ledger) with the
+ * current ones and rebuilds the happy hour windows from the active rules.
+ * Products, options, bundles, texts and categories that were edited but not
+ * approved stay unpublished.
+ *
+ * Runs with the service role client: managers change prices, but only
+ * owners and admins can insert snapshots. Nothing is published while the
+ * organization has no published menu (the first publish goes through
+ * approval) or when no published price changed, e.g. the first price of a
+ * product that is not published yet.
+ *
+ * @param organizationId - The UUID of the organization
+ * @returns Promise<SnapshotOperationResult> - Result with the created snapshot
+ *   (no data when nothing was published)
+ *
+ * @example
+ * ```typescript
+ * const result = await publishPriceChanges(organizationId)
+ * if (result.success && result.data) {
+ *   revalidatePath(`/menu/${slug}`)
+ * }
+ * ```
+ */
+export async function publishPriceChanges(
+  organizationId: string
+): Promise<SnapshotOperationResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Fiyat yay\u0131n\u0131 i\u00e7in sunucu yap\u0131land\u0131rmas\u0131 eksik',
+    }
+  }
+
+  const { data: latest, error: latestError } = await admin
+    .from('menu_snapshots')
+    .select('snapshot_data')
+    .eq('organization_id', organizationId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latestError) {
+    return {
+      success: false,
+      error: latestError.message || 'Snapshot al\u0131namad\u0131',
+    }
+  }
+
+  if (!latest) {
+    return { success: true }
+  }
+
+  const published = latest.snapshot_data as unknown as MenuSnapshotData
+  const productIds = published.products.map((p) => p.id)
+  const variantIds = published.products.flatMap((p) => (p.variants || []).map((v) => v.id))
+  const optionIds = published.products.flatMap((p) =>
+    (p.modifier_groups || []).flatMap((group) => group.options.map((option) => option.id))
+  )
+  const bundleIds = (published.bundles || []).map((bundle) => bundle.id)
+
+  const [prices, variantPrices, modifierPrices, bundlePrices, rules] = await Promise.all([
+    admin.from('current_prices').select('product_id, price, currency').in('product_id', productIds),
+    admin
+      .from('current_variant_prices')
+      .select('variant_id, price, currency')
+      .in('variant_id', variantIds),
+    admin
+      .from('current_modifier_prices')
+      .select('option_id, price, currency')
+      .in('option_id', optionIds),
+    admin
+      .from('current_bundle_prices')
+      .select('bundle_id, price, currency')
+      .in('bundle_id', bundleIds),
+    admin
+      .from('price_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true),
+  ])
+
+  if (prices.error || variantPrices.error || modifierPrices.error || bundlePrices.error || rules.error) {
+    return {
+      success: false,
+      error: 'G\u00fcncel fiyatlar al\u0131namad\u0131',
+    }
+  }
+
+  const priceMap = new Map(
+    (prices.data || []).map((p) => [p.product_id, p as CurrentPrice])
+  )
+  const variantPriceMap = new Map(
+    (variantPrices.data || []).map((p) => [p.variant_id, p as CurrentVariantPrice])
+  )
+  const modifierPriceMap = new Map<string, { price: number; currency: string }>(
+    (modifierPrices.data || []).map((p) => [p.option_id, { price: Number(p.price), currency: p.currency }])
+  )
+  const bundlePriceMap = new Map<string, { price: number; currency: string }>(
+    (bundlePrices.data || []).map((p) => [p.bundle_id, { price: Number(p.price), currency: p.currency }])
+  )
+
+  let priceRules: PriceRule[] = (rules.data || []) as PriceRule[]
+  if (priceRules.length > 0 && !(await hasPermission(organizationId, 'module_happy_hour', admin))) {
+    priceRules = []
+  }
+
+  const products = published.products.map(({ price_rules: _priceRules, ...product }) => {
+    const current = priceMap.get(product.id)
+    const price = current ? current.price : product.price
+    const priceWindows = buildPriceWindows(
+      { id: product.id, category_id: product.category_id, price },
+      priceRules
+    )
+
+    return {
+      ...product,
+      price,
+      currency: current?.currency ?? product.currency,
+      ...(priceWindows.length > 0 ? { price_rules: priceWindows } : {}),
+      ...(product.variants
+        ? {
+            variants: product.variants.map((variant) => {
+              const variantPrice = variantPriceMap.get(variant.id)
+              return variantPrice
+                ? { ...variant, price: variantPrice.price, currency: variantPrice.currency }
+                : variant
+            }),
+          }
+        : {}),
+      ...(product.modifier_groups
+        ? {
+            modifier_groups: product.modifier_groups.map((group) => ({
+              ...group,
+              options: group.options.map((option) => ({
+                ...option,
+                ...modifierPriceMap.get(option.id),
+              })),
+            })),
+          }
+        : {}),
+    }
+  })
+
+  const bundles = published.bundles?.map((bundle) => ({
+    ...bundle,
+    ...bundlePriceMap.get(bundle.id),
+  }))
+
+  if (
+    canonicalJSON({ products, bundles }) ===
+    canonicalJSON({ products: published.products, bundles: published.bundles })
+  ) {
+    return { success: true }
+  }
+
+  return insertMenuSnapshot(
+    organizationId,
+    {
+      ...published,
+      products,
+      ...(bundles ? { bundles } : {}),
+      metadata: { ...published.metadata, generated_at: new Date().toISOString() },
+    },
+    admin
+  )
+}
+
+/**
+ * Prices a rollback records so the ledgers match the republished menu
+ */
+interface RollbackPrices {
+  prices: Array<{
+    product_id: string
+    variant_id: string | null
+    price: number
+    currency: string
+    old_data: Json | null
+  }>
+  discounted_prices: Array<Record<string, unknown>>
+  modifier_prices: Array<{ option_id: string; price: number; currency: string; old_data: Json | null }>
+  bundle_prices: Array<{ bundle_id: string; price: number; currency: string; old_data: Json | null }>
+}
+
+/**
+ * Find the prices of menu data that differ from the current ones in
+ * price_ledger, discounted_price_ledger, modifier_price_ledger and
+ * bundle_price_ledger. Products, variants, options and bundles that no longer
+ * exist are skipped.
+ */
+async function collectRollbackPrices(
+  organizationId: string,
+  menuData: MenuSnapshotData,
+  supabase: SupabaseClient
+): Promise<{ success: boolean; data?: RollbackPrices; error?: string }> {
+  const options = new Map(
+    menuData.products.flatMap((product) =>
+      (product.modifier_groups || []).flatMap((group) =>
+        group.options.map((option) => [option.id, option] as const)
+      )
+    )
+  )
+  const bundles = menuData.bundles || []
+  const optionIds = [...options.keys()]
+  const bundleIds = bundles.map((bundle) => bundle.id)
+
+  const [priceChanges, discounted, ownedOptions, ownedBundles, modifierPrices, bundlePrices] =
+    await Promise.all([
+      getRestoredPriceChanges(
+        organizationId,
+        menuData.products.flatMap((product) => [
+          ...(product.price !== null
+            ? [{ productId: product.id, price: product.price, currency: product.currency }]
+            : []),
+          ...(product.variants || []).map((variant) => ({
+            productId: product.id,
+            variantId: variant.id,
+            price: variant.price,
+            currency: variant.currency,
+          })),
+        ])
+      ),
+      getDiscountedPriceEntries(organizationId, menuData.products, supabase),
+      supabase
+        .from('modifier_options')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .in('id', optionIds),
+      supabase
+        .from('bundles')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .in('id', bundleIds),
+      supabase
+        .from('current_modifier_prices')
+        .select('option_id, price, currency')
+        .in('option_id', optionIds),
+      supabase
+        .from('current_bundle_prices')
+        .select('bundle_id, price, currency')
+        .in('bundle_id', bundleIds),
+    ])
+
+  if (!discounted.success || !discounted.data) {
+    return {
+      success: false,
+      error: discounted.error,
+    }
+  }
+
+  if (ownedOptions.error || ownedBundles.error || modifierPrices.error || bundlePrices.error) {
+    return {
+      success: false,
+      error: 'G\u00fcncel fiyatlar al\u0131namad\u0131',
+    }
+  }
+
+  const existingOptions = new Set((ownedOptions.data || []).map((option) => option.id))
+  const existingBundles = new Set((ownedBundles.data || []).map((bundle) => bundle.id))
+  const currentModifierPrices = new Map<string, { price: number; currency: string }>(
+    (modifierPrices.data || []).map((p) => [p.option_id, { price: Number(p.price), currency: p.currency }])
+  )
+  const currentBundlePrices = new Map<string, { price: number; currency: string }>(
+    (bundlePrices.data || []).map((p) => [p.bundle_id, { price: Number(p.price), currency: p.currency }])
+  )
+
+  const differs = (
+    restored: { price: number; currency: string },
+    current?: { price: number; currency: string }
+  ) => !current || current.price !== restored.price || current.currency !== restored.currency
+
+  return {
     success: true,
-    data: data as MenuSnapshot,
+    data: {
+      prices: priceChanges.map(({ restored, current }) => ({
+        product_id: restored.productId,
+        variant_id: restored.variantId ?? null,
+        price: restored.price,
+        currency: restored.currency,
+        old_data: current ? { price: current.price, currency: current.currency } : null,
+      })),
+      discounted_prices: discounted.data.map(
+        ({ organization_id: _organizationId, changed_by: _changedBy, ...entry }) => entry
+      ),
+      modifier_prices: [...options.values()]
+        .filter(
+          (option) =>
+            existingOptions.has(option.id) && differs(option, currentModifierPrices.get(option.id))
+        )
+        .map((option) => ({
+          option_id: option.id,
+          price: option.price,
+          currency: option.currency,
+          old_data: currentModifierPrices.get(option.id) ?? null,
+        })),
+      bundle_prices: bundles
+        .filter(
+          (bundle) =>
+            existingBundles.has(bundle.id) && differs(bundle, currentBundlePrices.get(bundle.id))
+        )
+        .map((bundle) => ({
+          bundle_id: bundle.id,
+          price: bundle.price,
+          currency: bundle.currency,
+          old_data: currentBundlePrices.get(bundle.id) ?? null,
+        })),
+    },
+  }
+}
+
+/**
+ * Republish an older snapshot version.
+ *
+ * Creates a new version whose snapshot_data equals the chosen version;
+ * existing snapshots are never modified. The new version is chained like
+ * any publish, so the history shows the bad publish and the rollback.
+ *
+ * Prices of the version that differ from the current ones are recorded again
+ * in price_ledger, discounted_price_ledger, modifier_price_ledger and
+ * bundle_price_ledger with the reason "rollback to vN", so the menu keeps
+ * matching the ledgers. The entries, the snapshot, a `price_change` audit
+ * log per restored price and a `publish` audit log with a rollback note are
+ * written in one transaction by the `rollback_menu_snapshot` database
+ * function: either all of them are stored or none. Restored prices do not
+ * count against the `limit_price_revisions` quota. Other product data is not
+ * changed: the next regular publish publishes it again.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param version - The version to republish
+ * @param userId - The UUID of the user rolling back (audit trail)
+ * @param reason - Optional reason recorded in the audit log
+ * @returns Promise<SnapshotOperationResult> - Result with the new snapshot or error
+ *
+ * @example
+ * ```typescript
+ * const result = await rollbackMenuSnapshot(organizationId, 7, user.id, 'Yanlis fiyatlar')
+ * if (result.success && result.data) {
+ *   revalidatePath(`/menu/${slug}`)
+ * }
+ * ```
+ */
+export async function rollbackMenuSnapshot(
+  organizationId: string,
+  version: number,
+  userId: string,
+  reason?: string | null
+): Promise<SnapshotOperationResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  // The ledgers and the audit trail are written with the service role
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      error: 'Geri alma kayd\u0131 i\u00e7in sunucu yap\u0131land\u0131rmas\u0131 eksik',
+    }
+  }
+
+  const target = await getSnapshotByVersion(organizationId, version)
+
+  if (!target.success || !target.data) {
+    return {
+      success: false,
+      error: target.error || 'Snapshot bulunamad\u0131',
+    }
+  }
+
+  const current = await getCurrentMenuSnapshot(organizationId)
+
+  if (
+    current.data &&
+    (await generateSHA256Hash(current.data.snapshot_data)) ===
+      (await generateSHA256Hash(target.data.snapshot_data))
+  ) {
+    return {
+      success: false,
+      error: 'Bu s\u00fcr\u00fcm\u00fcn i\u00e7eri\u011fi zaten yay\u0131nda',
+    }
+  }
+
+  const menuData = target.data.snapshot_data as unknown as MenuSnapshotData
+  const supabase = await createServerSupabaseClient()
+
+  for (let attempt = 1; ; attempt++) {
+    // Read again on every attempt: a concurrent publish may have changed prices
+    const prices = await collectRollbackPrices(organizationId, menuData, supabase)
+
+    if (!prices.success || !prices.data) {
+      return {
+        success: false,
+        error: prices.error,
+      }
+    }
+
+    const link = await chainToLatestSnapshot(supabase, organizationId, menuData)
+
+    const { data, error } = await admin.rpc('rollback_menu_snapshot', {
+      p_organization_id: organizationId,
+      p_user_id: userId,
+      p_change_reason: `rollback to v${version}`,
+      p_snapshot: link,
+      p_prices: prices.data.prices,
+      p_discounted_prices: prices.data.discounted_prices,
+      p_modifier_prices: prices.data.modifier_prices,
+      p_bundle_prices: prices.data.bundle_prices,
+      p_audit: {
+        old_data:
+          link.version > 1 ? { version: link.version - 1, hash: link.previous_hash } : null,
+        metadata: {
+          trigger: 'rollback',
+          rolled_back_to: version,
+          note: `v${version} s\u00fcr\u00fcm\u00fcne geri al\u0131nd\u0131`,
+          reason: reason?.trim() || null,
+          restored_prices:
+            prices.data.prices.length +
+            prices.data.modifier_prices.length +
+            prices.data.bundle_prices.length,
+        },
+      },
+    })
+
+    // Another publish took this version (028 unique index): nothing was stored
+    if (error?.code === '23505' && attempt < SNAPSHOT_INSERT_ATTEMPTS) {
+      continue
+    }
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: `Men\u00fc geri al\u0131namad\u0131: ${error?.message ?? 'Bilinmeyen hata'}`,
+      }
+    }
+
+    return {
+      success: true,
+      data: data as MenuSnapshot,
+    }
+  }
+}
+
+/**
+ * Compute the hash of unpublished menu data.
+ *
+ * Leaves out `metadata.generated_at`, so the same menu collected twice has
+ * the same hash. Used to make sure an approved publish request publishes
+ * the draft that was reviewed.
+ *
+ * @param menuData - Menu data from collectMenuData
+ * @returns Promise<string> - Hex-encoded SHA-256 hash
+ */
+export async function computeDraftHash(menuData: MenuSnapshotData): Promise<string> {
+  const { generated_at: _generatedAt, ...metadata } = menuData.metadata
+  return generateSHA256Hash({ ...menuData, metadata })
+}
+
+/**
+ * Get the menu as it would be published now, without creating a snapshot.
+ *
+ * Used by the draft preview and publish requests.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param client - Supabase client to read with (default: the session client)
+ * @returns Promise<DraftMenuResult> - Draft menu data with its hash or error
+ *
+ * @example
+ * ```typescript
+ * const draft = await getDraftMenuData(organizationId)
+ * if (draft.data) {
+ *   console.log(draft.data.menuData.metadata.product_count, draft.data.hash)
+ * }
+ * ```
+ */
+export async function getDraftMenuData(
+  organizationId: string,
+  client?: SupabaseClient
+): Promise<DraftMenuResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  const menuData = await collectMenuData(organizationId, client)
+
+  if (!menuData) {
+    return {
+      success: false,
+      error: 'Men\u00fc verileri toplanamad\u0131',
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      menuData,
+      hash: await computeDraftHash(menuData),
+    },
   }
 }
 
@@ -428,8 +1644,9 @@ export async function getSnapshotById(
 /**
  * Verify the integrity of a menu snapshot using SHA-256 hash.
  *
- * Re-computes the hash from the stored snapshot data and compares
- * it with the stored hash to verify data integrity.
+ * Re-computes the hash from the stored snapshot data with the algorithm
+ * the snapshot was hashed with and compares it with the stored hash to
+ * verify data integrity.
  *
  * @param snapshotId - The UUID of the snapshot to verify
  * @returns Promise<SnapshotVerificationResult> - Verification result
@@ -467,15 +1684,157 @@ export async function verifySnapshotHash(
 
   const snapshot = snapshotResult.data
   const storedHash = snapshot.hash
+  const algorithm = snapshot.hash_algorithm ?? LEGACY_SNAPSHOT_HASH_ALGORITHM
 
-  // Re-compute hash from stored data
-  const computedHash = await generateSHA256Hash(snapshot.snapshot_data)
+  // Re-compute hash from stored data (and the stored link for chained snapshots)
+  const computedHash = await computeSnapshotHash(
+    snapshot.snapshot_data,
+    snapshot.previous_hash ?? null,
+    algorithm
+  )
 
   return {
     success: true,
     isValid: storedHash === computedHash,
     storedHash,
     computedHash,
+    algorithm,
+  }
+}
+
+/**
+ * Find the first broken link in a run of snapshot versions.
+ *
+ * Snapshots must be ordered by version. `previous` is the version right
+ * before the run (null when the run starts at version 1), so a long history
+ * can be checked page by page. Versions must follow each other without gaps,
+ * chained snapshots must point to the hash of the version before them and
+ * every hash must match its content. Legacy snapshots (published before hash
+ * chaining) may only appear before the first chained one.
+ *
+ * @param snapshots - Snapshots ordered by version
+ * @param previous - The snapshot before the first one (null at version 1)
+ * @returns Promise<SnapshotChainBreak | null> - First broken link or null if intact
+ */
+export async function findSnapshotChainBreak(
+  snapshots: MenuSnapshot[],
+  previous: MenuSnapshot | null = null
+): Promise<SnapshotChainBreak | null> {
+  let before = previous
+
+  for (const snapshot of snapshots) {
+    const brokenLink = (reason: string): SnapshotChainBreak => ({
+      version: snapshot.version,
+      snapshotId: snapshot.id,
+      reason,
+    })
+    const expectedVersion = (before?.version ?? 0) + 1
+    const previousHash = snapshot.previous_hash ?? null
+
+    if (snapshot.version !== expectedVersion) {
+      return brokenLink(
+        snapshot.version < expectedVersion
+          ? `v${snapshot.version} birden fazla kez yay\u0131nlanm\u0131\u015f`
+          : `v${expectedVersion} bulunamad\u0131: s\u00fcr\u00fcm silinmi\u015f olabilir`
+      )
+    }
+
+    if (previousHash === null) {
+      if (before?.previous_hash) {
+        return brokenLink('S\u00fcr\u00fcm zincire ba\u011fl\u0131 de\u011fil')
+      }
+    } else if (previousHash !== (before?.hash ?? SNAPSHOT_GENESIS_HASH)) {
+      return brokenLink('\u00d6nceki s\u00fcr\u00fcm\u00fcn \u00f6zeti uyu\u015fmuyor: s\u00fcr\u00fcm de\u011fi\u015ftirilmi\u015f olabilir')
+    }
+
+    const algorithm = snapshot.hash_algorithm ?? LEGACY_SNAPSHOT_HASH_ALGORITHM
+
+    if (snapshot.hash !== (await computeSnapshotHash(snapshot.snapshot_data, previousHash, algorithm))) {
+      return brokenLink('S\u00fcr\u00fcm i\u00e7eri\u011fi de\u011fi\u015ftirilmi\u015f: \u00f6zet uyu\u015fmuyor')
+    }
+
+    before = snapshot
+  }
+
+  return null
+}
+
+/**
+ * Verify the whole snapshot history of an organization.
+ *
+ * Walks every version from v1 (see `findSnapshotChainBreak`) and reports the
+ * first broken link together with the chain head, which can be compared
+ * with an archived digest.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param client - Supabase client to read with (default: the session client)
+ * @returns Promise<SnapshotChainResult> - Verification outcome or error
+ *
+ * @example
+ * ```typescript
+ * const result = await verifySnapshotChain(organizationId)
+ * if (result.data && !result.data.valid) {
+ *   console.log(result.data.brokenLink) // { version: 7, snapshotId: '...', reason: '...' }
+ * }
+ * ```
+ */
+export async function verifySnapshotChain(
+  organizationId: string,
+  client?: SupabaseClient
+): Promise<SnapshotChainResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  const supabase = client ?? (await createServerSupabaseClient())
+
+  let previous: MenuSnapshot | null = null
+  let snapshotCount = 0
+  let legacyCount = 0
+  let brokenLink: SnapshotChainBreak | null = null
+
+  // Page by page, so large menus with many versions are not loaded at once
+  for (let offset = 0; !brokenLink; offset += CHAIN_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('menu_snapshots')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('version', { ascending: true })
+      .range(offset, offset + CHAIN_PAGE_SIZE - 1)
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message || 'Snapshot ge\u00e7mi\u015fi al\u0131namad\u0131',
+      }
+    }
+
+    const page = (data as MenuSnapshot[]) || []
+
+    brokenLink = await findSnapshotChainBreak(page, previous)
+    snapshotCount += page.length
+    legacyCount += page.filter((snapshot) => !snapshot.previous_hash).length
+    previous = page[page.length - 1] ?? previous
+
+    if (page.length < CHAIN_PAGE_SIZE) {
+      break
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      valid: brokenLink === null,
+      snapshotCount,
+      legacyCount,
+      head: previous
+        ? { version: previous.version, hash: previous.hash, created_at: previous.created_at }
+        : null,
+      brokenLink,
+    },
   }
 }
 
@@ -590,40 +1949,100 @@ export async function getSnapshotByVersion(
 }
 
 /**
- * Compare two snapshot versions to identify changes.
+ * Get the snapshot that was published at a given moment.
  *
- * Useful for showing what changed between menu publishes.
+ * Returns the latest version published at or before the timestamp, i.e. the
+ * menu guests saw then. Used to settle disputes about a specific day.
  *
  * @param organizationId - The UUID of the organization
- * @param versionA - First version number
- * @param versionB - Second version number
- * @returns Promise with comparison result
+ * @param at - The moment to look up
+ * @returns Promise<SnapshotOperationResult> - Result with snapshot or error
  *
  * @example
  * ```typescript
- * const diff = await compareSnapshots(orgId, 1, 2)
- * if (diff.success) {
- *   console.log(`Added products: ${diff.addedProducts.length}`)
- *   console.log(`Removed products: ${diff.removedProducts.length}`)
+ * const result = await getSnapshotAt(organizationId, new Date('2024-03-01T20:30:00+03:00'))
+ * if (result.success && result.data) {
+ *   console.log(`v${result.data.version} was live`)
  * }
  * ```
  */
-export async function compareSnapshots(
+export async function getSnapshotAt(
   organizationId: string,
-  versionA: number,
-  versionB: number
-): Promise<{
-  success: boolean
-  addedProducts: string[]
-  removedProducts: string[]
-  addedCategories: string[]
-  removedCategories: string[]
-  error?: string
-}> {
-  const [resultA, resultB] = await Promise.all([
-    getSnapshotByVersion(organizationId, versionA),
-    getSnapshotByVersion(organizationId, versionB),
-  ])
+  at: Date
+): Promise<SnapshotOperationResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  if (isNaN(at.getTime())) {
+    return {
+      success: false,
+      error: 'Ge\u00e7ersiz tarih',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: published } = await supabase
+    .from('menu_snapshots')
+    .select('version')
+    .eq('organization_id', organizationId)
+    .lte('created_at', at.toISOString())
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!published) {
+    return {
+      success: false,
+      error: 'Bu tarihte yay\u0131nda bir men\u00fc yoktu',
+    }
+  }
+
+  return getSnapshotByVersion(organizationId, published.version)
+}
+
+/**
+ * Compare two snapshot versions to identify changes.
+ *
+ * Useful for showing what changed between menu publishes. `diff` holds the
+ * field-level changes (prices, renames, descriptions, allergens, category
+ * moves); see `getMenuSnapshotDiff` to compare with the unpublished menu.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param versionA - First version number
+ * @param versionB - Second version number
+ * @returns Promise with comparison result
+ *
+ * @example
+ * ```typescript
+ * const diff = await compareSnapshots(orgId, 1, 2)
+ * if (diff.success) {
+ *   console.log(`Added products: ${diff.addedProducts.length}`)
+ *   console.log(`Removed products: ${diff.removedProducts.length}`)
+ * }
+ * ```
+ */
+export async function compareSnapshots(
+  organizationId: string,
+  versionA: number,
+  versionB: number
+): Promise<{
+  success: boolean
+  addedProducts: string[]
+  removedProducts: string[]
+  addedCategories: string[]
+  removedCategories: string[]
+  diff?: MenuSnapshotDiff
+  error?: string
+}> {
+  const [resultA, resultB] = await Promise.all([
+    getSnapshotByVersion(organizationId, versionA),
+    getSnapshotByVersion(organizationId, versionB),
+  ])
 
   if (!resultA.success || !resultA.data || !resultB.success || !resultB.data) {
     return {
@@ -650,6 +2069,111 @@ export async function compareSnapshots(
     removedProducts: [...productIdsA].filter((id) => !productIdsB.has(id)),
     addedCategories: [...categoryIdsB].filter((id) => !categoryIdsA.has(id)),
     removedCategories: [...categoryIdsA].filter((id) => !categoryIdsB.has(id)),
+    diff: diffMenuSnapshots(dataA, dataB),
+  }
+}
+
+/**
+ * Load one side of a snapshot diff
+ *
+ * @param organizationId - The UUID of the organization
+ * @param target - Version number, 'latest' or 'draft'
+ * @returns Menu data with its version info (data null = no snapshot yet), or an error
+ */
+async function loadDiffTarget(
+  organizationId: string,
+  target: SnapshotDiffTarget
+): Promise<{
+  data?: MenuSnapshotData | null
+  version: number | null
+  hash: string | null
+  created_at: string | null
+  error?: string
+}> {
+  if (target === 'draft') {
+    const menuData = await collectMenuData(organizationId)
+
+    return menuData
+      ? { data: menuData, version: null, hash: null, created_at: null }
+      : { version: null, hash: null, created_at: null, error: 'Men\u00fc verileri toplanamad\u0131' }
+  }
+
+  const result = target === 'latest'
+    ? await getCurrentMenuSnapshot(organizationId)
+    : await getSnapshotByVersion(organizationId, target)
+
+  // No published version yet: compare against an empty menu
+  if (target === 'latest' && result.success && !result.data) {
+    return { data: null, version: null, hash: null, created_at: null }
+  }
+
+  if (!result.success || !result.data) {
+    return {
+      version: null,
+      hash: null,
+      created_at: null,
+      error: result.error || 'Snapshot bulunamad\u0131',
+    }
+  }
+
+  return {
+    data: result.data.snapshot_data as unknown as MenuSnapshotData,
+    version: result.data.version,
+    hash: result.data.hash,
+    created_at: result.data.created_at,
+  }
+}
+
+/**
+ * Compare two menu states field by field.
+ *
+ * Each side is a version number, the latest published version ('latest') or
+ * the unpublished menu as it would be published now ('draft'), so
+ * `getMenuSnapshotDiff(orgId, 'latest', 'draft')` lists the changes the next
+ * publish will make.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param from - Older menu state
+ * @param to - Newer menu state
+ * @returns Promise<SnapshotDiffResult> - Field-level diff or error
+ *
+ * @example
+ * ```typescript
+ * const result = await getMenuSnapshotDiff(orgId, 3, 5)
+ * result.data?.diff.products.forEach((change) => console.log(change.name, change.prices))
+ * ```
+ */
+export async function getMenuSnapshotDiff(
+  organizationId: string,
+  from: SnapshotDiffTarget,
+  to: SnapshotDiffTarget
+): Promise<SnapshotDiffResult> {
+  if (!organizationId) {
+    return {
+      success: false,
+      error: 'Organizasyon ID gereklidir',
+    }
+  }
+
+  const [before, after] = await Promise.all([
+    loadDiffTarget(organizationId, from),
+    loadDiffTarget(organizationId, to),
+  ])
+
+  if (before.error || after.error) {
+    return {
+      success: false,
+      error: before.error || after.error,
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      from: { version: before.version, hash: before.hash, created_at: before.created_at },
+      to: { version: after.version, hash: after.hash, created_at: after.created_at },
+      diff: diffMenuSnapshots(before.data ?? null, after.data ?? null),
+    },
   }
 }
 
@@ -675,6 +2199,7 @@ export async function exportSnapshotForCompliance(snapshotId: string): Promise<{
     menuData: MenuSnapshotData
     verification: {
       hash: string
+      algorithm: SnapshotHashAlgorithm
       verified: boolean
       verified_at: string
     }
@@ -699,6 +2224,7 @@ export async function exportSnapshotForCompliance(snapshotId: string): Promise<{
       menuData: snapshotResult.data.snapshot_data as unknown as MenuSnapshotData,
       verification: {
         hash: snapshotResult.data.hash,
+        algorithm: snapshotResult.data.hash_algorithm ?? LEGACY_SNAPSHOT_HASH_ALGORITHM,
         verified: verificationResult.isValid,
         verified_at: new Date().toISOString(),
       },
@@ -751,3 +2277,407 @@ export async function getCurrentMenuSnapshotBySlug(
 
   return getCurrentMenuSnapshot(organization.id)
 }
+
+/**
+ * Read the hashed fields of an exported snapshot.
+ *
+ * Accepts the compliance export (`{ snapshot, menuData, verification }`)
+ * and a bare snapshot row.
+ */
+function readExportedSnapshot(value: unknown): Pick<
+  MenuSnapshot,
+  'snapshot_data' | 'hash' | 'previous_hash' | 'hash_algorithm'
+> | null {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const record = value as Record<string, unknown>
+  const row = (
+    record.snapshot && typeof record.snapshot === 'object' ? record.snapshot : record
+  ) as Record<string, unknown>
+
+  if (typeof row.hash !== 'string' || !row.snapshot_data || typeof row.snapshot_data !== 'object') {
+    return null
+  }
+
+  const algorithm =
+    row.hash_algorithm === SNAPSHOT_HASH_ALGORITHM ? SNAPSHOT_HASH_ALGORITHM : LEGACY_SNAPSHOT_HASH_ALGORITHM
+
+  return {
+    snapshot_data: row.snapshot_data as Json,
+    hash: row.hash,
+    previous_hash: typeof row.previous_hash === 'string' ? row.previous_hash : null,
+    hash_algorithm: algorithm,
+  }
+}
+
+/**
+ * Check a hash or an exported snapshot against the published snapshots of
+ * a menu.
+ *
+ * Public counterpart of verifySnapshotHash for guests and inspectors: no
+ * membership is needed and only version, publish time and hash results
+ * are returned. An uploaded export is re-hashed first, so edited files are
+ * reported even when their hash exists.
+ *
+ * @param slug - The organization slug
+ * @param input - A hash to look up, or an exported snapshot JSON
+ * @returns Promise<PublicSnapshotVerificationResult> - Match details or error
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyPublishedSnapshot('my-restaurant', { hash })
+ * if (result.data?.found) {
+ *   console.log(`v${result.data.version}, ${result.data.publishedAt}`)
+ * }
+ * ```
+ */
+export async function verifyPublishedSnapshot(
+  slug: string,
+  input: PublicSnapshotVerificationInput
+): Promise<PublicSnapshotVerificationResult> {
+  let hash: string
+  let contentMatches: boolean | null = null
+
+  if (input.snapshot !== undefined) {
+    const exported = readExportedSnapshot(input.snapshot)
+
+    if (!exported) {
+      return {
+        success: false,
+        error: 'Ge\u00e7ersiz snapshot dosyas\u0131',
+      }
+    }
+
+    hash = exported.hash.toLowerCase()
+    contentMatches =
+      (await computeSnapshotHash(
+        exported.snapshot_data,
+        exported.previous_hash ?? null,
+        exported.hash_algorithm
+      )) === hash
+  } else {
+    hash = (input.hash ?? '').trim().toLowerCase()
+  }
+
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    return {
+      success: false,
+      error: 'Ge\u00e7ersiz hash (64 karakterlik SHA-256 bekleniyor)',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('slug', slug)
+    .eq('is_active', true)
+    .single()
+
+  if (!organization) {
+    return {
+      success: false,
+      error: 'Restoran bulunamad\u0131',
+    }
+  }
+
+  const { data: match } = await supabase
+    .from('menu_snapshots')
+    .select('*')
+    .eq('organization_id', organization.id)
+    .eq('hash', hash)
+    .maybeSingle()
+
+  if (!match) {
+    return {
+      success: true,
+      data: {
+        hash,
+        found: false,
+        contentMatches,
+        version: null,
+        publishedAt: null,
+        isCurrent: false,
+        storedValid: null,
+      },
+    }
+  }
+
+  const snapshot = match as MenuSnapshot
+
+  const { data: latest } = await supabase
+    .from('menu_snapshots')
+    .select('version')
+    .eq('organization_id', organization.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const storedHash = await computeSnapshotHash(
+    snapshot.snapshot_data,
+    snapshot.previous_hash ?? null,
+    snapshot.hash_algorithm ?? LEGACY_SNAPSHOT_HASH_ALGORITHM
+  )
+
+  return {
+    success: true,
+    data: {
+      hash,
+      found: true,
+      contentMatches,
+      version: snapshot.version,
+      publishedAt: snapshot.created_at,
+      isCurrent: latest?.version === snapshot.version,
+      storedValid: storedHash === snapshot.hash,
+    },
+  }
+}
+
+/**
+ * Result of one scheduled publication
+ */
+export interface ScheduledPublication {
+  organizationId: string
+  /** Organization slug for revalidating the public menu */
+  slug: string | null
+  /** Created snapshot version */
+  version?: number
+  error?: string
+}
+
+/**
+ * Publish new snapshots for organizations whose scheduled price changes have
+ * taken effect.
+ *
+ * Called by the scheduled publish job, which has no user session, so all
+ * reads and writes use the service role client. Each due organization gets
+ * one snapshot with the new prices on top of its published menu (see
+ * publishPriceChanges; unapproved draft edits are not published) and a
+ * system `publish` audit log. Organizations without a published menu are
+ * skipped.
+ *
+ * @returns Promise<{ success: boolean; data: ScheduledPublication[]; error?: string }>
+ *
+ * @example
+ * ```typescript
+ * const result = await publishScheduledPriceChanges()
+ * result.data.forEach((p) => p.slug && revalidatePath(`/menu/${p.slug}`))
+ * ```
+ */
+export async function publishScheduledPriceChanges(): Promise<{
+  success: boolean
+  data: ScheduledPublication[]
+  error?: string
+}> {
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      data: [],
+      error: 'Planl\u0131 yay\u0131n i\u00e7in sunucu yap\u0131land\u0131rmas\u0131 eksik',
+    }
+  }
+
+  const { data: due, error } = await admin
+    .from('due_price_publications')
+    .select('organization_id, effective_from, change_count')
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: error.message || 'Planl\u0131 fiyatlar al\u0131namad\u0131',
+    }
+  }
+
+  const publications: ScheduledPublication[] = []
+
+  for (const row of due || []) {
+    const snapshotResult = await publishPriceChanges(row.organization_id)
+
+    if (!snapshotResult.success) {
+      publications.push({
+        organizationId: row.organization_id,
+        slug: null,
+        error: snapshotResult.error,
+      })
+      continue
+    }
+
+    if (!snapshotResult.data) {
+      continue
+    }
+
+    const snapshot = snapshotResult.data
+    const menuData = snapshot.snapshot_data as unknown as MenuSnapshotData
+
+    await writeAuditLog({
+      organizationId: row.organization_id,
+      userId: null,
+      action: 'publish',
+      entityType: 'menu_snapshot',
+      entityId: snapshot.id,
+      newData: { version: snapshot.version, hash: snapshot.hash },
+      metadata: {
+        trigger: 'scheduled_price_change',
+        effective_from: row.effective_from,
+        change_count: row.change_count,
+      },
+    })
+
+    publications.push({
+      organizationId: row.organization_id,
+      slug: menuData.organization?.slug ?? null,
+      version: snapshot.version,
+    })
+  }
+
+  return {
+    success: publications.every((publication) => !publication.error),
+    data: publications,
+  }
+}
+
+/**
+ * Build a digest of snapshot chain heads for archiving outside the database.
+ *
+ * Lists the latest version and hash of each organization. Once a digest is
+ * stored elsewhere (e-mail, object storage, a notary service), every version
+ * up to the archived head is fixed: changing or removing one changes the
+ * head hash.
+ *
+ * @param client - Supabase client to read with (the daily job passes the
+ *   service role client to include every organization)
+ * @param organizationId - Limit the digest to one organization
+ * @returns Promise<{ success: boolean; data?: SnapshotChainDigest; error?: string }>
+ *
+ * @example
+ * ```typescript
+ * const result = await getSnapshotChainDigest(admin)
+ * // { generated_at, heads: [{ organization_slug, version, hash, ... }], digest }
+ * ```
+ */
+export async function getSnapshotChainDigest(
+  client?: SupabaseClient,
+  organizationId?: string
+): Promise<{ success: boolean; data?: SnapshotChainDigest; error?: string }> {
+  const supabase = client ?? (await createServerSupabaseClient())
+
+  let query = supabase
+    .from('menu_snapshot_chain_heads')
+    .select('organization_id, organization_slug, snapshot_id, version, hash, created_at')
+    .order('organization_id', { ascending: true })
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return {
+      success: false,
+      error: error.message || 'Zincir \u00f6zeti al\u0131namad\u0131',
+    }
+  }
+
+  const generatedAt = new Date().toISOString()
+  const heads = (data as MenuSnapshotChainHead[]) || []
+
+  return {
+    success: true,
+    data: {
+      generated_at: generatedAt,
+      heads,
+      digest: await generateSHA256Hash({ generated_at: generatedAt, heads }),
+    },
+  }
+}
+
+/**
+ * Build the daily chain head digest of every organization and send it to
+ * the external archive.
+ *
+ * Called by the daily digest job without a user session, so it reads with
+ * the service role client. The digest is POSTed as JSON to
+ * `SNAPSHOT_DIGEST_ARCHIVE_URL` when that is configured; the job response
+ * carries the same file either way.
+ *
+ * @returns Promise with the digest and whether it reached the archive
+ *
+ * @example
+ * ```typescript
+ * const result = await archiveSnapshotChainDigest()
+ * console.log(result.data?.digest, result.archived)
+ * ```
+ */
+export async function archiveSnapshotChainDigest(): Promise<{
+  success: boolean
+  data?: SnapshotChainDigest
+  archived: boolean
+  error?: string
+}> {
+  const admin = createServiceRoleSupabaseClient()
+
+  if (!admin) {
+    return {
+      success: false,
+      archived: false,
+      error: 'Zincir \u00f6zeti i\u00e7in sunucu yap\u0131land\u0131rmas\u0131 eksik',
+    }
+  }
+
+  const digestResult = await getSnapshotChainDigest(admin)
+
+  if (!digestResult.success || !digestResult.data) {
+    return {
+      success: false,
+      archived: false,
+      error: digestResult.error,
+    }
+  }
+
+  const archiveUrl = process.env.SNAPSHOT_DIGEST_ARCHIVE_URL
+
+  if (!archiveUrl) {
+    return {
+      success: true,
+      data: digestResult.data,
+      archived: false,
+    }
+  }
+
+  try {
+    const response = await fetch(archiveUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(digestResult.data),
+    })
+
+    if (!response.ok) {
+      return {
+        success: false,
+        data: digestResult.data,
+        archived: false,
+        error: `Zincir \u00f6zeti ar\u015five g\u00f6nderilemedi (HTTP ${response.status})`,
+      }
+    }
+  } catch {
+    return {
+      success: false,
+      data: digestResult.data,
+      archived: false,
+      error: 'Zincir \u00f6zeti ar\u015five g\u00f6nderilemedi',
+    }
+  }
+
+  return {
+    success: true,
+    data: digestResult.data,
+    archived: true,
+  }
+}
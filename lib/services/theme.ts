@@ -0,0 +1,199 @@
+/**
+ * Theme Service - Public Menu Theme
+ *
+ * This module implements the module_theme feature: merchants pick colors, a
+ * font, corner radius and spacing for their public menu. The theme is stored
+ * as `organizations.settings.theme` (MenuTheme), captured in the menu
+ * snapshot on publish and applied to /menu/[slug] and /r/[slug] as CSS
+ * variables.
+ *
+ * This module has no database access and is safe to import from client
+ * components.
+ *
+ * @example
+ * const theme = parseMenuTheme(organization.settings?.theme) ?? DEFAULT_MENU_THEME
+ * const error = validateMenuTheme(theme)
+ * <main style={buildThemeVariables(theme)}>...</main>
+ */
+
+import type { CSSProperties } from 'react'
+import type { MenuTheme } from '@/types'
+
+/**
+ * Theme matching the default public menu look
+ */
+export const DEFAULT_MENU_THEME: MenuTheme = {
+  primaryColor: '#16a34a',
+  secondaryColor: '#71717a',
+  backgroundColor: '#fafafa',
+  textColor: '#18181b',
+  fontFamily: 'inter',
+  borderRadius: 8,
+  spacing: 16,
+}
+
+/**
+ * Selectable fonts (MenuTheme.fontFamily stores the key)
+ */
+export const MENU_FONTS: Array<{ key: string; label: string; css: string }> = [
+  { key: 'inter', label: 'Inter', css: 'var(--font-inter), system-ui, sans-serif' },
+  { key: 'system', label: 'Sistem', css: 'system-ui, -apple-system, "Segoe UI", sans-serif' },
+  { key: 'serif', label: 'Serif', css: 'Georgia, Cambria, "Times New Roman", serif' },
+  { key: 'rounded', label: 'Yuvarlak', css: 'ui-rounded, "Nunito", system-ui, sans-serif' },
+  { key: 'mono', label: 'Daktilo', css: 'ui-monospace, "SFMono-Regular", Menlo, monospace' },
+]
+
+/**
+ * Allowed ranges for the numeric theme values (px)
+ */
+export const THEME_LIMITS = {
+  borderRadius: { min: 0, max: 24 },
+  spacing: { min: 8, max: 32 },
+}
+
+/**
+ * Minimum contrast of body text against the page and the white product
+ * cards (WCAG AA)
+ */
+const MIN_TEXT_CONTRAST = 4.5
+
+/**
+ * Minimum contrast of white chip/button text on the primary color (WCAG AA,
+ * bold UI text)
+ */
+const MIN_PRIMARY_CONTRAST = 3
+
+const CARD_COLOR = '#ffffff'
+
+const hexColorRegex = /^#[0-9a-f]{6}$/i
+
+/**
+ * Relative luminance of a #rrggbb color (WCAG 2.x)
+ */
+function luminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  })
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * Contrast ratio between two #rrggbb colors
+ *
+ * @param a - First color
+ * @param b - Second color
+ * @returns number - Ratio between 1 and 21
+ */
+export function getContrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+/**
+ * Read the theme from `organizations.settings.theme`.
+ *
+ * Missing or malformed values fall back to the default theme; a value that
+ * is not an object at all returns null (no theme set).
+ *
+ * @param value - Raw settings.theme JSON
+ * @returns MenuTheme | null - Theme or null when none is set
+ */
+export function parseMenuTheme(value: unknown): MenuTheme | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null
+  }
+
+  const raw = value as Record<string, unknown>
+  const color = (key: keyof MenuTheme) =>
+    typeof raw[key] === 'string' && hexColorRegex.test(raw[key] as string)
+      ? (raw[key] as string).toLowerCase()
+      : (DEFAULT_MENU_THEME[key] as string)
+  const size = (key: 'borderRadius' | 'spacing') =>
+    typeof raw[key] === 'number' &&
+    Number.isInteger(raw[key]) &&
+    (raw[key] as number) >= THEME_LIMITS[key].min &&
+    (raw[key] as number) <= THEME_LIMITS[key].max
+      ? (raw[key] as number)
+      : DEFAULT_MENU_THEME[key]
+
+  return {
+    primaryColor: color('primaryColor'),
+    secondaryColor: color('secondaryColor'),
+    backgroundColor: color('backgroundColor'),
+    textColor: color('textColor'),
+    fontFamily: MENU_FONTS.some((font) => font.key === raw.fontFamily)
+      ? (raw.fontFamily as string)
+      : DEFAULT_MENU_THEME.fontFamily,
+    borderRadius: size('borderRadius'),
+    spacing: size('spacing'),
+  }
+}
+
+/**
+ * Validate a theme entered in the theme editor
+ *
+ * @param theme - Theme to validate
+ * @returns string | null - Turkish error message or null if valid
+ */
+export function validateMenuTheme(theme: MenuTheme): string | null {
+  const colors = [theme.primaryColor, theme.secondaryColor, theme.backgroundColor, theme.textColor]
+
+  if (colors.some((color) => typeof color !== 'string' || !hexColorRegex.test(color))) {
+    return 'Renkler #RRGGBB formatında olmalıdır'
+  }
+
+  if (!MENU_FONTS.some((font) => font.key === theme.fontFamily)) {
+    return 'Geçersiz yazı tipi'
+  }
+
+  for (const key of ['borderRadius', 'spacing'] as const) {
+    const { min, max } = THEME_LIMITS[key]
+    if (!Number.isInteger(theme[key]) || theme[key] < min || theme[key] > max) {
+      return key === 'borderRadius'
+        ? `Köşe yuvarlaklığı ${min}-${max} px arasında olmalıdır`
+        : `Boşluk ${min}-${max} px arasında olmalıdır`
+    }
+  }
+
+  if (
+    getContrastRatio(theme.textColor, theme.backgroundColor) < MIN_TEXT_CONTRAST ||
+    getContrastRatio(theme.textColor, CARD_COLOR) < MIN_TEXT_CONTRAST
+  ) {
+    return 'Metin rengi arka plan ve ürün kartları üzerinde okunabilir olmalıdır'
+  }
+
+  if (getContrastRatio(theme.primaryColor, CARD_COLOR) < MIN_PRIMARY_CONTRAST) {
+    return 'Ana renk üzerinde beyaz yazı okunabilir olmalıdır'
+  }
+
+  return null
+}
+
+/**
+ * Build the CSS variables of a theme for a `style` attribute
+ *
+ * @param theme - Theme to apply (default: DEFAULT_MENU_THEME)
+ * @returns CSSProperties - `--menu-*` custom properties
+ *
+ * @example
+ * ```typescript
+ * buildThemeVariables(theme)['--menu-primary'] // '#16a34a'
+ * ```
+ */
+export function buildThemeVariables(
+  theme: MenuTheme = DEFAULT_MENU_THEME
+): CSSProperties & Record<`--menu-${string}`, string> {
+  const font = MENU_FONTS.find((f) => f.key === theme.fontFamily) ?? MENU_FONTS[0]
+
+  return {
+    '--menu-primary': theme.primaryColor,
+    '--menu-secondary': theme.secondaryColor,
+    '--menu-background': theme.backgroundColor,
+    '--menu-text': theme.textColor,
+    '--menu-font': font.css,
+    '--menu-radius': `${theme.borderRadius}px`,
+    '--menu-spacing': `${theme.spacing}px`,
+  }
+}
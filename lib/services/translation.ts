@@ -0,0 +1,177 @@
+/**
+ * Translation Service - Multi-Language Menu Content
+ *
+ * This service manages the additional menu languages of an organization.
+ * Locale negotiation and snapshot localization live in `lib/i18n/locales.ts`.
+ *
+ * The base language (Turkish) lives directly in `products.name` and
+ * `categories.name`. Every additional language is a row in
+ * `organization_languages` and counts against the plan's `limit_languages`
+ * value together with the base language.
+ *
+ * Database Tables:
+ * - `organization_languages`: Enabled menu languages per organization
+ * - `product_translations`: Localized product name/description
+ * - `category_translations`: Localized category names
+ *
+ * @example
+ * // Enable English for an organization (checks plan limit)
+ * const result = await addOrganizationLanguage(organizationId, 'en')
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { checkLimit, LIMIT_FEATURES } from '@/lib/guards/limits'
+import { DEFAULT_LOCALE, isSupportedLocale } from '@/lib/i18n/locales'
+import type { OrganizationLanguage } from '@/types/database'
+
+/**
+ * Result type for language operations
+ */
+export interface LanguageOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved language rows */
+  data?: OrganizationLanguage | OrganizationLanguage[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Get all additional languages of an organization
+ *
+ * @param organizationId - The UUID of the organization
+ * @returns Promise<LanguageOperationResult> - Result with language rows
+ */
+export async function getOrganizationLanguages(
+  organizationId: string
+): Promise<LanguageOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('organization_languages')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('sort_order', { ascending: true })
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: `Diller alınamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as OrganizationLanguage[],
+  }
+}
+
+/**
+ * Enable an additional menu language for an organization.
+ *
+ * The plan's `limit_languages` value is enforced through checkLimit; the
+ * base language is always counted as one language.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param locale - Locale code to enable (e.g., 'en')
+ * @returns Promise<LanguageOperationResult> - Result with created row or error
+ *
+ * @example
+ * ```typescript
+ * const result = await addOrganizationLanguage(orgId, 'en')
+ * if (!result.success) {
+ *   // e.g. 'Limit aşıldı. Paketinizi yükselterek daha fazla ekleyebilirsiniz.'
+ * }
+ * ```
+ */
+export async function addOrganizationLanguage(
+  organizationId: string,
+  locale: string
+): Promise<LanguageOperationResult> {
+  if (!isSupportedLocale(locale) || locale === DEFAULT_LOCALE) {
+    return {
+      success: false,
+      error: 'Desteklenmeyen dil',
+    }
+  }
+
+  const limit = await checkLimit(
+    organizationId,
+    LIMIT_FEATURES.LANGUAGES,
+    'organization_languages'
+  )
+
+  if (!limit.canAdd) {
+    return {
+      success: false,
+      error: limit.message,
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('organization_languages')
+    .insert({
+      organization_id: organizationId,
+      locale,
+      is_published: true,
+      sort_order: limit.currentCount,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return {
+        success: false,
+        error: 'Bu dil zaten ekli',
+      }
+    }
+    return {
+      success: false,
+      error: `Dil eklenemedi: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: data as OrganizationLanguage,
+  }
+}
+
+/**
+ * Remove an additional menu language from an organization.
+ *
+ * Existing translations are kept so the language can be re-enabled later;
+ * they are simply no longer included in new snapshots.
+ *
+ * @param organizationId - The UUID of the organization
+ * @param locale - Locale code to remove
+ * @returns Promise<LanguageOperationResult> - Result of the operation
+ */
+export async function removeOrganizationLanguage(
+  organizationId: string,
+  locale: string
+): Promise<LanguageOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { error } = await supabase
+    .from('organization_languages')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('locale', locale)
+
+  if (error) {
+    return {
+      success: false,
+      error: `Dil kaldırılamadı: ${error.message}`,
+    }
+  }
+
+  return {
+    success: true,
+    data: null,
+  }
+}
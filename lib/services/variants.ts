@@ -0,0 +1,331 @@
+/**
+ * Product Variant Service - Portion/Size Variants with Ledger Prices
+ *
+ * This service manages the portion/size variants of a product (e.g.
+ * Kucuk/Orta/Buyuk, 35cl/50cl) for the module_variants feature.
+ *
+ * Variant prices are NOT stored on the variant row. Every price is an
+ * immutable `price_ledger` entry written through `addPriceEntry` with a
+ * `variant_id`, so history and compliance exports cover variants too.
+ *
+ * Database Tables:
+ * - `product_variants`: Variant names and display order (deactivated, never deleted)
+ * - `price_ledger`: Variant price history (variant_id IS NOT NULL)
+ * - `current_variant_prices`: View showing latest price per variant
+ *
+ * @example
+ * // Add a 50cl variant with its first price
+ * const result = await createProductVariant(productId, organizationId, {
+ *   name: '50cl',
+ *   price: 89.9,
+ * })
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { addPriceEntry, getCurrentVariantPrices } from '@/lib/services/price-ledger'
+import { checkPriceRevisionLimit } from '@/lib/guards/limits'
+import type { ProductVariant } from '@/types/database'
+
+/**
+ * Variant row together with its current ledger price
+ */
+export interface ProductVariantWithPrice extends ProductVariant {
+  /** Current price from current_variant_prices (null if never priced) */
+  price: number | null
+  /** Currency of the current price */
+  currency: string
+}
+
+/**
+ * Input for creating or updating a variant
+ */
+export interface ProductVariantInput {
+  name: string
+  /** New price - only written to the ledger when it differs from the current price */
+  price?: number
+  sort_order?: number
+  /** Reason recorded in price_ledger.change_reason */
+  change_reason?: string
+}
+
+/**
+ * Result type for variant operations
+ */
+export interface VariantOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean
+  /** The created/retrieved variants */
+  data?: ProductVariantWithPrice | ProductVariantWithPrice[] | null
+  /** Error message if operation failed */
+  error?: string
+}
+
+/**
+ * Validate variant input
+ *
+ * @param input - Variant input to validate
+ * @returns Turkish error message or null when valid
+ */
+export function validateVariantInput(input: ProductVariantInput): string | null {
+  if (!input.name || !input.name.trim()) {
+    return 'Varyant adı gereklidir'
+  }
+
+  if (input.price !== undefined && (isNaN(input.price) || input.price < 0)) {
+    return 'Fiyat negatif olamaz'
+  }
+
+  return null
+}
+
+/**
+ * Get all variants of a product with their current prices.
+ *
+ * @param productId - The UUID of the product
+ * @param options - Set activeOnly to skip deactivated variants
+ * @returns Promise<VariantOperationResult> - Result with variants in display order
+ *
+ * @example
+ * ```typescript
+ * const result = await getProductVariants(productId, { activeOnly: true })
+ * ```
+ */
+export async function getProductVariants(
+  productId: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<VariantOperationResult> {
+  if (!productId) {
+    return {
+      success: false,
+      data: [],
+      error: 'Ürün ID gereklidir',
+    }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  let query = supabase
+    .from('product_variants')
+    .select('*')
+    .eq('product_id', productId)
+    .order('sort_order', { ascending: true })
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return {
+      success: false,
+      data: [],
+      error: error.message || 'Varyantlar alınamadı',
+    }
+  }
+
+  const prices = await getCurrentVariantPrices([productId])
+
+  return {
+    success: true,
+    data: ((data || []) as ProductVariant[]).map((variant) => ({
+      ...variant,
+      price: prices.get(variant.id)?.price ?? null,
+      currency: prices.get(variant.id)?.currency ?? 'TRY',
+    })),
+  }
+}
+
+/**
+ * Create a variant and record its first price in the ledger.
+ *
+ * @param productId - The UUID of the product
+ * @param organizationId - The UUID of the organization owning the product
+ * @param input - Variant name, price and display order
+ * @returns Promise<VariantOperationResult> - Result with created variant or error
+ *
+ * @example
+ * ```typescript
+ * const result = await createProductVariant(productId, orgId, {
+ *   name: 'Buyuk',
+ *   price: 180,
+ *   sort_order: 2,
+ * })
+ * ```
+ */
+export async function createProductVariant(
+  productId: string,
+  organizationId: string,
+  input: ProductVariantInput
+): Promise<VariantOperationResult> {
+  const validationError = validateVariantInput(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  if (input.price === undefined) {
+    return { success: false, error: 'Varyant fiyatı gereklidir' }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('product_variants')
+    .insert({
+      organization_id: organizationId,
+      product_id: productId,
+      name: input.name.trim(),
+      sort_order: input.sort_order ?? 0,
+    })
+    .select()
+    .single()
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: error?.message || 'Varyant oluşturulamadı',
+    }
+  }
+
+  const priceResult = await addPriceEntry(
+    productId,
+    organizationId,
+    input.price,
+    input.change_reason || 'Ilk varyant fiyati',
+    'TRY',
+    data.id
+  )
+
+  if (!priceResult.success) {
+    return {
+      success: false,
+      error: priceResult.error,
+    }
+  }
+
+  return {
+    success: true,
+    data: { ...(data as ProductVariant), price: input.price, currency: 'TRY' },
+  }
+}
+
+/**
+ * Update a variant's name/order and record a new ledger price if it changed.
+ *
+ * @param variantId - The UUID of the variant
+ * @param input - New name, optional new price and display order
+ * @returns Promise<VariantOperationResult> - Result with updated variant or error
+ *
+ * @example
+ * ```typescript
+ * const result = await updateProductVariant(variantId, {
+ *   name: 'Buyuk',
+ *   price: 195,
+ *   change_reason: 'Maliyet artisi',
+ * })
+ * ```
+ */
+export async function updateProductVariant(
+  variantId: string,
+  input: ProductVariantInput
+): Promise<VariantOperationResult> {
+  const validationError = validateVariantInput(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('product_variants')
+    .update({
+      name: input.name.trim(),
+      ...(input.sort_order !== undefined ? { sort_order: input.sort_order } : {}),
+    })
+    .eq('id', variantId)
+    .select()
+    .single()
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: error?.message || 'Varyant güncellenemedi',
+    }
+  }
+
+  const variant = data as ProductVariant
+  const prices = await getCurrentVariantPrices([variant.product_id])
+  const current = prices.get(variant.id)
+  let price = current?.price ?? null
+
+  // Only INSERT a ledger entry when the price actually changes
+  if (input.price !== undefined && input.price !== current?.price) {
+    // Changing an existing variant price counts as a price revision
+    if (current) {
+      const limit = await checkPriceRevisionLimit(variant.organization_id)
+      if (!limit.canAdd) {
+        return {
+          success: false,
+          error: limit.message,
+        }
+      }
+    }
+
+    const priceResult = await addPriceEntry(
+      variant.product_id,
+      variant.organization_id,
+      input.price,
+      input.change_reason || 'Varyant fiyati guncellendi',
+      current?.currency ?? 'TRY',
+      variant.id
+    )
+
+    if (!priceResult.success) {
+      return {
+        success: false,
+        error: priceResult.error,
+      }
+    }
+
+    price = input.price
+  }
+
+  return {
+    success: true,
+    data: { ...variant, price, currency: current?.currency ?? 'TRY' },
+  }
+}
+
+/**
+ * Deactivate a variant.
+ *
+ * Variants are never deleted so their price_ledger entries keep a valid
+ * reference.
+ *
+ * @param variantId - The UUID of the variant
+ * @returns Promise<VariantOperationResult> - Result with deactivated variant or error
+ */
+export async function deactivateProductVariant(
+  variantId: string
+): Promise<VariantOperationResult> {
+  const supabase = await createServerSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('product_variants')
+    .update({ is_active: false })
+    .eq('id', variantId)
+    .select()
+    .single()
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: error?.message || 'Varyant kaldırılamadı',
+    }
+  }
+
+  return {
+    success: true,
+    data: { ...(data as ProductVariant), price: null, currency: 'TRY' },
+  }
+}
@@ -38,3 +38,22 @@ export const createStaticSupabaseClient = () => {
 
   return createClient(url, key)
 }
+
+/**
+ * Create a Supabase client with the service role key for trusted server-side
+ * writes that RLS rejects from user sessions (price_ledger, audit_logs).
+ * Never import this from client components.
+ * Returns null if the service role key is not configured.
+ */
+export const createServiceRoleSupabaseClient = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    return null
+  }
+
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
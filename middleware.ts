@@ -19,8 +19,10 @@ function isPublicPath(pathname: string): boolean {
   // Auth routes
   if (AUTH_ROUTES.includes(pathname)) return true
 
-  // Public menu pages: /menu/[slug]
-  if (pathname.startsWith('/menu/')) return true
+  // Public menu pages: /menu/[slug] (draft preview and history require a session)
+  if (pathname.startsWith('/menu/') && !/^\/menu\/[^/]+\/(preview|history)(\/|$)/.test(pathname)) {
+    return true
+  }
 
   // Restaurant landing pages: /r/[slug]
   if (pathname.startsWith('/r/')) return true
@@ -0,0 +1,159 @@
+-- Migration: 008_translations
+-- Description: Create organization languages and product/category translation tables
+-- Created: 2026-10-18
+--
+-- This implements multi-language menu content:
+-- 1. organization_languages: Additional menu languages enabled by the organization
+-- 2. product_translations: Localized product name/description per language
+-- 3. category_translations: Localized category name per language
+--
+-- The base menu language (Turkish) lives in products.name / categories.name and
+-- always counts as one language against the plan's limit_languages value.
+-- Adding a language is guarded by checkLimit(orgId, 'limit_languages', 'organization_languages').
+
+-- ============================================================================
+-- ORGANIZATION_LANGUAGES TABLE
+-- ============================================================================
+-- Languages (other than the base language) the organization publishes its menu in.
+-- Each published snapshot carries every published locale.
+
+CREATE TABLE organization_languages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    is_published BOOLEAN DEFAULT true,
+    sort_order INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(organization_id, locale)
+);
+
+-- Index for finding all languages of an organization
+CREATE INDEX idx_organization_languages_organization_id ON organization_languages(organization_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE organization_languages IS 'Additional menu languages per organization (limited by limit_languages)';
+COMMENT ON COLUMN organization_languages.locale IS 'ISO 639-1 language code (e.g., en, ar, ru)';
+COMMENT ON COLUMN organization_languages.is_published IS 'Whether this language is included in published menu snapshots';
+
+
+-- ============================================================================
+-- PRODUCT_TRANSLATIONS TABLE
+-- ============================================================================
+-- Localized product content. Missing translations fall back to the base language.
+
+CREATE TABLE product_translations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(product_id, locale)
+);
+
+-- Index for finding all translations of an organization (snapshot collection)
+CREATE INDEX idx_product_translations_organization_id ON product_translations(organization_id, locale);
+
+-- Index for finding translations of a product
+CREATE INDEX idx_product_translations_product_id ON product_translations(product_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER product_translations_updated_at
+    BEFORE UPDATE ON product_translations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE product_translations IS 'Localized product name/description per language';
+COMMENT ON COLUMN product_translations.locale IS 'ISO 639-1 language code, must be enabled in organization_languages to be published';
+
+
+-- ============================================================================
+-- CATEGORY_TRANSLATIONS TABLE
+-- ============================================================================
+-- Localized category names. Missing translations fall back to the base language.
+
+CREATE TABLE category_translations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(category_id, locale)
+);
+
+-- Index for finding all translations of an organization (snapshot collection)
+CREATE INDEX idx_category_translations_organization_id ON category_translations(organization_id, locale);
+
+-- Index for finding translations of a category
+CREATE INDEX idx_category_translations_category_id ON category_translations(category_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER category_translations_updated_at
+    BEFORE UPDATE ON category_translations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE category_translations IS 'Localized category names per language';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE organization_languages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_translations ENABLE ROW LEVEL SECURITY;
+
+-- Members can see which languages are enabled
+CREATE POLICY "Users can view languages of their organizations"
+ON organization_languages FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+-- Only owners and admins can enable/disable languages (limit checked in application layer)
+CREATE POLICY "Owners and admins can manage languages"
+ON organization_languages FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = organization_languages.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = organization_languages.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+);
+
+CREATE POLICY "Users can manage product translations in their organizations"
+ON product_translations FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can manage category translations in their organizations"
+ON category_translations FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Owners and admins can manage languages" ON organization_languages
+IS 'Language changes affect plan limits - restricted to owner/admin roles';
@@ -0,0 +1,168 @@
+-- Migration: 009_price_rules
+-- Description: Create happy hour price rules and immutable discounted_price_ledger
+-- Created: 2026-10-18
+--
+-- This implements the module_happy_hour feature:
+-- 1. price_rules: Time-window discount rules (days of week + hours)
+-- 2. discounted_price_ledger: INSERT-only record of every discounted price shown to guests
+-- 3. current_discounted_prices: Latest recorded discounted price per product/rule
+--
+-- IMPORTANT: The discounted price shown on the public menu is always taken from
+-- the published snapshot, and every snapshot records its discounted prices in
+-- discounted_price_ledger. The Trade Ministry record therefore never disagrees
+-- with what a guest saw.
+
+-- ============================================================================
+-- PRICE_RULES TABLE
+-- ============================================================================
+-- A rule targets either a single product or a whole category.
+-- Rules are never deleted once created - they are deactivated (is_active = false)
+-- so that discounted_price_ledger entries keep a valid reference.
+
+CREATE TABLE price_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    days_of_week INT[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}',
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    -- Exactly one target: product or category
+    CHECK ((product_id IS NOT NULL) <> (category_id IS NOT NULL)),
+    -- Percentage discounts cannot exceed 100%
+    CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+    -- ISO weekdays: 1 = Monday ... 7 = Sunday
+    CHECK (days_of_week <@ ARRAY[1,2,3,4,5,6,7] AND cardinality(days_of_week) > 0),
+    CHECK (start_time <> end_time)
+);
+
+-- Index for finding all rules of an organization
+CREATE INDEX idx_price_rules_organization_id ON price_rules(organization_id, is_active);
+
+-- Index for finding rules of a product
+CREATE INDEX idx_price_rules_product_id ON price_rules(product_id);
+
+-- Index for finding rules of a category
+CREATE INDEX idx_price_rules_category_id ON price_rules(category_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER price_rules_updated_at
+    BEFORE UPDATE ON price_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE price_rules IS 'Happy hour discount rules (module_happy_hour) - deactivated, never deleted';
+COMMENT ON COLUMN price_rules.discount_type IS 'percentage = percent off, fixed = amount off (TRY)';
+COMMENT ON COLUMN price_rules.days_of_week IS 'ISO weekdays the window starts on (1 = Monday, 7 = Sunday)';
+COMMENT ON COLUMN price_rules.start_time IS 'Window start in Europe/Istanbul local time';
+COMMENT ON COLUMN price_rules.end_time IS 'Window end in Europe/Istanbul local time (earlier than start = overnight)';
+
+
+-- ============================================================================
+-- DISCOUNTED_PRICE_LEDGER TABLE (IMMUTABLE - INSERT ONLY)
+-- ============================================================================
+-- Companion to price_ledger. Each row records a discounted price together with
+-- the base price and time window it was displayed for.
+-- UPDATE and DELETE are BLOCKED by database trigger.
+
+CREATE TABLE discounted_price_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    price_rule_id UUID NOT NULL REFERENCES price_rules(id),
+    base_price DECIMAL(10,2) NOT NULL CHECK (base_price >= 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    currency TEXT NOT NULL DEFAULT 'TRY',
+    days_of_week INT[] NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    change_reason TEXT,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for finding discounted price history of a product
+CREATE INDEX idx_discounted_price_ledger_product ON discounted_price_ledger(product_id, price_rule_id, created_at DESC);
+
+-- Index for organization-wide compliance exports
+CREATE INDEX idx_discounted_price_ledger_organization ON discounted_price_ledger(organization_id, created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE discounted_price_ledger IS 'IMMUTABLE happy hour price history - INSERT only, UPDATE/DELETE blocked by trigger';
+COMMENT ON COLUMN discounted_price_ledger.base_price IS 'Regular price from price_ledger at the time of recording';
+COMMENT ON COLUMN discounted_price_ledger.price IS 'Discounted price displayed during the rule window';
+
+CREATE OR REPLACE FUNCTION prevent_discounted_price_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'UPDATE and DELETE are not allowed on discounted_price_ledger. This table is immutable for regulatory compliance.';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER discounted_price_ledger_immutable
+    BEFORE UPDATE OR DELETE ON discounted_price_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_discounted_price_modification();
+
+COMMENT ON FUNCTION prevent_discounted_price_modification() IS 'Blocks UPDATE/DELETE on discounted_price_ledger for regulatory compliance';
+
+
+-- ============================================================================
+-- CURRENT_DISCOUNTED_PRICES VIEW
+-- ============================================================================
+-- Latest recorded discounted price for each product/rule pair.
+-- Used to avoid recording duplicate entries on every publish.
+
+CREATE VIEW current_discounted_prices AS
+SELECT DISTINCT ON (product_id, price_rule_id)
+    organization_id,
+    product_id,
+    price_rule_id,
+    base_price,
+    price,
+    currency,
+    days_of_week,
+    start_time,
+    end_time,
+    created_at AS effective_from
+FROM discounted_price_ledger
+ORDER BY product_id, price_rule_id, created_at DESC;
+
+COMMENT ON VIEW current_discounted_prices IS 'Latest discounted price per product and price rule';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE price_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discounted_price_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage price rules in their organizations"
+ON price_rules FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can view and add discounted prices in their organizations"
+ON discounted_price_ledger FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view and add discounted prices in their organizations" ON discounted_price_ledger
+IS 'View and insert discounted price entries (UPDATE/DELETE blocked by trigger)';
@@ -0,0 +1,113 @@
+-- Migration: 010_product_variants
+-- Description: Create product variants (portion/size) with their own price_ledger history
+-- Created: 2026-10-18
+--
+-- This implements the module_variants feature:
+-- 1. product_variants: Named variants of a product (e.g. Kucuk/Orta/Buyuk, 35cl/50cl)
+-- 2. price_ledger.variant_id: Variant prices are regular immutable ledger entries
+-- 3. current_prices: Restricted to base product prices (variant_id IS NULL)
+-- 4. current_variant_prices: Latest price per variant
+--
+-- IMPORTANT: Variant prices use the same INSERT-only price_ledger as base
+-- prices, so the immutability trigger, compliance exports and price history
+-- cover them without a separate table.
+
+-- ============================================================================
+-- PRODUCT_VARIANTS TABLE
+-- ============================================================================
+-- Variants are never deleted once created - they are deactivated
+-- (is_active = false) so that price_ledger entries keep a valid reference.
+
+CREATE TABLE product_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    sort_order INT DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for listing variants of a product in display order
+CREATE INDEX idx_product_variants_product_id ON product_variants(product_id, sort_order);
+
+-- Index for organization-wide queries (snapshots, exports)
+CREATE INDEX idx_product_variants_organization_id ON product_variants(organization_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER product_variants_updated_at
+    BEFORE UPDATE ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE product_variants IS 'Portion/size variants of a product (module_variants) - deactivated, never deleted';
+COMMENT ON COLUMN product_variants.name IS 'Variant label shown on the menu (e.g. Buyuk, 50cl)';
+
+
+-- ============================================================================
+-- PRICE_LEDGER: VARIANT PRICES
+-- ============================================================================
+-- NULL variant_id = base product price, otherwise the price of that variant.
+
+ALTER TABLE price_ledger
+    ADD COLUMN variant_id UUID REFERENCES product_variants(id);
+
+-- Index for finding latest price per variant (used by current_variant_prices view)
+CREATE INDEX idx_price_ledger_variant_created ON price_ledger(variant_id, created_at DESC)
+    WHERE variant_id IS NOT NULL;
+
+COMMENT ON COLUMN price_ledger.variant_id IS 'FK to product_variants - NULL for the base product price';
+
+
+-- ============================================================================
+-- CURRENT_PRICES VIEWS
+-- ============================================================================
+-- current_prices keeps its meaning (base price per product); variant entries
+-- are excluded so they never replace the base price.
+
+CREATE OR REPLACE VIEW current_prices AS
+SELECT DISTINCT ON (product_id)
+    product_id,
+    price,
+    currency,
+    change_reason,
+    changed_by,
+    created_at AS effective_from
+FROM price_ledger
+WHERE variant_id IS NULL
+ORDER BY product_id, created_at DESC;
+
+COMMENT ON VIEW current_prices IS 'Latest base price per product from immutable price_ledger';
+
+CREATE VIEW current_variant_prices AS
+SELECT DISTINCT ON (variant_id)
+    variant_id,
+    product_id,
+    price,
+    currency,
+    change_reason,
+    changed_by,
+    created_at AS effective_from
+FROM price_ledger
+WHERE variant_id IS NOT NULL
+ORDER BY variant_id, created_at DESC;
+
+COMMENT ON VIEW current_variant_prices IS 'Latest price per product variant from immutable price_ledger';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage product variants in their organizations"
+ON product_variants FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
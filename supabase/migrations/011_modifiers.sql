@@ -0,0 +1,200 @@
+-- Migration: 011_modifiers
+-- Description: Create reusable modifier groups (add-ons) with an immutable option price ledger
+-- Created: 2026-10-18
+--
+-- This implements the module_modifiers feature:
+-- 1. modifier_groups: Reusable groups with min/max selections (e.g. "Ekstra malzemeler")
+-- 2. modifier_options: Options of a group (e.g. "Ekstra peynir")
+-- 3. product_modifier_groups: Which groups are offered with which product
+-- 4. modifier_price_ledger: INSERT-only price history of modifier options
+-- 5. current_modifier_prices: Latest price per option
+--
+-- IMPORTANT: Add-on prices are part of the published menu, so they follow the
+-- same immutable ledger pattern as price_ledger and are included in snapshots.
+
+-- ============================================================================
+-- MODIFIER_GROUPS TABLE
+-- ============================================================================
+-- A group is required when min_selections > 0.
+-- Groups are deactivated (is_active = false), never deleted.
+
+CREATE TABLE modifier_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    min_selections INT NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+    max_selections INT NOT NULL DEFAULT 1 CHECK (max_selections >= 1),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    CHECK (min_selections <= max_selections)
+);
+
+-- Index for listing groups of an organization
+CREATE INDEX idx_modifier_groups_organization_id ON modifier_groups(organization_id, is_active);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER modifier_groups_updated_at
+    BEFORE UPDATE ON modifier_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE modifier_groups IS 'Reusable add-on groups (module_modifiers) - deactivated, never deleted';
+COMMENT ON COLUMN modifier_groups.min_selections IS 'Minimum options a guest must choose (0 = optional group)';
+COMMENT ON COLUMN modifier_groups.max_selections IS 'Maximum options a guest may choose';
+
+
+-- ============================================================================
+-- MODIFIER_OPTIONS TABLE
+-- ============================================================================
+-- Option prices live in modifier_price_ledger, not on this table.
+
+CREATE TABLE modifier_options (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    sort_order INT DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for listing options of a group in display order
+CREATE INDEX idx_modifier_options_group_id ON modifier_options(group_id, sort_order);
+
+-- Index for organization-wide queries (snapshots)
+CREATE INDEX idx_modifier_options_organization_id ON modifier_options(organization_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER modifier_options_updated_at
+    BEFORE UPDATE ON modifier_options
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE modifier_options IS 'Options of a modifier group - prices in modifier_price_ledger';
+
+
+-- ============================================================================
+-- PRODUCT_MODIFIER_GROUPS TABLE
+-- ============================================================================
+
+CREATE TABLE product_modifier_groups (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+    sort_order INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (product_id, group_id)
+);
+
+-- Index for organization-wide queries (snapshots)
+CREATE INDEX idx_product_modifier_groups_organization_id ON product_modifier_groups(organization_id);
+
+COMMENT ON TABLE product_modifier_groups IS 'Modifier groups offered with a product, in display order';
+
+
+-- ============================================================================
+-- MODIFIER_PRICE_LEDGER TABLE (IMMUTABLE - INSERT ONLY)
+-- ============================================================================
+-- Companion to price_ledger for modifier option prices.
+-- UPDATE and DELETE are BLOCKED by database trigger.
+
+CREATE TABLE modifier_price_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    option_id UUID NOT NULL REFERENCES modifier_options(id),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    currency TEXT NOT NULL DEFAULT 'TRY',
+    change_reason TEXT,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for finding latest price (used by current_modifier_prices view)
+CREATE INDEX idx_modifier_price_ledger_option ON modifier_price_ledger(option_id, created_at DESC);
+
+-- Index for organization-wide compliance exports
+CREATE INDEX idx_modifier_price_ledger_organization ON modifier_price_ledger(organization_id, created_at);
+
+COMMENT ON TABLE modifier_price_ledger IS 'IMMUTABLE modifier option price history - INSERT only, UPDATE/DELETE blocked by trigger';
+
+CREATE OR REPLACE FUNCTION prevent_modifier_price_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'UPDATE and DELETE are not allowed on modifier_price_ledger. This table is immutable for regulatory compliance.';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER modifier_price_ledger_immutable
+    BEFORE UPDATE OR DELETE ON modifier_price_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_modifier_price_modification();
+
+COMMENT ON FUNCTION prevent_modifier_price_modification() IS 'Blocks UPDATE/DELETE on modifier_price_ledger for regulatory compliance';
+
+
+-- ============================================================================
+-- CURRENT_MODIFIER_PRICES VIEW
+-- ============================================================================
+
+CREATE VIEW current_modifier_prices AS
+SELECT DISTINCT ON (option_id)
+    organization_id,
+    option_id,
+    price,
+    currency,
+    created_at AS effective_from
+FROM modifier_price_ledger
+ORDER BY option_id, created_at DESC;
+
+COMMENT ON VIEW current_modifier_prices IS 'Latest price per modifier option from immutable modifier_price_ledger';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_price_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage modifier groups in their organizations"
+ON modifier_groups FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can manage modifier options in their organizations"
+ON modifier_options FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can manage product modifier groups in their organizations"
+ON product_modifier_groups FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can view and add modifier prices in their organizations"
+ON modifier_price_ledger FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view and add modifier prices in their organizations" ON modifier_price_ledger
+IS 'View and insert modifier price entries (UPDATE/DELETE blocked by trigger)';
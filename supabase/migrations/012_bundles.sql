@@ -0,0 +1,162 @@
+-- Migration: 012_bundles
+-- Description: Create set menus / bundles built from existing products with an immutable price ledger
+-- Created: 2026-10-18
+--
+-- This implements the module_bundles feature:
+-- 1. bundles: Set menus with their own price (e.g. "Burger Menu")
+-- 2. bundle_items: Component products of a bundle with quantities
+-- 3. bundle_price_ledger: INSERT-only price history of bundles
+-- 4. current_bundle_prices: Latest price per bundle
+--
+-- IMPORTANT: A bundle is only published when all of its component products
+-- are visible. Hiding a component automatically hides the bundle with the
+-- next snapshot - no flag on the bundle is changed.
+
+-- ============================================================================
+-- BUNDLES TABLE
+-- ============================================================================
+-- Bundles are deactivated (is_active = false), never deleted, so that
+-- bundle_price_ledger entries keep a valid reference.
+
+CREATE TABLE bundles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    image_url TEXT,
+    sort_order INT DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for listing bundles of an organization in display order
+CREATE INDEX idx_bundles_organization_id ON bundles(organization_id, is_active, sort_order);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER bundles_updated_at
+    BEFORE UPDATE ON bundles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE bundles IS 'Set menus built from existing products (module_bundles) - deactivated, never deleted';
+
+
+-- ============================================================================
+-- BUNDLE_ITEMS TABLE
+-- ============================================================================
+
+CREATE TABLE bundle_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    bundle_id UUID NOT NULL REFERENCES bundles(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    quantity INT NOT NULL DEFAULT 1 CHECK (quantity >= 1),
+    sort_order INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(bundle_id, product_id)
+);
+
+-- Index for listing items of a bundle
+CREATE INDEX idx_bundle_items_bundle_id ON bundle_items(bundle_id, sort_order);
+
+-- Index for finding bundles that contain a product
+CREATE INDEX idx_bundle_items_product_id ON bundle_items(product_id);
+
+COMMENT ON TABLE bundle_items IS 'Component products of a bundle';
+
+
+-- ============================================================================
+-- BUNDLE_PRICE_LEDGER TABLE (IMMUTABLE - INSERT ONLY)
+-- ============================================================================
+-- Companion to price_ledger for bundle prices.
+-- UPDATE and DELETE are BLOCKED by database trigger.
+
+CREATE TABLE bundle_price_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    bundle_id UUID NOT NULL REFERENCES bundles(id),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    currency TEXT NOT NULL DEFAULT 'TRY',
+    change_reason TEXT,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Index for finding latest price (used by current_bundle_prices view)
+CREATE INDEX idx_bundle_price_ledger_bundle ON bundle_price_ledger(bundle_id, created_at DESC);
+
+-- Index for organization-wide compliance exports
+CREATE INDEX idx_bundle_price_ledger_organization ON bundle_price_ledger(organization_id, created_at);
+
+COMMENT ON TABLE bundle_price_ledger IS 'IMMUTABLE bundle price history - INSERT only, UPDATE/DELETE blocked by trigger';
+
+CREATE OR REPLACE FUNCTION prevent_bundle_price_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'UPDATE and DELETE are not allowed on bundle_price_ledger. This table is immutable for regulatory compliance.';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bundle_price_ledger_immutable
+    BEFORE UPDATE OR DELETE ON bundle_price_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_bundle_price_modification();
+
+COMMENT ON FUNCTION prevent_bundle_price_modification() IS 'Blocks UPDATE/DELETE on bundle_price_ledger for regulatory compliance';
+
+
+-- ============================================================================
+-- CURRENT_BUNDLE_PRICES VIEW
+-- ============================================================================
+
+CREATE VIEW current_bundle_prices AS
+SELECT DISTINCT ON (bundle_id)
+    organization_id,
+    bundle_id,
+    price,
+    currency,
+    created_at AS effective_from
+FROM bundle_price_ledger
+ORDER BY bundle_id, created_at DESC;
+
+COMMENT ON VIEW current_bundle_prices IS 'Latest price per bundle from immutable bundle_price_ledger';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_price_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage bundles in their organizations"
+ON bundles FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can manage bundle items in their organizations"
+ON bundle_items FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can view and add bundle prices in their organizations"
+ON bundle_price_ledger FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view and add bundle prices in their organizations" ON bundle_price_ledger
+IS 'View and insert bundle price entries (UPDATE/DELETE blocked by trigger)';
@@ -0,0 +1,47 @@
+-- Migration: 013_cross_sell
+-- Description: Create cross-sell links between products ("Bununla iyi gider")
+-- Created: 2026-10-18
+--
+-- This implements the module_cross_sell feature:
+-- 1. product_recommendations: Companion products recommended with a product
+--
+-- IMPORTANT: Recommendations are captured in menu snapshots. A recommended
+-- product that is hidden is left out of the snapshot, the link itself stays.
+
+-- ============================================================================
+-- PRODUCT_RECOMMENDATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE product_recommendations (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    recommended_product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    sort_order INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (product_id, recommended_product_id),
+    CHECK (product_id <> recommended_product_id)
+);
+
+-- Index for organization-wide queries (snapshots)
+CREATE INDEX idx_product_recommendations_organization_id ON product_recommendations(organization_id, sort_order);
+
+-- Index for finding products that recommend a product
+CREATE INDEX idx_product_recommendations_recommended ON product_recommendations(recommended_product_id);
+
+COMMENT ON TABLE product_recommendations IS 'Cross-sell companions of a product in display order (module_cross_sell)';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE product_recommendations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage product recommendations in their organizations"
+ON product_recommendations FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
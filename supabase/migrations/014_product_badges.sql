@@ -0,0 +1,68 @@
+-- Migration: 014_product_badges
+-- Description: Create scheduled product badges (chef's recommendation, daily special)
+-- Created: 2026-10-18
+--
+-- This implements the module_chef_recommendation and module_daily_special features:
+-- 1. product_badges: Badge assignments with a date range and a daily or weekly schedule
+--
+-- IMPORTANT: Badge schedules are captured in menu snapshots and evaluated when
+-- the public menu is rendered, so an expired badge disappears without a
+-- manual republish.
+
+-- ============================================================================
+-- PRODUCT_BADGES TABLE
+-- ============================================================================
+-- schedule_type = 'daily'  : shown every day between starts_on and ends_on
+-- schedule_type = 'weekly' : shown only on days_of_week between starts_on and ends_on
+-- ends_on = NULL means the badge has no end date.
+
+CREATE TABLE product_badges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    badge_type TEXT NOT NULL CHECK (badge_type IN ('chef_recommendation', 'daily_special')),
+    schedule_type TEXT NOT NULL DEFAULT 'daily' CHECK (schedule_type IN ('daily', 'weekly')),
+    days_of_week INT[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}',
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    ends_on DATE,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    -- ISO weekdays: 1 = Monday ... 7 = Sunday
+    CHECK (days_of_week <@ ARRAY[1,2,3,4,5,6,7] AND cardinality(days_of_week) > 0),
+    CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+-- Index for finding active badges of an organization (snapshots)
+CREATE INDEX idx_product_badges_organization_id ON product_badges(organization_id, is_active);
+
+-- Index for listing badges of a product
+CREATE INDEX idx_product_badges_product_id ON product_badges(product_id);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER product_badges_updated_at
+    BEFORE UPDATE ON product_badges
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE product_badges IS 'Scheduled chef recommendation / daily special badges - deactivated, never deleted';
+COMMENT ON COLUMN product_badges.days_of_week IS 'ISO weekdays the badge is shown on (1 = Monday, 7 = Sunday)';
+COMMENT ON COLUMN product_badges.starts_on IS 'First day the badge is shown (Europe/Istanbul)';
+COMMENT ON COLUMN product_badges.ends_on IS 'Last day the badge is shown (Europe/Istanbul), NULL = no end date';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE product_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage product badges in their organizations"
+ON product_badges FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
@@ -0,0 +1,74 @@
+-- Migration: 015_allergen_catalog
+-- Description: Restrict products.allergens to the regulated allergen catalog
+-- Created: 2026-10-18
+--
+-- This implements the module_allergens catalog:
+-- 1. Existing free-text values are mapped to catalog codes (unknown values are dropped)
+-- 2. products.allergens only accepts the 14 EU/Turkish regulated allergen codes
+--
+-- The catalog (codes, Turkish labels and icons) lives in lib/services/allergens.ts.
+
+-- ============================================================================
+-- NORMALIZE EXISTING VALUES
+-- ============================================================================
+-- Matches catalog codes, Turkish labels and common free-text aliases
+-- (case-insensitive) and keeps the codes in catalog order.
+
+WITH catalog(code, position) AS (
+    VALUES
+        ('gluten', 1), ('crustaceans', 2), ('eggs', 3), ('fish', 4),
+        ('peanuts', 5), ('soy', 6), ('milk', 7), ('nuts', 8),
+        ('celery', 9), ('mustard', 10), ('sesame', 11), ('sulphites', 12),
+        ('lupin', 13), ('molluscs', 14)
+),
+aliases(alias, code) AS (
+    SELECT code, code FROM catalog
+    UNION ALL
+    VALUES
+        ('buğday', 'gluten'), ('bugday', 'gluten'), ('wheat', 'gluten'),
+        ('kabuklular', 'crustaceans'), ('kabuklu deniz ürünleri', 'crustaceans'),
+        ('karides', 'crustaceans'), ('shellfish', 'crustaceans'),
+        ('yumurta', 'eggs'), ('egg', 'eggs'),
+        ('balık', 'fish'), ('balik', 'fish'),
+        ('yer fıstığı', 'peanuts'), ('yer fistigi', 'peanuts'), ('fıstık', 'peanuts'),
+        ('fistik', 'peanuts'), ('peanut', 'peanuts'),
+        ('soya', 'soy'),
+        ('süt', 'milk'), ('sut', 'milk'), ('laktoz', 'milk'), ('dairy', 'milk'),
+        ('lactose', 'milk'),
+        ('sert kabuklu meyveler', 'nuts'), ('kuruyemiş', 'nuts'), ('kuruyemis', 'nuts'),
+        ('fındık', 'nuts'), ('findik', 'nuts'), ('ceviz', 'nuts'), ('badem', 'nuts'),
+        ('tree nuts', 'nuts'),
+        ('kereviz', 'celery'),
+        ('hardal', 'mustard'),
+        ('susam', 'sesame'),
+        ('sülfit', 'sulphites'), ('sülfitler', 'sulphites'), ('sulfit', 'sulphites'),
+        ('sulfites', 'sulphites'),
+        ('lupen', 'lupin'), ('acı bakla', 'lupin'), ('acı bakla (lupin)', 'lupin'),
+        ('yumuşakçalar', 'molluscs'), ('midye', 'molluscs'), ('kalamar', 'molluscs')
+)
+UPDATE products p
+SET allergens = COALESCE((
+    SELECT array_agg(matched.code ORDER BY matched.position)
+    FROM (
+        SELECT DISTINCT c.code, c.position
+        FROM unnest(p.allergens) AS value
+        JOIN aliases a ON a.alias = lower(trim(value))
+        JOIN catalog c ON c.code = a.code
+    ) matched
+), '{}')
+WHERE p.allergens IS NOT NULL
+  AND cardinality(p.allergens) > 0;
+
+-- ============================================================================
+-- CATALOG CONSTRAINT
+-- ============================================================================
+
+ALTER TABLE products
+    ADD CONSTRAINT products_allergens_catalog CHECK (
+        allergens IS NULL OR allergens <@ ARRAY[
+            'gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soy', 'milk',
+            'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs'
+        ]::TEXT[]
+    );
+
+COMMENT ON COLUMN products.allergens IS 'Regulated allergen catalog codes (EU 1169/2011, TGK etiketleme), see lib/services/allergens.ts';
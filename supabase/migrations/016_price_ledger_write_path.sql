@@ -0,0 +1,41 @@
+-- Migration: 016_price_ledger_write_path
+-- Description: Make the price change API the only write path for price_ledger
+-- Created: 2026-10-18
+--
+-- Until now dashboard pages inserted price entries directly from the browser,
+-- so a change could skip the change reason and the audit trail. From here on:
+-- 1. Users can only read price entries of their organizations
+-- 2. Entries are inserted server-side with the service role by addPriceEntry
+--    (POST /api/products/[id]/price, variant price API)
+-- 3. Each dashboard price change also writes an audit_logs row with
+--    action = 'price_change'
+--
+-- UPDATE and DELETE stay blocked by the price_ledger_immutable trigger.
+
+-- ============================================================================
+-- PRICE_LEDGER - READ ONLY FOR USERS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view and add prices in their organizations" ON price_ledger;
+
+CREATE POLICY "Users can view prices in their organizations"
+ON price_ledger FOR SELECT
+USING (
+    product_id IN (
+        SELECT id FROM products
+        WHERE organization_id IN (SELECT auth.user_org_ids())
+    )
+);
+
+COMMENT ON POLICY "Users can view prices in their organizations" ON price_ledger
+IS 'View price entries for products in member organizations. INSERT via service role only (price change API)';
+
+-- ============================================================================
+-- CHANGE REASON
+-- ============================================================================
+-- New entries must carry a reason. NOT VALID keeps older entries without a
+-- reason readable (the ledger cannot be updated to backfill them).
+
+ALTER TABLE price_ledger
+    ADD CONSTRAINT price_ledger_change_reason_required
+    CHECK (change_reason IS NOT NULL AND length(trim(change_reason)) > 0) NOT VALID;
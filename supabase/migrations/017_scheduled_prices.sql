@@ -0,0 +1,190 @@
+-- Migration: 017_scheduled_prices
+-- Description: Scheduled (future) price changes in price_ledger
+-- Created: 2026-10-18
+--
+-- A price increase is often known in advance (e.g. "from the 1st of next
+-- month"). This migration lets price_ledger hold pending entries:
+-- 1. price_ledger.effective_from - when the entry takes effect (NULL = at created_at)
+-- 2. price_ledger_cancellations - pending entries withdrawn before they take effect
+--    (the ledger itself stays INSERT-only)
+-- 3. current_prices / current_variant_prices only see entries that are in
+--    effect and not cancelled
+-- 4. upcoming_price_changes - pending entries per product for the dashboard
+-- 5. due_price_publications - organizations whose scheduled change took effect
+--    after their latest menu snapshot (read by the scheduled publish job)
+
+-- ============================================================================
+-- PRICE_LEDGER.EFFECTIVE_FROM
+-- ============================================================================
+-- Nullable so existing (immutable) entries keep taking effect at created_at.
+
+ALTER TABLE price_ledger ADD COLUMN effective_from TIMESTAMPTZ;
+
+CREATE INDEX idx_price_ledger_effective_from ON price_ledger(effective_from)
+    WHERE effective_from IS NOT NULL;
+
+COMMENT ON COLUMN price_ledger.effective_from IS 'When the price takes effect (NULL = immediately at created_at, future = scheduled change)';
+
+
+-- ============================================================================
+-- PRICE_LEDGER_CANCELLATIONS TABLE (IMMUTABLE - INSERT ONLY)
+-- ============================================================================
+-- A scheduled entry can be cancelled until it takes effect. Cancelling adds a
+-- row here instead of deleting the ledger entry, so the audit trail keeps
+-- both the plan and its withdrawal.
+
+CREATE TABLE price_ledger_cancellations (
+    price_ledger_id UUID PRIMARY KEY REFERENCES price_ledger(id) ON DELETE CASCADE,
+    cancel_reason TEXT,
+    cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION check_price_ledger_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM price_ledger
+        WHERE id = NEW.price_ledger_id
+          AND effective_from IS NOT NULL
+          AND effective_from > now()
+    ) THEN
+        RAISE EXCEPTION 'Only scheduled price entries that have not taken effect can be cancelled';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER price_ledger_cancellation_pending_only
+    BEFORE INSERT ON price_ledger_cancellations
+    FOR EACH ROW
+    EXECUTE FUNCTION check_price_ledger_cancellation();
+
+CREATE TRIGGER price_ledger_cancellations_immutable
+    BEFORE UPDATE OR DELETE ON price_ledger_cancellations
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_price_modification();
+
+COMMENT ON TABLE price_ledger_cancellations IS 'IMMUTABLE cancellations of scheduled price_ledger entries - INSERT only, before effective_from';
+COMMENT ON FUNCTION check_price_ledger_cancellation() IS 'Allows cancelling only scheduled entries that have not taken effect';
+
+
+-- ============================================================================
+-- CURRENT PRICE VIEWS
+-- ============================================================================
+-- Latest entry in effect (by effective time), cancelled entries excluded.
+
+CREATE OR REPLACE VIEW current_prices AS
+SELECT DISTINCT ON (pl.product_id)
+    pl.product_id,
+    pl.price,
+    pl.currency,
+    pl.change_reason,
+    pl.changed_by,
+    COALESCE(pl.effective_from, pl.created_at) AS effective_from
+FROM price_ledger pl
+WHERE pl.variant_id IS NULL
+  AND COALESCE(pl.effective_from, pl.created_at) <= now()
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  )
+ORDER BY pl.product_id, COALESCE(pl.effective_from, pl.created_at) DESC, pl.created_at DESC;
+
+COMMENT ON VIEW current_prices IS 'Latest base price in effect per product from immutable price_ledger';
+
+CREATE OR REPLACE VIEW current_variant_prices AS
+SELECT DISTINCT ON (pl.variant_id)
+    pl.variant_id,
+    pl.product_id,
+    pl.price,
+    pl.currency,
+    pl.change_reason,
+    pl.changed_by,
+    COALESCE(pl.effective_from, pl.created_at) AS effective_from
+FROM price_ledger pl
+WHERE pl.variant_id IS NOT NULL
+  AND COALESCE(pl.effective_from, pl.created_at) <= now()
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  )
+ORDER BY pl.variant_id, COALESCE(pl.effective_from, pl.created_at) DESC, pl.created_at DESC;
+
+COMMENT ON VIEW current_variant_prices IS 'Latest price in effect per product variant from immutable price_ledger';
+
+
+-- ============================================================================
+-- UPCOMING_PRICE_CHANGES VIEW
+-- ============================================================================
+-- Pending (future, not cancelled) entries. security_invoker keeps the
+-- price_ledger RLS of the querying user.
+
+CREATE VIEW upcoming_price_changes
+WITH (security_invoker = true) AS
+SELECT
+    pl.id,
+    pl.product_id,
+    pl.variant_id,
+    pl.price,
+    pl.currency,
+    pl.change_reason,
+    pl.changed_by,
+    pl.effective_from,
+    pl.created_at
+FROM price_ledger pl
+WHERE pl.effective_from > now()
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  );
+
+COMMENT ON VIEW upcoming_price_changes IS 'Scheduled price entries that have not taken effect and are not cancelled';
+
+
+-- ============================================================================
+-- DUE_PRICE_PUBLICATIONS VIEW
+-- ============================================================================
+-- Organizations with a scheduled change that took effect after their latest
+-- menu snapshot. The scheduled publish job creates one snapshot per row;
+-- the new snapshot removes the organization from the view.
+
+CREATE VIEW due_price_publications AS
+SELECT
+    p.organization_id,
+    MIN(pl.effective_from) AS effective_from,
+    COUNT(*) AS change_count
+FROM price_ledger pl
+JOIN products p ON p.id = pl.product_id
+WHERE pl.effective_from IS NOT NULL
+  AND pl.effective_from <= now()
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  )
+  AND pl.effective_from > COALESCE(
+      (SELECT MAX(ms.created_at) FROM menu_snapshots ms WHERE ms.organization_id = p.organization_id),
+      '-infinity'::TIMESTAMPTZ
+  )
+GROUP BY p.organization_id;
+
+REVOKE ALL ON due_price_publications FROM anon, authenticated;
+
+COMMENT ON VIEW due_price_publications IS 'Organizations whose scheduled price changes took effect after the latest snapshot (service role only)';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE price_ledger_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view price cancellations in their organizations"
+ON price_ledger_cancellations FOR SELECT
+USING (
+    price_ledger_id IN (
+        SELECT pl.id FROM price_ledger pl
+        JOIN products p ON p.id = pl.product_id
+        WHERE p.organization_id IN (SELECT auth.user_org_ids())
+    )
+);
+
+COMMENT ON POLICY "Users can view price cancellations in their organizations" ON price_ledger_cancellations
+IS 'View cancellations of scheduled prices in member organizations. INSERT via service role only (price change API)';
@@ -0,0 +1,76 @@
+-- Migration: 018_price_revision_limit
+-- Description: Periodic price revision limit (paketler.md "Fiyat Revize")
+-- Created: 2026-10-18
+--
+-- The Lite package allows two price revisions, so price changes need a plan
+-- limit that resets every period instead of a plain entity count:
+-- 1. features.limit_period - reset period of a limit feature (NULL = never resets)
+-- 2. limit_price_revisions feature with per-plan values
+-- 3. price_revisions view - price_ledger entries that change an existing price
+--    (first prices of new products/variants and cancelled scheduled entries
+--    are not revisions)
+--
+-- The limit is checked by checkLimit(orgId, 'limit_price_revisions', 'price_revisions')
+-- before a price change is written.
+
+-- ============================================================================
+-- FEATURES.LIMIT_PERIOD
+-- ============================================================================
+
+ALTER TABLE features ADD COLUMN limit_period TEXT
+    CHECK (limit_period IN ('day', 'week', 'month', 'year'));
+
+COMMENT ON COLUMN features.limit_period IS 'For limit features counted per period: day, week, month or year (NULL = total count)';
+
+
+-- ============================================================================
+-- LIMIT_PRICE_REVISIONS FEATURE
+-- ============================================================================
+-- Plan values for existing databases. On a fresh install seed.sql creates the
+-- plans after this migration and maps the feature there.
+
+INSERT INTO features (key, name, description, type, category, sort_order, limit_period) VALUES
+    ('limit_price_revisions', 'Fiyat Revize Limiti', 'Aylik fiyat degisikligi sayisi', 'limit', 'limits', 7, 'month')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO plan_features (plan_id, feature_id, value_boolean, value_limit)
+SELECT
+    p.id,
+    f.id,
+    NULL,
+    CASE
+        WHEN p.name IN ('Free', 'Lite') THEN 2
+        ELSE -1
+    END
+FROM plans p
+CROSS JOIN features f
+WHERE f.key = 'limit_price_revisions'
+ON CONFLICT (plan_id, feature_id) DO NOTHING;
+
+
+-- ============================================================================
+-- PRICE_REVISIONS VIEW
+-- ============================================================================
+-- security_invoker keeps the price_ledger RLS of the querying user.
+
+CREATE VIEW price_revisions
+WITH (security_invoker = true) AS
+SELECT
+    pl.id,
+    p.organization_id,
+    pl.product_id,
+    pl.variant_id,
+    pl.created_at
+FROM price_ledger pl
+JOIN products p ON p.id = pl.product_id
+WHERE EXISTS (
+      SELECT 1 FROM price_ledger prev
+      WHERE prev.product_id = pl.product_id
+        AND prev.variant_id IS NOT DISTINCT FROM pl.variant_id
+        AND prev.created_at < pl.created_at
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  );
+
+COMMENT ON VIEW price_revisions IS 'price_ledger entries that revise an existing price (counted by limit_price_revisions)';
@@ -0,0 +1,167 @@
+-- Migration: 019_price_ledger_hash_chain
+-- Description: Hash chain over price_ledger entries per organization
+-- Created: 2026-10-18
+--
+-- The immutability trigger and RLS stop normal users from changing prices,
+-- but a database superuser can still disable the trigger and edit rows
+-- without leaving a trace. This migration links every entry to the previous
+-- entry of the same organization, so any edit, deletion or insertion in the
+-- middle of the history breaks the chain:
+-- 1. price_ledger.organization_id - owner of the chain (copied from products)
+-- 2. price_ledger.chain_position - 1, 2, 3, ... per organization
+-- 3. price_ledger.previous_hash / entry_hash - SHA-256 links
+-- 4. price_ledger_chain trigger - fills the columns on every INSERT,
+--    serialized per organization with an advisory lock
+-- 5. Backfill of the existing history in (created_at, id) order
+--
+-- Verification walks the chain in verifyPriceLedgerChain
+-- (lib/services/price-ledger.ts), which builds the same hash payload as
+-- price_ledger_hash_payload() below. Keep both in sync.
+
+-- ============================================================================
+-- CHAIN COLUMNS
+-- ============================================================================
+
+ALTER TABLE price_ledger
+    ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    ADD COLUMN chain_position BIGINT,
+    ADD COLUMN previous_hash TEXT,
+    ADD COLUMN entry_hash TEXT;
+
+-- One entry per position: concurrent writers cannot fork the chain
+CREATE UNIQUE INDEX idx_price_ledger_chain
+    ON price_ledger(organization_id, chain_position);
+
+COMMENT ON COLUMN price_ledger.organization_id IS 'Organization whose hash chain contains this entry (copied from products)';
+COMMENT ON COLUMN price_ledger.chain_position IS 'Position in the organization hash chain, starting at 1';
+COMMENT ON COLUMN price_ledger.previous_hash IS 'entry_hash of the previous entry in the chain (NULL for the first entry)';
+COMMENT ON COLUMN price_ledger.entry_hash IS 'SHA-256 of price_ledger_hash_payload() - covers the entry and previous_hash';
+
+
+-- ============================================================================
+-- HASH PAYLOAD
+-- ============================================================================
+-- Fields joined with '|'. Free text (currency, change_reason) is written as
+-- "<length>:<text>" so no value can shift into the next field; NULL reason
+-- is '-'. Timestamps are UTC cut to milliseconds, prices have two decimals.
+--
+-- Example:
+--   <previous_hash>|2|<id>|<organization_id>|<product_id>||149.90|3:TRY|15:Tedarikçi zammı|<changed_by>||2026-10-18T09:30:00.000Z
+
+CREATE OR REPLACE FUNCTION price_ledger_hash_payload(entry price_ledger)
+RETURNS TEXT AS $$
+    SELECT concat_ws('|',
+        COALESCE(entry.previous_hash, ''),
+        entry.chain_position::TEXT,
+        entry.id::TEXT,
+        entry.organization_id::TEXT,
+        entry.product_id::TEXT,
+        COALESCE(entry.variant_id::TEXT, ''),
+        to_char(entry.price, 'FM99999999990.00'),
+        length(entry.currency) || ':' || entry.currency,
+        CASE
+            WHEN entry.change_reason IS NULL THEN '-'
+            ELSE length(entry.change_reason) || ':' || entry.change_reason
+        END,
+        COALESCE(entry.changed_by::TEXT, ''),
+        COALESCE(to_char(entry.effective_from AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), ''),
+        to_char(entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION price_ledger_hash_payload(price_ledger) IS 'Text hashed into price_ledger.entry_hash (mirrored by buildPriceLedgerHashPayload)';
+
+
+-- ============================================================================
+-- CHAIN TRIGGER
+-- ============================================================================
+-- Chain values sent by the client are ignored. New timestamps are stored
+-- with millisecond precision, exactly as they appear in the payload.
+
+CREATE OR REPLACE FUNCTION link_price_ledger_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+    head RECORD;
+BEGIN
+    SELECT organization_id INTO NEW.organization_id
+    FROM products
+    WHERE id = NEW.product_id;
+
+    -- Serialize writers of the same organization until the transaction ends
+    PERFORM pg_advisory_xact_lock(hashtextextended(NEW.organization_id::TEXT, 19));
+
+    SELECT chain_position, entry_hash INTO head
+    FROM price_ledger
+    WHERE organization_id = NEW.organization_id
+      AND chain_position IS NOT NULL
+    ORDER BY chain_position DESC
+    LIMIT 1;
+
+    NEW.created_at := date_trunc('milliseconds', COALESCE(NEW.created_at, now()));
+    NEW.effective_from := date_trunc('milliseconds', NEW.effective_from);
+    NEW.chain_position := COALESCE(head.chain_position, 0) + 1;
+    NEW.previous_hash := head.entry_hash;
+    NEW.entry_hash := encode(sha256(convert_to(price_ledger_hash_payload(NEW), 'UTF8')), 'hex');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER price_ledger_chain
+    BEFORE INSERT ON price_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION link_price_ledger_entry();
+
+COMMENT ON FUNCTION link_price_ledger_entry() IS 'Links a new price_ledger entry to the hash chain of its organization';
+COMMENT ON TRIGGER price_ledger_chain ON price_ledger IS 'Fills organization_id, chain_position, previous_hash and entry_hash on INSERT';
+
+
+-- ============================================================================
+-- BACKFILL EXISTING ENTRIES
+-- ============================================================================
+-- Only the new chain columns are written; price data and timestamps stay as
+-- they are. The immutability trigger is switched off for this one-time update.
+
+ALTER TABLE price_ledger DISABLE TRIGGER price_ledger_immutable;
+
+DO $$
+DECLARE
+    rec RECORD;
+    entry price_ledger;
+    last_org UUID := NULL;
+    chain_pos BIGINT := 0;
+    last_hash TEXT := NULL;
+BEGIN
+    FOR rec IN
+        SELECT pl.id, p.organization_id
+        FROM price_ledger pl
+        JOIN products p ON p.id = pl.product_id
+        ORDER BY p.organization_id, pl.created_at, pl.id
+    LOOP
+        IF last_org IS DISTINCT FROM rec.organization_id THEN
+            last_org := rec.organization_id;
+            chain_pos := 0;
+            last_hash := NULL;
+        END IF;
+
+        SELECT * INTO entry FROM price_ledger WHERE id = rec.id;
+
+        chain_pos := chain_pos + 1;
+        entry.organization_id := rec.organization_id;
+        entry.chain_position := chain_pos;
+        entry.previous_hash := last_hash;
+        entry.entry_hash := encode(sha256(convert_to(price_ledger_hash_payload(entry), 'UTF8')), 'hex');
+
+        UPDATE price_ledger
+        SET organization_id = entry.organization_id,
+            chain_position = entry.chain_position,
+            previous_hash = entry.previous_hash,
+            entry_hash = entry.entry_hash
+        WHERE id = entry.id;
+
+        last_hash := entry.entry_hash;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE price_ledger ENABLE TRIGGER price_ledger_immutable;
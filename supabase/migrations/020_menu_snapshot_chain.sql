@@ -0,0 +1,47 @@
+-- Migration: 020_menu_snapshot_chain
+-- Description: Hash chain over menu snapshot versions
+-- Created: 2026-10-18
+--
+-- Each snapshot hash only covered its own content, so deleting or replacing
+-- a whole version went unnoticed. From here on every snapshot hash also
+-- covers the hash of the version before it:
+-- 1. menu_snapshots.previous_hash - hash of the previous version
+--    (64 zeros for the first version; NULL for versions published before
+--    this migration, whose hashes stay as they were)
+-- 2. menu_snapshot_chain_heads - latest version and hash per organization,
+--    exported as a daily digest (/api/cron/snapshot-digest) and archived
+--    outside the database
+--
+-- The hashed payload and the whole-history verifier live in
+-- lib/services/snapshot.ts (computeSnapshotHash, verifySnapshotChain).
+
+-- ============================================================================
+-- MENU_SNAPSHOTS.PREVIOUS_HASH
+-- ============================================================================
+
+ALTER TABLE menu_snapshots ADD COLUMN previous_hash TEXT;
+
+COMMENT ON COLUMN menu_snapshots.previous_hash IS 'Hash of the previous version (64 zeros for the first; NULL = published before hash chaining)';
+COMMENT ON COLUMN menu_snapshots.hash IS 'SHA-256 of snapshot_data, together with previous_hash for chained snapshots';
+
+
+-- ============================================================================
+-- MENU_SNAPSHOT_CHAIN_HEADS VIEW
+-- ============================================================================
+-- security_invoker keeps the menu_snapshots RLS of the querying user; the
+-- daily digest job reads every organization with the service role.
+
+CREATE VIEW menu_snapshot_chain_heads
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (ms.organization_id)
+    ms.organization_id,
+    o.slug AS organization_slug,
+    ms.id AS snapshot_id,
+    ms.version,
+    ms.hash,
+    ms.created_at
+FROM menu_snapshots ms
+JOIN organizations o ON o.id = ms.organization_id
+ORDER BY ms.organization_id, ms.version DESC, ms.created_at DESC;
+
+COMMENT ON VIEW menu_snapshot_chain_heads IS 'Latest snapshot version and hash per organization (chain head for external archiving)';
@@ -0,0 +1,27 @@
+-- Migration: 021_snapshot_hash_algorithm
+-- Description: Versioned hash algorithm for menu snapshots
+-- Created: 2026-10-18
+--
+-- Snapshot hashes were computed over JSON.stringify output, whose key order
+-- follows the object the menu was built from. JSONB returns keys in its own
+-- order, so re-hashing snapshot_data read back from the database could fail
+-- for an untouched snapshot. New snapshots are hashed over canonical JSON
+-- (sorted keys, normalized numbers and dates):
+-- 1. menu_snapshots.hash_algorithm - serialization the hash was computed with
+--    - sha256-json-v1: JSON.stringify (every snapshot published so far)
+--    - sha256-canonical-v2: canonical JSON (lib/json/canonical.ts)
+--
+-- The column has no default after the backfill: whoever writes a snapshot
+-- must state how its hash was computed.
+
+-- ============================================================================
+-- MENU_SNAPSHOTS.HASH_ALGORITHM
+-- ============================================================================
+
+ALTER TABLE menu_snapshots
+    ADD COLUMN hash_algorithm TEXT NOT NULL DEFAULT 'sha256-json-v1'
+    CHECK (hash_algorithm IN ('sha256-json-v1', 'sha256-canonical-v2'));
+
+ALTER TABLE menu_snapshots ALTER COLUMN hash_algorithm DROP DEFAULT;
+
+COMMENT ON COLUMN menu_snapshots.hash_algorithm IS 'Serialization of the hashed data: sha256-json-v1 (JSON.stringify) or sha256-canonical-v2 (canonical JSON)';
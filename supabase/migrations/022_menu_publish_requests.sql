@@ -0,0 +1,81 @@
+-- Migration: 022_menu_publish_requests
+-- Description: Publish approval for menu drafts
+-- Created: 2026-10-18
+--
+-- Managers can no longer publish the menu directly. They review the draft
+-- preview (/menu/[slug]/preview) and send it for approval; an owner or admin
+-- approves (publishes a snapshot) or rejects it:
+-- 1. menu_publish_requests - one row per request with the reviewed draft hash
+--    (approval fails if the menu changed after the request was sent)
+-- 2. At most one pending request per organization
+--
+-- Price changes keep publishing immediately (price ledger requirement).
+
+-- ============================================================================
+-- MENU_PUBLISH_REQUESTS TABLE
+-- ============================================================================
+
+CREATE TABLE menu_publish_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    draft_hash TEXT NOT NULL,
+    note TEXT,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    review_note TEXT,
+    snapshot_id UUID REFERENCES menu_snapshots(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_menu_publish_requests_org
+    ON menu_publish_requests(organization_id, created_at DESC);
+
+-- One pending request per organization
+CREATE UNIQUE INDEX idx_menu_publish_requests_pending
+    ON menu_publish_requests(organization_id)
+    WHERE status = 'pending';
+
+COMMENT ON TABLE menu_publish_requests IS 'Menu drafts sent for publish approval (manager prepares, owner/admin publishes)';
+COMMENT ON COLUMN menu_publish_requests.draft_hash IS 'Hash of the draft menu data when the request was sent (see computeDraftHash)';
+COMMENT ON COLUMN menu_publish_requests.snapshot_id IS 'Snapshot published when the request was approved';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Members can read and write requests of their organizations; the roles
+-- allowed to send, approve and reject are checked by the API. Requests are
+-- never deleted.
+
+ALTER TABLE menu_publish_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view publish requests in their organizations"
+ON menu_publish_requests FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can create publish requests in their organizations"
+ON menu_publish_requests FOR INSERT
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Users can review publish requests in their organizations"
+ON menu_publish_requests FOR UPDATE
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view publish requests in their organizations" ON menu_publish_requests
+IS 'View publish requests of member organizations';
+COMMENT ON POLICY "Users can create publish requests in their organizations" ON menu_publish_requests
+IS 'Send publish requests for member organizations (roles checked by the API)';
+COMMENT ON POLICY "Users can review publish requests in their organizations" ON menu_publish_requests
+IS 'Approve, reject or cancel publish requests of member organizations (roles checked by the API)';
@@ -0,0 +1,94 @@
+-- Migration: 023_retention
+-- Description: Plan based retention for audit logs and service requests (retention_days)
+-- Created: 2026-10-18
+--
+-- Every plan has a retention_days limit (7 days on Free, 3650 on Enterprise).
+-- A daily job (/api/cron/retention) applies it per organization:
+-- 1. service_requests.archived_at - set on requests older than the limit;
+--    archived requests are hidden from members
+-- 2. organization_retention - the applied limit and archive cutoff of each
+--    organization; audit_logs are immutable, so older entries are hidden by
+--    the cutoff instead of being marked (a longer limit shows them again)
+-- 3. RLS: members only see audit_logs and service_requests inside the window
+--
+-- Legal records (price_ledger, menu_snapshots) are never archived or hidden.
+
+-- ============================================================================
+-- SERVICE_REQUESTS.ARCHIVED_AT
+-- ============================================================================
+
+ALTER TABLE service_requests ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_service_requests_org_unarchived ON service_requests(organization_id, created_at)
+    WHERE archived_at IS NULL;
+
+COMMENT ON COLUMN service_requests.archived_at IS 'Set by the retention job when the request is older than the plan retention_days (hidden from members)';
+
+
+-- ============================================================================
+-- ORGANIZATION_RETENTION TABLE
+-- ============================================================================
+
+CREATE TABLE organization_retention (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    retention_days INTEGER NOT NULL,
+    archived_before TIMESTAMPTZ,
+    applied_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE organization_retention IS 'Retention applied by the daily retention job - written via service role only';
+COMMENT ON COLUMN organization_retention.retention_days IS 'Applied retention_days limit (-1 = unlimited)';
+COMMENT ON COLUMN organization_retention.archived_before IS 'Records created before this time are hidden from members (NULL = nothing hidden)';
+COMMENT ON COLUMN organization_retention.applied_at IS 'When the retention job last ran for the organization';
+
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE organization_retention ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view retention of their organizations"
+ON organization_retention FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view retention of their organizations" ON organization_retention
+IS 'View the applied retention of member organizations (written via service role only)';
+
+-- Audit logs older than the archive cutoff are hidden
+DROP POLICY "Users can view audit logs for their organizations" ON audit_logs;
+
+CREATE POLICY "Users can view audit logs for their organizations"
+ON audit_logs FOR SELECT
+USING (
+    (
+        organization_id IN (SELECT auth.user_org_ids())
+        AND NOT EXISTS (
+            SELECT 1 FROM organization_retention r
+            WHERE r.organization_id = audit_logs.organization_id
+              AND audit_logs.created_at < r.archived_before
+        )
+    )
+    OR organization_id IS NULL  -- Allow viewing system-level logs (super admin actions)
+);
+
+COMMENT ON POLICY "Users can view audit logs for their organizations" ON audit_logs
+IS 'Users can view audit logs for their organizations inside the retention window (INSERT via service role only)';
+
+-- Archived service requests are hidden
+DROP POLICY "Users can manage service requests in their organizations" ON service_requests;
+
+CREATE POLICY "Users can manage service requests in their organizations"
+ON service_requests FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+    AND archived_at IS NULL
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can manage service requests in their organizations" ON service_requests
+IS 'Full CRUD access to unarchived service requests for organization members';
@@ -0,0 +1,54 @@
+-- Migration: 024_translation_ownership
+-- Description: Require translations to belong to the same organization as their product/category
+-- Created: 2026-10-18
+--
+-- The translation policies from 008 only checked organization_id, so a member
+-- could attach a translation row under their own organization to another
+-- tenant's product_id or category_id. The policies now also require the
+-- translated product/category to belong to the row's organization.
+
+-- ============================================================================
+-- PRODUCT_TRANSLATIONS
+-- ============================================================================
+
+DROP POLICY "Users can manage product translations in their organizations" ON product_translations;
+
+CREATE POLICY "Users can manage product translations in their organizations"
+ON product_translations FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+    AND EXISTS (
+        SELECT 1 FROM products
+        WHERE products.id = product_translations.product_id
+        AND products.organization_id = product_translations.organization_id
+    )
+);
+
+COMMENT ON POLICY "Users can manage product translations in their organizations" ON product_translations
+IS 'Manage translations in member organizations; the product must belong to the same organization';
+
+-- ============================================================================
+-- CATEGORY_TRANSLATIONS
+-- ============================================================================
+
+DROP POLICY "Users can manage category translations in their organizations" ON category_translations;
+
+CREATE POLICY "Users can manage category translations in their organizations"
+ON category_translations FOR ALL
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+)
+WITH CHECK (
+    organization_id IN (SELECT auth.user_org_ids())
+    AND EXISTS (
+        SELECT 1 FROM categories
+        WHERE categories.id = category_translations.category_id
+        AND categories.organization_id = category_translations.organization_id
+    )
+);
+
+COMMENT ON POLICY "Users can manage category translations in their organizations" ON category_translations
+IS 'Manage translations in member organizations; the category must belong to the same organization';
@@ -0,0 +1,118 @@
+-- Migration: 025_price_revision_limit_enforcement
+-- Description: Enforce limit_price_revisions when price_ledger entries are inserted
+-- Created: 2026-10-18
+--
+-- checkPriceRevisionLimit counts price_revisions and the entry is inserted in
+-- a separate step, so concurrent price changes could all pass the count and
+-- go over the monthly Free/Lite quota. The limit is now checked again inside
+-- the INSERT:
+-- 1. price_revision_limit(org) - effective limit (override first, then plan;
+--    NULL when the organization has no limit row = unlimited, as checkLimit
+--    treats -1)
+-- 2. price_ledger_revision_limit trigger - counts the revisions of the
+--    current period under the organization's price_ledger advisory lock and
+--    rejects the entry with SQLSTATE EM429 when the quota is used up
+--
+-- The application check stays as an early, friendly message; this trigger is
+-- the authority. First prices of new products/variants are not revisions and
+-- are never blocked.
+
+-- ============================================================================
+-- EFFECTIVE LIMIT
+-- ============================================================================
+-- Mirrors checkLimit(orgId, 'limit_price_revisions', ...): a non-expired
+-- override with a value_limit wins over the plan value.
+
+CREATE OR REPLACE FUNCTION price_revision_limit(org_id UUID)
+RETURNS INT AS $$
+    SELECT COALESCE(
+        (
+            SELECT o.value_limit
+            FROM organization_feature_overrides o
+            JOIN features f ON f.id = o.feature_id
+            WHERE o.organization_id = org_id
+              AND f.key = 'limit_price_revisions'
+              AND o.value_limit IS NOT NULL
+              AND (o.expires_at IS NULL OR o.expires_at > now())
+        ),
+        (
+            SELECT v.value_limit
+            FROM v_organization_features v
+            WHERE v.organization_id = org_id
+              AND v.feature_key = 'limit_price_revisions'
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION price_revision_limit(UUID) IS 'Effective limit_price_revisions of an organization (NULL or -1 = unlimited)';
+
+
+-- ============================================================================
+-- LIMIT TRIGGER
+-- ============================================================================
+-- Uses the advisory lock key of the price_ledger_chain trigger, so writers of
+-- the same organization are serialized until their transaction ends. Rows
+-- inserted earlier by the same statement (bulk repricing) are visible to the
+-- count, so a bulk change cannot go over the quota either.
+
+CREATE OR REPLACE FUNCTION enforce_price_revision_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    org_id UUID;
+    revision_limit INT;
+    period TEXT;
+    period_start TIMESTAMPTZ;
+    used INT;
+BEGIN
+    -- The first price of a product or variant is not a revision
+    IF NOT EXISTS (
+        SELECT 1 FROM price_ledger
+        WHERE product_id = NEW.product_id
+          AND variant_id IS NOT DISTINCT FROM NEW.variant_id
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT organization_id INTO org_id
+    FROM products
+    WHERE id = NEW.product_id;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended(org_id::TEXT, 19));
+
+    revision_limit := price_revision_limit(org_id);
+
+    IF revision_limit IS NULL OR revision_limit < 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT limit_period INTO period
+    FROM features
+    WHERE key = 'limit_price_revisions';
+
+    -- Calendar periods in UTC, weeks start on Monday (same as getPeriodStart)
+    period_start := CASE
+        WHEN period IS NULL THEN '-infinity'::TIMESTAMPTZ
+        ELSE date_trunc(period, now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    END;
+
+    SELECT count(*) INTO used
+    FROM price_revisions
+    WHERE organization_id = org_id
+      AND created_at >= period_start;
+
+    IF used >= revision_limit THEN
+        RAISE EXCEPTION 'Price revision limit reached for this period (% of %)', used, revision_limit
+            USING ERRCODE = 'EM429';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER price_ledger_revision_limit
+    BEFORE INSERT ON price_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_price_revision_limit();
+
+COMMENT ON FUNCTION enforce_price_revision_limit() IS 'Rejects price revisions over the limit_price_revisions quota of the current period';
+COMMENT ON TRIGGER price_ledger_revision_limit ON price_ledger IS 'Enforces limit_price_revisions atomically on INSERT (SQLSTATE EM429)';
@@ -0,0 +1,110 @@
+-- Migration: 026_publish_roles
+-- Description: Enforce publish roles for menu_publish_requests and menu_snapshots in RLS
+-- Created: 2026-10-18
+--
+-- The policies from 007 and 022 only checked membership, so any member could
+-- approve a publish request or insert a snapshot directly through the
+-- Supabase API, skipping the role checks of the routes:
+-- 1. menu_publish_requests - owners, admins and managers send requests for
+--    themselves; only owners and admins approve or reject; owners, admins and
+--    managers can cancel a pending request
+-- 2. menu_snapshots - members read, only owners and admins publish. Price
+--    changes by managers and the scheduled publish job insert with the
+--    service role. Snapshots are append-only, so there is no UPDATE or DELETE
+--    policy.
+
+-- ============================================================================
+-- MENU_PUBLISH_REQUESTS
+-- ============================================================================
+
+DROP POLICY "Users can create publish requests in their organizations" ON menu_publish_requests;
+DROP POLICY "Users can review publish requests in their organizations" ON menu_publish_requests;
+
+CREATE POLICY "Editors can send publish requests"
+ON menu_publish_requests FOR INSERT
+WITH CHECK (
+    status = 'pending'
+    AND requested_by = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_publish_requests.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'manager')
+    )
+);
+
+CREATE POLICY "Owners and admins can review publish requests"
+ON menu_publish_requests FOR UPDATE
+USING (
+    EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_publish_requests.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_publish_requests.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+);
+
+CREATE POLICY "Editors can cancel pending publish requests"
+ON menu_publish_requests FOR UPDATE
+USING (
+    status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_publish_requests.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'manager')
+    )
+)
+WITH CHECK (
+    status = 'cancelled'
+    AND reviewed_by = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_publish_requests.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'manager')
+    )
+);
+
+COMMENT ON POLICY "Editors can send publish requests" ON menu_publish_requests
+IS 'Owners, admins and managers send pending requests in their own name';
+COMMENT ON POLICY "Owners and admins can review publish requests" ON menu_publish_requests
+IS 'Approve or reject publish requests (owner/admin only)';
+COMMENT ON POLICY "Editors can cancel pending publish requests" ON menu_publish_requests
+IS 'Owners, admins and managers can only move a pending request to cancelled';
+
+-- ============================================================================
+-- MENU_SNAPSHOTS
+-- ============================================================================
+
+DROP POLICY "Users can manage menu snapshots in their organizations" ON menu_snapshots;
+
+CREATE POLICY "Users can view menu snapshots in their organizations"
+ON menu_snapshots FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+CREATE POLICY "Owners and admins can publish menu snapshots"
+ON menu_snapshots FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM organization_members
+        WHERE organization_id = menu_snapshots.organization_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+);
+
+COMMENT ON POLICY "Users can view menu snapshots in their organizations" ON menu_snapshots
+IS 'Read menu snapshots of member organizations';
+COMMENT ON POLICY "Owners and admins can publish menu snapshots" ON menu_snapshots
+IS 'Insert snapshots (owner/admin only; price publishes and scheduled jobs use the service role)';
@@ -0,0 +1,172 @@
+-- Migration: 027_audit_triggers
+-- Description: Record dashboard and admin page changes in audit_logs from database triggers
+-- Created: 2026-10-18
+--
+-- Dashboard and admin pages write these tables with the browser client (RLS).
+-- Until now the page reported each change to the server afterwards, so an
+-- entry could be skipped or forged by the client. The audit_row_change
+-- trigger now writes the entry in the same transaction as the change:
+-- 1. user_id is auth.uid(); writes without a user session (service role jobs,
+--    guest service requests) are not recorded here, server code records
+--    those with writeAuditLog
+-- 2. organization_id comes from the row; platform tables (plans, features,
+--    plan_features) and deleted organizations are recorded with NULL
+-- 3. Updates store only the changed columns (updated_at ignored) and are
+--    skipped when nothing changed. An is_active-only change is recorded as
+--    activate/deactivate, a subscription plan change as plan_change and
+--    feature overrides as override_add/override_remove
+-- 4. IP address and user agent come from the PostgREST request headers
+--
+-- Rows removed by the cascade of an organization delete are not recorded one
+-- by one; the organization delete entry covers them.
+
+-- ============================================================================
+-- AUDIT TRIGGER FUNCTION
+-- ============================================================================
+-- TG_ARGV[0] is the entity_type of the entries (product, category, ...).
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    entity TEXT := TG_ARGV[0];
+    old_row JSONB;
+    new_row JSONB;
+    row_id UUID;
+    org_id UUID;
+    audit_action TEXT;
+    headers JSONB;
+    client_ip INET;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        old_row := to_jsonb(OLD) - 'updated_at';
+    END IF;
+
+    IF TG_OP <> 'DELETE' THEN
+        new_row := to_jsonb(NEW) - 'updated_at';
+    END IF;
+
+    row_id := (COALESCE(new_row, old_row)->>'id')::UUID;
+
+    IF TG_TABLE_NAME = 'organizations' THEN
+        -- A deleted organization can no longer be referenced
+        org_id := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE row_id END;
+    ELSE
+        org_id := (COALESCE(new_row, old_row)->>'organization_id')::UUID;
+    END IF;
+
+    -- Part of an organization delete
+    IF TG_OP = 'DELETE'
+       AND org_id IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM organizations WHERE id = org_id) THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        audit_action := CASE WHEN entity = 'feature_override' THEN 'override_add' ELSE 'create' END;
+    ELSIF TG_OP = 'DELETE' THEN
+        audit_action := CASE WHEN entity = 'feature_override' THEN 'override_remove' ELSE 'delete' END;
+    ELSE
+        -- Keep only the changed columns
+        SELECT
+            jsonb_object_agg(o.key, o.value),
+            jsonb_object_agg(o.key, new_row->o.key)
+        INTO old_row, new_row
+        FROM jsonb_each(old_row) o
+        WHERE o.value IS DISTINCT FROM new_row->o.key;
+
+        IF old_row IS NULL THEN
+            RETURN NULL;
+        END IF;
+
+        audit_action := CASE
+            WHEN entity = 'subscription' AND new_row ? 'plan_id' THEN 'plan_change'
+            WHEN new_row ? 'is_active' AND (SELECT count(*) FROM jsonb_object_keys(new_row)) = 1 THEN
+                CASE WHEN (new_row->>'is_active')::BOOLEAN THEN 'activate' ELSE 'deactivate' END
+            ELSE 'update'
+        END;
+    END IF;
+
+    headers := NULLIF(current_setting('request.headers', true), '')::JSONB;
+
+    BEGIN
+        client_ip := NULLIF(trim(split_part(headers->>'x-forwarded-for', ',', 1)), '')::INET;
+    EXCEPTION WHEN invalid_text_representation THEN
+        client_ip := NULL;
+    END;
+
+    INSERT INTO audit_logs (
+        organization_id, user_id, action, entity_type, entity_id,
+        old_data, new_data, ip_address, user_agent
+    )
+    VALUES (
+        org_id, auth.uid(), audit_action, entity, row_id,
+        old_row, new_row, client_ip, headers->>'user-agent'
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION audit_row_change() IS 'Writes an audit_logs entry for a change made with a user session (entity_type in TG_ARGV[0])';
+
+
+-- ============================================================================
+-- DASHBOARD TABLES
+-- ============================================================================
+
+CREATE TRIGGER organizations_audit
+    AFTER INSERT OR UPDATE OR DELETE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('organization');
+
+CREATE TRIGGER categories_audit
+    AFTER INSERT OR UPDATE OR DELETE ON categories
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('category');
+
+CREATE TRIGGER category_translations_audit
+    AFTER INSERT OR UPDATE OR DELETE ON category_translations
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('category_translation');
+
+CREATE TRIGGER products_audit
+    AFTER INSERT OR UPDATE OR DELETE ON products
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('product');
+
+CREATE TRIGGER product_translations_audit
+    AFTER INSERT OR UPDATE OR DELETE ON product_translations
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('product_translation');
+
+CREATE TRIGGER restaurant_tables_audit
+    AFTER INSERT OR UPDATE OR DELETE ON restaurant_tables
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('restaurant_table');
+
+CREATE TRIGGER service_requests_audit
+    AFTER INSERT OR UPDATE OR DELETE ON service_requests
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('service_request');
+
+
+-- ============================================================================
+-- ADMIN PANEL TABLES
+-- ============================================================================
+
+CREATE TRIGGER plans_audit
+    AFTER INSERT OR UPDATE OR DELETE ON plans
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('plan');
+
+CREATE TRIGGER features_audit
+    AFTER INSERT OR UPDATE OR DELETE ON features
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('feature');
+
+CREATE TRIGGER plan_features_audit
+    AFTER INSERT OR UPDATE OR DELETE ON plan_features
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('plan_feature');
+
+CREATE TRIGGER subscriptions_audit
+    AFTER INSERT OR UPDATE OR DELETE ON subscriptions
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('subscription');
+
+CREATE TRIGGER organization_feature_overrides_audit
+    AFTER INSERT OR UPDATE OR DELETE ON organization_feature_overrides
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('feature_override');
@@ -0,0 +1,33 @@
+-- Migration: 028_menu_snapshot_versions
+-- Description: One menu snapshot per version and organization
+-- Created: 2026-10-18
+--
+-- insertMenuSnapshot reads the latest version and hash, then inserts the
+-- next version. Two publishes at the same time (publish route, request
+-- approval, price changes, rollback, scheduled prices job) could read the
+-- same head and both insert it, which forks the hash chain for good. With
+-- this index the second insert fails with a unique violation, and
+-- insertMenuSnapshot re-reads the head and chains to the new one.
+
+-- Existing forks must be resolved by hand; the index cannot be built over them
+DO $$
+DECLARE
+    duplicate RECORD;
+BEGIN
+    SELECT organization_id, version INTO duplicate
+    FROM menu_snapshots
+    GROUP BY organization_id, version
+    HAVING count(*) > 1
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'menu_snapshots has more than one row for organization % version %',
+            duplicate.organization_id, duplicate.version;
+    END IF;
+END;
+$$;
+
+CREATE UNIQUE INDEX idx_menu_snapshots_org_version_unique
+    ON menu_snapshots(organization_id, version);
+
+COMMENT ON INDEX idx_menu_snapshots_org_version_unique IS 'One snapshot per version: concurrent publishes cannot fork the hash chain';
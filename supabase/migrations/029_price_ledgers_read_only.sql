@@ -0,0 +1,78 @@
+-- Migration: 029_price_ledgers_read_only
+-- Description: Make the services the only write path for the happy hour, add-on and bundle price ledgers
+-- Created: 2026-10-18
+--
+-- 016 locked price_ledger down, but discounted_price_ledger,
+-- modifier_price_ledger and bundle_price_ledger still let members insert
+-- from the browser, skipping the change reason and the audit trail. From
+-- here on:
+-- 1. Users can only read entries of their organizations
+-- 2. Entries are inserted server-side with the service role after the
+--    ownership check: recordDiscountedPrices (menu publish),
+--    recordModifierPrices (add-on groups) and recordBundlePrice (bundles)
+-- 3. Add-on and bundle price entries also write an audit_logs row with
+--    action = 'price_change'
+--
+-- UPDATE and DELETE stay blocked by the immutability triggers.
+
+-- ============================================================================
+-- DISCOUNTED_PRICE_LEDGER
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view and add discounted prices in their organizations" ON discounted_price_ledger;
+
+CREATE POLICY "Users can view discounted prices in their organizations"
+ON discounted_price_ledger FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view discounted prices in their organizations" ON discounted_price_ledger
+IS 'View discounted price entries of member organizations. INSERT via service role only (menu publish)';
+
+-- ============================================================================
+-- MODIFIER_PRICE_LEDGER
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view and add modifier prices in their organizations" ON modifier_price_ledger;
+
+CREATE POLICY "Users can view modifier prices in their organizations"
+ON modifier_price_ledger FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view modifier prices in their organizations" ON modifier_price_ledger
+IS 'View add-on price entries of member organizations. INSERT via service role only (add-on group API)';
+
+-- ============================================================================
+-- BUNDLE_PRICE_LEDGER
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view and add bundle prices in their organizations" ON bundle_price_ledger;
+
+CREATE POLICY "Users can view bundle prices in their organizations"
+ON bundle_price_ledger FOR SELECT
+USING (
+    organization_id IN (SELECT auth.user_org_ids())
+);
+
+COMMENT ON POLICY "Users can view bundle prices in their organizations" ON bundle_price_ledger
+IS 'View bundle price entries of member organizations. INSERT via service role only (bundle API)';
+
+-- ============================================================================
+-- CHANGE REASON
+-- ============================================================================
+-- As in 016, NOT VALID keeps older entries without a reason readable.
+
+ALTER TABLE discounted_price_ledger
+    ADD CONSTRAINT discounted_price_ledger_change_reason_required
+    CHECK (change_reason IS NOT NULL AND length(trim(change_reason)) > 0) NOT VALID;
+
+ALTER TABLE modifier_price_ledger
+    ADD CONSTRAINT modifier_price_ledger_change_reason_required
+    CHECK (change_reason IS NOT NULL AND length(trim(change_reason)) > 0) NOT VALID;
+
+ALTER TABLE bundle_price_ledger
+    ADD CONSTRAINT bundle_price_ledger_change_reason_required
+    CHECK (change_reason IS NOT NULL AND length(trim(change_reason)) > 0) NOT VALID;
@@ -0,0 +1,311 @@
+-- Migration: 030_menu_rollback
+-- Description: Roll back the menu and every price ledger in one transaction
+-- Created: 2026-10-18
+--
+-- rollbackMenuSnapshot used to write the restored prices, the snapshot and
+-- the audit entry one after another. When the snapshot insert failed, the
+-- ledger was already ahead of the published menu; add-on and bundle prices
+-- were not restored at all, and the restored prices used up the
+-- limit_price_revisions quota, so a Free/Lite menu could not be rolled back
+-- after two bad price changes. From here on:
+-- 1. price_ledger_rollbacks - price_ledger entries written by a rollback
+--    (the ledger itself stays INSERT-only)
+-- 2. price_revisions / price_ledger_revision_limit - rollback entries are not
+--    revisions: they are not counted and never blocked
+-- 3. rollback_menu_snapshot() - inserts the snapshot, the price_ledger,
+--    discounted_price_ledger, modifier_price_ledger and bundle_price_ledger
+--    entries and the audit_logs rows in one transaction (service role only)
+--
+-- The snapshot hash is still computed by the application (canonical JSON), so
+-- the caller passes the version, previous_hash and hash it chained to. A
+-- concurrent publish makes the insert fail on the 028 unique index and the
+-- whole rollback is undone; the application reads the new head and retries.
+
+-- ============================================================================
+-- PRICE_LEDGER_ROLLBACKS TABLE (IMMUTABLE - INSERT ONLY)
+-- ============================================================================
+
+CREATE TABLE price_ledger_rollbacks (
+    price_ledger_id UUID PRIMARY KEY REFERENCES price_ledger(id) ON DELETE CASCADE,
+    menu_snapshot_id UUID NOT NULL REFERENCES menu_snapshots(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_price_ledger_rollbacks_snapshot ON price_ledger_rollbacks(menu_snapshot_id);
+
+CREATE TRIGGER price_ledger_rollbacks_immutable
+    BEFORE UPDATE OR DELETE ON price_ledger_rollbacks
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_price_modification();
+
+COMMENT ON TABLE price_ledger_rollbacks IS 'IMMUTABLE links from price_ledger entries to the rollback snapshot that restored them - INSERT only';
+
+ALTER TABLE price_ledger_rollbacks ENABLE ROW LEVEL SECURITY;
+
+-- price_revisions runs with the caller's RLS and must see these rows
+CREATE POLICY "Users can view price rollbacks in their organizations"
+ON price_ledger_rollbacks FOR SELECT
+USING (
+    price_ledger_id IN (
+        SELECT id FROM price_ledger
+        WHERE organization_id IN (SELECT auth.user_org_ids())
+    )
+);
+
+COMMENT ON POLICY "Users can view price rollbacks in their organizations" ON price_ledger_rollbacks
+IS 'View rollback entries of member organizations. INSERT via rollback_menu_snapshot only';
+
+
+-- ============================================================================
+-- PRICE_REVISIONS VIEW
+-- ============================================================================
+-- Same as 018, without the entries restored by a rollback.
+
+CREATE OR REPLACE VIEW price_revisions
+WITH (security_invoker = true) AS
+SELECT
+    pl.id,
+    p.organization_id,
+    pl.product_id,
+    pl.variant_id,
+    pl.created_at
+FROM price_ledger pl
+JOIN products p ON p.id = pl.product_id
+WHERE EXISTS (
+      SELECT 1 FROM price_ledger prev
+      WHERE prev.product_id = pl.product_id
+        AND prev.variant_id IS NOT DISTINCT FROM pl.variant_id
+        AND prev.created_at < pl.created_at
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_cancellations c WHERE c.price_ledger_id = pl.id
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM price_ledger_rollbacks r WHERE r.price_ledger_id = pl.id
+  );
+
+COMMENT ON VIEW price_revisions IS 'price_ledger entries that revise an existing price, rollbacks excluded (counted by limit_price_revisions)';
+
+
+-- ============================================================================
+-- LIMIT TRIGGER
+-- ============================================================================
+-- Same as 025. rollback_menu_snapshot sets emenum.price_rollback for its own
+-- transaction before inserting; the setting cannot be changed through the
+-- API, and price_ledger only accepts service role inserts anyway (016).
+
+CREATE OR REPLACE FUNCTION enforce_price_revision_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    org_id UUID;
+    revision_limit INT;
+    period TEXT;
+    period_start TIMESTAMPTZ;
+    used INT;
+BEGIN
+    -- Entries restored by a menu rollback are not revisions
+    IF current_setting('emenum.price_rollback', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    -- The first price of a product or variant is not a revision
+    IF NOT EXISTS (
+        SELECT 1 FROM price_ledger
+        WHERE product_id = NEW.product_id
+          AND variant_id IS NOT DISTINCT FROM NEW.variant_id
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT organization_id INTO org_id
+    FROM products
+    WHERE id = NEW.product_id;
+
+    PERFORM pg_advisory_xact_lock(hashtextextended(org_id::TEXT, 19));
+
+    revision_limit := price_revision_limit(org_id);
+
+    IF revision_limit IS NULL OR revision_limit < 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT limit_period INTO period
+    FROM features
+    WHERE key = 'limit_price_revisions';
+
+    -- Calendar periods in UTC, weeks start on Monday (same as getPeriodStart)
+    period_start := CASE
+        WHEN period IS NULL THEN '-infinity'::TIMESTAMPTZ
+        ELSE date_trunc(period, now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    END;
+
+    SELECT count(*) INTO used
+    FROM price_revisions
+    WHERE organization_id = org_id
+      AND created_at >= period_start;
+
+    IF used >= revision_limit THEN
+        RAISE EXCEPTION 'Price revision limit reached for this period (% of %)', used, revision_limit
+            USING ERRCODE = 'EM429';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION enforce_price_revision_limit() IS 'Rejects price revisions over the limit_price_revisions quota of the current period (menu rollbacks excluded)';
+
+
+-- ============================================================================
+-- ROLLBACK FUNCTION
+-- ============================================================================
+-- Arguments (built by rollbackMenuSnapshot in lib/services/snapshot.ts):
+--   p_snapshot          {snapshot_data, hash, previous_hash, hash_algorithm, version}
+--   p_prices            [{product_id, variant_id, price, currency, old_data}]
+--   p_discounted_prices [{product_id, price_rule_id, base_price, price, currency,
+--                         days_of_week, start_time, end_time, change_reason}]
+--   p_modifier_prices   [{option_id, price, currency, old_data}]
+--   p_bundle_prices     [{bundle_id, price, currency, old_data}]
+--   p_audit             {old_data, metadata} of the publish entry
+-- Every restored price also gets a price_change audit row, like a price
+-- changed from the dashboard.
+
+CREATE OR REPLACE FUNCTION rollback_menu_snapshot(
+    p_organization_id UUID,
+    p_user_id UUID,
+    p_change_reason TEXT,
+    p_snapshot JSONB,
+    p_prices JSONB,
+    p_discounted_prices JSONB,
+    p_modifier_prices JSONB,
+    p_bundle_prices JSONB,
+    p_audit JSONB
+)
+RETURNS menu_snapshots AS $$
+DECLARE
+    snapshot menu_snapshots;
+BEGIN
+    INSERT INTO menu_snapshots (organization_id, snapshot_data, hash, previous_hash, hash_algorithm, version)
+    VALUES (
+        p_organization_id,
+        p_snapshot->'snapshot_data',
+        p_snapshot->>'hash',
+        p_snapshot->>'previous_hash',
+        p_snapshot->>'hash_algorithm',
+        (p_snapshot->>'version')::INT
+    )
+    RETURNING * INTO snapshot;
+
+    PERFORM set_config('emenum.price_rollback', 'on', true);
+
+    WITH restored AS (
+        SELECT * FROM jsonb_to_recordset(p_prices)
+            AS r(product_id UUID, variant_id UUID, price NUMERIC, currency TEXT, old_data JSONB)
+    ),
+    entries AS (
+        INSERT INTO price_ledger (product_id, variant_id, price, currency, change_reason, changed_by)
+        SELECT product_id, variant_id, price, currency, p_change_reason, p_user_id
+        FROM restored
+        RETURNING id, product_id, variant_id, price, currency
+    ),
+    rollbacks AS (
+        INSERT INTO price_ledger_rollbacks (price_ledger_id, menu_snapshot_id)
+        SELECT id, snapshot.id FROM entries
+    )
+    INSERT INTO audit_logs (organization_id, user_id, action, entity_type, entity_id, old_data, new_data, metadata)
+    SELECT
+        p_organization_id,
+        p_user_id,
+        'price_change',
+        'product',
+        e.product_id,
+        r.old_data,
+        jsonb_build_object('price', e.price, 'currency', e.currency),
+        jsonb_build_object('change_reason', p_change_reason, 'price_ledger_id', e.id)
+            || CASE WHEN e.variant_id IS NULL THEN '{}'::JSONB ELSE jsonb_build_object('variant_id', e.variant_id) END
+    FROM entries e
+    JOIN restored r
+      ON r.product_id = e.product_id
+     AND r.variant_id IS NOT DISTINCT FROM e.variant_id;
+
+    PERFORM set_config('emenum.price_rollback', 'off', true);
+
+    INSERT INTO discounted_price_ledger (
+        organization_id, product_id, price_rule_id, base_price, price, currency,
+        days_of_week, start_time, end_time, change_reason, changed_by
+    )
+    SELECT
+        p_organization_id, product_id, price_rule_id, base_price, price, currency,
+        days_of_week, start_time, end_time, change_reason, p_user_id
+    FROM jsonb_to_recordset(p_discounted_prices) AS d(
+        product_id UUID, price_rule_id UUID, base_price NUMERIC, price NUMERIC, currency TEXT,
+        days_of_week INT[], start_time TIME, end_time TIME, change_reason TEXT
+    );
+
+    WITH restored AS (
+        SELECT * FROM jsonb_to_recordset(p_modifier_prices)
+            AS r(option_id UUID, price NUMERIC, currency TEXT, old_data JSONB)
+    ),
+    entries AS (
+        INSERT INTO modifier_price_ledger (organization_id, option_id, price, currency, change_reason, changed_by)
+        SELECT p_organization_id, option_id, price, currency, p_change_reason, p_user_id
+        FROM restored
+        RETURNING id, option_id, price, currency
+    )
+    INSERT INTO audit_logs (organization_id, user_id, action, entity_type, entity_id, old_data, new_data, metadata)
+    SELECT
+        p_organization_id,
+        p_user_id,
+        'price_change',
+        'modifier_option',
+        e.option_id,
+        r.old_data,
+        jsonb_build_object('price', e.price, 'currency', e.currency),
+        jsonb_build_object('change_reason', p_change_reason, 'modifier_price_ledger_id', e.id)
+    FROM entries e
+    JOIN restored r ON r.option_id = e.option_id;
+
+    WITH restored AS (
+        SELECT * FROM jsonb_to_recordset(p_bundle_prices)
+            AS r(bundle_id UUID, price NUMERIC, currency TEXT, old_data JSONB)
+    ),
+    entries AS (
+        INSERT INTO bundle_price_ledger (organization_id, bundle_id, price, currency, change_reason, changed_by)
+        SELECT p_organization_id, bundle_id, price, currency, p_change_reason, p_user_id
+        FROM restored
+        RETURNING id, bundle_id, price, currency
+    )
+    INSERT INTO audit_logs (organization_id, user_id, action, entity_type, entity_id, old_data, new_data, metadata)
+    SELECT
+        p_organization_id,
+        p_user_id,
+        'price_change',
+        'bundle',
+        e.bundle_id,
+        r.old_data,
+        jsonb_build_object('price', e.price, 'currency', e.currency),
+        jsonb_build_object('change_reason', p_change_reason, 'bundle_price_ledger_id', e.id)
+    FROM entries e
+    JOIN restored r ON r.bundle_id = e.bundle_id;
+
+    INSERT INTO audit_logs (organization_id, user_id, action, entity_type, entity_id, old_data, new_data, metadata)
+    VALUES (
+        p_organization_id,
+        p_user_id,
+        'publish',
+        'menu_snapshot',
+        snapshot.id,
+        NULLIF(p_audit->'old_data', 'null'::JSONB),
+        jsonb_build_object('version', snapshot.version, 'hash', snapshot.hash),
+        COALESCE(p_audit->'metadata', '{}'::JSONB)
+    );
+
+    RETURN snapshot;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Owner/admin access is checked by the rollback API before the call
+REVOKE ALL ON FUNCTION rollback_menu_snapshot(UUID, UUID, TEXT, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rollback_menu_snapshot(UUID, UUID, TEXT, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB) TO service_role;
+
+COMMENT ON FUNCTION rollback_menu_snapshot(UUID, UUID, TEXT, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB) IS 'Republishes a menu version with its restored prices and audit rows in one transaction (service role only)';
@@ -89,6 +89,7 @@ SELECT
         WHEN p.name = 'Free' AND f.key = 'retention_days' THEN NULL
         WHEN p.name = 'Free' AND f.key = 'export_formats' THEN NULL
         WHEN p.name = 'Free' AND f.key = 'ai_token_quota' THEN NULL
+        WHEN p.name = 'Free' AND f.key = 'limit_price_revisions' THEN NULL
         WHEN p.name = 'Free' AND f.type = 'boolean' THEN false
 
         -- Lite Plan
@@ -99,6 +100,7 @@ SELECT
         WHEN p.name = 'Lite' AND f.key = 'retention_days' THEN NULL
         WHEN p.name = 'Lite' AND f.key = 'export_formats' THEN NULL
         WHEN p.name = 'Lite' AND f.key = 'ai_token_quota' THEN NULL
+        WHEN p.name = 'Lite' AND f.key = 'limit_price_revisions' THEN NULL
         WHEN p.name = 'Lite' AND f.type = 'boolean' THEN false
 
         -- Gold Plan
@@ -110,6 +112,7 @@ SELECT
         WHEN p.name = 'Gold' AND f.key = 'retention_days' THEN NULL
         WHEN p.name = 'Gold' AND f.key = 'export_formats' THEN NULL
         WHEN p.name = 'Gold' AND f.key = 'ai_token_quota' THEN NULL
+        WHEN p.name = 'Gold' AND f.key = 'limit_price_revisions' THEN NULL
         WHEN p.name = 'Gold' AND f.type = 'boolean' THEN false
 
         -- Platinum Plan
@@ -123,6 +126,7 @@ SELECT
         WHEN p.name = 'Platinum' AND f.key = 'retention_days' THEN NULL
         WHEN p.name = 'Platinum' AND f.key = 'export_formats' THEN NULL
         WHEN p.name = 'Platinum' AND f.key = 'ai_token_quota' THEN NULL
+        WHEN p.name = 'Platinum' AND f.key = 'limit_price_revisions' THEN NULL
         WHEN p.name = 'Platinum' AND f.type = 'boolean' THEN false
 
         -- Enterprise Plan (all features enabled)
@@ -139,6 +143,7 @@ SELECT
         WHEN p.name = 'Free' AND f.key = 'retention_days' THEN 7
         WHEN p.name = 'Free' AND f.key = 'export_formats' THEN 1
         WHEN p.name = 'Free' AND f.key = 'ai_token_quota' THEN 0
+        WHEN p.name = 'Free' AND f.key = 'limit_price_revisions' THEN 2
 
         -- Lite Plan Limits
         WHEN p.name = 'Lite' AND f.key = 'limit_categories' THEN 10
@@ -147,6 +152,7 @@ SELECT
         WHEN p.name = 'Lite' AND f.key = 'retention_days' THEN 30
         WHEN p.name = 'Lite' AND f.key = 'export_formats' THEN 2
         WHEN p.name = 'Lite' AND f.key = 'ai_token_quota' THEN 0
+        WHEN p.name = 'Lite' AND f.key = 'limit_price_revisions' THEN 2
 
         -- Gold Plan Limits
         WHEN p.name = 'Gold' AND f.key = 'limit_categories' THEN 25
@@ -155,6 +161,7 @@ SELECT
         WHEN p.name = 'Gold' AND f.key = 'retention_days' THEN 90
         WHEN p.name = 'Gold' AND f.key = 'export_formats' THEN 3
         WHEN p.name = 'Gold' AND f.key = 'ai_token_quota' THEN 1000
+        WHEN p.name = 'Gold' AND f.key = 'limit_price_revisions' THEN -1
 
         -- Platinum Plan Limits
         WHEN p.name = 'Platinum' AND f.key = 'limit_categories' THEN 100
@@ -163,6 +170,7 @@ SELECT
         WHEN p.name = 'Platinum' AND f.key = 'retention_days' THEN 365
         WHEN p.name = 'Platinum' AND f.key = 'export_formats' THEN 5
         WHEN p.name = 'Platinum' AND f.key = 'ai_token_quota' THEN 10000
+        WHEN p.name = 'Platinum' AND f.key = 'limit_price_revisions' THEN -1
 
         -- Enterprise Plan Limits (unlimited represented as high values)
         WHEN p.name = 'Enterprise' AND f.key = 'limit_categories' THEN 999999
@@ -171,6 +179,7 @@ SELECT
         WHEN p.name = 'Enterprise' AND f.key = 'retention_days' THEN 3650
         WHEN p.name = 'Enterprise' AND f.key = 'export_formats' THEN 10
         WHEN p.name = 'Enterprise' AND f.key = 'ai_token_quota' THEN 100000
+        WHEN p.name = 'Enterprise' AND f.key = 'limit_price_revisions' THEN -1
 
         ELSE NULL
     END AS value_limit
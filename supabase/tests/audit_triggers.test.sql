@@ -0,0 +1,236 @@
+-- Tests: 027_audit_triggers
+-- Run with: supabase test db
+--
+-- Checks the audit_logs entries the audit_row_change triggers write:
+-- 1. Nothing is recorded without a user session (service role jobs)
+-- 2. create / update / delete with the changed columns only
+-- 3. Updates that change nothing (updated_at only) are skipped
+-- 4. is_active-only changes are activate / deactivate
+-- 5. A subscription plan change is plan_change
+-- 6. Feature overrides are override_add / override_remove
+-- 7. IP address and user agent come from the request headers
+--
+-- Everything runs in one transaction and is rolled back.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+-- ============================================================================
+-- FIXTURES (no user session: not audited)
+-- ============================================================================
+
+INSERT INTO auth.users (id, email)
+VALUES ('a0000000-0000-4000-8000-000000000001', 'audit-test@example.com');
+
+INSERT INTO organizations (id, name, slug)
+VALUES ('a0000000-0000-4000-8000-000000000010', 'Audit Cafe', 'audit-test-cafe');
+
+INSERT INTO plans (id, name)
+VALUES
+    ('a0000000-0000-4000-8000-000000000020', 'Audit Lite'),
+    ('a0000000-0000-4000-8000-000000000021', 'Audit Pro');
+
+INSERT INTO features (id, key, name, type)
+VALUES ('a0000000-0000-4000-8000-000000000030', 'audit_test_module', 'Audit Test', 'boolean');
+
+INSERT INTO subscriptions (id, organization_id, plan_id, status)
+VALUES (
+    'a0000000-0000-4000-8000-000000000040',
+    'a0000000-0000-4000-8000-000000000010',
+    'a0000000-0000-4000-8000-000000000020',
+    'active'
+);
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs WHERE organization_id = 'a0000000-0000-4000-8000-000000000010'),
+    0,
+    'Writes without a user session are not recorded'
+);
+
+-- ============================================================================
+-- USER SESSION
+-- ============================================================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "role": "authenticated"}', true);
+SELECT set_config('request.headers', '{"x-forwarded-for": "203.0.113.7, 10.0.0.1", "user-agent": "pgtap"}', true);
+
+-- create
+INSERT INTO categories (id, organization_id, name, slug)
+VALUES ('a0000000-0000-4000-8000-000000000050', 'a0000000-0000-4000-8000-000000000010', 'Kahveler', 'kahveler');
+
+SELECT results_eq(
+    $$SELECT action, entity_type, organization_id, user_id, new_data->>'name'
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000050'$$,
+    $$VALUES ('create', 'category', 'a0000000-0000-4000-8000-000000000010'::UUID,
+              'a0000000-0000-4000-8000-000000000001'::UUID, 'Kahveler')$$,
+    'Insert is recorded as create with the organization and the session user'
+);
+
+SELECT results_eq(
+    $$SELECT host(ip_address), user_agent
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000050'$$,
+    $$VALUES ('203.0.113.7', 'pgtap')$$,
+    'IP address is the first x-forwarded-for entry, user agent comes from the headers'
+);
+
+-- update: changed columns only
+UPDATE categories SET name = 'Sicak Kahveler'
+WHERE id = 'a0000000-0000-4000-8000-000000000050';
+
+SELECT results_eq(
+    $$SELECT old_data, new_data
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000050' AND action = 'update'$$,
+    $$VALUES ('{"name": "Kahveler"}'::JSONB, '{"name": "Sicak Kahveler"}'::JSONB)$$,
+    'Update keeps only the changed columns'
+);
+
+-- update that changes nothing (the updated_at trigger still fires)
+UPDATE categories SET name = 'Sicak Kahveler'
+WHERE id = 'a0000000-0000-4000-8000-000000000050';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000050' AND action = 'update'),
+    1,
+    'Update without changed columns is skipped'
+);
+
+-- activate / deactivate
+UPDATE organizations SET is_active = false
+WHERE id = 'a0000000-0000-4000-8000-000000000010';
+
+SELECT results_eq(
+    $$SELECT action, entity_type, old_data, new_data
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000010'$$,
+    $$VALUES ('deactivate', 'organization', '{"is_active": true}'::JSONB, '{"is_active": false}'::JSONB)$$,
+    'is_active set to false is recorded as deactivate'
+);
+
+UPDATE organizations SET is_active = true
+WHERE id = 'a0000000-0000-4000-8000-000000000010';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000010' AND action = 'activate'),
+    1,
+    'is_active set to true is recorded as activate'
+);
+
+UPDATE organizations SET is_active = false, name = 'Audit Cafe Kapali'
+WHERE id = 'a0000000-0000-4000-8000-000000000010';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000010' AND action = 'update'),
+    1,
+    'is_active changed together with other columns is recorded as update'
+);
+
+UPDATE plans SET is_active = false
+WHERE id = 'a0000000-0000-4000-8000-000000000020';
+
+SELECT results_eq(
+    $$SELECT action, entity_type, organization_id
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000020'$$,
+    $$VALUES ('deactivate', 'plan', NULL::UUID)$$,
+    'Platform tables are recorded without an organization'
+);
+
+-- plan_change
+UPDATE subscriptions
+SET plan_id = 'a0000000-0000-4000-8000-000000000021', billing_cycle = 'yearly'
+WHERE id = 'a0000000-0000-4000-8000-000000000040';
+
+SELECT results_eq(
+    $$SELECT action, entity_type, old_data->>'plan_id', new_data->>'plan_id'
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000040'$$,
+    $$VALUES ('plan_change', 'subscription',
+              'a0000000-0000-4000-8000-000000000020', 'a0000000-0000-4000-8000-000000000021')$$,
+    'Subscription plan change is recorded as plan_change'
+);
+
+UPDATE subscriptions SET status = 'past_due'
+WHERE id = 'a0000000-0000-4000-8000-000000000040';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000040' AND action = 'update'),
+    1,
+    'Subscription change without a new plan is recorded as update'
+);
+
+-- override_add / override_remove
+INSERT INTO organization_feature_overrides (id, organization_id, feature_id, override_value, reason)
+VALUES (
+    'a0000000-0000-4000-8000-000000000060',
+    'a0000000-0000-4000-8000-000000000010',
+    'a0000000-0000-4000-8000-000000000030',
+    true,
+    'Deneme'
+);
+
+SELECT results_eq(
+    $$SELECT action, entity_type, organization_id
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000060'$$,
+    $$VALUES ('override_add', 'feature_override', 'a0000000-0000-4000-8000-000000000010'::UUID)$$,
+    'Feature override insert is recorded as override_add'
+);
+
+UPDATE organization_feature_overrides SET reason = 'Deneme suresi'
+WHERE id = 'a0000000-0000-4000-8000-000000000060';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000060' AND action = 'update'),
+    1,
+    'Feature override change is recorded as update'
+);
+
+DELETE FROM organization_feature_overrides
+WHERE id = 'a0000000-0000-4000-8000-000000000060';
+
+SELECT results_eq(
+    $$SELECT old_data->>'reason', new_data
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000060' AND action = 'override_remove'$$,
+    $$VALUES ('Deneme suresi', NULL::JSONB)$$,
+    'Feature override delete is recorded as override_remove with the removed row'
+);
+
+-- delete
+DELETE FROM categories
+WHERE id = 'a0000000-0000-4000-8000-000000000050';
+
+SELECT results_eq(
+    $$SELECT old_data->>'name', new_data
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000050' AND action = 'delete'$$,
+    $$VALUES ('Sicak Kahveler', NULL::JSONB)$$,
+    'Delete is recorded with the removed row'
+);
+
+-- organization delete: the cascade is covered by the organization entry
+INSERT INTO categories (id, organization_id, name, slug)
+VALUES ('a0000000-0000-4000-8000-000000000051', 'a0000000-0000-4000-8000-000000000010', 'Tatlilar', 'tatlilar');
+
+DELETE FROM organizations
+WHERE id = 'a0000000-0000-4000-8000-000000000010';
+
+SELECT is(
+    (SELECT count(*)::INT FROM audit_logs
+     WHERE entity_id = 'a0000000-0000-4000-8000-000000000051' AND action = 'delete'),
+    0,
+    'Rows removed by an organization delete are not recorded one by one'
+);
+
+SELECT results_eq(
+    $$SELECT action, organization_id
+      FROM audit_logs WHERE entity_id = 'a0000000-0000-4000-8000-000000000010' AND action = 'delete'$$,
+    $$VALUES ('delete', NULL::UUID)$$,
+    'Organization delete is recorded without an organization reference'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -102,6 +102,38 @@ export interface PriceLedgerEntry {
   change_reason: string | null
   changed_by: string | null
   created_at: string
+  /** Product variant this price belongs to (NULL = base product price) */
+  variant_id?: string | null
+  /** When the price takes effect (NULL = at created_at, future = scheduled) */
+  effective_from?: string | null
+  /** Organization whose hash chain contains this entry (set by trigger) */
+  organization_id?: string | null
+  /** Position in the organization hash chain, starting at 1 (set by trigger) */
+  chain_position?: number | null
+  /** entry_hash of the previous entry in the chain (NULL for the first) */
+  previous_hash?: string | null
+  /** SHA-256 over the entry and previous_hash (set by trigger) */
+  entry_hash?: string | null
+}
+
+/**
+ * Cancellation of a scheduled price entry (INSERT-ONLY, immutable)
+ */
+export interface PriceLedgerCancellation {
+  price_ledger_id: string
+  cancel_reason: string | null
+  cancelled_by: string | null
+  created_at: string
+}
+
+/**
+ * Price entry restored by a menu rollback (INSERT-ONLY, immutable).
+ * Not counted as a price revision.
+ */
+export interface PriceLedgerRollback {
+  price_ledger_id: string
+  menu_snapshot_id: string
+  created_at: string
 }
 
 /**
@@ -114,6 +146,17 @@ export interface CurrentPrice {
   created_at: string
 }
 
+/**
+ * Current variant price view (latest price per product variant)
+ */
+export interface CurrentVariantPrice {
+  variant_id: string
+  product_id: string
+  price: number
+  currency: string
+  effective_from: string
+}
+
 /**
  * Feature definition in the catalog
  */
@@ -123,6 +166,8 @@ export interface Feature {
   name: string
   description: string | null
   type: FeatureType
+  /** Reset period of a limit feature (null = total count) */
+  limit_period?: 'day' | 'week' | 'month' | 'year' | null
   created_at: string
 }
 
@@ -181,6 +226,13 @@ export interface OrganizationFeature {
   value_limit: number | null
 }
 
+/**
+ * How a menu snapshot hash was computed
+ * - sha256-json-v1: JSON.stringify in insertion key order (before canonical JSON)
+ * - sha256-canonical-v2: canonical JSON (sorted keys, normalized numbers and dates)
+ */
+export type SnapshotHashAlgorithm = 'sha256-json-v1' | 'sha256-canonical-v2'
+
 /**
  * Menu snapshot for compliance
  */
@@ -191,6 +243,47 @@ export interface MenuSnapshot {
   hash: string
   version: number
   created_at: string
+  /** Hash of the previous version (64 zeros for the first; NULL = before hash chaining) */
+  previous_hash?: string | null
+  /** Serialization used for the hash (absent = sha256-json-v1) */
+  hash_algorithm?: SnapshotHashAlgorithm
+}
+
+/**
+ * Latest snapshot per organization (menu_snapshot_chain_heads view)
+ */
+export interface MenuSnapshotChainHead {
+  organization_id: string
+  organization_slug: string
+  snapshot_id: string
+  version: number
+  hash: string
+  created_at: string
+}
+
+/**
+ * Menu publish request status
+ */
+export type PublishRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+/**
+ * Menu publish request: a draft prepared by a manager, published when an
+ * owner or admin approves it
+ */
+export interface MenuPublishRequest {
+  id: string
+  organization_id: string
+  status: PublishRequestStatus
+  /** Hash of the draft menu data the request was made for */
+  draft_hash: string
+  note: string | null
+  requested_by: string | null
+  reviewed_by: string | null
+  review_note: string | null
+  /** Snapshot published on approval */
+  snapshot_id: string | null
+  created_at: string
+  reviewed_at: string | null
 }
 
 /**
@@ -215,6 +308,20 @@ export interface ServiceRequest {
   request_type: string
   status: ServiceRequestStatus
   created_at: string
+  /** Set by the retention job; archived requests are hidden from members */
+  archived_at?: string | null
+}
+
+/**
+ * Retention applied to an organization by the daily retention job
+ */
+export interface OrganizationRetention {
+  organization_id: string
+  /** Applied retention_days limit (-1 = unlimited) */
+  retention_days: number
+  /** Audit logs and service requests created before this are hidden */
+  archived_before: string | null
+  applied_at: string
 }
 
 /**
@@ -232,6 +339,235 @@ export interface AuditLog {
   created_at: string
 }
 
+/**
+ * Additional menu language enabled by an organization
+ */
+export interface OrganizationLanguage {
+  id: string
+  organization_id: string
+  locale: string
+  is_published: boolean
+  sort_order: number
+  created_at: string
+}
+
+/**
+ * Localized product content
+ */
+export interface ProductTranslation {
+  id: string
+  organization_id: string
+  product_id: string
+  locale: string
+  name: string
+  description: string | null
+  created_at: string
+}
+
+/**
+ * Localized category name
+ */
+export interface CategoryTranslation {
+  id: string
+  organization_id: string
+  category_id: string
+  locale: string
+  name: string
+  created_at: string
+}
+
+/**
+ * Happy hour discount type
+ */
+export type PriceRuleDiscountType = 'percentage' | 'fixed'
+
+/**
+ * Happy hour price rule (targets a product or a category)
+ */
+export interface PriceRule {
+  id: string
+  organization_id: string
+  name: string
+  product_id: string | null
+  category_id: string | null
+  discount_type: PriceRuleDiscountType
+  discount_value: number
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Immutable discounted price ledger entry (companion to price_ledger)
+ */
+export interface DiscountedPriceLedgerEntry {
+  id: string
+  organization_id: string
+  product_id: string
+  price_rule_id: string
+  base_price: number
+  price: number
+  currency: string
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+  change_reason: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+/**
+ * Product variant (portion/size) with its own price_ledger history
+ */
+export interface ProductVariant {
+  id: string
+  organization_id: string
+  product_id: string
+  name: string
+  sort_order: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Reusable modifier (add-on) group - required when min_selections > 0
+ */
+export interface ModifierGroup {
+  id: string
+  organization_id: string
+  name: string
+  min_selections: number
+  max_selections: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Option of a modifier group (price in modifier_price_ledger)
+ */
+export interface ModifierOption {
+  id: string
+  organization_id: string
+  group_id: string
+  name: string
+  sort_order: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Modifier group attached to a product
+ */
+export interface ProductModifierGroup {
+  organization_id: string
+  product_id: string
+  group_id: string
+  sort_order: number
+  created_at: string
+}
+
+/**
+ * Immutable modifier option price entry (companion to price_ledger)
+ */
+export interface ModifierPriceLedgerEntry {
+  id: string
+  organization_id: string
+  option_id: string
+  price: number
+  currency: string
+  change_reason: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+/**
+ * Set menu / bundle built from existing products (price in bundle_price_ledger)
+ */
+export interface Bundle {
+  id: string
+  organization_id: string
+  name: string
+  description: string | null
+  image_url: string | null
+  sort_order: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Component product of a bundle
+ */
+export interface BundleItem {
+  id: string
+  organization_id: string
+  bundle_id: string
+  product_id: string
+  quantity: number
+  sort_order: number
+  created_at: string
+}
+
+/**
+ * Immutable bundle price entry (companion to price_ledger)
+ */
+export interface BundlePriceLedgerEntry {
+  id: string
+  organization_id: string
+  bundle_id: string
+  price: number
+  currency: string
+  change_reason: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+/**
+ * Cross-sell companion recommended with a product
+ */
+export interface ProductRecommendation {
+  organization_id: string
+  product_id: string
+  recommended_product_id: string
+  sort_order: number
+  created_at: string
+}
+
+/**
+ * Product badge type
+ */
+export type ProductBadgeType = 'chef_recommendation' | 'daily_special'
+
+/**
+ * Product badge schedule type
+ */
+export type BadgeScheduleType = 'daily' | 'weekly'
+
+/**
+ * Scheduled chef recommendation / daily special badge of a product
+ */
+export interface ProductBadge {
+  id: string
+  organization_id: string
+  product_id: string
+  badge_type: ProductBadgeType
+  schedule_type: BadgeScheduleType
+  days_of_week: number[]
+  starts_on: string
+  ends_on: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
 /**
  * Database schema type for Supabase client
  */
@@ -279,6 +615,22 @@ export interface Database {
         // UPDATE not allowed on price_ledger
         Update: never
       }
+      price_ledger_cancellations: {
+        Row: PriceLedgerCancellation
+        Insert: Omit<PriceLedgerCancellation, 'created_at'> & {
+          created_at?: string
+        }
+        // UPDATE not allowed on price_ledger_cancellations
+        Update: never
+      }
+      price_ledger_rollbacks: {
+        Row: PriceLedgerRollback
+        Insert: Omit<PriceLedgerRollback, 'created_at'> & {
+          created_at?: string
+        }
+        // UPDATE not allowed on price_ledger_rollbacks
+        Update: never
+      }
       features: {
         Row: Feature
         Insert: Omit<Feature, 'id' | 'created_at'> & {
@@ -320,6 +672,14 @@ export interface Database {
         }
         Update: Partial<Omit<MenuSnapshot, 'id'>>
       }
+      menu_publish_requests: {
+        Row: MenuPublishRequest
+        Insert: Omit<MenuPublishRequest, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        Update: Partial<Omit<MenuPublishRequest, 'id' | 'organization_id'>>
+      }
       restaurant_tables: {
         Row: RestaurantTable
         Insert: Omit<RestaurantTable, 'id'> & { id?: string }
@@ -333,6 +693,13 @@ export interface Database {
         }
         Update: Partial<Omit<ServiceRequest, 'id'>>
       }
+      organization_retention: {
+        Row: OrganizationRetention
+        Insert: Omit<OrganizationRetention, 'applied_at'> & {
+          applied_at?: string
+        }
+        Update: Partial<Omit<OrganizationRetention, 'organization_id'>>
+      }
       audit_logs: {
         Row: AuditLog
         Insert: Omit<AuditLog, 'id' | 'created_at'> & {
@@ -341,17 +708,193 @@ export interface Database {
         }
         Update: Partial<Omit<AuditLog, 'id'>>
       }
+      organization_languages: {
+        Row: OrganizationLanguage
+        Insert: Omit<OrganizationLanguage, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        Update: Partial<Omit<OrganizationLanguage, 'id'>>
+      }
+      product_translations: {
+        Row: ProductTranslation
+        Insert: Omit<ProductTranslation, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        Update: Partial<Omit<ProductTranslation, 'id'>>
+      }
+      category_translations: {
+        Row: CategoryTranslation
+        Insert: Omit<CategoryTranslation, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        Update: Partial<Omit<CategoryTranslation, 'id'>>
+      }
+      price_rules: {
+        Row: PriceRule
+        Insert: Omit<PriceRule, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<PriceRule, 'id'>>
+      }
+      discounted_price_ledger: {
+        Row: DiscountedPriceLedgerEntry
+        Insert: Omit<DiscountedPriceLedgerEntry, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        // UPDATE not allowed on discounted_price_ledger
+        Update: never
+      }
+      product_variants: {
+        Row: ProductVariant
+        Insert: Omit<ProductVariant, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<ProductVariant, 'id'>>
+      }
+      modifier_groups: {
+        Row: ModifierGroup
+        Insert: Omit<ModifierGroup, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<ModifierGroup, 'id'>>
+      }
+      modifier_options: {
+        Row: ModifierOption
+        Insert: Omit<ModifierOption, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<ModifierOption, 'id'>>
+      }
+      product_modifier_groups: {
+        Row: ProductModifierGroup
+        Insert: Omit<ProductModifierGroup, 'created_at'> & {
+          created_at?: string
+        }
+        Update: Partial<ProductModifierGroup>
+      }
+      modifier_price_ledger: {
+        Row: ModifierPriceLedgerEntry
+        Insert: Omit<ModifierPriceLedgerEntry, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        // UPDATE not allowed on modifier_price_ledger
+        Update: never
+      }
+      bundles: {
+        Row: Bundle
+        Insert: Omit<Bundle, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<Bundle, 'id'>>
+      }
+      bundle_items: {
+        Row: BundleItem
+        Insert: Omit<BundleItem, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        Update: Partial<Omit<BundleItem, 'id'>>
+      }
+      bundle_price_ledger: {
+        Row: BundlePriceLedgerEntry
+        Insert: Omit<BundlePriceLedgerEntry, 'id' | 'created_at'> & {
+          id?: string
+          created_at?: string
+        }
+        // UPDATE not allowed on bundle_price_ledger
+        Update: never
+      }
+      product_recommendations: {
+        Row: ProductRecommendation
+        Insert: Omit<ProductRecommendation, 'created_at'> & {
+          created_at?: string
+        }
+        Update: Partial<ProductRecommendation>
+      }
+      product_badges: {
+        Row: ProductBadge
+        Insert: Omit<ProductBadge, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: Partial<Omit<ProductBadge, 'id'>>
+      }
     }
     Views: {
       current_prices: {
         Row: CurrentPrice
       }
+      current_variant_prices: {
+        Row: CurrentVariantPrice
+      }
+      upcoming_price_changes: {
+        Row: PriceLedgerEntry & { effective_from: string }
+      }
+      due_price_publications: {
+        Row: { organization_id: string; effective_from: string; change_count: number }
+      }
+      price_revisions: {
+        Row: {
+          id: string
+          organization_id: string
+          product_id: string
+          variant_id: string | null
+          created_at: string
+        }
+      }
+      current_modifier_prices: {
+        Row: Omit<ModifierPriceLedgerEntry, 'id' | 'change_reason' | 'changed_by' | 'created_at'> & {
+          effective_from: string
+        }
+      }
+      current_bundle_prices: {
+        Row: Omit<BundlePriceLedgerEntry, 'id' | 'change_reason' | 'changed_by' | 'created_at'> & {
+          effective_from: string
+        }
+      }
+      current_discounted_prices: {
+        Row: Omit<DiscountedPriceLedgerEntry, 'id' | 'change_reason' | 'changed_by' | 'created_at'> & {
+          effective_from: string
+        }
+      }
       v_organization_features: {
         Row: OrganizationFeature
       }
+      menu_snapshot_chain_heads: {
+        Row: MenuSnapshotChainHead
+      }
     }
     Functions: {
-      // Define any RPC functions here as needed
+      rollback_menu_snapshot: {
+        Args: {
+          p_organization_id: string
+          p_user_id: string
+          p_change_reason: string
+          p_snapshot: Json
+          p_prices: Json
+          p_discounted_prices: Json
+          p_modifier_prices: Json
+          p_bundle_prices: Json
+          p_audit: Json
+        }
+        Returns: MenuSnapshot
+      }
     }
     Enums: {
       user_role: UserRole
@@ -19,6 +19,7 @@ export type {
   Product,
   PriceLedgerEntry,
   CurrentPrice,
+  CurrentVariantPrice,
   Feature,
   Plan,
   PlanFeature,
@@ -29,6 +30,24 @@ export type {
   RestaurantTable,
   ServiceRequest,
   AuditLog,
+  OrganizationLanguage,
+  ProductTranslation,
+  CategoryTranslation,
+  PriceRuleDiscountType,
+  PriceRule,
+  DiscountedPriceLedgerEntry,
+  ProductVariant,
+  ModifierGroup,
+  ModifierOption,
+  ProductModifierGroup,
+  ModifierPriceLedgerEntry,
+  Bundle,
+  BundleItem,
+  BundlePriceLedgerEntry,
+  ProductRecommendation,
+  ProductBadgeType,
+  BadgeScheduleType,
+  ProductBadge,
   Database,
 } from './database'
 
@@ -110,14 +129,19 @@ export interface MenuComponent {
 
 /**
  * Theme configuration for public menu
+ * Stored in organizations.settings.theme (see lib/services/theme.ts)
  */
 export interface MenuTheme {
+  /** #rrggbb colors */
   primaryColor: string
   secondaryColor: string
   backgroundColor: string
   textColor: string
+  /** MENU_FONTS key */
   fontFamily: string
+  /** Corner radius in px */
   borderRadius: number
+  /** Card padding in px */
   spacing: number
 }
 